@@ -12,6 +12,8 @@ import googleConfig from './auth-google/config/google.config';
 import appleConfig from './auth-apple/config/apple.config';
 import throttlerConfig from './config/throttler.config';
 import documentProcessingConfig from './document-processing/config/document-processing.config';
+import auditConfig from './audit/config/audit.config';
+import domainEventsConfig from './domain-events/config/domain-events.config';
 import path from 'path';
 import { ConfigModule, ConfigService } from '@nestjs/config';
 import { TypeOrmModule } from '@nestjs/typeorm';
@@ -63,6 +65,8 @@ const infrastructureDatabaseModule = (databaseConfig() as DatabaseConfig)
         appleConfig,
         throttlerConfig,
         documentProcessingConfig,
+        auditConfig,
+        domainEventsConfig,
       ],
       envFilePath: ['.env'],
     }),
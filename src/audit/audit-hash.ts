@@ -0,0 +1,47 @@
+import { createHash } from 'crypto';
+import { AuditEvent } from './domain/audit-event';
+
+// previousHash of the first event in the chain
+export const AUDIT_GENESIS_HASH = '0'.repeat(64);
+
+/**
+ * SHA-256 over a canonical (sorted-key) JSON encoding of the event,
+ * chained to the previous event's hash
+ */
+export function computeAuditHash(event: Omit<AuditEvent, 'id' | 'hash'>) {
+  const payload = {
+    sequence: event.sequence,
+    timestamp: event.timestamp.toISOString(),
+    userId: event.userId,
+    subjectUserId: event.subjectUserId ?? null,
+    provider: event.provider,
+    event: event.event,
+    sessionId: event.sessionId ?? null,
+    success: event.success,
+    ipAddress: event.ipAddress ?? null,
+    userAgent: event.userAgent ?? null,
+    location: event.location ?? null,
+    errorType: event.errorType ?? null,
+    environment: event.environment ?? null,
+    documentId: event.documentId ?? null,
+    metadata: event.metadata ?? null,
+    previousHash: event.previousHash,
+  };
+
+  return createHash('sha256').update(canonicalJson(payload)).digest('hex');
+}
+
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => canonicalJson(item)).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const record = value as Record<string, unknown>;
+    return `{${Object.keys(record)
+      .sort()
+      .filter((key) => record[key] !== undefined)
+      .map((key) => `${JSON.stringify(key)}:${canonicalJson(record[key])}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
@@ -0,0 +1,59 @@
+import { Injectable, NestMiddleware } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { NextFunction, Request, Response } from 'express';
+import { isIP } from 'net';
+import { AllConfigType } from '../config/config.type';
+import { auditRequestContext } from './audit-request-context';
+
+const PRIVATE_ADDRESS =
+  /^(127\.|10\.|192\.168\.|172\.(1[6-9]|2\d|3[01])\.|::1$|f[cd][0-9a-f]{2}:|fe80:)/i;
+
+/**
+ * Capture client IP, user agent and coarse location for audit events
+ *
+ * Location comes from a geo header added by the load balancer from the
+ * client IP (AUDIT_GEO_LOCATION_HEADER), e.g. on a GCP HTTPS load balancer:
+ * X-Client-Geo-Location: {client_region},{client_region_subdivision},{client_city}
+ * Only enable it behind a proxy that overwrites the header.
+ */
+@Injectable()
+export class AuditRequestContextMiddleware implements NestMiddleware {
+  constructor(private readonly configService: ConfigService<AllConfigType>) {}
+
+  use(req: Request, _res: Response, next: NextFunction): void {
+    const ipAddress = (req.ip || req.socket?.remoteAddress)?.replace(
+      /^::ffff:/,
+      '',
+    );
+
+    auditRequestContext.run(
+      {
+        ipAddress,
+        userAgent: req.headers['user-agent'],
+        location: this.coarseLocation(req, ipAddress),
+      },
+      next,
+    );
+  }
+
+  private coarseLocation(req: Request, ipAddress?: string): string | undefined {
+    const header = this.configService.get('audit.geoLocationHeader', {
+      infer: true,
+    });
+    const value = header ? req.headers[header.toLowerCase()] : undefined;
+    const location = (Array.isArray(value) ? value[0] : value)
+      ?.split(',')
+      .map((part) => part.trim())
+      .filter(Boolean)
+      .join(', ')
+      .substring(0, 100);
+
+    if (location) {
+      return location;
+    }
+    if (ipAddress && isIP(ipAddress) && PRIVATE_ADDRESS.test(ipAddress)) {
+      return 'Private network';
+    }
+    return undefined;
+  }
+}
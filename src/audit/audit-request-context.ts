@@ -0,0 +1,14 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+/**
+ * Per-request client details, filled in by AuditRequestContextMiddleware so
+ * audit events logged deep in the domain layer still record who connected
+ * from where
+ */
+export interface AuditRequestContext {
+  ipAddress?: string;
+  userAgent?: string;
+  location?: string; // Coarse (country/region/city), never precise
+}
+
+export const auditRequestContext = new AsyncLocalStorage<AuditRequestContext>();
@@ -0,0 +1,153 @@
+import {
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Query,
+  StreamableFile,
+  UseGuards,
+} from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
+import {
+  ApiBearerAuth,
+  ApiForbiddenResponse,
+  ApiOkResponse,
+  ApiOperation,
+  ApiProduces,
+  ApiTags,
+  ApiUnauthorizedResponse,
+} from '@nestjs/swagger';
+import { Readable } from 'stream';
+import { Roles } from '../roles/roles.decorator';
+import { RoleEnum } from '../roles/roles.enum';
+import { RolesGuard } from '../roles/roles.guard';
+import {
+  InfinityPaginationResponse,
+  InfinityPaginationResponseDto,
+} from '../utils/dto/infinity-pagination-response.dto';
+import { infinityPagination } from '../utils/infinity-pagination';
+import { AuditChainVerification, AuditService } from './audit.service';
+import { AuditEvent } from './domain/audit-event';
+import {
+  AuditExportFormat,
+  ExportAuditEventsDto,
+  QueryAuditEventDto,
+} from './dto/query-audit-event.dto';
+
+/**
+ * Audit Log Controller (compliance officers)
+ *
+ * HIPAA Compliance:
+ * - Admin only: audit events reveal who accessed which records
+ * - Read only: the audit store is append-only
+ */
+@ApiBearerAuth()
+@Roles(RoleEnum.admin)
+@UseGuards(AuthGuard('jwt'), RolesGuard)
+@ApiTags('Audit')
+@Controller({
+  path: 'audit-events',
+  version: '1',
+})
+export class AuditController {
+  constructor(private readonly auditService: AuditService) {}
+
+  @Get()
+  @ApiOperation({
+    summary: 'Search Audit Events (Admin Only)',
+    description:
+      'Search persisted audit events by user, event type, document, date range and outcome, newest first. ' +
+      'Maximum 100 items per page.',
+  })
+  @ApiOkResponse({
+    type: InfinityPaginationResponse(AuditEvent),
+    description: 'Paginated list of audit events',
+  })
+  @ApiUnauthorizedResponse({
+    description: 'Invalid or expired access token',
+  })
+  @ApiForbiddenResponse({
+    description: 'Insufficient permissions. Admin role required.',
+  })
+  @HttpCode(HttpStatus.OK)
+  async findAll(
+    @Query() query: QueryAuditEventDto,
+  ): Promise<InfinityPaginationResponseDto<AuditEvent>> {
+    const { page: queryPage, limit: queryLimit, ...filterOptions } = query;
+    const page = queryPage ?? 1;
+    let limit = queryLimit ?? 10;
+    if (limit > 100) {
+      limit = 100;
+    }
+
+    return infinityPagination(
+      await this.auditService.findManyWithPagination({
+        filterOptions,
+        paginationOptions: {
+          page,
+          limit,
+        },
+      }),
+      { page, limit },
+    );
+  }
+
+  @Get('export')
+  @ApiOperation({
+    summary: 'Export Audit Events (Admin Only)',
+    description:
+      'Download matching audit events, oldest first, as CSV or NDJSON (default: ndjson). ' +
+      'Export size is capped by AUDIT_EXPORT_MAX_ROWS.',
+  })
+  @ApiProduces('text/csv', 'application/x-ndjson')
+  @ApiOkResponse({ description: 'Audit event export' })
+  @ApiUnauthorizedResponse({
+    description: 'Invalid or expired access token',
+  })
+  @ApiForbiddenResponse({
+    description: 'Insufficient permissions. Admin role required.',
+  })
+  export(@Query() query: ExportAuditEventsDto): StreamableFile {
+    const { format = AuditExportFormat.NDJSON, ...filterOptions } = query;
+
+    return new StreamableFile(
+      Readable.from(this.auditService.exportEvents(filterOptions, format)),
+      {
+        type:
+          format === AuditExportFormat.CSV
+            ? 'text/csv'
+            : 'application/x-ndjson',
+        disposition: `attachment; filename="audit-events.${format}"`,
+      },
+    );
+  }
+
+  @Get('verify')
+  @ApiOperation({
+    summary: 'Verify Audit Hash Chain (Admin Only)',
+    description:
+      'Recompute the hash chain over all persisted audit events. ' +
+      'Reports the first sequence number where rows were altered, removed or reordered.',
+  })
+  @ApiOkResponse({
+    description: 'Verification result',
+    schema: {
+      type: 'object',
+      properties: {
+        valid: { type: 'boolean' },
+        checked: { type: 'number' },
+        brokenAtSequence: { type: 'number' },
+      },
+    },
+  })
+  @ApiUnauthorizedResponse({
+    description: 'Invalid or expired access token',
+  })
+  @ApiForbiddenResponse({
+    description: 'Insufficient permissions. Admin role required.',
+  })
+  @HttpCode(HttpStatus.OK)
+  verify(): Promise<AuditChainVerification> {
+    return this.auditService.verifyChain();
+  }
+}
@@ -1,8 +1,27 @@
-import { Module } from '@nestjs/common';
+import { MiddlewareConsumer, Module, NestModule } from '@nestjs/common';
 import { AuditService } from './audit.service';
+import { AuditController } from './audit.controller';
+import { AuditRequestContextMiddleware } from './audit-request-context.middleware';
+import { DocumentAuditPersistenceModule } from './infrastructure/persistence/document/document-persistence.module';
+import { RelationalAuditPersistenceModule } from './infrastructure/persistence/relational/relational-persistence.module';
+import { DatabaseConfig } from '../database/config/database-config.type';
+import databaseConfig from '../database/config/database.config';
+
+// <database-block>
+const infrastructurePersistenceModule = (databaseConfig() as DatabaseConfig)
+  .isDocumentDatabase
+  ? DocumentAuditPersistenceModule
+  : RelationalAuditPersistenceModule;
+// </database-block>
 
 @Module({
+  imports: [infrastructurePersistenceModule],
+  controllers: [AuditController],
   providers: [AuditService],
   exports: [AuditService],
 })
-export class AuditModule {}
+export class AuditModule implements NestModule {
+  configure(consumer: MiddlewareConsumer) {
+    consumer.apply(AuditRequestContextMiddleware).forRoutes('*');
+  }
+}
@@ -0,0 +1,242 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { AuditService, AuthEventType } from './audit.service';
+import { AuditEvent } from './domain/audit-event';
+import { AuditEventRepository } from './infrastructure/persistence/audit-event.repository';
+import { AuditExportFormat } from './dto/query-audit-event.dto';
+import { auditRequestContext } from './audit-request-context';
+
+describe('AuditService', () => {
+  let service: AuditService;
+  let events: AuditEvent[];
+  let config: Record<string, unknown>;
+  let repository: AuditEventRepository;
+
+  beforeEach(async () => {
+    events = [];
+    config = {
+      'app.nodeEnv': 'test',
+      'audit.consoleEnabled': false,
+      'audit.persistenceEnabled': true,
+      'audit.exportMaxRows': 100,
+    };
+
+    // In-memory append-only store with a unique sequence
+    repository = {
+      append: jest.fn((event) => {
+        if (events.some((stored) => stored.sequence === event.sequence)) {
+          return Promise.resolve(null);
+        }
+        const stored = { ...event, id: `event-${event.sequence}` };
+        events.push(stored);
+        return Promise.resolve(stored);
+      }),
+      findLast: jest.fn(() => Promise.resolve(events[events.length - 1])),
+      findManyWithPagination: jest.fn(({ filterOptions }) =>
+        Promise.resolve(
+          events
+            .filter(
+              (event) =>
+                (!filterOptions?.documentId ||
+                  event.documentId === filterOptions?.documentId) &&
+                (!filterOptions?.subjectUserId ||
+                  event.subjectUserId === filterOptions?.subjectUserId) &&
+                filterOptions?.events?.includes(event.event),
+            )
+            .reverse(),
+        ),
+      ),
+      findManyAfterSequence: jest.fn(({ afterSequence, limit }) =>
+        Promise.resolve(
+          events
+            .filter((event) => event.sequence > afterSequence)
+            .slice(0, limit),
+        ),
+      ),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AuditService,
+        { provide: AuditEventRepository, useValue: repository },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn((key) => config[key]),
+            getOrThrow: jest.fn((key) => config[key]),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get(AuditService);
+  });
+
+  const logAccess = (userId: number, documentId: string) =>
+    service.logAuthEvent({
+      userId,
+      provider: 'document-processing',
+      event: AuthEventType.DOCUMENT_ACCESSED,
+      success: true,
+      metadata: { documentId },
+    });
+
+  it('should persist events as a verifiable hash chain', async () => {
+    logAccess(1, 'doc-1');
+    logAccess(2, 'doc-2');
+    await service.onApplicationShutdown();
+
+    expect(events.map((event) => event.sequence)).toEqual([1, 2]);
+    expect(events[1].previousHash).toBe(events[0].hash);
+    expect(events[1].documentId).toBe('doc-2');
+    await expect(service.verifyChain()).resolves.toEqual({
+      valid: true,
+      checked: 2,
+    });
+  });
+
+  it('should detect tampered events', async () => {
+    logAccess(1, 'doc-1');
+    logAccess(2, 'doc-2');
+    logAccess(3, 'doc-3');
+    await service.onApplicationShutdown();
+
+    events[1].userId = '999';
+
+    await expect(service.verifyChain()).resolves.toEqual({
+      valid: false,
+      checked: 1,
+      brokenAtSequence: 2,
+    });
+  });
+
+  it('should detect a cleared subject or location', async () => {
+    auditRequestContext.run({ location: 'US, California, San Jose' }, () =>
+      logAccess(1, 'doc-1'),
+    );
+    logAccess(2, 'doc-2');
+    await service.onApplicationShutdown();
+
+    events[0].location = null;
+    await expect(service.verifyChain()).resolves.toEqual({
+      valid: false,
+      checked: 0,
+      brokenAtSequence: 1,
+    });
+
+    events[0].location = 'US, California, San Jose';
+    events[1].subjectUserId = null;
+    await expect(service.verifyChain()).resolves.toEqual({
+      valid: false,
+      checked: 1,
+      brokenAtSequence: 2,
+    });
+  });
+
+  it('should export CSV with escaped metadata', async () => {
+    logAccess(1, 'doc-1');
+    await service.onApplicationShutdown();
+
+    const lines: string[] = [];
+    for await (const line of service.exportEvents(
+      null,
+      AuditExportFormat.CSV,
+    )) {
+      lines.push(line);
+    }
+
+    expect(lines).toHaveLength(2);
+    expect(lines[0]).toMatch(/^sequence,timestamp,userId/);
+    expect(lines[1]).toContain('"{""documentId"":""doc-1""}"');
+  });
+
+  it('should neutralize spreadsheet formulas in the CSV export', async () => {
+    service.logAuthEvent({
+      userId: 1,
+      provider: 'document-processing',
+      event: AuthEventType.DOCUMENT_ACCESSED,
+      success: false,
+      userAgent: '=HYPERLINK("http://evil.example","x")',
+      errorMessage: '+cmd',
+    });
+    await service.onApplicationShutdown();
+
+    const lines: string[] = [];
+    for await (const line of service.exportEvents(
+      null,
+      AuditExportFormat.CSV,
+    )) {
+      lines.push(line);
+    }
+
+    expect(lines[1]).toContain(`"'=HYPERLINK(""http://evil.example"",""x"")"`);
+    expect(lines[1]).not.toMatch(/(^|,)[=+\-@]/);
+  });
+
+  it('should reject a recorded event the store could not persist', async () => {
+    jest
+      .mocked(repository.append)
+      .mockRejectedValueOnce(new Error('connection lost'));
+
+    await expect(
+      service.record({
+        userId: 1,
+        provider: 'document-processing',
+        event: AuthEventType.DOCUMENT_ACCESSED,
+        success: true,
+        metadata: { documentId: 'doc-1' },
+      }),
+    ).rejects.toThrow('connection lost');
+
+    // Later writes are not affected by the failed one
+    logAccess(2, 'doc-2');
+    await service.onApplicationShutdown();
+    expect(events.map((event) => event.documentId)).toEqual(['doc-2']);
+  });
+
+  it('should keep the console sink optional', async () => {
+    const consoleSpy = jest.spyOn(console, 'info').mockImplementation();
+
+    logAccess(1, 'doc-1');
+    config['audit.consoleEnabled'] = true;
+    logAccess(1, 'doc-1');
+    await service.onApplicationShutdown();
+
+    expect(consoleSpy).toHaveBeenCalledTimes(1);
+    expect(events).toHaveLength(2);
+    consoleSpy.mockRestore();
+  });
+
+  it('should show delegated access in the owner access history', async () => {
+    auditRequestContext.run(
+      { ipAddress: '203.0.113.7', location: 'US, California, San Jose' },
+      () =>
+        service.logAuthEvent({
+          userId: 2,
+          subjectUserId: 1,
+          provider: 'document-processing',
+          event: AuthEventType.DOCUMENT_ACCESSED,
+          success: true,
+          metadata: { documentId: 'doc-1' },
+        }),
+    );
+    logAccess(1, 'doc-1');
+    await service.onApplicationShutdown();
+
+    expect(events[0].ipAddress).toBe('203.0.113.7');
+    await expect(
+      service.findAccessLog({
+        viewerId: 1,
+        paginationOptions: { page: 1, limit: 10 },
+      }),
+    ).resolves.toEqual([
+      expect.objectContaining({ actorUserId: '1', isSelf: true }),
+      expect.objectContaining({
+        actorUserId: '2',
+        isSelf: false,
+        action: 'DOCUMENT_ACCESSED',
+        location: 'US, California, San Jose',
+      }),
+    ]);
+  });
+});
@@ -1,11 +1,53 @@
-import { Injectable } from '@nestjs/common';
+import { Injectable, Logger, OnApplicationShutdown } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { AllConfigType } from '../config/config.type';
+import { AuditEvent } from './domain/audit-event';
+import { AuditEventRepository } from './infrastructure/persistence/audit-event.repository';
+import { AUDIT_GENESIS_HASH, computeAuditHash } from './audit-hash';
+import {
+  AuditExportFormat,
+  FilterAuditEventDto,
+} from './dto/query-audit-event.dto';
+import { IPaginationOptions } from '../utils/types/pagination-options';
+import { AccessLogEntryDto } from './dto/access-log-entry.dto';
+import { auditRequestContext } from './audit-request-context';
+import { DocumentEventType } from '../document-processing/domain/enums/document-event-type.enum';
+
+// Retries when another instance appends the same sequence number first
+const APPEND_MAX_ATTEMPTS = 5;
+const BATCH_SIZE = 500;
+
+const CSV_COLUMNS: (keyof AuditEvent)[] = [
+  'sequence',
+  'timestamp',
+  'userId',
+  'subjectUserId',
+  'provider',
+  'event',
+  'success',
+  'documentId',
+  'sessionId',
+  'ipAddress',
+  'userAgent',
+  'location',
+  'errorType',
+  'environment',
+  'metadata',
+  'previousHash',
+  'hash',
+];
+
+export interface AuditChainVerification {
+  valid: boolean;
+  checked: number;
+  brokenAtSequence?: number;
+}
 
 export interface AuthEventData {
   userId: string | number;
+  subjectUserId?: string | number; // Whose records/account the event concerns (default: userId)
   provider: string;
-  event: AuthEventType;
+  event: AuthEventType | DocumentEventType;
   sessionId?: string | number;
   ipAddress?: string;
   userAgent?: string;
@@ -30,6 +72,16 @@ export enum AuthEventType {
   // Token introspection events (RFC 7662)
   TOKEN_INTROSPECTION_SUCCESS = 'TOKEN_INTROSPECTION_SUCCESS',
   TOKEN_INTROSPECTION_FAILED = 'TOKEN_INTROSPECTION_FAILED',
+  // Multi-factor authentication
+  MFA_ENABLED = 'MFA_ENABLED',
+  MFA_DISABLED = 'MFA_DISABLED',
+  MFA_CHALLENGE_ISSUED = 'MFA_CHALLENGE_ISSUED',
+  MFA_CHALLENGE_FAILED = 'MFA_CHALLENGE_FAILED',
+  MFA_RECOVERY_CODE_USED = 'MFA_RECOVERY_CODE_USED',
+  MFA_RECOVERY_CODES_REGENERATED = 'MFA_RECOVERY_CODES_REGENERATED',
+  MFA_LOCKED = 'MFA_LOCKED',
+  // Access token signing keys (JWKS)
+  SIGNING_KEY_ROTATED = 'SIGNING_KEY_ROTATED',
   // Apple Sign In server-to-server notification events
   APPLE_EMAIL_DISABLED = 'APPLE_EMAIL_DISABLED',
   APPLE_EMAIL_ENABLED = 'APPLE_EMAIL_ENABLED',
@@ -37,15 +89,55 @@ export enum AuthEventType {
   APPLE_ACCOUNT_DELETED = 'APPLE_ACCOUNT_DELETED',
   // Document processing events (HIPAA compliance)
   DOCUMENT_UPLOADED = 'DOCUMENT_UPLOADED',
+  DOCUMENT_UPLOAD_REJECTED = 'DOCUMENT_UPLOAD_REJECTED',
+  DOCUMENT_QUARANTINED = 'DOCUMENT_QUARANTINED',
   DOCUMENT_PROCESSING_STARTED = 'DOCUMENT_PROCESSING_STARTED',
   DOCUMENT_PROCESSING_COMPLETED = 'DOCUMENT_PROCESSING_COMPLETED',
   DOCUMENT_PROCESSING_FAILED = 'DOCUMENT_PROCESSING_FAILED',
+  DOCUMENT_REPROCESS_REQUESTED = 'DOCUMENT_REPROCESS_REQUESTED',
+  DOCUMENT_RUN_PROMOTED = 'DOCUMENT_RUN_PROMOTED',
   DOCUMENT_ACCESSED = 'DOCUMENT_ACCESSED',
+  DOCUMENTS_SEARCHED = 'DOCUMENTS_SEARCHED',
   DOCUMENT_DELETED = 'DOCUMENT_DELETED',
   DOCUMENT_HARD_DELETED = 'DOCUMENT_HARD_DELETED',
   UNAUTHORIZED_DOCUMENT_ACCESS = 'UNAUTHORIZED_DOCUMENT_ACCESS',
+  DOCUMENT_GRANT_CREATED = 'DOCUMENT_GRANT_CREATED',
+  DOCUMENT_GRANT_REVOKED = 'DOCUMENT_GRANT_REVOKED',
+  DOCUMENT_GRANT_USED = 'DOCUMENT_GRANT_USED',
+  WEBHOOK_SUBSCRIPTION_CREATED = 'WEBHOOK_SUBSCRIPTION_CREATED',
+  WEBHOOK_SUBSCRIPTION_UPDATED = 'WEBHOOK_SUBSCRIPTION_UPDATED',
+  WEBHOOK_SUBSCRIPTION_DELETED = 'WEBHOOK_SUBSCRIPTION_DELETED',
 }
 
+/**
+ * Events shown to patients in their access history (accounting of disclosures)
+ */
+export const DOCUMENT_ACCESS_LOG_EVENTS: string[] = [
+  AuthEventType.DOCUMENT_UPLOADED,
+  AuthEventType.DOCUMENT_ACCESSED,
+  AuthEventType.DOCUMENT_DELETED,
+  AuthEventType.DOCUMENT_HARD_DELETED,
+  AuthEventType.UNAUTHORIZED_DOCUMENT_ACCESS,
+  AuthEventType.DOCUMENT_GRANT_CREATED,
+  AuthEventType.DOCUMENT_GRANT_REVOKED,
+];
+
+export const ACCOUNT_ACCESS_LOG_EVENTS: string[] = [
+  AuthEventType.ACCOUNT_CREATED,
+  AuthEventType.LOGIN_SUCCESS,
+  AuthEventType.LOGIN_FAILED,
+  AuthEventType.LOGOUT,
+  AuthEventType.PASSWORD_RESET_REQUESTED,
+  AuthEventType.PASSWORD_RESET_COMPLETED,
+  AuthEventType.EMAIL_CONFIRMED,
+  AuthEventType.MFA_ENABLED,
+  AuthEventType.MFA_DISABLED,
+  AuthEventType.MFA_CHALLENGE_FAILED,
+  AuthEventType.MFA_RECOVERY_CODE_USED,
+  AuthEventType.APPLE_CONSENT_REVOKED,
+  AuthEventType.APPLE_ACCOUNT_DELETED,
+];
+
 /**
  * Audit Service for HIPAA-compliant logging of authentication events
  *
@@ -55,13 +147,26 @@ export enum AuthEventType {
  * - NO raw tokens, passwords, or sensitive data
  * - Logs must be forwarded to a centralized logging system with retention
  *
- * TODO: Forward logs to GCP Cloud Logging with appropriate retention (6+ years for HIPAA)
+ * Sinks (each can be turned off independently):
+ * - Console: structured JSON for GCP Cloud Logging (AUDIT_CONSOLE_ENABLED)
+ * - Store: append-only, hash-chained audit_events (AUDIT_PERSISTENCE_ENABLED)
+ *
+ * Writes to the store are serialized per instance; sequence conflicts
+ * between instances are retried. logAuthEvent() never blocks or fails the
+ * caller, record() waits for the write and rejects when it fails.
+ *
  * TODO: Implement log encryption at rest
  * TODO: Add alerting for suspicious patterns (multiple failed logins, etc.)
  */
 @Injectable()
-export class AuditService {
-  constructor(private configService: ConfigService<AllConfigType>) {}
+export class AuditService implements OnApplicationShutdown {
+  private readonly logger = new Logger(AuditService.name);
+  private pendingWrites: Promise<void> = Promise.resolve();
+
+  constructor(
+    private configService: ConfigService<AllConfigType>,
+    private readonly auditEventRepository: AuditEventRepository,
+  ) {}
 
   /**
    * Log an authentication event
@@ -74,20 +179,38 @@ export class AuditService {
    * - Only log userId, provider, event type, timestamp, and success/failure
    */
   logAuthEvent(data: AuthEventData): void {
+    this.record(data).catch((error) =>
+      this.logger.error(
+        `[AUDIT] Failed to persist ${data.event} event: ${error?.message}`,
+      ),
+    );
+  }
+
+  /**
+   * Log an authentication event and wait until it is stored
+   *
+   * Rejects when the store write fails, so event subscribers are retried
+   * instead of losing the audit row.
+   */
+  async record(data: AuthEventData): Promise<void> {
+    // Client details of the current HTTP request, if any
+    const requestContext = auditRequestContext.getStore();
+    const userAgent = data.userAgent ?? requestContext?.userAgent;
+
     const logEntry = {
       timestamp: new Date().toISOString(),
       service: 'keystone-core-api',
       component: 'auth',
       userId: data.userId,
+      subjectUserId: data.subjectUserId ?? data.userId,
       provider: data.provider,
       event: data.event,
       sessionId: data.sessionId,
       success: data.success,
-      // IP and User Agent for security monitoring (not PHI)
-      ipAddress: data.ipAddress,
-      userAgent: data.userAgent
-        ? this.sanitizeUserAgent(data.userAgent)
-        : undefined,
+      // IP, User Agent and coarse location for security monitoring (not PHI)
+      ipAddress: data.ipAddress ?? requestContext?.ipAddress,
+      userAgent: userAgent ? this.sanitizeUserAgent(userAgent) : undefined,
+      location: requestContext?.location,
       errorType: data.errorMessage
         ? this.sanitizeErrorMessage(data.errorMessage)
         : undefined,
@@ -96,17 +219,47 @@ export class AuditService {
       ...(data.metadata ? { metadata: data.metadata } : {}),
     };
 
-    // Structured JSON logging for GCP Cloud Logging compatibility
-    console.info(JSON.stringify(logEntry));
+    if (
+      this.configService.getOrThrow('audit.consoleEnabled', { infer: true })
+    ) {
+      // Structured JSON logging for GCP Cloud Logging compatibility
+      console.info(JSON.stringify(logEntry));
+    }
 
-    // TODO: In production, forward to GCP Cloud Logging
-    // Example: this.gcpLoggingClient.write(logEntry);
+    if (
+      this.configService.getOrThrow('audit.persistenceEnabled', {
+        infer: true,
+      })
+    ) {
+      const event = {
+        timestamp: new Date(logEntry.timestamp),
+        userId: String(logEntry.userId),
+        subjectUserId: String(logEntry.subjectUserId),
+        provider: logEntry.provider,
+        event: logEntry.event,
+        sessionId:
+          logEntry.sessionId !== undefined ? String(logEntry.sessionId) : null,
+        success: logEntry.success,
+        ipAddress: logEntry.ipAddress ?? null,
+        userAgent: logEntry.userAgent ?? null,
+        location: logEntry.location ?? null,
+        errorType: logEntry.errorType ?? null,
+        environment: logEntry.environment ?? null,
+        documentId:
+          typeof data.metadata?.documentId === 'string'
+            ? data.metadata.documentId
+            : null,
+        // Round-trip through JSON so the hashed value matches what is stored
+        metadata: data.metadata
+          ? JSON.parse(JSON.stringify(data.metadata))
+          : null,
+      };
 
-    // TODO: For HIPAA compliance, ensure logs are:
-    // 1. Encrypted at rest
-    // 2. Access-controlled (only authorized personnel)
-    // 3. Retained for 6+ years
-    // 4. Tamper-proof (immutable once written)
+      const write = this.pendingWrites.then(() => this.appendToChain(event));
+      // Later writes wait for this one but do not inherit its failure
+      this.pendingWrites = write.catch(() => undefined);
+      await write;
+    }
   }
 
   /**
@@ -116,6 +269,187 @@ export class AuditService {
     events.forEach((event) => this.logAuthEvent(event));
   }
 
+  /**
+   * Search persisted audit events, newest first
+   */
+  findManyWithPagination({
+    filterOptions,
+    paginationOptions,
+  }: {
+    filterOptions?: FilterAuditEventDto | null;
+    paginationOptions: IPaginationOptions;
+  }): Promise<AuditEvent[]> {
+    return this.auditEventRepository.findManyWithPagination({
+      filterOptions,
+      paginationOptions,
+    });
+  }
+
+  /**
+   * Access history for a patient, newest first
+   * Without documentId: account events plus events on any of their records.
+   * With documentId: events on that document (caller must check ownership).
+   */
+  async findAccessLog({
+    viewerId,
+    documentId,
+    paginationOptions,
+  }: {
+    viewerId: string | number;
+    documentId?: string;
+    paginationOptions: IPaginationOptions;
+  }): Promise<AccessLogEntryDto[]> {
+    const events = await this.auditEventRepository.findManyWithPagination({
+      filterOptions: documentId
+        ? { documentId, events: DOCUMENT_ACCESS_LOG_EVENTS }
+        : {
+            subjectUserId: String(viewerId),
+            events: [
+              ...ACCOUNT_ACCESS_LOG_EVENTS,
+              ...DOCUMENT_ACCESS_LOG_EVENTS,
+            ],
+          },
+      paginationOptions,
+    });
+
+    return events.map((event) => ({
+      timestamp: event.timestamp,
+      action: event.event,
+      success: event.success,
+      actorUserId: event.userId,
+      isSelf: event.userId === String(viewerId),
+      documentId: event.documentId ?? undefined,
+      location: event.location ?? undefined,
+    }));
+  }
+
+  /**
+   * Stream matching events oldest first as CSV or NDJSON lines
+   * (capped at AUDIT_EXPORT_MAX_ROWS)
+   */
+  async *exportEvents(
+    filterOptions: FilterAuditEventDto | null,
+    format: AuditExportFormat,
+  ): AsyncGenerator<string> {
+    const maxRows = this.configService.getOrThrow('audit.exportMaxRows', {
+      infer: true,
+    });
+
+    if (format === AuditExportFormat.CSV) {
+      yield `${CSV_COLUMNS.join(',')}\n`;
+    }
+
+    let exported = 0;
+    for await (const event of this.iterateEvents(filterOptions)) {
+      if (exported >= maxRows) {
+        return;
+      }
+      yield format === AuditExportFormat.CSV
+        ? `${CSV_COLUMNS.map((column) => this.toCsvCell(event[column])).join(',')}\n`
+        : `${JSON.stringify(event)}\n`;
+      exported++;
+    }
+  }
+
+  /**
+   * Recompute the hash chain from the first event
+   * Detects edited, deleted, inserted or reordered rows
+   */
+  async verifyChain(): Promise<AuditChainVerification> {
+    let previous: AuditEvent | undefined;
+    let checked = 0;
+
+    for await (const event of this.iterateEvents(null)) {
+      const expectedSequence = previous ? previous.sequence + 1 : 1;
+      const expectedPreviousHash = previous?.hash ?? AUDIT_GENESIS_HASH;
+
+      if (
+        event.sequence !== expectedSequence ||
+        event.previousHash !== expectedPreviousHash ||
+        computeAuditHash(event) !== event.hash
+      ) {
+        this.logger.warn(
+          `[AUDIT] Hash chain broken at sequence ${event.sequence}`,
+        );
+        return { valid: false, checked, brokenAtSequence: event.sequence };
+      }
+
+      previous = event;
+      checked++;
+    }
+
+    return { valid: true, checked };
+  }
+
+  /**
+   * Wait for queued store writes before shutdown
+   */
+  async onApplicationShutdown(): Promise<void> {
+    await this.pendingWrites;
+  }
+
+  private async appendToChain(
+    event: Omit<AuditEvent, 'id' | 'sequence' | 'previousHash' | 'hash'>,
+  ): Promise<void> {
+    for (let attempt = 1; attempt <= APPEND_MAX_ATTEMPTS; attempt++) {
+      const last = await this.auditEventRepository.findLast();
+      const chained = {
+        ...event,
+        sequence: (last?.sequence ?? 0) + 1,
+        previousHash: last?.hash ?? AUDIT_GENESIS_HASH,
+      };
+
+      const appended = await this.auditEventRepository.append({
+        ...chained,
+        hash: computeAuditHash(chained),
+      });
+      if (appended) {
+        return;
+      }
+    }
+
+    throw new Error('Sequence conflict retries exhausted');
+  }
+
+  private async *iterateEvents(
+    filterOptions: FilterAuditEventDto | null,
+  ): AsyncGenerator<AuditEvent> {
+    let afterSequence = 0;
+
+    while (true) {
+      const batch = await this.auditEventRepository.findManyAfterSequence({
+        filterOptions,
+        afterSequence,
+        limit: BATCH_SIZE,
+      });
+
+      yield* batch;
+
+      if (batch.length < BATCH_SIZE) {
+        return;
+      }
+      afterSequence = batch[batch.length - 1].sequence;
+    }
+  }
+
+  private toCsvCell(value: unknown): string {
+    if (value === null || value === undefined) {
+      return '';
+    }
+    const text =
+      value instanceof Date
+        ? value.toISOString()
+        : typeof value === 'object'
+          ? JSON.stringify(value)
+          : String(value);
+    // Neutralize formulas: user agents, errors and metadata are user-controlled
+    const safe =
+      typeof value === 'string' && /^[=+\-@\t\r]/.test(text)
+        ? `'${text}`
+        : text;
+    return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+  }
+
   /**
    * Sanitize user agent string to remove potentially sensitive information
    */
@@ -0,0 +1,6 @@
+export type AuditConfig = {
+  consoleEnabled: boolean;
+  persistenceEnabled: boolean;
+  exportMaxRows: number;
+  geoLocationHeader?: string;
+};
@@ -0,0 +1,34 @@
+import { registerAs } from '@nestjs/config';
+import { AuditConfig } from './audit-config.type';
+import { IsBoolean, IsInt, IsOptional, IsString, Min } from 'class-validator';
+import validateConfig from '../../utils/validate-config';
+
+class EnvironmentVariablesValidator {
+  @IsBoolean()
+  @IsOptional()
+  AUDIT_CONSOLE_ENABLED: boolean;
+
+  @IsBoolean()
+  @IsOptional()
+  AUDIT_PERSISTENCE_ENABLED: boolean;
+
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  AUDIT_EXPORT_MAX_ROWS: number;
+
+  @IsString()
+  @IsOptional()
+  AUDIT_GEO_LOCATION_HEADER: string;
+}
+
+export default registerAs<AuditConfig>('audit', () => {
+  validateConfig(process.env, EnvironmentVariablesValidator);
+
+  return {
+    consoleEnabled: process.env.AUDIT_CONSOLE_ENABLED !== 'false', // Structured JSON to stdout (default: on)
+    persistenceEnabled: process.env.AUDIT_PERSISTENCE_ENABLED !== 'false', // Hash-chained audit_events store (default: on)
+    exportMaxRows: parseInt(process.env.AUDIT_EXPORT_MAX_ROWS ?? '100000', 10), // Cap per CSV/NDJSON export
+    geoLocationHeader: process.env.AUDIT_GEO_LOCATION_HEADER || undefined, // Proxy-set coarse location header (default: off)
+  };
+});
@@ -0,0 +1,76 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * Persisted audit event
+ *
+ * Rows form a hash chain: `hash` covers every other field plus
+ * `previousHash`, so editing, deleting or reordering any row breaks
+ * verification from that point onward.
+ */
+export class AuditEvent {
+  @ApiProperty({ type: String })
+  id: string;
+
+  @ApiProperty({ type: Number, description: 'Position in the hash chain' })
+  sequence: number;
+
+  @ApiProperty()
+  timestamp: Date;
+
+  @ApiProperty({ type: String, example: '123' })
+  userId: string;
+
+  @ApiProperty({
+    type: String,
+    required: false,
+    description: 'User whose account or records the event concerns',
+  })
+  subjectUserId?: string | null;
+
+  @ApiProperty({ type: String, example: 'document-processing' })
+  provider: string;
+
+  @ApiProperty({ type: String, example: 'DOCUMENT_ACCESSED' })
+  event: string;
+
+  @ApiProperty({ type: String, required: false })
+  sessionId?: string | null;
+
+  @ApiProperty()
+  success: boolean;
+
+  @ApiProperty({ type: String, required: false })
+  ipAddress?: string | null;
+
+  @ApiProperty({ type: String, required: false })
+  userAgent?: string | null;
+
+  @ApiProperty({
+    type: String,
+    required: false,
+    example: 'US, California, San Jose',
+  })
+  location?: string | null;
+
+  @ApiProperty({ type: String, required: false })
+  errorType?: string | null;
+
+  @ApiProperty({ type: String, required: false })
+  environment?: string | null;
+
+  @ApiProperty({
+    type: String,
+    required: false,
+    description: 'Copied from metadata.documentId for searching',
+  })
+  documentId?: string | null;
+
+  @ApiProperty({ type: Object, required: false })
+  metadata?: Record<string, any> | null;
+
+  @ApiProperty({ type: String })
+  previousHash: string;
+
+  @ApiProperty({ type: String })
+  hash: string;
+}
@@ -0,0 +1,29 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class AccessLogEntryDto {
+  @ApiProperty()
+  timestamp: Date;
+
+  @ApiProperty({ type: String, example: 'DOCUMENT_ACCESSED' })
+  action: string;
+
+  @ApiProperty()
+  success: boolean;
+
+  @ApiProperty({ type: String, example: '123' })
+  actorUserId: string;
+
+  @ApiProperty({ description: 'Whether the requesting user was the actor' })
+  isSelf: boolean;
+
+  @ApiProperty({ type: String, required: false })
+  documentId?: string;
+
+  @ApiProperty({
+    type: String,
+    required: false,
+    description: 'Coarse location derived from the client IP',
+    example: 'US, California, San Jose',
+  })
+  location?: string;
+}
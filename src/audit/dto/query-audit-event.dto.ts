@@ -0,0 +1,94 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { Transform, Type } from 'class-transformer';
+import {
+  IsBoolean,
+  IsDate,
+  IsEnum,
+  IsNumber,
+  IsOptional,
+  IsString,
+} from 'class-validator';
+
+export class FilterAuditEventDto {
+  @ApiPropertyOptional({ type: String, example: '123' })
+  @IsOptional()
+  @IsString()
+  userId?: string;
+
+  @ApiPropertyOptional({
+    type: String,
+    example: '123',
+    description: 'User whose account or records the event concerns',
+  })
+  @IsOptional()
+  @IsString()
+  subjectUserId?: string;
+
+  @ApiPropertyOptional({ type: String, example: 'DOCUMENT_ACCESSED' })
+  @IsOptional()
+  @IsString()
+  event?: string;
+
+  @ApiPropertyOptional({
+    type: String,
+    description: 'Comma-separated event types',
+    example: 'LOGIN_SUCCESS,LOGIN_FAILED',
+  })
+  @IsOptional()
+  @Transform(({ value }) =>
+    typeof value === 'string' ? value.split(',').filter(Boolean) : value,
+  )
+  @IsString({ each: true })
+  events?: string[];
+
+  @ApiPropertyOptional({ type: String, format: 'uuid' })
+  @IsOptional()
+  @IsString()
+  documentId?: string;
+
+  @ApiPropertyOptional({ type: String, format: 'date-time' })
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  from?: Date;
+
+  @ApiPropertyOptional({ type: String, format: 'date-time' })
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  to?: Date;
+
+  @ApiPropertyOptional({ type: Boolean })
+  @IsOptional()
+  @Transform(({ value }) =>
+    value === 'true' ? true : value === 'false' ? false : value,
+  )
+  @IsBoolean()
+  success?: boolean;
+}
+
+export class QueryAuditEventDto extends FilterAuditEventDto {
+  @ApiPropertyOptional()
+  @Transform(({ value }) => (value ? Number(value) : 1))
+  @IsNumber()
+  @IsOptional()
+  page?: number;
+
+  @ApiPropertyOptional()
+  @Transform(({ value }) => (value ? Number(value) : 10))
+  @IsNumber()
+  @IsOptional()
+  limit?: number;
+}
+
+export enum AuditExportFormat {
+  CSV = 'csv',
+  NDJSON = 'ndjson',
+}
+
+export class ExportAuditEventsDto extends FilterAuditEventDto {
+  @ApiPropertyOptional({ enum: AuditExportFormat })
+  @IsOptional()
+  @IsEnum(AuditExportFormat)
+  format?: AuditExportFormat;
+}
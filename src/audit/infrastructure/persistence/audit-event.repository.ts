@@ -0,0 +1,39 @@
+import { NullableType } from '../../../utils/types/nullable.type';
+import { IPaginationOptions } from '../../../utils/types/pagination-options';
+import { AuditEvent } from '../../domain/audit-event';
+import { FilterAuditEventDto } from '../../dto/query-audit-event.dto';
+
+/**
+ * Append-only audit event store (no update or delete by design)
+ */
+export abstract class AuditEventRepository {
+  /**
+   * Insert the next event in the chain
+   * @returns null if another writer already took `event.sequence`
+   */
+  abstract append(
+    event: Omit<AuditEvent, 'id'>,
+  ): Promise<NullableType<AuditEvent>>;
+
+  abstract findLast(): Promise<NullableType<AuditEvent>>;
+
+  // Newest first
+  abstract findManyWithPagination({
+    filterOptions,
+    paginationOptions,
+  }: {
+    filterOptions?: FilterAuditEventDto | null;
+    paginationOptions: IPaginationOptions;
+  }): Promise<AuditEvent[]>;
+
+  // Oldest first, keyset-paginated by sequence (exports and verification)
+  abstract findManyAfterSequence({
+    filterOptions,
+    afterSequence,
+    limit,
+  }: {
+    filterOptions?: FilterAuditEventDto | null;
+    afterSequence: number;
+    limit: number;
+  }): Promise<AuditEvent[]>;
+}
@@ -0,0 +1,24 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import {
+  AuditEventSchema,
+  AuditEventSchemaClass,
+} from './entities/audit-event.schema';
+import { AuditEventRepository } from '../audit-event.repository';
+import { AuditEventDocumentRepository } from './repositories/audit-event.repository';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: AuditEventSchemaClass.name, schema: AuditEventSchema },
+    ]),
+  ],
+  providers: [
+    {
+      provide: AuditEventRepository,
+      useClass: AuditEventDocumentRepository,
+    },
+  ],
+  exports: [AuditEventRepository],
+})
+export class DocumentAuditPersistenceModule {}
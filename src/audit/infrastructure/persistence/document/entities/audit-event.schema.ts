@@ -0,0 +1,79 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { HydratedDocument, Schema as MongooseSchema } from 'mongoose';
+import { randomUUID } from 'crypto';
+
+export type AuditEventSchemaDocument = HydratedDocument<AuditEventSchemaClass>;
+
+// Append-only: the repository never updates or deletes
+@Schema({
+  collection: 'audit_events',
+  versionKey: false,
+  toJSON: {
+    virtuals: true,
+    getters: true,
+  },
+})
+export class AuditEventSchemaClass {
+  @Prop({ type: String, default: () => randomUUID() })
+  _id: string;
+
+  @Prop({ type: Number, required: true, unique: true })
+  sequence: number;
+
+  @Prop({ type: Date, required: true, index: true })
+  timestamp: Date;
+
+  @Prop({ type: String, required: true })
+  userId: string;
+
+  @Prop({ type: String, default: null })
+  subjectUserId?: string | null;
+
+  @Prop({ type: String, required: true })
+  provider: string;
+
+  @Prop({ type: String, required: true })
+  event: string;
+
+  @Prop({ type: String, default: null })
+  sessionId?: string | null;
+
+  @Prop({ type: Boolean, required: true })
+  success: boolean;
+
+  @Prop({ type: String, default: null })
+  ipAddress?: string | null;
+
+  @Prop({ type: String, default: null })
+  userAgent?: string | null;
+
+  @Prop({ type: String, default: null })
+  location?: string | null;
+
+  @Prop({ type: String, default: null })
+  errorType?: string | null;
+
+  @Prop({ type: String, default: null })
+  environment?: string | null;
+
+  @Prop({ type: String, default: null })
+  documentId?: string | null;
+
+  @Prop({ type: MongooseSchema.Types.Mixed, default: null })
+  metadata?: Record<string, any> | null;
+
+  @Prop({ type: String, required: true })
+  previousHash: string;
+
+  @Prop({ type: String, required: true })
+  hash: string;
+}
+
+export const AuditEventSchema = SchemaFactory.createForClass(
+  AuditEventSchemaClass,
+);
+
+AuditEventSchema.index({ userId: 1, timestamp: -1 });
+AuditEventSchema.index({ documentId: 1, timestamp: -1 });
+AuditEventSchema.index({ event: 1, timestamp: -1 });
+AuditEventSchema.index({ subjectUserId: 1, timestamp: -1 });
@@ -0,0 +1,51 @@
+import { AuditEvent } from '../../../../domain/audit-event';
+import { AuditEventSchemaClass } from '../entities/audit-event.schema';
+
+export class AuditEventMapper {
+  static toDomain(raw: AuditEventSchemaClass): AuditEvent {
+    const domainEntity = new AuditEvent();
+    domainEntity.id = raw._id.toString();
+    domainEntity.sequence = raw.sequence;
+    domainEntity.timestamp = raw.timestamp;
+    domainEntity.userId = raw.userId;
+    domainEntity.subjectUserId = raw.subjectUserId;
+    domainEntity.provider = raw.provider;
+    domainEntity.event = raw.event;
+    domainEntity.sessionId = raw.sessionId;
+    domainEntity.success = raw.success;
+    domainEntity.ipAddress = raw.ipAddress;
+    domainEntity.userAgent = raw.userAgent;
+    domainEntity.location = raw.location;
+    domainEntity.errorType = raw.errorType;
+    domainEntity.environment = raw.environment;
+    domainEntity.documentId = raw.documentId;
+    domainEntity.metadata = raw.metadata;
+    domainEntity.previousHash = raw.previousHash;
+    domainEntity.hash = raw.hash;
+    return domainEntity;
+  }
+
+  static toPersistence(
+    domainEntity: Omit<AuditEvent, 'id'>,
+  ): Omit<AuditEventSchemaClass, '_id'> {
+    return {
+      sequence: domainEntity.sequence,
+      timestamp: domainEntity.timestamp,
+      userId: domainEntity.userId,
+      subjectUserId: domainEntity.subjectUserId ?? null,
+      provider: domainEntity.provider,
+      event: domainEntity.event,
+      sessionId: domainEntity.sessionId ?? null,
+      success: domainEntity.success,
+      ipAddress: domainEntity.ipAddress ?? null,
+      userAgent: domainEntity.userAgent ?? null,
+      location: domainEntity.location ?? null,
+      errorType: domainEntity.errorType ?? null,
+      environment: domainEntity.environment ?? null,
+      documentId: domainEntity.documentId ?? null,
+      metadata: domainEntity.metadata ?? null,
+      previousHash: domainEntity.previousHash,
+      hash: domainEntity.hash,
+    };
+  }
+}
@@ -0,0 +1,110 @@
+import { Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { FilterQuery, Model } from 'mongoose';
+import { NullableType } from '../../../../../utils/types/nullable.type';
+import { IPaginationOptions } from '../../../../../utils/types/pagination-options';
+import { AuditEvent } from '../../../../domain/audit-event';
+import { FilterAuditEventDto } from '../../../../dto/query-audit-event.dto';
+import { AuditEventRepository } from '../../audit-event.repository';
+import { AuditEventSchemaClass } from '../entities/audit-event.schema';
+import { AuditEventMapper } from '../mappers/audit-event.mapper';
+
+const DUPLICATE_KEY_ERROR = 11000;
+
+@Injectable()
+export class AuditEventDocumentRepository implements AuditEventRepository {
+  constructor(
+    @InjectModel(AuditEventSchemaClass.name)
+    private readonly auditEventsModel: Model<AuditEventSchemaClass>,
+  ) {}
+
+  async append(
+    event: Omit<AuditEvent, 'id'>,
+  ): Promise<NullableType<AuditEvent>> {
+    try {
+      const createdEvent = new this.auditEventsModel(
+        AuditEventMapper.toPersistence(event),
+      );
+      return AuditEventMapper.toDomain(await createdEvent.save());
+    } catch (error) {
+      // Unique index on sequence: another writer got there first
+      if (error?.code === DUPLICATE_KEY_ERROR) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async findLast(): Promise<NullableType<AuditEvent>> {
+    const eventObject = await this.auditEventsModel
+      .findOne()
+      .sort({ sequence: -1 });
+    return eventObject ? AuditEventMapper.toDomain(eventObject) : null;
+  }
+
+  async findManyWithPagination({
+    filterOptions,
+    paginationOptions,
+  }: {
+    filterOptions?: FilterAuditEventDto | null;
+    paginationOptions: IPaginationOptions;
+  }): Promise<AuditEvent[]> {
+    const eventObjects = await this.auditEventsModel
+      .find(this.toFilter(filterOptions))
+      .sort({ sequence: -1 })
+      .skip((paginationOptions.page - 1) * paginationOptions.limit)
+      .limit(paginationOptions.limit);
+
+    return eventObjects.map((eventObject) =>
+      AuditEventMapper.toDomain(eventObject),
+    );
+  }
+
+  async findManyAfterSequence({
+    filterOptions,
+    afterSequence,
+    limit,
+  }: {
+    filterOptions?: FilterAuditEventDto | null;
+    afterSequence: number;
+    limit: number;
+  }): Promise<AuditEvent[]> {
+    const eventObjects = await this.auditEventsModel
+      .find({
+        ...this.toFilter(filterOptions),
+        sequence: { $gt: afterSequence },
+      })
+      .sort({ sequence: 1 })
+      .limit(limit);
+
+    return eventObjects.map((eventObject) =>
+      AuditEventMapper.toDomain(eventObject),
+    );
+  }
+
+  private toFilter(
+    filterOptions?: FilterAuditEventDto | null,
+  ): FilterQuery<AuditEventSchemaClass> {
+    const where: FilterQuery<AuditEventSchemaClass> = {};
+    if (filterOptions?.userId) where.userId = filterOptions.userId;
+    if (filterOptions?.subjectUserId) {
+      where.subjectUserId = filterOptions.subjectUserId;
+    }
+    if (filterOptions?.event) {
+      where.event = filterOptions.event;
+    } else if (filterOptions?.events?.length) {
+      where.event = { $in: filterOptions.events };
+    }
+    if (filterOptions?.documentId) where.documentId = filterOptions.documentId;
+    if (filterOptions?.success !== undefined) {
+      where.success = filterOptions.success;
+    }
+    if (filterOptions?.from || filterOptions?.to) {
+      where.timestamp = {
+        ...(filterOptions.from && { $gte: filterOptions.from }),
+        ...(filterOptions.to && { $lte: filterOptions.to }),
+      };
+    }
+    return where;
+  }
+}
@@ -0,0 +1,80 @@
+import { Column, Entity, Index, PrimaryGeneratedColumn } from 'typeorm';
+import { EntityRelationalHelper } from '../../../../../utils/relational-entity-helper';
+
+// Append-only: UPDATE and DELETE are rejected by a trigger (see migration)
+@Entity({ name: 'audit_events' })
+@Index('IDX_audit_events_user_id_timestamp', ['userId', 'timestamp'])
+@Index('IDX_audit_events_document_id_timestamp', ['documentId', 'timestamp'])
+@Index('IDX_audit_events_event_timestamp', ['event', 'timestamp'])
+@Index('IDX_audit_events_subject_user_id_timestamp', [
+  'subjectUserId',
+  'timestamp',
+])
+export class AuditEventEntity extends EntityRelationalHelper {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({
+    type: 'bigint',
+    unique: true,
+    transformer: {
+      to: (value: number) => value,
+      from: (value: string) => Number(value),
+    },
+  })
+  sequence: number;
+
+  @Column({ type: 'timestamp' })
+  @Index('IDX_audit_events_timestamp')
+  timestamp: Date;
+
+  @Column({ name: 'user_id', type: 'varchar', length: 64 })
+  userId: string;
+
+  @Column({
+    name: 'subject_user_id',
+    type: 'varchar',
+    length: 64,
+    nullable: true,
+  })
+  subjectUserId?: string | null;
+
+  @Column({ type: 'varchar', length: 50 })
+  provider: string;
+
+  @Column({ type: 'varchar', length: 100 })
+  event: string;
+
+  @Column({ name: 'session_id', type: 'varchar', length: 64, nullable: true })
+  sessionId?: string | null;
+
+  @Column({ type: 'boolean' })
+  success: boolean;
+
+  @Column({ name: 'ip_address', type: 'varchar', length: 64, nullable: true })
+  ipAddress?: string | null;
+
+  @Column({ name: 'user_agent', type: 'varchar', length: 200, nullable: true })
+  userAgent?: string | null;
+
+  @Column({ type: 'varchar', length: 100, nullable: true })
+  location?: string | null;
+
+  @Column({ name: 'error_type', type: 'varchar', length: 500, nullable: true })
+  errorType?: string | null;
+
+  @Column({ type: 'varchar', length: 50, nullable: true })
+  environment?: string | null;
+
+  @Column({ name: 'document_id', type: 'varchar', length: 64, nullable: true })
+  documentId?: string | null;
+
+  @Column({ type: 'jsonb', nullable: true })
+  metadata?: Record<string, any> | null;
+
+  @Column({ name: 'previous_hash', type: 'char', length: 64 })
+  previousHash: string;
+
+  @Column({ type: 'char', length: 64 })
+  hash: string;
+}
@@ -0,0 +1,49 @@
+import { AuditEvent } from '../../../../domain/audit-event';
+import { AuditEventEntity } from '../entities/audit-event.entity';
+
+export class AuditEventMapper {
+  static toDomain(raw: AuditEventEntity): AuditEvent {
+    const domainEntity = new AuditEvent();
+    domainEntity.id = raw.id;
+    domainEntity.sequence = raw.sequence;
+    domainEntity.timestamp = raw.timestamp;
+    domainEntity.userId = raw.userId;
+    domainEntity.subjectUserId = raw.subjectUserId;
+    domainEntity.provider = raw.provider;
+    domainEntity.event = raw.event;
+    domainEntity.sessionId = raw.sessionId;
+    domainEntity.success = raw.success;
+    domainEntity.ipAddress = raw.ipAddress;
+    domainEntity.userAgent = raw.userAgent;
+    domainEntity.location = raw.location;
+    domainEntity.errorType = raw.errorType;
+    domainEntity.environment = raw.environment;
+    domainEntity.documentId = raw.documentId;
+    domainEntity.metadata = raw.metadata;
+    domainEntity.previousHash = raw.previousHash;
+    domainEntity.hash = raw.hash;
+    return domainEntity;
+  }
+
+  static toPersistence(domainEntity: Omit<AuditEvent, 'id'>): AuditEventEntity {
+    const persistenceEntity = new AuditEventEntity();
+    persistenceEntity.sequence = domainEntity.sequence;
+    persistenceEntity.timestamp = domainEntity.timestamp;
+    persistenceEntity.userId = domainEntity.userId;
+    persistenceEntity.subjectUserId = domainEntity.subjectUserId ?? null;
+    persistenceEntity.provider = domainEntity.provider;
+    persistenceEntity.event = domainEntity.event;
+    persistenceEntity.sessionId = domainEntity.sessionId ?? null;
+    persistenceEntity.success = domainEntity.success;
+    persistenceEntity.ipAddress = domainEntity.ipAddress ?? null;
+    persistenceEntity.userAgent = domainEntity.userAgent ?? null;
+    persistenceEntity.location = domainEntity.location ?? null;
+    persistenceEntity.errorType = domainEntity.errorType ?? null;
+    persistenceEntity.environment = domainEntity.environment ?? null;
+    persistenceEntity.documentId = domainEntity.documentId ?? null;
+    persistenceEntity.metadata = domainEntity.metadata ?? null;
+    persistenceEntity.previousHash = domainEntity.previousHash;
+    persistenceEntity.hash = domainEntity.hash;
+    return persistenceEntity;
+  }
+}
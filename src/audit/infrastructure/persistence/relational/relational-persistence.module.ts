@@ -0,0 +1,17 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { AuditEventRepository } from '../audit-event.repository';
+import { AuditEventEntity } from './entities/audit-event.entity';
+import { AuditEventRelationalRepository } from './repositories/audit-event.repository';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([AuditEventEntity])],
+  providers: [
+    {
+      provide: AuditEventRepository,
+      useClass: AuditEventRelationalRepository,
+    },
+  ],
+  exports: [AuditEventRepository],
+})
+export class RelationalAuditPersistenceModule {}
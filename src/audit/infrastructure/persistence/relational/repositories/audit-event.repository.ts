@@ -0,0 +1,125 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import {
+  Between,
+  FindOptionsWhere,
+  In,
+  LessThanOrEqual,
+  MoreThan,
+  MoreThanOrEqual,
+  QueryFailedError,
+  Repository,
+} from 'typeorm';
+import { AuditEventEntity } from '../entities/audit-event.entity';
+import { NullableType } from '../../../../../utils/types/nullable.type';
+import { IPaginationOptions } from '../../../../../utils/types/pagination-options';
+import { AuditEvent } from '../../../../domain/audit-event';
+import { FilterAuditEventDto } from '../../../../dto/query-audit-event.dto';
+import { AuditEventRepository } from '../../audit-event.repository';
+import { AuditEventMapper } from '../mappers/audit-event.mapper';
+
+const UNIQUE_VIOLATION = '23505';
+
+@Injectable()
+export class AuditEventRelationalRepository implements AuditEventRepository {
+  constructor(
+    @InjectRepository(AuditEventEntity)
+    private readonly auditEventsRepository: Repository<AuditEventEntity>,
+  ) {}
+
+  async append(
+    event: Omit<AuditEvent, 'id'>,
+  ): Promise<NullableType<AuditEvent>> {
+    try {
+      // insert() rather than save(): never turn into an UPDATE
+      const entity = AuditEventMapper.toPersistence(event);
+      const result = await this.auditEventsRepository.insert(entity);
+      entity.id = result.identifiers[0].id;
+      return AuditEventMapper.toDomain(entity);
+    } catch (error) {
+      if (
+        error instanceof QueryFailedError &&
+        (error as any).code === UNIQUE_VIOLATION
+      ) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async findLast(): Promise<NullableType<AuditEvent>> {
+    const entity = await this.auditEventsRepository.findOne({
+      where: {},
+      order: { sequence: 'DESC' },
+    });
+
+    return entity ? AuditEventMapper.toDomain(entity) : null;
+  }
+
+  async findManyWithPagination({
+    filterOptions,
+    paginationOptions,
+  }: {
+    filterOptions?: FilterAuditEventDto | null;
+    paginationOptions: IPaginationOptions;
+  }): Promise<AuditEvent[]> {
+    const entities = await this.auditEventsRepository.find({
+      where: this.toWhere(filterOptions),
+      skip: (paginationOptions.page - 1) * paginationOptions.limit,
+      take: paginationOptions.limit,
+      order: { sequence: 'DESC' },
+    });
+
+    return entities.map((entity) => AuditEventMapper.toDomain(entity));
+  }
+
+  async findManyAfterSequence({
+    filterOptions,
+    afterSequence,
+    limit,
+  }: {
+    filterOptions?: FilterAuditEventDto | null;
+    afterSequence: number;
+    limit: number;
+  }): Promise<AuditEvent[]> {
+    const entities = await this.auditEventsRepository.find({
+      where: {
+        ...this.toWhere(filterOptions),
+        sequence: MoreThan(afterSequence),
+      },
+      take: limit,
+      order: { sequence: 'ASC' },
+    });
+
+    return entities.map((entity) => AuditEventMapper.toDomain(entity));
+  }
+
+  private toWhere(
+    filterOptions?: FilterAuditEventDto | null,
+  ): FindOptionsWhere<AuditEventEntity> {
+    const where: FindOptionsWhere<AuditEventEntity> = {};
+    if (filterOptions?.userId) where.userId = filterOptions.userId;
+    if (filterOptions?.subjectUserId) {
+      where.subjectUserId = filterOptions.subjectUserId;
+    }
+    if (filterOptions?.event) {
+      where.event = filterOptions.event;
+    } else if (filterOptions?.events?.length) {
+      where.event = In(filterOptions.events);
+    }
+    if (filterOptions?.documentId) where.documentId = filterOptions.documentId;
+    if (filterOptions?.success !== undefined) {
+      where.success = filterOptions.success;
+    }
+
+    if (filterOptions?.from && filterOptions?.to) {
+      where.timestamp = Between(filterOptions.from, filterOptions.to);
+    } else if (filterOptions?.from) {
+      where.timestamp = MoreThanOrEqual(filterOptions.from);
+    } else if (filterOptions?.to) {
+      where.timestamp = LessThanOrEqual(filterOptions.to);
+    }
+
+    return where;
+  }
+}
@@ -8,6 +8,7 @@ import {
   Logger,
 } from '@nestjs/common';
 import {
+  ApiExtraModels,
   ApiOkResponse,
   ApiTags,
   ApiOperation,
@@ -15,12 +16,14 @@ import {
   ApiUnauthorizedResponse,
   ApiUnprocessableEntityResponse,
   ApiTooManyRequestsResponse,
+  getSchemaPath,
 } from '@nestjs/swagger';
 import { AuthService } from '../auth/auth.service';
 import { AuthAppleService } from './auth-apple.service';
 import { AuthAppleLoginDto } from './dto/auth-apple-login.dto';
 import { AppleNotificationDto } from './dto/apple-notification.dto';
 import { LoginResponseDto } from '../auth/dto/login-response.dto';
+import { MfaChallengeResponseDto } from '../auth/dto/mfa-challenge-response.dto';
 import { Throttle, SkipThrottle } from '@nestjs/throttler';
 
 @ApiTags('Auth')
@@ -44,10 +47,17 @@ export class AuthAppleController {
       "If user doesn't exist, a new account will be created. First name and last name are required on first sign-in. " +
       'Rate limited to 5 requests per minute.',
   })
+  @ApiExtraModels(LoginResponseDto, MfaChallengeResponseDto)
   @ApiOkResponse({
-    type: LoginResponseDto,
+    schema: {
+      oneOf: [
+        { $ref: getSchemaPath(LoginResponseDto) },
+        { $ref: getSchemaPath(MfaChallengeResponseDto) },
+      ],
+    },
     description:
-      'Login successful. Returns access token, refresh token, and user data.',
+      'Login successful. Returns access token, refresh token, and user data, ' +
+      'or an MFA challenge to complete via POST /auth/mfa/login.',
   })
   @ApiBadRequestResponse({
     description: 'Invalid request body or missing ID token',
@@ -67,7 +77,9 @@ export class AuthAppleController {
   @HttpCode(HttpStatus.OK)
   // HIPAA Security: Rate limiting on Apple OAuth login (5 requests per 60 seconds)
   @Throttle({ default: { limit: 5, ttl: 60000 } })
-  async login(@Body() loginDto: AuthAppleLoginDto): Promise<LoginResponseDto> {
+  async login(
+    @Body() loginDto: AuthAppleLoginDto,
+  ): Promise<LoginResponseDto | MfaChallengeResponseDto> {
     const socialData = await this.authAppleService.getProfileByToken(loginDto);
 
     return this.authService.validateSocialLogin('apple', socialData);
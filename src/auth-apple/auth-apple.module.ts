@@ -6,9 +6,17 @@ import { AuthModule } from '../auth/auth.module';
 import { UsersModule } from '../users/users.module';
 import { AuditModule } from '../audit/audit.module';
 import { SessionModule } from '../session/session.module';
+import { DomainEventsModule } from '../domain-events/domain-events.module';
 
 @Module({
-  imports: [ConfigModule, AuthModule, UsersModule, AuditModule, SessionModule],
+  imports: [
+    ConfigModule,
+    AuthModule,
+    UsersModule,
+    AuditModule,
+    SessionModule,
+    DomainEventsModule,
+  ],
   providers: [AuthAppleService],
   exports: [AuthAppleService],
   controllers: [AuthAppleController],
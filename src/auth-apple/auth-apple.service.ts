@@ -11,6 +11,11 @@ import {
   AppleNotificationPayload,
 } from './interfaces/apple-notification.interface';
 import { SessionService } from '../session/session.service';
+import { DomainEventBus } from '../domain-events/domain-event-bus.service';
+import {
+  DomainEventName,
+  SessionRevocationReason,
+} from '../domain-events/domain/domain-event';
 
 @Injectable()
 export class AuthAppleService {
@@ -21,6 +26,7 @@ export class AuthAppleService {
     private usersService: UsersService,
     private auditService: AuditService,
     private sessionService: SessionService,
+    private eventBus: DomainEventBus,
   ) {}
 
   async getProfileByToken(
@@ -220,7 +226,13 @@ export class AuthAppleService {
     eventData: AppleEventData,
   ): Promise<void> {
     // HIPAA Critical: Invalidate all sessions for this user
-    await this.sessionService.deleteByUserId({ userId });
+    await this.eventBus.transaction(async () => {
+      await this.sessionService.deleteByUserId({ userId });
+      await this.eventBus.publish(DomainEventName.SESSION_REVOKED, {
+        userId,
+        reason: SessionRevocationReason.APPLE_CONSENT_REVOKED,
+      });
+    });
 
     // HIPAA Audit: Log the event (NO PHI)
     await this.auditService.logAuthEvent({
@@ -258,7 +270,13 @@ export class AuthAppleService {
     eventData: AppleEventData,
   ): Promise<void> {
     // HIPAA Critical: Invalidate all sessions
-    await this.sessionService.deleteByUserId({ userId });
+    await this.eventBus.transaction(async () => {
+      await this.sessionService.deleteByUserId({ userId });
+      await this.eventBus.publish(DomainEventName.SESSION_REVOKED, {
+        userId,
+        reason: SessionRevocationReason.APPLE_ACCOUNT_DELETED,
+      });
+    });
 
     // HIPAA Compliance: Soft-delete user (keep for audit trail)
     // Hard delete would violate audit retention requirements
@@ -7,17 +7,20 @@ import {
   SerializeOptions,
 } from '@nestjs/common';
 import {
+  ApiExtraModels,
   ApiOkResponse,
   ApiTags,
   ApiOperation,
   ApiBadRequestResponse,
   ApiUnauthorizedResponse,
   ApiUnprocessableEntityResponse,
+  getSchemaPath,
 } from '@nestjs/swagger';
 import { AuthService } from '../auth/auth.service';
 import { AuthFacebookService } from './auth-facebook.service';
 import { AuthFacebookLoginDto } from './dto/auth-facebook-login.dto';
 import { LoginResponseDto } from '../auth/dto/login-response.dto';
+import { MfaChallengeResponseDto } from '../auth/dto/mfa-challenge-response.dto';
 
 @ApiTags('Auth')
 @Controller({
@@ -37,10 +40,17 @@ export class AuthFacebookController {
       'Authenticate user with Facebook access token. Returns JWT access token, refresh token, and user information. ' +
       "If user doesn't exist, a new account will be created.",
   })
+  @ApiExtraModels(LoginResponseDto, MfaChallengeResponseDto)
   @ApiOkResponse({
-    type: LoginResponseDto,
+    schema: {
+      oneOf: [
+        { $ref: getSchemaPath(LoginResponseDto) },
+        { $ref: getSchemaPath(MfaChallengeResponseDto) },
+      ],
+    },
     description:
-      'Login successful. Returns access token, refresh token, and user data.',
+      'Login successful. Returns access token, refresh token, and user data, ' +
+      'or an MFA challenge to complete via POST /auth/mfa/login.',
   })
   @ApiBadRequestResponse({
     description: 'Invalid request body or missing access token',
@@ -57,7 +67,7 @@ export class AuthFacebookController {
   @HttpCode(HttpStatus.OK)
   async login(
     @Body() loginDto: AuthFacebookLoginDto,
-  ): Promise<LoginResponseDto> {
+  ): Promise<LoginResponseDto | MfaChallengeResponseDto> {
     const socialData =
       await this.authFacebookService.getProfileByToken(loginDto);
 
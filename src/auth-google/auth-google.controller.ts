@@ -7,6 +7,7 @@ import {
   SerializeOptions,
 } from '@nestjs/common';
 import {
+  ApiExtraModels,
   ApiOkResponse,
   ApiTags,
   ApiOperation,
@@ -14,11 +15,13 @@ import {
   ApiUnauthorizedResponse,
   ApiUnprocessableEntityResponse,
   ApiTooManyRequestsResponse,
+  getSchemaPath,
 } from '@nestjs/swagger';
 import { AuthService } from '../auth/auth.service';
 import { AuthGoogleService } from './auth-google.service';
 import { AuthGoogleLoginDto } from './dto/auth-google-login.dto';
 import { LoginResponseDto } from '../auth/dto/login-response.dto';
+import { MfaChallengeResponseDto } from '../auth/dto/mfa-challenge-response.dto';
 import { Throttle } from '@nestjs/throttler';
 
 @ApiTags('Auth')
@@ -39,10 +42,17 @@ export class AuthGoogleController {
       'Authenticate user with Google Sign-In ID token. Returns JWT access token, refresh token, and user information. ' +
       "If user doesn't exist, a new account will be created. Rate limited to 5 requests per minute.",
   })
+  @ApiExtraModels(LoginResponseDto, MfaChallengeResponseDto)
   @ApiOkResponse({
-    type: LoginResponseDto,
+    schema: {
+      oneOf: [
+        { $ref: getSchemaPath(LoginResponseDto) },
+        { $ref: getSchemaPath(MfaChallengeResponseDto) },
+      ],
+    },
     description:
-      'Login successful. Returns access token, refresh token, and user data.',
+      'Login successful. Returns access token, refresh token, and user data, ' +
+      'or an MFA challenge to complete via POST /auth/mfa/login.',
   })
   @ApiBadRequestResponse({
     description: 'Invalid request body or missing ID token',
@@ -62,7 +72,9 @@ export class AuthGoogleController {
   @HttpCode(HttpStatus.OK)
   // HIPAA Security: Rate limiting on Google OAuth login (5 requests per 60 seconds)
   @Throttle({ default: { limit: 5, ttl: 60000 } })
-  async login(@Body() loginDto: AuthGoogleLoginDto): Promise<LoginResponseDto> {
+  async login(
+    @Body() loginDto: AuthGoogleLoginDto,
+  ): Promise<LoginResponseDto | MfaChallengeResponseDto> {
     const socialData = await this.authGoogleService.getProfileByToken(loginDto);
 
     return this.authService.validateSocialLogin('google', socialData);
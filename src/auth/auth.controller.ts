@@ -11,6 +11,7 @@ import {
   Delete,
   SerializeOptions,
   Req,
+  Query,
 } from '@nestjs/common';
 import { AuthService } from './auth.service';
 import {
@@ -24,6 +25,8 @@ import {
   ApiUnprocessableEntityResponse,
   ApiTooManyRequestsResponse,
   ApiNoContentResponse,
+  ApiExtraModels,
+  getSchemaPath,
 } from '@nestjs/swagger';
 import { AuthEmailLoginDto } from './dto/auth-email-login.dto';
 import { AuthForgotPasswordDto } from './dto/auth-forgot-password.dto';
@@ -44,6 +47,18 @@ import {
 } from './dto/token-introspect.dto';
 import { UseInterceptors } from '@nestjs/common';
 import { FormUrlEncodedInterceptor } from './interceptors/form-urlencoded.interceptor';
+import { AccessLogEntryDto } from '../audit/dto/access-log-entry.dto';
+import { AccessLogQueryDto } from '../audit/dto/access-log-query.dto';
+import {
+  InfinityPaginationResponse,
+  InfinityPaginationResponseDto,
+} from '../utils/dto/infinity-pagination-response.dto';
+import { MfaChallengeResponseDto } from './dto/mfa-challenge-response.dto';
+import { AuthMfaLoginDto } from './dto/auth-mfa-login.dto';
+import { AuthMfaTokenDto } from './dto/auth-mfa-token.dto';
+import { AuthMfaCodeDto } from './dto/auth-mfa-code.dto';
+import { TotpSetupResponseDto } from '../mfa/dto/totp-setup-response.dto';
+import { RecoveryCodesResponseDto } from '../mfa/dto/recovery-codes-response.dto';
 
 @ApiTags('Auth')
 @Controller({
@@ -62,10 +77,17 @@ export class AuthController {
     description:
       'Authenticate user with email and password. Returns JWT access token, refresh token, and user information. Rate limited to 5 requests per minute.',
   })
+  @ApiExtraModels(LoginResponseDto, MfaChallengeResponseDto)
   @ApiOkResponse({
-    type: LoginResponseDto,
+    schema: {
+      oneOf: [
+        { $ref: getSchemaPath(LoginResponseDto) },
+        { $ref: getSchemaPath(MfaChallengeResponseDto) },
+      ],
+    },
     description:
-      'Login successful. Returns access token, refresh token, and user data.',
+      'Login successful. Returns access token, refresh token, and user data, ' +
+      'or an MFA challenge to complete via POST /auth/mfa/login.',
   })
   @ApiBadRequestResponse({
     description: 'Invalid request body or validation errors',
@@ -81,10 +103,175 @@ export class AuthController {
   // HIPAA Security: Strict rate limiting on login endpoint (5 requests per 60 seconds)
   // TODO: Consider implementing progressive delays after failed attempts
   @Throttle({ default: { limit: 5, ttl: 60000 } })
-  public login(@Body() loginDto: AuthEmailLoginDto): Promise<LoginResponseDto> {
+  public login(
+    @Body() loginDto: AuthEmailLoginDto,
+  ): Promise<LoginResponseDto | MfaChallengeResponseDto> {
     return this.service.validateLogin(loginDto);
   }
 
+  @SerializeOptions({
+    groups: ['me'],
+  })
+  @Post('mfa/login')
+  @ApiOperation({
+    summary: 'Complete MFA Login',
+    description:
+      'Second login step: exchange the MFA challenge token from a login endpoint and a TOTP or recovery code for tokens. ' +
+      'For enrollment challenges, the code confirms the secret from POST /auth/mfa/login/totp/setup and the response ' +
+      'includes one-time recovery codes. Rate limited to 5 requests per minute.',
+  })
+  @ApiOkResponse({
+    type: LoginResponseDto,
+    description:
+      'Login successful. Returns access token, refresh token, and user data.',
+  })
+  @ApiUnprocessableEntityResponse({
+    description: 'Invalid or expired MFA token, or invalid code',
+  })
+  @ApiTooManyRequestsResponse({
+    description: 'Rate limit exceeded. Maximum 5 attempts per minute.',
+  })
+  @HttpCode(HttpStatus.OK)
+  // HIPAA Security: Same rate limit as password login (5 requests per 60 seconds)
+  @Throttle({ default: { limit: 5, ttl: 60000 } })
+  public mfaLogin(
+    @Body() mfaLoginDto: AuthMfaLoginDto,
+  ): Promise<LoginResponseDto> {
+    return this.service.mfaLogin(mfaLoginDto);
+  }
+
+  @Post('mfa/login/totp/setup')
+  @ApiOperation({
+    summary: 'Set Up TOTP During Login',
+    description:
+      'For accounts whose role requires MFA but that have no factor yet (enrollmentRequired: true). ' +
+      'Returns a new TOTP secret for an authenticator app. Rate limited to 5 requests per minute.',
+  })
+  @ApiOkResponse({
+    type: TotpSetupResponseDto,
+    description: 'TOTP secret and otpauth:// URI (render as QR code)',
+  })
+  @ApiUnprocessableEntityResponse({
+    description: 'Invalid or expired MFA token, or MFA already enabled',
+  })
+  @HttpCode(HttpStatus.OK)
+  @Throttle({ default: { limit: 5, ttl: 60000 } })
+  public mfaLoginSetup(
+    @Body() mfaTokenDto: AuthMfaTokenDto,
+  ): Promise<TotpSetupResponseDto> {
+    return this.service.mfaLoginSetup(mfaTokenDto.mfaToken);
+  }
+
+  @ApiBearerAuth()
+  @Post('mfa/totp/setup')
+  @UseGuards(AuthGuard('jwt'))
+  @ApiOperation({
+    summary: 'Set Up TOTP',
+    description:
+      'Start MFA enrollment: returns a new TOTP secret for an authenticator app. ' +
+      'MFA is not active until confirmed with POST /auth/mfa/totp/enable.',
+  })
+  @ApiOkResponse({
+    type: TotpSetupResponseDto,
+    description: 'TOTP secret and otpauth:// URI (render as QR code)',
+  })
+  @ApiUnauthorizedResponse({
+    description: 'Invalid or expired access token',
+  })
+  @ApiUnprocessableEntityResponse({
+    description: 'MFA already enabled',
+  })
+  @HttpCode(HttpStatus.OK)
+  public mfaSetup(@Request() request): Promise<TotpSetupResponseDto> {
+    return this.service.mfaSetup(request.user);
+  }
+
+  @ApiBearerAuth()
+  @Post('mfa/totp/enable')
+  @UseGuards(AuthGuard('jwt'))
+  @ApiOperation({
+    summary: 'Enable TOTP',
+    description:
+      'Confirm MFA enrollment with a code from the authenticator app. Returns one-time recovery codes, shown only once. ' +
+      'Rate limited to 5 requests per minute.',
+  })
+  @ApiOkResponse({
+    type: RecoveryCodesResponseDto,
+    description: 'MFA enabled. Store the recovery codes safely.',
+  })
+  @ApiUnauthorizedResponse({
+    description: 'Invalid or expired access token',
+  })
+  @ApiUnprocessableEntityResponse({
+    description: 'Invalid code, setup not started, or MFA already enabled',
+  })
+  @HttpCode(HttpStatus.OK)
+  @Throttle({ default: { limit: 5, ttl: 60000 } })
+  public mfaEnable(
+    @Request() request,
+    @Body() mfaCodeDto: AuthMfaCodeDto,
+  ): Promise<RecoveryCodesResponseDto> {
+    return this.service.mfaEnable(request.user, mfaCodeDto.code);
+  }
+
+  @ApiBearerAuth()
+  @Post('mfa/disable')
+  @UseGuards(AuthGuard('jwt'))
+  @ApiOperation({
+    summary: 'Disable MFA',
+    description:
+      'Turn off MFA with a current TOTP or recovery code. Not allowed for roles that require MFA. ' +
+      'Rate limited to 5 requests per minute.',
+  })
+  @ApiNoContentResponse({
+    description: 'MFA disabled',
+  })
+  @ApiUnauthorizedResponse({
+    description: 'Invalid or expired access token',
+  })
+  @ApiUnprocessableEntityResponse({
+    description: 'Invalid code, MFA not enabled, or MFA required for role',
+  })
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @Throttle({ default: { limit: 5, ttl: 60000 } })
+  public mfaDisable(
+    @Request() request,
+    @Body() mfaCodeDto: AuthMfaCodeDto,
+  ): Promise<void> {
+    return this.service.mfaDisable(request.user, mfaCodeDto.code);
+  }
+
+  @ApiBearerAuth()
+  @Post('mfa/recovery-codes')
+  @UseGuards(AuthGuard('jwt'))
+  @ApiOperation({
+    summary: 'Regenerate Recovery Codes',
+    description:
+      'Replace all recovery codes (requires a current TOTP or recovery code). Previous codes stop working. ' +
+      'Rate limited to 5 requests per minute.',
+  })
+  @ApiOkResponse({
+    type: RecoveryCodesResponseDto,
+    description: 'New recovery codes, shown only once',
+  })
+  @ApiUnauthorizedResponse({
+    description: 'Invalid or expired access token',
+  })
+  @ApiUnprocessableEntityResponse({
+    description: 'Invalid code or MFA not enabled',
+  })
+  @HttpCode(HttpStatus.OK)
+  @Throttle({ default: { limit: 5, ttl: 60000 } })
+  public mfaRegenerateRecoveryCodes(
+    @Request() request,
+    @Body() mfaCodeDto: AuthMfaCodeDto,
+  ): Promise<RecoveryCodesResponseDto> {
+    return this.service.mfaRegenerateRecoveryCodes(
+      request.user,
+      mfaCodeDto.code,
+    );
+  }
+
   @Post('email/register')
   @ApiOperation({
     summary: 'Email Registration',
@@ -229,6 +416,30 @@ export class AuthController {
     return this.service.me(request.user);
   }
 
+  @ApiBearerAuth()
+  @Get('me/access-log')
+  @UseGuards(AuthGuard('jwt'))
+  @ApiOperation({
+    summary: 'Get My Access History',
+    description:
+      'Who accessed your account and medical records, newest first: sign-ins, document views, downloads, deletions, ' +
+      'sharing changes and denied access attempts, with a coarse location derived from the client IP.',
+  })
+  @ApiOkResponse({
+    type: InfinityPaginationResponse(AccessLogEntryDto),
+    description: 'Paginated access history',
+  })
+  @ApiUnauthorizedResponse({
+    description: 'Invalid or expired access token',
+  })
+  @HttpCode(HttpStatus.OK)
+  public accessLog(
+    @Request() request,
+    @Query() query: AccessLogQueryDto,
+  ): Promise<InfinityPaginationResponseDto<AccessLogEntryDto>> {
+    return this.service.accessLog(request.user, query);
+  }
+
   @ApiBearerAuth()
   @ApiOkResponse({
     type: RefreshResponseDto,
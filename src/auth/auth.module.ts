@@ -10,9 +10,14 @@ import { MailModule } from '../mail/mail.module';
 import { SessionModule } from '../session/session.module';
 import { UsersModule } from '../users/users.module';
 import { AuditModule } from '../audit/audit.module';
+import { SigningKeysModule } from '../signing-keys/signing-keys.module';
+import { MfaModule } from '../mfa/mfa.module';
 import { ServiceApiKeyGuard } from './guards/service-api-key.guard';
 import { FormUrlEncodedInterceptor } from './interceptors/form-urlencoded.interceptor';
 import { TokenIntrospectionCacheService } from './services/token-introspection-cache.service';
+import { AuthAuditSubscriber } from './subscribers/auth-audit.subscriber';
+import { IntrospectionCacheSubscriber } from './subscribers/introspection-cache.subscriber';
+import { DomainEventsModule } from '../domain-events/domain-events.module';
 
 @Module({
   imports: [
@@ -22,6 +27,9 @@ import { TokenIntrospectionCacheService } from './services/token-introspection-c
     MailModule,
     JwtModule.register({}),
     AuditModule,
+    SigningKeysModule,
+    MfaModule,
+    DomainEventsModule,
   ],
   controllers: [AuthController],
   providers: [
@@ -32,6 +40,8 @@ import { TokenIntrospectionCacheService } from './services/token-introspection-c
     ServiceApiKeyGuard,
     FormUrlEncodedInterceptor,
     TokenIntrospectionCacheService,
+    AuthAuditSubscriber,
+    IntrospectionCacheSubscriber,
   ],
   exports: [AuthService],
 })
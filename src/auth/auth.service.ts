@@ -34,6 +34,21 @@ import {
   TokenIntrospectResponseDto,
 } from './dto/token-introspect.dto';
 import { TokenIntrospectionCacheService } from './services/token-introspection-cache.service';
+import { DomainEventBus } from '../domain-events/domain-event-bus.service';
+import {
+  DomainEventName,
+  SessionRevocationReason,
+} from '../domain-events/domain/domain-event';
+import { SigningKeysService } from '../signing-keys/signing-keys.service';
+import { MfaService } from '../mfa/mfa.service';
+import { MfaChallengeResponseDto } from './dto/mfa-challenge-response.dto';
+import { AuthMfaLoginDto } from './dto/auth-mfa-login.dto';
+import { TotpSetupResponseDto } from '../mfa/dto/totp-setup-response.dto';
+import { RecoveryCodesResponseDto } from '../mfa/dto/recovery-codes-response.dto';
+import { AccessLogEntryDto } from '../audit/dto/access-log-entry.dto';
+import { AccessLogQueryDto } from '../audit/dto/access-log-query.dto';
+import { InfinityPaginationResponseDto } from '../utils/dto/infinity-pagination-response.dto';
+import { infinityPagination } from '../utils/infinity-pagination';
 
 @Injectable()
 export class AuthService {
@@ -45,9 +60,14 @@ export class AuthService {
     private configService: ConfigService<AllConfigType>,
     private auditService: AuditService,
     private introspectionCache: TokenIntrospectionCacheService,
+    private signingKeysService: SigningKeysService,
+    private mfaService: MfaService,
+    private eventBus: DomainEventBus,
   ) {}
 
-  async validateLogin(loginDto: AuthEmailLoginDto): Promise<LoginResponseDto> {
+  async validateLogin(
+    loginDto: AuthEmailLoginDto,
+  ): Promise<LoginResponseDto | MfaChallengeResponseDto> {
     const user = await this.usersService.findByEmail(loginDto.email);
 
     if (!user) {
@@ -127,6 +147,14 @@ export class AuthService {
       });
     }
 
+    const mfaChallenge = await this.createMfaChallenge(
+      user,
+      AuthProvidersEnum.email,
+    );
+    if (mfaChallenge) {
+      return mfaChallenge;
+    }
+
     const hash = crypto
       .createHash('sha256')
       .update(randomStringGenerator())
@@ -164,7 +192,7 @@ export class AuthService {
   async validateSocialLogin(
     authProvider: string,
     socialData: SocialInterface,
-  ): Promise<LoginResponseDto> {
+  ): Promise<LoginResponseDto | MfaChallengeResponseDto> {
     let user: NullableType<User> = null;
     const socialEmail = socialData.email?.toLowerCase();
     let userByEmail: NullableType<User> = null;
@@ -228,8 +256,11 @@ export class AuthService {
       });
     }
 
-    // TODO: MFA Check - if user.mfaEnabled === true, require second factor before issuing tokens
-    // For now, we proceed directly to session creation
+    // Second factor: enrolled users, and roles that require MFA by policy
+    const mfaChallenge = await this.createMfaChallenge(user, authProvider);
+    if (mfaChallenge) {
+      return mfaChallenge;
+    }
 
     const hash = crypto
       .createHash('sha256')
@@ -271,6 +302,120 @@ export class AuthService {
     };
   }
 
+  /**
+   * Second login step: exchange an MFA challenge token and code for tokens
+   *
+   * When the challenge was issued for enrollment (role policy, no factor yet),
+   * the code confirms the secret from mfaLoginSetup and the response carries
+   * the new recovery codes.
+   */
+  async mfaLogin(dto: AuthMfaLoginDto): Promise<LoginResponseDto> {
+    const { user, provider } = await this.verifyMfaChallenge(dto.mfaToken);
+
+    let recoveryCodes: string[] | undefined;
+    if (await this.mfaService.isEnabled(user.id)) {
+      if (!(await this.mfaService.verify(user.id, dto.code))) {
+        // HIPAA Audit: Log failed second factor
+        this.auditService.logAuthEvent({
+          userId: user.id,
+          provider,
+          event: AuthEventType.LOGIN_FAILED,
+          success: false,
+          errorMessage: 'Invalid MFA code',
+        });
+
+        throw new UnprocessableEntityException({
+          status: HttpStatus.UNPROCESSABLE_ENTITY,
+          errors: {
+            code: 'invalidCode',
+          },
+        });
+      }
+    } else {
+      recoveryCodes = await this.mfaService.enableTotp(user.id, dto.code);
+    }
+
+    const hash = crypto
+      .createHash('sha256')
+      .update(randomStringGenerator())
+      .digest('hex');
+
+    const session = await this.sessionService.create({
+      user,
+      hash,
+    });
+
+    const { token, refreshToken, tokenExpires } = await this.getTokensData({
+      id: user.id,
+      role: user.role,
+      sessionId: session.id,
+      hash,
+    });
+
+    // HIPAA Audit: Log successful login (second factor verified)
+    this.auditService.logAuthEvent({
+      userId: user.id,
+      provider,
+      event: AuthEventType.LOGIN_SUCCESS,
+      sessionId: session.id,
+      success: true,
+      metadata: { mfa: true },
+    });
+
+    return {
+      refreshToken,
+      token,
+      tokenExpires,
+      user,
+      ...(recoveryCodes && { recoveryCodes }),
+    };
+  }
+
+  /**
+   * TOTP setup during login, for roles that require MFA but have no factor
+   */
+  async mfaLoginSetup(mfaToken: string): Promise<TotpSetupResponseDto> {
+    const { user } = await this.verifyMfaChallenge(mfaToken);
+    return this.mfaService.setupTotp(user);
+  }
+
+  async mfaSetup(
+    userJwtPayload: JwtPayloadType,
+  ): Promise<TotpSetupResponseDto> {
+    return this.mfaService.setupTotp(await this.getCurrentUser(userJwtPayload));
+  }
+
+  async mfaEnable(
+    userJwtPayload: JwtPayloadType,
+    code: string,
+  ): Promise<RecoveryCodesResponseDto> {
+    return {
+      recoveryCodes: await this.mfaService.enableTotp(userJwtPayload.id, code),
+    };
+  }
+
+  async mfaDisable(
+    userJwtPayload: JwtPayloadType,
+    code: string,
+  ): Promise<void> {
+    await this.mfaService.disable(
+      await this.getCurrentUser(userJwtPayload),
+      code,
+    );
+  }
+
+  async mfaRegenerateRecoveryCodes(
+    userJwtPayload: JwtPayloadType,
+    code: string,
+  ): Promise<RecoveryCodesResponseDto> {
+    return {
+      recoveryCodes: await this.mfaService.regenerateRecoveryCodes(
+        userJwtPayload.id,
+        code,
+      ),
+    };
+  }
+
   async register(dto: AuthRegisterLoginDto): Promise<void> {
     const user = await this.usersService.create({
       ...dto,
@@ -462,8 +607,14 @@ export class AuthService {
 
     user.password = password;
 
-    await this.sessionService.deleteByUserId({
-      userId: user.id,
+    await this.eventBus.transaction(async () => {
+      await this.sessionService.deleteByUserId({
+        userId: user.id,
+      });
+      await this.eventBus.publish(DomainEventName.SESSION_REVOKED, {
+        userId: user.id,
+        reason: SessionRevocationReason.PASSWORD_RESET,
+      });
     });
 
     await this.usersService.update(user.id, user);
@@ -473,6 +624,25 @@ export class AuthService {
     return this.usersService.findById(userJwtPayload.id);
   }
 
+  /**
+   * Access history of the user's account and records ("who viewed my records")
+   */
+  async accessLog(
+    userJwtPayload: JwtPayloadType,
+    query: AccessLogQueryDto,
+  ): Promise<InfinityPaginationResponseDto<AccessLogEntryDto>> {
+    const page = query.page ?? 1;
+    const limit = query.limit ?? 20;
+
+    return infinityPagination(
+      await this.auditService.findAccessLog({
+        viewerId: userJwtPayload.id,
+        paginationOptions: { page, limit },
+      }),
+      { page, limit },
+    );
+  }
+
   async update(
     userJwtPayload: JwtPayloadType,
     userDto: AuthUpdateDto,
@@ -520,9 +690,16 @@ export class AuthService {
           },
         });
       } else {
-        await this.sessionService.deleteByUserIdWithExclude({
-          userId: currentUser.id,
-          excludeSessionId: userJwtPayload.sessionId,
+        await this.eventBus.transaction(async () => {
+          await this.sessionService.deleteByUserIdWithExclude({
+            userId: currentUser.id,
+            excludeSessionId: userJwtPayload.sessionId,
+          });
+          await this.eventBus.publish(DomainEventName.SESSION_REVOKED, {
+            userId: currentUser.id,
+            exceptSessionId: userJwtPayload.sessionId,
+            reason: SessionRevocationReason.PASSWORD_CHANGED,
+          });
         });
       }
     }
@@ -660,21 +837,18 @@ export class AuthService {
   async logout(data: Pick<JwtRefreshPayloadType, 'sessionId'>) {
     const session = await this.sessionService.findById(data.sessionId);
 
-    if (session) {
-      // HIPAA Audit: Log logout event
-      this.auditService.logAuthEvent({
-        userId: session.user.id,
-        provider: 'system',
-        event: AuthEventType.LOGOUT,
-        sessionId: data.sessionId,
-        success: true,
-      });
+    await this.eventBus.transaction(async () => {
+      await this.sessionService.deleteById(data.sessionId);
 
-      // Invalidate cache entries for this session
-      this.introspectionCache.invalidateBySessionId(data.sessionId);
-    }
-
-    return this.sessionService.deleteById(data.sessionId);
+      if (session) {
+        // Audit log and introspection cache (event subscribers)
+        await this.eventBus.publish(DomainEventName.SESSION_REVOKED, {
+          userId: session.user.id,
+          sessionId: data.sessionId,
+          reason: SessionRevocationReason.LOGOUT,
+        });
+      }
+    });
   }
 
   /**
@@ -777,11 +951,17 @@ export class AuthService {
         };
       }
 
-      // Verify token signature and claims
+      // Verify token signature and claims against the key set ("kid")
       let verified: any;
       try {
+        const verificationKey =
+          await this.signingKeysService.getVerificationKey(tokenHeader);
+        if (!verificationKey) {
+          throw new Error('Unknown signing key');
+        }
+
         const verifyOptions: any = {
-          secret: this.configService.getOrThrow('auth.secret', { infer: true }),
+          secret: verificationKey,
           algorithms: allowedAlgorithms,
         };
 
@@ -931,6 +1111,109 @@ export class AuthService {
     }
   }
 
+  /**
+   * Second factor gate shared by password and social logins
+   * @returns A challenge to send instead of tokens, or null if MFA does not apply
+   */
+  private async createMfaChallenge(
+    user: User,
+    provider: string,
+  ): Promise<MfaChallengeResponseDto | null> {
+    const enabled = await this.mfaService.isEnabled(user.id);
+    if (!enabled && !this.mfaService.isRequiredForUser(user)) {
+      return null;
+    }
+
+    const mfaExpires = this.configService.getOrThrow('auth.mfaExpires', {
+      infer: true,
+    });
+    const mfaToken = await this.jwtService.signAsync(
+      {
+        mfaUserId: user.id,
+        provider,
+      },
+      {
+        secret: this.getMfaSecret(),
+        expiresIn: mfaExpires,
+      },
+    );
+
+    this.auditService.logAuthEvent({
+      userId: user.id,
+      provider,
+      event: AuthEventType.MFA_CHALLENGE_ISSUED,
+      success: true,
+      metadata: { enrollmentRequired: !enabled },
+    });
+
+    return {
+      mfaRequired: true,
+      mfaToken,
+      mfaTokenExpires: Date.now() + ms(mfaExpires),
+      enrollmentRequired: !enabled,
+    };
+  }
+
+  private async verifyMfaChallenge(
+    mfaToken: string,
+  ): Promise<{ user: User; provider: string }> {
+    const secret = this.getMfaSecret();
+    let userId: User['id'];
+    let provider: string;
+
+    try {
+      const jwtData = await this.jwtService.verifyAsync<{
+        mfaUserId: User['id'];
+        provider: string;
+      }>(mfaToken, { secret });
+
+      userId = jwtData.mfaUserId;
+      provider = jwtData.provider;
+    } catch {
+      throw new UnprocessableEntityException({
+        status: HttpStatus.UNPROCESSABLE_ENTITY,
+        errors: {
+          mfaToken: 'invalidToken',
+        },
+      });
+    }
+
+    const user = await this.usersService.findById(userId);
+    if (!user) {
+      throw new UnprocessableEntityException({
+        status: HttpStatus.UNPROCESSABLE_ENTITY,
+        errors: {
+          mfaToken: 'invalidToken',
+        },
+      });
+    }
+
+    return { user, provider };
+  }
+
+  private getMfaSecret(): string {
+    const secret = this.configService.get('auth.mfaSecret', { infer: true });
+    if (!secret) {
+      throw new Error('AUTH_MFA_SECRET is required to use MFA');
+    }
+    return secret;
+  }
+
+  private async getCurrentUser(userJwtPayload: JwtPayloadType): Promise<User> {
+    const user = await this.usersService.findById(userJwtPayload.id);
+
+    if (!user) {
+      throw new UnprocessableEntityException({
+        status: HttpStatus.UNPROCESSABLE_ENTITY,
+        errors: {
+          user: 'userNotFound',
+        },
+      });
+    }
+
+    return user;
+  }
+
   private async getTokensData(data: {
     id: User['id'];
     role: User['role'];
@@ -949,7 +1232,7 @@ export class AuthService {
     const audience = this.configService.get('auth.jwtAudience', {
       infer: true,
     });
-    const keyId = this.configService.get('auth.jwtKeyId', { infer: true });
+    const signingKey = await this.signingKeysService.getSigningKey();
 
     // Build token payload with backward compatibility
     // Support both legacy (id, sessionId) and new (sub, sid) formats
@@ -974,16 +1257,16 @@ export class AuthService {
 
     const [token, refreshToken] = await Promise.all([
       await this.jwtService.signAsync(tokenPayload, {
-        secret: this.configService.getOrThrow('auth.secret', { infer: true }),
+        // HMAC secret or private key PEM, depending on auth.jwtAlgorithm
+        secret: signingKey.key,
+        algorithm: signingKey.algorithm,
         // Note: Do not use expiresIn here since we manually set 'exp' in the payload above
         // This allows us to also set 'nbf' (not before) for RFC 7519 compliance
-        ...(keyId && {
-          header: {
-            alg: 'HS256', // Algorithm (required by JWT header type)
-            typ: 'at+jwt', // RFC 9068
-            kid: keyId, // Key ID for rotation
-          },
-        }),
+        header: {
+          alg: signingKey.algorithm, // Algorithm (required by JWT header type)
+          typ: 'at+jwt', // RFC 9068
+          kid: signingKey.kid, // Key ID for rotation (JWKS lookup)
+        },
       }),
       // Refresh token remains unchanged (internal use only)
       await this.jwtService.signAsync(
@@ -1,5 +1,11 @@
 import ms from 'ms';
 
+export enum JwtSigningAlgorithm {
+  HS256 = 'HS256', // Shared secret (auth.secret), not published in the JWKS
+  RS256 = 'RS256',
+  ES256 = 'ES256',
+}
+
 export type AuthConfig = {
   secret?: string;
   expires?: ms.StringValue;
@@ -17,4 +23,16 @@ export type AuthConfig = {
   jwtAudience?: string;
   jwtKeyId?: string;
   jwtAllowedAlgorithms?: string[];
+  // Access token signing (RFC 7517 key set for RS256/ES256)
+  jwtAlgorithm: JwtSigningAlgorithm;
+  jwtKeyRotationInterval: ms.StringValue; // Age at which the signing key is replaced
+  jwtKeyEncryptionSecret?: string; // Encrypts stored private keys
+  // Multi-factor authentication (TOTP)
+  mfaSecret?: string; // Signs login challenge tokens
+  mfaExpires?: ms.StringValue;
+  mfaEncryptionSecret?: string; // Encrypts stored TOTP seeds
+  mfaIssuer: string; // Account label shown in authenticator apps
+  mfaMaxAttempts: number; // Failed codes before the second factor is locked
+  mfaLockoutDuration: ms.StringValue;
+  mfaRequiredRoles: number[]; // RoleEnum ids that must use MFA (all providers)
 };
@@ -1,9 +1,16 @@
 import { registerAs } from '@nestjs/config';
 
-import { IsString, IsOptional, IsNumber } from 'class-validator';
+import {
+  IsEnum,
+  IsNumber,
+  IsOptional,
+  IsString,
+  ValidateIf,
+} from 'class-validator';
 import validateConfig from '../../utils/validate-config';
-import { AuthConfig } from './auth-config.type';
+import { AuthConfig, JwtSigningAlgorithm } from './auth-config.type';
 import ms from 'ms';
+import { RoleEnum } from '../../roles/roles.enum';
 
 class EnvironmentVariablesValidator {
   @IsString()
@@ -55,11 +62,62 @@ class EnvironmentVariablesValidator {
   @IsString()
   @IsOptional()
   AUTH_JWT_ALLOWED_ALGORITHMS?: string;
+
+  // Access token signing
+  @IsEnum(JwtSigningAlgorithm)
+  @IsOptional()
+  AUTH_JWT_ALGORITHM?: JwtSigningAlgorithm;
+
+  @IsString()
+  @IsOptional()
+  AUTH_JWT_KEY_ROTATION_INTERVAL?: string;
+
+  @ValidateIf(
+    (envValues) =>
+      !!envValues.AUTH_JWT_ALGORITHM &&
+      envValues.AUTH_JWT_ALGORITHM !== JwtSigningAlgorithm.HS256,
+  )
+  @IsString()
+  AUTH_JWT_KEY_ENCRYPTION_SECRET?: string;
+
+  // Multi-factor authentication (secrets required once a role must use MFA)
+  @ValidateIf((envValues) => !!envValues.AUTH_MFA_REQUIRED_ROLES)
+  @IsString()
+  AUTH_MFA_SECRET?: string;
+
+  @IsString()
+  @IsOptional()
+  AUTH_MFA_TOKEN_EXPIRES_IN?: string;
+
+  @ValidateIf((envValues) => !!envValues.AUTH_MFA_REQUIRED_ROLES)
+  @IsString()
+  AUTH_MFA_ENCRYPTION_SECRET?: string;
+
+  @IsString()
+  @IsOptional()
+  AUTH_MFA_ISSUER?: string;
+
+  @IsNumber()
+  @IsOptional()
+  AUTH_MFA_MAX_ATTEMPTS?: number;
+
+  @IsString()
+  @IsOptional()
+  AUTH_MFA_LOCKOUT_DURATION?: string;
+
+  // Comma-separated role names, e.g. "admin"
+  @IsString()
+  @IsOptional()
+  AUTH_MFA_REQUIRED_ROLES?: string;
 }
 
 export default registerAs<AuthConfig>('auth', () => {
   validateConfig(process.env, EnvironmentVariablesValidator);
 
+  const jwtAlgorithm =
+    (process.env.AUTH_JWT_ALGORITHM as JwtSigningAlgorithm) ||
+    JwtSigningAlgorithm.HS256;
+
   return {
     secret: process.env.AUTH_JWT_SECRET,
     expires: process.env.AUTH_JWT_TOKEN_EXPIRES_IN as ms.StringValue,
@@ -81,6 +139,26 @@ export default registerAs<AuthConfig>('auth', () => {
     jwtKeyId: process.env.AUTH_JWT_KEY_ID || 'hmac-2025-01',
     jwtAllowedAlgorithms: process.env.AUTH_JWT_ALLOWED_ALGORITHMS
       ? process.env.AUTH_JWT_ALLOWED_ALGORITHMS.split(',').map((a) => a.trim())
-      : ['HS256'],
+      : [jwtAlgorithm],
+    // Access token signing
+    jwtAlgorithm,
+    jwtKeyRotationInterval: (process.env.AUTH_JWT_KEY_ROTATION_INTERVAL ||
+      '30d') as ms.StringValue,
+    jwtKeyEncryptionSecret: process.env.AUTH_JWT_KEY_ENCRYPTION_SECRET,
+    // Multi-factor authentication
+    mfaSecret: process.env.AUTH_MFA_SECRET,
+    mfaExpires: (process.env.AUTH_MFA_TOKEN_EXPIRES_IN ||
+      '5m') as ms.StringValue,
+    mfaEncryptionSecret: process.env.AUTH_MFA_ENCRYPTION_SECRET,
+    mfaIssuer: process.env.AUTH_MFA_ISSUER || 'Keystone',
+    mfaMaxAttempts: process.env.AUTH_MFA_MAX_ATTEMPTS
+      ? parseInt(process.env.AUTH_MFA_MAX_ATTEMPTS, 10)
+      : 5,
+    mfaLockoutDuration: (process.env.AUTH_MFA_LOCKOUT_DURATION ||
+      '15m') as ms.StringValue,
+    mfaRequiredRoles: (process.env.AUTH_MFA_REQUIRED_ROLES || '')
+      .split(',')
+      .map((role) => RoleEnum[role.trim() as keyof typeof RoleEnum])
+      .filter((roleId) => roleId !== undefined),
   };
 });
@@ -0,0 +1,13 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsNotEmpty, IsString, MaxLength } from 'class-validator';
+
+export class AuthMfaCodeDto {
+  @ApiProperty({
+    example: '123456',
+    description: 'Current authenticator code, or an unused recovery code',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(20)
+  code: string;
+}
@@ -0,0 +1,17 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsNotEmpty, IsString, MaxLength } from 'class-validator';
+
+export class AuthMfaLoginDto {
+  @ApiProperty({ description: 'Challenge token returned by the login call' })
+  @IsNotEmpty()
+  mfaToken: string;
+
+  @ApiProperty({
+    example: '123456',
+    description: 'Current authenticator code, or an unused recovery code',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(20)
+  code: string;
+}
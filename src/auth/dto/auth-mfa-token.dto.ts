@@ -0,0 +1,8 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsNotEmpty } from 'class-validator';
+
+export class AuthMfaTokenDto {
+  @ApiProperty({ description: 'Challenge token returned by the login call' })
+  @IsNotEmpty()
+  mfaToken: string;
+}
@@ -1,4 +1,4 @@
-import { ApiProperty } from '@nestjs/swagger';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 import { User } from '../../users/domain/user';
 
 export class LoginResponseDto {
@@ -15,4 +15,11 @@ export class LoginResponseDto {
     type: () => User,
   })
   user: User;
+
+  @ApiPropertyOptional({
+    type: [String],
+    description:
+      'Recovery codes, only when MFA enrollment was completed during this login',
+  })
+  recoveryCodes?: string[];
 }
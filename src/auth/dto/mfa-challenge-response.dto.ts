@@ -0,0 +1,21 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * Returned by login endpoints instead of tokens when a second factor is needed
+ */
+export class MfaChallengeResponseDto {
+  @ApiProperty({ example: true })
+  mfaRequired: true;
+
+  @ApiProperty({ description: 'Send with the code to auth/mfa/login' })
+  mfaToken: string;
+
+  @ApiProperty()
+  mfaTokenExpires: number;
+
+  @ApiProperty({
+    description:
+      'MFA is required for this role but not set up yet: call auth/mfa/login/totp/setup first',
+  })
+  enrollmentRequired: boolean;
+}
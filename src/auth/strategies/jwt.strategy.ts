@@ -2,22 +2,40 @@ import { ExtractJwt, Strategy } from 'passport-jwt';
 import { Injectable, UnauthorizedException } from '@nestjs/common';
 import { PassportStrategy } from '@nestjs/passport';
 import { ConfigService } from '@nestjs/config';
+import { JwtService, JwtVerifyOptions } from '@nestjs/jwt';
 import { OrNeverType } from '../../utils/types/or-never.type';
 import { JwtPayloadType } from './types/jwt-payload.type';
 import { AllConfigType } from '../../config/config.type';
 import { SessionService } from '../../session/session.service';
 import { AuditService, AuthEventType } from '../../audit/audit.service';
+import { SigningKeysService } from '../../signing-keys/signing-keys.service';
 
 @Injectable()
 export class JwtStrategy extends PassportStrategy(Strategy, 'jwt') {
   constructor(
     private readonly sessionService: SessionService,
     private readonly auditService: AuditService,
+    signingKeysService: SigningKeysService,
+    jwtService: JwtService,
     configService: ConfigService<AllConfigType>,
   ) {
     super({
       jwtFromRequest: ExtractJwt.fromAuthHeaderAsBearerToken(),
-      secretOrKey: configService.getOrThrow('auth.secret', { infer: true }),
+      algorithms: configService.getOrThrow('auth.jwtAllowedAlgorithms', {
+        infer: true,
+      }) as JwtVerifyOptions['algorithms'],
+      // Resolve the key by the token's "kid" so rotated keys keep verifying
+      secretOrKeyProvider: (_request, rawJwtToken: string, done) => {
+        const header = jwtService.decode(rawJwtToken, {
+          complete: true,
+        })?.header;
+        signingKeysService
+          .getVerificationKey(header)
+          .then((key) =>
+            key ? done(null, key) : done(new Error('Unknown signing key')),
+          )
+          .catch((error) => done(error));
+      },
     });
   }
 
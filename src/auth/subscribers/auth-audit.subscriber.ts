@@ -0,0 +1,50 @@
+import { Injectable, OnModuleInit } from '@nestjs/common';
+import { AuditService, AuthEventType } from '../../audit/audit.service';
+import { DomainEventBus } from '../../domain-events/domain-event-bus.service';
+import {
+  DomainEventName,
+  SessionRevocationReason,
+} from '../../domain-events/domain/domain-event';
+
+const SUBSCRIBER = 'auth-audit';
+
+const AUDITED_REASONS: Partial<Record<SessionRevocationReason, AuthEventType>> =
+  {
+    [SessionRevocationReason.LOGOUT]: AuthEventType.LOGOUT,
+    [SessionRevocationReason.PASSWORD_RESET]:
+      AuthEventType.PASSWORD_RESET_COMPLETED,
+  };
+
+/**
+ * Audits logouts and completed password resets
+ *
+ * Apple notifications are audited where they are handled, with their own
+ * event types.
+ */
+@Injectable()
+export class AuthAuditSubscriber implements OnModuleInit {
+  constructor(
+    private readonly eventBus: DomainEventBus,
+    private readonly auditService: AuditService,
+  ) {}
+
+  onModuleInit(): void {
+    this.eventBus.subscribe(
+      DomainEventName.SESSION_REVOKED,
+      SUBSCRIBER,
+      async ({ payload }) => {
+        const event = AUDITED_REASONS[payload.reason];
+        if (!event) return;
+
+        // HIPAA Audit: Log logout / password reset
+        await this.auditService.record({
+          userId: payload.userId,
+          provider: 'system',
+          event,
+          sessionId: payload.sessionId,
+          success: true,
+        });
+      },
+    );
+  }
+}
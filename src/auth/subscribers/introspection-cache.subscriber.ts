@@ -0,0 +1,35 @@
+import { Injectable, OnModuleInit } from '@nestjs/common';
+import { DomainEventBus } from '../../domain-events/domain-event-bus.service';
+import { DomainEventName } from '../../domain-events/domain/domain-event';
+import { TokenIntrospectionCacheService } from '../services/token-introspection-cache.service';
+
+const SUBSCRIBER = 'introspection-cache';
+
+/**
+ * Drops cached introspection results of revoked sessions, so resource
+ * servers see `active: false` immediately instead of after the cache TTL
+ */
+@Injectable()
+export class IntrospectionCacheSubscriber implements OnModuleInit {
+  constructor(
+    private readonly eventBus: DomainEventBus,
+    private readonly introspectionCache: TokenIntrospectionCacheService,
+  ) {}
+
+  onModuleInit(): void {
+    this.eventBus.subscribe(
+      DomainEventName.SESSION_REVOKED,
+      SUBSCRIBER,
+      ({ payload }) => {
+        if (payload.sessionId !== undefined) {
+          this.introspectionCache.invalidateBySessionId(payload.sessionId);
+          return;
+        }
+
+        // All sessions, or all but exceptSessionId: the kept session's
+        // entries are dropped too and simply re-cached on next use
+        this.introspectionCache.invalidateByUserId(payload.userId);
+      },
+    );
+  }
+}
@@ -1,8 +1,10 @@
 import { AppConfig } from './app-config.type';
+import { AuditConfig } from '../audit/config/audit-config.type';
 import { AppleConfig } from '../auth-apple/config/apple-config.type';
 import { AuthConfig } from '../auth/config/auth-config.type';
 import { DatabaseConfig } from '../database/config/database-config.type';
 import { DocumentProcessingConfig } from '../document-processing/config/document-processing-config.type';
+import { DomainEventsConfig } from '../domain-events/config/domain-events-config.type';
 import { FacebookConfig } from '../auth-facebook/config/facebook-config.type';
 import { FileConfig } from '../files/config/file-config.type';
 import { GoogleConfig } from '../auth-google/config/google-config.type';
@@ -12,9 +14,11 @@ import { ThrottlerConfig } from './throttler-config.type';
 export type AllConfigType = {
   app: AppConfig;
   apple: AppleConfig;
+  audit: AuditConfig;
   auth: AuthConfig;
   database: DatabaseConfig;
   documentProcessing: DocumentProcessingConfig;
+  domainEvents: DomainEventsConfig;
   facebook: FacebookConfig;
   file: FileConfig;
   google: GoogleConfig;
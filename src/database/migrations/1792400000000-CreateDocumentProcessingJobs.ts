@@ -0,0 +1,41 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateDocumentProcessingJobs1792400000000
+  implements MigrationInterface
+{
+  name = 'CreateDocumentProcessingJobs1792400000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TABLE "document_processing_jobs" ("id" uuid NOT NULL DEFAULT uuid_generate_v4(), "document_id" uuid NOT NULL, "status" character varying(20) NOT NULL, "attempts" integer NOT NULL DEFAULT '0', "available_at" TIMESTAMP NOT NULL, "leased_by" character varying(100), "lease_expires_at" TIMESTAMP, "last_error" text, "created_at" TIMESTAMP NOT NULL DEFAULT now(), "updated_at" TIMESTAMP NOT NULL DEFAULT now(), "completed_at" TIMESTAMP, CONSTRAINT "PK_document_processing_jobs_id" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_document_processing_jobs_status_available_at" ON "document_processing_jobs" ("status", "available_at") `,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_document_processing_jobs_lease_expires_at" ON "document_processing_jobs" ("lease_expires_at") `,
+    );
+    await queryRunner.query(
+      `CREATE UNIQUE INDEX "UQ_document_processing_jobs_open_document" ON "document_processing_jobs" ("document_id") WHERE "status" IN ('PENDING', 'LEASED')`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "document_processing_jobs" ADD CONSTRAINT "FK_document_processing_jobs_document_id" FOREIGN KEY ("document_id") REFERENCES "documents"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "document_processing_jobs" DROP CONSTRAINT "FK_document_processing_jobs_document_id"`,
+    );
+    await queryRunner.query(
+      `DROP INDEX "public"."UQ_document_processing_jobs_open_document"`,
+    );
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_document_processing_jobs_lease_expires_at"`,
+    );
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_document_processing_jobs_status_available_at"`,
+    );
+    await queryRunner.query(`DROP TABLE "document_processing_jobs"`);
+  }
+}
@@ -0,0 +1,39 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateDocumentGrants1792400001000 implements MigrationInterface {
+  name = 'CreateDocumentGrants1792400001000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TABLE "document_grants" ("id" uuid NOT NULL DEFAULT uuid_generate_v4(), "document_id" uuid NOT NULL, "granted_by_user_id" integer NOT NULL, "grantee_user_id" integer, "grantee_email" character varying(255), "scopes" character varying(20) array NOT NULL, "expires_at" TIMESTAMP, "revoked_at" TIMESTAMP, "last_used_at" TIMESTAMP, "created_at" TIMESTAMP NOT NULL DEFAULT now(), "updated_at" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "PK_document_grants_id" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_document_grants_document_id" ON "document_grants" ("document_id") `,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_document_grants_grantee_user_id" ON "document_grants" ("grantee_user_id") `,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_document_grants_grantee_email" ON "document_grants" ("grantee_email") `,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "document_grants" ADD CONSTRAINT "FK_document_grants_document_id" FOREIGN KEY ("document_id") REFERENCES "documents"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "document_grants" DROP CONSTRAINT "FK_document_grants_document_id"`,
+    );
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_document_grants_grantee_email"`,
+    );
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_document_grants_grantee_user_id"`,
+    );
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_document_grants_document_id"`,
+    );
+    await queryRunner.query(`DROP TABLE "document_grants"`);
+  }
+}
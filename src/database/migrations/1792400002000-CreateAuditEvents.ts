@@ -0,0 +1,54 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateAuditEvents1792400002000 implements MigrationInterface {
+  name = 'CreateAuditEvents1792400002000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TABLE "audit_events" ("id" uuid NOT NULL DEFAULT uuid_generate_v4(), "sequence" bigint NOT NULL, "timestamp" TIMESTAMP NOT NULL, "user_id" character varying(64) NOT NULL, "provider" character varying(50) NOT NULL, "event" character varying(100) NOT NULL, "session_id" character varying(64), "success" boolean NOT NULL, "ip_address" character varying(64), "user_agent" character varying(200), "error_type" character varying(500), "environment" character varying(50), "document_id" character varying(64), "metadata" jsonb, "previous_hash" character(64) NOT NULL, "hash" character(64) NOT NULL, CONSTRAINT "UQ_audit_events_sequence" UNIQUE ("sequence"), CONSTRAINT "PK_audit_events_id" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_audit_events_timestamp" ON "audit_events" ("timestamp") `,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_audit_events_user_id_timestamp" ON "audit_events" ("user_id", "timestamp") `,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_audit_events_document_id_timestamp" ON "audit_events" ("document_id", "timestamp") `,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_audit_events_event_timestamp" ON "audit_events" ("event", "timestamp") `,
+    );
+    // Append-only: reject UPDATE, DELETE and TRUNCATE at the database level
+    await queryRunner.query(
+      `CREATE FUNCTION "audit_events_append_only"() RETURNS trigger AS $$ BEGIN RAISE EXCEPTION 'audit_events is append-only'; END; $$ LANGUAGE plpgsql`,
+    );
+    await queryRunner.query(
+      `CREATE TRIGGER "TRG_audit_events_append_only" BEFORE UPDATE OR DELETE ON "audit_events" FOR EACH ROW EXECUTE FUNCTION "audit_events_append_only"()`,
+    );
+    await queryRunner.query(
+      `CREATE TRIGGER "TRG_audit_events_no_truncate" BEFORE TRUNCATE ON "audit_events" FOR EACH STATEMENT EXECUTE FUNCTION "audit_events_append_only"()`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `DROP TRIGGER "TRG_audit_events_no_truncate" ON "audit_events"`,
+    );
+    await queryRunner.query(
+      `DROP TRIGGER "TRG_audit_events_append_only" ON "audit_events"`,
+    );
+    await queryRunner.query(`DROP FUNCTION "audit_events_append_only"()`);
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_audit_events_event_timestamp"`,
+    );
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_audit_events_document_id_timestamp"`,
+    );
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_audit_events_user_id_timestamp"`,
+    );
+    await queryRunner.query(`DROP INDEX "public"."IDX_audit_events_timestamp"`);
+    await queryRunner.query(`DROP TABLE "audit_events"`);
+  }
+}
@@ -0,0 +1,31 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddAccessLogFieldsToAuditEvents1792400003000
+  implements MigrationInterface
+{
+  name = 'AddAccessLogFieldsToAuditEvents1792400003000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "audit_events" ADD "subject_user_id" character varying(64)`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "audit_events" ADD "location" character varying(100)`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_audit_events_subject_user_id_timestamp" ON "audit_events" ("subject_user_id", "timestamp") `,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_audit_events_subject_user_id_timestamp"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "audit_events" DROP COLUMN "location"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "audit_events" DROP COLUMN "subject_user_id"`,
+    );
+  }
+}
@@ -0,0 +1,21 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateJwtSigningKeys1792400004000 implements MigrationInterface {
+  name = 'CreateJwtSigningKeys1792400004000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TABLE "jwt_signing_keys" ("id" character varying(64) NOT NULL, "algorithm" character varying(10) NOT NULL, "public_key" text NOT NULL, "encrypted_private_key" text NOT NULL, "activates_at" TIMESTAMP NOT NULL, "expires_at" TIMESTAMP, "created_at" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "PK_jwt_signing_keys_id" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_jwt_signing_keys_expires_at" ON "jwt_signing_keys" ("expires_at") `,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_jwt_signing_keys_expires_at"`,
+    );
+    await queryRunner.query(`DROP TABLE "jwt_signing_keys"`);
+  }
+}
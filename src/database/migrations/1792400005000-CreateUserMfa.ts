@@ -0,0 +1,21 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateUserMfa1792400005000 implements MigrationInterface {
+  name = 'CreateUserMfa1792400005000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TABLE "user_mfa" ("id" uuid NOT NULL DEFAULT uuid_generate_v4(), "user_id" integer NOT NULL, "encrypted_totp_secret" text NOT NULL, "enabled_at" TIMESTAMP, "last_used_step" integer, "recovery_code_hashes" character varying(64) array NOT NULL DEFAULT '{}', "created_at" TIMESTAMP NOT NULL DEFAULT now(), "updated_at" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "UQ_user_mfa_user_id" UNIQUE ("user_id"), CONSTRAINT "PK_user_mfa_id" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "user_mfa" ADD CONSTRAINT "FK_user_mfa_user_id" FOREIGN KEY ("user_id") REFERENCES "user"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "user_mfa" DROP CONSTRAINT "FK_user_mfa_user_id"`,
+    );
+    await queryRunner.query(`DROP TABLE "user_mfa"`);
+  }
+}
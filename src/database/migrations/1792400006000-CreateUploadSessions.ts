@@ -0,0 +1,27 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateUploadSessions1792400006000 implements MigrationInterface {
+  name = 'CreateUploadSessions1792400006000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TABLE "upload_sessions" ("id" uuid NOT NULL DEFAULT uuid_generate_v4(), "user_id" integer NOT NULL, "document_type" character varying(50) NOT NULL, "file_name" character varying(255) NOT NULL, "mime_type" character varying(100) NOT NULL, "file_size" integer NOT NULL, "description" text, "bytes_received" integer NOT NULL DEFAULT 0, "part_names" character varying(80) array NOT NULL DEFAULT '{}', "completed_at" TIMESTAMP, "document_id" uuid, "expires_at" TIMESTAMP NOT NULL, "created_at" TIMESTAMP NOT NULL DEFAULT now(), "updated_at" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "PK_upload_sessions_id" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_upload_sessions_user_id" ON "upload_sessions" ("user_id") `,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_upload_sessions_expires_at" ON "upload_sessions" ("expires_at") `,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_upload_sessions_expires_at"`,
+    );
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_upload_sessions_user_id"`,
+    );
+    await queryRunner.query(`DROP TABLE "upload_sessions"`);
+  }
+}
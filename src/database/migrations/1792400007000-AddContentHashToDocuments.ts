@@ -0,0 +1,19 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddContentHashToDocuments1792400007000
+  implements MigrationInterface
+{
+  name = 'AddContentHashToDocuments1792400007000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "documents" ADD "content_hash" character varying(64)`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "documents" DROP COLUMN "content_hash"`,
+    );
+  }
+}
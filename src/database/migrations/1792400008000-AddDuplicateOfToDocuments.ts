@@ -0,0 +1,27 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddDuplicateOfToDocuments1792400008000
+  implements MigrationInterface
+{
+  name = 'AddDuplicateOfToDocuments1792400008000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "documents" ADD "duplicate_of" uuid`);
+    await queryRunner.query(
+      `CREATE INDEX "IDX_documents_duplicate_of" ON "documents" ("duplicate_of") `,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_documents_user_id_content_hash" ON "documents" ("user_id", "content_hash") `,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_documents_user_id_content_hash"`,
+    );
+    await queryRunner.query(`DROP INDEX "public"."IDX_documents_duplicate_of"`);
+    await queryRunner.query(
+      `ALTER TABLE "documents" DROP COLUMN "duplicate_of"`,
+    );
+  }
+}
@@ -0,0 +1,61 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateDocumentProcessingRuns1792400009000
+  implements MigrationInterface
+{
+  name = 'CreateDocumentProcessingRuns1792400009000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TABLE "document_processing_runs" ("id" uuid NOT NULL DEFAULT uuid_generate_v4(), "document_id" uuid NOT NULL, "pipeline_version" character varying(20) NOT NULL, "trigger" character varying(20) NOT NULL, "requested_by_user_id" integer, "status" character varying(20) NOT NULL, "promote_on_success" boolean NOT NULL DEFAULT true, "attempts" integer NOT NULL DEFAULT 0, "processing_method" character varying(50), "processed_file_uri" character varying(500), "ocr_json_output" jsonb, "extracted_text" text, "extracted_fields" jsonb, "confidence" numeric(5,4), "page_count" integer, "error_message" text, "created_at" TIMESTAMP NOT NULL DEFAULT now(), "updated_at" TIMESTAMP NOT NULL DEFAULT now(), "started_at" TIMESTAMP, "completed_at" TIMESTAMP, "promoted_at" TIMESTAMP, CONSTRAINT "PK_document_processing_runs_id" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_document_processing_runs_document_id_created_at" ON "document_processing_runs" ("document_id", "created_at") `,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_document_processing_runs_status" ON "document_processing_runs" ("status") `,
+    );
+    await queryRunner.query(
+      `CREATE UNIQUE INDEX "UQ_document_processing_runs_open_document" ON "document_processing_runs" ("document_id") WHERE "status" IN ('QUEUED', 'RUNNING')`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "document_processing_runs" ADD CONSTRAINT "FK_document_processing_runs_document_id" FOREIGN KEY ("document_id") REFERENCES "documents"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+
+    await queryRunner.query(
+      `ALTER TABLE "documents" ADD "current_run_id" uuid`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "documents" ADD "pipeline_version" character varying(20)`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_documents_pipeline_version" ON "documents" ("pipeline_version") `,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_documents_pipeline_version"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "documents" DROP COLUMN "pipeline_version"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "documents" DROP COLUMN "current_run_id"`,
+    );
+
+    await queryRunner.query(
+      `ALTER TABLE "document_processing_runs" DROP CONSTRAINT "FK_document_processing_runs_document_id"`,
+    );
+    await queryRunner.query(
+      `DROP INDEX "public"."UQ_document_processing_runs_open_document"`,
+    );
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_document_processing_runs_status"`,
+    );
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_document_processing_runs_document_id_created_at"`,
+    );
+    await queryRunner.query(`DROP TABLE "document_processing_runs"`);
+  }
+}
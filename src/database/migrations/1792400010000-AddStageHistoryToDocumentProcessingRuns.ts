@@ -0,0 +1,31 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddStageHistoryToDocumentProcessingRuns1792400010000
+  implements MigrationInterface
+{
+  name = 'AddStageHistoryToDocumentProcessingRuns1792400010000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "document_processing_runs" ADD "stages" jsonb NOT NULL DEFAULT '[]'`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "document_processing_runs" ADD "duration_ms" integer`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "document_processing_runs" ADD "pages_billed" integer NOT NULL DEFAULT 0`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "document_processing_runs" DROP COLUMN "pages_billed"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "document_processing_runs" DROP COLUMN "duration_ms"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "document_processing_runs" DROP COLUMN "stages"`,
+    );
+  }
+}
@@ -0,0 +1,38 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateDocumentWebhooks1792400011000 implements MigrationInterface {
+  name = 'CreateDocumentWebhooks1792400011000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TABLE "document_webhook_subscriptions" ("id" uuid NOT NULL DEFAULT uuid_generate_v4(), "name" character varying(100) NOT NULL, "url" character varying(2048) NOT NULL, "events" jsonb NOT NULL DEFAULT '[]', "active" boolean NOT NULL DEFAULT true, "encrypted_secret" text NOT NULL, "created_by_user_id" integer, "created_at" TIMESTAMP NOT NULL DEFAULT now(), "updated_at" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "PK_document_webhook_subscriptions_id" PRIMARY KEY ("id"))`,
+    );
+
+    await queryRunner.query(
+      `CREATE TABLE "document_webhook_deliveries" ("id" uuid NOT NULL DEFAULT uuid_generate_v4(), "subscription_id" uuid NOT NULL, "event_id" uuid NOT NULL, "event_type" character varying(50) NOT NULL, "document_id" uuid NOT NULL, "payload" jsonb NOT NULL, "redelivery_of" uuid, "status" character varying(20) NOT NULL, "attempts" integer NOT NULL DEFAULT 0, "next_attempt_at" TIMESTAMP, "attempt_log" jsonb NOT NULL DEFAULT '[]', "last_response_status" integer, "last_error" text, "created_at" TIMESTAMP NOT NULL DEFAULT now(), "updated_at" TIMESTAMP NOT NULL DEFAULT now(), "delivered_at" TIMESTAMP, CONSTRAINT "PK_document_webhook_deliveries_id" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_document_webhook_deliveries_status_next_attempt_at" ON "document_webhook_deliveries" ("status", "next_attempt_at") `,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_document_webhook_deliveries_subscription_id_created_at" ON "document_webhook_deliveries" ("subscription_id", "created_at") `,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "document_webhook_deliveries" ADD CONSTRAINT "FK_document_webhook_deliveries_subscription_id" FOREIGN KEY ("subscription_id") REFERENCES "document_webhook_subscriptions"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "document_webhook_deliveries" DROP CONSTRAINT "FK_document_webhook_deliveries_subscription_id"`,
+    );
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_document_webhook_deliveries_subscription_id_created_at"`,
+    );
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_document_webhook_deliveries_status_next_attempt_at"`,
+    );
+    await queryRunner.query(`DROP TABLE "document_webhook_deliveries"`);
+    await queryRunner.query(`DROP TABLE "document_webhook_subscriptions"`);
+  }
+}
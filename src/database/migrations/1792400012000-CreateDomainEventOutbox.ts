@@ -0,0 +1,23 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateDomainEventOutbox1792400012000
+  implements MigrationInterface
+{
+  name = 'CreateDomainEventOutbox1792400012000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TABLE "domain_event_outbox" ("id" uuid NOT NULL, "name" character varying(100) NOT NULL, "payload" jsonb NOT NULL, "context" jsonb, "occurred_at" TIMESTAMP NOT NULL, "status" character varying(20) NOT NULL, "attempts" integer NOT NULL DEFAULT 0, "next_attempt_at" TIMESTAMP NOT NULL, "completed_subscribers" jsonb NOT NULL DEFAULT '[]', "last_error" text, "dispatched_at" TIMESTAMP, CONSTRAINT "PK_domain_event_outbox_id" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_domain_event_outbox_status_next_attempt_at" ON "domain_event_outbox" ("status", "next_attempt_at") `,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_domain_event_outbox_status_next_attempt_at"`,
+    );
+    await queryRunner.query(`DROP TABLE "domain_event_outbox"`);
+  }
+}
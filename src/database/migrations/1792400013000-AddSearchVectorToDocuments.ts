@@ -0,0 +1,29 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddSearchVectorToDocuments1792400013000
+  implements MigrationInterface
+{
+  name = 'AddSearchVectorToDocuments1792400013000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "documents" ADD "search_vector" tsvector`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_documents_search_vector" ON "documents" USING GIN ("search_vector") `,
+    );
+    // Index documents processed before search existed
+    await queryRunner.query(
+      `UPDATE "documents" SET "search_vector" = to_tsvector('english', "extracted_text") WHERE "status" = 'PROCESSED' AND "deleted_at" IS NULL AND "extracted_text" IS NOT NULL`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_documents_search_vector"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "documents" DROP COLUMN "search_vector"`,
+    );
+  }
+}
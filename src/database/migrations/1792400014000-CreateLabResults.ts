@@ -0,0 +1,35 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateLabResults1792400014000 implements MigrationInterface {
+  name = 'CreateLabResults1792400014000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TABLE "lab_results" ("id" uuid NOT NULL DEFAULT uuid_generate_v4(), "document_id" uuid NOT NULL, "row_index" integer NOT NULL, "page_index" integer NOT NULL DEFAULT 0, "analyte" character varying(200) NOT NULL, "value" character varying(100) NOT NULL, "numeric_value" double precision, "unit" character varying(50), "reference_low" double precision, "reference_high" double precision, "reference_range" character varying(100), "flag" character varying(20), "specimen" character varying(100), "collection_date" date, "created_at" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "PK_lab_results_id" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_lab_results_document_id_row_index" ON "lab_results" ("document_id", "row_index") `,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "lab_results" ADD CONSTRAINT "FK_lab_results_document_id" FOREIGN KEY ("document_id") REFERENCES "documents"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+
+    // Snapshot on each run, restored on promotion (like extracted fields)
+    await queryRunner.query(
+      `ALTER TABLE "document_processing_runs" ADD "lab_results" jsonb`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "document_processing_runs" DROP COLUMN "lab_results"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "lab_results" DROP CONSTRAINT "FK_lab_results_document_id"`,
+    );
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_lab_results_document_id_row_index"`,
+    );
+    await queryRunner.query(`DROP TABLE "lab_results"`);
+  }
+}
@@ -0,0 +1,23 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddBackFileToDocuments1792400015000 implements MigrationInterface {
+  name = 'AddBackFileToDocuments1792400015000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "documents" ADD "back_file_uri" character varying(500)`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "documents" ADD "back_mime_type" character varying(100)`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "documents" DROP COLUMN "back_mime_type"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "documents" DROP COLUMN "back_file_uri"`,
+    );
+  }
+}
@@ -0,0 +1,35 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateMedications1792400016000 implements MigrationInterface {
+  name = 'CreateMedications1792400016000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TABLE "medications" ("id" uuid NOT NULL DEFAULT uuid_generate_v4(), "document_id" uuid NOT NULL, "row_index" integer NOT NULL, "drug_name" character varying(200) NOT NULL, "printed_name" character varying(200) NOT NULL, "strength" character varying(50), "dosage_form" character varying(50), "sig" text, "dose" character varying(50), "route" character varying(20), "frequency" character varying(50), "times_per_day" double precision, "interval_hours" integer, "as_needed" boolean NOT NULL DEFAULT false, "as_needed_reason" character varying(100), "quantity" double precision, "refills" integer, "confidence" numeric(5,4) NOT NULL, "created_at" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "PK_medications_id" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_medications_document_id_row_index" ON "medications" ("document_id", "row_index") `,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "medications" ADD CONSTRAINT "FK_medications_document_id" FOREIGN KEY ("document_id") REFERENCES "documents"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+
+    // Snapshot on each run, restored on promotion (like lab results)
+    await queryRunner.query(
+      `ALTER TABLE "document_processing_runs" ADD "medications" jsonb`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "document_processing_runs" DROP COLUMN "medications"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "medications" DROP CONSTRAINT "FK_medications_document_id"`,
+    );
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_medications_document_id_row_index"`,
+    );
+    await queryRunner.query(`DROP TABLE "medications"`);
+  }
+}
@@ -0,0 +1,35 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateImmunizations1792400017000 implements MigrationInterface {
+  name = 'CreateImmunizations1792400017000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TABLE "immunizations" ("id" uuid NOT NULL DEFAULT uuid_generate_v4(), "document_id" uuid NOT NULL, "row_index" integer NOT NULL, "cvx_code" character varying(10) NOT NULL, "vaccine_name" character varying(200) NOT NULL, "printed_name" character varying(200) NOT NULL, "administered_date" date, "dose_number" integer, "lot_number" character varying(50), "manufacturer" character varying(100), "administered_at" character varying(200), "confidence" numeric(5,4) NOT NULL, "created_at" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "PK_immunizations_id" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_immunizations_document_id_row_index" ON "immunizations" ("document_id", "row_index") `,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "immunizations" ADD CONSTRAINT "FK_immunizations_document_id" FOREIGN KEY ("document_id") REFERENCES "documents"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+
+    // Snapshot on each run, restored on promotion (like lab results)
+    await queryRunner.query(
+      `ALTER TABLE "document_processing_runs" ADD "immunizations" jsonb`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "document_processing_runs" DROP COLUMN "immunizations"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "immunizations" DROP CONSTRAINT "FK_immunizations_document_id"`,
+    );
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_immunizations_document_id_row_index"`,
+    );
+    await queryRunner.query(`DROP TABLE "immunizations"`);
+  }
+}
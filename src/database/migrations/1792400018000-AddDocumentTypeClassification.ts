@@ -0,0 +1,65 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddDocumentTypeClassification1792400018000
+  implements MigrationInterface
+{
+  name = 'AddDocumentTypeClassification1792400018000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "documents" ADD "declared_document_type" character varying(50)`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "documents" ADD "predicted_document_type" character varying(50)`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "documents" ADD "classification_confidence" numeric(5,4)`,
+    );
+    // Existing documents were all uploaded with a declared type
+    await queryRunner.query(
+      `UPDATE "documents" SET "declared_document_type" = "document_type"`,
+    );
+
+    await queryRunner.query(
+      `ALTER TABLE "document_processing_runs" ADD "document_type" character varying(50)`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "document_processing_runs" ADD "predicted_document_type" character varying(50)`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "document_processing_runs" ADD "classification_confidence" numeric(5,4)`,
+    );
+
+    // Resumable uploads may leave the type to the classifier
+    await queryRunner.query(
+      `ALTER TABLE "upload_sessions" ALTER COLUMN "document_type" DROP NOT NULL`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `UPDATE "upload_sessions" SET "document_type" = 'OTHER' WHERE "document_type" IS NULL`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "upload_sessions" ALTER COLUMN "document_type" SET NOT NULL`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "document_processing_runs" DROP COLUMN "classification_confidence"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "document_processing_runs" DROP COLUMN "predicted_document_type"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "document_processing_runs" DROP COLUMN "document_type"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "documents" DROP COLUMN "classification_confidence"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "documents" DROP COLUMN "predicted_document_type"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "documents" DROP COLUMN "declared_document_type"`,
+    );
+  }
+}
@@ -0,0 +1,23 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddMfaAttemptLimit1792400019000 implements MigrationInterface {
+  name = 'AddMfaAttemptLimit1792400019000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "user_mfa" ADD "failed_attempts" integer NOT NULL DEFAULT 0`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "user_mfa" ADD "locked_until" TIMESTAMP`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "user_mfa" DROP COLUMN "locked_until"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "user_mfa" DROP COLUMN "failed_attempts"`,
+    );
+  }
+}
@@ -0,0 +1,43 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { DataSource, EntityManager, ObjectLiteral, Repository } from 'typeorm';
+
+/**
+ * Ambient TypeORM transaction
+ *
+ * RelationalUnitOfWork stores the EntityManager of its transaction here, and
+ * repositories write through transactional() / runInTransaction() to join it:
+ * a state change and the domain events that describe it (outbox rows) are
+ * committed or rolled back together.
+ */
+const currentTransaction = new AsyncLocalStorage<EntityManager>();
+
+/**
+ * The repository bound to the ambient transaction, or the repository itself
+ * outside of one
+ */
+export function transactional<Entity extends ObjectLiteral>(
+  repository: Repository<Entity>,
+): Repository<Entity> {
+  return (
+    currentTransaction.getStore()?.getRepository(repository.target) ??
+    repository
+  );
+}
+
+/**
+ * Run work in the ambient transaction, or in a new one that repositories
+ * called from the work join
+ */
+export function runInTransaction<T>(
+  dataSource: DataSource,
+  work: (manager: EntityManager) => Promise<T>,
+): Promise<T> {
+  const manager = currentTransaction.getStore();
+  if (manager) {
+    return work(manager);
+  }
+
+  return dataSource.transaction((transactionManager) =>
+    currentTransaction.run(transactionManager, () => work(transactionManager)),
+  );
+}
@@ -1,7 +1,106 @@
+import { DocumentType } from '../domain/enums/document-type.enum';
+
+export enum OcrEngine {
+  GCP_VISION = 'gcp-vision',
+  GCP_DOCUMENT_AI = 'gcp-document-ai',
+  LOCAL = 'local', // Offline tesseract.js engine
+}
+
+export enum StorageDriver {
+  GCS = 'gcs',
+  LOCAL = 'local', // Local filesystem with HMAC-signed download links
+  S3 = 's3', // AWS S3 or any S3-compatible service (MinIO)
+}
+
+export enum DuplicateUploadPolicy {
+  LINK = 'link', // Keep the new document, reusing the earlier document's results
+  RETURN_EXISTING = 'return-existing', // Discard the upload, return the earlier document
+}
+
+export enum MalwareScannerDriver {
+  CLAMAV = 'clamav', // clamd over its unix socket or TCP port
+  NONE = 'none', // No scanning (tests and local development only)
+}
+
+export enum StatusEventsDriver {
+  MEMORY = 'memory', // In-process only: API and worker must share a process
+  POSTGRES = 'postgres', // LISTEN/NOTIFY: events reach every API instance
+}
+
 export type DocumentProcessingConfig = {
   maxFileSizeMb: number;
   retentionYears: number;
   syncMaxPages: number; // Threshold for sync vs batch processing
+  reprocessCooldownSeconds: number; // Min time between owner reprocess requests per document
+  uploads: {
+    maxFileSizeMb: number; // Resumable uploads only (single request: maxFileSizeMb)
+    chunkSizeMb: number; // Max chunk size; all chunks but the last are >= 5 MB
+    sessionTtlHours: number; // Idle time before an unfinished upload is deleted
+    intentTtlSeconds: number; // Lifetime of signed direct-upload URLs
+    duplicatePolicy: DuplicateUploadPolicy; // Re-uploads of a file the user already has
+  };
+  queue: {
+    workerEnabled: boolean; // Run the processing worker in this process
+    concurrency: number; // Max jobs processed in parallel per worker
+    pollIntervalMs: number; // How often the worker polls for new jobs
+    leaseSeconds: number; // Visibility timeout before a claimed job is re-queued
+    maxAttempts: number; // Claims allowed before a job is dead-lettered
+  };
+  storage: {
+    driver: StorageDriver;
+    rawPrefix: string;
+    processedPrefix: string;
+    uploadPrefix: string; // Staged parts of resumable uploads
+    local: {
+      rootDir: string; // Directory holding stored documents
+      signingSecret?: string; // HMAC key for signed download links
+    };
+    s3: {
+      endpoint?: string; // Custom endpoint for S3-compatible services
+      region: string;
+      bucket?: string;
+      accessKeyId?: string; // Falls back to the AWS default credential chain
+      secretAccessKey?: string;
+      forcePathStyle: boolean; // Required by most S3-compatible services
+    };
+  };
+  statusEvents: {
+    driver: StatusEventsDriver; // Fan-out of document status events to SSE clients
+  };
+  webhooks: {
+    secretEncryptionKey?: string; // Encrypts signing secrets at rest; required to register webhooks
+    maxAttempts: number; // Delivery attempts before a delivery is marked FAILED
+    retryBaseSeconds: number; // Delay before the first retry; doubles with every attempt
+    timeoutMs: number; // Max time for a subscriber to respond
+  };
+  malwareScan: {
+    scanner: MalwareScannerDriver;
+    clamav: {
+      socketPath?: string; // clamd LocalSocket; takes precedence over host/port
+      host: string;
+      port: number;
+      timeoutMs: number; // Max time for a single scan
+    };
+  };
+  pipeline: {
+    defaultRoute?: string; // Extraction route for types without an override
+    routes: Partial<Record<DocumentType, string>>; // Per-type route overrides
+  };
+  classification: {
+    enabled: boolean; // Predict the type after text extraction; documentType optional on upload
+    autoCorrect: boolean; // Process declared documents as the predicted type
+    autoCorrectMinConfidence: number; // Prediction confidence required to auto-correct
+  };
+  ocrEngines: {
+    vision: OcrEngine; // Engine bound to the Vision slot
+    documentAi: OcrEngine; // Engine bound to the Document AI slot
+  };
+  localOcr: {
+    languages: string; // Tesseract language codes, e.g. "eng" or "eng+spa"
+    langPath?: string; // Directory/URL with *.traineddata (offline installs)
+    cachePath?: string; // Where downloaded language data is cached
+    pdfRenderScale: number; // PDF page render scale before OCR
+  };
   ocrMerge: {
     enabled: boolean;
     minAgreement: number;
@@ -3,12 +3,23 @@ import {
   IsString,
   IsNumber,
   IsBoolean,
+  IsEnum,
+  IsOptional,
   Min,
   Max,
+  ValidateIf,
   validateSync,
 } from 'class-validator';
 import { plainToClass } from 'class-transformer';
-import { DocumentProcessingConfig } from './document-processing-config.type';
+import {
+  DocumentProcessingConfig,
+  DuplicateUploadPolicy,
+  MalwareScannerDriver,
+  OcrEngine,
+  StatusEventsDriver,
+  StorageDriver,
+} from './document-processing-config.type';
+import { DocumentType } from '../domain/enums/document-type.enum';
 
 class EnvironmentVariablesValidator {
   @IsString()
@@ -32,11 +43,122 @@ class EnvironmentVariablesValidator {
   @IsString()
   DOC_PROCESSING_PROCESSED_PREFIX: string = 'processed/';
 
+  @IsString()
+  DOC_PROCESSING_UPLOAD_PREFIX: string = 'uploads/';
+
+  // Storage driver configuration
+  @IsEnum(StorageDriver)
+  DOC_PROCESSING_STORAGE_DRIVER: StorageDriver = StorageDriver.GCS;
+
+  @IsString()
+  DOC_PROCESSING_LOCAL_STORAGE_ROOT: string = './storage/documents';
+
+  @ValidateIf(
+    (envValues) =>
+      envValues.DOC_PROCESSING_STORAGE_DRIVER === StorageDriver.LOCAL,
+  )
+  @IsString()
+  DOC_PROCESSING_LOCAL_STORAGE_SIGNING_SECRET?: string;
+
+  @IsString()
+  @IsOptional()
+  DOC_PROCESSING_S3_ENDPOINT?: string;
+
+  @IsString()
+  DOC_PROCESSING_S3_REGION: string = 'us-east-1';
+
+  @ValidateIf(
+    (envValues) => envValues.DOC_PROCESSING_STORAGE_DRIVER === StorageDriver.S3,
+  )
+  @IsString()
+  DOC_PROCESSING_S3_BUCKET?: string;
+
+  @IsString()
+  @IsOptional()
+  DOC_PROCESSING_S3_ACCESS_KEY_ID?: string;
+
+  @IsString()
+  @IsOptional()
+  DOC_PROCESSING_S3_SECRET_ACCESS_KEY?: string;
+
+  @IsBoolean()
+  DOC_PROCESSING_S3_FORCE_PATH_STYLE: boolean = false;
+
   @IsNumber()
   @Min(1)
   @Max(100)
   DOC_PROCESSING_MAX_FILE_SIZE_MB: number = 10;
 
+  // Resumable upload configuration
+  @IsNumber()
+  @Min(1)
+  @Max(2000)
+  DOC_PROCESSING_UPLOAD_MAX_FILE_SIZE_MB: number = 500;
+
+  @IsNumber()
+  @Min(5)
+  @Max(64)
+  DOC_PROCESSING_UPLOAD_CHUNK_SIZE_MB: number = 8;
+
+  @IsNumber()
+  @Min(1)
+  @Max(168)
+  DOC_PROCESSING_UPLOAD_SESSION_TTL_HOURS: number = 24;
+
+  @IsNumber()
+  @Min(60)
+  @Max(86400)
+  DOC_PROCESSING_UPLOAD_INTENT_TTL_SECONDS: number = 900;
+
+  @IsEnum(DuplicateUploadPolicy)
+  DOC_PROCESSING_UPLOAD_DUPLICATE_POLICY: DuplicateUploadPolicy =
+    DuplicateUploadPolicy.LINK;
+
+  // Status events (SSE) configuration
+  @IsEnum(StatusEventsDriver)
+  DOC_PROCESSING_STATUS_EVENTS_DRIVER: StatusEventsDriver =
+    StatusEventsDriver.MEMORY;
+
+  // Webhook configuration
+  @IsString()
+  @IsOptional()
+  DOC_PROCESSING_WEBHOOK_SECRET_ENCRYPTION_KEY?: string;
+
+  @IsNumber()
+  @Min(1)
+  @Max(20)
+  DOC_PROCESSING_WEBHOOK_MAX_ATTEMPTS: number = 8;
+
+  @IsNumber()
+  @Min(1)
+  DOC_PROCESSING_WEBHOOK_RETRY_BASE_SECONDS: number = 30;
+
+  @IsNumber()
+  @Min(1000)
+  @Max(60000)
+  DOC_PROCESSING_WEBHOOK_TIMEOUT_MS: number = 10000;
+
+  // Malware scanning configuration
+  @IsEnum(MalwareScannerDriver)
+  DOC_PROCESSING_MALWARE_SCANNER: MalwareScannerDriver =
+    MalwareScannerDriver.NONE;
+
+  @IsString()
+  @IsOptional()
+  DOC_PROCESSING_CLAMAV_SOCKET?: string;
+
+  @IsString()
+  DOC_PROCESSING_CLAMAV_HOST: string = '127.0.0.1';
+
+  @IsNumber()
+  @Min(1)
+  @Max(65535)
+  DOC_PROCESSING_CLAMAV_PORT: number = 3310;
+
+  @IsNumber()
+  @Min(1000)
+  DOC_PROCESSING_CLAMAV_TIMEOUT_MS: number = 60000;
+
   @IsNumber()
   @Min(6)
   DOC_PROCESSING_RETENTION_YEARS: number = 8;
@@ -46,6 +168,74 @@ class EnvironmentVariablesValidator {
   @Max(50)
   DOC_PROCESSING_SYNC_MAX_PAGES: number = 15;
 
+  @IsNumber()
+  @Min(0)
+  DOC_PROCESSING_REPROCESS_COOLDOWN_SECONDS: number = 300;
+
+  // Processing queue configuration
+  @IsBoolean()
+  DOC_PROCESSING_QUEUE_WORKER_ENABLED: boolean = true;
+
+  @IsNumber()
+  @Min(1)
+  @Max(50)
+  DOC_PROCESSING_QUEUE_CONCURRENCY: number = 2;
+
+  @IsNumber()
+  @Min(100)
+  DOC_PROCESSING_QUEUE_POLL_INTERVAL_MS: number = 2000;
+
+  @IsNumber()
+  @Min(30)
+  DOC_PROCESSING_QUEUE_LEASE_SECONDS: number = 900;
+
+  @IsNumber()
+  @Min(1)
+  @Max(20)
+  DOC_PROCESSING_QUEUE_MAX_ATTEMPTS: number = 5;
+
+  // Extraction pipeline configuration
+  // Per-type overrides are read from DOC_PROCESSING_PIPELINE_ROUTE_<TYPE>
+  @IsString()
+  @IsOptional()
+  DOC_PROCESSING_PIPELINE_DEFAULT_ROUTE?: string;
+
+  // Document type classification
+  @IsBoolean()
+  DOC_PROCESSING_CLASSIFIER_ENABLED: boolean = true;
+
+  @IsBoolean()
+  DOC_PROCESSING_CLASSIFIER_AUTO_CORRECT: boolean = false;
+
+  @IsNumber()
+  @Min(0)
+  @Max(1)
+  DOC_PROCESSING_CLASSIFIER_AUTO_CORRECT_MIN_CONFIDENCE: number = 0.85;
+
+  // OCR engine slots
+  @IsEnum(OcrEngine)
+  DOC_PROCESSING_OCR_VISION_ENGINE: OcrEngine = OcrEngine.GCP_VISION;
+
+  @IsEnum(OcrEngine)
+  DOC_PROCESSING_OCR_DOCUMENT_AI_ENGINE: OcrEngine = OcrEngine.GCP_DOCUMENT_AI;
+
+  // Local (offline) OCR configuration
+  @IsString()
+  DOC_PROCESSING_LOCAL_OCR_LANGUAGES: string = 'eng';
+
+  @IsString()
+  @IsOptional()
+  DOC_PROCESSING_LOCAL_OCR_LANG_PATH?: string;
+
+  @IsString()
+  @IsOptional()
+  DOC_PROCESSING_LOCAL_OCR_CACHE_PATH?: string;
+
+  @IsNumber()
+  @Min(1)
+  @Max(4)
+  DOC_PROCESSING_LOCAL_OCR_PDF_RENDER_SCALE: number = 2;
+
   // OCR Merge configuration
   @IsBoolean()
   DOC_PROCESSING_OCR_MERGE_ENABLED: boolean = true;
@@ -105,10 +295,78 @@ export default registerAs<DocumentProcessingConfig>(
           process.env.DOC_PROCESSING_RAW_PREFIX || 'raw/',
         DOC_PROCESSING_PROCESSED_PREFIX:
           process.env.DOC_PROCESSING_PROCESSED_PREFIX || 'processed/',
+        DOC_PROCESSING_UPLOAD_PREFIX:
+          process.env.DOC_PROCESSING_UPLOAD_PREFIX || 'uploads/',
+        DOC_PROCESSING_STORAGE_DRIVER:
+          process.env.DOC_PROCESSING_STORAGE_DRIVER || StorageDriver.GCS,
+        DOC_PROCESSING_LOCAL_STORAGE_ROOT:
+          process.env.DOC_PROCESSING_LOCAL_STORAGE_ROOT ||
+          './storage/documents',
+        DOC_PROCESSING_LOCAL_STORAGE_SIGNING_SECRET:
+          process.env.DOC_PROCESSING_LOCAL_STORAGE_SIGNING_SECRET,
+        DOC_PROCESSING_S3_ENDPOINT: process.env.DOC_PROCESSING_S3_ENDPOINT,
+        DOC_PROCESSING_S3_REGION:
+          process.env.DOC_PROCESSING_S3_REGION || 'us-east-1',
+        DOC_PROCESSING_S3_BUCKET: process.env.DOC_PROCESSING_S3_BUCKET,
+        DOC_PROCESSING_S3_ACCESS_KEY_ID:
+          process.env.DOC_PROCESSING_S3_ACCESS_KEY_ID,
+        DOC_PROCESSING_S3_SECRET_ACCESS_KEY:
+          process.env.DOC_PROCESSING_S3_SECRET_ACCESS_KEY,
+        DOC_PROCESSING_S3_FORCE_PATH_STYLE:
+          process.env.DOC_PROCESSING_S3_FORCE_PATH_STYLE === 'true',
         DOC_PROCESSING_MAX_FILE_SIZE_MB: process.env
           .DOC_PROCESSING_MAX_FILE_SIZE_MB
           ? parseInt(process.env.DOC_PROCESSING_MAX_FILE_SIZE_MB, 10)
           : 10,
+        DOC_PROCESSING_UPLOAD_MAX_FILE_SIZE_MB: process.env
+          .DOC_PROCESSING_UPLOAD_MAX_FILE_SIZE_MB
+          ? parseInt(process.env.DOC_PROCESSING_UPLOAD_MAX_FILE_SIZE_MB, 10)
+          : 500,
+        DOC_PROCESSING_UPLOAD_CHUNK_SIZE_MB: process.env
+          .DOC_PROCESSING_UPLOAD_CHUNK_SIZE_MB
+          ? parseInt(process.env.DOC_PROCESSING_UPLOAD_CHUNK_SIZE_MB, 10)
+          : 8,
+        DOC_PROCESSING_UPLOAD_SESSION_TTL_HOURS: process.env
+          .DOC_PROCESSING_UPLOAD_SESSION_TTL_HOURS
+          ? parseInt(process.env.DOC_PROCESSING_UPLOAD_SESSION_TTL_HOURS, 10)
+          : 24,
+        DOC_PROCESSING_UPLOAD_INTENT_TTL_SECONDS: process.env
+          .DOC_PROCESSING_UPLOAD_INTENT_TTL_SECONDS
+          ? parseInt(process.env.DOC_PROCESSING_UPLOAD_INTENT_TTL_SECONDS, 10)
+          : 900,
+        DOC_PROCESSING_UPLOAD_DUPLICATE_POLICY:
+          process.env.DOC_PROCESSING_UPLOAD_DUPLICATE_POLICY ||
+          DuplicateUploadPolicy.LINK,
+        DOC_PROCESSING_STATUS_EVENTS_DRIVER:
+          process.env.DOC_PROCESSING_STATUS_EVENTS_DRIVER ||
+          StatusEventsDriver.MEMORY,
+        DOC_PROCESSING_WEBHOOK_SECRET_ENCRYPTION_KEY:
+          process.env.DOC_PROCESSING_WEBHOOK_SECRET_ENCRYPTION_KEY,
+        DOC_PROCESSING_WEBHOOK_MAX_ATTEMPTS: process.env
+          .DOC_PROCESSING_WEBHOOK_MAX_ATTEMPTS
+          ? parseInt(process.env.DOC_PROCESSING_WEBHOOK_MAX_ATTEMPTS, 10)
+          : 8,
+        DOC_PROCESSING_WEBHOOK_RETRY_BASE_SECONDS: process.env
+          .DOC_PROCESSING_WEBHOOK_RETRY_BASE_SECONDS
+          ? parseInt(process.env.DOC_PROCESSING_WEBHOOK_RETRY_BASE_SECONDS, 10)
+          : 30,
+        DOC_PROCESSING_WEBHOOK_TIMEOUT_MS: process.env
+          .DOC_PROCESSING_WEBHOOK_TIMEOUT_MS
+          ? parseInt(process.env.DOC_PROCESSING_WEBHOOK_TIMEOUT_MS, 10)
+          : 10000,
+        DOC_PROCESSING_MALWARE_SCANNER:
+          process.env.DOC_PROCESSING_MALWARE_SCANNER ||
+          MalwareScannerDriver.NONE,
+        DOC_PROCESSING_CLAMAV_SOCKET: process.env.DOC_PROCESSING_CLAMAV_SOCKET,
+        DOC_PROCESSING_CLAMAV_HOST:
+          process.env.DOC_PROCESSING_CLAMAV_HOST || '127.0.0.1',
+        DOC_PROCESSING_CLAMAV_PORT: process.env.DOC_PROCESSING_CLAMAV_PORT
+          ? parseInt(process.env.DOC_PROCESSING_CLAMAV_PORT, 10)
+          : 3310,
+        DOC_PROCESSING_CLAMAV_TIMEOUT_MS: process.env
+          .DOC_PROCESSING_CLAMAV_TIMEOUT_MS
+          ? parseInt(process.env.DOC_PROCESSING_CLAMAV_TIMEOUT_MS, 10)
+          : 60000,
         DOC_PROCESSING_RETENTION_YEARS: process.env
           .DOC_PROCESSING_RETENTION_YEARS
           ? parseInt(process.env.DOC_PROCESSING_RETENTION_YEARS, 10)
@@ -116,6 +374,55 @@ export default registerAs<DocumentProcessingConfig>(
         DOC_PROCESSING_SYNC_MAX_PAGES: process.env.DOC_PROCESSING_SYNC_MAX_PAGES
           ? parseInt(process.env.DOC_PROCESSING_SYNC_MAX_PAGES, 10)
           : 15,
+        DOC_PROCESSING_REPROCESS_COOLDOWN_SECONDS: process.env
+          .DOC_PROCESSING_REPROCESS_COOLDOWN_SECONDS
+          ? parseInt(process.env.DOC_PROCESSING_REPROCESS_COOLDOWN_SECONDS, 10)
+          : 300,
+        DOC_PROCESSING_QUEUE_WORKER_ENABLED:
+          process.env.DOC_PROCESSING_QUEUE_WORKER_ENABLED !== 'false',
+        DOC_PROCESSING_QUEUE_CONCURRENCY: process.env
+          .DOC_PROCESSING_QUEUE_CONCURRENCY
+          ? parseInt(process.env.DOC_PROCESSING_QUEUE_CONCURRENCY, 10)
+          : 2,
+        DOC_PROCESSING_QUEUE_POLL_INTERVAL_MS: process.env
+          .DOC_PROCESSING_QUEUE_POLL_INTERVAL_MS
+          ? parseInt(process.env.DOC_PROCESSING_QUEUE_POLL_INTERVAL_MS, 10)
+          : 2000,
+        DOC_PROCESSING_QUEUE_LEASE_SECONDS: process.env
+          .DOC_PROCESSING_QUEUE_LEASE_SECONDS
+          ? parseInt(process.env.DOC_PROCESSING_QUEUE_LEASE_SECONDS, 10)
+          : 900,
+        DOC_PROCESSING_QUEUE_MAX_ATTEMPTS: process.env
+          .DOC_PROCESSING_QUEUE_MAX_ATTEMPTS
+          ? parseInt(process.env.DOC_PROCESSING_QUEUE_MAX_ATTEMPTS, 10)
+          : 5,
+        DOC_PROCESSING_PIPELINE_DEFAULT_ROUTE:
+          process.env.DOC_PROCESSING_PIPELINE_DEFAULT_ROUTE,
+        DOC_PROCESSING_CLASSIFIER_ENABLED:
+          process.env.DOC_PROCESSING_CLASSIFIER_ENABLED !== 'false',
+        DOC_PROCESSING_CLASSIFIER_AUTO_CORRECT:
+          process.env.DOC_PROCESSING_CLASSIFIER_AUTO_CORRECT === 'true',
+        DOC_PROCESSING_CLASSIFIER_AUTO_CORRECT_MIN_CONFIDENCE: process.env
+          .DOC_PROCESSING_CLASSIFIER_AUTO_CORRECT_MIN_CONFIDENCE
+          ? parseFloat(
+              process.env.DOC_PROCESSING_CLASSIFIER_AUTO_CORRECT_MIN_CONFIDENCE,
+            )
+          : 0.85,
+        DOC_PROCESSING_OCR_VISION_ENGINE:
+          process.env.DOC_PROCESSING_OCR_VISION_ENGINE || OcrEngine.GCP_VISION,
+        DOC_PROCESSING_OCR_DOCUMENT_AI_ENGINE:
+          process.env.DOC_PROCESSING_OCR_DOCUMENT_AI_ENGINE ||
+          OcrEngine.GCP_DOCUMENT_AI,
+        DOC_PROCESSING_LOCAL_OCR_LANGUAGES:
+          process.env.DOC_PROCESSING_LOCAL_OCR_LANGUAGES || 'eng',
+        DOC_PROCESSING_LOCAL_OCR_LANG_PATH:
+          process.env.DOC_PROCESSING_LOCAL_OCR_LANG_PATH,
+        DOC_PROCESSING_LOCAL_OCR_CACHE_PATH:
+          process.env.DOC_PROCESSING_LOCAL_OCR_CACHE_PATH,
+        DOC_PROCESSING_LOCAL_OCR_PDF_RENDER_SCALE: process.env
+          .DOC_PROCESSING_LOCAL_OCR_PDF_RENDER_SCALE
+          ? parseFloat(process.env.DOC_PROCESSING_LOCAL_OCR_PDF_RENDER_SCALE)
+          : 2,
         DOC_PROCESSING_OCR_MERGE_ENABLED:
           process.env.DOC_PROCESSING_OCR_MERGE_ENABLED !== 'false',
         DOC_PROCESSING_OCR_MERGE_MIN_AGREEMENT: process.env
@@ -160,10 +467,99 @@ export default registerAs<DocumentProcessingConfig>(
       );
     }
 
+    const pipelineRoutes: Partial<Record<DocumentType, string>> = {};
+    for (const documentType of Object.values(DocumentType)) {
+      const route =
+        process.env[`DOC_PROCESSING_PIPELINE_ROUTE_${documentType}`];
+      if (route) {
+        pipelineRoutes[documentType] = route;
+      }
+    }
+
     return {
       maxFileSizeMb: validatedConfig.DOC_PROCESSING_MAX_FILE_SIZE_MB,
       retentionYears: validatedConfig.DOC_PROCESSING_RETENTION_YEARS,
       syncMaxPages: validatedConfig.DOC_PROCESSING_SYNC_MAX_PAGES,
+      reprocessCooldownSeconds:
+        validatedConfig.DOC_PROCESSING_REPROCESS_COOLDOWN_SECONDS,
+      uploads: {
+        maxFileSizeMb: validatedConfig.DOC_PROCESSING_UPLOAD_MAX_FILE_SIZE_MB,
+        chunkSizeMb: validatedConfig.DOC_PROCESSING_UPLOAD_CHUNK_SIZE_MB,
+        sessionTtlHours:
+          validatedConfig.DOC_PROCESSING_UPLOAD_SESSION_TTL_HOURS,
+        intentTtlSeconds:
+          validatedConfig.DOC_PROCESSING_UPLOAD_INTENT_TTL_SECONDS,
+        duplicatePolicy: validatedConfig.DOC_PROCESSING_UPLOAD_DUPLICATE_POLICY,
+      },
+      queue: {
+        workerEnabled:
+          validatedConfig.DOC_PROCESSING_QUEUE_WORKER_ENABLED !== false,
+        concurrency: validatedConfig.DOC_PROCESSING_QUEUE_CONCURRENCY,
+        pollIntervalMs: validatedConfig.DOC_PROCESSING_QUEUE_POLL_INTERVAL_MS,
+        leaseSeconds: validatedConfig.DOC_PROCESSING_QUEUE_LEASE_SECONDS,
+        maxAttempts: validatedConfig.DOC_PROCESSING_QUEUE_MAX_ATTEMPTS,
+      },
+      statusEvents: {
+        driver: validatedConfig.DOC_PROCESSING_STATUS_EVENTS_DRIVER,
+      },
+      webhooks: {
+        secretEncryptionKey:
+          validatedConfig.DOC_PROCESSING_WEBHOOK_SECRET_ENCRYPTION_KEY,
+        maxAttempts: validatedConfig.DOC_PROCESSING_WEBHOOK_MAX_ATTEMPTS,
+        retryBaseSeconds:
+          validatedConfig.DOC_PROCESSING_WEBHOOK_RETRY_BASE_SECONDS,
+        timeoutMs: validatedConfig.DOC_PROCESSING_WEBHOOK_TIMEOUT_MS,
+      },
+      malwareScan: {
+        scanner: validatedConfig.DOC_PROCESSING_MALWARE_SCANNER,
+        clamav: {
+          socketPath: validatedConfig.DOC_PROCESSING_CLAMAV_SOCKET,
+          host: validatedConfig.DOC_PROCESSING_CLAMAV_HOST,
+          port: validatedConfig.DOC_PROCESSING_CLAMAV_PORT,
+          timeoutMs: validatedConfig.DOC_PROCESSING_CLAMAV_TIMEOUT_MS,
+        },
+      },
+      storage: {
+        driver: validatedConfig.DOC_PROCESSING_STORAGE_DRIVER,
+        rawPrefix: validatedConfig.DOC_PROCESSING_RAW_PREFIX,
+        processedPrefix: validatedConfig.DOC_PROCESSING_PROCESSED_PREFIX,
+        uploadPrefix: validatedConfig.DOC_PROCESSING_UPLOAD_PREFIX,
+        local: {
+          rootDir: validatedConfig.DOC_PROCESSING_LOCAL_STORAGE_ROOT,
+          signingSecret:
+            validatedConfig.DOC_PROCESSING_LOCAL_STORAGE_SIGNING_SECRET,
+        },
+        s3: {
+          endpoint: validatedConfig.DOC_PROCESSING_S3_ENDPOINT,
+          region: validatedConfig.DOC_PROCESSING_S3_REGION,
+          bucket: validatedConfig.DOC_PROCESSING_S3_BUCKET,
+          accessKeyId: validatedConfig.DOC_PROCESSING_S3_ACCESS_KEY_ID,
+          secretAccessKey: validatedConfig.DOC_PROCESSING_S3_SECRET_ACCESS_KEY,
+          forcePathStyle:
+            validatedConfig.DOC_PROCESSING_S3_FORCE_PATH_STYLE || false,
+        },
+      },
+      pipeline: {
+        defaultRoute: validatedConfig.DOC_PROCESSING_PIPELINE_DEFAULT_ROUTE,
+        routes: pipelineRoutes,
+      },
+      classification: {
+        enabled: validatedConfig.DOC_PROCESSING_CLASSIFIER_ENABLED !== false,
+        autoCorrect: validatedConfig.DOC_PROCESSING_CLASSIFIER_AUTO_CORRECT,
+        autoCorrectMinConfidence:
+          validatedConfig.DOC_PROCESSING_CLASSIFIER_AUTO_CORRECT_MIN_CONFIDENCE,
+      },
+      ocrEngines: {
+        vision: validatedConfig.DOC_PROCESSING_OCR_VISION_ENGINE,
+        documentAi: validatedConfig.DOC_PROCESSING_OCR_DOCUMENT_AI_ENGINE,
+      },
+      localOcr: {
+        languages: validatedConfig.DOC_PROCESSING_LOCAL_OCR_LANGUAGES,
+        langPath: validatedConfig.DOC_PROCESSING_LOCAL_OCR_LANG_PATH,
+        cachePath: validatedConfig.DOC_PROCESSING_LOCAL_OCR_CACHE_PATH,
+        pdfRenderScale:
+          validatedConfig.DOC_PROCESSING_LOCAL_OCR_PDF_RENDER_SCALE,
+      },
       ocrMerge: {
         enabled:
           validatedConfig.DOC_PROCESSING_OCR_MERGE_ENABLED !== false,
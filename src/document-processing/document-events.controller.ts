@@ -0,0 +1,129 @@
+import {
+  Controller,
+  MessageEvent,
+  ParseUUIDPipe,
+  Query,
+  Request,
+  Sse,
+  UseGuards,
+} from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
+import {
+  ApiBearerAuth,
+  ApiOkResponse,
+  ApiOperation,
+  ApiProduces,
+  ApiQuery,
+  ApiTags,
+  ApiUnauthorizedResponse,
+} from '@nestjs/swagger';
+import { Observable } from 'rxjs';
+import { DocumentProcessingService } from './document-processing.service';
+import { DocumentStatusEvent } from './domain/ports/document-status-events.port';
+
+// Keeps proxies and load balancers from closing idle streams
+const HEARTBEAT_INTERVAL_MS = 25000;
+
+/**
+ * Document Status Events (Server-Sent Events)
+ *
+ * GET /documents/events streams status transitions and processing progress
+ * of the user's documents, so clients no longer poll
+ * GET /documents/:documentId/status. Events:
+ * - `status`: a DocumentStatusEvent (without the owner's user ID)
+ * - `heartbeat`: sent every 25 seconds while the stream is idle
+ * - `error`: the stream could not be opened (e.g. document not found);
+ *   the stream ends
+ *
+ * The stream ends when the access token expires; clients reconnect with a
+ * fresh token and read the current status once to catch up.
+ *
+ * HIPAA Compliance:
+ * - JWT protected; only documents the user can access are streamed
+ * - Events carry IDs, statuses and counts only
+ */
+@ApiTags('Documents')
+@Controller({ path: 'documents', version: '1' })
+@UseGuards(AuthGuard('jwt')) // Existing JWT + session validation
+@ApiBearerAuth()
+export class DocumentEventsController {
+  constructor(
+    private readonly documentProcessingService: DocumentProcessingService,
+  ) {}
+
+  @Sse('events')
+  @ApiOperation({
+    summary: 'Stream Document Status Events',
+    description:
+      "Server-Sent Events stream of status changes and processing progress (stage finished, pages processed) for the user's documents, or for a single document. Ends when the access token expires.",
+  })
+  @ApiQuery({
+    name: 'documentId',
+    required: false,
+    type: String,
+    format: 'uuid',
+    description: 'Only stream events of this document (owned or shared)',
+  })
+  @ApiProduces('text/event-stream')
+  @ApiOkResponse({ description: 'Event stream opened' })
+  @ApiUnauthorizedResponse({
+    description: 'Invalid or expired access token',
+  })
+  streamStatusEvents(
+    @Request() req,
+    @Query('documentId', new ParseUUIDPipe({ optional: true }))
+    documentId?: string,
+  ): Observable<MessageEvent> {
+    const userId = req.user.id;
+    const expiresAt: number | undefined = req.user.exp;
+
+    return new Observable<MessageEvent>((subscriber) => {
+      let unsubscribe: (() => void) | undefined;
+      let closed = false;
+
+      this.documentProcessingService
+        .subscribeToStatusEvents(
+          userId,
+          (event) =>
+            subscriber.next({ type: 'status', data: this.toEventData(event) }),
+          documentId,
+        )
+        .then((stop) => {
+          if (closed) {
+            stop();
+          } else {
+            unsubscribe = stop;
+          }
+        })
+        .catch((error) => subscriber.error(error));
+
+      const heartbeat = setInterval(
+        () => subscriber.next({ type: 'heartbeat', data: {} }),
+        HEARTBEAT_INTERVAL_MS,
+      );
+      const expiry = expiresAt
+        ? setTimeout(
+            () => subscriber.complete(),
+            Math.max(expiresAt * 1000 - Date.now(), 0),
+          )
+        : undefined;
+
+      return () => {
+        closed = true;
+        clearInterval(heartbeat);
+        if (expiry) {
+          clearTimeout(expiry);
+        }
+        unsubscribe?.();
+      };
+    });
+  }
+
+  private toEventData(
+    event: DocumentStatusEvent,
+  ): Omit<DocumentStatusEvent, 'userId'> {
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    const { userId, ...data } = event;
+    return data;
+  }
+}
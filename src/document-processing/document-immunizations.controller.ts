@@ -0,0 +1,60 @@
+import {
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Request,
+  UseGuards,
+} from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
+import {
+  ApiBearerAuth,
+  ApiOkResponse,
+  ApiOperation,
+  ApiTags,
+  ApiUnauthorizedResponse,
+} from '@nestjs/swagger';
+import { DocumentProcessingService } from './document-processing.service';
+import { ImmunizationHistoryEntryResponseDto } from './dto/immunization-history-entry-response.dto';
+
+/**
+ * Document Immunizations Controller
+ *
+ * GET /documents/immunizations: the user's immunization history, consolidated
+ * from the doses read from all their immunization records.
+ *
+ * HIPAA Compliance:
+ * - JWT protected; only the caller's own documents are read
+ * - Access to each source document is audited (DOCUMENT_ACCESSED)
+ */
+@ApiTags('Documents')
+@Controller({ path: 'documents', version: '1' })
+@UseGuards(AuthGuard('jwt')) // Existing JWT + session validation
+@ApiBearerAuth()
+export class DocumentImmunizationsController {
+  constructor(
+    private readonly documentProcessingService: DocumentProcessingService,
+  ) {}
+
+  @Get('immunizations')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Get Immunization History',
+    description:
+      "The authenticated user's immunization history: one entry per administered dose read from their processed " +
+      'immunization records (documentType IMMUNIZATION_RECORD), with CVX code, date, dose number, lot, manufacturer ' +
+      'and administering clinic. A dose recorded by several documents is listed once. Oldest dose first.',
+  })
+  @ApiOkResponse({
+    type: [ImmunizationHistoryEntryResponseDto],
+    description: 'Administered doses',
+  })
+  @ApiUnauthorizedResponse({
+    description: 'Invalid or expired access token',
+  })
+  async getImmunizationHistory(
+    @Request() req,
+  ): Promise<ImmunizationHistoryEntryResponseDto[]> {
+    return this.documentProcessingService.getImmunizationHistory(req.user.id);
+  }
+}
@@ -0,0 +1,113 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseUUIDPipe,
+  Post,
+  Request,
+  UseGuards,
+} from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
+import {
+  ApiAcceptedResponse,
+  ApiBearerAuth,
+  ApiForbiddenResponse,
+  ApiNotFoundResponse,
+  ApiOkResponse,
+  ApiOperation,
+  ApiParam,
+  ApiTags,
+  ApiUnauthorizedResponse,
+} from '@nestjs/swagger';
+import { Roles } from '../roles/roles.decorator';
+import { RoleEnum } from '../roles/roles.enum';
+import { RolesGuard } from '../roles/roles.guard';
+import { DocumentProcessingService } from './document-processing.service';
+import { BulkReprocessDocumentsDto } from './dto/bulk-reprocess-documents.dto';
+import { BulkReprocessResponseDto } from './dto/bulk-reprocess-response.dto';
+import { DocumentProcessingRunResponseDto } from './dto/document-processing-run-response.dto';
+
+/**
+ * Document Processing Admin Controller (operations)
+ *
+ * HIPAA Compliance:
+ * - Admin only: acts on documents of every user
+ * - Responses contain IDs and processing metadata only, never PHI
+ * - Every queued document is audited against the admin and its owner
+ */
+@ApiBearerAuth()
+@Roles(RoleEnum.admin)
+@UseGuards(AuthGuard('jwt'), RolesGuard)
+@ApiTags('Documents Admin')
+@Controller({
+  path: 'admin/documents',
+  version: '1',
+})
+export class DocumentProcessingAdminController {
+  constructor(
+    private readonly documentProcessingService: DocumentProcessingService,
+  ) {}
+
+  @Post('reprocess')
+  @HttpCode(HttpStatus.ACCEPTED)
+  @ApiOperation({
+    summary: 'Bulk Reprocess Documents (Admin Only)',
+    description:
+      'Queue processed and/or failed documents for reprocessing with the current extraction pipeline, ' +
+      'e.g. every document processed by an older pipeline version (outdatedOnly). ' +
+      'Documents still being processed are skipped. Maximum 500 documents per request, oldest first.',
+  })
+  @ApiAcceptedResponse({
+    type: BulkReprocessResponseDto,
+    description: 'Documents queued',
+  })
+  @ApiUnauthorizedResponse({
+    description: 'Invalid or expired access token',
+  })
+  @ApiForbiddenResponse({
+    description: 'Insufficient permissions. Admin role required.',
+  })
+  async bulkReprocess(
+    @Request() req,
+    @Body() dto: BulkReprocessDocumentsDto,
+  ): Promise<BulkReprocessResponseDto> {
+    return this.documentProcessingService.bulkReprocess(req.user.id, dto);
+  }
+
+  @Get(':documentId/runs')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Get Processing Run History (Admin Only)',
+    description:
+      'Processing runs of any document, newest first: every stage of every attempt with its duration, outcome, ' +
+      'pages billed and sanitized error. Extracted text and fields are never included.',
+  })
+  @ApiParam({
+    name: 'documentId',
+    type: String,
+    format: 'uuid',
+    description: 'Document UUID',
+  })
+  @ApiOkResponse({
+    type: DocumentProcessingRunResponseDto,
+    isArray: true,
+    description: 'Processing runs',
+  })
+  @ApiUnauthorizedResponse({
+    description: 'Invalid or expired access token',
+  })
+  @ApiForbiddenResponse({
+    description: 'Insufficient permissions. Admin role required.',
+  })
+  @ApiNotFoundResponse({
+    description: 'Document not found',
+  })
+  async listRuns(
+    @Param('documentId', ParseUUIDPipe) documentId: string,
+  ): Promise<DocumentProcessingRunResponseDto[]> {
+    return this.documentProcessingService.listRunsForAdmin(documentId);
+  }
+}
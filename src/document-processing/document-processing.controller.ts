@@ -10,13 +10,17 @@ import {
   UseGuards,
   UseInterceptors,
   UploadedFile,
+  UploadedFiles,
   BadRequestException,
   ParseUUIDPipe,
   HttpCode,
   HttpStatus,
 } from '@nestjs/common';
 import { AuthGuard } from '@nestjs/passport';
-import { FileInterceptor } from '@nestjs/platform-express';
+import {
+  FileFieldsInterceptor,
+  FileInterceptor,
+} from '@nestjs/platform-express';
 import { Throttle } from '@nestjs/throttler';
 import {
   ApiTags,
@@ -31,15 +35,40 @@ import {
   ApiUnauthorizedResponse,
   ApiNotFoundResponse,
   ApiNoContentResponse,
+  ApiCreatedResponse,
+  ApiBadRequestResponse,
+  ApiConflictResponse,
+  ApiAcceptedResponse,
+  ApiTooManyRequestsResponse,
 } from '@nestjs/swagger';
 import { DocumentProcessingService } from './document-processing.service';
-import { UploadDocumentDto } from './dto/upload-document.dto';
+import {
+  ALLOWED_DOCUMENT_MIME_TYPES,
+  UploadDocumentDto,
+} from './dto/upload-document.dto';
+import { UploadInsuranceCardDto } from './dto/upload-insurance-card.dto';
 import { DocumentResponseDto } from './dto/document-response.dto';
+import { CreateUploadIntentDto } from './dto/create-upload-intent.dto';
+import { UploadIntentResponseDto } from './dto/upload-intent-response.dto';
 import { DocumentStatusResponseDto } from './dto/document-status-response.dto';
 import { DocumentListQueryDto } from './dto/document-list-query.dto';
 import { ExtractedFieldResponseDto } from './dto/extracted-field-response.dto';
 import { ExtractedFieldsWithOcrResponseDto } from './dto/extracted-fields-with-ocr-response.dto';
-import { InfinityPaginationResponseDto } from '../utils/dto/infinity-pagination-response.dto';
+import { LabResultResponseDto } from './dto/lab-result-response.dto';
+import { MedicationResponseDto } from './dto/medication-response.dto';
+import { CreateDocumentGrantDto } from './dto/create-document-grant.dto';
+import { DocumentGrantResponseDto } from './dto/document-grant-response.dto';
+import { ReprocessDocumentDto } from './dto/reprocess-document.dto';
+import {
+  DocumentProcessingRunDetailResponseDto,
+  DocumentProcessingRunResponseDto,
+} from './dto/document-processing-run-response.dto';
+import {
+  InfinityPaginationResponse,
+  InfinityPaginationResponseDto,
+} from '../utils/dto/infinity-pagination-response.dto';
+import { AccessLogEntryDto } from '../audit/dto/access-log-entry.dto';
+import { AccessLogQueryDto } from '../audit/dto/access-log-query.dto';
 
 /**
  * Document Processing Controller
@@ -53,7 +82,7 @@ import { InfinityPaginationResponseDto } from '../utils/dto/infinity-pagination-
  *
  * Security:
  * - File validation (type, size)
- * - Authorization checks (users can only access their own documents)
+ * - Authorization checks (owners, or users holding an active grant)
  * - Sanitized error messages
  * - No internal URIs or paths exposed
  */
@@ -69,7 +98,11 @@ export class DocumentProcessingController {
   @Post('upload')
   @HttpCode(HttpStatus.OK)
   @Throttle({ default: { limit: 10, ttl: 60000 } }) // 10 uploads per minute
-  @ApiOperation({ summary: 'Upload medical document for OCR processing' })
+  @ApiOperation({
+    summary: 'Upload medical document for OCR processing',
+    description:
+      'Single-request upload up to 10 MB. Use POST /documents/uploads for larger files or unreliable connections.',
+  })
   @ApiConsumes('multipart/form-data')
   @ApiBody({
     schema: {
@@ -91,13 +124,15 @@ export class DocumentProcessingController {
             'IMMUNIZATION_RECORD',
             'OTHER',
           ],
+          description:
+            'Optional when automatic classification is enabled (predicted from the extracted text)',
         },
         description: {
           type: 'string',
           maxLength: 500,
         },
       },
-      required: ['file', 'documentType'],
+      required: ['file'],
     },
   })
   @ApiResponse({
@@ -115,19 +150,10 @@ export class DocumentProcessingController {
         files: 1,
       },
       fileFilter: (req, file, callback) => {
-        // Allowed MIME types for medical documents
-        const allowedMimeTypes = [
-          'application/pdf',
-          'image/jpeg',
-          'image/png',
-          'image/tiff',
-          'image/gif',
-        ];
-
-        if (!allowedMimeTypes.includes(file.mimetype)) {
+        if (!ALLOWED_DOCUMENT_MIME_TYPES.includes(file.mimetype)) {
           return callback(
             new BadRequestException(
-              `Invalid file type. Allowed types: ${allowedMimeTypes.join(', ')}`,
+              `Invalid file type. Allowed types: ${ALLOWED_DOCUMENT_MIME_TYPES.join(', ')}`,
             ),
             false,
           );
@@ -160,6 +186,168 @@ export class DocumentProcessingController {
     return this.documentProcessingService.toResponseDto(document);
   }
 
+  @Post('insurance-card')
+  @HttpCode(HttpStatus.OK)
+  @Throttle({ default: { limit: 10, ttl: 60000 } }) // 10 uploads per minute
+  @ApiOperation({
+    summary: 'Upload the front and back of an insurance card',
+    description:
+      'Both images become one INSURANCE_CARD document (the back is read as its second page). Extracted fields use stable keys: payer_name, member_id, group_number, plan_type, rx_bin, rx_pcn, rx_group, copay_primary_care, copay_specialist, copay_urgent_care, copay_emergency_room, customer_service_phone, provider_services_phone, pharmacy_phone.',
+  })
+  @ApiConsumes('multipart/form-data')
+  @ApiBody({
+    schema: {
+      type: 'object',
+      properties: {
+        front: {
+          type: 'string',
+          format: 'binary',
+          description: 'Front of the card (JPEG, PNG, TIFF, GIF or PDF)',
+        },
+        back: {
+          type: 'string',
+          format: 'binary',
+          description: 'Back of the card (optional)',
+        },
+        description: {
+          type: 'string',
+          maxLength: 500,
+        },
+      },
+      required: ['front'],
+    },
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Insurance card uploaded successfully',
+    type: DocumentResponseDto,
+  })
+  @ApiResponse({ status: 400, description: 'Invalid file or parameters' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 429, description: 'Too many requests' })
+  @UseInterceptors(
+    FileFieldsInterceptor(
+      [
+        { name: 'front', maxCount: 1 },
+        { name: 'back', maxCount: 1 },
+      ],
+      {
+        limits: {
+          fileSize: 10 * 1024 * 1024, // 10 MB per side
+          files: 2,
+        },
+        fileFilter: (req, file, callback) => {
+          if (!ALLOWED_DOCUMENT_MIME_TYPES.includes(file.mimetype)) {
+            return callback(
+              new BadRequestException(
+                `Invalid file type. Allowed types: ${ALLOWED_DOCUMENT_MIME_TYPES.join(', ')}`,
+              ),
+              false,
+            );
+          }
+
+          callback(null, true);
+        },
+      },
+    ),
+  )
+  async uploadInsuranceCard(
+    @Request() req,
+    @UploadedFiles()
+    files: { front?: Express.Multer.File[]; back?: Express.Multer.File[] },
+    @Body() dto: UploadInsuranceCardDto,
+  ): Promise<DocumentResponseDto> {
+    const [front] = files?.front ?? [];
+    const [back] = files?.back ?? [];
+    if (!front) {
+      throw new BadRequestException('Front image is required');
+    }
+
+    const toCardSide = (file: Express.Multer.File) => ({
+      buffer: file.buffer,
+      fileName: file.originalname,
+      mimeType: file.mimetype,
+    });
+
+    const document = await this.documentProcessingService.uploadInsuranceCard(
+      req.user.id,
+      toCardSide(front),
+      back ? toCardSide(back) : undefined,
+      dto.description,
+    );
+
+    return this.documentProcessingService.toResponseDto(document);
+  }
+
+  @Post('upload-intent')
+  @Throttle({ default: { limit: 10, ttl: 60000 } }) // Same as uploads
+  @ApiOperation({
+    summary: 'Start Direct Upload',
+    description:
+      'Create a document and get a short-lived signed URL to upload the file straight to storage. ' +
+      'Then call POST /documents/:documentId/upload-complete.',
+  })
+  @ApiCreatedResponse({
+    description: 'Document created in UPLOADED state',
+    type: UploadIntentResponseDto,
+  })
+  @ApiBadRequestResponse({
+    description: 'Invalid parameters or file too large',
+  })
+  @ApiUnauthorizedResponse({
+    description: 'Invalid or expired access token',
+  })
+  async createUploadIntent(
+    @Request() req,
+    @Body() dto: CreateUploadIntentDto,
+  ): Promise<UploadIntentResponseDto> {
+    const userId = req.user.id;
+    return this.documentProcessingService.createUploadIntent(userId, dto);
+  }
+
+  @Post(':documentId/upload-complete')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Complete Direct Upload',
+    description:
+      'Verify the uploaded file (size, content type, SHA-256) and enqueue it for processing. ' +
+      'A file that fails verification is deleted and the document marked FAILED. Safe to retry.',
+  })
+  @ApiParam({
+    name: 'documentId',
+    type: String,
+    format: 'uuid',
+    description: 'Document UUID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiOkResponse({
+    description: 'Upload verified; document queued for processing',
+    type: DocumentResponseDto,
+  })
+  @ApiBadRequestResponse({
+    description: 'Uploaded file does not match the declared file',
+  })
+  @ApiConflictResponse({
+    description: 'File has not been uploaded yet',
+  })
+  @ApiUnauthorizedResponse({
+    description: 'Invalid or expired access token',
+  })
+  @ApiNotFoundResponse({
+    description: 'Document not found or access denied',
+  })
+  async completeUploadIntent(
+    @Request() req,
+    @Param('documentId', ParseUUIDPipe) documentId: string,
+  ): Promise<DocumentResponseDto> {
+    const userId = req.user.id;
+    const document = await this.documentProcessingService.completeUploadIntent(
+      documentId,
+      userId,
+    );
+    return this.documentProcessingService.toResponseDto(document);
+  }
+
   @Get(':documentId/status')
   @ApiOperation({
     summary: 'Get Document Processing Status',
@@ -260,6 +448,72 @@ export class DocumentProcessingController {
     );
   }
 
+  @Get(':documentId/lab-results')
+  @ApiOperation({
+    summary: 'Get Lab Results',
+    description:
+      'Get the result table of a lab report (documentType LAB_RESULT), one row per analyte with value, unit, reference range, abnormal flag, specimen and collection date. Empty for other document types and documents not processed yet.',
+  })
+  @ApiParam({
+    name: 'documentId',
+    type: String,
+    format: 'uuid',
+    description: 'Document UUID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiOkResponse({
+    description: 'Lab result rows in report order',
+    type: [LabResultResponseDto],
+  })
+  @ApiUnauthorizedResponse({
+    description: 'Invalid or expired access token',
+  })
+  @ApiNotFoundResponse({
+    description: 'Document not found or access denied',
+  })
+  async getLabResults(
+    @Request() req,
+    @Param('documentId', ParseUUIDPipe) documentId: string,
+  ): Promise<LabResultResponseDto[]> {
+    return this.documentProcessingService.getLabResults(
+      documentId,
+      req.user.id,
+    );
+  }
+
+  @Get(':documentId/medications')
+  @ApiOperation({
+    summary: 'Get Medications',
+    description:
+      'Get the medications of a prescription (documentType PRESCRIPTION) with drug name canonicalized through the drug dictionary, strength, dosage form, and the sig normalized into dose, route, frequency and as-needed fields, plus dispense quantity and refills. Prescriber name, DEA and NPI numbers are returned with the extracted fields. Empty for other document types and documents not processed yet.',
+  })
+  @ApiParam({
+    name: 'documentId',
+    type: String,
+    format: 'uuid',
+    description: 'Document UUID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiOkResponse({
+    description: 'Medications in document order',
+    type: [MedicationResponseDto],
+  })
+  @ApiUnauthorizedResponse({
+    description: 'Invalid or expired access token',
+  })
+  @ApiNotFoundResponse({
+    description: 'Document not found or access denied',
+  })
+  async getMedications(
+    @Request() req,
+    @Param('documentId', ParseUUIDPipe) documentId: string,
+  ): Promise<MedicationResponseDto[]> {
+    return this.documentProcessingService.getMedications(
+      documentId,
+      req.user.id,
+    );
+  }
+
   @Get(':documentId/download')
   @ApiOperation({
     summary: 'Get Document Download URL',
@@ -478,4 +732,306 @@ export class DocumentProcessingController {
     const userId = req.user.id;
     return this.documentProcessingService.getDocumentAiOutput(documentId, userId);
   }
+
+  @Get(':documentId/access-log')
+  @ApiOperation({
+    summary: 'Get Document Access History',
+    description:
+      'Who accessed this document, newest first: views, downloads, deletions, sharing changes and denied access attempts, ' +
+      'with a coarse location derived from the client IP. Owner only.',
+  })
+  @ApiParam({
+    name: 'documentId',
+    type: String,
+    format: 'uuid',
+    description: 'Document UUID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiOkResponse({
+    description: 'Paginated access history',
+    type: InfinityPaginationResponse(AccessLogEntryDto),
+  })
+  @ApiUnauthorizedResponse({
+    description: 'Invalid or expired access token',
+  })
+  @ApiNotFoundResponse({
+    description: 'Document not found or access denied',
+  })
+  async getAccessLog(
+    @Request() req,
+    @Param('documentId', ParseUUIDPipe) documentId: string,
+    @Query() query: AccessLogQueryDto,
+  ): Promise<InfinityPaginationResponseDto<AccessLogEntryDto>> {
+    const userId = req.user.id;
+    return this.documentProcessingService.getAccessLog(
+      documentId,
+      userId,
+      query,
+    );
+  }
+
+  @Post(':documentId/grants')
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({
+    summary: 'Share Document',
+    description:
+      'Grant another user (by user ID or email invite) scoped access to a document: view, download and/or fields. Grants can expire. Owner only.',
+  })
+  @ApiParam({
+    name: 'documentId',
+    type: String,
+    format: 'uuid',
+    description: 'Document UUID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiCreatedResponse({
+    description: 'Grant created',
+    type: DocumentGrantResponseDto,
+  })
+  @ApiUnauthorizedResponse({
+    description: 'Invalid or expired access token',
+  })
+  @ApiNotFoundResponse({
+    description: 'Document or grantee not found, or access denied',
+  })
+  async createGrant(
+    @Request() req,
+    @Param('documentId', ParseUUIDPipe) documentId: string,
+    @Body() dto: CreateDocumentGrantDto,
+  ): Promise<DocumentGrantResponseDto> {
+    const userId = req.user.id;
+    return this.documentProcessingService.createGrant(documentId, userId, dto);
+  }
+
+  @Get(':documentId/grants')
+  @ApiOperation({
+    summary: 'List Document Grants',
+    description:
+      'List all grants on a document, including revoked and expired grants. Owner only.',
+  })
+  @ApiParam({
+    name: 'documentId',
+    type: String,
+    format: 'uuid',
+    description: 'Document UUID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiOkResponse({
+    description: 'Grants retrieved',
+    type: DocumentGrantResponseDto,
+    isArray: true,
+  })
+  @ApiUnauthorizedResponse({
+    description: 'Invalid or expired access token',
+  })
+  @ApiNotFoundResponse({
+    description: 'Document not found or access denied',
+  })
+  async listGrants(
+    @Request() req,
+    @Param('documentId', ParseUUIDPipe) documentId: string,
+  ): Promise<DocumentGrantResponseDto[]> {
+    const userId = req.user.id;
+    return this.documentProcessingService.listGrants(documentId, userId);
+  }
+
+  @Delete(':documentId/grants/:grantId')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({
+    summary: 'Revoke Document Grant',
+    description:
+      'Revoke a grant. Access ends immediately; the grant is kept for auditing. Owner only.',
+  })
+  @ApiParam({
+    name: 'documentId',
+    type: String,
+    format: 'uuid',
+    description: 'Document UUID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiParam({
+    name: 'grantId',
+    type: String,
+    format: 'uuid',
+    description: 'Grant UUID',
+  })
+  @ApiNoContentResponse({
+    description: 'Grant revoked',
+  })
+  @ApiUnauthorizedResponse({
+    description: 'Invalid or expired access token',
+  })
+  @ApiNotFoundResponse({
+    description: 'Document or grant not found, or access denied',
+  })
+  async revokeGrant(
+    @Request() req,
+    @Param('documentId', ParseUUIDPipe) documentId: string,
+    @Param('grantId', ParseUUIDPipe) grantId: string,
+  ): Promise<void> {
+    const userId = req.user.id;
+    await this.documentProcessingService.revokeGrant(
+      documentId,
+      grantId,
+      userId,
+    );
+  }
+
+  @Post(':documentId/reprocess')
+  @HttpCode(HttpStatus.ACCEPTED)
+  @Throttle({ default: { limit: 10, ttl: 60000 } }) // Same as uploads (paid OCR)
+  @ApiOperation({
+    summary: 'Reprocess Document',
+    description:
+      'Queue a new processing run with the current extraction pipeline. A processed document keeps its current results until the run succeeds; ' +
+      'with promote=false the new results are kept on the run for comparison and can be promoted later. A failed document is processed from scratch. Owner only.',
+  })
+  @ApiParam({
+    name: 'documentId',
+    type: String,
+    format: 'uuid',
+    description: 'Document UUID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiAcceptedResponse({
+    description: 'Processing run queued',
+    type: DocumentProcessingRunResponseDto,
+  })
+  @ApiUnauthorizedResponse({
+    description: 'Invalid or expired access token',
+  })
+  @ApiNotFoundResponse({
+    description: 'Document not found or access denied',
+  })
+  @ApiConflictResponse({
+    description: 'Document is still being processed',
+  })
+  @ApiTooManyRequestsResponse({
+    description:
+      'Document was reprocessed less than DOC_PROCESSING_REPROCESS_COOLDOWN_SECONDS ago',
+  })
+  async reprocessDocument(
+    @Request() req,
+    @Param('documentId', ParseUUIDPipe) documentId: string,
+    @Body() dto: ReprocessDocumentDto,
+  ): Promise<DocumentProcessingRunResponseDto> {
+    const userId = req.user.id;
+    return this.documentProcessingService.reprocessDocument(
+      documentId,
+      userId,
+      dto.promote,
+    );
+  }
+
+  @Get(':documentId/runs')
+  @ApiOperation({
+    summary: 'List Processing Runs',
+    description:
+      'List the processing runs of a document, newest first, with their pipeline version and outcome. Owner only.',
+  })
+  @ApiParam({
+    name: 'documentId',
+    type: String,
+    format: 'uuid',
+    description: 'Document UUID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiOkResponse({
+    description: 'Processing runs retrieved',
+    type: DocumentProcessingRunResponseDto,
+    isArray: true,
+  })
+  @ApiUnauthorizedResponse({
+    description: 'Invalid or expired access token',
+  })
+  @ApiNotFoundResponse({
+    description: 'Document not found or access denied',
+  })
+  async listRuns(
+    @Request() req,
+    @Param('documentId', ParseUUIDPipe) documentId: string,
+  ): Promise<DocumentProcessingRunResponseDto[]> {
+    const userId = req.user.id;
+    return this.documentProcessingService.listRuns(documentId, userId);
+  }
+
+  @Get(':documentId/runs/:runId')
+  @ApiOperation({
+    summary: 'Get Processing Run',
+    description:
+      'Get a processing run with its extracted text and fields, to compare results of different pipeline versions. Owner only.',
+  })
+  @ApiParam({
+    name: 'documentId',
+    type: String,
+    format: 'uuid',
+    description: 'Document UUID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiParam({
+    name: 'runId',
+    type: String,
+    format: 'uuid',
+    description: 'Processing run UUID',
+  })
+  @ApiOkResponse({
+    description: 'Processing run retrieved',
+    type: DocumentProcessingRunDetailResponseDto,
+  })
+  @ApiUnauthorizedResponse({
+    description: 'Invalid or expired access token',
+  })
+  @ApiNotFoundResponse({
+    description: 'Document or run not found, or access denied',
+  })
+  async getRun(
+    @Request() req,
+    @Param('documentId', ParseUUIDPipe) documentId: string,
+    @Param('runId', ParseUUIDPipe) runId: string,
+  ): Promise<DocumentProcessingRunDetailResponseDto> {
+    const userId = req.user.id;
+    return this.documentProcessingService.getRun(documentId, runId, userId);
+  }
+
+  @Post(':documentId/runs/:runId/promote')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Promote Processing Run',
+    description:
+      "Make a succeeded run's results the document's current results (text, OCR output and extracted fields). Owner only.",
+  })
+  @ApiParam({
+    name: 'documentId',
+    type: String,
+    format: 'uuid',
+    description: 'Document UUID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiParam({
+    name: 'runId',
+    type: String,
+    format: 'uuid',
+    description: 'Processing run UUID',
+  })
+  @ApiOkResponse({
+    description: 'Run promoted',
+    type: DocumentResponseDto,
+  })
+  @ApiUnauthorizedResponse({
+    description: 'Invalid or expired access token',
+  })
+  @ApiNotFoundResponse({
+    description: 'Document or run not found, or access denied',
+  })
+  @ApiConflictResponse({
+    description: 'Run did not succeed, or the document is being processed',
+  })
+  async promoteRun(
+    @Request() req,
+    @Param('documentId', ParseUUIDPipe) documentId: string,
+    @Param('runId', ParseUUIDPipe) runId: string,
+  ): Promise<DocumentResponseDto> {
+    const userId = req.user.id;
+    return this.documentProcessingService.promoteRun(documentId, runId, userId);
+  }
 }
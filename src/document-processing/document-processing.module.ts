@@ -1,30 +1,139 @@
-import { Module } from '@nestjs/common';
-import { TypeOrmModule } from '@nestjs/typeorm';
-import { ConfigModule } from '@nestjs/config';
+import { Module, Provider } from '@nestjs/common';
+import { ConfigModule, ConfigService } from '@nestjs/config';
 import { MulterModule } from '@nestjs/platform-express';
 import { ScheduleModule } from '@nestjs/schedule';
 import documentProcessingConfig from './config/document-processing.config';
+import {
+  DocumentProcessingConfig,
+  MalwareScannerDriver,
+  OcrEngine,
+  StatusEventsDriver,
+  StorageDriver,
+} from './config/document-processing-config.type';
 import { DocumentProcessingController } from './document-processing.controller';
+import { DocumentUploadsController } from './document-uploads.controller';
+import { DocumentEventsController } from './document-events.controller';
+import { DocumentSearchController } from './document-search.controller';
+import { DocumentImmunizationsController } from './document-immunizations.controller';
+import { DocumentProcessingAdminController } from './document-processing-admin.controller';
+import { DocumentWebhooksAdminController } from './document-webhooks-admin.controller';
 import { DocumentProcessingService } from './document-processing.service';
 import { DocumentProcessingDomainService } from './domain/services/document-processing.domain.service';
-import { DocumentEntity } from './infrastructure/persistence/relational/entities/document.entity';
-import { ExtractedFieldEntity } from './infrastructure/persistence/relational/entities/extracted-field.entity';
-import { DocumentRepositoryAdapter } from './infrastructure/persistence/relational/repositories/document.repository';
+import { ExtractionPipelineService } from './domain/services/extraction-pipeline.service';
+import { DocumentSharingDomainService } from './domain/services/document-sharing.domain.service';
+import { DocumentUploadDomainService } from './domain/services/document-upload.domain.service';
+import { DocumentInspectionDomainService } from './domain/services/document-inspection.domain.service';
+import { DocumentDeduplicationDomainService } from './domain/services/document-deduplication.domain.service';
+import { DocumentReprocessingDomainService } from './domain/services/document-reprocessing.domain.service';
+import { DocumentStatusEventsDomainService } from './domain/services/document-status-events.domain.service';
+import { DocumentWebhooksDomainService } from './domain/services/document-webhooks.domain.service';
+import { DocumentSearchDomainService } from './domain/services/document-search.domain.service';
+import { DocumentDocumentProcessingPersistenceModule } from './infrastructure/persistence/document/document-persistence.module';
+import { RelationalDocumentProcessingPersistenceModule } from './infrastructure/persistence/relational/relational-persistence.module';
+import { DocumentProcessingWorker } from './infrastructure/queue/document-processing.worker';
 import { GcpStorageAdapter } from './infrastructure/storage/gcp-storage.adapter';
+import { LocalStorageAdapter } from './infrastructure/storage/local-storage.adapter';
+import { LocalStorageController } from './infrastructure/storage/local-storage.controller';
+import { S3StorageAdapter } from './infrastructure/storage/s3-storage.adapter';
+import { ClamAvScannerAdapter } from './infrastructure/malware-scanner/clamav-scanner.adapter';
+import { NoopScannerAdapter } from './infrastructure/malware-scanner/noop-scanner.adapter';
+import { InMemoryStatusEventsAdapter } from './infrastructure/status-events/in-memory-status-events.adapter';
+import { PostgresStatusEventsAdapter } from './infrastructure/status-events/postgres-status-events.adapter';
+import { HttpWebhookTransportAdapter } from './infrastructure/webhooks/http-webhook-transport.adapter';
+import { WebhookDeliveryWorker } from './infrastructure/webhooks/webhook-delivery.worker';
 import { GcpDocumentAiAdapter } from './infrastructure/ocr/gcp-document-ai.adapter';
 import { GcpVisionAiAdapter } from './infrastructure/ocr/gcp-vision-ai.adapter';
+import { LocalOcrAdapter } from './infrastructure/ocr/local-ocr.adapter';
+import { PdfDirectExtractorAdapter } from './infrastructure/ocr/pdf-direct-extractor.adapter';
 import { Pdf2JsonService } from './infrastructure/pdf-extraction/pdf2json.service';
+import { Pdf2JsonStage } from './infrastructure/extraction/stages/pdf2json.stage';
+import { PdfParseStage } from './infrastructure/extraction/stages/pdf-parse.stage';
+import { PdfDirectStage } from './infrastructure/extraction/stages/pdf-direct.stage';
+import { VisionOcrStage } from './infrastructure/extraction/stages/vision-ocr.stage';
+import { DocumentAiOcrStage } from './infrastructure/extraction/stages/document-ai-ocr.stage';
+import { OcrMergeStage } from './infrastructure/extraction/stages/ocr-merge.stage';
 import { OcrMergeService } from './utils/ocr-merge.service';
 import { OcrPostProcessorService } from './utils/ocr-post-processor.service';
+import { ExtractionStage } from './domain/ports/extraction-stage.port';
+import { DocumentAuditSubscriber } from './subscribers/document-audit.subscriber';
+import { DocumentWebhooksSubscriber } from './subscribers/document-webhooks.subscriber';
+import { DocumentSearchIndexSubscriber } from './subscribers/document-search-index.subscriber';
 import { AuditModule } from '../audit/audit.module';
+import { DomainEventsModule } from '../domain-events/domain-events.module';
+import { UsersModule } from '../users/users.module';
+import { AllConfigType } from '../config/config.type';
+import { DatabaseConfig } from '../database/config/database-config.type';
+import databaseConfig from '../database/config/database.config';
+
+// <database-block>
+const infrastructurePersistenceModule = (databaseConfig() as DatabaseConfig)
+  .isDocumentDatabase
+  ? DocumentDocumentProcessingPersistenceModule
+  : RelationalDocumentProcessingPersistenceModule;
+// </database-block>
+
+const storageDriver = (documentProcessingConfig() as DocumentProcessingConfig)
+  .storage.driver;
+
+const infrastructureStorageAdapter =
+  storageDriver === StorageDriver.LOCAL
+    ? LocalStorageAdapter
+    : storageDriver === StorageDriver.S3
+      ? S3StorageAdapter
+      : GcpStorageAdapter;
+
+const infrastructureMalwareScannerAdapter =
+  (documentProcessingConfig() as DocumentProcessingConfig).malwareScan
+    .scanner === MalwareScannerDriver.CLAMAV
+    ? ClamAvScannerAdapter
+    : NoopScannerAdapter;
+
+const infrastructureStatusEventsAdapter =
+  (documentProcessingConfig() as DocumentProcessingConfig).statusEvents
+    .driver === StatusEventsDriver.POSTGRES
+    ? PostgresStatusEventsAdapter
+    : InMemoryStatusEventsAdapter;
+
+/**
+ * Bind an OCR engine slot to the adapter selected in configuration
+ * (documentProcessing.ocrEngines.<slot>)
+ */
+function ocrEngineSlot(token: string, slot: 'vision' | 'documentAi'): Provider {
+  return {
+    provide: token,
+    useFactory: (
+      configService: ConfigService<AllConfigType>,
+      gcpVision: GcpVisionAiAdapter,
+      gcpDocumentAi: GcpDocumentAiAdapter,
+      local: LocalOcrAdapter,
+    ) => {
+      const engine = configService.getOrThrow(
+        `documentProcessing.ocrEngines.${slot}`,
+        { infer: true },
+      );
+      return {
+        [OcrEngine.GCP_VISION]: gcpVision,
+        [OcrEngine.GCP_DOCUMENT_AI]: gcpDocumentAi,
+        [OcrEngine.LOCAL]: local,
+      }[engine];
+    },
+    inject: [
+      ConfigService,
+      GcpVisionAiAdapter,
+      GcpDocumentAiAdapter,
+      LocalOcrAdapter,
+    ],
+  };
+}
 
 @Module({
   imports: [
     // Configuration
     ConfigModule.forFeature(documentProcessingConfig),
 
-    // Database
-    TypeOrmModule.forFeature([DocumentEntity, ExtractedFieldEntity]),
+    // Database (documents, extracted fields, processing queue, grants,
+    // upload sessions, webhooks)
+    infrastructurePersistenceModule,
 
     // File upload
     MulterModule.register({
@@ -39,42 +148,80 @@ import { AuditModule } from '../audit/audit.module';
 
     // Audit logging
     AuditModule,
+
+    // Lifecycle events (audit and webhooks subscribe to them)
+    DomainEventsModule,
+
+    // Grantee lookup for document sharing
+    UsersModule,
+  ],
+  controllers: [
+    // Before DocumentProcessingController: documents/uploads/*,
+    // documents/events, documents/search and documents/immunizations are
+    // more specific
+    DocumentUploadsController,
+    DocumentEventsController,
+    DocumentSearchController,
+    DocumentImmunizationsController,
+    DocumentProcessingController,
+    DocumentProcessingAdminController,
+    DocumentWebhooksAdminController,
+    // Signed download route (stands in for GCS/S3 signed URLs)
+    ...(storageDriver === StorageDriver.LOCAL ? [LocalStorageController] : []),
   ],
-  controllers: [DocumentProcessingController],
   providers: [
     // Application layer
     DocumentProcessingService,
 
     // Domain layer
     DocumentProcessingDomainService,
+    ExtractionPipelineService,
+    DocumentSharingDomainService,
+    DocumentUploadDomainService,
+    DocumentInspectionDomainService,
+    DocumentDeduplicationDomainService,
+    DocumentReprocessingDomainService,
+    DocumentStatusEventsDomainService,
+    DocumentWebhooksDomainService,
+    DocumentSearchDomainService,
+
+    // Domain event subscribers
+    DocumentAuditSubscriber,
+    DocumentWebhooksSubscriber,
+    DocumentSearchIndexSubscriber,
 
     // Infrastructure adapters (Hexagonal Architecture)
+    // DocumentRepositoryPort, ProcessingQueuePort, DocumentGrantRepositoryPort,
+    // UploadSessionRepositoryPort and the webhook repository ports come from
+    // the persistence module selected above
     {
-      provide: 'DocumentRepositoryPort',
-      useClass: DocumentRepositoryAdapter,
+      provide: 'StorageServicePort',
+      useExisting: infrastructureStorageAdapter,
     },
     {
-      provide: 'StorageServicePort',
-      useClass: GcpStorageAdapter,
+      provide: 'MalwareScannerPort',
+      useClass: infrastructureMalwareScannerAdapter,
     },
     {
-      provide: 'OcrServicePort',
-      useClass: GcpDocumentAiAdapter, // Backward compatibility
+      provide: 'DocumentStatusEventsPort',
+      useClass: infrastructureStatusEventsAdapter,
     },
     {
-      provide: 'VisionOcrServicePort',
-      useClass: GcpVisionAiAdapter,
+      provide: 'WebhookTransportPort',
+      useClass: HttpWebhookTransportAdapter,
     },
     {
-      provide: 'DocumentAiOcrServicePort',
-      useClass: GcpDocumentAiAdapter,
+      provide: 'OcrServicePort',
+      useClass: GcpDocumentAiAdapter, // Backward compatibility
     },
+    ocrEngineSlot('VisionOcrServicePort', 'vision'),
+    ocrEngineSlot('DocumentAiOcrServicePort', 'documentAi'),
 
     // Direct injection for domain service (since it uses constructor injection)
-    DocumentRepositoryAdapter,
-    GcpStorageAdapter,
+    infrastructureStorageAdapter,
     GcpDocumentAiAdapter,
     GcpVisionAiAdapter,
+    LocalOcrAdapter,
 
     // Merge and post-processing services
     OcrMergeService,
@@ -82,6 +229,33 @@ import { AuditModule } from '../audit/audit.module';
 
     // PDF extraction service
     Pdf2JsonService,
+    PdfDirectExtractorAdapter,
+
+    // Extraction pipeline stages (routed per document type)
+    Pdf2JsonStage,
+    PdfParseStage,
+    PdfDirectStage,
+    VisionOcrStage,
+    DocumentAiOcrStage,
+    OcrMergeStage,
+    {
+      provide: 'ExtractionStages',
+      useFactory: (...stages: ExtractionStage[]) => stages,
+      inject: [
+        Pdf2JsonStage,
+        PdfParseStage,
+        PdfDirectStage,
+        VisionOcrStage,
+        DocumentAiOcrStage,
+        OcrMergeStage,
+      ],
+    },
+
+    // Durable processing queue worker
+    DocumentProcessingWorker,
+
+    // Outbound webhook delivery worker
+    WebhookDeliveryWorker,
   ],
   exports: [DocumentProcessingService],
 })
@@ -1,19 +1,40 @@
 import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, ForbiddenException } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { DocumentProcessingDomainService } from './domain/services/document-processing.domain.service';
 import { DocumentRepositoryPort } from './domain/ports/document.repository.port';
 import { StorageServicePort } from './domain/ports/storage.service.port';
 import { OcrServicePort } from './domain/ports/ocr.service.port';
+import { ProcessingQueuePort } from './domain/ports/processing-queue.port';
+import { ImmunizationRepositoryPort } from './domain/ports/immunization.repository.port';
+import { ExtractionPipelineService } from './domain/services/extraction-pipeline.service';
+import { DocumentSharingDomainService } from './domain/services/document-sharing.domain.service';
+import { DocumentInspectionDomainService } from './domain/services/document-inspection.domain.service';
+import { DocumentDeduplicationDomainService } from './domain/services/document-deduplication.domain.service';
+import { DocumentReprocessingDomainService } from './domain/services/document-reprocessing.domain.service';
+import { DocumentStatusEventsDomainService } from './domain/services/document-status-events.domain.service';
+import { DocumentAuditSubscriber } from './subscribers/document-audit.subscriber';
+import { DomainEventBus } from '../domain-events/domain-event-bus.service';
+import { DomainEventsDriver } from '../domain-events/config/domain-events-config.type';
 import { AuditService } from '../audit/audit.service';
 import { DocumentType } from './domain/enums/document-type.enum';
 import { DocumentStatus } from './domain/enums/document-status.enum';
+import { ProcessingMethod } from './domain/enums/processing-method.enum';
+import { DocumentGrantScope } from './domain/enums/document-grant-scope.enum';
 
 describe('DocumentProcessingDomainService', () => {
   let service: DocumentProcessingDomainService;
   let mockRepository: jest.Mocked<DocumentRepositoryPort>;
   let mockStorage: jest.Mocked<StorageServicePort>;
   let mockOcr: jest.Mocked<OcrServicePort>;
+  let mockQueue: jest.Mocked<ProcessingQueuePort>;
+  let mockPipeline: jest.Mocked<ExtractionPipelineService>;
+  let mockSharing: jest.Mocked<DocumentSharingDomainService>;
+  let mockInspection: jest.Mocked<DocumentInspectionDomainService>;
+  let mockDeduplication: jest.Mocked<DocumentDeduplicationDomainService>;
+  let mockReprocessing: jest.Mocked<DocumentReprocessingDomainService>;
   let mockAudit: jest.Mocked<AuditService>;
+  let mockImmunizations: jest.Mocked<ImmunizationRepositoryPort>;
 
   beforeEach(async () => {
     // Create mocks
@@ -24,15 +45,23 @@ describe('DocumentProcessingDomainService', () => {
       findById: jest.fn(),
       findByIdAndUserId: jest.fn(),
       findByUserId: jest.fn(),
+      findByStatuses: jest.fn(),
       findExpired: jest.fn(),
       hardDelete: jest.fn(),
       saveExtractedFields: jest.fn(),
       findExtractedFieldsByDocumentId: jest.fn(),
     } as any;
 
+    mockImmunizations = {
+      replaceForDocument: jest.fn(),
+      findByDocumentId: jest.fn(),
+      findByDocumentIds: jest.fn(),
+    };
+
     mockStorage = {
       storeRaw: jest.fn(),
       storeProcessed: jest.fn(),
+      fetchRaw: jest.fn(),
       delete: jest.fn(),
       getSignedUrl: jest.fn(),
     } as any;
@@ -41,14 +70,70 @@ describe('DocumentProcessingDomainService', () => {
       processDocument: jest.fn(),
     } as any;
 
+    mockQueue = {
+      enqueue: jest.fn(),
+      claim: jest.fn(),
+      extendLease: jest.fn(),
+      complete: jest.fn(),
+      reschedule: jest.fn(),
+      markDead: jest.fn(),
+      requeueExpiredLeases: jest.fn(),
+    } as any;
+
+    mockPipeline = {
+      run: jest.fn(),
+      getRoute: jest.fn().mockReturnValue([]),
+    } as any;
+
+    mockSharing = {
+      useGrant: jest.fn().mockResolvedValue(null),
+    } as any;
+
+    mockInspection = {
+      assertSafeToProcess: jest.fn().mockResolvedValue('ab12'),
+      assertBackSafeToProcess: jest.fn().mockResolvedValue('cd34'),
+    } as any;
+
+    mockDeduplication = {
+      policy: 'link',
+      findOriginal: jest.fn().mockResolvedValue(undefined),
+      discardUpload: jest.fn(),
+      copyResults: jest.fn(),
+      onOriginalProcessed: jest.fn(),
+      onOriginalFailed: jest.fn(),
+    } as any;
+
+    mockReprocessing = {
+      findOpenRun: jest.fn().mockResolvedValue(undefined),
+      findOpenRuns: jest.fn().mockResolvedValue([]),
+      beginRun: jest.fn().mockResolvedValue({
+        id: 'run-1',
+        pipelineVersion: '1',
+        attempts: 1,
+      }),
+      recordAttempt: jest.fn(),
+      completeRun: jest.fn().mockResolvedValue(true),
+      failRun: jest.fn(),
+      failOpenRun: jest.fn(),
+      deleteRuns: jest.fn(),
+    } as any;
+
     mockAudit = {
       logAuthEvent: jest.fn(),
+      record: jest.fn(),
     } as any;
 
     const mockConfig = {
       getOrThrow: jest.fn((key) => {
         if (key === 'documentProcessing.retentionYears') return 8;
         if (key === 'documentProcessing.syncMaxPages') return 15;
+        if (key === 'documentProcessing.classification') {
+          return {
+            enabled: true,
+            autoCorrect: false,
+            autoCorrectMinConfidence: 0.85,
+          };
+        }
         return 'mock-value';
       }),
     };
@@ -59,10 +144,47 @@ describe('DocumentProcessingDomainService', () => {
         { provide: 'DocumentRepositoryPort', useValue: mockRepository },
         { provide: 'StorageServicePort', useValue: mockStorage },
         { provide: 'OcrServicePort', useValue: mockOcr },
+        { provide: 'ProcessingQueuePort', useValue: mockQueue },
+        {
+          provide: 'LabResultRepositoryPort',
+          useValue: { findByDocumentId: jest.fn() },
+        },
+        {
+          provide: 'MedicationRepositoryPort',
+          useValue: { findByDocumentId: jest.fn() },
+        },
+        { provide: 'ImmunizationRepositoryPort', useValue: mockImmunizations },
+        { provide: ExtractionPipelineService, useValue: mockPipeline },
+        { provide: DocumentSharingDomainService, useValue: mockSharing },
+        { provide: DocumentInspectionDomainService, useValue: mockInspection },
+        {
+          provide: DocumentDeduplicationDomainService,
+          useValue: mockDeduplication,
+        },
+        {
+          provide: DocumentReprocessingDomainService,
+          useValue: mockReprocessing,
+        },
+        {
+          provide: DocumentStatusEventsDomainService,
+          useValue: { statusChanged: jest.fn(), stageFinished: jest.fn() },
+        },
+        {
+          provide: DomainEventBus,
+          useValue: new DomainEventBus(
+            {} as any,
+            {
+              getOrThrow: () => ({ driver: DomainEventsDriver.MEMORY }),
+            } as any,
+            { atomic: false, run: (work) => work() },
+          ),
+        },
+        DocumentAuditSubscriber,
         { provide: AuditService, useValue: mockAudit },
         { provide: ConfigService, useValue: mockConfig },
       ],
     }).compile();
+    await module.init(); // Registers the audit subscriber
 
     service = module.get<DocumentProcessingDomainService>(
       DocumentProcessingDomainService,
@@ -70,7 +192,7 @@ describe('DocumentProcessingDomainService', () => {
   });
 
   describe('uploadDocument', () => {
-    it('should upload document and trigger processing', async () => {
+    it('should upload document and enqueue it for processing', async () => {
       const userId = 'user-123';
       const fileBuffer = Buffer.from('test file content');
       const fileName = 'test.pdf';
@@ -112,7 +234,12 @@ describe('DocumentProcessingDomainService', () => {
           rawFileUri: expect.stringContaining('gs://'),
         }),
       );
-      expect(mockAudit.logAuthEvent).toHaveBeenCalledWith(
+      expect(mockQueue.enqueue).toHaveBeenCalledWith('doc-123');
+      expect(mockRepository.updateStatus).toHaveBeenCalledWith(
+        'doc-123',
+        DocumentStatus.QUEUED,
+      );
+      expect(mockAudit.record).toHaveBeenCalledWith(
         expect.objectContaining({
           userId,
           event: expect.any(String),
@@ -142,24 +269,340 @@ describe('DocumentProcessingDomainService', () => {
       );
 
       // Verify audit log does NOT contain file content or GCS URI
-      const auditCall = mockAudit.logAuthEvent.mock.calls[0][0];
+      const auditCall = mockAudit.record.mock.calls[0][0];
       expect(JSON.stringify(auditCall)).not.toContain('SENSITIVE');
       expect(JSON.stringify(auditCall)).not.toContain('gs://');
       expect(JSON.stringify(auditCall)).not.toContain('patient_john_doe');
     });
+
+    it('should not enqueue a document that fails content inspection', async () => {
+      const fileBuffer = Buffer.from('MZ not really a pdf');
+
+      mockRepository.save.mockResolvedValue({
+        id: 'doc-123',
+        userId: 'user-123',
+      } as any);
+      mockStorage.storeRaw.mockResolvedValue('gs://bucket/raw/file.pdf');
+      mockInspection.assertSafeToProcess.mockRejectedValue(
+        new BadRequestException('File rejected'),
+      );
+
+      await expect(
+        service.uploadDocument(
+          'user-123',
+          fileBuffer,
+          'test.pdf',
+          'application/pdf',
+          DocumentType.LAB_RESULT,
+        ),
+      ).rejects.toThrow(BadRequestException);
+
+      // Inspected from the upload buffer, after the URI was recorded
+      expect(mockInspection.assertSafeToProcess).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'doc-123' }),
+        'gs://bucket/raw/file.pdf',
+        fileBuffer,
+      );
+      expect(mockRepository.update).toHaveBeenCalledWith('doc-123', {
+        rawFileUri: 'gs://bucket/raw/file.pdf',
+      });
+      expect(mockQueue.enqueue).not.toHaveBeenCalled();
+    });
+
+    it('should reuse the results of an identical processed document instead of running OCR', async () => {
+      const original = {
+        id: 'doc-100',
+        userId: 'user-123',
+        status: DocumentStatus.PROCESSED,
+      } as any;
+
+      mockRepository.save.mockResolvedValue({
+        id: 'doc-123',
+        userId: 'user-123',
+      } as any);
+      mockStorage.storeRaw.mockResolvedValue('gs://bucket/raw/file.pdf');
+      mockDeduplication.findOriginal.mockResolvedValue(original);
+
+      await service.uploadDocument(
+        'user-123',
+        Buffer.from('%PDF-1.7'),
+        'test.pdf',
+        'application/pdf',
+        DocumentType.LAB_RESULT,
+      );
+
+      expect(mockRepository.updateStatus).toHaveBeenCalledWith(
+        'doc-123',
+        DocumentStatus.STORED,
+        expect.objectContaining({
+          contentHash: 'ab12',
+          duplicateOf: 'doc-100',
+        }),
+      );
+      expect(mockDeduplication.copyResults).toHaveBeenCalledWith(
+        original,
+        expect.objectContaining({ id: 'doc-123' }),
+      );
+      expect(mockQueue.enqueue).not.toHaveBeenCalled();
+    });
+
+    it('should queue a duplicate of an in-flight original once it is QUEUED', async () => {
+      mockRepository.save.mockResolvedValue({
+        id: 'doc-123',
+        userId: 'user-123',
+      } as any);
+      mockStorage.storeRaw.mockResolvedValue('gs://bucket/raw/file.pdf');
+      mockDeduplication.findOriginal.mockResolvedValue({
+        id: 'doc-100',
+        userId: 'user-123',
+        status: DocumentStatus.PROCESSING,
+      } as any);
+
+      await service.uploadDocument(
+        'user-123',
+        Buffer.from('%PDF-1.7'),
+        'test.pdf',
+        'application/pdf',
+        DocumentType.LAB_RESULT,
+      );
+
+      // The job copies the results if the original finishes before the
+      // duplicate is QUEUED (onOriginalProcessed only sees QUEUED duplicates)
+      const queuedAt = mockRepository.updateStatus.mock.calls.findIndex(
+        ([, status]) => status === DocumentStatus.QUEUED,
+      );
+      expect(mockQueue.enqueue).toHaveBeenCalledWith('doc-123');
+      expect(mockQueue.enqueue.mock.invocationCallOrder[0]).toBeGreaterThan(
+        mockRepository.updateStatus.mock.invocationCallOrder[queuedAt],
+      );
+      expect(mockDeduplication.copyResults).not.toHaveBeenCalled();
+    });
+
+    it('should return the existing document when configured to', async () => {
+      const original = {
+        id: 'doc-100',
+        userId: 'user-123',
+        status: DocumentStatus.PROCESSED,
+      } as any;
+
+      mockRepository.save.mockResolvedValue({
+        id: 'doc-123',
+        userId: 'user-123',
+      } as any);
+      mockStorage.storeRaw.mockResolvedValue('gs://bucket/raw/file.pdf');
+      mockDeduplication.findOriginal.mockResolvedValue(original);
+      (mockDeduplication as any).policy = 'return-existing';
+
+      const result = await service.uploadDocument(
+        'user-123',
+        Buffer.from('%PDF-1.7'),
+        'test.pdf',
+        'application/pdf',
+        DocumentType.LAB_RESULT,
+      );
+
+      expect(result).toBe(original);
+      expect(mockDeduplication.discardUpload).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'doc-123' }),
+        'gs://bucket/raw/file.pdf',
+        original,
+      );
+      expect(mockAudit.record).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('uploadInsuranceCard', () => {
+    it('should store both sides as one document and deduplicate on both', async () => {
+      const front = {
+        buffer: Buffer.from('front'),
+        fileName: 'card.jpg',
+        mimeType: 'image/jpeg',
+      };
+      const back = {
+        buffer: Buffer.from('back'),
+        fileName: 'card.png',
+        mimeType: 'image/png',
+      };
+
+      mockRepository.save.mockImplementation((document) =>
+        Promise.resolve({ ...document, id: 'doc-123' }),
+      );
+      mockStorage.storeRaw
+        .mockResolvedValueOnce('gs://bucket/raw/user-123/doc-123_card.jpg')
+        .mockResolvedValueOnce(
+          'gs://bucket/raw/user-123/doc-123_back_card.png',
+        );
+
+      const document = await service.uploadInsuranceCard(
+        'user-123',
+        front,
+        back,
+      );
+
+      expect(mockRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({
+          documentType: DocumentType.INSURANCE_CARD,
+          fileSize: 9,
+        }),
+      );
+      expect(mockRepository.update).toHaveBeenCalledWith('doc-123', {
+        backFileUri: 'gs://bucket/raw/user-123/doc-123_back_card.png',
+        backMimeType: 'image/png',
+      });
+      expect(mockInspection.assertBackSafeToProcess).toHaveBeenCalled();
+      // Neither side's hash alone, so a single-sided upload is no duplicate
+      expect(document.contentHash).toMatch(/^[0-9a-f]{64}$/);
+      expect(document.contentHash).not.toBe('ab12');
+      expect(mockQueue.enqueue).toHaveBeenCalledWith('doc-123');
+    });
+  });
+
+  describe('processDocument', () => {
+    it('should skip documents that were deleted before processing', async () => {
+      mockRepository.findById.mockResolvedValue(null);
+
+      const result = await service.processDocument('doc-123');
+
+      expect(result).toEqual({ outcome: 'completed' });
+      expect(mockRepository.updateStatus).not.toHaveBeenCalled();
+    });
+
+    it('should release waiting duplicates when the original was deleted', async () => {
+      mockRepository.findById.mockResolvedValue({
+        id: 'doc-123',
+        status: DocumentStatus.QUEUED,
+        deletedAt: new Date(),
+      } as any);
+
+      const result = await service.processDocument('doc-123');
+
+      expect(result).toEqual({ outcome: 'completed' });
+      expect(mockDeduplication.onOriginalFailed).toHaveBeenCalledWith(
+        'doc-123',
+      );
+    });
+
+    it('should return a retry outcome instead of scheduling a timer', async () => {
+      mockRepository.findById.mockResolvedValue({
+        id: 'doc-123',
+        userId: 'user-123',
+        status: DocumentStatus.QUEUED,
+        mimeType: 'image/jpeg',
+        rawFileUri: 'gs://bucket/raw/file.jpg',
+        retryCount: 0,
+      } as any);
+      mockRepository.updateStatus.mockRejectedValueOnce(
+        new Error('connection reset'),
+      );
+
+      const result = await service.processDocument('doc-123');
+
+      expect(result.outcome).toBe('retry');
+      expect(mockRepository.update).toHaveBeenCalledWith(
+        'doc-123',
+        expect.objectContaining({
+          retryCount: 1,
+          status: DocumentStatus.QUEUED,
+        }),
+      );
+    });
+
+    it('should extract an undeclared document as its predicted type', async () => {
+      mockRepository.findById.mockResolvedValue({
+        id: 'doc-123',
+        userId: 'user-123',
+        documentType: DocumentType.OTHER,
+        status: DocumentStatus.QUEUED,
+        mimeType: 'application/pdf',
+        rawFileUri: 'gs://bucket/raw/file.pdf',
+        retryCount: 0,
+      } as any);
+      mockPipeline.run.mockResolvedValue({
+        result: {
+          text: [
+            'Laboratory Report  Collected: 03/14/2024',
+            'Test  Result  Units  Reference Range',
+            'Glucose 105 mg/dL 65-99',
+            'Potassium 4.1 mmol/L 3.5-5.3',
+          ].join('\n'),
+          confidence: 0.95,
+          pageCount: 1,
+          entities: [],
+          fullResponse: {},
+        },
+        processingMethod: ProcessingMethod.DIRECT_EXTRACTION,
+      } as any);
+      mockStorage.storeProcessed.mockResolvedValue('gs://bucket/processed/1');
+
+      await service.processDocument('doc-123');
+
+      expect(mockReprocessing.completeRun).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.anything(),
+        expect.objectContaining({
+          documentType: DocumentType.LAB_RESULT,
+          predictedDocumentType: DocumentType.LAB_RESULT,
+          labResults: [
+            expect.objectContaining({ analyte: 'Glucose' }),
+            expect.objectContaining({ analyte: 'Potassium' }),
+          ],
+        }),
+      );
+    });
+  });
+
+  describe('recoverStalledDocuments', () => {
+    it('should re-enqueue documents left in flight', async () => {
+      mockRepository.findByStatuses.mockResolvedValue([
+        { id: 'doc-1', status: DocumentStatus.STORED },
+        { id: 'doc-2', status: DocumentStatus.PROCESSING },
+      ] as any);
+
+      const recovered = await service.recoverStalledDocuments();
+
+      expect(recovered).toBe(2);
+      expect(mockQueue.enqueue).toHaveBeenCalledWith('doc-1');
+      expect(mockQueue.enqueue).toHaveBeenCalledWith('doc-2');
+      expect(mockRepository.updateStatus).toHaveBeenCalledWith(
+        'doc-1',
+        DocumentStatus.QUEUED,
+      );
+    });
+
+    it('should re-enqueue documents with an open reprocessing run', async () => {
+      mockRepository.findByStatuses.mockResolvedValue([
+        { id: 'doc-1', status: DocumentStatus.QUEUED },
+      ] as any);
+      mockReprocessing.findOpenRuns.mockResolvedValue([
+        { id: 'run-1', documentId: 'doc-1' },
+        { id: 'run-2', documentId: 'doc-2' },
+      ] as any);
+
+      const recovered = await service.recoverStalledDocuments();
+
+      expect(recovered).toBe(2);
+      expect(mockQueue.enqueue).toHaveBeenCalledTimes(2);
+      expect(mockQueue.enqueue).toHaveBeenCalledWith('doc-2');
+    });
   });
 
   describe('authorization', () => {
     it('should prevent unauthorized document access', async () => {
+      mockRepository.findById.mockResolvedValue({
+        id: 'doc-123',
+        userId: 'user-123',
+      } as any);
       mockRepository.findByIdAndUserId.mockResolvedValue(null);
 
       await expect(
         service.getDocument('doc-123', 'wrong-user'),
       ).rejects.toThrow();
 
-      // Verify unauthorized access is logged
-      expect(mockAudit.logAuthEvent).toHaveBeenCalledWith(
+      // Verify unauthorized access is logged in the owner's access history
+      expect(mockAudit.record).toHaveBeenCalledWith(
         expect.objectContaining({
+          userId: 'wrong-user',
+          subjectUserId: 'user-123',
           success: false,
           event: expect.stringContaining('UNAUTHORIZED'),
         }),
@@ -178,7 +621,7 @@ describe('DocumentProcessingDomainService', () => {
       const result = await service.getDocument('doc-123', 'user-123');
 
       expect(result).toEqual(mockDoc);
-      expect(mockAudit.logAuthEvent).toHaveBeenCalledWith(
+      expect(mockAudit.record).toHaveBeenCalledWith(
         expect.objectContaining({
           userId: 'user-123',
           success: true,
@@ -186,6 +629,55 @@ describe('DocumentProcessingDomainService', () => {
         }),
       );
     });
+
+    it('should allow access through an active grant', async () => {
+      const mockDoc = {
+        id: 'doc-123',
+        userId: 'owner-123',
+        status: DocumentStatus.PROCESSED,
+      };
+
+      mockRepository.findById.mockResolvedValue(mockDoc as any);
+      mockRepository.findByIdAndUserId.mockResolvedValue(null);
+      mockSharing.useGrant.mockResolvedValue({ id: 'grant-123' } as any);
+
+      const result = await service.getDocument('doc-123', 'caregiver-123');
+
+      expect(result).toEqual(mockDoc);
+      expect(mockSharing.useGrant).toHaveBeenCalledWith(
+        'doc-123',
+        'caregiver-123',
+        DocumentGrantScope.VIEW,
+      );
+      expect(mockAudit.record).toHaveBeenCalledWith(
+        expect.objectContaining({
+          userId: 'caregiver-123',
+          success: true,
+          event: 'DOCUMENT_ACCESSED',
+          metadata: expect.objectContaining({ grantId: 'grant-123' }),
+        }),
+      );
+    });
+
+    it('should deny access without a grant covering the scope', async () => {
+      mockRepository.findById.mockResolvedValue({
+        id: 'doc-123',
+        userId: 'owner-123',
+        rawFileUri: 'gs://bucket/raw/owner-123/doc-123_test.pdf',
+      } as any);
+      mockRepository.findByIdAndUserId.mockResolvedValue(null);
+
+      await expect(
+        service.getDownloadUrl('doc-123', 'caregiver-123'),
+      ).rejects.toThrow();
+
+      expect(mockSharing.useGrant).toHaveBeenCalledWith(
+        'doc-123',
+        'caregiver-123',
+        DocumentGrantScope.DOWNLOAD,
+      );
+      expect(mockStorage.getSignedUrl).not.toHaveBeenCalled();
+    });
   });
 
   describe('cleanupExpiredDocuments', () => {
@@ -208,7 +700,7 @@ describe('DocumentProcessingDomainService', () => {
 
       expect(mockStorage.delete).toHaveBeenCalledTimes(2); // raw + processed
       expect(mockRepository.hardDelete).toHaveBeenCalledWith('doc-old');
-      expect(mockAudit.logAuthEvent).toHaveBeenCalledWith(
+      expect(mockAudit.record).toHaveBeenCalledWith(
         expect.objectContaining({
           userId: 'user-123',
           event: expect.stringContaining('HARD_DELETED'),
@@ -264,7 +756,7 @@ describe('DocumentProcessingDomainService', () => {
         }),
       );
 
-      expect(mockAudit.logAuthEvent).toHaveBeenCalledWith(
+      expect(mockAudit.record).toHaveBeenCalledWith(
         expect.objectContaining({
           userId: 'user-123',
           event: expect.stringContaining('DELETED'),
@@ -310,6 +802,20 @@ describe('DocumentProcessingDomainService', () => {
       );
     });
 
+    it('should refuse to sign downloads of quarantined documents', async () => {
+      mockRepository.findByIdAndUserId.mockResolvedValue({
+        id: 'doc-123',
+        userId: 'user-123',
+        status: DocumentStatus.QUARANTINED,
+        rawFileUri: 'gs://bucket/raw/file.pdf',
+      } as any);
+
+      await expect(
+        service.getDownloadUrl('doc-123', 'user-123'),
+      ).rejects.toThrow(ForbiddenException);
+      expect(mockStorage.getSignedUrl).not.toHaveBeenCalled();
+    });
+
     it('should reject unauthorized download attempts', async () => {
       mockRepository.findByIdAndUserId.mockResolvedValue(null);
 
@@ -317,7 +823,7 @@ describe('DocumentProcessingDomainService', () => {
         service.getDownloadUrl('doc-123', 'wrong-user'),
       ).rejects.toThrow();
 
-      expect(mockAudit.logAuthEvent).toHaveBeenCalledWith(
+      expect(mockAudit.record).toHaveBeenCalledWith(
         expect.objectContaining({
           success: false,
         }),
@@ -366,4 +872,59 @@ describe('DocumentProcessingDomainService', () => {
       );
     });
   });
+
+  describe('getImmunizationHistory', () => {
+    it('should list a dose recorded by several documents once', async () => {
+      mockRepository.findByUserId.mockResolvedValue({
+        data: [
+          { id: 'card', documentType: DocumentType.IMMUNIZATION_RECORD },
+          { id: 'state', documentType: DocumentType.IMMUNIZATION_RECORD },
+          { id: 'lab', documentType: DocumentType.LAB_RESULT },
+        ] as any,
+        total: 3,
+      });
+      const dose = { cvxCode: '213', administeredDate: '2021-01-12' };
+      mockImmunizations.findByDocumentIds.mockResolvedValue([
+        { ...dose, id: 'i-1', documentId: 'state', confidence: 0.8 },
+        {
+          ...dose,
+          id: 'i-2',
+          documentId: 'card',
+          lotNumber: 'EW0182',
+          confidence: 0.9,
+        },
+        {
+          id: 'i-3',
+          documentId: 'state',
+          cvxCode: '115',
+          administeredDate: '2024-09-03',
+          confidence: 0.9,
+        },
+      ] as any);
+
+      const history = await service.getImmunizationHistory('user-123');
+
+      expect(mockImmunizations.findByDocumentIds).toHaveBeenCalledWith([
+        'card',
+        'state',
+      ]);
+      expect(history).toEqual([
+        expect.objectContaining({
+          cvxCode: '213',
+          lotNumber: 'EW0182',
+          confidence: 0.9,
+          documentIds: ['state', 'card'],
+        }),
+        expect.objectContaining({ cvxCode: '115', documentIds: ['state'] }),
+      ]);
+      expect(mockAudit.record).toHaveBeenCalledTimes(2);
+      expect(mockAudit.record).toHaveBeenCalledWith(
+        expect.objectContaining({
+          userId: 'user-123',
+          event: 'DOCUMENT_ACCESSED',
+          metadata: { documentId: 'card', view: 'immunization_history' },
+        }),
+      );
+    });
+  });
 });
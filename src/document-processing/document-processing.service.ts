@@ -1,15 +1,70 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { plainToClass } from 'class-transformer';
-import { DocumentProcessingDomainService } from './domain/services/document-processing.domain.service';
+import {
+  CardSideUpload,
+  DocumentProcessingDomainService,
+} from './domain/services/document-processing.domain.service';
+import { DocumentSharingDomainService } from './domain/services/document-sharing.domain.service';
+import {
+  DocumentUploadDomainService,
+  MIN_UPLOAD_CHUNK_BYTES,
+} from './domain/services/document-upload.domain.service';
+import { DocumentReprocessingDomainService } from './domain/services/document-reprocessing.domain.service';
+import {
+  DOCUMENT_STATUS_PROGRESS,
+  DocumentStatusEventsDomainService,
+} from './domain/services/document-status-events.domain.service';
+import { DocumentWebhooksDomainService } from './domain/services/document-webhooks.domain.service';
+import { DocumentSearchDomainService } from './domain/services/document-search.domain.service';
+import { EXTRACTION_PIPELINE_VERSION } from './domain/services/extraction-pipeline.service';
 import { Document } from './domain/entities/document.entity';
+import { DocumentGrant } from './domain/entities/document-grant.entity';
+import { UploadSession } from './domain/entities/upload-session.entity';
+import { DocumentProcessingRun } from './domain/entities/document-processing-run.entity';
+import { WebhookSubscription } from './domain/entities/webhook-subscription.entity';
+import { WebhookDelivery } from './domain/entities/webhook-delivery.entity';
+import { DocumentStatusEvent } from './domain/ports/document-status-events.port';
 import { DocumentType } from './domain/enums/document-type.enum';
 import { DocumentStatus } from './domain/enums/document-status.enum';
+import { WebhookDeliveryStatus } from './domain/enums/webhook-delivery-status.enum';
 import { DocumentResponseDto } from './dto/document-response.dto';
-import { DocumentStatusResponseDto } from './dto/document-status-response.dto';
+import {
+  DocumentStatusResponseDto,
+  ProcessingRunSummaryDto,
+} from './dto/document-status-response.dto';
 import { DocumentListQueryDto } from './dto/document-list-query.dto';
+import { DocumentSearchQueryDto } from './dto/document-search-query.dto';
+import { DocumentSearchResponseDto } from './dto/document-search-result.dto';
 import { ExtractedFieldResponseDto } from './dto/extracted-field-response.dto';
 import { ExtractedFieldsWithOcrResponseDto } from './dto/extracted-fields-with-ocr-response.dto';
+import { LabResultResponseDto } from './dto/lab-result-response.dto';
+import { MedicationResponseDto } from './dto/medication-response.dto';
+import { ImmunizationHistoryEntryResponseDto } from './dto/immunization-history-entry-response.dto';
+import { CreateDocumentGrantDto } from './dto/create-document-grant.dto';
+import { DocumentGrantResponseDto } from './dto/document-grant-response.dto';
+import { CreateUploadSessionDto } from './dto/create-upload-session.dto';
+import { UploadChunkDto } from './dto/upload-chunk.dto';
+import { UploadSessionResponseDto } from './dto/upload-session-response.dto';
+import { CreateUploadIntentDto } from './dto/create-upload-intent.dto';
+import { UploadIntentResponseDto } from './dto/upload-intent-response.dto';
+import { BulkReprocessDocumentsDto } from './dto/bulk-reprocess-documents.dto';
+import { BulkReprocessResponseDto } from './dto/bulk-reprocess-response.dto';
+import {
+  DocumentProcessingRunDetailResponseDto,
+  DocumentProcessingRunResponseDto,
+} from './dto/document-processing-run-response.dto';
+import { ProcessingStageRecordResponseDto } from './dto/processing-stage-record-response.dto';
+import { CreateWebhookSubscriptionDto } from './dto/create-webhook-subscription.dto';
+import { UpdateWebhookSubscriptionDto } from './dto/update-webhook-subscription.dto';
+import {
+  WebhookSubscriptionCreatedResponseDto,
+  WebhookSubscriptionResponseDto,
+} from './dto/webhook-subscription-response.dto';
+import { WebhookDeliveryResponseDto } from './dto/webhook-delivery-response.dto';
 import { InfinityPaginationResponseDto } from '../utils/dto/infinity-pagination-response.dto';
+import { infinityPagination } from '../utils/infinity-pagination';
+import { AccessLogEntryDto } from '../audit/dto/access-log-entry.dto';
+import { AccessLogQueryDto } from '../audit/dto/access-log-query.dto';
 
 /**
  * Orchestration Service (Application Layer)
@@ -27,6 +82,12 @@ export class DocumentProcessingService {
 
   constructor(
     private readonly domainService: DocumentProcessingDomainService,
+    private readonly sharingService: DocumentSharingDomainService,
+    private readonly uploadService: DocumentUploadDomainService,
+    private readonly reprocessingService: DocumentReprocessingDomainService,
+    private readonly statusEvents: DocumentStatusEventsDomainService,
+    private readonly webhooks: DocumentWebhooksDomainService,
+    private readonly searchService: DocumentSearchDomainService,
   ) {}
 
   async uploadDocument(
@@ -34,7 +95,7 @@ export class DocumentProcessingService {
     fileBuffer: Buffer,
     fileName: string,
     mimeType: string,
-    documentType: DocumentType,
+    documentType: DocumentType | undefined,
     description?: string,
   ): Promise<Document> {
     return this.domainService.uploadDocument(
@@ -47,6 +108,106 @@ export class DocumentProcessingService {
     );
   }
 
+  async uploadInsuranceCard(
+    userId: string | number,
+    front: CardSideUpload,
+    back?: CardSideUpload,
+    description?: string,
+  ): Promise<Document> {
+    return this.domainService.uploadInsuranceCard(
+      userId,
+      front,
+      back,
+      description,
+    );
+  }
+
+  async createUploadSession(
+    userId: string | number,
+    dto: CreateUploadSessionDto,
+  ): Promise<UploadSessionResponseDto> {
+    const session = await this.uploadService.createSession(userId, {
+      fileName: dto.fileName,
+      mimeType: dto.mimeType,
+      fileSize: dto.fileSize,
+      documentType: dto.documentType,
+      description: dto.description,
+    });
+    return this.toUploadSessionResponseDto(session);
+  }
+
+  async getUploadSession(
+    uploadId: string,
+    userId: string | number,
+  ): Promise<UploadSessionResponseDto> {
+    const session = await this.uploadService.getSession(uploadId, userId);
+    return this.toUploadSessionResponseDto(session);
+  }
+
+  async appendUploadChunk(
+    uploadId: string,
+    userId: string | number,
+    chunk: Buffer,
+    dto: UploadChunkDto,
+  ): Promise<UploadSessionResponseDto> {
+    const session = await this.uploadService.appendChunk(
+      uploadId,
+      userId,
+      dto.offset,
+      chunk,
+      dto.checksum,
+    );
+    return this.toUploadSessionResponseDto(session);
+  }
+
+  async completeUpload(
+    uploadId: string,
+    userId: string | number,
+  ): Promise<Document> {
+    return this.uploadService.completeUpload(uploadId, userId);
+  }
+
+  async abortUpload(uploadId: string, userId: string | number): Promise<void> {
+    return this.uploadService.abortUpload(uploadId, userId);
+  }
+
+  async createUploadIntent(
+    userId: string | number,
+    dto: CreateUploadIntentDto,
+  ): Promise<UploadIntentResponseDto> {
+    const { document, upload } = await this.uploadService.createUploadIntent(
+      userId,
+      {
+        fileName: dto.fileName,
+        mimeType: dto.mimeType,
+        fileSize: dto.fileSize,
+        documentType: dto.documentType,
+        description: dto.description,
+        checksum: dto.checksum,
+      },
+    );
+
+    return plainToClass(
+      UploadIntentResponseDto,
+      {
+        documentId: document.id,
+        status: document.status,
+        uploadUrl: upload.url,
+        method: upload.method,
+        headers: upload.headers,
+        expiresAt: upload.expiresAt,
+      },
+      { excludeExtraneousValues: true },
+    );
+  }
+
+  async completeUploadIntent(
+    documentId: string,
+    userId: string | number,
+  ): Promise<Document> {
+    return this.uploadService.completeUploadIntent(documentId, userId);
+  }
+
   async getDocument(
     documentId: string,
     userId: string | number,
@@ -70,9 +231,32 @@ export class DocumentProcessingService {
     // Calculate progress percentage
     response.progress = this.calculateProgress(document.status);
 
+    const lastRun = await this.reprocessingService.findLatestRun(document.id);
+    if (lastRun) {
+      response.lastRun = this.toRunSummaryDto(lastRun);
+    }
+
     return response;
   }
 
+  /**
+   * Subscribe to status events of the user's documents, or of one document
+   * the user can access (checked and audited like GET /documents/:documentId)
+   * @returns Unsubscribe function
+   */
+  async subscribeToStatusEvents(
+    userId: string | number,
+    listener: (event: DocumentStatusEvent) => void,
+    documentId?: string,
+  ): Promise<() => void> {
+    if (!documentId) {
+      return this.statusEvents.subscribe(userId, listener);
+    }
+
+    await this.domainService.getDocument(documentId, userId);
+    return this.statusEvents.subscribeToDocument(documentId, listener);
+  }
+
   async listDocuments(
     userId: string | number,
     query: DocumentListQueryDto,
@@ -89,6 +273,33 @@ export class DocumentProcessingService {
     };
   }
 
+  async searchDocuments(
+    userId: string | number,
+    query: DocumentSearchQueryDto,
+  ): Promise<DocumentSearchResponseDto> {
+    const page = query.page ?? 1;
+    const limit = query.limit ?? 20;
+
+    const result = await this.searchService.search(userId, {
+      text: query.q,
+      documentTypes: query.documentType,
+      uploadedFrom: query.from,
+      uploadedTo: query.to,
+      skip: (page - 1) * limit,
+      limit,
+    });
+
+    return {
+      data: result.data.map((hit) => ({
+        document: this.toResponseDto(hit.document),
+        rank: hit.rank,
+        snippets: hit.snippets,
+      })),
+      total: result.total,
+      hasNextPage: page * limit < result.total,
+    };
+  }
+
   async deleteDocument(
     documentId: string,
     userId: string | number,
@@ -203,6 +414,44 @@ export class DocumentProcessingService {
     return response;
   }
 
+  async getLabResults(
+    documentId: string,
+    userId: string | number,
+  ): Promise<LabResultResponseDto[]> {
+    const results = await this.domainService.getLabResults(documentId, userId);
+    return results.map((result) =>
+      plainToClass(LabResultResponseDto, result, {
+        excludeExtraneousValues: true,
+      }),
+    );
+  }
+
+  async getMedications(
+    documentId: string,
+    userId: string | number,
+  ): Promise<MedicationResponseDto[]> {
+    const medications = await this.domainService.getMedications(
+      documentId,
+      userId,
+    );
+    return medications.map((medication) =>
+      plainToClass(MedicationResponseDto, medication, {
+        excludeExtraneousValues: true,
+      }),
+    );
+  }
+
+  async getImmunizationHistory(
+    userId: string | number,
+  ): Promise<ImmunizationHistoryEntryResponseDto[]> {
+    const entries = await this.domainService.getImmunizationHistory(userId);
+    return entries.map((entry) =>
+      plainToClass(ImmunizationHistoryEntryResponseDto, entry, {
+        excludeExtraneousValues: true,
+      }),
+    );
+  }
+
   async getVisionAiOutput(
     documentId: string,
     userId: string | number,
@@ -217,6 +466,214 @@ export class DocumentProcessingService {
     return this.domainService.getDocumentAiOutput(documentId, userId);
   }
 
+  async getAccessLog(
+    documentId: string,
+    userId: string | number,
+    query: AccessLogQueryDto,
+  ): Promise<InfinityPaginationResponseDto<AccessLogEntryDto>> {
+    const page = query.page ?? 1;
+    const limit = query.limit ?? 20;
+
+    return infinityPagination(
+      await this.domainService.getAccessLog(documentId, userId, {
+        page,
+        limit,
+      }),
+      { page, limit },
+    );
+  }
+
+  async createGrant(
+    documentId: string,
+    userId: string | number,
+    dto: CreateDocumentGrantDto,
+  ): Promise<DocumentGrantResponseDto> {
+    const grant = await this.sharingService.createGrant(documentId, userId, {
+      granteeUserId: dto.granteeUserId,
+      granteeEmail: dto.granteeEmail,
+      scopes: dto.scopes,
+      expiresAt: dto.expiresAt,
+    });
+    return this.toGrantResponseDto(grant);
+  }
+
+  async listGrants(
+    documentId: string,
+    userId: string | number,
+  ): Promise<DocumentGrantResponseDto[]> {
+    const grants = await this.sharingService.listGrants(documentId, userId);
+    return grants.map((grant) => this.toGrantResponseDto(grant));
+  }
+
+  async revokeGrant(
+    documentId: string,
+    grantId: string,
+    userId: string | number,
+  ): Promise<void> {
+    return this.sharingService.revokeGrant(documentId, grantId, userId);
+  }
+
+  async reprocessDocument(
+    documentId: string,
+    userId: string | number,
+    promote?: boolean,
+  ): Promise<DocumentProcessingRunResponseDto> {
+    const run = await this.reprocessingService.requestReprocess(
+      documentId,
+      userId,
+      promote ?? true,
+    );
+    return this.toRunResponseDto(run, false);
+  }
+
+  async listRuns(
+    documentId: string,
+    userId: string | number,
+  ): Promise<DocumentProcessingRunResponseDto[]> {
+    const { document, runs } = await this.reprocessingService.listRuns(
+      documentId,
+      userId,
+    );
+    return runs.map((run) =>
+      this.toRunResponseDto(run, run.id === document.currentRunId),
+    );
+  }
+
+  async listRunsForAdmin(
+    documentId: string,
+  ): Promise<DocumentProcessingRunResponseDto[]> {
+    const { document, runs } =
+      await this.reprocessingService.listRunsForAdmin(documentId);
+    return runs.map((run) =>
+      this.toRunResponseDto(run, run.id === document.currentRunId),
+    );
+  }
+
+  async getRun(
+    documentId: string,
+    runId: string,
+    userId: string | number,
+  ): Promise<DocumentProcessingRunDetailResponseDto> {
+    const { document, run } = await this.reprocessingService.getRun(
+      documentId,
+      runId,
+      userId,
+    );
+
+    return plainToClass(
+      DocumentProcessingRunDetailResponseDto,
+      {
+        ...this.toRunResponseDto(run, run.id === document.currentRunId),
+        extractedText: run.extractedText,
+        fields: (run.extractedFields ?? []).map((field) =>
+          plainToClass(ExtractedFieldResponseDto, field, {
+            excludeExtraneousValues: true,
+          }),
+        ),
+      },
+      { excludeExtraneousValues: true },
+    );
+  }
+
+  async promoteRun(
+    documentId: string,
+    runId: string,
+    userId: string | number,
+  ): Promise<DocumentResponseDto> {
+    const document = await this.reprocessingService.promoteRun(
+      documentId,
+      runId,
+      userId,
+    );
+    return this.toResponseDto(document);
+  }
+
+  async bulkReprocess(
+    adminUserId: string | number,
+    dto: BulkReprocessDocumentsDto,
+  ): Promise<BulkReprocessResponseDto> {
+    const result = await this.reprocessingService.bulkReprocess(
+      {
+        statuses: dto.status,
+        documentType: dto.documentType,
+        userId: dto.userId,
+        processedBefore: dto.processedBefore,
+        pipelineVersionNot: dto.outdatedOnly
+          ? EXTRACTION_PIPELINE_VERSION
+          : undefined,
+        limit: dto.limit ?? 100,
+      },
+      adminUserId,
+      dto.promote ?? true,
+    );
+
+    return {
+      pipelineVersion: EXTRACTION_PIPELINE_VERSION,
+      documentIds: result.documentIds,
+      skipped: result.skipped,
+    };
+  }
+
+  async createWebhook(
+    adminUserId: string | number,
+    dto: CreateWebhookSubscriptionDto,
+  ): Promise<WebhookSubscriptionCreatedResponseDto> {
+    const { subscription, secret } = await this.webhooks.createSubscription(
+      { name: dto.name, url: dto.url, events: dto.events },
+      adminUserId,
+    );
+    return plainToClass(
+      WebhookSubscriptionCreatedResponseDto,
+      { ...this.toWebhookResponseDto(subscription), secret },
+      { excludeExtraneousValues: true },
+    );
+  }
+
+  async listWebhooks(): Promise<WebhookSubscriptionResponseDto[]> {
+    const subscriptions = await this.webhooks.listSubscriptions();
+    return subscriptions.map((subscription) =>
+      this.toWebhookResponseDto(subscription),
+    );
+  }
+
+  async updateWebhook(
+    subscriptionId: string,
+    adminUserId: string | number,
+    dto: UpdateWebhookSubscriptionDto,
+  ): Promise<WebhookSubscriptionResponseDto> {
+    const subscription = await this.webhooks.updateSubscription(
+      subscriptionId,
+      { url: dto.url, events: dto.events, active: dto.active },
+      adminUserId,
+    );
+    return this.toWebhookResponseDto(subscription);
+  }
+
+  async deleteWebhook(
+    subscriptionId: string,
+    adminUserId: string | number,
+  ): Promise<void> {
+    return this.webhooks.deleteSubscription(subscriptionId, adminUserId);
+  }
+
+  async listWebhookDeliveries(
+    subscriptionId: string,
+    limit: number,
+  ): Promise<WebhookDeliveryResponseDto[]> {
+    const deliveries = await this.webhooks.listDeliveries(
+      subscriptionId,
+      limit,
+    );
+    return deliveries.map((delivery) => this.toDeliveryResponseDto(delivery));
+  }
+
+  async redeliverWebhook(
+    deliveryId: string,
+  ): Promise<WebhookDeliveryResponseDto> {
+    const delivery = await this.webhooks.redeliver(deliveryId);
+    return this.toDeliveryResponseDto(delivery);
+  }
+
   /**
    * Transform domain entity to response DTO
    * SECURITY: Only expose safe fields, never internal URIs
@@ -227,12 +684,18 @@ export class DocumentProcessingService {
       {
         id: document.id,
         documentType: document.documentType,
+        declaredDocumentType: document.declaredDocumentType,
+        predictedDocumentType: document.predictedDocumentType,
+        classificationConfidence: document.classificationConfidence,
         status: document.status,
         fileName: document.fileName,
         fileSize: document.fileSize,
         mimeType: document.mimeType,
+        contentHash: document.contentHash,
+        duplicateOf: document.duplicateOf,
         description: document.description,
         confidence: document.confidence,
+        pipelineVersion: document.pipelineVersion,
         errorMessage: document.errorMessage,
         uploadedAt: document.uploadedAt,
         processedAt: document.processedAt,
@@ -242,20 +705,163 @@ export class DocumentProcessingService {
     );
   }
 
+  /**
+   * Transform grant to response DTO (owner-facing only)
+   */
+  private toGrantResponseDto(grant: DocumentGrant): DocumentGrantResponseDto {
+    return plainToClass(
+      DocumentGrantResponseDto,
+      {
+        id: grant.id,
+        documentId: grant.documentId,
+        granteeUserId: grant.granteeUserId,
+        granteeEmail: grant.granteeEmail,
+        scopes: grant.scopes,
+        expiresAt: grant.expiresAt,
+        revokedAt: grant.revokedAt,
+        lastUsedAt: grant.lastUsedAt,
+        createdAt: grant.createdAt,
+      },
+      { excludeExtraneousValues: true },
+    );
+  }
+
+  /**
+   * Transform processing run to response DTO (outputs omitted)
+   */
+  private toRunResponseDto(
+    run: DocumentProcessingRun,
+    current: boolean,
+  ): DocumentProcessingRunResponseDto {
+    return plainToClass(
+      DocumentProcessingRunResponseDto,
+      {
+        id: run.id,
+        pipelineVersion: run.pipelineVersion,
+        trigger: run.trigger,
+        status: run.status,
+        current,
+        attempts: run.attempts,
+        processingMethod: run.processingMethod,
+        confidence: run.confidence,
+        pageCount: run.pageCount,
+        fieldCount: run.extractedFields?.length,
+        durationMs: run.durationMs,
+        pagesBilled: run.pagesBilled,
+        stages: (run.stages ?? []).map((stage) =>
+          plainToClass(ProcessingStageRecordResponseDto, stage, {
+            excludeExtraneousValues: true,
+          }),
+        ),
+        errorMessage: run.errorMessage,
+        createdAt: run.createdAt,
+        startedAt: run.startedAt,
+        completedAt: run.completedAt,
+        promotedAt: run.promotedAt,
+      },
+      { excludeExtraneousValues: true },
+    );
+  }
+
+  /**
+   * Transform webhook subscription to response DTO
+   * SECURITY: The encrypted signing secret is never exposed
+   */
+  private toWebhookResponseDto(
+    subscription: WebhookSubscription,
+  ): WebhookSubscriptionResponseDto {
+    return plainToClass(
+      WebhookSubscriptionResponseDto,
+      {
+        id: subscription.id,
+        name: subscription.name,
+        url: subscription.url,
+        events: subscription.events,
+        active: subscription.active,
+        createdAt: subscription.createdAt,
+        updatedAt: subscription.updatedAt,
+      },
+      { excludeExtraneousValues: true },
+    );
+  }
+
+  /**
+   * Transform webhook delivery to response DTO (payload omitted)
+   */
+  private toDeliveryResponseDto(
+    delivery: WebhookDelivery,
+  ): WebhookDeliveryResponseDto {
+    return plainToClass(
+      WebhookDeliveryResponseDto,
+      {
+        id: delivery.id,
+        eventId: delivery.eventId,
+        eventType: delivery.eventType,
+        documentId: delivery.documentId,
+        redeliveryOf: delivery.redeliveryOf,
+        status: delivery.status,
+        attempts: delivery.attempts,
+        // Finished deliveries keep the lease of their last attempt
+        nextAttemptAt:
+          delivery.status === WebhookDeliveryStatus.PENDING
+            ? delivery.nextAttemptAt
+            : undefined,
+        lastResponseStatus: delivery.lastResponseStatus,
+        lastError: delivery.lastError,
+        attemptLog: delivery.attemptLog,
+        createdAt: delivery.createdAt,
+        deliveredAt: delivery.deliveredAt,
+      },
+      { excludeExtraneousValues: true },
+    );
+  }
+
+  /**
+   * Summarize a run for status polling: the stages of its latest attempt,
+   * without errors or billing
+   */
+  private toRunSummaryDto(run: DocumentProcessingRun): ProcessingRunSummaryDto {
+    const summary = new ProcessingRunSummaryDto();
+    summary.id = run.id;
+    summary.status = run.status;
+    summary.pipelineVersion = run.pipelineVersion;
+    summary.attempts = run.attempts;
+    summary.durationMs = run.durationMs;
+    summary.stages = (run.stages ?? [])
+      .filter((stage) => stage.attempt === run.attempts)
+      .map((stage) => ({
+        stage: stage.stage,
+        outcome: stage.outcome,
+        durationMs: stage.durationMs,
+      }));
+    return summary;
+  }
+
+  /**
+   * Transform upload session to response DTO (no file name or storage keys)
+   */
+  private toUploadSessionResponseDto(
+    session: UploadSession,
+  ): UploadSessionResponseDto {
+    return plainToClass(
+      UploadSessionResponseDto,
+      {
+        id: session.id,
+        offset: session.offset,
+        fileSize: session.fileSize,
+        maxChunkSize: this.uploadService.getMaxChunkBytes(),
+        minChunkSize: MIN_UPLOAD_CHUNK_BYTES,
+        documentId: session.documentId,
+        expiresAt: session.expiresAt,
+      },
+      { excludeExtraneousValues: true },
+    );
+  }
+
   /**
    * Calculate processing progress (0-100)
    */
   private calculateProgress(status: DocumentStatus): number {
-    const progressMap: Record<DocumentStatus, number> = {
-      [DocumentStatus.UPLOADED]: 10,
-      [DocumentStatus.STORED]: 20,
-      [DocumentStatus.QUEUED]: 30,
-      [DocumentStatus.PROCESSING]: 50,
-      [DocumentStatus.PROCESSED]: 100,
-      [DocumentStatus.FAILED]: 0,
-      [DocumentStatus.ARCHIVED]: 100,
-    };
-
-    return progressMap[status] || 0;
+    return DOCUMENT_STATUS_PROGRESS[status] || 0;
   }
 }
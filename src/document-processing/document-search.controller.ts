@@ -0,0 +1,69 @@
+import {
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Query,
+  Request,
+  UseGuards,
+} from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
+import { Throttle } from '@nestjs/throttler';
+import {
+  ApiBadRequestResponse,
+  ApiBearerAuth,
+  ApiOkResponse,
+  ApiOperation,
+  ApiTags,
+  ApiUnauthorizedResponse,
+} from '@nestjs/swagger';
+import { DocumentProcessingService } from './document-processing.service';
+import { DocumentSearchQueryDto } from './dto/document-search-query.dto';
+import { DocumentSearchResponseDto } from './dto/document-search-result.dto';
+
+/**
+ * Document Search Controller
+ *
+ * GET /documents/search: full-text search of the extracted text of the
+ * user's processed documents (see DocumentSearchDomainService).
+ *
+ * HIPAA Compliance:
+ * - JWT protected; only the caller's own documents are searched
+ * - Snippets contain PHI and are only returned to the document owner
+ * - Searches are audited (DOCUMENTS_SEARCHED) without the search terms
+ */
+@ApiTags('Documents')
+@Controller({ path: 'documents', version: '1' })
+@UseGuards(AuthGuard('jwt')) // Existing JWT + session validation
+@ApiBearerAuth()
+export class DocumentSearchController {
+  constructor(
+    private readonly documentProcessingService: DocumentProcessingService,
+  ) {}
+
+  @Get('search')
+  @HttpCode(HttpStatus.OK)
+  @Throttle({ default: { limit: 60, ttl: 60000 } }) // 60 searches per minute
+  @ApiOperation({
+    summary: 'Search Documents',
+    description:
+      "Full-text search of the authenticated user's processed documents, most relevant first, with highlighted " +
+      'snippets. Optionally filtered by document type and upload date range.',
+  })
+  @ApiOkResponse({
+    type: DocumentSearchResponseDto,
+    description: 'Matching documents',
+  })
+  @ApiBadRequestResponse({
+    description: 'Missing or invalid search terms, filters or date range',
+  })
+  @ApiUnauthorizedResponse({
+    description: 'Invalid or expired access token',
+  })
+  async searchDocuments(
+    @Request() req,
+    @Query() query: DocumentSearchQueryDto,
+  ): Promise<DocumentSearchResponseDto> {
+    return this.documentProcessingService.searchDocuments(req.user.id, query);
+  }
+}
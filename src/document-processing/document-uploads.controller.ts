@@ -0,0 +1,254 @@
+import {
+  Controller,
+  Post,
+  Get,
+  Patch,
+  Delete,
+  Param,
+  Body,
+  Request,
+  UseGuards,
+  UseInterceptors,
+  UploadedFile,
+  BadRequestException,
+  ParseUUIDPipe,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { Throttle } from '@nestjs/throttler';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiOkResponse,
+  ApiCreatedResponse,
+  ApiNoContentResponse,
+  ApiBearerAuth,
+  ApiConsumes,
+  ApiBody,
+  ApiParam,
+  ApiBadRequestResponse,
+  ApiConflictResponse,
+  ApiNotFoundResponse,
+  ApiUnauthorizedResponse,
+} from '@nestjs/swagger';
+import { DocumentProcessingService } from './document-processing.service';
+import { CreateUploadSessionDto } from './dto/create-upload-session.dto';
+import { UploadChunkDto } from './dto/upload-chunk.dto';
+import { UploadSessionResponseDto } from './dto/upload-session-response.dto';
+import { DocumentResponseDto } from './dto/document-response.dto';
+import documentProcessingConfig from './config/document-processing.config';
+import { DocumentProcessingConfig } from './config/document-processing-config.type';
+
+const maxChunkBytes =
+  (documentProcessingConfig() as DocumentProcessingConfig).uploads.chunkSizeMb *
+  1024 *
+  1024;
+
+const uploadIdParam = ApiParam({
+  name: 'uploadId',
+  type: String,
+  format: 'uuid',
+  description: 'Upload session UUID',
+});
+
+/**
+ * Resumable Document Uploads
+ *
+ * For files above the single-request limit or unreliable connections:
+ * 1. POST /documents/uploads - declare file name, type and size
+ * 2. PATCH /documents/uploads/:uploadId - send chunks in order, each with its
+ *    offset and SHA-256; after a failure, GET the session and resume at offset
+ * 3. POST /documents/uploads/:uploadId/complete - creates the document and
+ *    enqueues processing (same result as POST /documents/upload)
+ *
+ * HIPAA Compliance:
+ * - JWT protected; sessions are only visible to their owner
+ * - Responses never include file names or storage locations
+ */
+@ApiTags('Documents')
+@Controller({ path: 'documents/uploads', version: '1' })
+@UseGuards(AuthGuard('jwt')) // Existing JWT + session validation
+@ApiBearerAuth()
+export class DocumentUploadsController {
+  constructor(
+    private readonly documentProcessingService: DocumentProcessingService,
+  ) {}
+
+  @Post()
+  @Throttle({ default: { limit: 10, ttl: 60000 } }) // Same as single uploads
+  @ApiOperation({
+    summary: 'Start Resumable Upload',
+    description:
+      'Create an upload session for a large document. Send the file in chunks with PATCH, then complete the upload.',
+  })
+  @ApiCreatedResponse({
+    description: 'Upload session created',
+    type: UploadSessionResponseDto,
+  })
+  @ApiBadRequestResponse({
+    description: 'Invalid parameters or file too large',
+  })
+  @ApiUnauthorizedResponse({
+    description: 'Invalid or expired access token',
+  })
+  async createUploadSession(
+    @Request() req,
+    @Body() dto: CreateUploadSessionDto,
+  ): Promise<UploadSessionResponseDto> {
+    return this.documentProcessingService.createUploadSession(req.user.id, dto);
+  }
+
+  @Get(':uploadId')
+  @uploadIdParam
+  @ApiOperation({
+    summary: 'Get Upload Status',
+    description:
+      'Get the current offset of an upload, e.g. to resume after a dropped connection.',
+  })
+  @ApiOkResponse({
+    description: 'Upload status',
+    type: UploadSessionResponseDto,
+  })
+  @ApiUnauthorizedResponse({
+    description: 'Invalid or expired access token',
+  })
+  @ApiNotFoundResponse({
+    description: 'Upload not found or expired',
+  })
+  async getUploadSession(
+    @Request() req,
+    @Param('uploadId', ParseUUIDPipe) uploadId: string,
+  ): Promise<UploadSessionResponseDto> {
+    return this.documentProcessingService.getUploadSession(
+      uploadId,
+      req.user.id,
+    );
+  }
+
+  @Patch(':uploadId')
+  @uploadIdParam
+  // A 500 MB scan in 8 MB chunks is ~60 requests
+  @Throttle({ default: { limit: 120, ttl: 60000 } })
+  @ApiOperation({
+    summary: 'Upload Chunk',
+    description:
+      'Append the next chunk. The offset must equal the current upload offset; ' +
+      'chunks must be at least 5 MB except the last one.',
+  })
+  @ApiConsumes('multipart/form-data')
+  @ApiBody({
+    schema: {
+      type: 'object',
+      properties: {
+        chunk: {
+          type: 'string',
+          format: 'binary',
+        },
+        offset: {
+          type: 'integer',
+          minimum: 0,
+        },
+        checksum: {
+          type: 'string',
+          description: 'Hex-encoded SHA-256 of the chunk',
+        },
+      },
+      required: ['chunk', 'offset', 'checksum'],
+    },
+  })
+  @ApiOkResponse({
+    description: 'Chunk stored; returns the new offset',
+    type: UploadSessionResponseDto,
+  })
+  @ApiBadRequestResponse({
+    description: 'Checksum mismatch, invalid chunk size or parameters',
+  })
+  @ApiConflictResponse({
+    description: 'Offset mismatch or upload already completed',
+  })
+  @ApiNotFoundResponse({
+    description: 'Upload not found or expired',
+  })
+  @UseInterceptors(
+    FileInterceptor('chunk', {
+      limits: {
+        fileSize: maxChunkBytes,
+        files: 1,
+      },
+    }),
+  )
+  async appendChunk(
+    @Request() req,
+    @Param('uploadId', ParseUUIDPipe) uploadId: string,
+    @UploadedFile() chunk: Express.Multer.File,
+    @Body() dto: UploadChunkDto,
+  ): Promise<UploadSessionResponseDto> {
+    if (!chunk) {
+      throw new BadRequestException('Chunk is required');
+    }
+
+    return this.documentProcessingService.appendUploadChunk(
+      uploadId,
+      req.user.id,
+      chunk.buffer,
+      dto,
+    );
+  }
+
+  @Post(':uploadId/complete')
+  @HttpCode(HttpStatus.OK)
+  @uploadIdParam
+  @ApiOperation({
+    summary: 'Complete Resumable Upload',
+    description:
+      'Assemble the uploaded chunks, create the document and enqueue it for processing. Safe to retry.',
+  })
+  @ApiOkResponse({
+    description: 'Document created',
+    type: DocumentResponseDto,
+  })
+  @ApiBadRequestResponse({
+    description: 'Not all bytes have been uploaded',
+  })
+  @ApiConflictResponse({
+    description: 'Upload is already being completed',
+  })
+  @ApiNotFoundResponse({
+    description: 'Upload not found or expired',
+  })
+  async completeUpload(
+    @Request() req,
+    @Param('uploadId', ParseUUIDPipe) uploadId: string,
+  ): Promise<DocumentResponseDto> {
+    const document = await this.documentProcessingService.completeUpload(
+      uploadId,
+      req.user.id,
+    );
+    return this.documentProcessingService.toResponseDto(document);
+  }
+
+  @Delete(':uploadId')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @uploadIdParam
+  @ApiOperation({
+    summary: 'Abort Resumable Upload',
+    description: 'Cancel an upload and delete the chunks received so far.',
+  })
+  @ApiNoContentResponse({
+    description: 'Upload aborted',
+  })
+  @ApiConflictResponse({
+    description: 'Upload already completed',
+  })
+  @ApiNotFoundResponse({
+    description: 'Upload not found or expired',
+  })
+  async abortUpload(
+    @Request() req,
+    @Param('uploadId', ParseUUIDPipe) uploadId: string,
+  ): Promise<void> {
+    return this.documentProcessingService.abortUpload(uploadId, req.user.id);
+  }
+}
@@ -0,0 +1,260 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseUUIDPipe,
+  Patch,
+  Post,
+  Query,
+  Request,
+  UseGuards,
+} from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
+import {
+  ApiAcceptedResponse,
+  ApiBadRequestResponse,
+  ApiBearerAuth,
+  ApiCreatedResponse,
+  ApiForbiddenResponse,
+  ApiNoContentResponse,
+  ApiNotFoundResponse,
+  ApiOkResponse,
+  ApiOperation,
+  ApiParam,
+  ApiTags,
+  ApiUnauthorizedResponse,
+} from '@nestjs/swagger';
+import { Roles } from '../roles/roles.decorator';
+import { RoleEnum } from '../roles/roles.enum';
+import { RolesGuard } from '../roles/roles.guard';
+import { DocumentProcessingService } from './document-processing.service';
+import { CreateWebhookSubscriptionDto } from './dto/create-webhook-subscription.dto';
+import { UpdateWebhookSubscriptionDto } from './dto/update-webhook-subscription.dto';
+import { WebhookDeliveryListQueryDto } from './dto/webhook-delivery-list-query.dto';
+import {
+  WebhookSubscriptionCreatedResponseDto,
+  WebhookSubscriptionResponseDto,
+} from './dto/webhook-subscription-response.dto';
+import { WebhookDeliveryResponseDto } from './dto/webhook-delivery-response.dto';
+
+/**
+ * Document Webhooks Admin Controller
+ *
+ * Registers partner integrations for signed document lifecycle events
+ * (see DocumentWebhooksDomainService).
+ *
+ * HIPAA Compliance:
+ * - Admin only: webhooks receive events of every user's documents
+ * - Only HTTPS endpoints can be registered
+ * - Signing secrets are shown once, at registration
+ */
+@ApiBearerAuth()
+@Roles(RoleEnum.admin)
+@UseGuards(AuthGuard('jwt'), RolesGuard)
+@ApiTags('Documents Admin')
+@Controller({
+  path: 'admin/webhooks',
+  version: '1',
+})
+export class DocumentWebhooksAdminController {
+  constructor(
+    private readonly documentProcessingService: DocumentProcessingService,
+  ) {}
+
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({
+    summary: 'Register Webhook (Admin Only)',
+    description:
+      'Register an HTTPS endpoint for document lifecycle events. The response contains the HMAC-SHA256 ' +
+      'signing secret; it is not retrievable later.',
+  })
+  @ApiCreatedResponse({
+    type: WebhookSubscriptionCreatedResponseDto,
+    description: 'Webhook registered',
+  })
+  @ApiBadRequestResponse({
+    description: 'Invalid URL or event type',
+  })
+  @ApiUnauthorizedResponse({
+    description: 'Invalid or expired access token',
+  })
+  @ApiForbiddenResponse({
+    description: 'Insufficient permissions. Admin role required.',
+  })
+  async createWebhook(
+    @Request() req,
+    @Body() dto: CreateWebhookSubscriptionDto,
+  ): Promise<WebhookSubscriptionCreatedResponseDto> {
+    return this.documentProcessingService.createWebhook(req.user.id, dto);
+  }
+
+  @Get()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'List Webhooks (Admin Only)',
+  })
+  @ApiOkResponse({
+    type: WebhookSubscriptionResponseDto,
+    isArray: true,
+    description: 'Registered webhooks',
+  })
+  @ApiUnauthorizedResponse({
+    description: 'Invalid or expired access token',
+  })
+  @ApiForbiddenResponse({
+    description: 'Insufficient permissions. Admin role required.',
+  })
+  async listWebhooks(): Promise<WebhookSubscriptionResponseDto[]> {
+    return this.documentProcessingService.listWebhooks();
+  }
+
+  @Patch(':subscriptionId')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Update Webhook (Admin Only)',
+    description:
+      'Change the URL or events of a webhook, or pause/resume it. Pending deliveries of a paused webhook fail.',
+  })
+  @ApiParam({
+    name: 'subscriptionId',
+    type: String,
+    format: 'uuid',
+    description: 'Webhook UUID',
+  })
+  @ApiOkResponse({
+    type: WebhookSubscriptionResponseDto,
+    description: 'Webhook updated',
+  })
+  @ApiBadRequestResponse({
+    description: 'Invalid URL or event type',
+  })
+  @ApiUnauthorizedResponse({
+    description: 'Invalid or expired access token',
+  })
+  @ApiForbiddenResponse({
+    description: 'Insufficient permissions. Admin role required.',
+  })
+  @ApiNotFoundResponse({
+    description: 'Webhook not found',
+  })
+  async updateWebhook(
+    @Request() req,
+    @Param('subscriptionId', ParseUUIDPipe) subscriptionId: string,
+    @Body() dto: UpdateWebhookSubscriptionDto,
+  ): Promise<WebhookSubscriptionResponseDto> {
+    return this.documentProcessingService.updateWebhook(
+      subscriptionId,
+      req.user.id,
+      dto,
+    );
+  }
+
+  @Delete(':subscriptionId')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({
+    summary: 'Delete Webhook (Admin Only)',
+    description: 'Delete a webhook and its delivery log.',
+  })
+  @ApiParam({
+    name: 'subscriptionId',
+    type: String,
+    format: 'uuid',
+    description: 'Webhook UUID',
+  })
+  @ApiNoContentResponse({
+    description: 'Webhook deleted',
+  })
+  @ApiUnauthorizedResponse({
+    description: 'Invalid or expired access token',
+  })
+  @ApiForbiddenResponse({
+    description: 'Insufficient permissions. Admin role required.',
+  })
+  @ApiNotFoundResponse({
+    description: 'Webhook not found',
+  })
+  async deleteWebhook(
+    @Request() req,
+    @Param('subscriptionId', ParseUUIDPipe) subscriptionId: string,
+  ): Promise<void> {
+    await this.documentProcessingService.deleteWebhook(
+      subscriptionId,
+      req.user.id,
+    );
+  }
+
+  @Get(':subscriptionId/deliveries')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'List Webhook Deliveries (Admin Only)',
+    description:
+      'Delivery log of a webhook, newest first: status, attempts and the response status or error of each ' +
+      'attempt. Finished deliveries are kept for 30 days.',
+  })
+  @ApiParam({
+    name: 'subscriptionId',
+    type: String,
+    format: 'uuid',
+    description: 'Webhook UUID',
+  })
+  @ApiOkResponse({
+    type: WebhookDeliveryResponseDto,
+    isArray: true,
+    description: 'Deliveries',
+  })
+  @ApiUnauthorizedResponse({
+    description: 'Invalid or expired access token',
+  })
+  @ApiForbiddenResponse({
+    description: 'Insufficient permissions. Admin role required.',
+  })
+  @ApiNotFoundResponse({
+    description: 'Webhook not found',
+  })
+  async listDeliveries(
+    @Param('subscriptionId', ParseUUIDPipe) subscriptionId: string,
+    @Query() query: WebhookDeliveryListQueryDto,
+  ): Promise<WebhookDeliveryResponseDto[]> {
+    return this.documentProcessingService.listWebhookDeliveries(
+      subscriptionId,
+      query.limit ?? 50,
+    );
+  }
+
+  @Post('deliveries/:deliveryId/redeliver')
+  @HttpCode(HttpStatus.ACCEPTED)
+  @ApiOperation({
+    summary: 'Redeliver Webhook Event (Admin Only)',
+    description:
+      'Queue a new delivery of the same event (same event ID, so subscribers can deduplicate).',
+  })
+  @ApiParam({
+    name: 'deliveryId',
+    type: String,
+    format: 'uuid',
+    description: 'Delivery UUID',
+  })
+  @ApiAcceptedResponse({
+    type: WebhookDeliveryResponseDto,
+    description: 'Redelivery queued',
+  })
+  @ApiUnauthorizedResponse({
+    description: 'Invalid or expired access token',
+  })
+  @ApiForbiddenResponse({
+    description: 'Insufficient permissions. Admin role required.',
+  })
+  @ApiNotFoundResponse({
+    description: 'Delivery not found',
+  })
+  async redeliver(
+    @Param('deliveryId', ParseUUIDPipe) deliveryId: string,
+  ): Promise<WebhookDeliveryResponseDto> {
+    return this.documentProcessingService.redeliverWebhook(deliveryId);
+  }
+}
@@ -0,0 +1,20 @@
+import { DocumentGrantScope } from '../enums/document-grant-scope.enum';
+
+export class DocumentGrant {
+  id: string;
+  documentId: string;
+  grantedByUserId: string | number; // Document owner who created the grant
+
+  // Grantee: an existing user, or an email invite bound on first use
+  granteeUserId?: string | number;
+  granteeEmail?: string; // Stored lowercase - PII, NEVER log
+
+  scopes: DocumentGrantScope[];
+  expiresAt?: Date; // No expiry when unset
+  revokedAt?: Date;
+  lastUsedAt?: Date;
+
+  // Timestamps
+  createdAt: Date;
+  updatedAt: Date;
+}
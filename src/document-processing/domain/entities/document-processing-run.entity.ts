@@ -0,0 +1,52 @@
+import { DocumentType } from '../enums/document-type.enum';
+import { ProcessingMethod } from '../enums/processing-method.enum';
+import { ProcessingRunStatus } from '../enums/processing-run-status.enum';
+import { ProcessingRunTrigger } from '../enums/processing-run-trigger.enum';
+import { ExtractedField } from './extracted-field.entity';
+import { LabResult } from './lab-result.entity';
+import { Medication } from './medication.entity';
+import { Immunization } from './immunization.entity';
+import { ProcessingStageRecord } from './processing-stage-record.entity';
+
+export class DocumentProcessingRun {
+  id: string;
+  documentId: string;
+
+  // What ran and why
+  pipelineVersion: string; // EXTRACTION_PIPELINE_VERSION at the time of the run
+  trigger: ProcessingRunTrigger;
+  requestedByUserId?: string | number; // Owner or admin (reprocess only)
+  status: ProcessingRunStatus;
+  promoteOnSuccess: boolean; // Become the document's current results when done
+  attempts: number; // Pipeline executions, including retries
+
+  // Outputs (PHI - handle with care), kept for comparison between runs
+  documentType?: DocumentType; // Type the run extracted as (declared or corrected)
+  predictedDocumentType?: DocumentType;
+  classificationConfidence?: number;
+  processingMethod?: ProcessingMethod;
+  processedFileUri?: string; // NEVER log
+  ocrJsonOutput?: any;
+  extractedText?: string;
+  confidence?: number;
+  pageCount?: number;
+  extractedFields?: ExtractedField[]; // Snapshot, restored on promotion
+  labResults?: LabResult[]; // Lab reports only; snapshot, restored on promotion
+  medications?: Medication[]; // Prescriptions only; snapshot, restored on promotion
+  immunizations?: Immunization[]; // Immunization records only; snapshot, restored on promotion
+
+  // Per-attempt stage history and usage (no PHI)
+  stages: ProcessingStageRecord[]; // Every stage of every attempt, in order
+  durationMs?: number; // Total time spent in attempts
+  pagesBilled: number; // Total pages charged by paid OCR engines
+
+  // Error tracking
+  errorMessage?: string; // Sanitized error message
+
+  // Timestamps
+  createdAt: Date;
+  updatedAt: Date;
+  startedAt?: Date;
+  completedAt?: Date;
+  promotedAt?: Date; // Last time the run became current
+}
@@ -7,13 +7,20 @@ export class Document {
   userId: string | number;
 
   // Classification
-  documentType: DocumentType;
+  documentType: DocumentType; // Type the document is processed as
+  declaredDocumentType?: DocumentType; // Picked on upload; unset if left to the classifier
+  predictedDocumentType?: DocumentType; // Classifier prediction of the current results
+  classificationConfidence?: number; // Of the prediction (0-1)
   status: DocumentStatus;
   processingMethod?: ProcessingMethod; // How document was processed
+  currentRunId?: string; // Processing run whose results are current
+  pipelineVersion?: string; // Extraction pipeline version of the current results
 
   // File references (GCS URIs - NEVER log these)
   rawFileUri: string; // gs://bucket/raw/{userId}/{docId}.pdf
   processedFileUri?: string; // gs://bucket/processed/{userId}/{docId}.json
+  backFileUri?: string; // Insurance cards: image of the back (rawFileUri is the front)
+  backMimeType?: string;
 
   // OCR results (PHI - handle with care)
   ocrJsonOutput?: any; // Full Document AI JSON response
@@ -24,6 +31,8 @@ export class Document {
   fileName: string;
   fileSize: number; // Bytes
   mimeType: string;
+  contentHash?: string; // Hex SHA-256 of the raw file
+  duplicateOf?: string; // Earlier document of the same user with identical content
   pageCount?: number; // For processing mode selection
   description?: string; // User-provided description
 
@@ -0,0 +1,24 @@
+/**
+ * One administered vaccine dose of a vaccination card or immunization record
+ * HIPAA: every field is PHI - never log values
+ */
+export class Immunization {
+  id: string;
+  documentId: string;
+  rowIndex: number; // Order in the document
+
+  // Vaccine
+  cvxCode: string; // CDC CVX code, e.g., "115"
+  vaccineName: string; // CVX short description, e.g., "Tdap"
+  printedName: string; // As printed, e.g., "Boostrix"
+
+  // Dose
+  administeredDate?: string; // YYYY-MM-DD
+  doseNumber?: number; // In the series, e.g., 2 for "2nd Dose"
+  lotNumber?: string;
+  manufacturer?: string; // e.g., "Pfizer"
+  administeredAt?: string; // Clinic, pharmacy or provider
+
+  confidence: number; // Lower for doses below the line naming the vaccine (0-1)
+  createdAt: Date;
+}
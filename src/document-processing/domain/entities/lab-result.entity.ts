@@ -0,0 +1,30 @@
+import { LabResultFlag } from '../enums/lab-result-flag.enum';
+
+/**
+ * One analyte row of a lab report's result table
+ * HIPAA: every field is PHI - never log values
+ */
+export class LabResult {
+  id: string;
+  documentId: string;
+  rowIndex: number; // Order in the report (page by page, top to bottom)
+  pageIndex: number; // Zero-based page the row was read from
+
+  // Result
+  analyte: string; // e.g., "Hemoglobin"
+  value: string; // As printed, e.g., "14.2", "<0.01", "Negative"
+  numericValue?: number; // Parsed value, when numeric
+  unit?: string; // e.g., "g/dL"
+
+  // Reference range
+  referenceLow?: number;
+  referenceHigh?: number;
+  referenceRange?: string; // As printed, e.g., "13.0-17.0", "<200"
+  flag?: LabResultFlag;
+
+  // Context from the report header
+  specimen?: string; // e.g., "Serum"
+  collectionDate?: string; // ISO date (YYYY-MM-DD)
+
+  createdAt: Date;
+}
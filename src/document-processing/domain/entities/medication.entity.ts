@@ -0,0 +1,34 @@
+import { MedicationRoute } from '../enums/medication-route.enum';
+
+/**
+ * One medication of a prescription or medication list
+ * HIPAA: every field is PHI - never log values
+ */
+export class Medication {
+  id: string;
+  documentId: string;
+  rowIndex: number; // Order in the document
+
+  // Drug
+  drugName: string; // Canonical generic name when in the drug dictionary
+  printedName: string; // As printed, e.g., "Glucophage"
+  strength?: string; // Normalized, e.g., "500 mg", "90 mcg/act"
+  dosageForm?: string; // e.g., "tablet", "inhaler"
+
+  // Sig (directions), normalized from abbreviations
+  sig?: string; // As printed, e.g., "1 tab PO BID PRN pain"
+  dose?: string; // Amount per administration, e.g., "1 tablet", "1-2 puffs"
+  route?: MedicationRoute;
+  frequency?: string; // e.g., "twice daily", "every 6 hours"
+  timesPerDay?: number; // e.g., 2 for BID (maximum for ranges such as q4-6h)
+  intervalHours?: number; // e.g., 6 for q6h
+  asNeeded: boolean; // PRN
+  asNeededReason?: string; // e.g., "pain"
+
+  // Dispense
+  quantity?: number; // e.g., 60 for "Disp: #60"
+  refills?: number;
+
+  confidence: number; // Higher when the drug name is in the dictionary (0-1)
+  createdAt: Date;
+}
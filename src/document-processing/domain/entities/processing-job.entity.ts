@@ -0,0 +1,19 @@
+import { ProcessingJobStatus } from '../enums/processing-job-status.enum';
+
+export class ProcessingJob {
+  id: string;
+  documentId: string;
+  status: ProcessingJobStatus;
+
+  // Delivery tracking
+  attempts: number; // Number of times the job has been claimed
+  availableAt: Date; // Job is not claimable before this time
+  leasedBy?: string; // Worker ID holding the lease
+  leaseExpiresAt?: Date; // Lease (visibility timeout) expiry
+  lastError?: string; // Sanitized error from the last attempt
+
+  // Timestamps
+  createdAt: Date;
+  updatedAt: Date;
+  completedAt?: Date;
+}
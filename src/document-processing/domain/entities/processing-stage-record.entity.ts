@@ -0,0 +1,26 @@
+import { ExtractionStageName } from '../enums/extraction-stage-name.enum';
+import { ProcessingStageOutcome } from '../enums/processing-stage-outcome.enum';
+
+/**
+ * Storing the processed output and extracting structured fields,
+ * after the extraction pipeline produced a result
+ */
+export const POST_PROCESSING_STAGE = 'post-processing';
+
+export type ProcessingStageName =
+  | ExtractionStageName
+  | typeof POST_PROCESSING_STAGE;
+
+/**
+ * One stage of one attempt of a processing run (no PHI)
+ */
+export class ProcessingStageRecord {
+  attempt: number; // Run attempt the stage belongs to (1-based)
+  stage: ProcessingStageName;
+  outcome: ProcessingStageOutcome;
+  startedAt: Date;
+  durationMs: number;
+  pagesProcessed: number; // Pages read by an OCR engine (0 for other stages)
+  pagesBilled: number; // Pages charged by a paid OCR engine (0 otherwise)
+  errorMessage?: string; // Sanitized
+}
@@ -0,0 +1,30 @@
+import { DocumentType } from '../enums/document-type.enum';
+
+/**
+ * Resumable upload in progress
+ *
+ * Chunks are staged in storage as parts (named by index and SHA-256) and
+ * composed into the raw document file when the upload is completed.
+ */
+export class UploadSession {
+  id: string;
+  userId: string | number;
+
+  // Document to create on completion
+  documentType?: DocumentType; // Left to the classifier if unset
+  fileName: string; // PHI risk: may contain patient names - NEVER log
+  mimeType: string;
+  fileSize: number; // Declared total size in bytes
+  description?: string;
+
+  offset: number; // Bytes received so far
+  partNames: string[]; // Staged parts, in order
+
+  completedAt?: Date; // Set when completion starts
+  documentId?: string; // Set once the document was created
+  expiresAt: Date; // Extended on every chunk; expired sessions are deleted
+
+  // Timestamps
+  createdAt: Date;
+  updatedAt: Date;
+}
@@ -0,0 +1,47 @@
+import { DocumentEventType } from '../enums/document-event-type.enum';
+import { WebhookDeliveryStatus } from '../enums/webhook-delivery-status.enum';
+
+/**
+ * Body POSTed to subscribers
+ * HIPAA: references documents by ID only - never file names, text or fields
+ */
+export interface WebhookEventPayload {
+  id: string; // Event ID, shared by all deliveries (and redeliveries) of the event
+  type: DocumentEventType;
+  occurredAt: string; // ISO 8601
+  data: {
+    documentId: string;
+    userId: string; // Document owner
+    runId?: string; // Processing run, for processing and promotion events
+  };
+}
+
+export interface WebhookDeliveryAttempt {
+  attemptedAt: Date;
+  durationMs: number;
+  responseStatus?: number; // Missing if no response was received
+  errorMessage?: string; // Sanitized; response bodies are never stored
+}
+
+export class WebhookDelivery {
+  id: string;
+  subscriptionId: string;
+  eventId: string;
+  eventType: DocumentEventType;
+  documentId: string;
+  payload: WebhookEventPayload;
+  redeliveryOf?: string; // Delivery this one was manually redelivered from
+
+  // Delivery tracking
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  nextAttemptAt?: Date; // PENDING only
+  attemptLog: WebhookDeliveryAttempt[];
+  lastResponseStatus?: number;
+  lastError?: string;
+
+  // Timestamps
+  createdAt: Date;
+  updatedAt: Date;
+  deliveredAt?: Date;
+}
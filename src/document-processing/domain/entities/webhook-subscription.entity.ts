@@ -0,0 +1,18 @@
+import { DocumentEventType } from '../enums/document-event-type.enum';
+
+export class WebhookSubscription {
+  id: string;
+  name: string; // Client or service receiving the events, e.g. "ehr-sync"
+  url: string; // HTTPS endpoint
+  events: DocumentEventType[]; // Subset of WEBHOOK_EVENT_TYPES
+  active: boolean;
+
+  // HMAC-SHA256 signing secret, encrypted at rest - NEVER log or return
+  encryptedSecret: string;
+
+  createdByUserId?: string | number; // Admin who registered the webhook
+
+  // Timestamps
+  createdAt: Date;
+  updatedAt: Date;
+}
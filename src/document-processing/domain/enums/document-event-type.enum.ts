@@ -0,0 +1,24 @@
+/**
+ * Document audit events (mirrored in AuthEventType for the audit log)
+ */
+export enum DocumentEventType {
+  DOCUMENT_UPLOADED = 'DOCUMENT_UPLOADED',
+  DOCUMENT_UPLOAD_REJECTED = 'DOCUMENT_UPLOAD_REJECTED',
+  DOCUMENT_QUARANTINED = 'DOCUMENT_QUARANTINED',
+  DOCUMENT_PROCESSING_STARTED = 'DOCUMENT_PROCESSING_STARTED',
+  DOCUMENT_PROCESSING_COMPLETED = 'DOCUMENT_PROCESSING_COMPLETED',
+  DOCUMENT_PROCESSING_FAILED = 'DOCUMENT_PROCESSING_FAILED',
+  DOCUMENT_REPROCESS_REQUESTED = 'DOCUMENT_REPROCESS_REQUESTED',
+  DOCUMENT_RUN_PROMOTED = 'DOCUMENT_RUN_PROMOTED',
+  DOCUMENT_ACCESSED = 'DOCUMENT_ACCESSED',
+  DOCUMENTS_SEARCHED = 'DOCUMENTS_SEARCHED',
+  DOCUMENT_DELETED = 'DOCUMENT_DELETED',
+  DOCUMENT_HARD_DELETED = 'DOCUMENT_HARD_DELETED',
+  UNAUTHORIZED_DOCUMENT_ACCESS = 'UNAUTHORIZED_DOCUMENT_ACCESS',
+  DOCUMENT_GRANT_CREATED = 'DOCUMENT_GRANT_CREATED',
+  DOCUMENT_GRANT_REVOKED = 'DOCUMENT_GRANT_REVOKED',
+  DOCUMENT_GRANT_USED = 'DOCUMENT_GRANT_USED',
+  WEBHOOK_SUBSCRIPTION_CREATED = 'WEBHOOK_SUBSCRIPTION_CREATED',
+  WEBHOOK_SUBSCRIPTION_UPDATED = 'WEBHOOK_SUBSCRIPTION_UPDATED',
+  WEBHOOK_SUBSCRIPTION_DELETED = 'WEBHOOK_SUBSCRIPTION_DELETED',
+}
@@ -0,0 +1,8 @@
+/**
+ * What a document grant allows the grantee to do
+ */
+export enum DocumentGrantScope {
+  VIEW = 'view', // Metadata and processing status
+  DOWNLOAD = 'download', // Signed URL for the original file
+  FIELDS = 'fields', // Extracted fields and OCR output (PHI)
+}
@@ -5,5 +5,6 @@ export enum DocumentStatus {
   PROCESSING = 'PROCESSING', // OCR in progress
   PROCESSED = 'PROCESSED', // OCR complete
   FAILED = 'FAILED', // Processing failed
+  QUARANTINED = 'QUARANTINED', // Failed content inspection; never processed
   ARCHIVED = 'ARCHIVED', // Soft deleted by user
 }
@@ -0,0 +1,20 @@
+/**
+ * Extraction Stage Name Enum
+ *
+ * Identifiers for the registered extraction pipeline stages.
+ * Used in routing configuration (DOC_PROCESSING_PIPELINE_ROUTE_*):
+ * - PDF2JSON: Native PDF text via pdf2json
+ * - PDF_PARSE: Native PDF text via pdf-parse (resilient to XRef corruption)
+ * - PDF_DIRECT: Native PDF text via the PDF analyzer
+ * - VISION: Google Vision AI OCR
+ * - DOCUMENT_AI: Google Document AI OCR
+ * - OCR_MERGE: Merge/select OCR engine outputs into the final result
+ */
+export enum ExtractionStageName {
+  PDF2JSON = 'pdf2json',
+  PDF_PARSE = 'pdf-parse',
+  PDF_DIRECT = 'pdf-direct',
+  VISION = 'vision',
+  DOCUMENT_AI = 'document-ai',
+  OCR_MERGE = 'ocr-merge',
+}
@@ -0,0 +1,20 @@
+/**
+ * Extracted field keys of insurance cards
+ * Stable: relied on by billing integrations, never rename a value
+ */
+export enum InsuranceCardFieldKey {
+  PAYER_NAME = 'payer_name',
+  MEMBER_ID = 'member_id',
+  GROUP_NUMBER = 'group_number',
+  PLAN_TYPE = 'plan_type', // HMO, PPO, EPO, POS, HDHP, Medicare Advantage, ...
+  RX_BIN = 'rx_bin',
+  RX_PCN = 'rx_pcn',
+  RX_GROUP = 'rx_group',
+  COPAY_PRIMARY_CARE = 'copay_primary_care', // Amount, e.g. "25.00"
+  COPAY_SPECIALIST = 'copay_specialist',
+  COPAY_URGENT_CARE = 'copay_urgent_care',
+  COPAY_EMERGENCY_ROOM = 'copay_emergency_room',
+  CUSTOMER_SERVICE_PHONE = 'customer_service_phone', // e.g. "800-555-0100"
+  PROVIDER_SERVICES_PHONE = 'provider_services_phone',
+  PHARMACY_PHONE = 'pharmacy_phone',
+}
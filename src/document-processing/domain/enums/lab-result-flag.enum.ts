@@ -0,0 +1,13 @@
+/**
+ * Lab Result Flag Enum
+ *
+ * Abnormal flag of a lab result row:
+ * - HIGH: Above the reference range (printed H, or derived from the range)
+ * - LOW: Below the reference range (printed L, or derived from the range)
+ * - CRITICAL: Critical/panic value (printed HH, LL, C or "critical")
+ */
+export enum LabResultFlag {
+  HIGH = 'HIGH',
+  LOW = 'LOW',
+  CRITICAL = 'CRITICAL',
+}
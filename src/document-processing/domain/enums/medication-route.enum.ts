@@ -0,0 +1,21 @@
+/**
+ * Medication Route Enum
+ *
+ * Route of administration, normalized from sig abbreviations
+ * (PO, SL, SC/SQ, IM, IV, PR, INH, TOP, ...)
+ */
+export enum MedicationRoute {
+  ORAL = 'ORAL',
+  SUBLINGUAL = 'SUBLINGUAL',
+  TOPICAL = 'TOPICAL',
+  TRANSDERMAL = 'TRANSDERMAL',
+  INHALATION = 'INHALATION',
+  NASAL = 'NASAL',
+  OPHTHALMIC = 'OPHTHALMIC',
+  OTIC = 'OTIC',
+  SUBCUTANEOUS = 'SUBCUTANEOUS',
+  INTRAMUSCULAR = 'INTRAMUSCULAR',
+  INTRAVENOUS = 'INTRAVENOUS',
+  RECTAL = 'RECTAL',
+  VAGINAL = 'VAGINAL',
+}
@@ -0,0 +1,9 @@
+/**
+ * Extracted field keys of prescriptions (prescriber details)
+ * Medications themselves are stored as Medication rows
+ */
+export enum PrescriptionFieldKey {
+  PRESCRIBER_NAME = 'prescriber_name',
+  PRESCRIBER_DEA = 'prescriber_dea', // Checksum-validated DEA registration number
+  PRESCRIBER_NPI = 'prescriber_npi', // Luhn-validated National Provider Identifier
+}
@@ -0,0 +1,15 @@
+/**
+ * Processing Job Status Enum
+ *
+ * Lifecycle of a job in the durable processing queue:
+ * - PENDING: Waiting to be claimed (possibly delayed until availableAt)
+ * - LEASED: Claimed by a worker; re-queued if the lease expires
+ * - COMPLETED: Processing finished (or the document no longer needs it)
+ * - DEAD: Gave up - document failed permanently or exceeded max claims
+ */
+export enum ProcessingJobStatus {
+  PENDING = 'PENDING',
+  LEASED = 'LEASED',
+  COMPLETED = 'COMPLETED',
+  DEAD = 'DEAD',
+}
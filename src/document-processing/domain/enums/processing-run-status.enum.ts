@@ -0,0 +1,15 @@
+/**
+ * Processing Run Status Enum
+ *
+ * Lifecycle of a document processing run:
+ * - QUEUED: Waiting for a worker (also between retries)
+ * - RUNNING: Extraction pipeline in progress
+ * - SUCCEEDED: Outputs stored on the run (current if promoted)
+ * - FAILED: Gave up after retries
+ */
+export enum ProcessingRunStatus {
+  QUEUED = 'QUEUED',
+  RUNNING = 'RUNNING',
+  SUCCEEDED = 'SUCCEEDED',
+  FAILED = 'FAILED',
+}
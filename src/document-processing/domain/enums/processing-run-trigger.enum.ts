@@ -0,0 +1,11 @@
+/**
+ * Processing Run Trigger Enum
+ *
+ * Why a document was processed:
+ * - UPLOAD: First processing after upload
+ * - REPROCESS: Requested by the owner or an admin (e.g. after a pipeline change)
+ */
+export enum ProcessingRunTrigger {
+  UPLOAD = 'UPLOAD',
+  REPROCESS = 'REPROCESS',
+}
@@ -0,0 +1,14 @@
+/**
+ * Processing Stage Outcome Enum
+ *
+ * Outcome of one stage in one processing attempt:
+ * - SUCCEEDED: Stage ran and recorded its output
+ * - FAILED: Stage ran and threw (the pipeline fell through)
+ * - SKIPPED: Routed, but its preconditions did not hold
+ *   (e.g. OCR fallbacks after native text was found)
+ */
+export enum ProcessingStageOutcome {
+  SUCCEEDED = 'SUCCEEDED',
+  FAILED = 'FAILED',
+  SKIPPED = 'SKIPPED',
+}
@@ -0,0 +1,13 @@
+/**
+ * Webhook Delivery Status Enum
+ *
+ * Lifecycle of a webhook delivery:
+ * - PENDING: Waiting for its first attempt or a retry
+ * - SUCCEEDED: The subscriber answered with a 2xx status
+ * - FAILED: Gave up after retries (can be redelivered)
+ */
+export enum WebhookDeliveryStatus {
+  PENDING = 'PENDING',
+  SUCCEEDED = 'SUCCEEDED',
+  FAILED = 'FAILED',
+}
@@ -0,0 +1,19 @@
+import { DocumentGrant } from '../entities/document-grant.entity';
+import { NullableType } from '../../../utils/types/nullable.type';
+
+export interface DocumentGrantRepositoryPort {
+  create(grant: DocumentGrant): Promise<DocumentGrant>;
+  update(id: string, partial: Partial<DocumentGrant>): Promise<void>;
+
+  findById(id: string): Promise<NullableType<DocumentGrant>>;
+  findByDocumentId(documentId: string): Promise<DocumentGrant[]>; // Includes revoked/expired
+
+  /**
+   * Active grants (not revoked, not expired) on a document for a grantee,
+   * matched by user ID, or by invite email while the invite is still unbound
+   */
+  findActiveForGrantee(
+    documentId: string,
+    grantee: { userId: string | number; email?: string | null },
+  ): Promise<DocumentGrant[]>;
+}
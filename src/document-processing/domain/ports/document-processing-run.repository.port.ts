@@ -0,0 +1,21 @@
+import { DocumentProcessingRun } from '../entities/document-processing-run.entity';
+import { NullableType } from '../../../utils/types/nullable.type';
+
+export interface DocumentProcessingRunRepositoryPort {
+  create(run: DocumentProcessingRun): Promise<DocumentProcessingRun>;
+  update(id: string, partial: Partial<DocumentProcessingRun>): Promise<void>;
+
+  findById(id: string): Promise<NullableType<DocumentProcessingRun>>;
+  findByDocumentId(documentId: string): Promise<DocumentProcessingRun[]>; // Newest first
+
+  /**
+   * The run a worker should execute next for a document (QUEUED or RUNNING)
+   * At most one run per document is open at a time
+   */
+  findOpenByDocumentId(
+    documentId: string,
+  ): Promise<NullableType<DocumentProcessingRun>>;
+  findOpen(): Promise<DocumentProcessingRun[]>; // Crash recovery
+
+  deleteByDocumentId(documentId: string): Promise<void>;
+}
@@ -0,0 +1,33 @@
+import { DocumentStatus } from '../enums/document-status.enum';
+import { ProcessingRunStatus } from '../enums/processing-run-status.enum';
+import { ProcessingStageOutcome } from '../enums/processing-stage-outcome.enum';
+import { ProcessingStageName } from '../entities/processing-stage-record.entity';
+
+/**
+ * A document status transition or processing progress update
+ * HIPAA: IDs, statuses and counts only - never file names, text or fields
+ */
+export interface DocumentStatusEvent {
+  documentId: string;
+  userId: string; // Owner; routes the event, never sent to clients
+  status: DocumentStatus;
+  progress: number; // 0-100; of the run while one is active
+  runId?: string;
+  runStatus?: ProcessingRunStatus;
+  stage?: ProcessingStageName; // Stage that just finished
+  stageOutcome?: ProcessingStageOutcome;
+  pagesProcessed?: number; // Pages OCR'd so far in this attempt
+  occurredAt: Date;
+}
+
+export interface DocumentStatusEventsPort {
+  /**
+   * Deliver an event to subscribers on every instance
+   */
+  publish(event: DocumentStatusEvent): Promise<void>;
+
+  /**
+   * Receive all events until the returned function is called
+   */
+  subscribe(listener: (event: DocumentStatusEvent) => void): () => void;
+}
@@ -1,8 +1,39 @@
 import { Document } from '../entities/document.entity';
 import { ExtractedField } from '../entities/extracted-field.entity';
 import { DocumentStatus } from '../enums/document-status.enum';
+import { DocumentType } from '../enums/document-type.enum';
 import { NullableType } from '../../../utils/types/nullable.type';
 
+/**
+ * Selection of documents for bulk reprocessing
+ */
+export interface DocumentReprocessFilter {
+  statuses: DocumentStatus[];
+  documentType?: DocumentType;
+  userId?: string | number;
+  processedBefore?: Date;
+  pipelineVersionNot?: string; // Also matches documents without a version
+  limit: number;
+}
+
+/**
+ * Full-text search of a user's documents
+ */
+export interface DocumentSearchQuery {
+  text: string; // Web search syntax: words, "quoted phrases", or, -excluded
+  documentTypes?: DocumentType[];
+  uploadedFrom?: Date;
+  uploadedTo?: Date;
+  skip: number;
+  limit: number;
+}
+
+export interface DocumentSearchHit {
+  document: Document;
+  rank: number; // Relevance; only comparable within one search
+  snippets: string[]; // HTML-escaped excerpts, matches wrapped in <mark>
+}
+
 export interface DocumentRepositoryPort {
   // Create/Update
   save(document: Document): Promise<Document>;
@@ -23,6 +54,21 @@ export interface DocumentRepositoryPort {
     userId: string | number,
     options?: { skip?: number; limit?: number; status?: DocumentStatus[] },
   ): Promise<{ data: Document[]; total: number }>;
+  findByStatuses(statuses: DocumentStatus[]): Promise<Document[]>; // Excludes soft-deleted
+  findByContentHash(
+    userId: string | number,
+    contentHash: string,
+  ): Promise<Document[]>; // Oldest first; excludes soft-deleted
+  findDuplicatesOf(documentId: string): Promise<Document[]>; // Excludes soft-deleted
+  findForReprocessing(filter: DocumentReprocessFilter): Promise<Document[]>; // Oldest first; excludes soft-deleted
+
+  // Full-text search (documents with an index entry; excludes soft-deleted)
+  search(
+    userId: string | number,
+    query: DocumentSearchQuery,
+  ): Promise<{ data: DocumentSearchHit[]; total: number }>; // Most relevant first
+  updateSearchIndex(id: string): Promise<void>; // From the stored extracted text
+  clearSearchIndex(id: string): Promise<void>;
 
   // Cleanup
   findExpired(): Promise<Document[]>; // Where scheduledDeletionAt < now
@@ -30,6 +76,7 @@ export interface DocumentRepositoryPort {
 
   // Extracted fields
   saveExtractedFields(fields: ExtractedField[]): Promise<void>;
+  deleteExtractedFields(documentId: string): Promise<void>;
   findExtractedFieldsByDocumentId(
     documentId: string,
   ): Promise<ExtractedField[]>;
@@ -0,0 +1,46 @@
+import { OcrResult } from './ocr.service.port';
+import { DocumentType } from '../enums/document-type.enum';
+import { ExtractionStageName } from '../enums/extraction-stage-name.enum';
+import { ProcessingMethod } from '../enums/processing-method.enum';
+
+/**
+ * Mutable state shared by the stages of one pipeline run
+ */
+export interface ExtractionContext {
+  documentId: string;
+  documentType: DocumentType;
+  gcsUri: string;
+  mimeType: string;
+  pageCount?: number; // Known page count, forwarded to OCR engines
+  fileBuffer?: Buffer; // Raw file (required by native PDF text stages)
+
+  // Primary result - the first stage to set it wins
+  result?: OcrResult;
+  processingMethod?: ProcessingMethod;
+
+  // Raw OCR engine outputs, kept for comparison endpoints
+  engineOutputs: {
+    vision?: OcrResult;
+    documentAi?: OcrResult;
+  };
+
+  // Errors from stages that ran and failed (pipeline falls through)
+  stageErrors: Partial<Record<ExtractionStageName, Error>>;
+}
+
+export interface ExtractionStage {
+  readonly name: ExtractionStageName;
+
+  /**
+   * Preconditions: whether the stage applies to the current context
+   * Stages that cannot run are skipped without error
+   */
+  canRun(context: ExtractionContext): boolean;
+
+  /**
+   * Execute the stage, recording its output on the context
+   * Throwing marks the stage as failed; the pipeline falls through to
+   * the next step of the route
+   */
+  run(context: ExtractionContext): Promise<void>;
+}
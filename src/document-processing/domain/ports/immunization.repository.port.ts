@@ -0,0 +1,14 @@
+import { Immunization } from '../entities/immunization.entity';
+
+export interface ImmunizationRepositoryPort {
+  /**
+   * Replace the immunizations of a document (promotion of a run)
+   */
+  replaceForDocument(
+    documentId: string,
+    immunizations: Immunization[],
+  ): Promise<void>;
+
+  findByDocumentId(documentId: string): Promise<Immunization[]>; // By rowIndex
+  findByDocumentIds(documentIds: string[]): Promise<Immunization[]>; // By administeredDate
+}
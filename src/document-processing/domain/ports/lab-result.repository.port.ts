@@ -0,0 +1,10 @@
+import { LabResult } from '../entities/lab-result.entity';
+
+export interface LabResultRepositoryPort {
+  /**
+   * Replace the lab results of a document (promotion of a run)
+   */
+  replaceForDocument(documentId: string, results: LabResult[]): Promise<void>;
+
+  findByDocumentId(documentId: string): Promise<LabResult[]>; // By rowIndex
+}
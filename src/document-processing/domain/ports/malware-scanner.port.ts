@@ -0,0 +1,15 @@
+import { Readable } from 'stream';
+
+export interface MalwareScanResult {
+  clean: boolean;
+  signature?: string; // Name of the detected malware (never contains PHI)
+}
+
+export interface MalwareScannerPort {
+  /**
+   * Scan a file as it streams past (the file is never buffered in full)
+   * Rejects if the scanner is unavailable or cannot scan the file, so
+   * callers can fail closed
+   */
+  scan(stream: Readable): Promise<MalwareScanResult>;
+}
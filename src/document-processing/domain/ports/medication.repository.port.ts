@@ -0,0 +1,13 @@
+import { Medication } from '../entities/medication.entity';
+
+export interface MedicationRepositoryPort {
+  /**
+   * Replace the medications of a document (promotion of a run)
+   */
+  replaceForDocument(
+    documentId: string,
+    medications: Medication[],
+  ): Promise<void>;
+
+  findByDocumentId(documentId: string): Promise<Medication[]>; // By rowIndex
+}
@@ -0,0 +1,57 @@
+import { ProcessingJob } from '../entities/processing-job.entity';
+
+export interface ProcessingQueuePort {
+  /**
+   * Add a document to the queue
+   * Idempotent: returns the existing open (PENDING/LEASED) job if there is one
+   * @param availableAt - Earliest time the job may be claimed (default: now)
+   */
+  enqueue(documentId: string, availableAt?: Date): Promise<ProcessingJob>;
+
+  /**
+   * Atomically claim up to `limit` available jobs for a worker
+   * Claimed jobs are LEASED until `leaseSeconds` from now
+   */
+  claim(
+    workerId: string,
+    limit: number,
+    leaseSeconds: number,
+  ): Promise<ProcessingJob[]>;
+
+  /**
+   * Extend the lease of a job still being processed
+   * @returns false if the lease was lost (expired and re-claimed)
+   */
+  extendLease(
+    jobId: string,
+    workerId: string,
+    leaseSeconds: number,
+  ): Promise<boolean>;
+
+  /**
+   * Mark a leased job as completed
+   */
+  complete(jobId: string, workerId: string): Promise<void>;
+
+  /**
+   * Release a leased job back to the queue for a later attempt
+   */
+  reschedule(
+    jobId: string,
+    workerId: string,
+    availableAt: Date,
+    lastError?: string,
+  ): Promise<void>;
+
+  /**
+   * Dead-letter a job (no further attempts)
+   */
+  markDead(jobId: string, lastError?: string): Promise<void>;
+
+  /**
+   * Return expired leases to PENDING so another worker can claim them
+   * Used for crash recovery
+   * @returns Number of jobs re-queued
+   */
+  requeueExpiredLeases(): Promise<number>;
+}
@@ -1,3 +1,5 @@
+import { Readable } from 'stream';
+
 export interface FileMetadata {
   documentId: string;
   userId: string | number;
@@ -6,6 +8,25 @@ export interface FileMetadata {
   contentLength: number;
 }
 
+/**
+ * Signed request a client uses to upload a raw file directly to storage
+ */
+export interface SignedUpload {
+  uri: string; // Storage URI the file will have (same layout as storeRaw)
+  url: string;
+  method: 'PUT';
+  headers: Record<string, string>; // Must be sent with the upload request
+  expiresAt: Date;
+}
+
+/**
+ * Facts about a stored object, computed by reading it once
+ */
+export interface StoredObjectInfo {
+  size: number; // Bytes
+  sha256: string; // Hex
+}
+
 export interface StorageServicePort {
   /**
    * Upload raw document file to GCS
@@ -13,6 +34,18 @@ export interface StorageServicePort {
    */
   storeRaw(fileBuffer: Buffer, metadata: FileMetadata): Promise<string>;
 
+  /**
+   * Download raw document file from GCS
+   * Used by queue workers, which do not have the upload buffer
+   */
+  fetchRaw(gcsUri: string): Promise<Buffer>;
+
+  /**
+   * Open raw document file as a stream
+   * Used to scan files too large to buffer (resumable and direct uploads)
+   */
+  streamRaw(uri: string): Promise<Readable>;
+
   /**
    * Store processed JSON output to GCS
    * @returns GCS URI
@@ -30,4 +63,43 @@ export interface StorageServicePort {
    * @returns Signed URL
    */
   getSignedUrl(gcsUri: string, expiresIn?: number): Promise<string>;
+
+  /**
+   * Sign a direct upload of a raw document file (bypasses the API)
+   * @param expiresIn - Seconds until the signed request expires
+   */
+  getSignedUploadUrl(
+    metadata: FileMetadata,
+    expiresIn: number,
+  ): Promise<SignedUpload>;
+
+  /**
+   * Read a stored file to verify it (size, checksum)
+   * @returns null if the file does not exist
+   */
+  inspect(uri: string): Promise<StoredObjectInfo | null>;
+
+  /**
+   * Stage one chunk of a resumable upload (below the upload prefix)
+   */
+  storeUploadPart(
+    uploadId: string,
+    partName: string,
+    data: Buffer,
+  ): Promise<void>;
+
+  /**
+   * Concatenate staged parts into the raw document file, then delete them
+   * @returns Storage URI of the raw file (same layout as storeRaw)
+   */
+  completeUpload(
+    uploadId: string,
+    partNames: string[],
+    metadata: FileMetadata,
+  ): Promise<string>;
+
+  /**
+   * Delete all staged parts of an upload (idempotent)
+   */
+  abortUpload(uploadId: string): Promise<void>;
 }
@@ -0,0 +1,30 @@
+import { UploadSession } from '../entities/upload-session.entity';
+import { NullableType } from '../../../utils/types/nullable.type';
+
+export interface UploadSessionRepositoryPort {
+  create(session: UploadSession): Promise<UploadSession>;
+  findById(id: string): Promise<NullableType<UploadSession>>;
+  delete(id: string): Promise<void>;
+
+  /**
+   * Record a stored part if the session is still at `expectedOffset`
+   * @returns false if another chunk was recorded first
+   */
+  appendPart(
+    id: string,
+    expectedOffset: number,
+    part: { name: string; size: number },
+    expiresAt: Date,
+  ): Promise<boolean>;
+
+  /**
+   * Start completion unless already started (a start before `staleBefore`
+   * that never produced a document may be taken over)
+   * @returns false if another request is completing the upload
+   */
+  claimCompletion(id: string, staleBefore: Date): Promise<boolean>;
+  releaseCompletion(id: string): Promise<void>;
+  setDocumentId(id: string, documentId: string): Promise<void>;
+
+  findExpired(now: Date, limit: number): Promise<UploadSession[]>;
+}
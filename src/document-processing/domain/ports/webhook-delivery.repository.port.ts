@@ -0,0 +1,28 @@
+import { WebhookDelivery } from '../entities/webhook-delivery.entity';
+import { NullableType } from '../../../utils/types/nullable.type';
+
+export interface WebhookDeliveryRepositoryPort {
+  createMany(deliveries: WebhookDelivery[]): Promise<WebhookDelivery[]>;
+  update(id: string, partial: Partial<WebhookDelivery>): Promise<void>;
+
+  findById(id: string): Promise<NullableType<WebhookDelivery>>;
+  findBySubscriptionId(
+    subscriptionId: string,
+    limit: number,
+  ): Promise<WebhookDelivery[]>; // Newest first
+
+  /**
+   * Atomically claim up to `limit` PENDING deliveries that are due
+   * Claimed deliveries are pushed `leaseSeconds` into the future, so other
+   * workers skip them and a crashed worker's deliveries are retried
+   */
+  claimDue(limit: number, leaseSeconds: number): Promise<WebhookDelivery[]>;
+
+  deleteBySubscriptionId(subscriptionId: string): Promise<void>;
+
+  /**
+   * Delete SUCCEEDED and FAILED deliveries created before a date
+   * @returns Number of deliveries deleted
+   */
+  deleteFinishedBefore(date: Date): Promise<number>;
+}
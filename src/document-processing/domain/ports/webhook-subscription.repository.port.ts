@@ -0,0 +1,16 @@
+import { WebhookSubscription } from '../entities/webhook-subscription.entity';
+import { DocumentEventType } from '../enums/document-event-type.enum';
+import { NullableType } from '../../../utils/types/nullable.type';
+
+export interface WebhookSubscriptionRepositoryPort {
+  create(subscription: WebhookSubscription): Promise<WebhookSubscription>;
+  update(id: string, partial: Partial<WebhookSubscription>): Promise<void>;
+
+  findById(id: string): Promise<NullableType<WebhookSubscription>>;
+  findAll(): Promise<WebhookSubscription[]>; // Oldest first
+  findActiveByEvent(
+    eventType: DocumentEventType,
+  ): Promise<WebhookSubscription[]>;
+
+  delete(id: string): Promise<void>;
+}
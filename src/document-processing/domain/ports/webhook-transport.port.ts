@@ -0,0 +1,15 @@
+export interface WebhookRequest {
+  url: string;
+  body: string; // Exact bytes that were signed
+  headers: Record<string, string>;
+  timeoutMs: number;
+}
+
+export interface WebhookTransportPort {
+  /**
+   * POST a webhook request
+   * @returns HTTP status of the response
+   * @throws on network errors and timeouts
+   */
+  post(request: WebhookRequest): Promise<number>;
+}
@@ -0,0 +1,146 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { DocumentDeduplicationDomainService } from './document-deduplication.domain.service';
+import { DocumentRepositoryPort } from '../ports/document.repository.port';
+import { ProcessingQueuePort } from '../ports/processing-queue.port';
+import { DocumentStatus } from '../enums/document-status.enum';
+import { DocumentStatusEventsDomainService } from './document-status-events.domain.service';
+import { DomainEventBus } from '../../../domain-events/domain-event-bus.service';
+
+describe('DocumentDeduplicationDomainService', () => {
+  let service: DocumentDeduplicationDomainService;
+  let mockRepository: jest.Mocked<DocumentRepositoryPort>;
+  let mockQueue: jest.Mocked<ProcessingQueuePort>;
+
+  const upload = {
+    id: 'doc-200',
+    userId: 1,
+    contentHash: 'ab12',
+    status: DocumentStatus.UPLOADED,
+  } as any;
+
+  beforeEach(async () => {
+    mockRepository = {
+      findById: jest.fn(),
+      findByContentHash: jest.fn().mockResolvedValue([]),
+      findDuplicatesOf: jest.fn().mockResolvedValue([]),
+      findExtractedFieldsByDocumentId: jest.fn().mockResolvedValue([]),
+      saveExtractedFields: jest.fn(),
+      deleteExtractedFields: jest.fn(),
+      updateStatus: jest.fn(),
+      hardDelete: jest.fn(),
+    } as any;
+
+    mockQueue = {
+      enqueue: jest.fn(),
+    } as any;
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        DocumentDeduplicationDomainService,
+        { provide: 'DocumentRepositoryPort', useValue: mockRepository },
+        { provide: 'ProcessingQueuePort', useValue: mockQueue },
+        { provide: 'StorageServicePort', useValue: { delete: jest.fn() } },
+        {
+          provide: 'LabResultRepositoryPort',
+          useValue: {
+            findByDocumentId: jest.fn().mockResolvedValue([]),
+            replaceForDocument: jest.fn(),
+          },
+        },
+        {
+          provide: 'MedicationRepositoryPort',
+          useValue: {
+            findByDocumentId: jest.fn().mockResolvedValue([]),
+            replaceForDocument: jest.fn(),
+          },
+        },
+        {
+          provide: 'ImmunizationRepositoryPort',
+          useValue: {
+            findByDocumentId: jest.fn().mockResolvedValue([]),
+            replaceForDocument: jest.fn(),
+          },
+        },
+        {
+          provide: DocumentStatusEventsDomainService,
+          useValue: { statusChanged: jest.fn() },
+        },
+        {
+          provide: DomainEventBus,
+          useValue: {
+            publish: jest.fn(),
+            transaction: jest.fn((work) => work()),
+          },
+        },
+        {
+          provide: ConfigService,
+          useValue: { getOrThrow: jest.fn().mockReturnValue('link') },
+        },
+      ],
+    }).compile();
+
+    service = module.get(DocumentDeduplicationDomainService);
+  });
+
+  it('should prefer an original over a linked duplicate and ignore failed documents', async () => {
+    mockRepository.findByContentHash.mockResolvedValue([
+      { id: 'doc-050', status: DocumentStatus.FAILED },
+      { id: 'doc-100', status: DocumentStatus.PROCESSED, duplicateOf: 'x' },
+      { id: 'doc-150', status: DocumentStatus.PROCESSING },
+      upload,
+    ] as any);
+
+    const original = await service.findOriginal(upload);
+
+    expect(mockRepository.findByContentHash).toHaveBeenCalledWith(1, 'ab12');
+    expect(original?.id).toBe('doc-150');
+  });
+
+  it('should copy results and extracted fields into a duplicate', async () => {
+    const original = {
+      id: 'doc-100',
+      status: DocumentStatus.PROCESSED,
+      extractedText: 'text',
+      confidence: 0.97,
+      pageCount: 2,
+      processedFileUri: 'gs://bucket/processed/1/doc-100.json',
+    } as any;
+    mockRepository.findExtractedFieldsByDocumentId.mockResolvedValue([
+      { id: 'field-1', documentId: 'doc-100', fieldKey: 'patient_name' },
+    ] as any);
+
+    await service.copyResults(original, { ...upload });
+
+    // Replaced, so a second copy of the same results does not add fields
+    expect(mockRepository.deleteExtractedFields).toHaveBeenCalledWith(
+      'doc-200',
+    );
+    expect(mockRepository.saveExtractedFields).toHaveBeenCalledWith([
+      expect.objectContaining({
+        id: undefined,
+        documentId: 'doc-200',
+        fieldKey: 'patient_name',
+      }),
+    ]);
+    const fields = mockRepository.updateStatus.mock.calls[0][2];
+    expect(mockRepository.updateStatus).toHaveBeenCalledWith(
+      'doc-200',
+      DocumentStatus.PROCESSED,
+      expect.objectContaining({ extractedText: 'text', confidence: 0.97 }),
+    );
+    expect(fields).not.toHaveProperty('processedFileUri');
+  });
+
+  it('should queue waiting duplicates when the original fails', async () => {
+    mockRepository.findDuplicatesOf.mockResolvedValue([
+      { id: 'doc-200', status: DocumentStatus.QUEUED },
+      { id: 'doc-300', status: DocumentStatus.PROCESSED },
+    ] as any);
+
+    await service.onOriginalFailed('doc-100');
+
+    expect(mockQueue.enqueue).toHaveBeenCalledTimes(1);
+    expect(mockQueue.enqueue).toHaveBeenCalledWith('doc-200');
+  });
+});
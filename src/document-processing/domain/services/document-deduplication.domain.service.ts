@@ -0,0 +1,252 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { DocumentRepositoryPort } from '../ports/document.repository.port';
+import { LabResultRepositoryPort } from '../ports/lab-result.repository.port';
+import { MedicationRepositoryPort } from '../ports/medication.repository.port';
+import { ImmunizationRepositoryPort } from '../ports/immunization.repository.port';
+import { ProcessingQueuePort } from '../ports/processing-queue.port';
+import { StorageServicePort } from '../ports/storage.service.port';
+import { Document } from '../entities/document.entity';
+import { ExtractedField } from '../entities/extracted-field.entity';
+import { LabResult } from '../entities/lab-result.entity';
+import { Medication } from '../entities/medication.entity';
+import { Immunization } from '../entities/immunization.entity';
+import { DocumentStatus } from '../enums/document-status.enum';
+import { DuplicateUploadPolicy } from '../../config/document-processing-config.type';
+import { AllConfigType } from '../../../config/config.type';
+import { DomainEventBus } from '../../../domain-events/domain-event-bus.service';
+import { DomainEventName } from '../../../domain-events/domain/domain-event';
+import { DocumentStatusEventsDomainService } from './document-status-events.domain.service';
+
+// Documents whose results are (or will be) available to share
+const REUSABLE_STATUSES = [
+  DocumentStatus.STORED,
+  DocumentStatus.QUEUED,
+  DocumentStatus.PROCESSING,
+  DocumentStatus.PROCESSED,
+];
+
+/**
+ * Domain Service for Content-Hash Deduplication
+ *
+ * Users often upload the same file again. When a new upload has the same
+ * SHA-256 as one of the user's earlier documents, the OCR engines are not run
+ * again: depending on DOC_PROCESSING_UPLOAD_DUPLICATE_POLICY the upload is
+ * discarded in favour of the existing document, or the new document is linked
+ * to it (duplicateOf) and receives a copy of its results.
+ *
+ * A duplicate of a document still being processed waits in QUEUED until the
+ * original completes (its queue job finds the original in flight and leaves
+ * it); if the original fails, waiting duplicates are queued and processed on
+ * their own.
+ *
+ * HIPAA Compliance:
+ * - Only documents of the same user are ever matched
+ * - Results are copied, never shared, so each document keeps its own
+ *   retention and deletion lifecycle
+ */
+@Injectable()
+export class DocumentDeduplicationDomainService {
+  private readonly logger = new Logger(DocumentDeduplicationDomainService.name);
+
+  constructor(
+    @Inject('DocumentRepositoryPort')
+    private readonly documentRepository: DocumentRepositoryPort,
+    @Inject('ProcessingQueuePort')
+    private readonly processingQueue: ProcessingQueuePort,
+    @Inject('StorageServicePort')
+    private readonly storageService: StorageServicePort,
+    @Inject('LabResultRepositoryPort')
+    private readonly labResultRepository: LabResultRepositoryPort,
+    @Inject('MedicationRepositoryPort')
+    private readonly medicationRepository: MedicationRepositoryPort,
+    @Inject('ImmunizationRepositoryPort')
+    private readonly immunizationRepository: ImmunizationRepositoryPort,
+    private readonly statusEvents: DocumentStatusEventsDomainService,
+    private readonly eventBus: DomainEventBus,
+    private readonly configService: ConfigService<AllConfigType>,
+  ) {}
+
+  get policy(): DuplicateUploadPolicy {
+    return this.configService.getOrThrow(
+      'documentProcessing.uploads.duplicatePolicy',
+      { infer: true },
+    );
+  }
+
+  /**
+   * Find the earlier document a new upload duplicates
+   * Prefers documents that were processed themselves over linked duplicates
+   */
+  async findOriginal(document: Document): Promise<Document | undefined> {
+    if (!document.contentHash) {
+      return undefined;
+    }
+
+    const candidates = (
+      await this.documentRepository.findByContentHash(
+        document.userId,
+        document.contentHash,
+      )
+    ).filter(
+      (candidate) =>
+        candidate.id !== document.id &&
+        REUSABLE_STATUSES.includes(candidate.status),
+    );
+
+    return (
+      candidates.find((candidate) => !candidate.duplicateOf) ??
+      candidates.find(
+        (candidate) => candidate.status === DocumentStatus.PROCESSED,
+      )
+    );
+  }
+
+  /**
+   * Delete a new upload in favour of the earlier document (return-existing)
+   * The discarded record was never visible outside the upload request
+   */
+  async discardUpload(
+    duplicate: Document,
+    rawFileUri: string,
+    original: Document,
+  ): Promise<void> {
+    await this.storageService.delete(rawFileUri);
+    if (duplicate.backFileUri) {
+      await this.storageService.delete(duplicate.backFileUri);
+    }
+    await this.documentRepository.hardDelete(duplicate.id);
+
+    this.logger.log(
+      `[DEDUP] Discarded upload ${duplicate.id}; returning existing document ${original.id}`,
+    );
+  }
+
+  /**
+   * Copy the processing results of the original into a duplicate
+   * and mark the duplicate PROCESSED
+   */
+  async copyResults(original: Document, duplicate: Document): Promise<void> {
+    const fields =
+      await this.documentRepository.findExtractedFieldsByDocumentId(
+        original.id,
+      );
+    const labResults = await this.labResultRepository.findByDocumentId(
+      original.id,
+    );
+    const medications = await this.medicationRepository.findByDocumentId(
+      original.id,
+    );
+    const immunizations = await this.immunizationRepository.findByDocumentId(
+      original.id,
+    );
+
+    await this.eventBus.transaction(async () => {
+      // Replaced, not appended: the duplicate's job and onOriginalProcessed
+      // may both copy the results
+      await this.documentRepository.deleteExtractedFields(duplicate.id);
+      if (fields.length > 0) {
+        await this.documentRepository.saveExtractedFields(
+          fields.map((field) =>
+            Object.assign(new ExtractedField(), field, {
+              id: undefined,
+              documentId: duplicate.id,
+            }),
+          ),
+        );
+      }
+      if (labResults.length > 0) {
+        await this.labResultRepository.replaceForDocument(
+          duplicate.id,
+          labResults.map((result) =>
+            Object.assign(new LabResult(), result, { id: undefined }),
+          ),
+        );
+      }
+      if (medications.length > 0) {
+        await this.medicationRepository.replaceForDocument(
+          duplicate.id,
+          medications.map((medication) =>
+            Object.assign(new Medication(), medication, { id: undefined }),
+          ),
+        );
+      }
+      if (immunizations.length > 0) {
+        await this.immunizationRepository.replaceForDocument(
+          duplicate.id,
+          immunizations.map((immunization) =>
+            Object.assign(new Immunization(), immunization, { id: undefined }),
+          ),
+        );
+      }
+
+      // processedFileUri is not copied: the stored output belongs to the original
+      // The type is copied too: the results were extracted as the original's type
+      await this.documentRepository.updateStatus(
+        duplicate.id,
+        DocumentStatus.PROCESSED,
+        {
+          documentType: original.documentType,
+          predictedDocumentType: original.predictedDocumentType,
+          classificationConfidence: original.classificationConfidence,
+          ocrJsonOutput: original.ocrJsonOutput,
+          extractedText: original.extractedText,
+          confidence: original.confidence,
+          pageCount: original.pageCount,
+          processingMethod: original.processingMethod,
+          pipelineVersion: original.pipelineVersion,
+          processedAt: new Date(),
+        },
+      );
+
+      await this.eventBus.publish(DomainEventName.DOCUMENT_PROCESSED, {
+        documentId: duplicate.id,
+        userId: duplicate.userId,
+        entitiesCount: fields.length,
+        duplicateOf: original.id,
+      });
+    });
+    duplicate.status = DocumentStatus.PROCESSED;
+    await this.statusEvents.statusChanged(duplicate, DocumentStatus.PROCESSED);
+
+    this.logger.log(
+      `[DEDUP] Document ${duplicate.id} reused results of document ${original.id}`,
+    );
+  }
+
+  /**
+   * Hand the results of a processed document to the duplicates waiting on it
+   */
+  async onOriginalProcessed(documentId: string): Promise<void> {
+    const waiting = await this.findWaitingDuplicates(documentId);
+    if (waiting.length === 0) return;
+
+    const original = await this.documentRepository.findById(documentId);
+    if (!original) return;
+
+    for (const duplicate of waiting) {
+      await this.copyResults(original, duplicate);
+    }
+  }
+
+  /**
+   * Queue the duplicates waiting on a document that failed, so they are
+   * processed on their own
+   */
+  async onOriginalFailed(documentId: string): Promise<void> {
+    for (const duplicate of await this.findWaitingDuplicates(documentId)) {
+      await this.processingQueue.enqueue(duplicate.id);
+      this.logger.log(
+        `[DEDUP] Original ${documentId} failed; processing document ${duplicate.id} on its own`,
+      );
+    }
+  }
+
+  private async findWaitingDuplicates(documentId: string): Promise<Document[]> {
+    const duplicates =
+      await this.documentRepository.findDuplicatesOf(documentId);
+    return duplicates.filter(
+      (duplicate) => duplicate.status === DocumentStatus.QUEUED,
+    );
+  }
+}
@@ -0,0 +1,147 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  BadRequestException,
+  ServiceUnavailableException,
+} from '@nestjs/common';
+import { Readable } from 'stream';
+import { DocumentInspectionDomainService } from './document-inspection.domain.service';
+import { DocumentRepositoryPort } from '../ports/document.repository.port';
+import { StorageServicePort } from '../ports/storage.service.port';
+import { MalwareScannerPort } from '../ports/malware-scanner.port';
+import { DocumentStatus } from '../enums/document-status.enum';
+import { NoopScannerAdapter } from '../../infrastructure/malware-scanner/noop-scanner.adapter';
+import { DocumentAuditSubscriber } from '../../subscribers/document-audit.subscriber';
+import { DomainEventBus } from '../../../domain-events/domain-event-bus.service';
+import { DomainEventsDriver } from '../../../domain-events/config/domain-events-config.type';
+import { AuditService } from '../../../audit/audit.service';
+
+describe('DocumentInspectionDomainService', () => {
+  let service: DocumentInspectionDomainService;
+  let mockRepository: jest.Mocked<DocumentRepositoryPort>;
+  let mockStorage: jest.Mocked<StorageServicePort>;
+  let scanner: MalwareScannerPort;
+  let mockAudit: jest.Mocked<AuditService>;
+  let document: any;
+
+  const pdf = Buffer.from('%PDF-1.7\n1 0 obj\n<< /Type /Catalog >>\n');
+  const rawFileUri = 'gs://bucket/raw/1/doc-123_scan.pdf';
+
+  beforeEach(async () => {
+    mockRepository = {
+      updateStatus: jest.fn(),
+    } as any;
+
+    mockStorage = {
+      streamRaw: jest.fn(),
+    } as any;
+
+    scanner = new NoopScannerAdapter();
+
+    mockAudit = {
+      record: jest.fn(),
+    } as any;
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        DocumentInspectionDomainService,
+        { provide: 'DocumentRepositoryPort', useValue: mockRepository },
+        { provide: 'StorageServicePort', useValue: mockStorage },
+        { provide: 'MalwareScannerPort', useValue: scanner },
+        {
+          provide: DomainEventBus,
+          useValue: new DomainEventBus(
+            {} as any,
+            {
+              getOrThrow: () => ({ driver: DomainEventsDriver.MEMORY }),
+            } as any,
+            { atomic: false, run: (work) => work() },
+          ),
+        },
+        DocumentAuditSubscriber,
+        { provide: AuditService, useValue: mockAudit },
+      ],
+    }).compile();
+    await module.init(); // Registers the audit subscriber
+
+    service = module.get(DocumentInspectionDomainService);
+
+    document = {
+      id: 'doc-123',
+      userId: 1,
+      status: DocumentStatus.UPLOADED,
+      mimeType: 'application/pdf',
+    };
+  });
+
+  it('should pass a file whose content matches the declared type', async () => {
+    await service.assertSafeToProcess(document, rawFileUri, pdf);
+
+    expect(mockRepository.updateStatus).not.toHaveBeenCalled();
+    expect(mockStorage.streamRaw).not.toHaveBeenCalled();
+  });
+
+  it('should quarantine an executable declared as a PDF', async () => {
+    const executable = Buffer.concat([Buffer.from('MZ\x90\0'), pdf]);
+
+    await expect(
+      service.assertSafeToProcess(document, rawFileUri, executable),
+    ).rejects.toThrow(BadRequestException);
+    expect(mockRepository.updateStatus).toHaveBeenCalledWith(
+      'doc-123',
+      DocumentStatus.QUARANTINED,
+      expect.objectContaining({ rawFileUri }),
+    );
+    expect(mockAudit.record).toHaveBeenCalledWith(
+      expect.objectContaining({
+        success: false,
+        metadata: expect.objectContaining({ reason: 'type_mismatch' }),
+      }),
+    );
+  });
+
+  it('should reject password-protected PDFs with a clear error', async () => {
+    // Split so the marker straddles two chunks
+    const encrypted = Buffer.from(
+      '%PDF-1.7\ntrailer\n<< /Root 1 0 R /Encrypt 5 0 R >>\n',
+    );
+    const split = encrypted.indexOf('/Encrypt') + 3;
+    mockStorage.streamRaw.mockResolvedValue(
+      Readable.from([encrypted.subarray(0, split), encrypted.subarray(split)]),
+    );
+
+    await expect(
+      service.assertSafeToProcess(document, rawFileUri),
+    ).rejects.toThrow('password-protected PDFs are not supported');
+    expect(mockStorage.streamRaw).toHaveBeenCalledWith(rawFileUri);
+  });
+
+  it('should quarantine files the scanner flags as malware', async () => {
+    jest.spyOn(scanner, 'scan').mockImplementation(async (stream) => {
+      await new NoopScannerAdapter().scan(stream); // Consume the file
+      return { clean: false, signature: 'Eicar-Test-Signature' };
+    });
+
+    await expect(
+      service.assertSafeToProcess(document, rawFileUri, pdf),
+    ).rejects.toThrow('malware detected');
+    expect(mockAudit.record).toHaveBeenCalledWith(
+      expect.objectContaining({
+        metadata: expect.objectContaining({
+          reason: 'malware',
+          signature: 'Eicar-Test-Signature',
+        }),
+      }),
+    );
+  });
+
+  it('should fail closed when the scanner is unavailable', async () => {
+    jest
+      .spyOn(scanner, 'scan')
+      .mockRejectedValue(new Error('connect ECONNREFUSED'));
+
+    await expect(
+      service.assertSafeToProcess(document, rawFileUri, pdf),
+    ).rejects.toThrow(ServiceUnavailableException);
+    expect(mockRepository.updateStatus).not.toHaveBeenCalled();
+  });
+});
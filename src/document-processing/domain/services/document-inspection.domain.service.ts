@@ -0,0 +1,238 @@
+import {
+  BadRequestException,
+  Inject,
+  Injectable,
+  Logger,
+  ServiceUnavailableException,
+} from '@nestjs/common';
+import { createHash } from 'crypto';
+import { pipeline, Readable, Transform } from 'stream';
+import { DocumentRepositoryPort } from '../ports/document.repository.port';
+import { StorageServicePort } from '../ports/storage.service.port';
+import {
+  MalwareScannerPort,
+  MalwareScanResult,
+} from '../ports/malware-scanner.port';
+import { Document } from '../entities/document.entity';
+import { DocumentStatus } from '../enums/document-status.enum';
+import { DomainEventBus } from '../../../domain-events/domain-event-bus.service';
+import { DomainEventName } from '../../../domain-events/domain/domain-event';
+import { MIME_SNIFF_BYTES, sniffMimeType } from '../../utils/mime-sniffer';
+import { sanitizeError } from '../../utils/ocr-serialization';
+
+// Trailer key present in every encrypted PDF (kept across chunk boundaries)
+const PDF_ENCRYPT_MARKER = Buffer.from('/Encrypt');
+
+interface ContentInspection extends MalwareScanResult {
+  sha256: string; // Hex
+  mimeType?: string; // Sniffed from the leading bytes
+  encryptedPdf: boolean;
+}
+
+interface InspectionProblem {
+  reason: 'malware' | 'type_mismatch' | 'encrypted_pdf';
+  message: string; // Safe to return to the client
+}
+
+/**
+ * Domain Service for Content Inspection
+ *
+ * Gate every raw file must pass before it leaves UPLOADED: the client-declared
+ * MIME type is checked against the file's magic bytes, password-protected PDFs
+ * are rejected (OCR engines cannot read them), and the file is scanned for
+ * malware. All checks share a single streamed read of the file, which also
+ * yields the content hash used for deduplication.
+ *
+ * Files that fail are QUARANTINED: never processed or downloadable, and kept
+ * in storage for security review until retention cleanup.
+ *
+ * HIPAA Compliance:
+ * - Fails closed: if the scanner is unavailable the document stays UPLOADED
+ * - Quarantines are audited (DOCUMENT_QUARANTINED); file content is never logged
+ */
+@Injectable()
+export class DocumentInspectionDomainService {
+  private readonly logger = new Logger(DocumentInspectionDomainService.name);
+
+  constructor(
+    @Inject('DocumentRepositoryPort')
+    private readonly documentRepository: DocumentRepositoryPort,
+    @Inject('StorageServicePort')
+    private readonly storageService: StorageServicePort,
+    @Inject('MalwareScannerPort')
+    private readonly malwareScanner: MalwareScannerPort,
+    private readonly eventBus: DomainEventBus,
+  ) {}
+
+  /**
+   * Inspect a stored raw file, quarantining the document if it fails
+   * @param fileBuffer - The file, if still in memory (avoids a storage read)
+   * @returns Hex SHA-256 of the file
+   * @throws BadRequestException if the document was quarantined
+   * @throws ServiceUnavailableException if the file could not be inspected
+   */
+  async assertSafeToProcess(
+    document: Document,
+    rawFileUri: string,
+    fileBuffer?: Buffer,
+  ): Promise<string> {
+    const inspection = await this.inspect(document, rawFileUri, fileBuffer);
+
+    const problem = this.findProblem(document.mimeType, inspection);
+    if (problem) {
+      await this.quarantine(document, problem, inspection, document.mimeType, {
+        rawFileUri,
+      });
+      throw new BadRequestException(problem.message);
+    }
+
+    return inspection.sha256;
+  }
+
+  /**
+   * Inspect the stored back image of a two-sided insurance card against its
+   * own declared type, quarantining the document if it fails
+   * @returns Hex SHA-256 of the back image
+   * @throws BadRequestException if the document was quarantined
+   * @throws ServiceUnavailableException if the file could not be inspected
+   */
+  async assertBackSafeToProcess(
+    document: Document,
+    fileBuffer?: Buffer,
+  ): Promise<string> {
+    const backFileUri = document.backFileUri as string;
+    const declaredMimeType = document.backMimeType ?? document.mimeType;
+    const inspection = await this.inspect(document, backFileUri, fileBuffer);
+
+    const problem = this.findProblem(declaredMimeType, inspection);
+    if (problem) {
+      await this.quarantine(document, problem, inspection, declaredMimeType);
+      throw new BadRequestException(problem.message);
+    }
+
+    return inspection.sha256;
+  }
+
+  private async inspect(
+    document: Document,
+    uri: string,
+    fileBuffer?: Buffer,
+  ): Promise<ContentInspection> {
+    try {
+      const source = fileBuffer
+        ? Readable.from([fileBuffer])
+        : await this.storageService.streamRaw(uri);
+      return await this.inspectContent(source);
+    } catch (error) {
+      this.logger.error(
+        `[INSPECTION] Could not inspect document ${document.id}: ${sanitizeError(error)}`,
+      );
+      throw new ServiceUnavailableException(
+        'Document could not be scanned. Please try again later.',
+      );
+    }
+  }
+
+  /**
+   * Read the file once, hashing it, sniffing its type and looking for PDF
+   * encryption while the scanner consumes it
+   */
+  private async inspectContent(source: Readable): Promise<ContentInspection> {
+    const hash = createHash('sha256');
+    const headerChunks: Buffer[] = [];
+    let headerLength = 0;
+    let tail = Buffer.alloc(0);
+    let encryptedPdf = false;
+
+    const inspector = new Transform({
+      transform: (chunk: Buffer, _encoding, callback) => {
+        hash.update(chunk);
+
+        if (headerLength < MIME_SNIFF_BYTES) {
+          const needed = chunk.subarray(0, MIME_SNIFF_BYTES - headerLength);
+          headerChunks.push(needed);
+          headerLength += needed.length;
+        }
+
+        if (!encryptedPdf) {
+          const window = Buffer.concat([tail, chunk]);
+          encryptedPdf = window.includes(PDF_ENCRYPT_MARKER);
+          tail = window.subarray(-(PDF_ENCRYPT_MARKER.length - 1));
+        }
+
+        callback(null, chunk);
+      },
+    });
+
+    // Read errors destroy the inspector, which fails the scan
+    pipeline(source, inspector, () => undefined);
+    const scan = await this.malwareScanner.scan(inspector);
+
+    return {
+      ...scan,
+      sha256: hash.digest('hex'),
+      mimeType: sniffMimeType(Buffer.concat(headerChunks)),
+      encryptedPdf,
+    };
+  }
+
+  private findProblem(
+    declaredMimeType: string,
+    inspection: ContentInspection,
+  ): InspectionProblem | undefined {
+    if (!inspection.clean) {
+      return {
+        reason: 'malware',
+        message: 'File rejected: malware detected',
+      };
+    }
+    if (inspection.mimeType !== declaredMimeType) {
+      return {
+        reason: 'type_mismatch',
+        message: 'File rejected: content does not match the declared type',
+      };
+    }
+    if (inspection.mimeType === 'application/pdf' && inspection.encryptedPdf) {
+      return {
+        reason: 'encrypted_pdf',
+        message:
+          'File rejected: password-protected PDFs are not supported. Remove the password and upload the file again.',
+      };
+    }
+    return undefined;
+  }
+
+  /**
+   * @param fields - Recorded with the status (the URI of the inspected file)
+   */
+  private async quarantine(
+    document: Document,
+    problem: InspectionProblem,
+    inspection: ContentInspection,
+    declaredMimeType: string,
+    fields: Partial<Document> = {},
+  ): Promise<void> {
+    await this.documentRepository.updateStatus(
+      document.id,
+      DocumentStatus.QUARANTINED,
+      { ...fields, errorMessage: problem.message },
+    );
+    Object.assign(document, fields);
+    document.status = DocumentStatus.QUARANTINED;
+    document.errorMessage = problem.message;
+
+    await this.eventBus.publish(DomainEventName.DOCUMENT_QUARANTINED, {
+      documentId: document.id,
+      userId: document.userId,
+      reason: problem.reason,
+      errorMessage: problem.message,
+      declaredMimeType,
+      detectedMimeType: inspection.mimeType,
+      signature: inspection.signature,
+    });
+
+    this.logger.warn(
+      `[INSPECTION] Document ${document.id} quarantined (${problem.reason})`,
+    );
+  }
+}
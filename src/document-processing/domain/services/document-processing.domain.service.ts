@@ -1,4 +1,5 @@
 import {
+  BadRequestException,
   Injectable,
   Logger,
   NotFoundException,
@@ -8,37 +9,120 @@ import {
 } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { Cron, CronExpression } from '@nestjs/schedule';
+import { createHash } from 'crypto';
 import { DocumentRepositoryPort } from '../ports/document.repository.port';
-import { StorageServicePort } from '../ports/storage.service.port';
-import { OcrServicePort } from '../ports/ocr.service.port';
+import {
+  FileMetadata,
+  StorageServicePort,
+} from '../ports/storage.service.port';
+import { ProcessingQueuePort } from '../ports/processing-queue.port';
+import { LabResultRepositoryPort } from '../ports/lab-result.repository.port';
+import { MedicationRepositoryPort } from '../ports/medication.repository.port';
+import { ImmunizationRepositoryPort } from '../ports/immunization.repository.port';
+import { OcrResult, OcrServicePort } from '../ports/ocr.service.port';
 import { Document } from '../entities/document.entity';
 import { ExtractedField } from '../entities/extracted-field.entity';
+import { LabResult } from '../entities/lab-result.entity';
+import { Medication } from '../entities/medication.entity';
+import { Immunization } from '../entities/immunization.entity';
+import { DocumentProcessingRun } from '../entities/document-processing-run.entity';
+import { POST_PROCESSING_STAGE } from '../entities/processing-stage-record.entity';
 import { DocumentStatus } from '../enums/document-status.enum';
 import { DocumentType } from '../enums/document-type.enum';
 import { ProcessingMethod } from '../enums/processing-method.enum';
+import { DocumentEventType } from '../enums/document-event-type.enum';
+import { DocumentGrantScope } from '../enums/document-grant-scope.enum';
+import { ProcessingRunTrigger } from '../enums/processing-run-trigger.enum';
+import { ProcessingStageOutcome } from '../enums/processing-stage-outcome.enum';
+import {
+  DocumentProcessingConfig,
+  DuplicateUploadPolicy,
+} from '../../config/document-processing-config.type';
 import { AllConfigType } from '../../../config/config.type';
 import { AuditService } from '../../../audit/audit.service';
-import { extractEntitiesFromText } from '../../utils/text-entity-extractor';
-import { Pdf2JsonService } from '../../infrastructure/pdf-extraction/pdf2json.service';
-import { OcrMergeService } from '../../utils/ocr-merge.service';
+import { DomainEventBus } from '../../../domain-events/domain-event-bus.service';
+import { DomainEventName } from '../../../domain-events/domain/domain-event';
+import { AccessLogEntryDto } from '../../../audit/dto/access-log-entry.dto';
+import { IPaginationOptions } from '../../../utils/types/pagination-options';
 import { OcrPostProcessorService } from '../../utils/ocr-post-processor.service';
+import { extractLabResults } from '../../utils/lab-result-table-parser';
+import {
+  extractInsuranceCardFields,
+  mergeCardSides,
+} from '../../utils/insurance-card-extractor';
+import {
+  extractMedications,
+  extractPrescriberFields,
+} from '../../utils/medication-parser';
+import { extractImmunizations } from '../../utils/immunization-extractor';
+import { classifyDocumentType } from '../../utils/document-type-classifier';
+import {
+  sanitizeError,
+  sanitizeFullResponse,
+} from '../../utils/ocr-serialization';
+import {
+  ExtractionPipelineService,
+  ExtractionStageRecord,
+} from './extraction-pipeline.service';
+import { DocumentSharingDomainService } from './document-sharing.domain.service';
+import { DocumentInspectionDomainService } from './document-inspection.domain.service';
+import { DocumentDeduplicationDomainService } from './document-deduplication.domain.service';
+import {
+  DocumentReprocessingDomainService,
+  ProcessingRunOutputs,
+} from './document-reprocessing.domain.service';
+import { DocumentStatusEventsDomainService } from './document-status-events.domain.service';
+
+export { DocumentEventType };
 
-// Use require for pdf-parse (CommonJS module)
-// pdf-parse exports { PDFParse } as a named export
-// eslint-disable-next-line @typescript-eslint/no-require-imports
-const { PDFParse: pdfParse } = require('pdf-parse');
-
-export enum DocumentEventType {
-  DOCUMENT_UPLOADED = 'DOCUMENT_UPLOADED',
-  DOCUMENT_PROCESSING_STARTED = 'DOCUMENT_PROCESSING_STARTED',
-  DOCUMENT_PROCESSING_COMPLETED = 'DOCUMENT_PROCESSING_COMPLETED',
-  DOCUMENT_PROCESSING_FAILED = 'DOCUMENT_PROCESSING_FAILED',
-  DOCUMENT_ACCESSED = 'DOCUMENT_ACCESSED',
-  DOCUMENT_DELETED = 'DOCUMENT_DELETED',
-  DOCUMENT_HARD_DELETED = 'DOCUMENT_HARD_DELETED',
-  UNAUTHORIZED_DOCUMENT_ACCESS = 'UNAUTHORIZED_DOCUMENT_ACCESS',
+/**
+ * Result of a single processing attempt, reported back to the queue worker
+ */
+export type ProcessingOutcome =
+  | { outcome: 'completed' }
+  | { outcome: 'retry'; retryAt: Date; error: string }
+  | { outcome: 'failed'; error: string };
+
+/**
+ * A new document, before its raw file is stored
+ */
+export interface NewDocumentInput {
+  userId: string | number;
+  fileName: string;
+  mimeType: string;
+  fileSize: number;
+  documentType?: DocumentType; // Left to the classifier if unset
+  description?: string;
+  contentHash?: string; // Hex SHA-256, when known before the file is stored
+}
+
+/**
+ * Type a processing run extracts a document as, with the classifier prediction
+ */
+type RunClassification = Pick<
+  ProcessingRunOutputs,
+  'documentType' | 'predictedDocumentType' | 'classificationConfidence'
+>;
+
+/**
+ * One side of an insurance card, uploaded as an image
+ */
+export interface CardSideUpload {
+  buffer: Buffer;
+  fileName: string;
+  mimeType: string;
 }
 
+/**
+ * One dose of a user's immunization history, read from one or more documents
+ */
+export type ImmunizationHistoryEntry = Omit<
+  Immunization,
+  'id' | 'documentId' | 'rowIndex' | 'createdAt'
+> & {
+  documentIds: string[]; // Documents recording the dose
+};
+
 /**
  * Domain Service for Document Processing
  *
@@ -49,6 +133,7 @@ export enum DocumentEventType {
 export class DocumentProcessingDomainService {
   private readonly logger = new Logger(DocumentProcessingDomainService.name);
   private readonly retentionYears: number;
+  private readonly classification: DocumentProcessingConfig['classification'];
   private readonly maxRetryCount = 3;
 
   constructor(
@@ -58,14 +143,23 @@ export class DocumentProcessingDomainService {
     private readonly storageService: StorageServicePort,
     @Inject('OcrServicePort')
     private readonly ocrService: OcrServicePort, // Backward compatibility
-    @Inject('VisionOcrServicePort')
-    private readonly visionOcrService: OcrServicePort,
-    @Inject('DocumentAiOcrServicePort')
-    private readonly documentAiOcrService: OcrServicePort,
-    private readonly ocrMergeService: OcrMergeService,
+    @Inject('ProcessingQueuePort')
+    private readonly processingQueue: ProcessingQueuePort,
+    @Inject('LabResultRepositoryPort')
+    private readonly labResultRepository: LabResultRepositoryPort,
+    @Inject('MedicationRepositoryPort')
+    private readonly medicationRepository: MedicationRepositoryPort,
+    @Inject('ImmunizationRepositoryPort')
+    private readonly immunizationRepository: ImmunizationRepositoryPort,
+    private readonly extractionPipeline: ExtractionPipelineService,
+    private readonly documentSharing: DocumentSharingDomainService,
+    private readonly documentInspection: DocumentInspectionDomainService,
+    private readonly deduplication: DocumentDeduplicationDomainService,
+    private readonly reprocessing: DocumentReprocessingDomainService,
+    private readonly statusEvents: DocumentStatusEventsDomainService,
+    private readonly eventBus: DomainEventBus,
     private readonly auditService: AuditService,
     private readonly configService: ConfigService<AllConfigType>,
-    private readonly pdf2JsonService: Pdf2JsonService,
     @Optional()
     private readonly ocrPostProcessorService?: OcrPostProcessorService,
   ) {
@@ -73,6 +167,21 @@ export class DocumentProcessingDomainService {
       'documentProcessing.retentionYears',
       { infer: true },
     );
+    this.classification = this.configService.getOrThrow(
+      'documentProcessing.classification',
+      { infer: true },
+    );
+  }
+
+  /**
+   * Check that an upload declares its type, unless the classifier can pick it
+   * @throws BadRequestException if documentType is missing and classification
+   *   is disabled
+   */
+  assertDocumentTypeDeclared(documentType?: DocumentType): void {
+    if (!documentType && !this.classification.enabled) {
+      throw new BadRequestException('documentType is required');
+    }
   }
 
   /**
@@ -83,77 +192,110 @@ export class DocumentProcessingDomainService {
     fileBuffer: Buffer,
     fileName: string,
     mimeType: string,
-    documentType: DocumentType,
+    documentType: DocumentType | undefined,
     description?: string,
   ): Promise<Document> {
-    try {
-      // 1. Create domain entity (initial state)
-      const document = new Document();
-      // NOTE: ID will be auto-generated by database as UUID
-      document.userId = userId;
-      document.documentType = documentType;
-      document.status = DocumentStatus.UPLOADED;
-      document.fileName = fileName;
-      document.fileSize = fileBuffer.length;
-      document.mimeType = mimeType;
-      document.description = description;
-      document.rawFileUri = ''; // Will be set after upload
-      document.uploadedAt = new Date();
-      document.createdAt = new Date();
-      document.updatedAt = new Date();
-      document.retryCount = 0;
-
-      // 2. Save to database (get UUID from database)
-      const savedDocument = await this.documentRepository.save(document);
-
-      // 3. Upload to GCS
-      const gcsUri = await this.storageService.storeRaw(fileBuffer, {
-        documentId: savedDocument.id,
+    return this.createDocument(
+      {
         userId,
         fileName,
         mimeType,
-        contentLength: fileBuffer.length,
-      });
+        fileSize: fileBuffer.length,
+        documentType,
+        description,
+      },
+      (metadata) => this.storageService.storeRaw(fileBuffer, metadata),
+      fileBuffer,
+    );
+  }
 
-      // 4. Update document with GCS URI and status
-      await this.documentRepository.updateStatus(
-        savedDocument.id,
-        DocumentStatus.STORED,
-        {
-          rawFileUri: gcsUri,
-        },
+  /**
+   * Upload the front and back of an insurance card as one document
+   * The front is the raw file; the back is stored next to it, inspected with
+   * it and read as the document's second page
+   */
+  async uploadInsuranceCard(
+    userId: string | number,
+    front: CardSideUpload,
+    back?: CardSideUpload,
+    description?: string,
+  ): Promise<Document> {
+    if (!back) {
+      return this.uploadDocument(
+        userId,
+        front.buffer,
+        front.fileName,
+        front.mimeType,
+        DocumentType.INSURANCE_CARD,
+        description,
       );
+    }
 
-      // 5. Audit log
-      this.auditService.logAuthEvent({
+    try {
+      const document = await this.createPendingDocument({
         userId,
-        provider: 'document-processing',
-        event: DocumentEventType.DOCUMENT_UPLOADED as any,
-        success: true,
-        metadata: {
-          documentId: savedDocument.id,
-          documentType,
-          fileSize: fileBuffer.length,
-        },
+        fileName: front.fileName,
+        mimeType: front.mimeType,
+        fileSize: front.buffer.length + back.buffer.length,
+        documentType: DocumentType.INSURANCE_CARD,
+        description,
       });
+      const metadata: FileMetadata = {
+        documentId: document.id,
+        userId,
+        fileName: front.fileName,
+        mimeType: front.mimeType,
+        contentLength: front.buffer.length,
+      };
 
-      this.logger.log(
-        `Document uploaded: ${savedDocument.id} (user: ${userId})`,
+      const rawFileUri = await this.storageService.storeRaw(
+        front.buffer,
+        metadata,
       );
+      document.backFileUri = await this.storageService.storeRaw(back.buffer, {
+        ...metadata,
+        fileName: `back_${back.fileName}`,
+        mimeType: back.mimeType,
+        contentLength: back.buffer.length,
+      });
+      document.backMimeType = back.mimeType;
+      await this.documentRepository.update(document.id, {
+        backFileUri: document.backFileUri,
+        backMimeType: document.backMimeType,
+      });
 
-      // 6. Trigger async processing (don't await) - pass buffer for PDF analysis
-      this.startProcessing(
-        savedDocument.id,
-        gcsUri,
-        mimeType,
-        fileBuffer,
-      ).catch((error) => {
-        this.logger.error(
-          `Failed to start processing for document ${savedDocument.id}: ${error.message}`,
-        );
+      return await this.markStored(document, rawFileUri, front.buffer);
+    } catch (error) {
+      this.logger.error(`Insurance card upload failed: ${error.message}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Create a document, store its raw file and enqueue processing
+   * @param storeRaw - Writes the raw file (buffer or assembled upload parts)
+   * @param fileBuffer - The file, if in memory (inspected without a storage read)
+   */
+  async createDocument(
+    input: NewDocumentInput,
+    storeRaw: (metadata: FileMetadata) => Promise<string>,
+    fileBuffer?: Buffer,
+  ): Promise<Document> {
+    try {
+      // 1. Save in UPLOADED state (get UUID from database)
+      const savedDocument = await this.createPendingDocument(input);
+
+      // 2. Upload to GCS
+      const gcsUri = await storeRaw({
+        documentId: savedDocument.id,
+        userId: input.userId,
+        fileName: input.fileName,
+        mimeType: input.mimeType,
+        contentLength: input.fileSize,
       });
 
-      return savedDocument;
+      // 3. Inspect, mark as stored and enqueue processing
+      return await this.markStored(savedDocument, gcsUri, fileBuffer);
     } catch (error) {
       this.logger.error(`Upload failed: ${error.message}`);
       throw error;
@@ -161,893 +303,369 @@ export class DocumentProcessingDomainService {
   }
 
   /**
-   * Start OCR processing (async) - now with intelligent PDF routing
+   * Save a new document in UPLOADED state (raw file not stored yet)
    */
-  private async startProcessing(
-    documentId: string,
-    gcsUri: string,
-    mimeType: string,
+  async createPendingDocument(input: NewDocumentInput): Promise<Document> {
+    this.assertDocumentTypeDeclared(input.documentType);
+
+    // NOTE: ID will be auto-generated by database as UUID
+    const document = new Document();
+    document.userId = input.userId;
+    // Undeclared documents are processed as OTHER until classified
+    document.documentType = input.documentType ?? DocumentType.OTHER;
+    document.declaredDocumentType = input.documentType;
+    document.status = DocumentStatus.UPLOADED;
+    document.fileName = input.fileName;
+    document.fileSize = input.fileSize;
+    document.mimeType = input.mimeType;
+    document.contentHash = input.contentHash;
+    document.description = input.description;
+    document.rawFileUri = ''; // Will be set after upload
+    document.uploadedAt = new Date();
+    document.createdAt = new Date();
+    document.updatedAt = new Date();
+    document.retryCount = 0;
+
+    return this.documentRepository.save(document);
+  }
+
+  /**
+   * Inspect the stored raw file, audit the upload and enqueue processing
+   * Re-uploads of a file the user already has are deduplicated instead
+   * @param fileBuffer - The file, if still in memory (avoids a storage read)
+   * @returns The document, or the earlier one if the upload was discarded
+   * @throws BadRequestException if the file failed inspection (QUARANTINED)
+   */
+  async markStored(
+    document: Document,
+    rawFileUri: string,
     fileBuffer?: Buffer,
-  ): Promise<void> {
-    try {
-      // Update status to PROCESSING
+  ): Promise<Document> {
+    // 1. Record the URI first, so files that cannot be inspected are still
+    //    cleaned up by the upload expiry job
+    await this.documentRepository.update(document.id, { rawFileUri });
+    document.contentHash = await this.documentInspection.assertSafeToProcess(
+      document,
+      rawFileUri,
+      fileBuffer,
+    );
+    if (document.backFileUri) {
+      // Two-sided insurance card: duplicates must match on both sides
+      const backHash =
+        await this.documentInspection.assertBackSafeToProcess(document);
+      document.contentHash = createHash('sha256')
+        .update(`${document.contentHash}:${backHash}`)
+        .digest('hex');
+    }
+
+    // 2. Deduplicate against the user's earlier uploads
+    const original = await this.deduplication.findOriginal(document);
+    if (
+      original &&
+      this.deduplication.policy === DuplicateUploadPolicy.RETURN_EXISTING
+    ) {
+      await this.deduplication.discardUpload(document, rawFileUri, original);
+      return original;
+    }
+    document.duplicateOf = original?.id;
+
+    await this.eventBus.transaction(async () => {
+      // 3. Update document with GCS URI and status
       await this.documentRepository.updateStatus(
-        documentId,
-        DocumentStatus.PROCESSING,
+        document.id,
+        DocumentStatus.STORED,
         {
-          processingStartedAt: new Date(),
+          rawFileUri,
+          contentHash: document.contentHash,
+          duplicateOf: document.duplicateOf,
         },
       );
 
-      const document = await this.documentRepository.findById(documentId);
-      if (!document) throw new Error('Document not found');
-
-      // Audit log
-      this.auditService.logAuthEvent({
+      // 4. Audit log and webhooks (event subscribers)
+      await this.eventBus.publish(DomainEventName.DOCUMENT_UPLOADED, {
+        documentId: document.id,
         userId: document.userId,
-        provider: 'document-processing',
-        event: DocumentEventType.DOCUMENT_PROCESSING_STARTED as any,
-        success: true,
-        metadata: { documentId },
+        documentType: document.documentType,
+        fileSize: document.fileSize,
+        duplicateOf: document.duplicateOf,
       });
+    });
+    document.rawFileUri = rawFileUri;
 
-      // INTELLIGENT PDF ROUTING
-      let ocrResult: any;
-      let processingMethod: ProcessingMethod;
-
-      this.logger.log(
-        `[PDF PROCESSING] Starting processing for document ${documentId}`,
-      );
-      this.logger.log(
-        `[PDF PROCESSING] MimeType: ${mimeType}, Has buffer: ${!!fileBuffer}`,
-      );
-
-      if (mimeType === 'application/pdf' && fileBuffer) {
-        // Try pdf2json extraction first
-        try {
-          this.logger.log(
-            `[PDF2JSON] Starting pdf2json extraction for document ${documentId}...`,
-          );
-          this.logger.debug(
-            `[PDF2JSON] Buffer size: ${fileBuffer.length} bytes, MimeType: ${mimeType}`,
-          );
+    this.logger.log(
+      `Document uploaded: ${document.id} (user: ${document.userId})`,
+    );
 
-          const { chunks, meta } =
-            await this.pdf2JsonService.parseBuffer(fileBuffer);
+    // 5. Reuse the original's results instead of running OCR again
+    if (original?.status === DocumentStatus.PROCESSED) {
+      await this.deduplication.copyResults(original, document);
+      return document;
+    }
 
-          this.logger.log(
-            `[PDF2JSON] Extraction complete: ${chunks.length} chunks from ${meta.Pages?.length} pages`,
-          );
+    // 6. Hand off to the durable processing queue (picked up by a worker)
+    //    A duplicate's job copies the results if the original finished in the
+    //    meantime, or leaves it waiting. It is enqueued only once QUEUED, so
+    //    either the job or onOriginalProcessed always sees the duplicate
+    await this.documentRepository.updateStatus(
+      document.id,
+      DocumentStatus.QUEUED,
+    );
+    await this.processingQueue.enqueue(document.id);
+    document.status = DocumentStatus.QUEUED;
+    await this.statusEvents.statusChanged(document, DocumentStatus.QUEUED);
 
-          // Log sample chunk for debugging
-          if (chunks.length > 0) {
-            this.logger.log(
-              `[PDF2JSON] Chunk sample: ${chunks[0]?.content.substring(0, 200)}`,
-            );
-          }
+    return document;
+  }
 
-          // Combine all chunk content for entity extraction
-          const fullText = chunks.map((c) => c.content).join('\n');
-          this.logger.log(`[PDF2JSON] Full text length: ${fullText.length}`);
-
-          // Check if we got meaningful text
-          if (fullText.trim().length < 50) {
-            this.logger.warn(
-              `[PDF2JSON] Insufficient text extracted (${fullText.length} chars), falling back to OCR`,
-            );
-            throw new Error(
-              `Insufficient text content: ${fullText.length} characters`,
-            );
-          }
+  /**
+   * Process a queued document (called by the queue worker)
+   *
+   * The raw file is re-fetched from storage so that processing does not
+   * depend on the upload request's in-memory buffer (or, when reprocessing,
+   * on anything from the original upload).
+   */
+  async processDocument(documentId: string): Promise<ProcessingOutcome> {
+    const document = await this.documentRepository.findById(documentId);
+    if (!document || document.deletedAt) {
+      this.logger.warn(
+        `[QUEUE] Document ${documentId} no longer exists, skipping job`,
+      );
+      await this.reprocessing.failOpenRun(documentId, 'Document deleted');
+      // Duplicates waiting on a deleted original would never be picked up
+      await this.settleDuplicates(documentId, false);
+      return { outcome: 'completed' };
+    }
 
-          // Extract entities from combined text using regex patterns
-          const entities = extractEntitiesFromText(fullText);
-          this.logger.log(
-            `[PDF2JSON] Extracted ${entities.length} entities from text`,
-          );
+    const openRun = await this.reprocessing.findOpenRun(documentId);
+    const reprocessing = openRun?.trigger === ProcessingRunTrigger.REPROCESS;
 
-          ocrResult = {
-            text: fullText,
-            confidence: 1.0, // Native text = 100% confidence
-            pageCount: meta.Pages?.length || chunks.length,
-            entities, // Use regex-based entity extraction
-            fullResponse: {
-              method: 'pdf2json_extraction',
-              chunks, // Include structured chunks
-              metadata: meta.Meta || {},
-            },
-          };
+    if (
+      (document.status === DocumentStatus.PROCESSED && !reprocessing) ||
+      document.status === DocumentStatus.FAILED ||
+      document.status === DocumentStatus.QUARANTINED
+    ) {
+      this.logger.warn(
+        `[QUEUE] Document ${documentId} already ${document.status}, skipping job`,
+      );
+      return { outcome: 'completed' };
+    }
 
-          processingMethod = ProcessingMethod.DIRECT_EXTRACTION;
+    // Reprocessing always runs the pipeline, even for duplicates
+    if (document.duplicateOf && !reprocessing) {
+      const original = await this.documentRepository.findById(
+        document.duplicateOf,
+      );
+      if (original?.status === DocumentStatus.PROCESSED) {
+        await this.deduplication.copyResults(original, document);
+        return { outcome: 'completed' };
+      }
+      if (
+        !original?.deletedAt &&
+        (original?.status === DocumentStatus.STORED ||
+          original?.status === DocumentStatus.QUEUED ||
+          original?.status === DocumentStatus.PROCESSING)
+      ) {
+        // Picked up again when the original completes
+        this.logger.log(
+          `[QUEUE] Document ${documentId} is waiting for original ${original.id}`,
+        );
+        return { outcome: 'completed' };
+      }
+      // Original failed or was deleted: process this document on its own
+    }
 
-          // Run OCR in parallel even when DIRECT_EXTRACTION succeeds
-          // This provides Vision and Document AI outputs for comparison
-          this.logger.log(
-            `[DIRECT_EXTRACTION] Direct extraction succeeded. Running OCR in parallel for comparison outputs.`,
-          );
+    let fileBuffer: Buffer | undefined;
+    if (document.mimeType === 'application/pdf') {
+      try {
+        fileBuffer = await this.storageService.fetchRaw(document.rawFileUri);
+      } catch (error) {
+        // Fall back to OCR-only processing (no direct text extraction)
+        this.logger.warn(
+          `[QUEUE] Could not fetch raw file for document ${documentId}: ${sanitizeError(error)}`,
+        );
+      }
+    }
 
-          try {
-            const [visionResult, documentAiResult] = await Promise.allSettled([
-              this.visionOcrService.processDocument(
-                gcsUri,
-                mimeType,
-                document.pageCount,
-              ),
-              this.documentAiOcrService.processDocument(
-                gcsUri,
-                mimeType,
-                document.pageCount,
-              ),
-            ]);
-
-            const visionOcrResult =
-              visionResult.status === 'fulfilled' ? visionResult.value : null;
-            const documentAiOcrResult =
-              documentAiResult.status === 'fulfilled'
-                ? documentAiResult.value
-                : null;
-
-            // Store OCR results in fullResponse for comparison endpoints
-            if (!ocrResult.fullResponse || typeof ocrResult.fullResponse !== 'object') {
-              ocrResult.fullResponse = {};
-            }
-
-            // IMPORTANT: Serialize to avoid circular references
-            if (visionOcrResult) {
-              ocrResult.fullResponse.rawVisionResult = this.serializeOcrResult(visionOcrResult);
-              this.logger.log(
-                `[DIRECT_EXTRACTION] Stored Vision AI output for comparison`,
-              );
-            } else if (visionResult.status === 'rejected') {
-              ocrResult.fullResponse.rawVisionResult = {
-                error: true,
-                message: this.sanitizeError(visionResult.reason),
-              };
-              this.logger.warn(
-                `[DIRECT_EXTRACTION] Vision AI failed: ${this.sanitizeError(visionResult.reason)}`,
-              );
-            }
-
-            if (documentAiOcrResult) {
-              ocrResult.fullResponse.rawDocumentAiResult = this.serializeOcrResult(documentAiOcrResult);
-              this.logger.log(
-                `[DIRECT_EXTRACTION] Stored Document AI output for comparison`,
-              );
-            } else if (documentAiResult.status === 'rejected') {
-              ocrResult.fullResponse.rawDocumentAiResult = {
-                error: true,
-                message: this.sanitizeError(documentAiResult.reason),
-              };
-              this.logger.warn(
-                `[DIRECT_EXTRACTION] Document AI failed: ${this.sanitizeError(documentAiResult.reason)}`,
-              );
-            }
-          } catch (ocrError) {
-            // OCR failed but direct extraction succeeded - that's okay
-            this.logger.warn(
-              `[DIRECT_EXTRACTION] OCR parallel processing failed, but direct extraction succeeded: ${this.sanitizeError(ocrError)}`,
-            );
-            // Continue with direct extraction result only
-          }
-        } catch (pdf2jsonError) {
-          // pdf2json failed - check error type for intelligent fallback
-          const errorMessage = pdf2jsonError.message || String(pdf2jsonError);
-          const isXRefError = errorMessage.includes(
-            'Invalid XRef stream header',
-          );
+    return this.startProcessing(document, fileBuffer);
+  }
 
-          this.logger.warn(`[PDF2JSON] pdf2json failed for ${documentId}`);
-          this.logger.warn(`[PDF2JSON] Error details: ${errorMessage}`);
-          this.logger.debug(
-            `[PDF2JSON] Error stack: ${pdf2jsonError.stack || 'No stack trace'}`,
-          );
+  /**
+   * Mark a document as permanently failed after its queue job was dead-lettered
+   */
+  async markProcessingFailed(
+    documentId: string,
+    errorMessage: string,
+  ): Promise<void> {
+    await this.reprocessing.failOpenRun(documentId, errorMessage);
 
-          // Multi-tier fallback strategy:
-          // 1. If XRef error, try pdf-parse (handles corrupted XRef better)
-          // 2. If pdf-parse fails or other error, use OCR
-          if (isXRefError) {
-            this.logger.log(
-              `[PDF-PARSE] pdf2json detected XRef error - trying pdf-parse as intermediate fallback...`,
-            );
-
-            try {
-              // Try pdf-parse as fallback (more resilient to XRef issues)
-              const pdfData = await pdfParse(fileBuffer);
-              const extractedText = pdfData.text || '';
-
-              this.logger.log(
-                `[PDF-PARSE] pdf-parse extraction successful: ${extractedText.length} characters`,
-              );
-
-              // Check if we got meaningful text
-              if (extractedText.trim().length >= 50) {
-                // Success with pdf-parse!
-                const entities = extractEntitiesFromText(extractedText);
-                this.logger.log(
-                  `[PDF-PARSE] Extracted ${entities.length} entities from text`,
-                );
-
-                ocrResult = {
-                  text: extractedText,
-                  confidence: 1.0, // Native text = 100% confidence
-                  pageCount: pdfData.numpages || 1,
-                  entities,
-                  fullResponse: {
-                    method: 'pdf_parse_extraction',
-                    metadata: {
-                      numPages: pdfData.numpages,
-                      info: pdfData.info,
-                      reason: 'pdf2json_xref_error_fallback',
-                    },
-                  },
-                };
-
-                processingMethod = ProcessingMethod.DIRECT_EXTRACTION;
-
-                // Log for tracking problematic PDFs
-                this.logger.log(
-                  `[PDF-PARSE] Successfully recovered from XRef error for document ${documentId}`,
-                );
-
-                // Run OCR in parallel even when pdf-parse succeeds
-                // This provides Vision and Document AI outputs for comparison
-                this.logger.log(
-                  `[PDF-PARSE] Running OCR in parallel for comparison outputs.`,
-                );
-
-                try {
-                  const [visionResult, documentAiResult] = await Promise.allSettled([
-                    this.visionOcrService.processDocument(
-                      gcsUri,
-                      mimeType,
-                      document.pageCount,
-                    ),
-                    this.documentAiOcrService.processDocument(
-                      gcsUri,
-                      mimeType,
-                      document.pageCount,
-                    ),
-                  ]);
-
-                  const visionOcrResult =
-                    visionResult.status === 'fulfilled' ? visionResult.value : null;
-                  const documentAiOcrResult =
-                    documentAiResult.status === 'fulfilled'
-                      ? documentAiResult.value
-                      : null;
-
-                  // Store OCR results in fullResponse for comparison endpoints
-                  if (!ocrResult.fullResponse || typeof ocrResult.fullResponse !== 'object') {
-                    ocrResult.fullResponse = {};
-                  }
-
-                  // IMPORTANT: Serialize to avoid circular references
-                  if (visionOcrResult) {
-                    ocrResult.fullResponse.rawVisionResult = this.serializeOcrResult(visionOcrResult);
-                  } else if (visionResult.status === 'rejected') {
-                    ocrResult.fullResponse.rawVisionResult = {
-                      error: true,
-                      message: this.sanitizeError(visionResult.reason),
-                    };
-                  }
-
-                  if (documentAiOcrResult) {
-                    ocrResult.fullResponse.rawDocumentAiResult = this.serializeOcrResult(documentAiOcrResult);
-                  } else if (documentAiResult.status === 'rejected') {
-                    ocrResult.fullResponse.rawDocumentAiResult = {
-                      error: true,
-                      message: this.sanitizeError(documentAiResult.reason),
-                    };
-                  }
-                } catch (ocrError) {
-                  // OCR failed but pdf-parse succeeded - that's okay
-                  this.logger.warn(
-                    `[PDF-PARSE] OCR parallel processing failed, but pdf-parse succeeded: ${this.sanitizeError(ocrError)}`,
-                  );
-                }
-              } else {
-                // Not enough text even with pdf-parse - fall back to OCR
-                throw new Error(
-                  `Insufficient text from pdf-parse: ${extractedText.length} characters`,
-                );
-              }
-            } catch (pdfParseError) {
-              // pdf-parse also failed - fall back to parallel OCR
-              this.logger.warn(
-                `[PDF-PARSE] pdf-parse also failed for ${documentId}, falling back to parallel OCR`,
-              );
-              this.logger.warn(
-                `[PDF-PARSE] Error: ${pdfParseError.message || pdfParseError}`,
-              );
-
-              const mergeEnabled =
-                this.configService.get('documentProcessing.ocrMerge.enabled', {
-                  infer: true,
-                }) !== false;
-              const postProcessingEnabled =
-                this.configService.get(
-                  'documentProcessing.ocrPostProcessing.enabled',
-                  { infer: true },
-                ) || false;
-
-              if (mergeEnabled) {
-                const [visionResult, documentAiResult] =
-                  await Promise.allSettled([
-                    this.visionOcrService.processDocument(
-                      gcsUri,
-                      mimeType,
-                      document.pageCount,
-                    ),
-                    this.documentAiOcrService.processDocument(
-                      gcsUri,
-                      mimeType,
-                      document.pageCount,
-                    ),
-                  ]);
-
-                const visionOcrResult =
-                  visionResult.status === 'fulfilled'
-                    ? visionResult.value
-                    : null;
-                const documentAiOcrResult =
-                  documentAiResult.status === 'fulfilled'
-                    ? documentAiResult.value
-                    : null;
-
-                if (visionResult.status === 'rejected') {
-                  this.logger.warn(
-                    `[PARALLEL OCR] Vision AI failed: ${this.sanitizeError(visionResult.reason)}`,
-                  );
-                }
-
-                if (documentAiResult.status === 'rejected') {
-                  this.logger.warn(
-                    `[PARALLEL OCR] Document AI failed: ${this.sanitizeError(documentAiResult.reason)}`,
-                  );
-                }
-
-                if (visionOcrResult && documentAiOcrResult) {
-                  ocrResult = await this.ocrMergeService.mergeOcrResults(
-                    visionOcrResult,
-                    documentAiOcrResult,
-                    { enablePostProcessing: postProcessingEnabled },
-                  );
-                  // Store raw OCR results in fullResponse for comparison endpoints
-                  if (ocrResult.fullResponse && typeof ocrResult.fullResponse === 'object') {
-                    ocrResult.fullResponse.rawVisionResult = visionOcrResult;
-                    ocrResult.fullResponse.rawDocumentAiResult = documentAiOcrResult;
-                  }
-                  processingMethod = ProcessingMethod.OCR_MERGED;
-                } else if (visionOcrResult) {
-                  ocrResult = visionOcrResult;
-                  // Store Vision AI result for comparison endpoints
-                  // Ensure fullResponse is an object
-                  if (!ocrResult.fullResponse || typeof ocrResult.fullResponse !== 'object') {
-                    ocrResult.fullResponse = {};
-                  }
-                  ocrResult.fullResponse.rawVisionResult = visionOcrResult;
-                  // Also store Document AI failure info if it failed
-                  if (documentAiResult.status === 'rejected') {
-                    ocrResult.fullResponse.rawDocumentAiResult = {
-                      error: true,
-                      message: this.sanitizeError(documentAiResult.reason),
-                    };
-                  }
-                  processingMethod = ProcessingMethod.OCR_VISION_SYNC;
-                } else if (documentAiOcrResult) {
-                  ocrResult = documentAiOcrResult;
-                  // Store Document AI result for comparison endpoints
-                  // Ensure fullResponse is an object
-                  if (!ocrResult.fullResponse || typeof ocrResult.fullResponse !== 'object') {
-                    ocrResult.fullResponse = {};
-                  }
-                  ocrResult.fullResponse.rawDocumentAiResult = documentAiOcrResult;
-                  // Also store Vision AI failure info if it failed
-                  if (visionResult.status === 'rejected') {
-                    ocrResult.fullResponse.rawVisionResult = {
-                      error: true,
-                      message: this.sanitizeError(visionResult.reason),
-                    };
-                  }
-                  processingMethod =
-                    document.pageCount && document.pageCount <= 15
-                      ? ProcessingMethod.OCR_SYNC
-                      : ProcessingMethod.OCR_BATCH;
-                } else {
-                  throw new Error('Both OCR engines failed');
-                }
-              } else {
-                // Merge disabled - but still run both OCRs in parallel for comparison
-                this.logger.log(
-                  `[PDF-PARSE FALLBACK] Merge disabled - running both OCRs in parallel (no merge)`,
-                );
-
-                // Run both OCRs in parallel even when merge is disabled
-                const [visionResult, documentAiResult] =
-                  await Promise.allSettled([
-                    this.visionOcrService.processDocument(
-                      gcsUri,
-                      mimeType,
-                      document.pageCount,
-                    ),
-                    this.documentAiOcrService.processDocument(
-                      gcsUri,
-                      mimeType,
-                      document.pageCount,
-                    ),
-                  ]);
-
-                const visionOcrResult =
-                  visionResult.status === 'fulfilled'
-                    ? visionResult.value
-                    : null;
-                const documentAiOcrResult =
-                  documentAiResult.status === 'fulfilled'
-                    ? documentAiResult.value
-                    : null;
-
-                if (visionResult.status === 'rejected') {
-                  this.logger.warn(
-                    `[PARALLEL OCR] Vision AI failed: ${this.sanitizeError(visionResult.reason)}`,
-                  );
-                }
-
-                if (documentAiResult.status === 'rejected') {
-                  this.logger.warn(
-                    `[PARALLEL OCR] Document AI failed: ${this.sanitizeError(documentAiResult.reason)}`,
-                  );
-                }
-
-                // Use best available result (prefer Document AI if both available, otherwise use whichever succeeded)
-                if (documentAiOcrResult) {
-                  ocrResult = documentAiOcrResult;
-                  // Store both results for comparison endpoints
-                  if (ocrResult.fullResponse && typeof ocrResult.fullResponse === 'object') {
-                    ocrResult.fullResponse.rawDocumentAiResult = documentAiOcrResult;
-                    if (visionOcrResult) {
-                      ocrResult.fullResponse.rawVisionResult = visionOcrResult;
-                    }
-                  }
-                  processingMethod =
-                    document.pageCount && document.pageCount <= 15
-                      ? ProcessingMethod.OCR_SYNC
-                      : ProcessingMethod.OCR_BATCH;
-                } else if (visionOcrResult) {
-                  ocrResult = visionOcrResult;
-                  // Store Vision AI result for comparison endpoints
-                  // Ensure fullResponse is an object
-                  if (!ocrResult.fullResponse || typeof ocrResult.fullResponse !== 'object') {
-                    ocrResult.fullResponse = {};
-                  }
-                  ocrResult.fullResponse.rawVisionResult = visionOcrResult;
-                  // Also store Document AI failure info if it failed
-                  if (documentAiResult.status === 'rejected') {
-                    ocrResult.fullResponse.rawDocumentAiResult = {
-                      error: true,
-                      message: this.sanitizeError(documentAiResult.reason),
-                    };
-                  }
-                  processingMethod = ProcessingMethod.OCR_VISION_SYNC;
-                } else {
-                  throw new Error('Both OCR engines failed');
-                }
-              }
-
-              this.logger.log(
-                `[PDF PROCESSING] OCR fallback completed. Result has entities: ${!!ocrResult.entities}, count: ${ocrResult.entities?.length || 0}`,
-              );
-            }
-          } else {
-            // Not an XRef error - go directly to parallel OCR
-            this.logger.log(
-              `[PDF PROCESSING] Non-XRef error, falling back directly to parallel OCR`,
-            );
-
-            const mergeEnabled =
-              this.configService.get('documentProcessing.ocrMerge.enabled', {
-                infer: true,
-              }) !== false;
-            const postProcessingEnabled =
-              this.configService.get(
-                'documentProcessing.ocrPostProcessing.enabled',
-                { infer: true },
-              ) || false;
-
-            if (mergeEnabled) {
-              const [visionResult, documentAiResult] =
-                await Promise.allSettled([
-                  this.visionOcrService.processDocument(
-                    gcsUri,
-                    mimeType,
-                    document.pageCount,
-                  ),
-                  this.documentAiOcrService.processDocument(
-                    gcsUri,
-                    mimeType,
-                    document.pageCount,
-                  ),
-                ]);
-
-              const visionOcrResult =
-                visionResult.status === 'fulfilled' ? visionResult.value : null;
-              const documentAiOcrResult =
-                documentAiResult.status === 'fulfilled'
-                  ? documentAiResult.value
-                  : null;
-
-              if (visionResult.status === 'rejected') {
-                this.logger.warn(
-                  `[PARALLEL OCR] Vision AI failed: ${this.sanitizeError(visionResult.reason)}`,
-                );
-              }
-
-              if (documentAiResult.status === 'rejected') {
-                this.logger.warn(
-                  `[PARALLEL OCR] Document AI failed: ${this.sanitizeError(documentAiResult.reason)}`,
-                );
-              }
-
-              if (visionOcrResult && documentAiOcrResult) {
-                ocrResult = await this.ocrMergeService.mergeOcrResults(
-                  visionOcrResult,
-                  documentAiOcrResult,
-                  { enablePostProcessing: postProcessingEnabled },
-                );
-
-                // Store raw OCR results in fullResponse for comparison endpoints
-                // IMPORTANT: Serialize to avoid circular references
-                if (ocrResult.fullResponse && typeof ocrResult.fullResponse === 'object') {
-                  ocrResult.fullResponse.rawVisionResult = this.serializeOcrResult(visionOcrResult);
-                  ocrResult.fullResponse.rawDocumentAiResult = this.serializeOcrResult(documentAiOcrResult);
-                }
-
-                processingMethod = ProcessingMethod.OCR_MERGED;
-              } else if (visionOcrResult) {
-                ocrResult = visionOcrResult;
-                // Store Vision AI result for comparison endpoints
-                // Ensure fullResponse is an object (it should be from Vision AI adapter)
-                if (!ocrResult.fullResponse || typeof ocrResult.fullResponse !== 'object') {
-                  ocrResult.fullResponse = {};
-                }
-                ocrResult.fullResponse.rawVisionResult = visionOcrResult;
-                // Also store Document AI failure info if it failed
-                if (documentAiResult.status === 'rejected') {
-                  ocrResult.fullResponse.rawDocumentAiResult = {
-                    error: true,
-                    message: this.sanitizeError(documentAiResult.reason),
-                  };
-                }
-                processingMethod = ProcessingMethod.OCR_VISION_SYNC;
-              } else if (documentAiOcrResult) {
-                ocrResult = documentAiOcrResult;
-                // Store Document AI result for comparison endpoints
-                // Ensure fullResponse is an object
-                if (!ocrResult.fullResponse || typeof ocrResult.fullResponse !== 'object') {
-                  ocrResult.fullResponse = {};
-                }
-                ocrResult.fullResponse.rawDocumentAiResult = documentAiOcrResult;
-                // Also store Vision AI failure info if it failed
-                if (visionResult.status === 'rejected') {
-                  ocrResult.fullResponse.rawVisionResult = {
-                    error: true,
-                    message: this.sanitizeError(visionResult.reason),
-                  };
-                }
-                processingMethod =
-                  document.pageCount && document.pageCount <= 15
-                    ? ProcessingMethod.OCR_SYNC
-                    : ProcessingMethod.OCR_BATCH;
-              } else {
-                throw new Error('Both OCR engines failed');
-              }
-            } else {
-              // Merge disabled - but still run both OCRs in parallel for comparison
-              this.logger.log(
-                `[PDF PROCESSING] Merge disabled - running both OCRs in parallel (no merge)`,
-              );
-
-              // Run both OCRs in parallel even when merge is disabled
-              const [visionResult, documentAiResult] =
-                await Promise.allSettled([
-                  this.visionOcrService.processDocument(
-                    gcsUri,
-                    mimeType,
-                    document.pageCount,
-                  ),
-                  this.documentAiOcrService.processDocument(
-                    gcsUri,
-                    mimeType,
-                    document.pageCount,
-                  ),
-                ]);
-
-              const visionOcrResult =
-                visionResult.status === 'fulfilled' ? visionResult.value : null;
-              const documentAiOcrResult =
-                documentAiResult.status === 'fulfilled'
-                  ? documentAiResult.value
-                  : null;
-
-              if (visionResult.status === 'rejected') {
-                this.logger.warn(
-                  `[PARALLEL OCR] Vision AI failed: ${this.sanitizeError(visionResult.reason)}`,
-                );
-              }
-
-              if (documentAiResult.status === 'rejected') {
-                this.logger.warn(
-                  `[PARALLEL OCR] Document AI failed: ${this.sanitizeError(documentAiResult.reason)}`,
-                );
-              }
-
-              // Use best available result (prefer Document AI if both available, otherwise use whichever succeeded)
-              if (documentAiOcrResult) {
-                ocrResult = documentAiOcrResult;
-                // Store both results for comparison endpoints
-                // Ensure fullResponse is an object
-                if (!ocrResult.fullResponse || typeof ocrResult.fullResponse !== 'object') {
-                  ocrResult.fullResponse = {};
-                }
-                ocrResult.fullResponse.rawDocumentAiResult = documentAiOcrResult;
-                if (visionOcrResult) {
-                  ocrResult.fullResponse.rawVisionResult = visionOcrResult;
-                } else if (visionResult.status === 'rejected') {
-                  // Store Vision AI failure info
-                  ocrResult.fullResponse.rawVisionResult = {
-                    error: true,
-                    message: this.sanitizeError(visionResult.reason),
-                  };
-                }
-                processingMethod =
-                  document.pageCount && document.pageCount <= 15
-                    ? ProcessingMethod.OCR_SYNC
-                    : ProcessingMethod.OCR_BATCH;
-              } else if (visionOcrResult) {
-                ocrResult = visionOcrResult;
-                // Store Vision AI result for comparison endpoints
-                // Ensure fullResponse is an object
-                if (!ocrResult.fullResponse || typeof ocrResult.fullResponse !== 'object') {
-                  ocrResult.fullResponse = {};
-                }
-                ocrResult.fullResponse.rawVisionResult = visionOcrResult;
-                // Store Document AI failure info if it failed
-                if (documentAiResult.status === 'rejected') {
-                  ocrResult.fullResponse.rawDocumentAiResult = {
-                    error: true,
-                    message: this.sanitizeError(documentAiResult.reason),
-                  };
-                }
-                processingMethod = ProcessingMethod.OCR_VISION_SYNC;
-              } else {
-                throw new Error('Both OCR engines failed');
-              }
-            }
-
-            this.logger.log(
-              `[PDF PROCESSING] OCR fallback completed. Result has entities: ${!!ocrResult.entities}, count: ${ocrResult.entities?.length || 0}`,
-            );
-          }
-        }
-      } else {
-        // Not a PDF or no buffer available - use parallel OCR with merge
-        this.logger.log(
-          `[PDF PROCESSING] Not a PDF or no buffer - using parallel OCR`,
-        );
+    const document = await this.documentRepository.findById(documentId);
+    if (!document || document.status === DocumentStatus.PROCESSED) return;
 
-        // Check if merge is enabled
-        const mergeEnabled =
-          this.configService.get('documentProcessing.ocrMerge.enabled', {
-            infer: true,
-          }) !== false;
-        const postProcessingEnabled =
-          this.configService.get(
-            'documentProcessing.ocrPostProcessing.enabled',
-            { infer: true },
-          ) || false;
-
-        if (mergeEnabled) {
-          // Run both OCRs in parallel
-          this.logger.log(
-            `[PARALLEL OCR] Starting parallel execution of Vision AI and Document AI`,
-          );
+    await this.eventBus.transaction(async () => {
+      await this.documentRepository.updateStatus(
+        documentId,
+        DocumentStatus.FAILED,
+        { errorMessage },
+      );
+      await this.eventBus.publish(DomainEventName.DOCUMENT_PROCESSING_FAILED, {
+        documentId,
+        userId: document.userId,
+        retryCount: document.retryCount,
+        errorMessage,
+      });
+    });
+    await this.statusEvents.statusChanged(document, DocumentStatus.FAILED);
 
-          const [visionResult, documentAiResult] = await Promise.allSettled([
-            this.visionOcrService.processDocument(
-              gcsUri,
-              mimeType,
-              document.pageCount,
-            ),
-            this.documentAiOcrService.processDocument(
-              gcsUri,
-              mimeType,
-              document.pageCount,
-            ),
-          ]);
-
-          const visionOcrResult =
-            visionResult.status === 'fulfilled' ? visionResult.value : null;
-          const documentAiOcrResult =
-            documentAiResult.status === 'fulfilled'
-              ? documentAiResult.value
-              : null;
-
-          // Handle results
-          if (visionResult.status === 'rejected') {
-            this.logger.warn(
-              `[PARALLEL OCR] Vision AI failed: ${this.sanitizeError(visionResult.reason)}`,
-            );
-          }
+    await this.settleDuplicates(documentId, false);
+  }
 
-          if (documentAiResult.status === 'rejected') {
-            this.logger.warn(
-              `[PARALLEL OCR] Document AI failed: ${this.sanitizeError(documentAiResult.reason)}`,
-            );
-          }
+  /**
+   * Re-enqueue documents left mid-flight by a crash or restart
+   *
+   * Documents in STORED/QUEUED/PROCESSING (and processed documents with an
+   * open reprocessing run) always have an open queue job unless the process
+   * died between the status update and the enqueue.
+   * Enqueue is idempotent, so this is safe to run on every boot.
+   */
+  async recoverStalledDocuments(): Promise<number> {
+    const stalled = await this.documentRepository.findByStatuses([
+      DocumentStatus.STORED,
+      DocumentStatus.QUEUED,
+      DocumentStatus.PROCESSING,
+    ]);
+    const recovered = new Set<string>();
+
+    for (const document of stalled) {
+      await this.processingQueue.enqueue(document.id);
+      recovered.add(document.id);
+      if (document.status === DocumentStatus.STORED) {
+        await this.documentRepository.updateStatus(
+          document.id,
+          DocumentStatus.QUEUED,
+        );
+      }
+    }
 
-          // Merge if both succeeded
-          if (visionOcrResult && documentAiOcrResult) {
-            this.logger.log(
-              `[PARALLEL OCR] Both OCRs succeeded, merging results`,
-            );
-
-            ocrResult = await this.ocrMergeService.mergeOcrResults(
-              visionOcrResult,
-              documentAiOcrResult,
-              { enablePostProcessing: postProcessingEnabled },
-            );
-
-            // Store raw OCR results in fullResponse for comparison endpoints
-            // IMPORTANT: Serialize to avoid circular references
-            if (ocrResult.fullResponse && typeof ocrResult.fullResponse === 'object') {
-              ocrResult.fullResponse.rawVisionResult = this.serializeOcrResult(visionOcrResult);
-              ocrResult.fullResponse.rawDocumentAiResult = this.serializeOcrResult(documentAiOcrResult);
-            }
-
-            processingMethod = ProcessingMethod.OCR_MERGED;
-          } else if (visionOcrResult) {
-            // Only Vision AI succeeded
-            this.logger.log(
-              `[PARALLEL OCR] Only Vision AI succeeded, using Vision result`,
-            );
-            ocrResult = visionOcrResult;
-            // Store Vision AI result for comparison endpoints
-            // Ensure fullResponse is an object (it should be from Vision AI adapter)
-            if (!ocrResult.fullResponse || typeof ocrResult.fullResponse !== 'object') {
-              ocrResult.fullResponse = {};
-            }
-            // IMPORTANT: Serialize to avoid circular references
-            ocrResult.fullResponse.rawVisionResult = this.serializeOcrResult(visionOcrResult);
-            // Also store Document AI failure info if it failed
-            if (documentAiResult.status === 'rejected') {
-              ocrResult.fullResponse.rawDocumentAiResult = {
-                error: true,
-                message: this.sanitizeError(documentAiResult.reason),
-              };
-            }
-            processingMethod = ProcessingMethod.OCR_VISION_SYNC;
-          } else if (documentAiOcrResult) {
-            // Only Document AI succeeded
-            this.logger.log(
-              `[PARALLEL OCR] Only Document AI succeeded, using Document AI result`,
-            );
-            ocrResult = documentAiOcrResult;
-            // Store Document AI result for comparison endpoints
-            // Ensure fullResponse is an object
-            if (!ocrResult.fullResponse || typeof ocrResult.fullResponse !== 'object') {
-              ocrResult.fullResponse = {};
-            }
-            // IMPORTANT: Serialize to avoid circular references
-            ocrResult.fullResponse.rawDocumentAiResult = this.serializeOcrResult(documentAiOcrResult);
-            // Also store Vision AI failure info if it failed
-            if (visionResult.status === 'rejected') {
-              ocrResult.fullResponse.rawVisionResult = {
-                error: true,
-                message: this.sanitizeError(visionResult.reason),
-              };
-            }
-            processingMethod =
-              document.pageCount && document.pageCount <= 15
-                ? ProcessingMethod.OCR_SYNC
-                : ProcessingMethod.OCR_BATCH;
-          } else {
-            // Both failed
-            throw new Error('Both OCR engines failed');
-          }
-        } else {
-          // Merge disabled - but still run both OCRs in parallel for comparison
-          this.logger.log(
-            `[PDF PROCESSING] Merge disabled - running both OCRs in parallel (no merge)`,
-          );
+    for (const run of await this.reprocessing.findOpenRuns()) {
+      if (!recovered.has(run.documentId)) {
+        await this.processingQueue.enqueue(run.documentId);
+        recovered.add(run.documentId);
+      }
+    }
 
-          // Run both OCRs in parallel even when merge is disabled
-          const [visionResult, documentAiResult] = await Promise.allSettled([
-            this.visionOcrService.processDocument(
-              gcsUri,
-              mimeType,
-              document.pageCount,
-            ),
-            this.documentAiOcrService.processDocument(
-              gcsUri,
-              mimeType,
-              document.pageCount,
-            ),
-          ]);
-
-          const visionOcrResult =
-            visionResult.status === 'fulfilled' ? visionResult.value : null;
-          const documentAiOcrResult =
-            documentAiResult.status === 'fulfilled'
-              ? documentAiResult.value
-              : null;
-
-          // Handle results
-          if (visionResult.status === 'rejected') {
-            this.logger.warn(
-              `[PARALLEL OCR] Vision AI failed: ${this.sanitizeError(visionResult.reason)}`,
-            );
-          }
+    return recovered.size;
+  }
 
-          if (documentAiResult.status === 'rejected') {
-            this.logger.warn(
-              `[PARALLEL OCR] Document AI failed: ${this.sanitizeError(documentAiResult.reason)}`,
-            );
-          }
+  /**
+   * Run OCR processing for a document via the extraction pipeline
+   *
+   * Outputs are recorded on the document's processing run, then copied onto
+   * the document when the run is promoted. A processed document being
+   * reprocessed keeps its status and current results meanwhile.
+   */
+  private async startProcessing(
+    document: Document,
+    fileBuffer?: Buffer,
+  ): Promise<ProcessingOutcome> {
+    const documentId = document.id;
+    const reprocessingProcessed = document.status === DocumentStatus.PROCESSED;
+    // A processed document being reprocessed stays PROCESSED
+    const activeStatus = reprocessingProcessed
+      ? DocumentStatus.PROCESSED
+      : DocumentStatus.PROCESSING;
+    const attemptStartedAt = Date.now();
+    const stageLog: ExtractionStageRecord[] = [];
+    let pagesProcessed = 0;
+    let postProcessingStartedAt: Date | undefined;
+    let attemptRecorded = false;
+    let run: DocumentProcessingRun | undefined;
 
-          // Use best available result (prefer Document AI if both available, otherwise use whichever succeeded)
-          if (documentAiOcrResult) {
-            ocrResult = documentAiOcrResult;
-            // Store both results for comparison endpoints
-            // Ensure fullResponse is an object
-            if (!ocrResult.fullResponse || typeof ocrResult.fullResponse !== 'object') {
-              ocrResult.fullResponse = {};
-            }
-            // IMPORTANT: Serialize to avoid circular references
-            ocrResult.fullResponse.rawDocumentAiResult = this.serializeOcrResult(documentAiOcrResult);
-            if (visionOcrResult) {
-              ocrResult.fullResponse.rawVisionResult = this.serializeOcrResult(visionOcrResult);
-            } else if (visionResult.status === 'rejected') {
-              // Store Vision AI failure info
-              ocrResult.fullResponse.rawVisionResult = {
-                error: true,
-                message: this.sanitizeError(visionResult.reason),
-              };
-            }
-            processingMethod =
-              document.pageCount && document.pageCount <= 15
-                ? ProcessingMethod.OCR_SYNC
-                : ProcessingMethod.OCR_BATCH;
-          } else if (visionOcrResult) {
-            ocrResult = visionOcrResult;
-            // Store Vision AI result for comparison endpoints
-            // Ensure fullResponse is an object
-            if (!ocrResult.fullResponse || typeof ocrResult.fullResponse !== 'object') {
-              ocrResult.fullResponse = {};
-            }
-            // IMPORTANT: Serialize to avoid circular references
-            ocrResult.fullResponse.rawVisionResult = this.serializeOcrResult(visionOcrResult);
-            // Store Document AI failure info if it failed
-            if (documentAiResult.status === 'rejected') {
-              ocrResult.fullResponse.rawDocumentAiResult = {
-                error: true,
-                message: this.sanitizeError(documentAiResult.reason),
-              };
-            }
-            processingMethod = ProcessingMethod.OCR_VISION_SYNC;
-          } else {
-            throw new Error('Both OCR engines failed');
-          }
+    try {
+      run = await this.reprocessing.beginRun(document);
 
-          this.logger.log(
-            `[PDF PROCESSING] Parallel OCR completed (no merge). Result has entities: ${!!ocrResult.entities}, count: ${ocrResult.entities?.length || 0}`,
-          );
-        }
+      // Update status to PROCESSING
+      if (!reprocessingProcessed) {
+        await this.documentRepository.updateStatus(
+          documentId,
+          DocumentStatus.PROCESSING,
+          {
+            processingStartedAt: new Date(),
+          },
+        );
       }
+      await this.statusEvents.statusChanged(document, activeStatus, run);
 
+      // Audit log
+      this.auditService.logAuthEvent({
+        userId: document.userId,
+        provider: 'document-processing',
+        event: DocumentEventType.DOCUMENT_PROCESSING_STARTED,
+        success: true,
+        metadata: {
+          documentId,
+          runId: run.id,
+          pipelineVersion: run.pipelineVersion,
+        },
+      });
+
+      // Run the extraction pipeline routed for this document type
       this.logger.log(
-        `[PDF PROCESSING] Processing method determined: ${processingMethod}`,
+        `[PDF PROCESSING] Starting processing for document ${documentId}`,
       );
 
-      // Store processed output JSON
+      // Stages of the route (for each side of a two-sided insurance card),
+      // then post-processing
+      const activeRun = run;
+      const sides = document.backFileUri ? 2 : 1;
+      const totalStages =
+        this.extractionPipeline.getRoute(document.documentType).flat().length *
+          sides +
+        1;
+      const onStage = (record: ExtractionStageRecord) => {
+        stageLog.push(record);
+        // OCR engines running in parallel read the same pages
+        pagesProcessed = Math.max(pagesProcessed, record.pagesProcessed);
+        void this.statusEvents.stageFinished(
+          document,
+          activeStatus,
+          activeRun,
+          record,
+          {
+            finishedStages: stageLog.length,
+            totalStages,
+            pagesProcessed,
+          },
+        );
+      };
+
+      const { result, processingMethod } = await this.extractionPipeline.run({
+        documentId,
+        documentType: document.documentType,
+        gcsUri: document.rawFileUri,
+        mimeType: document.mimeType,
+        pageCount: document.pageCount,
+        fileBuffer,
+        onStage,
+      });
+
+      // The back of an insurance card is read as a second page
+      const ocrResult = document.backFileUri
+        ? mergeCardSides(
+            result,
+            (
+              await this.extractionPipeline.run({
+                documentId,
+                documentType: document.documentType,
+                gcsUri: document.backFileUri,
+                mimeType: document.backMimeType ?? document.mimeType,
+                onStage,
+              })
+            ).result,
+          )
+        : result;
+
+      // Store processed output JSON (one file per run, kept for comparison)
+      postProcessingStartedAt = new Date();
       // Serialize fullResponse to avoid circular references when storing
       const serializedFullResponse = this.serializeFullResponse(ocrResult.fullResponse);
 
@@ -1056,14 +674,38 @@ export class DocumentProcessingDomainService {
         {
           documentId,
           userId: document.userId,
-          fileName: `${documentId}.json`,
+          fileName: `${documentId}_${run.id}.json`,
           mimeType: 'application/json',
           contentLength: JSON.stringify(serializedFullResponse).length,
         },
       );
 
-      // Extract and save structured fields
-      await this.extractAndSaveFields(documentId, ocrResult);
+      // Classify the document from its text; it is extracted as its declared
+      // type, or as the predicted one if corrected
+      const classification = this.classifyDocument(document, ocrResult);
+      const { documentType } = classification;
+
+      // Extract structured fields (card and prescriber fields by type), result
+      // rows of lab reports, medications of prescriptions and doses of
+      // immunization records (saved when the run is promoted)
+      const extractedFields =
+        documentType === DocumentType.INSURANCE_CARD
+          ? this.extractInsuranceCardFields(documentId, ocrResult)
+          : documentType === DocumentType.PRESCRIPTION
+            ? this.extractPrescriberFields(documentId, ocrResult)
+            : this.extractFields(documentId, ocrResult);
+      const labResults =
+        documentType === DocumentType.LAB_RESULT
+          ? this.extractLabResults(documentId, ocrResult)
+          : undefined;
+      const medications =
+        documentType === DocumentType.PRESCRIPTION
+          ? this.extractMedications(documentId, ocrResult)
+          : undefined;
+      const immunizations =
+        documentType === DocumentType.IMMUNIZATION_RECORD
+          ? this.extractImmunizations(documentId, ocrResult)
+          : undefined;
 
       // Update document with results
       // Log what we're about to store (before serialization)
@@ -1103,50 +745,117 @@ export class DocumentProcessingDomainService {
         );
       }
 
-      await this.documentRepository.updateStatus(
-        documentId,
-        DocumentStatus.PROCESSED,
-        {
-          processedFileUri: processedUri,
-          ocrJsonOutput: serializedOcrJsonOutput,
-          extractedText: ocrResult.text,
-          confidence: ocrResult.confidence,
-          pageCount: ocrResult.pageCount,
-          processedAt: new Date(),
-          processingMethod,
-        },
-      );
-
-      this.logger.log(
-        `[STORAGE] Successfully saved ocrJsonOutput for document ${documentId}`,
+      this.recordAttempt(
+        run,
+        stageLog,
+        attemptStartedAt,
+        postProcessingStartedAt,
       );
+      attemptRecorded = true;
+
+      const completedRun = run; // Narrowed for the callback
+      const promoted = await this.eventBus.transaction(async () => {
+        const completed = await this.reprocessing.completeRun(
+          document,
+          completedRun,
+          {
+            processedFileUri: processedUri,
+            ocrJsonOutput: serializedOcrJsonOutput,
+            extractedText: ocrResult.text,
+            confidence: ocrResult.confidence,
+            pageCount: ocrResult.pageCount,
+            processingMethod,
+            ...classification,
+            extractedFields,
+            labResults,
+            medications,
+            immunizations,
+          },
+        );
 
-      // Audit log
-      this.auditService.logAuthEvent({
-        userId: document.userId,
-        provider: 'document-processing',
-        event: DocumentEventType.DOCUMENT_PROCESSING_COMPLETED as any,
-        success: true,
-        metadata: {
+        // Audit log and webhooks (event subscribers)
+        await this.eventBus.publish(DomainEventName.DOCUMENT_PROCESSED, {
           documentId,
+          userId: document.userId,
+          runId: completedRun.id,
+          promoted: completed,
           confidence: ocrResult.confidence,
           entitiesCount: ocrResult.entities?.length || 0,
-        },
+        });
+
+        return completed;
       });
 
+      this.logger.log(
+        `[STORAGE] Successfully saved ocrJsonOutput for document ${documentId}`,
+      );
+
+      await this.statusEvents.statusChanged(
+        document,
+        DocumentStatus.PROCESSED,
+        run,
+      );
+
       this.logger.log(`Processing complete for document ${documentId}`);
+      if (promoted) {
+        await this.settleDuplicates(documentId, true);
+      }
+      return { outcome: 'completed' };
     } catch (error) {
-      await this.handleProcessingError(documentId, error);
+      if (run && !attemptRecorded) {
+        this.recordAttempt(
+          run,
+          stageLog,
+          attemptStartedAt,
+          postProcessingStartedAt,
+          error,
+        );
+      }
+      return this.handleProcessingError(
+        document,
+        error,
+        run,
+        reprocessingProcessed,
+      );
+    }
+  }
+
+  /**
+   * Add the stages of this attempt to the run, closing the post-processing
+   * stage if it was reached
+   */
+  private recordAttempt(
+    run: DocumentProcessingRun,
+    stageLog: ExtractionStageRecord[],
+    attemptStartedAt: number,
+    postProcessingStartedAt?: Date,
+    error?: unknown,
+  ): void {
+    if (postProcessingStartedAt) {
+      stageLog.push({
+        stage: POST_PROCESSING_STAGE,
+        outcome: error
+          ? ProcessingStageOutcome.FAILED
+          : ProcessingStageOutcome.SUCCEEDED,
+        startedAt: postProcessingStartedAt,
+        durationMs: Date.now() - postProcessingStartedAt.getTime(),
+        pagesProcessed: 0,
+        pagesBilled: 0,
+        errorMessage: error ? sanitizeError(error) : undefined,
+      });
     }
+
+    this.reprocessing.recordAttempt(
+      run,
+      stageLog,
+      Date.now() - attemptStartedAt,
+    );
   }
 
   /**
    * Extract structured fields from OCR result
    */
-  private async extractAndSaveFields(
-    documentId: string,
-    ocrResult: any,
-  ): Promise<void> {
+  private extractFields(documentId: string, ocrResult: any): ExtractedField[] {
     this.logger.log(
       `[FIELD EXTRACTION] Starting field extraction for document ${documentId}`,
     );
@@ -1163,7 +872,7 @@ export class DocumentProcessingDomainService {
       this.logger.warn(
         `[FIELD EXTRACTION] No entities found in OCR result for document ${documentId}`,
       );
-      return;
+      return [];
     }
 
     const fields: ExtractedField[] = [];
@@ -1192,49 +901,226 @@ export class DocumentProcessingDomainService {
       field.createdAt = new Date();
       field.updatedAt = new Date();
 
-      fields.push(field);
+      fields.push(field);
+
+      // Track low-confidence fields for logging
+      if (entity.confidence < 0.7) {
+        lowConfidenceCount++;
+      }
+
+      this.logger.debug(
+        `[FIELD EXTRACTION] Added field: ${field.fieldKey} = ${field.fieldValue?.substring(0, 50)} (confidence: ${field.confidence})`,
+      );
+    }
+
+    this.logger.log(
+      `[FIELD EXTRACTION] Extraction complete: ${fields.length} fields to save (${lowConfidenceCount} low-confidence included)`,
+    );
+
+    if (fields.length === 0) {
+      this.logger.warn(
+        `[FIELD EXTRACTION] No fields to save for document ${documentId} (all filtered out or none extracted)`,
+      );
+    }
+
+    return fields;
+  }
+
+  /**
+   * Extract the fields of an insurance card under their stable keys
+   * Generic entities are kept unless the card has a value for their key
+   * HIPAA: only the field keys are logged
+   */
+  private extractInsuranceCardFields(
+    documentId: string,
+    ocrResult: OcrResult,
+  ): ExtractedField[] {
+    const cardFields = extractInsuranceCardFields(ocrResult.text).map(
+      (cardField) =>
+        Object.assign(new ExtractedField(), {
+          documentId,
+          fieldKey: cardField.key,
+          fieldValue: cardField.value,
+          fieldType: cardField.fieldType,
+          confidence: cardField.confidence,
+          startIndex: cardField.startOffset,
+          endIndex: cardField.endOffset,
+          createdAt: new Date(),
+          updatedAt: new Date(),
+        }),
+    );
+
+    this.logger.log(
+      `[INSURANCE CARD] Extracted ${cardFields.length} card fields for document ${documentId}: ${cardFields.map((field) => field.fieldKey).join(', ')}`,
+    );
+
+    return this.overrideGenericFields(documentId, ocrResult, cardFields);
+  }
+
+  /**
+   * Extract prescriber name, DEA and NPI numbers of a prescription
+   * Generic entities are kept unless the prescription has a value for their key
+   * HIPAA: only the field keys are logged
+   */
+  private extractPrescriberFields(
+    documentId: string,
+    ocrResult: OcrResult,
+  ): ExtractedField[] {
+    const prescriberFields = extractPrescriberFields(ocrResult.text).map(
+      (prescriberField) =>
+        Object.assign(new ExtractedField(), {
+          documentId,
+          fieldKey: prescriberField.key,
+          fieldValue: prescriberField.value,
+          fieldType: 'string',
+          confidence: prescriberField.confidence,
+          startIndex: prescriberField.startOffset,
+          endIndex: prescriberField.endOffset,
+          createdAt: new Date(),
+          updatedAt: new Date(),
+        }),
+    );
+
+    this.logger.log(
+      `[MEDICATIONS] Extracted ${prescriberFields.length} prescriber fields for document ${documentId}: ${prescriberFields.map((field) => field.fieldKey).join(', ')}`,
+    );
+
+    return this.overrideGenericFields(documentId, ocrResult, prescriberFields);
+  }
 
-      // Track low-confidence fields for logging
-      if (entity.confidence < 0.7) {
-        lowConfidenceCount++;
-      }
+  /**
+   * Generic entities, except those with a key of the given typed fields,
+   * followed by the typed fields
+   */
+  private overrideGenericFields(
+    documentId: string,
+    ocrResult: OcrResult,
+    typedFields: ExtractedField[],
+  ): ExtractedField[] {
+    const typedKeys = new Set(typedFields.map((field) => field.fieldKey));
+    return [
+      ...this.extractFields(documentId, ocrResult).filter(
+        (field) => !typedKeys.has(field.fieldKey),
+      ),
+      ...typedFields,
+    ];
+  }
 
-      this.logger.debug(
-        `[FIELD EXTRACTION] Added field: ${field.fieldKey} = ${field.fieldValue?.substring(0, 50)} (confidence: ${field.confidence})`,
-      );
-    }
+  /**
+   * Rebuild the result table of a lab report
+   * HIPAA: only the row count is logged
+   */
+  private extractLabResults(
+    documentId: string,
+    ocrResult: OcrResult,
+  ): LabResult[] {
+    const rows = extractLabResults(ocrResult).map((row) =>
+      Object.assign(new LabResult(), row, { documentId }),
+    );
+    this.logger.log(
+      `[LAB RESULTS] Parsed ${rows.length} result rows for document ${documentId}`,
+    );
+    return rows;
+  }
 
+  /**
+   * Read the medications of a prescription, with normalized sig
+   * HIPAA: only counts are logged, never drug names
+   */
+  private extractMedications(
+    documentId: string,
+    ocrResult: OcrResult,
+  ): Medication[] {
+    const medications = extractMedications(ocrResult.text).map((medication) =>
+      Object.assign(new Medication(), medication, { documentId }),
+    );
     this.logger.log(
-      `[FIELD EXTRACTION] Extraction complete: ${fields.length} fields to save (${lowConfidenceCount} low-confidence included)`,
+      `[MEDICATIONS] Parsed ${medications.length} medications for document ${documentId}`,
     );
+    return medications;
+  }
 
-    if (fields.length > 0) {
-      this.logger.log(
-        `[FIELD EXTRACTION] Saving ${fields.length} fields to database...`,
-      );
-      await this.documentRepository.saveExtractedFields(fields);
-      this.logger.log(
-        `[FIELD EXTRACTION] Successfully saved ${fields.length} extracted fields for document ${documentId}`,
-      );
-    } else {
-      this.logger.warn(
-        `[FIELD EXTRACTION] No fields to save for document ${documentId} (all filtered out or none extracted)`,
-      );
+  /**
+   * Predict the type of a document and pick the type to extract it as
+   * Undeclared documents take the prediction; declared ones only with
+   * auto-correction enabled and a confident prediction. Decided from the
+   * declared type on every run, so reprocessing can revise a correction.
+   * HIPAA: only types and confidences are logged, never the text
+   */
+  private classifyDocument(
+    document: Document,
+    ocrResult: OcrResult,
+  ): RunClassification {
+    if (!this.classification.enabled) {
+      return { documentType: document.documentType };
     }
+
+    const { documentType: predicted, confidence } = classifyDocumentType(
+      ocrResult.text,
+    );
+    const declared = document.declaredDocumentType;
+    const corrected =
+      declared !== undefined &&
+      this.classification.autoCorrect &&
+      predicted !== DocumentType.OTHER &&
+      confidence >= this.classification.autoCorrectMinConfidence;
+    const documentType =
+      declared === undefined || corrected ? predicted : declared;
+
+    this.logger.log(
+      `[CLASSIFIER] Document ${document.id}: predicted ${predicted} (${confidence}), declared ${declared ?? 'none'}, processing as ${documentType}`,
+    );
+    return {
+      documentType,
+      predictedDocumentType: predicted,
+      classificationConfidence: confidence,
+    };
+  }
+
+  /**
+   * Read the administered doses of an immunization record
+   * HIPAA: only counts are logged, never vaccines or dates
+   */
+  private extractImmunizations(
+    documentId: string,
+    ocrResult: OcrResult,
+  ): Immunization[] {
+    const doses = extractImmunizations(ocrResult.text).map((dose) =>
+      Object.assign(new Immunization(), dose, { documentId }),
+    );
+    this.logger.log(
+      `[IMMUNIZATIONS] Read ${doses.length} doses for document ${documentId}`,
+    );
+    return doses;
   }
 
   /**
    * Handle processing errors
+   *
+   * Retries are scheduled through the queue (returned to the worker) rather
+   * than in-process timers, so they survive restarts.
    */
   private async handleProcessingError(
-    documentId: string,
+    processedDocument: Document,
     error: any,
-  ): Promise<void> {
+    run?: DocumentProcessingRun,
+    reprocessingProcessed = false,
+  ): Promise<ProcessingOutcome> {
+    const documentId = processedDocument.id;
+    const errorMessage = sanitizeError(error);
+
+    // A processed document keeps its current results: only the run fails
+    if (reprocessingProcessed) {
+      return this.handleReprocessingError(processedDocument, errorMessage, run);
+    }
+
     const document = await this.documentRepository.findById(documentId);
-    if (!document) return;
+    if (!document) {
+      if (run) await this.reprocessing.failRun(run, errorMessage, false);
+      return { outcome: 'failed', error: errorMessage };
+    }
 
     const retryCount = (document.retryCount || 0) + 1;
-    const errorMessage = this.sanitizeError(error);
 
     if (retryCount < this.maxRetryCount) {
       // Retry
@@ -1242,22 +1128,29 @@ export class DocumentProcessingDomainService {
         `Processing failed for document ${documentId}, retry ${retryCount}/${this.maxRetryCount}`,
       );
 
+      if (run) await this.reprocessing.failRun(run, errorMessage, true);
       await this.documentRepository.update(documentId, {
         retryCount,
         errorMessage,
         status: DocumentStatus.QUEUED,
       });
+      await this.statusEvents.statusChanged(
+        document,
+        DocumentStatus.QUEUED,
+        run,
+      );
 
-      // Retry after delay (note: no buffer available on retry, will use OCR)
-      setTimeout(() => {
-        this.startProcessing(
-          documentId,
-          document.rawFileUri,
-          document.mimeType,
-        ).catch(() => {});
-      }, 30000 * retryCount); // Exponential backoff: 30s, 60s, 90s
-    } else {
-      // Mark as failed
+      // Backoff: 30s, 60s, 90s
+      return {
+        outcome: 'retry',
+        retryAt: new Date(Date.now() + 30000 * retryCount),
+        error: errorMessage,
+      };
+    }
+
+    // Mark as failed
+    await this.eventBus.transaction(async () => {
+      if (run) await this.reprocessing.failRun(run, errorMessage, false);
       await this.documentRepository.updateStatus(
         documentId,
         DocumentStatus.FAILED,
@@ -1267,28 +1160,94 @@ export class DocumentProcessingDomainService {
         },
       );
 
-      // Audit log
-      this.auditService.logAuthEvent({
+      // Audit log and webhooks (event subscribers)
+      await this.eventBus.publish(DomainEventName.DOCUMENT_PROCESSING_FAILED, {
+        documentId,
         userId: document.userId,
-        provider: 'document-processing',
-        event: DocumentEventType.DOCUMENT_PROCESSING_FAILED as any,
-        success: false,
+        runId: run?.id,
+        retryCount,
         errorMessage,
-        metadata: { documentId, retryCount },
       });
+    });
+    await this.statusEvents.statusChanged(document, DocumentStatus.FAILED, run);
+
+    this.logger.error(
+      `Processing permanently failed for document ${documentId}`,
+    );
+    await this.settleDuplicates(documentId, false);
+
+    return { outcome: 'failed', error: errorMessage };
+  }
+
+  /**
+   * Handle a failed attempt to reprocess a processed document
+   * Retries are counted on the run; the document is left untouched
+   */
+  private async handleReprocessingError(
+    document: Document,
+    errorMessage: string,
+    run?: DocumentProcessingRun,
+  ): Promise<ProcessingOutcome> {
+    const documentId = document.id;
+    const attempts = run?.attempts ?? this.maxRetryCount;
+    const willRetry = attempts < this.maxRetryCount;
+    if (run) {
+      await this.reprocessing.failRun(run, errorMessage, willRetry);
+      await this.statusEvents.statusChanged(
+        document,
+        DocumentStatus.PROCESSED,
+        run,
+      );
+    }
+
+    if (willRetry) {
+      this.logger.warn(
+        `[REPROCESS] Reprocessing failed for document ${documentId}, retry ${attempts}/${this.maxRetryCount}`,
+      );
+      return {
+        outcome: 'retry',
+        retryAt: new Date(Date.now() + 30000 * attempts),
+        error: errorMessage,
+      };
+    }
+
+    this.logger.error(
+      `[REPROCESS] Reprocessing permanently failed for document ${documentId}; current results kept`,
+    );
+    return { outcome: 'failed', error: errorMessage };
+  }
 
+  /**
+   * Complete (or release) duplicates waiting on a document that finished
+   * Never throws: the document's own outcome must not be affected
+   */
+  private async settleDuplicates(
+    documentId: string,
+    processed: boolean,
+  ): Promise<void> {
+    try {
+      if (processed) {
+        await this.deduplication.onOriginalProcessed(documentId);
+      } else {
+        await this.deduplication.onOriginalFailed(documentId);
+      }
+    } catch (error) {
       this.logger.error(
-        `Processing permanently failed for document ${documentId}`,
+        `[DEDUP] Failed to settle duplicates of document ${documentId}: ${sanitizeError(error)}`,
       );
     }
   }
 
   /**
    * Get document by ID (with authorization check)
+   *
+   * Owners always have access; other users need an active grant covering
+   * `scope` (see DocumentSharingDomainService).
    */
   async getDocument(
     documentId: string,
     userId: string | number,
+    scope: DocumentGrantScope = DocumentGrantScope.VIEW,
   ): Promise<Document> {
     // Debug: Check if document exists at all
     const documentExists = await this.documentRepository.findById(documentId);
@@ -1302,44 +1261,101 @@ export class DocumentProcessingDomainService {
       userId,
     );
 
+    if (document) {
+      // Audit log access (event subscribers)
+      await this.eventBus.publish(DomainEventName.DOCUMENT_ACCESSED, {
+        documentId,
+        userId: document.userId,
+        accessedByUserId: userId,
+      });
+
+      return document;
+    }
+
+    const grant = documentExists
+      ? await this.documentSharing.useGrant(documentId, userId, scope)
+      : null;
+
+    if (!documentExists || !grant) {
+      return this.denyAccess(documentId, userId, documentExists, scope);
+    }
+
+    // Audit log delegated access (shows in the owner's access history)
+    await this.eventBus.publish(DomainEventName.DOCUMENT_ACCESSED, {
+      documentId,
+      userId: documentExists.userId,
+      accessedByUserId: userId,
+      grantId: grant.id,
+      scope,
+    });
+
+    return documentExists;
+  }
+
+  /**
+   * Access history of a document (owner only)
+   */
+  async getAccessLog(
+    documentId: string,
+    userId: string | number,
+    paginationOptions: IPaginationOptions,
+  ): Promise<AccessLogEntryDto[]> {
+    await this.getOwnedDocument(documentId, userId, 'access-log');
+
+    return this.auditService.findAccessLog({
+      viewerId: userId,
+      documentId,
+      paginationOptions,
+    });
+  }
+
+  /**
+   * Get document by ID, owner only (grants are ignored)
+   */
+  private async getOwnedDocument(
+    documentId: string,
+    userId: string | number,
+    action: string,
+  ): Promise<Document> {
+    const document = await this.documentRepository.findByIdAndUserId(
+      documentId,
+      userId,
+    );
+
     if (!document) {
-      // Log detailed info for debugging
-      if (documentExists) {
-        this.logger.warn(
-          `[AUTH] Document ${documentId} exists but belongs to user ${documentExists.userId}, not ${userId}`,
-        );
-      } else {
-        this.logger.warn(
-          `[AUTH] Document ${documentId} does not exist in database`,
-        );
-      }
+      const documentExists = await this.documentRepository.findById(documentId);
+      return this.denyAccess(documentId, userId, documentExists, action);
+    }
 
-      // Audit log unauthorized access attempt
-      this.auditService.logAuthEvent({
-        userId,
-        provider: 'document-processing',
-        event: DocumentEventType.UNAUTHORIZED_DOCUMENT_ACCESS as any,
-        success: false,
-        metadata: {
-          documentId,
-          documentExists: !!documentExists,
-          documentOwnerId: documentExists?.userId,
-        },
-      });
+    return document;
+  }
 
-      throw new NotFoundException('Document not found');
+  private async denyAccess(
+    documentId: string,
+    userId: string | number,
+    documentExists: Document | null,
+    action: string,
+  ): Promise<never> {
+    // Log detailed info for debugging
+    if (documentExists) {
+      this.logger.warn(
+        `[AUTH] Document ${documentId} exists but belongs to user ${documentExists.userId}, not ${userId}`,
+      );
+    } else {
+      this.logger.warn(
+        `[AUTH] Document ${documentId} does not exist in database`,
+      );
     }
 
-    // Audit log access
-    this.auditService.logAuthEvent({
+    // Audit log unauthorized access attempt (event subscribers)
+    await this.eventBus.publish(DomainEventName.DOCUMENT_ACCESS_DENIED, {
       userId,
-      provider: 'document-processing',
-      event: DocumentEventType.DOCUMENT_ACCESSED as any,
-      success: true,
-      metadata: { documentId },
+      ownerUserId: documentExists?.userId,
+      documentId,
+      action,
     });
 
-    return document;
+    throw new NotFoundException('Document not found');
   }
 
   /**
@@ -1373,7 +1389,7 @@ export class DocumentProcessingDomainService {
     documentId: string,
     userId: string | number,
   ): Promise<void> {
-    const document = await this.getDocument(documentId, userId); // Checks authorization
+    const document = await this.getOwnedDocument(documentId, userId, 'delete'); // Owner only
 
     if (document.deletedAt) {
       throw new ForbiddenException('Document already deleted');
@@ -1384,21 +1400,18 @@ export class DocumentProcessingDomainService {
       scheduledDeletionAt.getFullYear() + this.retentionYears,
     );
 
-    await this.documentRepository.update(documentId, {
-      deletedAt: new Date(),
-      scheduledDeletionAt,
-    });
+    await this.eventBus.transaction(async () => {
+      await this.documentRepository.update(documentId, {
+        deletedAt: new Date(),
+        scheduledDeletionAt,
+      });
 
-    // Audit log
-    this.auditService.logAuthEvent({
-      userId,
-      provider: 'document-processing',
-      event: DocumentEventType.DOCUMENT_DELETED as any,
-      success: true,
-      metadata: {
+      // Audit log and webhooks (event subscribers)
+      await this.eventBus.publish(DomainEventName.DOCUMENT_DELETED, {
         documentId,
+        userId,
         scheduledDeletionAt: scheduledDeletionAt.toISOString(),
-      },
+      });
     });
 
     this.logger.log(
@@ -1413,8 +1426,17 @@ export class DocumentProcessingDomainService {
     documentId: string,
     userId: string | number,
   ): Promise<string> {
-    const document = await this.getDocument(documentId, userId); // Checks authorization
+    const document = await this.getDocument(
+      documentId,
+      userId,
+      DocumentGrantScope.DOWNLOAD,
+    ); // Checks authorization
 
+    if (document.status === DocumentStatus.QUARANTINED) {
+      throw new ForbiddenException(
+        'Document failed security inspection and cannot be downloaded',
+      );
+    }
     if (!document.rawFileUri) {
       throw new NotFoundException('Document file not available');
     }
@@ -1432,7 +1454,8 @@ export class DocumentProcessingDomainService {
     this.logger.log(
       `[FIELD RETRIEVAL] Getting extracted fields for document ${documentId}`,
     );
-    await this.getDocument(documentId, userId); // Authorization check
+    // Authorization check
+    await this.getDocument(documentId, userId, DocumentGrantScope.FIELDS);
     const fields =
       await this.documentRepository.findExtractedFieldsByDocumentId(documentId);
     this.logger.log(
@@ -1451,6 +1474,110 @@ export class DocumentProcessingDomainService {
     return fields;
   }
 
+  /**
+   * Get the lab result rows of a document (empty unless it is a lab report)
+   */
+  async getLabResults(
+    documentId: string,
+    userId: string | number,
+  ): Promise<LabResult[]> {
+    // Authorization check (rows are extracted data, like fields)
+    await this.getDocument(documentId, userId, DocumentGrantScope.FIELDS);
+    return this.labResultRepository.findByDocumentId(documentId);
+  }
+
+  /**
+   * Get the medications of a document (empty unless it is a prescription)
+   */
+  async getMedications(
+    documentId: string,
+    userId: string | number,
+  ): Promise<Medication[]> {
+    // Authorization check (medications are extracted data, like fields)
+    await this.getDocument(documentId, userId, DocumentGrantScope.FIELDS);
+    return this.medicationRepository.findByDocumentId(documentId);
+  }
+
+  /**
+   * Get a user's immunization history across their processed immunization
+   * records, oldest dose first (undated doses last)
+   *
+   * The same dose (CVX code and date) recorded by several documents, e.g. a
+   * vaccination card and a state record, is listed once with the details of
+   * the most confident reading.
+   */
+  async getImmunizationHistory(
+    userId: string | number,
+  ): Promise<ImmunizationHistoryEntry[]> {
+    const { data: documents } = await this.documentRepository.findByUserId(
+      userId,
+      { status: [DocumentStatus.PROCESSED] },
+    );
+    const immunizations = await this.immunizationRepository.findByDocumentIds(
+      documents
+        .filter(
+          (document) =>
+            document.documentType === DocumentType.IMMUNIZATION_RECORD,
+        )
+        .map((document) => document.id),
+    );
+
+    // Audit log access to each document the history is read from (event
+    // subscribers)
+    for (const documentId of new Set(
+      immunizations.map((immunization) => immunization.documentId),
+    )) {
+      await this.eventBus.publish(DomainEventName.DOCUMENT_ACCESSED, {
+        documentId,
+        userId,
+        accessedByUserId: userId,
+        view: 'immunization_history',
+      });
+    }
+
+    const entries = new Map<string, ImmunizationHistoryEntry>();
+    for (const immunization of immunizations) {
+      // Undated doses cannot be matched across documents
+      const key = immunization.administeredDate
+        ? `${immunization.cvxCode}|${immunization.administeredDate}`
+        : immunization.id;
+      const entry = entries.get(key);
+      if (!entry) {
+        entries.set(key, {
+          cvxCode: immunization.cvxCode,
+          vaccineName: immunization.vaccineName,
+          printedName: immunization.printedName,
+          administeredDate: immunization.administeredDate,
+          doseNumber: immunization.doseNumber,
+          lotNumber: immunization.lotNumber,
+          manufacturer: immunization.manufacturer,
+          administeredAt: immunization.administeredAt,
+          confidence: immunization.confidence,
+          documentIds: [immunization.documentId],
+        });
+        continue;
+      }
+
+      if (!entry.documentIds.includes(immunization.documentId)) {
+        entry.documentIds.push(immunization.documentId);
+      }
+      const [preferred, other] =
+        immunization.confidence > entry.confidence
+          ? [immunization, entry]
+          : [entry, immunization];
+      Object.assign(entry, {
+        printedName: preferred.printedName,
+        doseNumber: preferred.doseNumber ?? other.doseNumber,
+        lotNumber: preferred.lotNumber ?? other.lotNumber,
+        manufacturer: preferred.manufacturer ?? other.manufacturer,
+        administeredAt: preferred.administeredAt ?? other.administeredAt,
+        confidence: preferred.confidence,
+      });
+    }
+
+    return [...entries.values()];
+  }
+
   /**
    * Get Vision AI OCR output for document
    */
@@ -1458,7 +1585,11 @@ export class DocumentProcessingDomainService {
     documentId: string,
     userId: string | number,
   ): Promise<any> {
-    const document = await this.getDocument(documentId, userId); // Authorization check
+    const document = await this.getDocument(
+      documentId,
+      userId,
+      DocumentGrantScope.FIELDS,
+    ); // Authorization check
 
     if (!document.ocrJsonOutput) {
       this.logger.debug(
@@ -1495,7 +1626,7 @@ export class DocumentProcessingDomainService {
         const result = document.ocrJsonOutput;
         // Sanitize fullResponse to remove image fields from pages
         if (result?.fullResponse) {
-          result.fullResponse = this.sanitizeFullResponse(result.fullResponse);
+          result.fullResponse = sanitizeFullResponse(result.fullResponse);
         }
         return result;
       }
@@ -1533,7 +1664,7 @@ export class DocumentProcessingDomainService {
 
     // Sanitize fullResponse to remove image fields from pages before returning
     if (rawVisionResult?.fullResponse) {
-      rawVisionResult.fullResponse = this.sanitizeFullResponse(
+      rawVisionResult.fullResponse = sanitizeFullResponse(
         rawVisionResult.fullResponse,
       );
     }
@@ -1548,7 +1679,11 @@ export class DocumentProcessingDomainService {
     documentId: string,
     userId: string | number,
   ): Promise<any> {
-    const document = await this.getDocument(documentId, userId); // Authorization check
+    const document = await this.getDocument(
+      documentId,
+      userId,
+      DocumentGrantScope.FIELDS,
+    ); // Authorization check
 
     if (!document.ocrJsonOutput) {
       this.logger.debug(
@@ -1585,7 +1720,7 @@ export class DocumentProcessingDomainService {
         const result = document.ocrJsonOutput;
         // Sanitize fullResponse to remove image fields from pages
         if (result?.fullResponse) {
-          result.fullResponse = this.sanitizeFullResponse(result.fullResponse);
+          result.fullResponse = sanitizeFullResponse(result.fullResponse);
         }
         return result;
       }
@@ -1628,7 +1763,7 @@ export class DocumentProcessingDomainService {
 
     // Sanitize fullResponse to remove image fields from pages before returning
     if (rawDocumentAiResult?.fullResponse) {
-      rawDocumentAiResult.fullResponse = this.sanitizeFullResponse(
+      rawDocumentAiResult.fullResponse = sanitizeFullResponse(
         rawDocumentAiResult.fullResponse,
       );
     }
@@ -1666,32 +1801,34 @@ export class DocumentProcessingDomainService {
 
       for (const document of expiredDocuments) {
         try {
-          // 1. Delete raw file from GCS
+          // 1. Delete raw file from GCS (both sides of insurance cards)
           if (document.rawFileUri) {
             await this.storageService.delete(document.rawFileUri);
           }
+          if (document.backFileUri) {
+            await this.storageService.delete(document.backFileUri);
+          }
 
-          // 2. Delete processed file from GCS (if exists)
+          // 2. Delete processed file from GCS (if exists), and the outputs
+          //    of every other processing run
           if (document.processedFileUri) {
             await this.storageService.delete(document.processedFileUri);
           }
+          await this.reprocessing.deleteRuns(document);
 
-          // 3. Hard delete from database (cascade deletes extracted_fields)
-          await this.documentRepository.hardDelete(document.id);
+          await this.eventBus.transaction(async () => {
+            // 3. Hard delete from database (cascade deletes extracted_fields)
+            await this.documentRepository.hardDelete(document.id);
 
-          // 4. Audit log (CRITICAL: Log persists even after document deletion)
-          this.auditService.logAuthEvent({
-            userId: document.userId,
-            provider: 'document-processing',
-            event: DocumentEventType.DOCUMENT_HARD_DELETED as any,
-            success: true,
-            metadata: {
+            // 4. Audit log (CRITICAL: Log persists even after document
+            //    deletion) and webhooks (event subscribers)
+            await this.eventBus.publish(DomainEventName.DOCUMENT_HARD_DELETED, {
               documentId: document.id,
+              userId: document.userId,
               documentType: document.documentType,
               deletedAt: document.deletedAt?.toISOString(),
               retentionYears: this.retentionYears,
-              reason: 'scheduled_cleanup',
-            },
+            });
           });
 
           successCount++;
@@ -1706,9 +1843,9 @@ export class DocumentProcessingDomainService {
           this.auditService.logAuthEvent({
             userId: document.userId,
             provider: 'document-processing',
-            event: DocumentEventType.DOCUMENT_HARD_DELETED as any,
+            event: DocumentEventType.DOCUMENT_HARD_DELETED,
             success: false,
-            errorMessage: this.sanitizeError(error),
+            errorMessage: sanitizeError(error),
             metadata: {
               documentId: document.id,
               reason: 'scheduled_cleanup_failed',
@@ -1746,103 +1883,6 @@ export class DocumentProcessingDomainService {
     return 'string';
   }
 
-  private sanitizeError(error: any): string {
-    const message = error?.message || String(error);
-    return message
-      .replace(/gs:\/\/[^\s]+/g, '[URI_REDACTED]')
-      .replace(/projects\/[^\/\s]+/g, '[PROJECT_REDACTED]')
-      .substring(0, 500);
-  }
-
-  /**
-   * Sanitize fullResponse by removing image fields from pages
-   * This reduces payload size and avoids exposing image data
-   */
-  private sanitizeFullResponse(fullResponse: any): any {
-    if (!fullResponse) {
-      return fullResponse;
-    }
-
-    try {
-      // Deep clone to avoid mutating original
-      const seen = new WeakSet();
-      const sanitized = JSON.parse(
-        JSON.stringify(fullResponse, (key, value) => {
-          // Skip circular references
-          if (typeof value === 'object' && value !== null) {
-            if (seen.has(value)) {
-              return '[Circular Reference]';
-            }
-            seen.add(value);
-          }
-          return value;
-        }),
-      );
-
-      // Remove image field from pages array
-      if (sanitized && Array.isArray(sanitized.pages)) {
-        sanitized.pages = sanitized.pages.map((page: any) => {
-          if (page && typeof page === 'object') {
-            const { image, ...pageWithoutImage } = page;
-            return pageWithoutImage;
-          }
-          return page;
-        });
-      }
-
-      return sanitized;
-    } catch (error) {
-      // If sanitization fails, return original (will be handled by caller)
-      this.logger.warn(
-        `Failed to sanitize fullResponse: ${this.sanitizeError(error)}. Returning original.`,
-      );
-      return fullResponse;
-    }
-  }
-
-  /**
-   * Serialize OCR result to avoid circular references when storing in database
-   * Creates a clean copy without circular references
-   */
-  private serializeOcrResult(ocrResult: any): any {
-    if (!ocrResult) {
-      return null;
-    }
-
-    try {
-      // Create a clean copy with only the data we need
-      const serialized: any = {
-        text: ocrResult.text,
-        confidence: ocrResult.confidence,
-        pageCount: ocrResult.pageCount,
-        entities: ocrResult.entities ? [...ocrResult.entities] : undefined,
-        outputRef: ocrResult.outputRef,
-      };
-
-      // Safely serialize fullResponse (which may contain circular references)
-      // and remove image fields from pages
-      if (ocrResult.fullResponse) {
-        serialized.fullResponse = this.sanitizeFullResponse(
-          ocrResult.fullResponse,
-        );
-      }
-
-      return serialized;
-    } catch (error) {
-      // If serialization fails, return a minimal safe structure
-      this.logger.warn(
-        `Failed to serialize OCR result: ${this.sanitizeError(error)}. Returning minimal structure.`,
-      );
-      return {
-        text: ocrResult.text,
-        confidence: ocrResult.confidence,
-        pageCount: ocrResult.pageCount,
-        entities: ocrResult.entities,
-        fullResponse: '[Serialization Error]',
-      };
-    }
-  }
-
   /**
    * Serialize fullResponse object to avoid circular references
    * Used when storing ocrJsonOutput in database
@@ -1870,7 +1910,7 @@ export class DocumentProcessingDomainService {
       }
       // For other errors, log and return null
       this.logger.warn(
-        `Failed to serialize fullResponse: ${this.sanitizeError(error)}. Returning null.`,
+        `Failed to serialize fullResponse: ${sanitizeError(error)}. Returning null.`,
       );
       return null;
     }
@@ -0,0 +1,186 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConflictException, HttpException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { DocumentReprocessingDomainService } from './document-reprocessing.domain.service';
+import { DocumentRepositoryPort } from '../ports/document.repository.port';
+import { DocumentProcessingRunRepositoryPort } from '../ports/document-processing-run.repository.port';
+import { ProcessingQueuePort } from '../ports/processing-queue.port';
+import { LabResultRepositoryPort } from '../ports/lab-result.repository.port';
+import { MedicationRepositoryPort } from '../ports/medication.repository.port';
+import { DocumentStatus } from '../enums/document-status.enum';
+import { ProcessingRunStatus } from '../enums/processing-run-status.enum';
+import { ProcessingRunTrigger } from '../enums/processing-run-trigger.enum';
+import { DomainEventBus } from '../../../domain-events/domain-event-bus.service';
+import { AuditService } from '../../../audit/audit.service';
+
+describe('DocumentReprocessingDomainService', () => {
+  let service: DocumentReprocessingDomainService;
+  let mockRepository: jest.Mocked<DocumentRepositoryPort>;
+  let mockRuns: jest.Mocked<DocumentProcessingRunRepositoryPort>;
+  let mockQueue: jest.Mocked<ProcessingQueuePort>;
+  let mockLabResults: jest.Mocked<LabResultRepositoryPort>;
+  let mockMedications: jest.Mocked<MedicationRepositoryPort>;
+
+  const processed = {
+    id: 'doc-100',
+    userId: 1,
+    status: DocumentStatus.PROCESSED,
+    currentRunId: 'run-1',
+    pipelineVersion: '0',
+  } as any;
+
+  beforeEach(async () => {
+    mockRepository = {
+      findById: jest.fn(),
+      findByIdAndUserId: jest.fn(),
+      update: jest.fn(),
+      updateStatus: jest.fn(),
+      saveExtractedFields: jest.fn(),
+      deleteExtractedFields: jest.fn(),
+    } as any;
+
+    mockRuns = {
+      create: jest.fn((run) => Promise.resolve({ ...run, id: 'run-2' })),
+      update: jest.fn(),
+      findById: jest.fn(),
+      findByDocumentId: jest.fn().mockResolvedValue([]),
+      findOpenByDocumentId: jest.fn().mockResolvedValue(null),
+    } as any;
+
+    mockQueue = {
+      enqueue: jest.fn(),
+    } as any;
+
+    mockLabResults = {
+      replaceForDocument: jest.fn(),
+      findByDocumentId: jest.fn(),
+    };
+
+    mockMedications = {
+      replaceForDocument: jest.fn(),
+      findByDocumentId: jest.fn(),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        DocumentReprocessingDomainService,
+        { provide: 'DocumentRepositoryPort', useValue: mockRepository },
+        { provide: 'DocumentProcessingRunRepositoryPort', useValue: mockRuns },
+        { provide: 'ProcessingQueuePort', useValue: mockQueue },
+        { provide: 'StorageServicePort', useValue: { delete: jest.fn() } },
+        { provide: 'LabResultRepositoryPort', useValue: mockLabResults },
+        { provide: 'MedicationRepositoryPort', useValue: mockMedications },
+        {
+          provide: 'ImmunizationRepositoryPort',
+          useValue: {
+            replaceForDocument: jest.fn(),
+            findByDocumentId: jest.fn(),
+          },
+        },
+        {
+          provide: DomainEventBus,
+          useValue: {
+            publish: jest.fn(),
+            transaction: jest.fn((work) => work()),
+          },
+        },
+        { provide: AuditService, useValue: { logAuthEvent: jest.fn() } },
+        {
+          provide: ConfigService,
+          useValue: { getOrThrow: jest.fn().mockReturnValue(300) },
+        },
+      ],
+    }).compile();
+
+    service = module.get(DocumentReprocessingDomainService);
+  });
+
+  it('should queue a run for a processed document without touching its results', async () => {
+    mockRepository.findByIdAndUserId.mockResolvedValue({ ...processed });
+
+    const run = await service.requestReprocess('doc-100', 1, false);
+
+    expect(mockRuns.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        documentId: 'doc-100',
+        trigger: ProcessingRunTrigger.REPROCESS,
+        status: ProcessingRunStatus.QUEUED,
+        promoteOnSuccess: false,
+      }),
+    );
+    expect(run.id).toBe('run-2');
+    expect(mockQueue.enqueue).toHaveBeenCalledWith('doc-100');
+    expect(mockRepository.update).not.toHaveBeenCalled();
+    expect(mockRepository.updateStatus).not.toHaveBeenCalled();
+  });
+
+  it('should refuse to reprocess a document that already has an open run', async () => {
+    mockRepository.findByIdAndUserId.mockResolvedValue({ ...processed });
+    mockRuns.findOpenByDocumentId.mockResolvedValue({ id: 'run-2' } as any);
+
+    await expect(service.requestReprocess('doc-100', 1)).rejects.toThrow(
+      ConflictException,
+    );
+    expect(mockQueue.enqueue).not.toHaveBeenCalled();
+  });
+
+  it('should refuse to reprocess again within the cooldown', async () => {
+    mockRepository.findByIdAndUserId.mockResolvedValue({ ...processed });
+    mockRuns.findByDocumentId.mockResolvedValue([
+      {
+        id: 'run-2',
+        trigger: ProcessingRunTrigger.REPROCESS,
+        status: ProcessingRunStatus.SUCCEEDED,
+        createdAt: new Date(Date.now() - 60 * 1000),
+      } as any,
+    ]);
+
+    await expect(service.requestReprocess('doc-100', 1)).rejects.toThrow(
+      HttpException,
+    );
+    expect(mockRuns.create).not.toHaveBeenCalled();
+  });
+
+  it('should replace the current results when a run is promoted', async () => {
+    mockRepository.findByIdAndUserId.mockResolvedValue({ ...processed });
+    mockRuns.findById.mockResolvedValue({
+      id: 'run-2',
+      documentId: 'doc-100',
+      pipelineVersion: '1',
+      status: ProcessingRunStatus.SUCCEEDED,
+      extractedText: 'new text',
+      extractedFields: [
+        { id: 'field-9', documentId: 'doc-100', fieldKey: 'patient_name' },
+      ],
+      labResults: [
+        { id: 'lab-9', documentId: 'doc-100', analyte: 'Hemoglobin' },
+      ],
+    } as any);
+
+    await service.promoteRun('doc-100', 'run-2', 1);
+
+    expect(mockRepository.deleteExtractedFields).toHaveBeenCalledWith(
+      'doc-100',
+    );
+    expect(mockRepository.saveExtractedFields).toHaveBeenCalledWith([
+      expect.objectContaining({ id: undefined, fieldKey: 'patient_name' }),
+    ]);
+    expect(mockLabResults.replaceForDocument).toHaveBeenCalledWith('doc-100', [
+      expect.objectContaining({ id: undefined, analyte: 'Hemoglobin' }),
+    ]);
+    // Not a prescription: the document's medications are cleared
+    expect(mockMedications.replaceForDocument).toHaveBeenCalledWith(
+      'doc-100',
+      [],
+    );
+    expect(mockRepository.updateStatus).toHaveBeenCalledWith(
+      'doc-100',
+      DocumentStatus.PROCESSED,
+      expect.objectContaining({
+        currentRunId: 'run-2',
+        pipelineVersion: '1',
+        extractedText: 'new text',
+      }),
+    );
+  });
+});
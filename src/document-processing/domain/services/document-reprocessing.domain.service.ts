@@ -0,0 +1,593 @@
+import {
+  ConflictException,
+  HttpException,
+  HttpStatus,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  DocumentReprocessFilter,
+  DocumentRepositoryPort,
+} from '../ports/document.repository.port';
+import { DocumentProcessingRunRepositoryPort } from '../ports/document-processing-run.repository.port';
+import { LabResultRepositoryPort } from '../ports/lab-result.repository.port';
+import { MedicationRepositoryPort } from '../ports/medication.repository.port';
+import { ImmunizationRepositoryPort } from '../ports/immunization.repository.port';
+import { ProcessingQueuePort } from '../ports/processing-queue.port';
+import { StorageServicePort } from '../ports/storage.service.port';
+import { Document } from '../entities/document.entity';
+import { DocumentProcessingRun } from '../entities/document-processing-run.entity';
+import { ExtractedField } from '../entities/extracted-field.entity';
+import { LabResult } from '../entities/lab-result.entity';
+import { Medication } from '../entities/medication.entity';
+import { Immunization } from '../entities/immunization.entity';
+import { ProcessingStageRecord } from '../entities/processing-stage-record.entity';
+import { DocumentStatus } from '../enums/document-status.enum';
+import { ProcessingRunStatus } from '../enums/processing-run-status.enum';
+import { ProcessingRunTrigger } from '../enums/processing-run-trigger.enum';
+import { AllConfigType } from '../../../config/config.type';
+import { DomainEventBus } from '../../../domain-events/domain-event-bus.service';
+import { DomainEventName } from '../../../domain-events/domain/domain-event';
+import {
+  EXTRACTION_PIPELINE_VERSION,
+  ExtractionStageRecord,
+} from './extraction-pipeline.service';
+
+// Documents with a final outcome; anything else is still in flight
+const REPROCESSABLE_STATUSES = [
+  DocumentStatus.PROCESSED,
+  DocumentStatus.FAILED,
+];
+
+/**
+ * Outputs of a successful processing run
+ */
+export type ProcessingRunOutputs = Pick<
+  DocumentProcessingRun,
+  | 'processingMethod'
+  | 'documentType'
+  | 'predictedDocumentType'
+  | 'classificationConfidence'
+  | 'processedFileUri'
+  | 'ocrJsonOutput'
+  | 'extractedText'
+  | 'confidence'
+  | 'pageCount'
+  | 'extractedFields'
+  | 'labResults'
+  | 'medications'
+  | 'immunizations'
+>;
+
+export interface BulkReprocessResult {
+  documentIds: string[]; // Queued for reprocessing
+  skipped: number; // Matched, but already being processed
+}
+
+/**
+ * Domain Service for Processing Runs and Reprocessing
+ *
+ * Every execution of the extraction pipeline on a document is a run, stamped
+ * with EXTRACTION_PIPELINE_VERSION. A run keeps its own outputs (OCR JSON,
+ * text, extracted fields, lab results and processed file), so results of
+ * different pipeline versions can be compared. The document holds the results
+ * of one run, its current run; any succeeded run can be promoted to current.
+ *
+ * Reprocessing (owner, or admin in bulk) queues a new run. A processed
+ * document keeps serving its current results while the run executes; the run
+ * is promoted when it succeeds unless promotion was declined. A failed
+ * document has no results to keep and is processed from scratch.
+ *
+ * HIPAA Compliance:
+ * - Run outputs are PHI: only returned to the document owner
+ * - Reprocess requests and promotions are audited; bulk requests by an admin
+ *   are attributed to the admin and the document owner
+ */
+@Injectable()
+export class DocumentReprocessingDomainService {
+  private readonly logger = new Logger(DocumentReprocessingDomainService.name);
+
+  constructor(
+    @Inject('DocumentRepositoryPort')
+    private readonly documentRepository: DocumentRepositoryPort,
+    @Inject('DocumentProcessingRunRepositoryPort')
+    private readonly runRepository: DocumentProcessingRunRepositoryPort,
+    @Inject('ProcessingQueuePort')
+    private readonly processingQueue: ProcessingQueuePort,
+    @Inject('StorageServicePort')
+    private readonly storageService: StorageServicePort,
+    @Inject('LabResultRepositoryPort')
+    private readonly labResultRepository: LabResultRepositoryPort,
+    @Inject('MedicationRepositoryPort')
+    private readonly medicationRepository: MedicationRepositoryPort,
+    @Inject('ImmunizationRepositoryPort')
+    private readonly immunizationRepository: ImmunizationRepositoryPort,
+    private readonly eventBus: DomainEventBus,
+    private readonly configService: ConfigService<AllConfigType>,
+  ) {}
+
+  /**
+   * Reprocess a document with the current pipeline (owner only)
+   * @param promote - Make the results current when the run succeeds
+   * @throws ConflictException if the document is still being processed
+   */
+  async requestReprocess(
+    documentId: string,
+    userId: string | number,
+    promote = true,
+  ): Promise<DocumentProcessingRun> {
+    const document = await this.getOwnedDocument(documentId, userId);
+    await this.assertCooldownElapsed(document.id);
+    return this.queueRun(document, userId, promote);
+  }
+
+  /**
+   * Reprocess every document matching a filter (admin)
+   * Documents already being processed are skipped
+   */
+  async bulkReprocess(
+    filter: Omit<DocumentReprocessFilter, 'statuses'> & {
+      statuses?: DocumentStatus[];
+    },
+    adminUserId: string | number,
+    promote = true,
+  ): Promise<BulkReprocessResult> {
+    const documents = await this.documentRepository.findForReprocessing({
+      ...filter,
+      statuses: filter.statuses ?? REPROCESSABLE_STATUSES,
+    });
+
+    const documentIds: string[] = [];
+    let skipped = 0;
+    for (const document of documents) {
+      try {
+        await this.queueRun(document, adminUserId, promote);
+        documentIds.push(document.id);
+      } catch (error) {
+        if (!(error instanceof ConflictException)) throw error;
+        skipped++;
+      }
+    }
+
+    this.logger.log(
+      `[REPROCESS] Bulk reprocess by user ${adminUserId}: ${documentIds.length} queued, ${skipped} skipped`,
+    );
+
+    return { documentIds, skipped };
+  }
+
+  /**
+   * Processing runs of a document, newest first (owner only)
+   */
+  async listRuns(
+    documentId: string,
+    userId: string | number,
+  ): Promise<{ document: Document; runs: DocumentProcessingRun[] }> {
+    const document = await this.getOwnedDocument(documentId, userId);
+    const runs = await this.runRepository.findByDocumentId(documentId);
+    return { document, runs };
+  }
+
+  /**
+   * A single run with its outputs (owner only)
+   */
+  async getRun(
+    documentId: string,
+    runId: string,
+    userId: string | number,
+  ): Promise<{ document: Document; run: DocumentProcessingRun }> {
+    const document = await this.getOwnedDocument(documentId, userId);
+    const run = await this.runRepository.findById(runId);
+    if (!run || run.documentId !== documentId) {
+      throw new NotFoundException('Processing run not found');
+    }
+    return { document, run };
+  }
+
+  /**
+   * Make a succeeded run's results the document's current results (owner only)
+   * @throws ConflictException if the run did not succeed or the document is
+   *   being processed
+   */
+  async promoteRun(
+    documentId: string,
+    runId: string,
+    userId: string | number,
+  ): Promise<Document> {
+    const { document, run } = await this.getRun(documentId, runId, userId);
+
+    if (run.status !== ProcessingRunStatus.SUCCEEDED) {
+      throw new ConflictException('Only succeeded runs can be promoted');
+    }
+    if (
+      document.status !== DocumentStatus.PROCESSED ||
+      (await this.runRepository.findOpenByDocumentId(documentId))
+    ) {
+      throw new ConflictException('Document is being processed');
+    }
+
+    if (document.currentRunId !== run.id) {
+      const previousRunId = document.currentRunId;
+      await this.eventBus.transaction(async () => {
+        await this.promote(document, run);
+
+        await this.eventBus.publish(DomainEventName.DOCUMENT_RUN_PROMOTED, {
+          documentId,
+          userId,
+          runId,
+          previousRunId,
+          pipelineVersion: run.pipelineVersion,
+        });
+      });
+    }
+
+    return (await this.documentRepository.findById(documentId)) ?? document;
+  }
+
+  /**
+   * Processing runs of any document, newest first (admin)
+   * Callers must only expose run metadata, never outputs
+   */
+  async listRunsForAdmin(
+    documentId: string,
+  ): Promise<{ document: Document; runs: DocumentProcessingRun[] }> {
+    const document = await this.documentRepository.findById(documentId);
+    if (!document) {
+      throw new NotFoundException('Document not found');
+    }
+    const runs = await this.runRepository.findByDocumentId(documentId);
+    return { document, runs };
+  }
+
+  /**
+   * Most recent run of a document, if any
+   */
+  async findLatestRun(
+    documentId: string,
+  ): Promise<DocumentProcessingRun | undefined> {
+    const [latest] = await this.runRepository.findByDocumentId(documentId);
+    return latest;
+  }
+
+  /**
+   * Open run of a document (queued or running), if any
+   */
+  async findOpenRun(
+    documentId: string,
+  ): Promise<DocumentProcessingRun | undefined> {
+    return (
+      (await this.runRepository.findOpenByDocumentId(documentId)) ?? undefined
+    );
+  }
+
+  async findOpenRuns(): Promise<DocumentProcessingRun[]> {
+    return this.runRepository.findOpen();
+  }
+
+  /**
+   * Start executing the open run of a document
+   * Documents processed for the first time get an UPLOAD run
+   */
+  async beginRun(document: Document): Promise<DocumentProcessingRun> {
+    const run =
+      (await this.runRepository.findOpenByDocumentId(document.id)) ??
+      (await this.runRepository.create(
+        this.newRun(document.id, ProcessingRunTrigger.UPLOAD, true),
+      ));
+
+    run.status = ProcessingRunStatus.RUNNING;
+    run.attempts = (run.attempts || 0) + 1;
+    run.startedAt = run.startedAt ?? new Date();
+    await this.runRepository.update(run.id, {
+      status: run.status,
+      attempts: run.attempts,
+      startedAt: run.startedAt,
+    });
+
+    return run;
+  }
+
+  /**
+   * Add the stages of the current attempt to a run (saved when the attempt
+   * completes or fails)
+   */
+  recordAttempt(
+    run: DocumentProcessingRun,
+    stages: ExtractionStageRecord[],
+    durationMs: number,
+  ): void {
+    const records: ProcessingStageRecord[] = stages.map((stage) => ({
+      ...stage,
+      attempt: run.attempts,
+    }));
+
+    run.stages = [...(run.stages ?? []), ...records];
+    run.durationMs = (run.durationMs ?? 0) + durationMs;
+    run.pagesBilled =
+      (run.pagesBilled ?? 0) +
+      records.reduce((total, record) => total + record.pagesBilled, 0);
+  }
+
+  /**
+   * Record a run's outputs and promote it if it should become current
+   * @returns Whether the run was promoted
+   */
+  async completeRun(
+    document: Document,
+    run: DocumentProcessingRun,
+    outputs: ProcessingRunOutputs,
+  ): Promise<boolean> {
+    Object.assign(run, outputs, {
+      status: ProcessingRunStatus.SUCCEEDED,
+      completedAt: new Date(),
+    });
+    await this.runRepository.update(run.id, {
+      ...outputs,
+      ...this.attemptHistory(run),
+      status: run.status,
+      completedAt: run.completedAt,
+    });
+
+    // Only a processed document has current results worth keeping
+    if (!run.promoteOnSuccess && document.status === DocumentStatus.PROCESSED) {
+      this.logger.log(
+        `[REPROCESS] Run ${run.id} of document ${document.id} succeeded (not promoted)`,
+      );
+      return false;
+    }
+
+    await this.promote(document, run);
+    return true;
+  }
+
+  /**
+   * Record a failed attempt; the run stays open if it will be retried
+   */
+  async failRun(
+    run: DocumentProcessingRun,
+    errorMessage: string,
+    willRetry: boolean,
+  ): Promise<void> {
+    run.status = willRetry
+      ? ProcessingRunStatus.QUEUED
+      : ProcessingRunStatus.FAILED;
+    await this.runRepository.update(
+      run.id,
+      willRetry
+        ? { ...this.attemptHistory(run), status: run.status, errorMessage }
+        : {
+            ...this.attemptHistory(run),
+            status: run.status,
+            errorMessage,
+            completedAt: new Date(),
+          },
+    );
+  }
+
+  /**
+   * Fail the open run of a document that will not be processed further
+   */
+  async failOpenRun(documentId: string, errorMessage: string): Promise<void> {
+    const run = await this.runRepository.findOpenByDocumentId(documentId);
+    if (run) {
+      await this.failRun(run, errorMessage, false);
+    }
+  }
+
+  /**
+   * Delete a document's runs and their processed outputs (hard delete)
+   * The current run's output is the document's processedFileUri
+   */
+  async deleteRuns(document: Document): Promise<void> {
+    const runs = await this.runRepository.findByDocumentId(document.id);
+    for (const run of runs) {
+      if (
+        run.processedFileUri &&
+        run.processedFileUri !== document.processedFileUri
+      ) {
+        await this.storageService.delete(run.processedFileUri);
+      }
+    }
+    await this.runRepository.deleteByDocumentId(document.id);
+  }
+
+  /**
+   * Copy a run's outputs onto the document and replace its extracted fields
+   * and lab results
+   */
+  private async promote(
+    document: Document,
+    run: DocumentProcessingRun,
+  ): Promise<void> {
+    await this.documentRepository.deleteExtractedFields(document.id);
+    if (run.extractedFields?.length) {
+      await this.documentRepository.saveExtractedFields(
+        run.extractedFields.map((field) =>
+          Object.assign(new ExtractedField(), field, {
+            id: undefined,
+            documentId: document.id,
+          }),
+        ),
+      );
+    }
+    await this.labResultRepository.replaceForDocument(
+      document.id,
+      (run.labResults ?? []).map((result) =>
+        Object.assign(new LabResult(), result, { id: undefined }),
+      ),
+    );
+    await this.medicationRepository.replaceForDocument(
+      document.id,
+      (run.medications ?? []).map((medication) =>
+        Object.assign(new Medication(), medication, { id: undefined }),
+      ),
+    );
+    await this.immunizationRepository.replaceForDocument(
+      document.id,
+      (run.immunizations ?? []).map((immunization) =>
+        Object.assign(new Immunization(), immunization, { id: undefined }),
+      ),
+    );
+
+    await this.documentRepository.updateStatus(
+      document.id,
+      DocumentStatus.PROCESSED,
+      {
+        currentRunId: run.id,
+        pipelineVersion: run.pipelineVersion,
+        // Runs from before classification extracted the document as its type
+        documentType: run.documentType ?? document.documentType,
+        predictedDocumentType: run.predictedDocumentType,
+        classificationConfidence: run.classificationConfidence,
+        processedFileUri: run.processedFileUri,
+        ocrJsonOutput: run.ocrJsonOutput,
+        extractedText: run.extractedText,
+        confidence: run.confidence,
+        pageCount: run.pageCount,
+        processingMethod: run.processingMethod,
+        processedAt: run.completedAt ?? new Date(),
+      },
+    );
+    await this.runRepository.update(run.id, { promotedAt: new Date() });
+    document.status = DocumentStatus.PROCESSED;
+    document.currentRunId = run.id;
+
+    this.logger.log(
+      `[REPROCESS] Run ${run.id} (pipeline ${run.pipelineVersion}) is now current for document ${document.id}`,
+    );
+  }
+
+  /**
+   * Every run bills the paid OCR engines again, so owners may only
+   * reprocess a document once per DOC_PROCESSING_REPROCESS_COOLDOWN_SECONDS
+   */
+  private async assertCooldownElapsed(documentId: string): Promise<void> {
+    const cooldownSeconds = this.configService.getOrThrow(
+      'documentProcessing.reprocessCooldownSeconds',
+      { infer: true },
+    );
+    if (!cooldownSeconds) {
+      return;
+    }
+
+    const lastReprocess = (
+      await this.runRepository.findByDocumentId(documentId)
+    ).find((run) => run.trigger === ProcessingRunTrigger.REPROCESS);
+    if (
+      lastReprocess &&
+      Date.now() - lastReprocess.createdAt.getTime() < cooldownSeconds * 1000
+    ) {
+      throw new HttpException(
+        'Document was reprocessed recently, try again later',
+        HttpStatus.TOO_MANY_REQUESTS,
+      );
+    }
+  }
+
+  private async queueRun(
+    document: Document,
+    requestedByUserId: string | number,
+    promote: boolean,
+  ): Promise<DocumentProcessingRun> {
+    if (!REPROCESSABLE_STATUSES.includes(document.status)) {
+      throw new ConflictException(
+        `Document cannot be reprocessed while ${document.status}`,
+      );
+    }
+    if (await this.runRepository.findOpenByDocumentId(document.id)) {
+      throw new ConflictException('Document is already being reprocessed');
+    }
+
+    const run = await this.eventBus.transaction(async () => {
+      const created = await this.runRepository.create(
+        this.newRun(
+          document.id,
+          ProcessingRunTrigger.REPROCESS,
+          promote,
+          requestedByUserId,
+        ),
+      );
+
+      if (document.status === DocumentStatus.FAILED) {
+        await this.documentRepository.update(document.id, {
+          status: DocumentStatus.QUEUED,
+          retryCount: 0,
+        });
+      }
+
+      await this.eventBus.publish(
+        DomainEventName.DOCUMENT_REPROCESS_REQUESTED,
+        {
+          documentId: document.id,
+          userId: document.userId,
+          requestedByUserId,
+          runId: created.id,
+          pipelineVersion: created.pipelineVersion,
+          previousPipelineVersion: document.pipelineVersion,
+          promote,
+        },
+      );
+
+      return created;
+    });
+    await this.processingQueue.enqueue(document.id);
+
+    return run;
+  }
+
+  private attemptHistory(
+    run: DocumentProcessingRun,
+  ): Pick<DocumentProcessingRun, 'stages' | 'durationMs' | 'pagesBilled'> {
+    return {
+      stages: run.stages ?? [],
+      durationMs: run.durationMs,
+      pagesBilled: run.pagesBilled ?? 0,
+    };
+  }
+
+  private newRun(
+    documentId: string,
+    trigger: ProcessingRunTrigger,
+    promoteOnSuccess: boolean,
+    requestedByUserId?: string | number,
+  ): DocumentProcessingRun {
+    const run = new DocumentProcessingRun();
+    run.documentId = documentId;
+    run.pipelineVersion = EXTRACTION_PIPELINE_VERSION;
+    run.trigger = trigger;
+    run.requestedByUserId = requestedByUserId;
+    run.status = ProcessingRunStatus.QUEUED;
+    run.promoteOnSuccess = promoteOnSuccess;
+    run.attempts = 0;
+    run.stages = [];
+    run.pagesBilled = 0;
+    return run;
+  }
+
+  private async getOwnedDocument(
+    documentId: string,
+    userId: string | number,
+  ): Promise<Document> {
+    const document = await this.documentRepository.findByIdAndUserId(
+      documentId,
+      userId,
+    );
+
+    if (!document) {
+      // Owner of the document, if it exists (shows in their access history)
+      const existing = await this.documentRepository.findById(documentId);
+      await this.eventBus.publish(DomainEventName.DOCUMENT_ACCESS_DENIED, {
+        userId,
+        ownerUserId: existing?.userId,
+        documentId,
+        action: 'reprocess',
+      });
+      throw new NotFoundException('Document not found');
+    }
+
+    return document;
+  }
+}
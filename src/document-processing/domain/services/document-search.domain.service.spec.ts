@@ -0,0 +1,86 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { DocumentSearchDomainService } from './document-search.domain.service';
+import { DocumentRepositoryPort } from '../ports/document.repository.port';
+import { DocumentEventType } from '../enums/document-event-type.enum';
+import { DocumentAuditSubscriber } from '../../subscribers/document-audit.subscriber';
+import { DomainEventBus } from '../../../domain-events/domain-event-bus.service';
+import { DomainEventsDriver } from '../../../domain-events/config/domain-events-config.type';
+import { AuditService } from '../../../audit/audit.service';
+
+describe('DocumentSearchDomainService', () => {
+  let service: DocumentSearchDomainService;
+  let mockRepository: jest.Mocked<DocumentRepositoryPort>;
+  let mockAudit: jest.Mocked<AuditService>;
+
+  const query = { text: 'hemoglobin a1c', skip: 0, limit: 20 };
+
+  beforeEach(async () => {
+    mockRepository = {
+      search: jest.fn().mockResolvedValue({
+        data: [
+          {
+            document: { id: 'doc-100', userId: 1 },
+            rank: 0.4,
+            snippets: ['Hemoglobin <mark>A1c</mark> 6.1 %'],
+          },
+        ],
+        total: 1,
+      }),
+    } as any;
+
+    mockAudit = {
+      record: jest.fn(),
+    } as any;
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        DocumentSearchDomainService,
+        { provide: 'DocumentRepositoryPort', useValue: mockRepository },
+        {
+          provide: DomainEventBus,
+          useValue: new DomainEventBus(
+            {} as any,
+            {
+              getOrThrow: () => ({ driver: DomainEventsDriver.MEMORY }),
+            } as any,
+            { atomic: false, run: (work) => work() },
+          ),
+        },
+        DocumentAuditSubscriber,
+        { provide: AuditService, useValue: mockAudit },
+      ],
+    }).compile();
+    await module.init(); // Registers the audit subscriber
+
+    service = module.get(DocumentSearchDomainService);
+  });
+
+  it("should search the caller's documents and audit without the search terms", async () => {
+    const result = await service.search(1, query);
+
+    expect(result.total).toBe(1);
+    expect(mockRepository.search).toHaveBeenCalledWith(1, query);
+    expect(mockAudit.record).toHaveBeenCalledWith(
+      expect.objectContaining({
+        userId: 1,
+        event: DocumentEventType.DOCUMENTS_SEARCHED,
+        metadata: { total: 1, documentIds: ['doc-100'] },
+      }),
+    );
+    expect(JSON.stringify(mockAudit.record.mock.calls)).not.toContain(
+      'hemoglobin',
+    );
+  });
+
+  it('should reject an inverted date range', async () => {
+    await expect(
+      service.search(1, {
+        ...query,
+        uploadedFrom: new Date('2026-02-01'),
+        uploadedTo: new Date('2026-01-01'),
+      }),
+    ).rejects.toThrow(BadRequestException);
+    expect(mockRepository.search).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,74 @@
+import { BadRequestException, Inject, Injectable } from '@nestjs/common';
+import {
+  DocumentRepositoryPort,
+  DocumentSearchHit,
+  DocumentSearchQuery,
+} from '../ports/document.repository.port';
+import { DomainEventBus } from '../../../domain-events/domain-event-bus.service';
+import { DomainEventName } from '../../../domain-events/domain/domain-event';
+
+/**
+ * Domain Service for Full-Text Search
+ *
+ * Searches the extracted text of the user's processed documents. Each
+ * document has a search index entry (PostgreSQL: tsvector with a GIN index;
+ * MongoDB: text index) built when processing completes or another run is
+ * promoted, and removed when the document is soft-deleted (see
+ * DocumentSearchIndexSubscriber).
+ *
+ * HIPAA Compliance:
+ * - Only the caller's own documents are searched (shared documents are not)
+ * - Soft-deleted documents never match, even before their entry is removed
+ * - Searches are audited with result counts and IDs; the search terms are
+ *   not logged (they may contain PHI)
+ */
+@Injectable()
+export class DocumentSearchDomainService {
+  constructor(
+    @Inject('DocumentRepositoryPort')
+    private readonly documentRepository: DocumentRepositoryPort,
+    private readonly eventBus: DomainEventBus,
+  ) {}
+
+  /**
+   * Search the user's documents, most relevant first
+   * @throws BadRequestException if the date range is inverted
+   */
+  async search(
+    userId: string | number,
+    query: DocumentSearchQuery,
+  ): Promise<{ data: DocumentSearchHit[]; total: number }> {
+    if (
+      query.uploadedFrom &&
+      query.uploadedTo &&
+      query.uploadedFrom > query.uploadedTo
+    ) {
+      throw new BadRequestException('from must be before to');
+    }
+
+    const result = await this.documentRepository.search(userId, query);
+
+    // Audit log (event subscribers)
+    await this.eventBus.publish(DomainEventName.DOCUMENTS_SEARCHED, {
+      userId,
+      total: result.total,
+      documentIds: result.data.map((hit) => hit.document.id),
+    });
+
+    return result;
+  }
+
+  /**
+   * (Re)build the index entry of a document from its current results
+   */
+  async index(documentId: string): Promise<void> {
+    await this.documentRepository.updateSearchIndex(documentId);
+  }
+
+  /**
+   * Remove a document from search
+   */
+  async purge(documentId: string): Promise<void> {
+    await this.documentRepository.clearSearchIndex(documentId);
+  }
+}
@@ -0,0 +1,205 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { DocumentSharingDomainService } from './document-sharing.domain.service';
+import { DocumentRepositoryPort } from '../ports/document.repository.port';
+import { DocumentGrantRepositoryPort } from '../ports/document-grant.repository.port';
+import { DocumentGrantScope } from '../enums/document-grant-scope.enum';
+import { DocumentAuditSubscriber } from '../../subscribers/document-audit.subscriber';
+import { DomainEventBus } from '../../../domain-events/domain-event-bus.service';
+import { DomainEventsDriver } from '../../../domain-events/config/domain-events-config.type';
+import { AuditService } from '../../../audit/audit.service';
+import { UsersService } from '../../../users/users.service';
+import { StatusEnum } from '../../../statuses/statuses.enum';
+
+describe('DocumentSharingDomainService', () => {
+  let service: DocumentSharingDomainService;
+  let mockDocuments: jest.Mocked<DocumentRepositoryPort>;
+  let mockGrants: jest.Mocked<DocumentGrantRepositoryPort>;
+  let mockUsers: jest.Mocked<UsersService>;
+  let mockAudit: jest.Mocked<AuditService>;
+
+  beforeEach(async () => {
+    mockDocuments = {
+      findByIdAndUserId: jest
+        .fn()
+        .mockResolvedValue({ id: 'doc-123', userId: 1 }),
+      findById: jest.fn().mockResolvedValue({ id: 'doc-123', userId: 1 }),
+    } as any;
+
+    mockGrants = {
+      create: jest.fn((grant) => Promise.resolve({ ...grant, id: 'grant-1' })),
+      update: jest.fn(),
+      findById: jest.fn(),
+      findByDocumentId: jest.fn(),
+      findActiveForGrantee: jest.fn(),
+    } as any;
+
+    mockUsers = {
+      findById: jest.fn(),
+      findByEmail: jest.fn(),
+    } as any;
+
+    mockAudit = {
+      record: jest.fn(),
+    } as any;
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        DocumentSharingDomainService,
+        { provide: 'DocumentRepositoryPort', useValue: mockDocuments },
+        { provide: 'DocumentGrantRepositoryPort', useValue: mockGrants },
+        { provide: UsersService, useValue: mockUsers },
+        {
+          provide: DomainEventBus,
+          useValue: new DomainEventBus(
+            {} as any,
+            {
+              getOrThrow: () => ({ driver: DomainEventsDriver.MEMORY }),
+            } as any,
+            { atomic: false, run: (work) => work() },
+          ),
+        },
+        DocumentAuditSubscriber,
+        { provide: AuditService, useValue: mockAudit },
+      ],
+    }).compile();
+    await module.init(); // Registers the audit subscriber
+
+    service = module.get(DocumentSharingDomainService);
+  });
+
+  describe('createGrant', () => {
+    it('should only let the owner share a document', async () => {
+      mockDocuments.findByIdAndUserId.mockResolvedValue(null);
+
+      await expect(
+        service.createGrant('doc-123', 2, {
+          granteeUserId: 3,
+          scopes: [DocumentGrantScope.VIEW],
+        }),
+      ).rejects.toThrow(NotFoundException);
+      expect(mockGrants.create).not.toHaveBeenCalled();
+      // Shows in the owner's access history
+      expect(mockAudit.record).toHaveBeenCalledWith(
+        expect.objectContaining({
+          userId: 2,
+          subjectUserId: 1,
+          event: 'UNAUTHORIZED_DOCUMENT_ACCESS',
+          success: false,
+        }),
+      );
+    });
+
+    it('should reject expiry dates in the past', async () => {
+      await expect(
+        service.createGrant('doc-123', 1, {
+          granteeUserId: 3,
+          scopes: [DocumentGrantScope.VIEW],
+          expiresAt: new Date(Date.now() - 1000),
+        }),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should never write invite emails to audit metadata', async () => {
+      mockUsers.findByEmail.mockResolvedValue(null);
+
+      const grant = await service.createGrant('doc-123', 1, {
+        granteeEmail: 'Caregiver@Example.com',
+        scopes: [DocumentGrantScope.VIEW],
+      });
+
+      expect(grant.granteeEmail).toBe('caregiver@example.com');
+      expect(grant.granteeUserId).toBeUndefined();
+      expect(JSON.stringify(mockAudit.record.mock.calls)).not.toContain(
+        'caregiver@example.com',
+      );
+    });
+
+    it('should not bind an invite to an unconfirmed account', async () => {
+      mockUsers.findByEmail.mockResolvedValue({
+        id: 3,
+        email: 'caregiver@example.com',
+        status: { id: StatusEnum.inactive },
+      } as any);
+
+      const grant = await service.createGrant('doc-123', 1, {
+        granteeEmail: 'caregiver@example.com',
+        scopes: [DocumentGrantScope.VIEW],
+      });
+
+      expect(grant.granteeUserId).toBeUndefined();
+    });
+  });
+
+  describe('useGrant', () => {
+    it('should bind an email invite on first use and audit it', async () => {
+      mockUsers.findById.mockResolvedValue({
+        id: 3,
+        email: 'caregiver@example.com',
+        status: { id: StatusEnum.active },
+      } as any);
+      mockGrants.findActiveForGrantee.mockResolvedValue([
+        {
+          id: 'grant-1',
+          documentId: 'doc-123',
+          grantedByUserId: 1,
+          granteeEmail: 'caregiver@example.com',
+          scopes: [DocumentGrantScope.VIEW],
+        } as any,
+      ]);
+
+      const grant = await service.useGrant(
+        'doc-123',
+        3,
+        DocumentGrantScope.VIEW,
+      );
+
+      expect(grant?.id).toBe('grant-1');
+      expect(mockGrants.update).toHaveBeenCalledWith(
+        'grant-1',
+        expect.objectContaining({ granteeUserId: 3 }),
+      );
+      expect(mockAudit.record).toHaveBeenCalledWith(
+        expect.objectContaining({ event: 'DOCUMENT_GRANT_USED' }),
+      );
+    });
+
+    it('should not honour an email invite for an unconfirmed account', async () => {
+      mockUsers.findById.mockResolvedValue({
+        id: 3,
+        email: 'caregiver@example.com',
+        status: { id: StatusEnum.inactive },
+      } as any);
+      mockGrants.findActiveForGrantee.mockResolvedValue([
+        {
+          id: 'grant-1',
+          documentId: 'doc-123',
+          grantedByUserId: 1,
+          granteeEmail: 'caregiver@example.com',
+          scopes: [DocumentGrantScope.VIEW],
+        } as any,
+      ]);
+
+      await expect(
+        service.useGrant('doc-123', 3, DocumentGrantScope.VIEW),
+      ).resolves.toBeNull();
+      expect(mockGrants.findActiveForGrantee).toHaveBeenCalledWith('doc-123', {
+        userId: 3,
+        email: undefined,
+      });
+      expect(mockGrants.update).not.toHaveBeenCalled();
+    });
+
+    it('should ignore grants that do not cover the scope', async () => {
+      mockUsers.findById.mockResolvedValue({ id: 3 } as any);
+      mockGrants.findActiveForGrantee.mockResolvedValue([
+        { id: 'grant-1', scopes: [DocumentGrantScope.VIEW] } as any,
+      ]);
+
+      await expect(
+        service.useGrant('doc-123', 3, DocumentGrantScope.DOWNLOAD),
+      ).resolves.toBeNull();
+      expect(mockGrants.update).not.toHaveBeenCalled();
+    });
+  });
+});
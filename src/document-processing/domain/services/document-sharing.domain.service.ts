@@ -0,0 +1,237 @@
+import {
+  BadRequestException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { DocumentRepositoryPort } from '../ports/document.repository.port';
+import { DocumentGrantRepositoryPort } from '../ports/document-grant.repository.port';
+import { Document } from '../entities/document.entity';
+import { DocumentGrant } from '../entities/document-grant.entity';
+import { DocumentGrantScope } from '../enums/document-grant-scope.enum';
+import { DomainEventBus } from '../../../domain-events/domain-event-bus.service';
+import { DomainEventName } from '../../../domain-events/domain/domain-event';
+import { UsersService } from '../../../users/users.service';
+import { User } from '../../../users/domain/user';
+import { StatusEnum } from '../../../statuses/statuses.enum';
+
+export interface CreateDocumentGrantInput {
+  granteeUserId?: string | number;
+  granteeEmail?: string;
+  scopes: DocumentGrantScope[];
+  expiresAt?: Date;
+}
+
+/**
+ * Domain Service for Document Sharing
+ *
+ * Document owners grant scoped, optionally expiring access to a caregiver or
+ * clinician, either by user ID or by email invite. Email invites are bound to
+ * the first confirmed account that uses them with a matching email; anyone
+ * can register an unconfirmed account with the invitee's address.
+ *
+ * HIPAA Compliance:
+ * - Only the owner can create, list, or revoke grants
+ * - Every grant use is audited (DOCUMENT_GRANT_USED) in addition to
+ *   DOCUMENT_ACCESSED
+ * - Invite emails are PII: never logged or written to audit metadata
+ */
+@Injectable()
+export class DocumentSharingDomainService {
+  private readonly logger = new Logger(DocumentSharingDomainService.name);
+
+  constructor(
+    @Inject('DocumentRepositoryPort')
+    private readonly documentRepository: DocumentRepositoryPort,
+    @Inject('DocumentGrantRepositoryPort')
+    private readonly grantRepository: DocumentGrantRepositoryPort,
+    private readonly usersService: UsersService,
+    private readonly eventBus: DomainEventBus,
+  ) {}
+
+  /**
+   * Share a document (owner only)
+   */
+  async createGrant(
+    documentId: string,
+    ownerId: string | number,
+    input: CreateDocumentGrantInput,
+  ): Promise<DocumentGrant> {
+    const document = await this.getOwnedDocument(documentId, ownerId);
+
+    if (!!input.granteeUserId === !!input.granteeEmail) {
+      throw new BadRequestException(
+        'Exactly one of granteeUserId or granteeEmail is required',
+      );
+    }
+    if (!input.scopes?.length) {
+      throw new BadRequestException('At least one scope is required');
+    }
+    if (input.expiresAt && input.expiresAt <= new Date()) {
+      throw new BadRequestException('expiresAt must be in the future');
+    }
+
+    const grant = new DocumentGrant();
+    grant.documentId = document.id;
+    grant.grantedByUserId = ownerId;
+    grant.scopes = [...new Set(input.scopes)];
+    grant.expiresAt = input.expiresAt;
+
+    if (input.granteeUserId) {
+      const grantee = await this.usersService.findById(input.granteeUserId);
+      if (!grantee) {
+        throw new NotFoundException('Grantee not found');
+      }
+      grant.granteeUserId = grantee.id;
+    } else {
+      grant.granteeEmail = input.granteeEmail!.trim().toLowerCase();
+      // Bind immediately when the invitee already has a confirmed account
+      const grantee = await this.usersService.findByEmail(grant.granteeEmail);
+      grant.granteeUserId =
+        grantee && this.isEmailConfirmed(grantee) ? grantee.id : undefined;
+    }
+
+    if (grant.granteeUserId?.toString() === ownerId.toString()) {
+      throw new BadRequestException('Cannot share a document with its owner');
+    }
+
+    const saved = await this.eventBus.transaction(async () => {
+      const created = await this.grantRepository.create(grant);
+
+      // Audit log (event subscribers)
+      await this.eventBus.publish(DomainEventName.DOCUMENT_GRANT_CREATED, {
+        documentId,
+        userId: ownerId,
+        grantId: created.id,
+        granteeUserId: created.granteeUserId,
+        emailInvite: !!created.granteeEmail,
+        scopes: created.scopes,
+        expiresAt: created.expiresAt?.toISOString(),
+      });
+
+      return created;
+    });
+
+    this.logger.log(`[SHARING] Grant ${saved.id} created for ${documentId}`);
+
+    return saved;
+  }
+
+  /**
+   * List all grants on a document, including revoked and expired (owner only)
+   */
+  async listGrants(
+    documentId: string,
+    ownerId: string | number,
+  ): Promise<DocumentGrant[]> {
+    await this.getOwnedDocument(documentId, ownerId);
+    return this.grantRepository.findByDocumentId(documentId);
+  }
+
+  /**
+   * Revoke a grant (owner only, idempotent)
+   */
+  async revokeGrant(
+    documentId: string,
+    grantId: string,
+    ownerId: string | number,
+  ): Promise<void> {
+    await this.getOwnedDocument(documentId, ownerId);
+
+    const grant = await this.grantRepository.findById(grantId);
+    if (!grant || grant.documentId !== documentId) {
+      throw new NotFoundException('Grant not found');
+    }
+    if (grant.revokedAt) {
+      return;
+    }
+
+    await this.eventBus.transaction(async () => {
+      await this.grantRepository.update(grantId, { revokedAt: new Date() });
+      await this.eventBus.publish(DomainEventName.DOCUMENT_GRANT_REVOKED, {
+        documentId,
+        userId: ownerId,
+        grantId,
+      });
+    });
+
+    this.logger.log(`[SHARING] Grant ${grantId} revoked for ${documentId}`);
+  }
+
+  /**
+   * Find and record use of an active grant covering `scope`
+   * @returns The grant used, or null if the user has no such grant
+   */
+  async useGrant(
+    documentId: string,
+    userId: string | number,
+    scope: DocumentGrantScope,
+  ): Promise<DocumentGrant | null> {
+    const user = await this.usersService.findById(userId);
+    if (!user) {
+      return null;
+    }
+
+    // Unbound email invites are only honoured for a confirmed email
+    const emailConfirmed = this.isEmailConfirmed(user);
+    const grants = await this.grantRepository.findActiveForGrantee(documentId, {
+      userId,
+      email: emailConfirmed ? user.email?.toLowerCase() : undefined,
+    });
+    const grant = grants.find(
+      (candidate) =>
+        candidate.scopes.includes(scope) &&
+        (emailConfirmed ||
+          candidate.granteeUserId?.toString() === userId.toString()),
+    );
+    if (!grant) {
+      return null;
+    }
+
+    await this.eventBus.transaction(async () => {
+      await this.grantRepository.update(grant.id, {
+        lastUsedAt: new Date(),
+        // First use of an email invite binds it to this account
+        ...(!grant.granteeUserId && { granteeUserId: userId }),
+      });
+      await this.eventBus.publish(DomainEventName.DOCUMENT_GRANT_USED, {
+        documentId,
+        userId: grant.grantedByUserId,
+        grantId: grant.id,
+        granteeUserId: userId,
+        scope,
+      });
+    });
+
+    return grant;
+  }
+
+  private isEmailConfirmed(user: User): boolean {
+    return user.status?.id?.toString() === StatusEnum.active.toString();
+  }
+
+  private async getOwnedDocument(
+    documentId: string,
+    ownerId: string | number,
+  ): Promise<Document> {
+    const document = await this.documentRepository.findByIdAndUserId(
+      documentId,
+      ownerId,
+    );
+
+    if (!document) {
+      // Owner of the document, if it exists (shows in their access history)
+      const existing = await this.documentRepository.findById(documentId);
+      await this.eventBus.publish(DomainEventName.DOCUMENT_ACCESS_DENIED, {
+        userId: ownerId,
+        ownerUserId: existing?.userId,
+        documentId,
+        action: 'manage-grants',
+      });
+      throw new NotFoundException('Document not found');
+    }
+
+    return document;
+  }
+}
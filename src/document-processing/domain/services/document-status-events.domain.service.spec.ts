@@ -0,0 +1,77 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { DocumentStatusEventsDomainService } from './document-status-events.domain.service';
+import { InMemoryStatusEventsAdapter } from '../../infrastructure/status-events/in-memory-status-events.adapter';
+import { DocumentStatus } from '../enums/document-status.enum';
+import { ProcessingRunStatus } from '../enums/processing-run-status.enum';
+import { ProcessingStageOutcome } from '../enums/processing-stage-outcome.enum';
+import { ExtractionStageName } from '../enums/extraction-stage-name.enum';
+
+describe('DocumentStatusEventsDomainService', () => {
+  let service: DocumentStatusEventsDomainService;
+
+  const document = { id: 'doc-100', userId: 1 } as any;
+  const run = { id: 'run-1', status: ProcessingRunStatus.RUNNING } as any;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        DocumentStatusEventsDomainService,
+        {
+          provide: 'DocumentStatusEventsPort',
+          useClass: InMemoryStatusEventsAdapter,
+        },
+      ],
+    }).compile();
+
+    service = module.get(DocumentStatusEventsDomainService);
+  });
+
+  it('should only deliver events of documents owned by the subscriber', async () => {
+    const owner = jest.fn();
+    const other = jest.fn();
+    service.subscribe(1, owner);
+    const unsubscribe = service.subscribe('2', other);
+
+    await service.statusChanged(document, DocumentStatus.QUEUED);
+    unsubscribe();
+    await service.statusChanged(
+      { id: 'doc-200', userId: 2 } as any,
+      DocumentStatus.QUEUED,
+    );
+
+    expect(owner).toHaveBeenCalledWith(
+      expect.objectContaining({
+        documentId: 'doc-100',
+        status: DocumentStatus.QUEUED,
+        progress: 30,
+      }),
+    );
+    expect(other).not.toHaveBeenCalled();
+  });
+
+  it('should report stage progress of a running attempt', async () => {
+    const listener = jest.fn();
+    service.subscribeToDocument('doc-100', listener);
+
+    await service.stageFinished(
+      document,
+      DocumentStatus.PROCESSING,
+      run,
+      {
+        stage: ExtractionStageName.VISION,
+        outcome: ProcessingStageOutcome.SUCCEEDED,
+      },
+      { finishedStages: 3, totalStages: 6, pagesProcessed: 4 },
+    );
+
+    expect(listener).toHaveBeenCalledWith(
+      expect.objectContaining({
+        progress: 72,
+        runId: 'run-1',
+        runStatus: ProcessingRunStatus.RUNNING,
+        stage: ExtractionStageName.VISION,
+        pagesProcessed: 4,
+      }),
+    );
+  });
+});
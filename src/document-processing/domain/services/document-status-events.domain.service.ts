@@ -0,0 +1,161 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import {
+  DocumentStatusEvent,
+  DocumentStatusEventsPort,
+} from '../ports/document-status-events.port';
+import { Document } from '../entities/document.entity';
+import { DocumentProcessingRun } from '../entities/document-processing-run.entity';
+import { ProcessingStageRecord } from '../entities/processing-stage-record.entity';
+import { DocumentStatus } from '../enums/document-status.enum';
+import { ProcessingRunStatus } from '../enums/processing-run-status.enum';
+import { sanitizeError } from '../../utils/ocr-serialization';
+
+/**
+ * Coarse progress (0-100) of each document status
+ */
+export const DOCUMENT_STATUS_PROGRESS: Record<DocumentStatus, number> = {
+  [DocumentStatus.UPLOADED]: 10,
+  [DocumentStatus.STORED]: 20,
+  [DocumentStatus.QUEUED]: 30,
+  [DocumentStatus.PROCESSING]: 50,
+  [DocumentStatus.PROCESSED]: 100,
+  [DocumentStatus.FAILED]: 0,
+  [DocumentStatus.QUARANTINED]: 0,
+  [DocumentStatus.ARCHIVED]: 100,
+};
+
+// Same scale as the document statuses a run moves its document through
+const RUN_STATUS_PROGRESS: Record<ProcessingRunStatus, number> = {
+  [ProcessingRunStatus.QUEUED]: 30,
+  [ProcessingRunStatus.RUNNING]: 50,
+  [ProcessingRunStatus.SUCCEEDED]: 100,
+  [ProcessingRunStatus.FAILED]: 0,
+};
+
+// Share of the progress bar covered by the stages of a running attempt
+const STAGES_PROGRESS_START = 50;
+const STAGES_PROGRESS_SPAN = 45;
+
+/**
+ * Domain Service for Document Status Events
+ *
+ * Publishes status transitions and fine-grained processing progress (stage
+ * finished, pages OCR'd) to the DocumentStatusEventsPort, which fans them out
+ * to the owner's open event streams on every instance.
+ *
+ * While a run is active, progress is that of the run: a processed document
+ * being reprocessed stays PROCESSED, and its events carry the run's status.
+ *
+ * HIPAA Compliance:
+ * - Events carry IDs, statuses and counts only
+ * - Subscribers only receive events of documents they can access
+ * - Publishing never fails processing: errors are logged and dropped
+ */
+@Injectable()
+export class DocumentStatusEventsDomainService {
+  private readonly logger = new Logger(DocumentStatusEventsDomainService.name);
+
+  constructor(
+    @Inject('DocumentStatusEventsPort')
+    private readonly statusEvents: DocumentStatusEventsPort,
+  ) {}
+
+  /**
+   * Publish a status transition of a document (and its run, if any)
+   */
+  async statusChanged(
+    document: Document,
+    status: DocumentStatus,
+    run?: DocumentProcessingRun,
+  ): Promise<void> {
+    await this.publish({
+      documentId: document.id,
+      userId: String(document.userId),
+      status,
+      progress: run
+        ? RUN_STATUS_PROGRESS[run.status]
+        : DOCUMENT_STATUS_PROGRESS[status],
+      runId: run?.id,
+      runStatus: run?.status,
+      occurredAt: new Date(),
+    });
+  }
+
+  /**
+   * Publish progress of a running attempt after one of its stages finished
+   * @param finishedStages - Stages finished so far in this attempt
+   * @param totalStages - Stages the attempt can run
+   * @param pagesProcessed - Pages OCR'd so far in this attempt
+   */
+  async stageFinished(
+    document: Document,
+    status: DocumentStatus,
+    run: DocumentProcessingRun,
+    record: Pick<ProcessingStageRecord, 'stage' | 'outcome'>,
+    progress: {
+      finishedStages: number;
+      totalStages: number;
+      pagesProcessed: number;
+    },
+  ): Promise<void> {
+    const share =
+      Math.min(progress.finishedStages, progress.totalStages) /
+      Math.max(progress.totalStages, 1);
+
+    await this.publish({
+      documentId: document.id,
+      userId: String(document.userId),
+      status,
+      progress:
+        STAGES_PROGRESS_START + Math.floor(STAGES_PROGRESS_SPAN * share),
+      runId: run.id,
+      runStatus: run.status,
+      stage: record.stage,
+      stageOutcome: record.outcome,
+      pagesProcessed: progress.pagesProcessed,
+      occurredAt: new Date(),
+    });
+  }
+
+  /**
+   * Receive the events of all documents owned by a user
+   * @returns Unsubscribe function
+   */
+  subscribe(
+    userId: string | number,
+    listener: (event: DocumentStatusEvent) => void,
+  ): () => void {
+    const owner = String(userId);
+    return this.statusEvents.subscribe((event) => {
+      if (event.userId === owner) {
+        listener(event);
+      }
+    });
+  }
+
+  /**
+   * Receive the events of a single document
+   * Callers must have checked access to the document (owner or grantee)
+   * @returns Unsubscribe function
+   */
+  subscribeToDocument(
+    documentId: string,
+    listener: (event: DocumentStatusEvent) => void,
+  ): () => void {
+    return this.statusEvents.subscribe((event) => {
+      if (event.documentId === documentId) {
+        listener(event);
+      }
+    });
+  }
+
+  private async publish(event: DocumentStatusEvent): Promise<void> {
+    try {
+      await this.statusEvents.publish(event);
+    } catch (error) {
+      this.logger.warn(
+        `[STATUS EVENTS] Could not publish ${event.status} for document ${event.documentId}: ${sanitizeError(error)}`,
+      );
+    }
+  }
+}
@@ -0,0 +1,317 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  BadRequestException,
+  ConflictException,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHash } from 'crypto';
+import {
+  DocumentUploadDomainService,
+  MIN_UPLOAD_CHUNK_BYTES,
+} from './document-upload.domain.service';
+import { DocumentProcessingDomainService } from './document-processing.domain.service';
+import { UploadSessionRepositoryPort } from '../ports/upload-session.repository.port';
+import { DocumentRepositoryPort } from '../ports/document.repository.port';
+import { StorageServicePort } from '../ports/storage.service.port';
+import { UploadSession } from '../entities/upload-session.entity';
+import { DocumentType } from '../enums/document-type.enum';
+import { DocumentStatus } from '../enums/document-status.enum';
+import { DocumentAuditSubscriber } from '../../subscribers/document-audit.subscriber';
+import { DomainEventBus } from '../../../domain-events/domain-event-bus.service';
+import { DomainEventsDriver } from '../../../domain-events/config/domain-events-config.type';
+import { AuditService } from '../../../audit/audit.service';
+
+const sha256 = (data: Buffer) =>
+  createHash('sha256').update(data).digest('hex');
+
+describe('DocumentUploadDomainService', () => {
+  let service: DocumentUploadDomainService;
+  let session: UploadSession;
+  let mockSessions: jest.Mocked<UploadSessionRepositoryPort>;
+  let mockDocumentRepository: jest.Mocked<DocumentRepositoryPort>;
+  let mockStorage: jest.Mocked<StorageServicePort>;
+  let mockDocuments: jest.Mocked<DocumentProcessingDomainService>;
+  let mockAudit: jest.Mocked<AuditService>;
+
+  beforeEach(async () => {
+    session = Object.assign(new UploadSession(), {
+      id: 'upload-1',
+      userId: 1,
+      documentType: DocumentType.LAB_RESULT,
+      fileName: 'scan.pdf',
+      mimeType: 'application/pdf',
+      fileSize: MIN_UPLOAD_CHUNK_BYTES + 100,
+      offset: 0,
+      partNames: [],
+      expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+    });
+
+    mockSessions = {
+      findById: jest.fn(() => Promise.resolve(session)),
+      appendPart: jest.fn().mockResolvedValue(true),
+      claimCompletion: jest.fn().mockResolvedValue(true),
+      releaseCompletion: jest.fn(),
+      setDocumentId: jest.fn(),
+      delete: jest.fn(),
+    } as any;
+
+    mockDocumentRepository = {
+      findById: jest.fn(),
+      update: jest.fn(),
+      updateStatus: jest.fn(),
+      findByStatuses: jest.fn(),
+    } as any;
+
+    mockStorage = {
+      storeUploadPart: jest.fn(),
+      completeUpload: jest.fn().mockResolvedValue('raw/scan.pdf'),
+      abortUpload: jest.fn(),
+      getSignedUploadUrl: jest.fn(),
+      inspect: jest.fn(),
+      delete: jest.fn(),
+    } as any;
+
+    mockDocuments = {
+      createDocument: jest.fn().mockResolvedValue({ id: 'doc-123' }),
+      getDocument: jest.fn().mockResolvedValue({ id: 'doc-123' }),
+      markStored: jest.fn((document) =>
+        Promise.resolve({ ...document, status: DocumentStatus.QUEUED }),
+      ),
+    } as any;
+
+    mockAudit = {
+      record: jest.fn(),
+    } as any;
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        DocumentUploadDomainService,
+        { provide: 'UploadSessionRepositoryPort', useValue: mockSessions },
+        { provide: 'DocumentRepositoryPort', useValue: mockDocumentRepository },
+        { provide: 'StorageServicePort', useValue: mockStorage },
+        { provide: DocumentProcessingDomainService, useValue: mockDocuments },
+        {
+          provide: DomainEventBus,
+          useValue: new DomainEventBus(
+            {} as any,
+            {
+              getOrThrow: () => ({ driver: DomainEventsDriver.MEMORY }),
+            } as any,
+            { atomic: false, run: (work) => work() },
+          ),
+        },
+        DocumentAuditSubscriber,
+        { provide: AuditService, useValue: mockAudit },
+        {
+          provide: ConfigService,
+          useValue: {
+            getOrThrow: jest.fn().mockReturnValue({
+              maxFileSizeMb: 500,
+              chunkSizeMb: 8,
+              sessionTtlHours: 24,
+              intentTtlSeconds: 900,
+            }),
+          },
+        },
+      ],
+    }).compile();
+    await module.init(); // Registers the audit subscriber
+
+    service = module.get(DocumentUploadDomainService);
+  });
+
+  describe('appendChunk', () => {
+    it('should store the chunk and advance the offset', async () => {
+      const chunk = Buffer.alloc(MIN_UPLOAD_CHUNK_BYTES, 1);
+
+      const result = await service.appendChunk(
+        'upload-1',
+        1,
+        0,
+        chunk,
+        sha256(chunk),
+      );
+
+      expect(result.offset).toBe(MIN_UPLOAD_CHUNK_BYTES);
+      expect(mockStorage.storeUploadPart).toHaveBeenCalledWith(
+        'upload-1',
+        `00001-${sha256(chunk)}`,
+        chunk,
+      );
+      expect(mockSessions.appendPart).toHaveBeenCalledWith(
+        'upload-1',
+        0,
+        { name: `00001-${sha256(chunk)}`, size: MIN_UPLOAD_CHUNK_BYTES },
+        expect.any(Date),
+      );
+    });
+
+    it('should reject a chunk at the wrong offset', async () => {
+      const chunk = Buffer.alloc(100, 1);
+
+      await expect(
+        service.appendChunk('upload-1', 1, 100, chunk, sha256(chunk)),
+      ).rejects.toThrow(ConflictException);
+      expect(mockStorage.storeUploadPart).not.toHaveBeenCalled();
+    });
+
+    it('should reject a checksum mismatch', async () => {
+      const chunk = Buffer.alloc(MIN_UPLOAD_CHUNK_BYTES, 1);
+
+      await expect(
+        service.appendChunk('upload-1', 1, 0, chunk, sha256(Buffer.from('x'))),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should reject small chunks before the last one', async () => {
+      const chunk = Buffer.alloc(100, 1);
+
+      await expect(
+        service.appendChunk('upload-1', 1, 0, chunk, sha256(chunk)),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should report a concurrent append as a conflict', async () => {
+      const chunk = Buffer.alloc(MIN_UPLOAD_CHUNK_BYTES, 1);
+      mockSessions.appendPart.mockResolvedValue(false);
+
+      await expect(
+        service.appendChunk('upload-1', 1, 0, chunk, sha256(chunk)),
+      ).rejects.toThrow(ConflictException);
+    });
+
+    it("should hide and audit other users' sessions", async () => {
+      const chunk = Buffer.alloc(100, 1);
+
+      await expect(
+        service.appendChunk('upload-1', 2, 0, chunk, sha256(chunk)),
+      ).rejects.toThrow(NotFoundException);
+      expect(mockAudit.record).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: 2, success: false }),
+      );
+    });
+  });
+
+  describe('completeUpload', () => {
+    it('should refuse to complete before all bytes are received', async () => {
+      await expect(service.completeUpload('upload-1', 1)).rejects.toThrow(
+        BadRequestException,
+      );
+      expect(mockSessions.claimCompletion).not.toHaveBeenCalled();
+    });
+
+    it('should create the document from the assembled parts', async () => {
+      session.offset = session.fileSize;
+      session.partNames = ['00001-a', '00002-b'];
+
+      const document = await service.completeUpload('upload-1', 1);
+
+      expect(document.id).toBe('doc-123');
+      expect(mockSessions.setDocumentId).toHaveBeenCalledWith(
+        'upload-1',
+        'doc-123',
+      );
+
+      const storeRaw = mockDocuments.createDocument.mock.calls[0][1];
+      await storeRaw({} as any);
+      expect(mockStorage.completeUpload).toHaveBeenCalledWith(
+        'upload-1',
+        ['00001-a', '00002-b'],
+        {},
+      );
+    });
+
+    it('should return the same document when completion is retried', async () => {
+      session.offset = session.fileSize;
+      session.completedAt = new Date();
+      session.documentId = 'doc-123';
+
+      const document = await service.completeUpload('upload-1', 1);
+
+      expect(document.id).toBe('doc-123');
+      expect(mockDocuments.createDocument).not.toHaveBeenCalled();
+    });
+
+    it('should release the claim when document creation fails', async () => {
+      session.offset = session.fileSize;
+      mockDocuments.createDocument.mockRejectedValue(new Error('Storage down'));
+
+      await expect(service.completeUpload('upload-1', 1)).rejects.toThrow(
+        'Storage down',
+      );
+      expect(mockSessions.releaseCompletion).toHaveBeenCalledWith('upload-1');
+    });
+  });
+
+  describe('completeUploadIntent', () => {
+    const pdf = Buffer.from('%PDF-1.7\n%test document');
+    let document: any;
+
+    beforeEach(() => {
+      document = {
+        id: 'doc-123',
+        userId: 1,
+        status: DocumentStatus.UPLOADED,
+        rawFileUri: 'local://raw/1/doc-123_scan.pdf',
+        fileSize: pdf.length,
+        mimeType: 'application/pdf',
+        contentHash: sha256(pdf),
+      };
+      mockDocumentRepository.findById.mockResolvedValue(document);
+    });
+
+    it('should enqueue a file that matches the declared file', async () => {
+      mockStorage.inspect.mockResolvedValue({
+        size: pdf.length,
+        sha256: sha256(pdf),
+      });
+
+      const result = await service.completeUploadIntent('doc-123', 1);
+
+      expect(result.status).toBe(DocumentStatus.QUEUED);
+      expect(mockDocuments.markStored).toHaveBeenCalledWith(
+        document,
+        'local://raw/1/doc-123_scan.pdf',
+      );
+    });
+
+    it('should reject and delete a file that does not match the declared size', async () => {
+      mockStorage.inspect.mockResolvedValue({
+        size: pdf.length + 1,
+        sha256: sha256(pdf),
+      });
+
+      await expect(service.completeUploadIntent('doc-123', 1)).rejects.toThrow(
+        BadRequestException,
+      );
+      expect(mockStorage.delete).toHaveBeenCalledWith(document.rawFileUri);
+      expect(mockDocumentRepository.updateStatus).toHaveBeenCalledWith(
+        'doc-123',
+        DocumentStatus.FAILED,
+        expect.any(Object),
+      );
+      expect(mockDocuments.markStored).not.toHaveBeenCalled();
+    });
+
+    it('should reject a checksum mismatch', async () => {
+      mockStorage.inspect.mockResolvedValue({
+        size: pdf.length,
+        sha256: sha256(Buffer.from('other')),
+      });
+
+      await expect(service.completeUploadIntent('doc-123', 1)).rejects.toThrow(
+        'Upload rejected: checksum mismatch',
+      );
+    });
+
+    it('should keep waiting while the file has not been uploaded', async () => {
+      mockStorage.inspect.mockResolvedValue(null);
+
+      await expect(service.completeUploadIntent('doc-123', 1)).rejects.toThrow(
+        ConflictException,
+      );
+      expect(mockDocumentRepository.updateStatus).not.toHaveBeenCalled();
+    });
+  });
+});
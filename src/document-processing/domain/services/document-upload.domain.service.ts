@@ -0,0 +1,535 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { createHash } from 'crypto';
+import { UploadSessionRepositoryPort } from '../ports/upload-session.repository.port';
+import { DocumentRepositoryPort } from '../ports/document.repository.port';
+import {
+  SignedUpload,
+  StorageServicePort,
+  StoredObjectInfo,
+} from '../ports/storage.service.port';
+import { UploadSession } from '../entities/upload-session.entity';
+import { Document } from '../entities/document.entity';
+import { DocumentStatus } from '../enums/document-status.enum';
+import { DocumentType } from '../enums/document-type.enum';
+import { AllConfigType } from '../../../config/config.type';
+import { DomainEventBus } from '../../../domain-events/domain-event-bus.service';
+import { DomainEventName } from '../../../domain-events/domain/domain-event';
+import { DocumentProcessingDomainService } from './document-processing.domain.service';
+
+// S3 multipart minimum part size; every chunk but the last must reach it
+export const MIN_UPLOAD_CHUNK_BYTES = 5 * 1024 * 1024;
+// A completion that has not produced a document after this long may be retried
+const COMPLETION_TIMEOUT_MS = 15 * 60 * 1000;
+const CLEANUP_BATCH_SIZE = 100;
+// Direct uploads still running when their URL expires may finish within this
+const INTENT_GRACE_MS = 60 * 60 * 1000;
+
+export interface CreateUploadSessionInput {
+  fileName: string;
+  mimeType: string;
+  fileSize: number;
+  documentType?: DocumentType; // Left to the classifier if unset
+  description?: string;
+}
+
+export interface CreateUploadIntentInput extends CreateUploadSessionInput {
+  checksum: string; // Hex SHA-256 of the whole file
+}
+
+export interface UploadIntent {
+  document: Document;
+  upload: SignedUpload;
+}
+
+/**
+ * Domain Service for Resumable Uploads
+ *
+ * Large scans are uploaded as a session: create, append chunks at the current
+ * offset (each with a SHA-256 checksum), then complete. Chunks are staged in
+ * storage, so a dropped connection only loses the chunk in flight; the client
+ * reads the session offset and continues from there. Completion assembles the
+ * parts into the raw file, creates the Document and enqueues processing.
+ *
+ * Sessions expire after DOC_PROCESSING_UPLOAD_SESSION_TTL_HOURS without a new
+ * chunk; expired sessions and their staged parts are deleted hourly.
+ *
+ * Direct uploads (upload intents) keep the API out of the data path: the
+ * document is created in UPLOADED state with a signed PUT URL, and the client
+ * reports completion. The stored file is then checked against the declared
+ * size, type (sniffed from its content) and SHA-256 before it is STORED and
+ * enqueued; a file that fails is deleted and the document marked FAILED.
+ *
+ * HIPAA Compliance:
+ * - Sessions are only visible to the user who created them
+ * - Staged parts contain PHI: they are deleted on completion, abort or expiry
+ * - Rejected and abandoned direct uploads are deleted from storage
+ * - Never log file names or chunk contents
+ */
+@Injectable()
+export class DocumentUploadDomainService {
+  private readonly logger = new Logger(DocumentUploadDomainService.name);
+
+  constructor(
+    @Inject('UploadSessionRepositoryPort')
+    private readonly uploadSessionRepository: UploadSessionRepositoryPort,
+    @Inject('DocumentRepositoryPort')
+    private readonly documentRepository: DocumentRepositoryPort,
+    @Inject('StorageServicePort')
+    private readonly storageService: StorageServicePort,
+    private readonly documentService: DocumentProcessingDomainService,
+    private readonly eventBus: DomainEventBus,
+    private readonly configService: ConfigService<AllConfigType>,
+  ) {}
+
+  /**
+   * Start a resumable upload
+   */
+  async createSession(
+    userId: string | number,
+    input: CreateUploadSessionInput,
+  ): Promise<UploadSession> {
+    this.assertFileSize(input.fileSize);
+    this.documentService.assertDocumentTypeDeclared(input.documentType);
+
+    const session = new UploadSession();
+    session.userId = userId;
+    session.documentType = input.documentType;
+    session.fileName = input.fileName;
+    session.mimeType = input.mimeType;
+    session.fileSize = input.fileSize;
+    session.description = input.description;
+    session.offset = 0;
+    session.partNames = [];
+    session.expiresAt = this.nextExpiry();
+
+    const saved = await this.uploadSessionRepository.create(session);
+
+    this.logger.log(
+      `[UPLOAD] Session ${saved.id} created (user: ${userId}, ${input.fileSize} bytes)`,
+    );
+
+    return saved;
+  }
+
+  /**
+   * Current state of an upload (used to resume after a dropped connection)
+   */
+  async getSession(
+    uploadId: string,
+    userId: string | number,
+  ): Promise<UploadSession> {
+    return this.getOwnedSession(uploadId, userId, 'status');
+  }
+
+  /**
+   * Append the chunk starting at `offset`
+   * @param checksum - Hex SHA-256 of the chunk
+   */
+  async appendChunk(
+    uploadId: string,
+    userId: string | number,
+    offset: number,
+    chunk: Buffer,
+    checksum: string,
+  ): Promise<UploadSession> {
+    const session = await this.getOwnedSession(uploadId, userId, 'append');
+
+    if (session.completedAt) {
+      throw new ConflictException('Upload already completed');
+    }
+    if (offset !== session.offset) {
+      throw new ConflictException(
+        `Offset mismatch: upload is at offset ${session.offset}`,
+      );
+    }
+    if (chunk.length === 0) {
+      throw new BadRequestException('Chunk is empty');
+    }
+
+    const end = offset + chunk.length;
+    if (end > session.fileSize) {
+      throw new BadRequestException('Chunk exceeds the declared file size');
+    }
+    if (chunk.length > this.getMaxChunkBytes()) {
+      throw new BadRequestException(
+        `Chunk too large. Maximum size is ${this.getUploadsConfig().chunkSizeMb} MB`,
+      );
+    }
+    if (chunk.length < MIN_UPLOAD_CHUNK_BYTES && end < session.fileSize) {
+      throw new BadRequestException(
+        'Chunks must be at least 5 MB, except the last one',
+      );
+    }
+
+    const digest = createHash('sha256').update(chunk).digest('hex');
+    if (digest !== checksum.toLowerCase()) {
+      throw new BadRequestException('Chunk checksum mismatch');
+    }
+
+    // The checksum in the name keeps a concurrent duplicate from overwriting it
+    const partName = `${String(session.partNames.length + 1).padStart(5, '0')}-${digest}`;
+    await this.storageService.storeUploadPart(session.id, partName, chunk);
+
+    const expiresAt = this.nextExpiry();
+    const appended = await this.uploadSessionRepository.appendPart(
+      session.id,
+      offset,
+      { name: partName, size: chunk.length },
+      expiresAt,
+    );
+    if (!appended) {
+      throw new ConflictException(
+        'Upload offset changed; resume from the current offset',
+      );
+    }
+
+    session.offset = end;
+    session.partNames = [...session.partNames, partName];
+    session.expiresAt = expiresAt;
+
+    return session;
+  }
+
+  /**
+   * Assemble the uploaded parts, create the document and enqueue processing
+   * Idempotent: repeating a successful completion returns the same document
+   */
+  async completeUpload(
+    uploadId: string,
+    userId: string | number,
+  ): Promise<Document> {
+    const session = await this.getOwnedSession(uploadId, userId, 'complete');
+
+    if (session.documentId) {
+      return this.documentService.getDocument(session.documentId, userId);
+    }
+    if (session.offset !== session.fileSize) {
+      throw new BadRequestException(
+        `Upload incomplete: ${session.offset} of ${session.fileSize} bytes received`,
+      );
+    }
+
+    const claimed = await this.uploadSessionRepository.claimCompletion(
+      session.id,
+      new Date(Date.now() - COMPLETION_TIMEOUT_MS),
+    );
+    if (!claimed) {
+      throw new ConflictException('Upload is already being completed');
+    }
+
+    let document: Document;
+    try {
+      document = await this.documentService.createDocument(
+        {
+          userId,
+          fileName: session.fileName,
+          mimeType: session.mimeType,
+          fileSize: session.fileSize,
+          documentType: session.documentType,
+          description: session.description,
+        },
+        (metadata) =>
+          this.storageService.completeUpload(
+            session.id,
+            session.partNames,
+            metadata,
+          ),
+      );
+    } catch (error) {
+      await this.uploadSessionRepository.releaseCompletion(session.id);
+      throw error;
+    }
+
+    await this.uploadSessionRepository.setDocumentId(session.id, document.id);
+
+    this.logger.log(
+      `[UPLOAD] Session ${session.id} completed as document ${document.id} (${session.partNames.length} part(s))`,
+    );
+
+    return document;
+  }
+
+  /**
+   * Cancel an upload and delete its staged parts
+   */
+  async abortUpload(uploadId: string, userId: string | number): Promise<void> {
+    const session = await this.getOwnedSession(uploadId, userId, 'abort');
+
+    if (session.completedAt) {
+      throw new ConflictException('Upload already completed');
+    }
+
+    await this.storageService.abortUpload(session.id);
+    await this.uploadSessionRepository.delete(session.id);
+
+    this.logger.log(`[UPLOAD] Session ${session.id} aborted`);
+  }
+
+  /**
+   * Scheduled job: delete expired upload sessions and their staged parts
+   * Completed sessions are kept until expiry so completion can be retried
+   */
+  @Cron(CronExpression.EVERY_HOUR)
+  async cleanupExpiredSessions(): Promise<number> {
+    const expired = await this.uploadSessionRepository.findExpired(
+      new Date(),
+      CLEANUP_BATCH_SIZE,
+    );
+
+    let deleted = 0;
+    for (const session of expired) {
+      try {
+        // Idempotent, and also removes parts left by an interrupted completion
+        await this.storageService.abortUpload(session.id);
+        await this.uploadSessionRepository.delete(session.id);
+        deleted++;
+      } catch (error) {
+        this.logger.error(
+          `[UPLOAD] Failed to delete expired session ${session.id}: ${error.message}`,
+        );
+      }
+    }
+
+    if (deleted > 0) {
+      this.logger.log(`[UPLOAD] Deleted ${deleted} expired upload session(s)`);
+    }
+
+    return deleted;
+  }
+
+  /**
+   * Create a document awaiting a direct-to-storage upload
+   * The client PUTs the file to the signed URL, then calls completeUploadIntent
+   */
+  async createUploadIntent(
+    userId: string | number,
+    input: CreateUploadIntentInput,
+  ): Promise<UploadIntent> {
+    this.assertFileSize(input.fileSize);
+
+    const document = await this.documentService.createPendingDocument({
+      userId,
+      fileName: input.fileName,
+      mimeType: input.mimeType,
+      fileSize: input.fileSize,
+      documentType: input.documentType,
+      description: input.description,
+      contentHash: input.checksum.toLowerCase(),
+    });
+
+    const upload = await this.storageService.getSignedUploadUrl(
+      {
+        documentId: document.id,
+        userId,
+        fileName: input.fileName,
+        mimeType: input.mimeType,
+        contentLength: input.fileSize,
+      },
+      this.getUploadsConfig().intentTtlSeconds,
+    );
+
+    // Known up front, so completion and cleanup can find the file
+    await this.documentRepository.update(document.id, {
+      rawFileUri: upload.uri,
+    });
+    document.rawFileUri = upload.uri;
+
+    this.logger.log(
+      `[UPLOAD] Upload intent created for document ${document.id} (user: ${userId}, ${input.fileSize} bytes)`,
+    );
+
+    return { document, upload };
+  }
+
+  /**
+   * Verify a direct upload against its intent, then hand it to markStored
+   * (content inspection) to be STORED and enqueued
+   * Idempotent: once verified (or rejected), the document is returned as is
+   */
+  async completeUploadIntent(
+    documentId: string,
+    userId: string | number,
+  ): Promise<Document> {
+    const document = await this.documentRepository.findById(documentId);
+
+    if (document && document.userId.toString() !== userId.toString()) {
+      await this.eventBus.publish(DomainEventName.DOCUMENT_ACCESS_DENIED, {
+        userId,
+        ownerUserId: document.userId,
+        documentId,
+        action: 'upload-complete',
+      });
+    }
+
+    if (
+      !document ||
+      document.deletedAt ||
+      document.userId.toString() !== userId.toString()
+    ) {
+      throw new NotFoundException('Document not found');
+    }
+
+    if (document.status !== DocumentStatus.UPLOADED) {
+      return document;
+    }
+    if (!document.rawFileUri) {
+      throw new ConflictException('Document is not awaiting a direct upload');
+    }
+
+    const stored = await this.storageService.inspect(document.rawFileUri);
+    if (!stored) {
+      throw new ConflictException('File has not been uploaded yet');
+    }
+
+    const problem = this.verifyStoredFile(document, stored);
+    if (problem) {
+      await this.rejectUpload(document, problem);
+      throw new BadRequestException(`Upload rejected: ${problem}`);
+    }
+
+    return this.documentService.markStored(document, document.rawFileUri);
+  }
+
+  /**
+   * Scheduled job: fail direct uploads that were never completed, and
+   * uploads whose content inspection never succeeded
+   */
+  @Cron(CronExpression.EVERY_HOUR)
+  async expireUploadIntents(): Promise<number> {
+    const cutoff =
+      Date.now() -
+      this.getUploadsConfig().intentTtlSeconds * 1000 -
+      INTENT_GRACE_MS;
+    const pending = await this.documentRepository.findByStatuses([
+      DocumentStatus.UPLOADED,
+    ]);
+
+    let expired = 0;
+    for (const document of pending) {
+      // Documents without a URI are still being written to storage; others
+      // are direct uploads never completed or files that could not be scanned
+      if (!document.rawFileUri || document.uploadedAt.getTime() > cutoff) {
+        continue;
+      }
+
+      try {
+        await this.rejectUpload(document, 'upload was not completed in time');
+        expired++;
+      } catch (error) {
+        this.logger.error(
+          `[UPLOAD] Failed to expire upload intent for document ${document.id}: ${error.message}`,
+        );
+      }
+    }
+
+    if (expired > 0) {
+      this.logger.log(`[UPLOAD] Expired ${expired} upload intent(s)`);
+    }
+
+    return expired;
+  }
+
+  getMaxChunkBytes(): number {
+    return this.getUploadsConfig().chunkSizeMb * 1024 * 1024;
+  }
+
+  private async getOwnedSession(
+    uploadId: string,
+    userId: string | number,
+    action: string,
+  ): Promise<UploadSession> {
+    const session = await this.uploadSessionRepository.findById(uploadId);
+
+    if (session && session.userId.toString() !== userId.toString()) {
+      await this.eventBus.publish(DomainEventName.DOCUMENT_ACCESS_DENIED, {
+        userId,
+        ownerUserId: session.userId,
+        uploadId,
+        action: `upload-${action}`,
+      });
+    }
+
+    if (
+      !session ||
+      session.userId.toString() !== userId.toString() ||
+      session.expiresAt <= new Date()
+    ) {
+      throw new NotFoundException('Upload not found');
+    }
+
+    return session;
+  }
+
+  /**
+   * @returns Why the stored file does not match the declared file, if it does not
+   */
+  private verifyStoredFile(
+    document: Document,
+    stored: StoredObjectInfo,
+  ): string | undefined {
+    if (stored.size !== document.fileSize) {
+      return 'file size does not match the declared size';
+    }
+    if (document.contentHash && stored.sha256 !== document.contentHash) {
+      return 'checksum mismatch';
+    }
+    return undefined;
+  }
+
+  private async rejectUpload(
+    document: Document,
+    reason: string,
+  ): Promise<void> {
+    // Delete first: if this fails, the document stays UPLOADED and the
+    // hourly expiry job retries, so the file is never orphaned
+    await this.storageService.delete(document.rawFileUri);
+    if (document.backFileUri) {
+      await this.storageService.delete(document.backFileUri);
+    }
+    await this.eventBus.transaction(async () => {
+      await this.documentRepository.updateStatus(
+        document.id,
+        DocumentStatus.FAILED,
+        { errorMessage: `Upload rejected: ${reason}` },
+      );
+      await this.eventBus.publish(DomainEventName.DOCUMENT_UPLOAD_REJECTED, {
+        documentId: document.id,
+        userId: document.userId,
+        reason,
+      });
+    });
+
+    this.logger.warn(
+      `[UPLOAD] Direct upload for document ${document.id} rejected: ${reason}`,
+    );
+  }
+
+  private assertFileSize(fileSize: number): void {
+    const maxFileSizeMb = this.getUploadsConfig().maxFileSizeMb;
+    if (fileSize > maxFileSizeMb * 1024 * 1024) {
+      throw new BadRequestException(
+        `File too large. Maximum size is ${maxFileSizeMb} MB`,
+      );
+    }
+  }
+
+  private nextExpiry(): Date {
+    const ttlHours = this.getUploadsConfig().sessionTtlHours;
+    return new Date(Date.now() + ttlHours * 60 * 60 * 1000);
+  }
+
+  private getUploadsConfig() {
+    return this.configService.getOrThrow('documentProcessing.uploads', {
+      infer: true,
+    });
+  }
+}
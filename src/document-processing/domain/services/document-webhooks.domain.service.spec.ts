@@ -0,0 +1,188 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { createHmac } from 'crypto';
+import {
+  DocumentWebhooksDomainService,
+  WEBHOOK_SIGNATURE_HEADER,
+} from './document-webhooks.domain.service';
+import { WebhookSubscriptionRepositoryPort } from '../ports/webhook-subscription.repository.port';
+import { WebhookDeliveryRepositoryPort } from '../ports/webhook-delivery.repository.port';
+import { WebhookTransportPort } from '../ports/webhook-transport.port';
+import { DocumentEventType } from '../enums/document-event-type.enum';
+import { WebhookDeliveryStatus } from '../enums/webhook-delivery-status.enum';
+import { DomainEventBus } from '../../../domain-events/domain-event-bus.service';
+import { DomainEventName } from '../../../domain-events/domain/domain-event';
+import { encryptSecret } from '../../../utils/secret-encryption';
+
+describe('DocumentWebhooksDomainService', () => {
+  let service: DocumentWebhooksDomainService;
+  let mockSubscriptions: jest.Mocked<WebhookSubscriptionRepositoryPort>;
+  let mockDeliveries: jest.Mocked<WebhookDeliveryRepositoryPort>;
+  let mockTransport: jest.Mocked<WebhookTransportPort>;
+  let mockEventBus: { publish: jest.Mock; transaction: jest.Mock };
+
+  const encryptionKey = 'test-encryption-key';
+  const secret = 'whsec_test';
+  const subscription = {
+    id: 'sub-1',
+    name: 'ehr-sync',
+    url: 'https://ehr-sync.example.com/hooks',
+    events: [DocumentEventType.DOCUMENT_PROCESSING_COMPLETED],
+    active: true,
+    encryptedSecret: encryptSecret(secret, encryptionKey),
+  } as any;
+  const delivery = {
+    id: 'del-1',
+    subscriptionId: 'sub-1',
+    eventId: 'evt-1',
+    eventType: DocumentEventType.DOCUMENT_PROCESSING_COMPLETED,
+    documentId: 'doc-100',
+    payload: {
+      id: 'evt-1',
+      type: DocumentEventType.DOCUMENT_PROCESSING_COMPLETED,
+      occurredAt: '2026-01-01T00:00:00.000Z',
+      data: { documentId: 'doc-100', userId: '1', runId: 'run-1' },
+    },
+    status: WebhookDeliveryStatus.PENDING,
+    attempts: 0,
+    attemptLog: [],
+  } as any;
+
+  beforeEach(async () => {
+    mockSubscriptions = {
+      findById: jest.fn().mockResolvedValue(subscription),
+      findActiveByEvent: jest.fn().mockResolvedValue([subscription]),
+      delete: jest.fn(),
+    } as any;
+
+    mockDeliveries = {
+      createMany: jest.fn((deliveries) => Promise.resolve(deliveries)),
+      claimDue: jest.fn().mockResolvedValue([]),
+      update: jest.fn(),
+      deleteBySubscriptionId: jest.fn(),
+    } as any;
+
+    mockTransport = {
+      post: jest.fn().mockResolvedValue(200),
+    };
+
+    mockEventBus = {
+      publish: jest.fn(),
+      transaction: jest.fn((work) => work()),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        DocumentWebhooksDomainService,
+        {
+          provide: 'WebhookSubscriptionRepositoryPort',
+          useValue: mockSubscriptions,
+        },
+        { provide: 'WebhookDeliveryRepositoryPort', useValue: mockDeliveries },
+        { provide: 'WebhookTransportPort', useValue: mockTransport },
+        { provide: DomainEventBus, useValue: mockEventBus },
+        {
+          provide: ConfigService,
+          useValue: {
+            getOrThrow: jest.fn().mockReturnValue({
+              secretEncryptionKey: encryptionKey,
+              maxAttempts: 3,
+              retryBaseSeconds: 30,
+              timeoutMs: 10000,
+            }),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get(DocumentWebhooksDomainService);
+  });
+
+  it('should queue one delivery per subscribed webhook', async () => {
+    await service.notify(
+      DocumentEventType.DOCUMENT_PROCESSING_COMPLETED,
+      { id: 'doc-100', userId: 1 },
+      'run-1',
+    );
+
+    expect(mockDeliveries.createMany).toHaveBeenCalledWith([
+      expect.objectContaining({
+        subscriptionId: 'sub-1',
+        documentId: 'doc-100',
+        status: WebhookDeliveryStatus.PENDING,
+        payload: expect.objectContaining({
+          data: { documentId: 'doc-100', userId: '1', runId: 'run-1' },
+        }),
+      }),
+    ]);
+  });
+
+  it('should publish subscription changes with the change itself', async () => {
+    await service.deleteSubscription('sub-1', 7);
+
+    expect(mockEventBus.transaction).toHaveBeenCalledTimes(1);
+    expect(mockSubscriptions.delete).toHaveBeenCalledWith('sub-1');
+    expect(mockEventBus.publish).toHaveBeenCalledWith(
+      DomainEventName.WEBHOOK_SUBSCRIPTION_DELETED,
+      {
+        subscriptionId: 'sub-1',
+        userId: 7,
+        name: 'ehr-sync',
+        events: [DocumentEventType.DOCUMENT_PROCESSING_COMPLETED],
+        active: true,
+      },
+    );
+  });
+
+  it('should sign the body with the subscription secret', async () => {
+    mockDeliveries.claimDue.mockResolvedValue([{ ...delivery }]);
+
+    await service.deliverDue(10);
+
+    const request = mockTransport.post.mock.calls[0][0];
+    const [timestamp, signature] = request.headers[
+      WEBHOOK_SIGNATURE_HEADER
+    ].split(',').map((part) => part.split('=')[1]);
+    expect(signature).toBe(
+      createHmac('sha256', secret)
+        .update(`${timestamp}.${request.body}`)
+        .digest('hex'),
+    );
+    expect(mockDeliveries.update).toHaveBeenCalledWith(
+      'del-1',
+      expect.objectContaining({
+        status: WebhookDeliveryStatus.SUCCEEDED,
+        attempts: 1,
+      }),
+    );
+  });
+
+  it('should back off after a failed attempt and fail after maxAttempts', async () => {
+    mockTransport.post.mockResolvedValue(503);
+    mockDeliveries.claimDue.mockResolvedValueOnce([
+      { ...delivery, attempts: 1 },
+    ]);
+
+    const before = Date.now();
+    await service.deliverDue(10);
+
+    const retry = mockDeliveries.update.mock.calls[0][1];
+    expect(retry.status).toBeUndefined();
+    expect(retry.lastResponseStatus).toBe(503);
+    expect(retry.nextAttemptAt!.getTime()).toBeGreaterThanOrEqual(
+      before + 60 * 1000,
+    );
+
+    mockDeliveries.claimDue.mockResolvedValueOnce([
+      { ...delivery, attempts: 2 },
+    ]);
+    await service.deliverDue(10);
+
+    expect(mockDeliveries.update.mock.calls[1][1]).toEqual(
+      expect.objectContaining({
+        status: WebhookDeliveryStatus.FAILED,
+        attempts: 3,
+      }),
+    );
+  });
+});
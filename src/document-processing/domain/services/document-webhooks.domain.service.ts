@@ -0,0 +1,444 @@
+import {
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+  ServiceUnavailableException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { createHmac, randomBytes, randomUUID } from 'crypto';
+import { WebhookSubscriptionRepositoryPort } from '../ports/webhook-subscription.repository.port';
+import { WebhookDeliveryRepositoryPort } from '../ports/webhook-delivery.repository.port';
+import { WebhookTransportPort } from '../ports/webhook-transport.port';
+import { Document } from '../entities/document.entity';
+import { WebhookSubscription } from '../entities/webhook-subscription.entity';
+import {
+  WebhookDelivery,
+  WebhookEventPayload,
+} from '../entities/webhook-delivery.entity';
+import { DocumentEventType } from '../enums/document-event-type.enum';
+import { WebhookDeliveryStatus } from '../enums/webhook-delivery-status.enum';
+import { AllConfigType } from '../../../config/config.type';
+import { DomainEventBus } from '../../../domain-events/domain-event-bus.service';
+import { DomainEventName } from '../../../domain-events/domain/domain-event';
+import { decryptSecret, encryptSecret } from '../../../utils/secret-encryption';
+import { sanitizeError } from '../../utils/ocr-serialization';
+
+/**
+ * Document lifecycle events webhooks can subscribe to
+ */
+export const WEBHOOK_EVENT_TYPES = [
+  DocumentEventType.DOCUMENT_UPLOADED,
+  DocumentEventType.DOCUMENT_QUARANTINED,
+  DocumentEventType.DOCUMENT_PROCESSING_COMPLETED,
+  DocumentEventType.DOCUMENT_PROCESSING_FAILED,
+  DocumentEventType.DOCUMENT_RUN_PROMOTED,
+  DocumentEventType.DOCUMENT_DELETED,
+  DocumentEventType.DOCUMENT_HARD_DELETED,
+];
+
+export const WEBHOOK_SIGNATURE_HEADER = 'X-Keystone-Signature';
+
+// Finished deliveries are kept this long as the delivery log
+const DELIVERY_LOG_RETENTION_DAYS = 30;
+// Slack on top of the request timeout before a claimed delivery is retried
+const DELIVERY_LEASE_SLACK_SECONDS = 60;
+
+export interface WebhookSubscriptionInput {
+  name: string;
+  url: string;
+  events: DocumentEventType[];
+}
+
+export interface WebhookSubscriptionChanges {
+  url?: string;
+  events?: DocumentEventType[];
+  active?: boolean;
+}
+
+/**
+ * Domain Service for Outbound Webhooks
+ *
+ * Partner integrations (EHR sync, AnythingLLM ingestion) register a webhook
+ * for document lifecycle events. Every event creates one durable delivery per
+ * matching subscription; the delivery worker POSTs it, signed with the
+ * subscription's secret:
+ *
+ *   X-Keystone-Signature: t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>">
+ *
+ * Failed attempts (network errors, timeouts, non-2xx responses) are retried
+ * with exponential backoff (retryBaseSeconds, doubling) up to maxAttempts,
+ * then marked FAILED. Admins can redeliver any delivery; the redelivery keeps
+ * the event ID so subscribers can deduplicate.
+ *
+ * HIPAA Compliance:
+ * - Payloads reference documents by ID only (no names, text or fields)
+ * - Signing secrets are encrypted at rest and returned once, at registration
+ * - Subscription changes are audited; response bodies are never stored
+ */
+@Injectable()
+export class DocumentWebhooksDomainService {
+  private readonly logger = new Logger(DocumentWebhooksDomainService.name);
+
+  constructor(
+    @Inject('WebhookSubscriptionRepositoryPort')
+    private readonly subscriptionRepository: WebhookSubscriptionRepositoryPort,
+    @Inject('WebhookDeliveryRepositoryPort')
+    private readonly deliveryRepository: WebhookDeliveryRepositoryPort,
+    @Inject('WebhookTransportPort')
+    private readonly transport: WebhookTransportPort,
+    private readonly eventBus: DomainEventBus,
+    private readonly configService: ConfigService<AllConfigType>,
+  ) {}
+
+  /**
+   * Register a webhook (admin only)
+   * @returns The subscription and its signing secret (not retrievable later)
+   */
+  async createSubscription(
+    input: WebhookSubscriptionInput,
+    adminUserId: string | number,
+  ): Promise<{ subscription: WebhookSubscription; secret: string }> {
+    const secret = `whsec_${randomBytes(32).toString('base64url')}`;
+
+    const subscription = new WebhookSubscription();
+    subscription.name = input.name.trim();
+    subscription.url = input.url;
+    subscription.events = [...new Set(input.events)];
+    subscription.active = true;
+    subscription.encryptedSecret = encryptSecret(
+      secret,
+      this.getEncryptionKey(),
+    );
+    subscription.createdByUserId = adminUserId;
+
+    const saved = await this.eventBus.transaction(async () => {
+      const created = await this.subscriptionRepository.create(subscription);
+      await this.publishSubscriptionChange(
+        DomainEventName.WEBHOOK_SUBSCRIPTION_CREATED,
+        created,
+        adminUserId,
+      );
+      return created;
+    });
+
+    this.logger.log(
+      `[WEBHOOKS] Subscription ${saved.id} (${saved.name}) registered for ${saved.events.join(', ')}`,
+    );
+
+    return { subscription: saved, secret };
+  }
+
+  async listSubscriptions(): Promise<WebhookSubscription[]> {
+    return this.subscriptionRepository.findAll();
+  }
+
+  async getSubscription(subscriptionId: string): Promise<WebhookSubscription> {
+    const subscription =
+      await this.subscriptionRepository.findById(subscriptionId);
+    if (!subscription) {
+      throw new NotFoundException('Webhook subscription not found');
+    }
+    return subscription;
+  }
+
+  /**
+   * Change a webhook's URL or events, or pause/resume it (admin only)
+   * Deliveries created while a subscription is inactive are not sent
+   */
+  async updateSubscription(
+    subscriptionId: string,
+    changes: WebhookSubscriptionChanges,
+    adminUserId: string | number,
+  ): Promise<WebhookSubscription> {
+    const subscription = await this.getSubscription(subscriptionId);
+
+    const partial: Partial<WebhookSubscription> = {};
+    if (changes.url !== undefined) partial.url = changes.url;
+    if (changes.events !== undefined) {
+      partial.events = [...new Set(changes.events)];
+    }
+    if (changes.active !== undefined) partial.active = changes.active;
+
+    Object.assign(subscription, partial);
+    await this.eventBus.transaction(async () => {
+      await this.subscriptionRepository.update(subscriptionId, partial);
+      await this.publishSubscriptionChange(
+        DomainEventName.WEBHOOK_SUBSCRIPTION_UPDATED,
+        subscription,
+        adminUserId,
+      );
+    });
+
+    return subscription;
+  }
+
+  /**
+   * Delete a webhook and its delivery log (admin only)
+   */
+  async deleteSubscription(
+    subscriptionId: string,
+    adminUserId: string | number,
+  ): Promise<void> {
+    const subscription = await this.getSubscription(subscriptionId);
+
+    await this.eventBus.transaction(async () => {
+      await this.deliveryRepository.deleteBySubscriptionId(subscriptionId);
+      await this.subscriptionRepository.delete(subscriptionId);
+      await this.publishSubscriptionChange(
+        DomainEventName.WEBHOOK_SUBSCRIPTION_DELETED,
+        subscription,
+        adminUserId,
+      );
+    });
+  }
+
+  /**
+   * Delivery log of a webhook, newest first
+   */
+  async listDeliveries(
+    subscriptionId: string,
+    limit: number,
+  ): Promise<WebhookDelivery[]> {
+    await this.getSubscription(subscriptionId);
+    return this.deliveryRepository.findBySubscriptionId(subscriptionId, limit);
+  }
+
+  /**
+   * Send an event again as a new delivery with the same event ID
+   */
+  async redeliver(deliveryId: string): Promise<WebhookDelivery> {
+    const original = await this.deliveryRepository.findById(deliveryId);
+    if (!original) {
+      throw new NotFoundException('Webhook delivery not found');
+    }
+
+    const [redelivery] = await this.deliveryRepository.createMany([
+      this.newDelivery(original.subscriptionId, original.payload, original.id),
+    ]);
+
+    this.logger.log(
+      `[WEBHOOKS] Delivery ${original.id} queued for redelivery as ${redelivery.id}`,
+    );
+
+    return redelivery;
+  }
+
+  /**
+   * Queue a document lifecycle event for every subscribed webhook
+   * Called by the domain event subscriber: errors propagate so the event bus
+   * can retry, and the domain event ID is reused as the webhook event ID so
+   * partners can deduplicate
+   */
+  async notify(
+    eventType: DocumentEventType,
+    document: Pick<Document, 'id' | 'userId'>,
+    runId?: string,
+    source: { eventId: string; occurredAt: Date } = {
+      eventId: randomUUID(),
+      occurredAt: new Date(),
+    },
+  ): Promise<void> {
+    const subscriptions =
+      await this.subscriptionRepository.findActiveByEvent(eventType);
+    if (subscriptions.length === 0) return;
+
+    const payload: WebhookEventPayload = {
+      id: source.eventId,
+      type: eventType,
+      occurredAt: source.occurredAt.toISOString(),
+      data: {
+        documentId: document.id,
+        userId: String(document.userId),
+        runId,
+      },
+    };
+
+    await this.deliveryRepository.createMany(
+      subscriptions.map((subscription) =>
+        this.newDelivery(subscription.id, payload),
+      ),
+    );
+  }
+
+  /**
+   * Claim due deliveries and attempt them (called by the delivery worker)
+   * @returns Number of deliveries attempted
+   */
+  async deliverDue(limit: number): Promise<number> {
+    const { timeoutMs } = this.getWebhooksConfig();
+    const deliveries = await this.deliveryRepository.claimDue(
+      limit,
+      Math.ceil(timeoutMs / 1000) + DELIVERY_LEASE_SLACK_SECONDS,
+    );
+
+    await Promise.all(
+      deliveries.map((delivery) => this.attemptDelivery(delivery)),
+    );
+
+    return deliveries.length;
+  }
+
+  /**
+   * Prune the delivery log
+   * Runs daily at 4:00 AM UTC
+   */
+  @Cron(CronExpression.EVERY_DAY_AT_4AM)
+  async cleanupDeliveryLog(): Promise<void> {
+    try {
+      const cutoff = new Date(
+        Date.now() - DELIVERY_LOG_RETENTION_DAYS * 24 * 60 * 60 * 1000,
+      );
+      const deleted =
+        await this.deliveryRepository.deleteFinishedBefore(cutoff);
+      if (deleted > 0) {
+        this.logger.log(`[WEBHOOKS] Pruned ${deleted} finished deliveries`);
+      }
+    } catch (error) {
+      this.logger.error(
+        `[WEBHOOKS] Delivery log cleanup failed: ${sanitizeError(error)}`,
+      );
+    }
+  }
+
+  private async attemptDelivery(delivery: WebhookDelivery): Promise<void> {
+    const { maxAttempts, retryBaseSeconds, timeoutMs } =
+      this.getWebhooksConfig();
+    const attempts = delivery.attempts + 1;
+    const attemptedAt = new Date();
+    let responseStatus: number | undefined;
+    let errorMessage: string | undefined;
+
+    const subscription = await this.subscriptionRepository.findById(
+      delivery.subscriptionId,
+    );
+
+    if (!subscription?.active) {
+      errorMessage = 'Webhook subscription is inactive';
+    } else {
+      try {
+        const body = JSON.stringify(delivery.payload);
+        responseStatus = await this.transport.post({
+          url: subscription.url,
+          body,
+          headers: {
+            'Content-Type': 'application/json',
+            'User-Agent': 'Keystone-Webhooks/1.0',
+            'X-Keystone-Event': delivery.eventType,
+            'X-Keystone-Delivery': delivery.id,
+            [WEBHOOK_SIGNATURE_HEADER]: this.sign(subscription, body),
+          },
+          timeoutMs,
+        });
+        if (responseStatus < 200 || responseStatus >= 300) {
+          errorMessage = `Subscriber responded with HTTP ${responseStatus}`;
+        }
+      } catch (error) {
+        errorMessage = sanitizeError(error);
+      }
+    }
+
+    const succeeded = !errorMessage;
+    const willRetry =
+      !succeeded && !!subscription?.active && attempts < maxAttempts;
+
+    const partial: Partial<WebhookDelivery> = {
+      attempts,
+      attemptLog: [
+        ...delivery.attemptLog,
+        {
+          attemptedAt,
+          durationMs: Date.now() - attemptedAt.getTime(),
+          responseStatus,
+          errorMessage,
+        },
+      ],
+      lastResponseStatus: responseStatus,
+      lastError: errorMessage,
+    };
+
+    if (succeeded) {
+      partial.status = WebhookDeliveryStatus.SUCCEEDED;
+      partial.deliveredAt = new Date();
+    } else if (willRetry) {
+      // Backoff: base, 2x base, 4x base...
+      partial.nextAttemptAt = new Date(
+        Date.now() + retryBaseSeconds * 1000 * 2 ** (attempts - 1),
+      );
+    } else {
+      partial.status = WebhookDeliveryStatus.FAILED;
+      this.logger.warn(
+        `[WEBHOOKS] Delivery ${delivery.id} failed after ${attempts} attempts: ${errorMessage}`,
+      );
+    }
+
+    await this.deliveryRepository.update(delivery.id, partial);
+  }
+
+  private sign(subscription: WebhookSubscription, body: string): string {
+    const timestamp = Math.floor(Date.now() / 1000);
+    const secret = decryptSecret(
+      subscription.encryptedSecret,
+      this.getEncryptionKey(),
+    );
+    const signature = createHmac('sha256', secret)
+      .update(`${timestamp}.${body}`)
+      .digest('hex');
+    return `t=${timestamp},v1=${signature}`;
+  }
+
+  private newDelivery(
+    subscriptionId: string,
+    payload: WebhookEventPayload,
+    redeliveryOf?: string,
+  ): WebhookDelivery {
+    const delivery = new WebhookDelivery();
+    delivery.subscriptionId = subscriptionId;
+    delivery.eventId = payload.id;
+    delivery.eventType = payload.type;
+    delivery.documentId = payload.data.documentId;
+    delivery.payload = payload;
+    delivery.redeliveryOf = redeliveryOf;
+    delivery.status = WebhookDeliveryStatus.PENDING;
+    delivery.attempts = 0;
+    delivery.nextAttemptAt = new Date();
+    delivery.attemptLog = [];
+    return delivery;
+  }
+
+  // Audit log (event subscribers)
+  private async publishSubscriptionChange(
+    name:
+      | DomainEventName.WEBHOOK_SUBSCRIPTION_CREATED
+      | DomainEventName.WEBHOOK_SUBSCRIPTION_UPDATED
+      | DomainEventName.WEBHOOK_SUBSCRIPTION_DELETED,
+    subscription: WebhookSubscription,
+    adminUserId: string | number,
+  ): Promise<void> {
+    await this.eventBus.publish(name, {
+      subscriptionId: subscription.id,
+      userId: adminUserId,
+      name: subscription.name,
+      events: subscription.events,
+      active: subscription.active,
+    });
+  }
+
+  private getEncryptionKey(): string {
+    const key = this.getWebhooksConfig().secretEncryptionKey;
+    if (!key) {
+      this.logger.error(
+        '[WEBHOOKS] DOC_PROCESSING_WEBHOOK_SECRET_ENCRYPTION_KEY is not set',
+      );
+      throw new ServiceUnavailableException('Webhooks are not configured');
+    }
+    return key;
+  }
+
+  private getWebhooksConfig() {
+    return this.configService.getOrThrow('documentProcessing.webhooks', {
+      infer: true,
+    });
+  }
+}
@@ -0,0 +1,213 @@
+import { ConfigService } from '@nestjs/config';
+import {
+  DEFAULT_EXTRACTION_ROUTE,
+  ExtractionPipelineService,
+} from './extraction-pipeline.service';
+import {
+  ExtractionContext,
+  ExtractionStage,
+} from '../ports/extraction-stage.port';
+import { DocumentType } from '../enums/document-type.enum';
+import { ExtractionStageName } from '../enums/extraction-stage-name.enum';
+import { ProcessingMethod } from '../enums/processing-method.enum';
+import { ProcessingStageOutcome } from '../enums/processing-stage-outcome.enum';
+
+function fakeStage(
+  name: ExtractionStageName,
+  run: (context: ExtractionContext) => void,
+  canRun: (context: ExtractionContext) => boolean = () => true,
+): jest.Mocked<ExtractionStage> {
+  return {
+    name,
+    canRun: jest.fn(canRun),
+    run: jest.fn((context: ExtractionContext) => {
+      run(context);
+      return Promise.resolve();
+    }),
+  } as any;
+}
+
+function ocrResult(text: string) {
+  return { text, confidence: 0.9, pageCount: 1, fullResponse: {} };
+}
+
+describe('ExtractionPipelineService', () => {
+  const input = {
+    documentId: 'doc-123',
+    documentType: DocumentType.LAB_RESULT,
+    gcsUri: 'gs://bucket/raw/file.pdf',
+    mimeType: 'application/pdf',
+    fileBuffer: Buffer.from('%PDF'),
+  };
+
+  let stages: Record<string, jest.Mocked<ExtractionStage>>;
+
+  function createPipeline(pipelineConfig?: any) {
+    const configService = {
+      get: jest.fn((key) =>
+        key === 'documentProcessing.pipeline' ? pipelineConfig : undefined,
+      ),
+    } as unknown as ConfigService;
+    return new ExtractionPipelineService(
+      Object.values(stages),
+      configService as any,
+    );
+  }
+
+  beforeEach(() => {
+    stages = {
+      pdf2json: fakeStage(
+        ExtractionStageName.PDF2JSON,
+        (context) => {
+          context.result = ocrResult('native text');
+          context.processingMethod = ProcessingMethod.DIRECT_EXTRACTION;
+        },
+        (context) => !context.result,
+      ),
+      pdfParse: fakeStage(
+        ExtractionStageName.PDF_PARSE,
+        () => {},
+        (context) => !context.result,
+      ),
+      pdfDirect: fakeStage(ExtractionStageName.PDF_DIRECT, () => {}),
+      vision: fakeStage(ExtractionStageName.VISION, (context) => {
+        context.engineOutputs.vision = ocrResult('vision text');
+      }),
+      documentAi: fakeStage(ExtractionStageName.DOCUMENT_AI, (context) => {
+        context.engineOutputs.documentAi = ocrResult('docai text');
+      }),
+      ocrMerge: fakeStage(
+        ExtractionStageName.OCR_MERGE,
+        (context) => {
+          context.result = ocrResult('merged text');
+          context.processingMethod = ProcessingMethod.OCR_MERGED;
+        },
+        (context) => !context.result,
+      ),
+    };
+  });
+
+  it('should use the default route when none is configured', () => {
+    const pipeline = createPipeline();
+
+    expect(pipeline.getRoute(DocumentType.OTHER)).toEqual(
+      DEFAULT_EXTRACTION_ROUTE.split(',').map((step) => step.split('+')),
+    );
+  });
+
+  it('should keep the native text result and attach OCR outputs', async () => {
+    const pipeline = createPipeline();
+
+    const { result, processingMethod } = await pipeline.run(input);
+
+    expect(processingMethod).toBe(ProcessingMethod.DIRECT_EXTRACTION);
+    expect(result.text).toBe('native text');
+    expect(result.fullResponse.rawVisionResult.text).toBe('vision text');
+    expect(result.fullResponse.rawDocumentAiResult.text).toBe('docai text');
+    expect(stages.pdfParse.run).not.toHaveBeenCalled();
+    expect(stages.ocrMerge.run).not.toHaveBeenCalled();
+  });
+
+  it('should fall through to OCR when a stage fails', async () => {
+    stages.pdf2json.run.mockRejectedValue(new Error('Insufficient text'));
+    const pipeline = createPipeline();
+
+    const { result, processingMethod } = await pipeline.run(input);
+
+    expect(processingMethod).toBe(ProcessingMethod.OCR_MERGED);
+    expect(result.text).toBe('merged text');
+  });
+
+  it('should record failed OCR engines without exposing URIs', async () => {
+    stages.vision.run.mockRejectedValue(
+      new Error('Permission denied on gs://bucket/raw/file.pdf'),
+    );
+    const pipeline = createPipeline();
+
+    const { result } = await pipeline.run(input);
+
+    expect(result.fullResponse.rawVisionResult).toEqual({
+      error: true,
+      message: 'Permission denied on [URI_REDACTED]',
+    });
+  });
+
+  it('should log every routed stage with its outcome and billed pages', async () => {
+    stages.pdf2json.run.mockRejectedValue(new Error('Insufficient text'));
+    const stageLog: any[] = [];
+    const pipeline = createPipeline();
+
+    await pipeline.run({
+      ...input,
+      onStage: (record) => stageLog.push(record),
+    });
+
+    expect(
+      stageLog.map(({ stage, outcome, pagesBilled }) => ({
+        stage,
+        outcome,
+        pagesBilled,
+      })),
+    ).toEqual([
+      {
+        stage: 'pdf2json',
+        outcome: ProcessingStageOutcome.FAILED,
+        pagesBilled: 0,
+      },
+      {
+        stage: 'pdf-parse',
+        outcome: ProcessingStageOutcome.SUCCEEDED,
+        pagesBilled: 0,
+      },
+      {
+        stage: 'vision',
+        outcome: ProcessingStageOutcome.SUCCEEDED,
+        pagesBilled: 1,
+      },
+      {
+        stage: 'document-ai',
+        outcome: ProcessingStageOutcome.SUCCEEDED,
+        pagesBilled: 1,
+      },
+      {
+        stage: 'ocr-merge',
+        outcome: ProcessingStageOutcome.SUCCEEDED,
+        pagesBilled: 0,
+      },
+    ]);
+    expect(stageLog[0].errorMessage).toBe('Insufficient text');
+  });
+
+  it('should follow the route configured for the document type', async () => {
+    const pipeline = createPipeline({
+      routes: { [DocumentType.INSURANCE_CARD]: 'vision+document-ai,ocr-merge' },
+    });
+
+    await pipeline.run({
+      ...input,
+      documentType: DocumentType.INSURANCE_CARD,
+    });
+
+    expect(stages.pdf2json.run).not.toHaveBeenCalled();
+    expect(stages.vision.run).toHaveBeenCalled();
+    expect(stages.ocrMerge.run).toHaveBeenCalled();
+  });
+
+  it('should throw when no stage produces a result', async () => {
+    stages.pdf2json.run.mockRejectedValue(new Error('Insufficient text'));
+    stages.vision.run.mockRejectedValue(new Error('Vision down'));
+    stages.documentAi.run.mockRejectedValue(new Error('Document AI down'));
+    stages.ocrMerge.canRun.mockReturnValue(false);
+    const pipeline = createPipeline();
+
+    await expect(pipeline.run(input)).rejects.toThrow(
+      'No extraction stage produced a result',
+    );
+  });
+
+  it('should reject unknown stages in configured routes', () => {
+    expect(() =>
+      createPipeline({ defaultRoute: 'pdf2json,tesseract' }),
+    ).toThrow('Unknown extraction stage in route: tesseract');
+  });
+});
@@ -0,0 +1,307 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  ExtractionContext,
+  ExtractionStage,
+} from '../ports/extraction-stage.port';
+import { OcrResult } from '../ports/ocr.service.port';
+import { DocumentType } from '../enums/document-type.enum';
+import { ExtractionStageName } from '../enums/extraction-stage-name.enum';
+import { ProcessingMethod } from '../enums/processing-method.enum';
+import { ProcessingStageOutcome } from '../enums/processing-stage-outcome.enum';
+import { ProcessingStageRecord } from '../entities/processing-stage-record.entity';
+import { OcrEngine } from '../../config/document-processing-config.type';
+import { AllConfigType } from '../../../config/config.type';
+import {
+  sanitizeError,
+  serializeOcrResult,
+} from '../../utils/ocr-serialization';
+
+/**
+ * Default route for every document type:
+ * native PDF text first, XRef fallback, both OCR engines in parallel
+ * (always, for comparison outputs), then merge/select when no native text.
+ */
+export const DEFAULT_EXTRACTION_ROUTE =
+  'pdf2json,pdf-parse,vision+document-ai,ocr-merge';
+
+/**
+ * Version of the extraction logic (stages, OCR merge, entity extraction,
+ * post-processing), recorded on every processing run. Bump it with any change
+ * that can alter the results of an already processed document, so outdated
+ * documents can be selected for reprocessing.
+ */
+export const EXTRACTION_PIPELINE_VERSION = '6';
+
+/**
+ * A route is an ordered list of steps; stages within a step run in parallel
+ */
+export type ExtractionRoute = ExtractionStageName[][];
+
+/**
+ * Stage record as produced by the pipeline (the caller knows the attempt)
+ */
+export type ExtractionStageRecord = Omit<ProcessingStageRecord, 'attempt'>;
+
+export interface ExtractionPipelineInput {
+  documentId: string;
+  documentType: DocumentType;
+  gcsUri: string;
+  mimeType: string;
+  pageCount?: number;
+  fileBuffer?: Buffer;
+  onStage?: (record: ExtractionStageRecord) => void; // Called for every routed stage, also when the pipeline fails
+}
+
+export interface ExtractionPipelineResult {
+  result: OcrResult;
+  processingMethod: ProcessingMethod;
+}
+
+/**
+ * Extraction Pipeline
+ *
+ * Runs the registered extraction stages along the route configured for the
+ * document type. A stage runs only if its preconditions hold; a failing stage
+ * is recorded and the pipeline falls through to the next step.
+ *
+ * Routes are configured per DocumentType with
+ * DOC_PROCESSING_PIPELINE_ROUTE_<TYPE>, e.g. "vision+document-ai,ocr-merge"
+ * (`,` separates steps, `+` runs stages in parallel).
+ */
+@Injectable()
+export class ExtractionPipelineService {
+  private readonly logger = new Logger(ExtractionPipelineService.name);
+  private readonly stages = new Map<ExtractionStageName, ExtractionStage>();
+  private readonly routes = new Map<DocumentType, ExtractionRoute>();
+
+  constructor(
+    @Inject('ExtractionStages')
+    stages: ExtractionStage[],
+    private readonly configService: ConfigService<AllConfigType>,
+  ) {
+    for (const stage of stages) {
+      this.stages.set(stage.name, stage);
+    }
+
+    const pipelineConfig = this.configService.get(
+      'documentProcessing.pipeline',
+      { infer: true },
+    );
+    for (const documentType of Object.values(DocumentType)) {
+      const route =
+        pipelineConfig?.routes?.[documentType] ||
+        pipelineConfig?.defaultRoute ||
+        DEFAULT_EXTRACTION_ROUTE;
+      this.routes.set(documentType, this.parseRoute(route));
+    }
+  }
+
+  /**
+   * Route used for a document type
+   */
+  getRoute(documentType: DocumentType): ExtractionRoute {
+    return (
+      this.routes.get(documentType) ?? this.parseRoute(DEFAULT_EXTRACTION_ROUTE)
+    );
+  }
+
+  async run(input: ExtractionPipelineInput): Promise<ExtractionPipelineResult> {
+    const { onStage = () => undefined, ...contextInput } = input;
+    const context: ExtractionContext = {
+      ...contextInput,
+      engineOutputs: {},
+      stageErrors: {},
+    };
+    const route = this.getRoute(input.documentType);
+
+    this.logger.log(
+      `[PIPELINE] Document ${input.documentId} (${input.documentType}): ${this.formatRoute(route)}`,
+    );
+
+    for (const step of route) {
+      const runnable: ExtractionStage[] = [];
+      for (const name of step) {
+        const stage = this.stages.get(name) as ExtractionStage;
+        if (stage.canRun(context)) {
+          runnable.push(stage);
+        } else {
+          onStage({
+            stage: name,
+            outcome: ProcessingStageOutcome.SKIPPED,
+            startedAt: new Date(),
+            durationMs: 0,
+            pagesProcessed: 0,
+            pagesBilled: 0,
+          });
+        }
+      }
+
+      if (runnable.length === 0) {
+        continue;
+      }
+
+      const outcomes = await Promise.allSettled(
+        runnable.map((stage) => this.runStage(stage, context, onStage)),
+      );
+
+      outcomes.forEach((outcome, index) => {
+        if (outcome.status === 'rejected') {
+          const stage = runnable[index];
+          context.stageErrors[stage.name] =
+            outcome.reason instanceof Error
+              ? outcome.reason
+              : new Error(String(outcome.reason));
+          this.logger.warn(
+            `[PIPELINE] Stage ${stage.name} failed for document ${input.documentId}: ${sanitizeError(outcome.reason)}`,
+          );
+        }
+      });
+    }
+
+    if (!context.result || !context.processingMethod) {
+      const attempted = Object.keys(context.stageErrors).join(', ') || 'none';
+      throw new Error(
+        `No extraction stage produced a result (failed stages: ${attempted})`,
+      );
+    }
+
+    this.attachEngineOutputs(context);
+
+    this.logger.log(
+      `[PIPELINE] Processing method determined: ${context.processingMethod}`,
+    );
+
+    return {
+      result: context.result,
+      processingMethod: context.processingMethod,
+    };
+  }
+
+  /**
+   * Run a stage, recording its duration, outcome and billed pages
+   */
+  private async runStage(
+    stage: ExtractionStage,
+    context: ExtractionContext,
+    onStage: (record: ExtractionStageRecord) => void,
+  ): Promise<void> {
+    const startedAt = new Date();
+    try {
+      await stage.run(context);
+      const pagesProcessed = this.pagesProcessed(stage.name, context);
+      onStage({
+        stage: stage.name,
+        outcome: ProcessingStageOutcome.SUCCEEDED,
+        startedAt,
+        durationMs: Date.now() - startedAt.getTime(),
+        pagesProcessed,
+        pagesBilled: this.isPaidEngine(stage.name) ? pagesProcessed : 0,
+      });
+    } catch (error) {
+      onStage({
+        stage: stage.name,
+        outcome: ProcessingStageOutcome.FAILED,
+        startedAt,
+        durationMs: Date.now() - startedAt.getTime(),
+        pagesProcessed: 0,
+        pagesBilled: 0,
+        errorMessage: sanitizeError(error),
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Pages read by an OCR engine stage (0 for other stages)
+   */
+  private pagesProcessed(
+    stageName: ExtractionStageName,
+    context: ExtractionContext,
+  ): number {
+    const output =
+      stageName === ExtractionStageName.VISION
+        ? context.engineOutputs.vision
+        : stageName === ExtractionStageName.DOCUMENT_AI
+          ? context.engineOutputs.documentAi
+          : undefined;
+    return output ? output.pageCount || 1 : 0;
+  }
+
+  /**
+   * Whether a stage is billed per page: OCR engines, except the offline engine
+   */
+  private isPaidEngine(stageName: ExtractionStageName): boolean {
+    const engines = this.configService.get('documentProcessing.ocrEngines', {
+      infer: true,
+    });
+    const engine =
+      stageName === ExtractionStageName.VISION
+        ? engines?.vision
+        : stageName === ExtractionStageName.DOCUMENT_AI
+          ? engines?.documentAi
+          : OcrEngine.LOCAL;
+    return engine !== OcrEngine.LOCAL;
+  }
+
+  /**
+   * Store raw engine outputs (or their failures) in fullResponse for the
+   * Vision / Document AI comparison endpoints
+   * IMPORTANT: Serialized to avoid circular references
+   */
+  private attachEngineOutputs(context: ExtractionContext): void {
+    const result = context.result as OcrResult;
+    if (!result.fullResponse || typeof result.fullResponse !== 'object') {
+      result.fullResponse = {};
+    }
+
+    const engines: Array<
+      [keyof ExtractionContext['engineOutputs'], ExtractionStageName, string]
+    > = [
+      ['vision', ExtractionStageName.VISION, 'rawVisionResult'],
+      ['documentAi', ExtractionStageName.DOCUMENT_AI, 'rawDocumentAiResult'],
+    ];
+
+    for (const [engine, stageName, key] of engines) {
+      const output = context.engineOutputs[engine];
+      const error = context.stageErrors[stageName];
+      if (output) {
+        result.fullResponse[key] = serializeOcrResult(output);
+      } else if (error) {
+        result.fullResponse[key] = {
+          error: true,
+          message: sanitizeError(error),
+        };
+      }
+    }
+  }
+
+  private parseRoute(route: string): ExtractionRoute {
+    const known = Object.values(ExtractionStageName) as string[];
+
+    return route
+      .split(',')
+      .map((step) =>
+        step
+          .split('+')
+          .map((name) => name.trim())
+          .filter(Boolean),
+      )
+      .filter((step) => step.length > 0)
+      .map((step) =>
+        step.map((name) => {
+          if (!known.includes(name)) {
+            throw new Error(`Unknown extraction stage in route: ${name}`);
+          }
+          if (!this.stages.has(name as ExtractionStageName)) {
+            throw new Error(`Extraction stage not registered: ${name}`);
+          }
+          return name as ExtractionStageName;
+        }),
+      );
+  }
+
+  private formatRoute(route: ExtractionRoute): string {
+    return route.map((step) => step.join('+')).join(' -> ');
+  }
+}
@@ -0,0 +1,76 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  IsBoolean,
+  IsDate,
+  IsEnum,
+  IsIn,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  Max,
+  Min,
+} from 'class-validator';
+import { DocumentStatus } from '../domain/enums/document-status.enum';
+import { DocumentType } from '../domain/enums/document-type.enum';
+
+export class BulkReprocessDocumentsDto {
+  @ApiPropertyOptional({
+    enum: [DocumentStatus.PROCESSED, DocumentStatus.FAILED],
+    isArray: true,
+    description: 'Default: both',
+  })
+  @IsOptional()
+  @IsIn([DocumentStatus.PROCESSED, DocumentStatus.FAILED], { each: true })
+  status?: DocumentStatus[];
+
+  @ApiPropertyOptional({ enum: DocumentType })
+  @IsOptional()
+  @IsEnum(DocumentType)
+  documentType?: DocumentType;
+
+  @ApiPropertyOptional({ description: 'Only documents of this user' })
+  @IsOptional()
+  @IsNotEmpty()
+  userId?: number | string;
+
+  @ApiPropertyOptional({
+    description: 'Only documents processed before this time',
+    type: String,
+    format: 'date-time',
+  })
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  processedBefore?: Date;
+
+  @ApiPropertyOptional({
+    description:
+      'Only documents whose current results come from an older pipeline version',
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  outdatedOnly?: boolean = false;
+
+  @ApiPropertyOptional({
+    description: 'Make new results current when each run succeeds',
+    default: true,
+  })
+  @IsOptional()
+  @IsBoolean()
+  promote?: boolean = true;
+
+  @ApiPropertyOptional({
+    description: 'Maximum documents to queue (oldest first)',
+    minimum: 1,
+    maximum: 500,
+    default: 100,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  @Max(500)
+  limit?: number = 100;
+}
@@ -0,0 +1,14 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class BulkReprocessResponseDto {
+  @ApiProperty({ description: 'Pipeline version the documents will run with' })
+  pipelineVersion: string;
+
+  @ApiProperty({ type: String, isArray: true, format: 'uuid' })
+  documentIds: string[];
+
+  @ApiProperty({
+    description: 'Matching documents skipped because they are being processed',
+  })
+  skipped: number;
+}
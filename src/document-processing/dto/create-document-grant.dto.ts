@@ -0,0 +1,54 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsDate,
+  IsEmail,
+  IsEnum,
+  IsNotEmpty,
+  IsOptional,
+} from 'class-validator';
+import { DocumentGrantScope } from '../domain/enums/document-grant-scope.enum';
+
+export class CreateDocumentGrantDto {
+  @ApiProperty({
+    description: 'Existing user to share with (exclusive with granteeEmail)',
+    required: false,
+    example: 42,
+  })
+  @IsOptional()
+  @IsNotEmpty()
+  granteeUserId?: number | string;
+
+  @ApiProperty({
+    description:
+      'Invite by email (exclusive with granteeUserId). Bound to the account that first uses it.',
+    required: false,
+    example: 'caregiver@example.com',
+  })
+  @IsOptional()
+  @IsEmail()
+  granteeEmail?: string;
+
+  @ApiProperty({
+    enum: DocumentGrantScope,
+    isArray: true,
+    example: [DocumentGrantScope.VIEW, DocumentGrantScope.DOWNLOAD],
+  })
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsEnum(DocumentGrantScope, { each: true })
+  scopes: DocumentGrantScope[];
+
+  @ApiProperty({
+    description: 'Grant expiry (no expiry when omitted)',
+    required: false,
+    type: String,
+    format: 'date-time',
+  })
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  expiresAt?: Date;
+}
@@ -0,0 +1,12 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Matches } from 'class-validator';
+import { CreateUploadSessionDto } from './create-upload-session.dto';
+
+export class CreateUploadIntentDto extends CreateUploadSessionDto {
+  @ApiProperty({
+    description: 'Hex-encoded SHA-256 of the whole file',
+    example: 'e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855',
+  })
+  @Matches(/^[a-fA-F0-9]{64}$/, { message: 'checksum must be a SHA-256 hex' })
+  checksum: string;
+}
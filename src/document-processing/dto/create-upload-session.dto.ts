@@ -0,0 +1,67 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsEnum,
+  IsIn,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Matches,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { DocumentType } from '../domain/enums/document-type.enum';
+import { ALLOWED_DOCUMENT_MIME_TYPES } from './upload-document.dto';
+
+export class CreateUploadSessionDto {
+  @ApiProperty({
+    description:
+      'Original file name, without path separators, ".." or control characters',
+    example: 'imaging-report.pdf',
+    maxLength: 255,
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(255)
+  @Matches(/^(?!.*\.\.)[^/\\\p{Cc}]+$/u, {
+    message:
+      'fileName must not contain path separators, ".." or control characters',
+  })
+  fileName: string;
+
+  @ApiProperty({
+    enum: ALLOWED_DOCUMENT_MIME_TYPES,
+    example: 'application/pdf',
+  })
+  @IsIn(ALLOWED_DOCUMENT_MIME_TYPES)
+  mimeType: string;
+
+  @ApiProperty({
+    description: 'Total file size in bytes',
+    example: 157286400,
+  })
+  @IsInt()
+  @Min(1)
+  fileSize: number;
+
+  @ApiProperty({
+    enum: DocumentType,
+    description:
+      'Type of medical document. Optional when automatic classification is enabled: the type is then predicted from the extracted text',
+    example: DocumentType.IMAGING_REPORT,
+    required: false,
+  })
+  @IsOptional()
+  @IsEnum(DocumentType)
+  documentType?: DocumentType;
+
+  @ApiProperty({
+    description: 'Optional user description',
+    required: false,
+    maxLength: 500,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  description?: string;
+}
@@ -0,0 +1,34 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsIn,
+  IsNotEmpty,
+  IsString,
+  IsUrl,
+  MaxLength,
+} from 'class-validator';
+import { DocumentEventType } from '../domain/enums/document-event-type.enum';
+import { WEBHOOK_EVENT_TYPES } from '../domain/services/document-webhooks.domain.service';
+
+export class CreateWebhookSubscriptionDto {
+  @ApiProperty({
+    example: 'ehr-sync',
+    description: 'Client or service receiving the events',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name: string;
+
+  @ApiProperty({ example: 'https://ehr-sync.example.com/hooks/keystone' })
+  @IsUrl({ protocols: ['https'], require_protocol: true, require_tld: false })
+  @MaxLength(2048)
+  url: string;
+
+  @ApiProperty({ enum: WEBHOOK_EVENT_TYPES, isArray: true })
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsIn(WEBHOOK_EVENT_TYPES, { each: true })
+  events: DocumentEventType[];
+}
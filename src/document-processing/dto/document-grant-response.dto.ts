@@ -0,0 +1,44 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Expose } from 'class-transformer';
+import { DocumentGrantScope } from '../domain/enums/document-grant-scope.enum';
+
+export class DocumentGrantResponseDto {
+  @ApiProperty()
+  @Expose()
+  id: string;
+
+  @ApiProperty()
+  @Expose()
+  documentId: string;
+
+  @ApiProperty({
+    required: false,
+    description: 'Unset until an email invite is first used',
+  })
+  @Expose()
+  granteeUserId?: number | string;
+
+  @ApiProperty({ required: false })
+  @Expose()
+  granteeEmail?: string;
+
+  @ApiProperty({ enum: DocumentGrantScope, isArray: true })
+  @Expose()
+  scopes: DocumentGrantScope[];
+
+  @ApiProperty({ required: false })
+  @Expose()
+  expiresAt?: Date;
+
+  @ApiProperty({ required: false })
+  @Expose()
+  revokedAt?: Date;
+
+  @ApiProperty({ required: false })
+  @Expose()
+  lastUsedAt?: Date;
+
+  @ApiProperty()
+  @Expose()
+  createdAt: Date;
+}
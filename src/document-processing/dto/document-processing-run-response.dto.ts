@@ -0,0 +1,105 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Expose, Type } from 'class-transformer';
+import { ProcessingMethod } from '../domain/enums/processing-method.enum';
+import { ProcessingRunStatus } from '../domain/enums/processing-run-status.enum';
+import { ProcessingRunTrigger } from '../domain/enums/processing-run-trigger.enum';
+import { ExtractedFieldResponseDto } from './extracted-field-response.dto';
+import { ProcessingStageRecordResponseDto } from './processing-stage-record-response.dto';
+
+export class DocumentProcessingRunResponseDto {
+  @ApiProperty()
+  @Expose()
+  id: string;
+
+  @ApiProperty()
+  @Expose()
+  pipelineVersion: string;
+
+  @ApiProperty({ enum: ProcessingRunTrigger })
+  @Expose()
+  trigger: ProcessingRunTrigger;
+
+  @ApiProperty({ enum: ProcessingRunStatus })
+  @Expose()
+  status: ProcessingRunStatus;
+
+  @ApiProperty({
+    description: "Whether these are the document's current results",
+  })
+  @Expose()
+  current: boolean;
+
+  @ApiProperty({ description: 'Pipeline executions, including retries' })
+  @Expose()
+  attempts: number;
+
+  @ApiProperty({ enum: ProcessingMethod, required: false })
+  @Expose()
+  processingMethod?: ProcessingMethod;
+
+  @ApiProperty({ required: false })
+  @Expose()
+  confidence?: number;
+
+  @ApiProperty({ required: false })
+  @Expose()
+  pageCount?: number;
+
+  @ApiProperty({ required: false })
+  @Expose()
+  fieldCount?: number;
+
+  @ApiProperty({
+    required: false,
+    description: 'Total time spent in attempts',
+  })
+  @Expose()
+  durationMs?: number;
+
+  @ApiProperty({ description: 'Total pages charged by paid OCR engines' })
+  @Expose()
+  pagesBilled: number;
+
+  @ApiProperty({
+    type: ProcessingStageRecordResponseDto,
+    isArray: true,
+    description: 'Every stage of every attempt, in order',
+  })
+  @Expose()
+  @Type(() => ProcessingStageRecordResponseDto)
+  stages: ProcessingStageRecordResponseDto[];
+
+  @ApiProperty({ required: false })
+  @Expose()
+  errorMessage?: string;
+
+  @ApiProperty()
+  @Expose()
+  createdAt: Date;
+
+  @ApiProperty({ required: false })
+  @Expose()
+  startedAt?: Date;
+
+  @ApiProperty({ required: false })
+  @Expose()
+  completedAt?: Date;
+
+  @ApiProperty({ required: false })
+  @Expose()
+  promotedAt?: Date;
+}
+
+/**
+ * A run with its outputs (PHI), for comparing runs
+ */
+export class DocumentProcessingRunDetailResponseDto extends DocumentProcessingRunResponseDto {
+  @ApiProperty({ required: false })
+  @Expose()
+  extractedText?: string;
+
+  @ApiProperty({ type: ExtractedFieldResponseDto, isArray: true })
+  @Expose()
+  @Type(() => ExtractedFieldResponseDto)
+  fields: ExtractedFieldResponseDto[];
+}
@@ -9,10 +9,36 @@ export class DocumentResponseDto {
   @Expose()
   id: string;
 
-  @ApiProperty({ enum: DocumentType })
+  @ApiProperty({
+    enum: DocumentType,
+    description: 'Type the document is processed as (declared or corrected)',
+  })
   @Expose()
   documentType: DocumentType;
 
+  @ApiProperty({
+    enum: DocumentType,
+    required: false,
+    description: 'Type picked on upload; absent if left to the classifier',
+  })
+  @Expose()
+  declaredDocumentType?: DocumentType;
+
+  @ApiProperty({
+    enum: DocumentType,
+    required: false,
+    description: 'Type predicted by the classifier from the extracted text',
+  })
+  @Expose()
+  predictedDocumentType?: DocumentType;
+
+  @ApiProperty({
+    required: false,
+    description: 'Confidence of the predicted type (0-1)',
+  })
+  @Expose()
+  classificationConfidence?: number;
+
   @ApiProperty({ enum: DocumentStatus })
   @Expose()
   status: DocumentStatus;
@@ -37,6 +63,22 @@ export class DocumentResponseDto {
   @Expose()
   mimeType: string;
 
+  @ApiProperty({
+    required: false,
+    description: 'Hex-encoded SHA-256 of the uploaded file',
+  })
+  @Expose()
+  contentHash?: string;
+
+  @ApiProperty({
+    required: false,
+    format: 'uuid',
+    description:
+      'Earlier document with identical content whose results were reused',
+  })
+  @Expose()
+  duplicateOf?: string;
+
   @ApiProperty({ required: false })
   @Expose()
   description?: string;
@@ -45,6 +87,13 @@ export class DocumentResponseDto {
   @Expose()
   confidence?: number;
 
+  @ApiProperty({
+    required: false,
+    description: 'Extraction pipeline version of the current results',
+  })
+  @Expose()
+  pipelineVersion?: string;
+
   @ApiProperty({ required: false })
   @Expose()
   errorMessage?: string;
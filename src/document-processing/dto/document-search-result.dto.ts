@@ -0,0 +1,33 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { DocumentResponseDto } from './document-response.dto';
+
+export class DocumentSearchResultDto {
+  @ApiProperty({ type: DocumentResponseDto })
+  document: DocumentResponseDto;
+
+  @ApiProperty({
+    description:
+      'Relevance (higher is better); only comparable within a search',
+    example: 0.42,
+  })
+  rank: number;
+
+  @ApiProperty({
+    type: [String],
+    description:
+      'Excerpts of the extracted text, HTML-escaped, with matches wrapped in <mark>',
+    example: ['Hemoglobin <mark>A1c</mark> 6.1 % (4.0 - 5.6)'],
+  })
+  snippets: string[];
+}
+
+export class DocumentSearchResponseDto {
+  @ApiProperty({ type: [DocumentSearchResultDto] })
+  data: DocumentSearchResultDto[];
+
+  @ApiProperty({ description: 'Matching documents', example: 3 })
+  total: number;
+
+  @ApiProperty()
+  hasNextPage: boolean;
+}
@@ -1,5 +1,38 @@
 import { ApiProperty } from '@nestjs/swagger';
 import { DocumentStatus } from '../domain/enums/document-status.enum';
+import { ProcessingRunStatus } from '../domain/enums/processing-run-status.enum';
+import { ProcessingStageOutcome } from '../domain/enums/processing-stage-outcome.enum';
+
+export class ProcessingStageSummaryDto {
+  @ApiProperty({ example: 'document-ai' })
+  stage: string;
+
+  @ApiProperty({ enum: ProcessingStageOutcome })
+  outcome: ProcessingStageOutcome;
+
+  @ApiProperty()
+  durationMs: number;
+}
+
+export class ProcessingRunSummaryDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty({ enum: ProcessingRunStatus })
+  status: ProcessingRunStatus;
+
+  @ApiProperty()
+  pipelineVersion: string;
+
+  @ApiProperty({ description: 'Pipeline executions, including retries' })
+  attempts: number;
+
+  @ApiProperty({ required: false })
+  durationMs?: number;
+
+  @ApiProperty({ type: ProcessingStageSummaryDto, isArray: true })
+  stages: ProcessingStageSummaryDto[]; // Latest attempt only
+}
 
 export class DocumentStatusResponseDto {
   @ApiProperty()
@@ -22,4 +55,12 @@ export class DocumentStatusResponseDto {
 
   @ApiProperty({ required: false })
   errorMessage?: string;
+
+  @ApiProperty({
+    type: ProcessingRunSummaryDto,
+    required: false,
+    description:
+      'Most recent processing run, with the stages of its latest attempt',
+  })
+  lastRun?: ProcessingRunSummaryDto;
 }
@@ -0,0 +1,60 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Expose } from 'class-transformer';
+
+export class ImmunizationHistoryEntryResponseDto {
+  @ApiProperty({ description: 'CDC CVX vaccine code', example: '115' })
+  @Expose()
+  cvxCode: string;
+
+  @ApiProperty({ description: 'CVX short description', example: 'Tdap' })
+  @Expose()
+  vaccineName: string;
+
+  @ApiProperty({ description: 'Vaccine name as printed', example: 'Boostrix' })
+  @Expose()
+  printedName: string;
+
+  @ApiProperty({
+    required: false,
+    description: 'Administration date (YYYY-MM-DD)',
+    example: '2024-09-03',
+  })
+  @Expose()
+  administeredDate?: string;
+
+  @ApiProperty({
+    required: false,
+    description: 'Dose in the series',
+    example: 1,
+  })
+  @Expose()
+  doseNumber?: number;
+
+  @ApiProperty({ required: false, example: 'AC52B123AA' })
+  @Expose()
+  lotNumber?: string;
+
+  @ApiProperty({ required: false, example: 'GlaxoSmithKline' })
+  @Expose()
+  manufacturer?: string;
+
+  @ApiProperty({
+    required: false,
+    description: 'Administering clinic, pharmacy or provider',
+    example: 'County Health Dept',
+  })
+  @Expose()
+  administeredAt?: string;
+
+  @ApiProperty({ example: 0.9 })
+  @Expose()
+  confidence: number;
+
+  @ApiProperty({
+    description: 'Documents recording the dose',
+    type: [String],
+    example: ['123e4567-e89b-12d3-a456-426614174000'],
+  })
+  @Expose()
+  documentIds: string[];
+}
@@ -0,0 +1,70 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Expose } from 'class-transformer';
+import { LabResultFlag } from '../domain/enums/lab-result-flag.enum';
+
+export class LabResultResponseDto {
+  @ApiProperty({ description: 'Row order in the report', example: 0 })
+  @Expose()
+  rowIndex: number;
+
+  @ApiProperty({ description: 'Zero-based page of the row', example: 0 })
+  @Expose()
+  pageIndex: number;
+
+  @ApiProperty({ example: 'Hemoglobin' })
+  @Expose()
+  analyte: string;
+
+  @ApiProperty({
+    description: 'Value as printed (numeric, bounded or qualitative)',
+    example: '12.1',
+  })
+  @Expose()
+  value: string;
+
+  @ApiProperty({ required: false, example: 12.1 })
+  @Expose()
+  numericValue?: number;
+
+  @ApiProperty({ required: false, example: 'g/dL' })
+  @Expose()
+  unit?: string;
+
+  @ApiProperty({ required: false, example: 13.0 })
+  @Expose()
+  referenceLow?: number;
+
+  @ApiProperty({ required: false, example: 17.0 })
+  @Expose()
+  referenceHigh?: number;
+
+  @ApiProperty({
+    required: false,
+    description: 'Reference range as printed',
+    example: '13.0-17.0',
+  })
+  @Expose()
+  referenceRange?: string;
+
+  @ApiProperty({
+    required: false,
+    enum: LabResultFlag,
+    description:
+      'Printed abnormal flag, or HIGH/LOW derived from the reference range',
+    example: LabResultFlag.LOW,
+  })
+  @Expose()
+  flag?: LabResultFlag;
+
+  @ApiProperty({ required: false, example: 'Whole Blood' })
+  @Expose()
+  specimen?: string;
+
+  @ApiProperty({
+    required: false,
+    description: 'Collection date (YYYY-MM-DD)',
+    example: '2026-01-15',
+  })
+  @Expose()
+  collectionDate?: string;
+}
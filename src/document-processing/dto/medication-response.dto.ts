@@ -0,0 +1,100 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Expose } from 'class-transformer';
+import { MedicationRoute } from '../domain/enums/medication-route.enum';
+
+export class MedicationResponseDto {
+  @ApiProperty({ description: 'Order in the document', example: 0 })
+  @Expose()
+  rowIndex: number;
+
+  @ApiProperty({
+    description:
+      'Canonical generic name when in the drug dictionary, else as printed',
+    example: 'metformin',
+  })
+  @Expose()
+  drugName: string;
+
+  @ApiProperty({ description: 'Name as printed', example: 'Glucophage' })
+  @Expose()
+  printedName: string;
+
+  @ApiProperty({ required: false, example: '500 mg' })
+  @Expose()
+  strength?: string;
+
+  @ApiProperty({ required: false, example: 'tablet' })
+  @Expose()
+  dosageForm?: string;
+
+  @ApiProperty({
+    required: false,
+    description: 'Directions as printed',
+    example: '1 tab PO BID with meals',
+  })
+  @Expose()
+  sig?: string;
+
+  @ApiProperty({
+    required: false,
+    description: 'Amount per administration',
+    example: '1 tablet',
+  })
+  @Expose()
+  dose?: string;
+
+  @ApiProperty({
+    required: false,
+    enum: MedicationRoute,
+    example: MedicationRoute.ORAL,
+  })
+  @Expose()
+  route?: MedicationRoute;
+
+  @ApiProperty({ required: false, example: 'twice daily' })
+  @Expose()
+  frequency?: string;
+
+  @ApiProperty({
+    required: false,
+    description: 'Administrations per day (maximum for ranges such as q4-6h)',
+    example: 2,
+  })
+  @Expose()
+  timesPerDay?: number;
+
+  @ApiProperty({
+    required: false,
+    description: 'Hours between administrations (q6h: 6)',
+    example: 6,
+  })
+  @Expose()
+  intervalHours?: number;
+
+  @ApiProperty({ description: 'Taken as needed (PRN)', example: false })
+  @Expose()
+  asNeeded: boolean;
+
+  @ApiProperty({ required: false, example: 'pain' })
+  @Expose()
+  asNeededReason?: string;
+
+  @ApiProperty({
+    required: false,
+    description: 'Dispense quantity',
+    example: 60,
+  })
+  @Expose()
+  quantity?: number;
+
+  @ApiProperty({ required: false, example: 2 })
+  @Expose()
+  refills?: number;
+
+  @ApiProperty({
+    description: 'Higher when the drug name is in the drug dictionary',
+    example: 0.9,
+  })
+  @Expose()
+  confidence: number;
+}
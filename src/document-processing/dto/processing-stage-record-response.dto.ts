@@ -0,0 +1,41 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Expose } from 'class-transformer';
+import { ProcessingStageOutcome } from '../domain/enums/processing-stage-outcome.enum';
+
+export class ProcessingStageRecordResponseDto {
+  @ApiProperty({ description: 'Run attempt the stage belongs to (1-based)' })
+  @Expose()
+  attempt: number;
+
+  @ApiProperty({
+    example: 'document-ai',
+    description:
+      'pdf2json, pdf-parse, pdf-direct, vision, document-ai, ocr-merge or post-processing',
+  })
+  @Expose()
+  stage: string;
+
+  @ApiProperty({ enum: ProcessingStageOutcome })
+  @Expose()
+  outcome: ProcessingStageOutcome;
+
+  @ApiProperty()
+  @Expose()
+  startedAt: Date;
+
+  @ApiProperty()
+  @Expose()
+  durationMs: number;
+
+  @ApiProperty({ description: 'Pages read by an OCR engine' })
+  @Expose()
+  pagesProcessed: number;
+
+  @ApiProperty({ description: 'Pages charged by a paid OCR engine' })
+  @Expose()
+  pagesBilled: number;
+
+  @ApiProperty({ required: false, description: 'Sanitized error' })
+  @Expose()
+  errorMessage?: string;
+}
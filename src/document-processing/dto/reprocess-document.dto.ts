@@ -0,0 +1,13 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsBoolean, IsOptional } from 'class-validator';
+
+export class ReprocessDocumentDto {
+  @ApiPropertyOptional({
+    description:
+      'Make the new results current when the run succeeds. Set false to keep the current results and compare first (promote the run later).',
+    default: true,
+  })
+  @IsOptional()
+  @IsBoolean()
+  promote?: boolean = true;
+}
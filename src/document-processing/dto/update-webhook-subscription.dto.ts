@@ -0,0 +1,36 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsBoolean,
+  IsIn,
+  IsOptional,
+  IsUrl,
+  MaxLength,
+} from 'class-validator';
+import { DocumentEventType } from '../domain/enums/document-event-type.enum';
+import { WEBHOOK_EVENT_TYPES } from '../domain/services/document-webhooks.domain.service';
+
+export class UpdateWebhookSubscriptionDto {
+  @ApiPropertyOptional({
+    example: 'https://ehr-sync.example.com/hooks/keystone',
+  })
+  @IsOptional()
+  @IsUrl({ protocols: ['https'], require_protocol: true, require_tld: false })
+  @MaxLength(2048)
+  url?: string;
+
+  @ApiPropertyOptional({ enum: WEBHOOK_EVENT_TYPES, isArray: true })
+  @IsOptional()
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsIn(WEBHOOK_EVENT_TYPES, { each: true })
+  events?: DocumentEventType[];
+
+  @ApiPropertyOptional({
+    description: 'Inactive webhooks receive no deliveries',
+  })
+  @IsOptional()
+  @IsBoolean()
+  active?: boolean;
+}
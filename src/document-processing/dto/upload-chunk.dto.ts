@@ -0,0 +1,21 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import { IsInt, Matches, Min } from 'class-validator';
+
+export class UploadChunkDto {
+  @ApiProperty({
+    description: 'Byte offset of this chunk (must equal the upload offset)',
+    example: 0,
+  })
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  offset: number;
+
+  @ApiProperty({
+    description: 'Hex-encoded SHA-256 of the chunk',
+    example: 'e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855',
+  })
+  @Matches(/^[a-fA-F0-9]{64}$/, { message: 'checksum must be a SHA-256 hex' })
+  checksum: string;
+}
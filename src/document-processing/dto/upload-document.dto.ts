@@ -2,14 +2,26 @@ import { ApiProperty } from '@nestjs/swagger';
 import { IsEnum, IsOptional, IsString, MaxLength } from 'class-validator';
 import { DocumentType } from '../domain/enums/document-type.enum';
 
+// Allowed MIME types for medical documents
+export const ALLOWED_DOCUMENT_MIME_TYPES = [
+  'application/pdf',
+  'image/jpeg',
+  'image/png',
+  'image/tiff',
+  'image/gif',
+];
+
 export class UploadDocumentDto {
   @ApiProperty({
     enum: DocumentType,
-    description: 'Type of medical document',
+    description:
+      'Type of medical document. Optional when automatic classification is enabled: the type is then predicted from the extracted text',
     example: DocumentType.LAB_RESULT,
+    required: false,
   })
+  @IsOptional()
   @IsEnum(DocumentType)
-  documentType: DocumentType;
+  documentType?: DocumentType;
 
   @ApiProperty({
     description: 'Optional user description',
@@ -0,0 +1,35 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Expose } from 'class-transformer';
+import { DocumentStatus } from '../domain/enums/document-status.enum';
+
+export class UploadIntentResponseDto {
+  @ApiProperty({ format: 'uuid' })
+  @Expose()
+  documentId: string;
+
+  @ApiProperty({ enum: DocumentStatus, example: DocumentStatus.UPLOADED })
+  @Expose()
+  status: DocumentStatus;
+
+  @ApiProperty({
+    description:
+      'Signed storage URL; send the file as the raw request body (not multipart)',
+  })
+  @Expose()
+  uploadUrl: string;
+
+  @ApiProperty({ example: 'PUT' })
+  @Expose()
+  method: string;
+
+  @ApiProperty({
+    description: 'Headers that must be sent with the upload request',
+    example: { 'Content-Type': 'application/pdf' },
+  })
+  @Expose()
+  headers: Record<string, string>;
+
+  @ApiProperty({ description: 'The upload URL stops working after this' })
+  @Expose()
+  expiresAt: Date;
+}
@@ -0,0 +1,39 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Expose } from 'class-transformer';
+
+export class UploadSessionResponseDto {
+  @ApiProperty({ format: 'uuid' })
+  @Expose()
+  id: string;
+
+  @ApiProperty({
+    description: 'Bytes received so far; send the next chunk here',
+  })
+  @Expose()
+  offset: number;
+
+  @ApiProperty({ description: 'Declared total file size in bytes' })
+  @Expose()
+  fileSize: number;
+
+  @ApiProperty({ description: 'Maximum chunk size in bytes' })
+  @Expose()
+  maxChunkSize: number;
+
+  @ApiProperty({
+    description: 'Minimum chunk size in bytes (except the last chunk)',
+  })
+  @Expose()
+  minChunkSize: number;
+
+  @ApiProperty({
+    required: false,
+    description: 'Set once the upload is completed',
+  })
+  @Expose()
+  documentId?: string;
+
+  @ApiProperty({ description: 'Extended with every chunk received' })
+  @Expose()
+  expiresAt: Date;
+}
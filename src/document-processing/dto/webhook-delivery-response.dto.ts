@@ -0,0 +1,85 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Expose, Type } from 'class-transformer';
+import { DocumentEventType } from '../domain/enums/document-event-type.enum';
+import { WebhookDeliveryStatus } from '../domain/enums/webhook-delivery-status.enum';
+
+export class WebhookDeliveryAttemptResponseDto {
+  @ApiProperty()
+  @Expose()
+  attemptedAt: Date;
+
+  @ApiProperty()
+  @Expose()
+  durationMs: number;
+
+  @ApiProperty({
+    required: false,
+    description: 'Missing if no response was received',
+  })
+  @Expose()
+  responseStatus?: number;
+
+  @ApiProperty({ required: false })
+  @Expose()
+  errorMessage?: string;
+}
+
+export class WebhookDeliveryResponseDto {
+  @ApiProperty()
+  @Expose()
+  id: string;
+
+  @ApiProperty({
+    description: 'Shared by all deliveries and redeliveries of the event',
+  })
+  @Expose()
+  eventId: string;
+
+  @ApiProperty({ enum: DocumentEventType })
+  @Expose()
+  eventType: DocumentEventType;
+
+  @ApiProperty()
+  @Expose()
+  documentId: string;
+
+  @ApiProperty({
+    required: false,
+    description: 'Delivery this one was redelivered from',
+  })
+  @Expose()
+  redeliveryOf?: string;
+
+  @ApiProperty({ enum: WebhookDeliveryStatus })
+  @Expose()
+  status: WebhookDeliveryStatus;
+
+  @ApiProperty()
+  @Expose()
+  attempts: number;
+
+  @ApiProperty({ required: false, description: 'Next retry (PENDING only)' })
+  @Expose()
+  nextAttemptAt?: Date;
+
+  @ApiProperty({ required: false })
+  @Expose()
+  lastResponseStatus?: number;
+
+  @ApiProperty({ required: false })
+  @Expose()
+  lastError?: string;
+
+  @ApiProperty({ type: [WebhookDeliveryAttemptResponseDto] })
+  @Expose()
+  @Type(() => WebhookDeliveryAttemptResponseDto)
+  attemptLog: WebhookDeliveryAttemptResponseDto[];
+
+  @ApiProperty()
+  @Expose()
+  createdAt: Date;
+
+  @ApiProperty({ required: false })
+  @Expose()
+  deliveredAt?: Date;
+}
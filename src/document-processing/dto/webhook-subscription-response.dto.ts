@@ -0,0 +1,43 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Expose } from 'class-transformer';
+import { DocumentEventType } from '../domain/enums/document-event-type.enum';
+
+export class WebhookSubscriptionResponseDto {
+  @ApiProperty()
+  @Expose()
+  id: string;
+
+  @ApiProperty({ example: 'ehr-sync' })
+  @Expose()
+  name: string;
+
+  @ApiProperty()
+  @Expose()
+  url: string;
+
+  @ApiProperty({ enum: DocumentEventType, isArray: true })
+  @Expose()
+  events: DocumentEventType[];
+
+  @ApiProperty()
+  @Expose()
+  active: boolean;
+
+  @ApiProperty()
+  @Expose()
+  createdAt: Date;
+
+  @ApiProperty()
+  @Expose()
+  updatedAt: Date;
+}
+
+export class WebhookSubscriptionCreatedResponseDto extends WebhookSubscriptionResponseDto {
+  @ApiProperty({
+    example: 'whsec_4dQm...',
+    description:
+      'HMAC-SHA256 signing secret. Returned only once - store it securely.',
+  })
+  @Expose()
+  secret: string;
+}
@@ -0,0 +1,41 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import {
+  ExtractionContext,
+  ExtractionStage,
+} from '../../../domain/ports/extraction-stage.port';
+import { OcrServicePort } from '../../../domain/ports/ocr.service.port';
+import { ExtractionStageName } from '../../../domain/enums/extraction-stage-name.enum';
+
+/**
+ * Google Document AI OCR
+ *
+ * Always runs when routed - even after a successful native text extraction -
+ * so the Document AI output is available for comparison endpoints.
+ * The output is recorded as an engine output; `ocr-merge` selects the result.
+ */
+@Injectable()
+export class DocumentAiOcrStage implements ExtractionStage {
+  readonly name = ExtractionStageName.DOCUMENT_AI;
+  private readonly logger = new Logger(DocumentAiOcrStage.name);
+
+  constructor(
+    @Inject('DocumentAiOcrServicePort')
+    private readonly documentAiOcrService: OcrServicePort,
+  ) {}
+
+  canRun(context: ExtractionContext): boolean {
+    return !!context.gcsUri;
+  }
+
+  async run(context: ExtractionContext): Promise<void> {
+    context.engineOutputs.documentAi =
+      await this.documentAiOcrService.processDocument(
+        context.gcsUri,
+        context.mimeType,
+        context.pageCount,
+      );
+    this.logger.log(
+      `[PARALLEL OCR] Document AI completed for document ${context.documentId}`,
+    );
+  }
+}
@@ -0,0 +1,90 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  ExtractionContext,
+  ExtractionStage,
+} from '../../../domain/ports/extraction-stage.port';
+import { OcrResult } from '../../../domain/ports/ocr.service.port';
+import { ExtractionStageName } from '../../../domain/enums/extraction-stage-name.enum';
+import { ProcessingMethod } from '../../../domain/enums/processing-method.enum';
+import { OcrMergeService } from '../../../utils/ocr-merge.service';
+import { AllConfigType } from '../../../../config/config.type';
+
+/**
+ * Select the final result from the OCR engine outputs
+ *
+ * Precondition: no result yet and at least one OCR engine succeeded.
+ * - Merge enabled: merge when both engines succeeded, otherwise prefer Vision
+ * - Merge disabled: prefer Document AI, otherwise Vision
+ */
+@Injectable()
+export class OcrMergeStage implements ExtractionStage {
+  readonly name = ExtractionStageName.OCR_MERGE;
+  private readonly logger = new Logger(OcrMergeStage.name);
+
+  constructor(
+    private readonly ocrMergeService: OcrMergeService,
+    private readonly configService: ConfigService<AllConfigType>,
+  ) {}
+
+  canRun(context: ExtractionContext): boolean {
+    const { vision, documentAi } = context.engineOutputs;
+    return !context.result && !!(vision || documentAi);
+  }
+
+  async run(context: ExtractionContext): Promise<void> {
+    const { vision, documentAi } = context.engineOutputs;
+
+    const mergeEnabled =
+      this.configService.get('documentProcessing.ocrMerge.enabled', {
+        infer: true,
+      }) !== false;
+    const postProcessingEnabled =
+      this.configService.get('documentProcessing.ocrPostProcessing.enabled', {
+        infer: true,
+      }) || false;
+
+    if (mergeEnabled && vision && documentAi) {
+      this.logger.log(`[PARALLEL OCR] Both OCRs succeeded, merging results`);
+      context.result = await this.ocrMergeService.mergeOcrResults(
+        vision,
+        documentAi,
+        { enablePostProcessing: postProcessingEnabled },
+      );
+      context.processingMethod = ProcessingMethod.OCR_MERGED;
+      return;
+    }
+
+    const preferDocumentAi = !mergeEnabled;
+    if (documentAi && (preferDocumentAi || !vision)) {
+      this.logger.log(`[PARALLEL OCR] Using Document AI result`);
+      context.result = this.copyResult(documentAi);
+      context.processingMethod = this.documentAiMethod(context.pageCount);
+    } else if (vision) {
+      this.logger.log(`[PARALLEL OCR] Using Vision AI result`);
+      context.result = this.copyResult(vision);
+      context.processingMethod = ProcessingMethod.OCR_VISION_SYNC;
+    }
+  }
+
+  /**
+   * Copy so that attaching raw engine outputs does not mutate them
+   */
+  private copyResult(result: OcrResult): OcrResult {
+    const fullResponse =
+      result.fullResponse && typeof result.fullResponse === 'object'
+        ? { ...result.fullResponse }
+        : {};
+    return { ...result, fullResponse };
+  }
+
+  private documentAiMethod(pageCount?: number): ProcessingMethod {
+    const syncMaxPages = this.configService.get(
+      'documentProcessing.syncMaxPages',
+      { infer: true },
+    );
+    return pageCount && pageCount <= (syncMaxPages ?? 15)
+      ? ProcessingMethod.OCR_SYNC
+      : ProcessingMethod.OCR_BATCH;
+  }
+}
@@ -0,0 +1,39 @@
+import { Injectable } from '@nestjs/common';
+import {
+  ExtractionContext,
+  ExtractionStage,
+} from '../../../domain/ports/extraction-stage.port';
+import { ExtractionStageName } from '../../../domain/enums/extraction-stage-name.enum';
+import { ProcessingMethod } from '../../../domain/enums/processing-method.enum';
+import { PdfDirectExtractorAdapter } from '../../ocr/pdf-direct-extractor.adapter';
+import { extractEntitiesFromText } from '../../../utils/text-entity-extractor';
+import { isPdfWithBuffer } from './stage.utils';
+
+/**
+ * Native PDF text extraction via the PDF analyzer
+ *
+ * Not part of the default routes; available for routing configuration.
+ */
+@Injectable()
+export class PdfDirectStage implements ExtractionStage {
+  readonly name = ExtractionStageName.PDF_DIRECT;
+
+  constructor(private readonly pdfDirectExtractor: PdfDirectExtractorAdapter) {}
+
+  canRun(context: ExtractionContext): boolean {
+    return !context.result && isPdfWithBuffer(context);
+  }
+
+  async run(context: ExtractionContext): Promise<void> {
+    const result = await this.pdfDirectExtractor.processDocument(
+      context.fileBuffer as Buffer,
+      context.mimeType,
+    );
+
+    context.result = {
+      ...result,
+      entities: extractEntitiesFromText(result.text),
+    };
+    context.processingMethod = ProcessingMethod.DIRECT_EXTRACTION;
+  }
+}
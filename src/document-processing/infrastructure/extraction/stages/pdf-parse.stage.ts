@@ -0,0 +1,84 @@
+import { Injectable, Logger } from '@nestjs/common';
+import {
+  ExtractionContext,
+  ExtractionStage,
+} from '../../../domain/ports/extraction-stage.port';
+import { ExtractionStageName } from '../../../domain/enums/extraction-stage-name.enum';
+import { ProcessingMethod } from '../../../domain/enums/processing-method.enum';
+import { extractEntitiesFromText } from '../../../utils/text-entity-extractor';
+import { MIN_NATIVE_TEXT_LENGTH, isPdfWithBuffer } from './stage.utils';
+
+// Use require for pdf-parse (CommonJS module)
+// pdf-parse exports { PDFParse } as a named export
+// eslint-disable-next-line @typescript-eslint/no-require-imports
+const { PDFParse: pdfParse } = require('pdf-parse');
+
+/**
+ * Native PDF text extraction via pdf-parse
+ *
+ * pdf-parse handles corrupted XRef tables better than pdf2json, so when
+ * both are routed it only runs after pdf2json failed with an XRef error.
+ * Other pdf2json failures (e.g. scanned PDFs) go straight to OCR.
+ */
+@Injectable()
+export class PdfParseStage implements ExtractionStage {
+  readonly name = ExtractionStageName.PDF_PARSE;
+  private readonly logger = new Logger(PdfParseStage.name);
+
+  canRun(context: ExtractionContext): boolean {
+    if (context.result || !isPdfWithBuffer(context)) {
+      return false;
+    }
+
+    const pdf2JsonError = context.stageErrors[ExtractionStageName.PDF2JSON];
+    return !pdf2JsonError || this.isXRefError(pdf2JsonError);
+  }
+
+  async run(context: ExtractionContext): Promise<void> {
+    const xrefFallback = !!context.stageErrors[ExtractionStageName.PDF2JSON];
+    if (xrefFallback) {
+      this.logger.log(
+        `[PDF-PARSE] pdf2json detected XRef error - trying pdf-parse as intermediate fallback...`,
+      );
+    }
+
+    const pdfData = await pdfParse(context.fileBuffer);
+    const extractedText: string = pdfData.text || '';
+
+    this.logger.log(
+      `[PDF-PARSE] pdf-parse extraction successful: ${extractedText.length} characters`,
+    );
+
+    if (extractedText.trim().length < MIN_NATIVE_TEXT_LENGTH) {
+      throw new Error(
+        `Insufficient text from pdf-parse: ${extractedText.length} characters`,
+      );
+    }
+
+    const entities = extractEntitiesFromText(extractedText);
+    this.logger.log(
+      `[PDF-PARSE] Extracted ${entities.length} entities from text`,
+    );
+
+    context.result = {
+      text: extractedText,
+      confidence: 1.0, // Native text = 100% confidence
+      pageCount: pdfData.numpages || 1,
+      entities,
+      fullResponse: {
+        method: 'pdf_parse_extraction',
+        metadata: {
+          numPages: pdfData.numpages,
+          info: pdfData.info,
+          reason: xrefFallback ? 'pdf2json_xref_error_fallback' : undefined,
+        },
+      },
+    };
+    context.processingMethod = ProcessingMethod.DIRECT_EXTRACTION;
+  }
+
+  private isXRefError(error: Error): boolean {
+    const message = error.message || String(error);
+    return message.includes('Invalid XRef stream header');
+  }
+}
@@ -0,0 +1,72 @@
+import { Injectable, Logger } from '@nestjs/common';
+import {
+  ExtractionContext,
+  ExtractionStage,
+} from '../../../domain/ports/extraction-stage.port';
+import { ExtractionStageName } from '../../../domain/enums/extraction-stage-name.enum';
+import { ProcessingMethod } from '../../../domain/enums/processing-method.enum';
+import { Pdf2JsonService } from '../../pdf-extraction/pdf2json.service';
+import { extractEntitiesFromText } from '../../../utils/text-entity-extractor';
+import { MIN_NATIVE_TEXT_LENGTH, isPdfWithBuffer } from './stage.utils';
+
+/**
+ * Native PDF text extraction via pdf2json
+ *
+ * Precondition: PDF with the raw buffer available and no result yet.
+ * Fails (falls through to OCR) when the PDF has too little native text.
+ */
+@Injectable()
+export class Pdf2JsonStage implements ExtractionStage {
+  readonly name = ExtractionStageName.PDF2JSON;
+  private readonly logger = new Logger(Pdf2JsonStage.name);
+
+  constructor(private readonly pdf2JsonService: Pdf2JsonService) {}
+
+  canRun(context: ExtractionContext): boolean {
+    return !context.result && isPdfWithBuffer(context);
+  }
+
+  async run(context: ExtractionContext): Promise<void> {
+    const fileBuffer = context.fileBuffer as Buffer;
+
+    this.logger.log(
+      `[PDF2JSON] Starting pdf2json extraction for document ${context.documentId}...`,
+    );
+    this.logger.debug(`[PDF2JSON] Buffer size: ${fileBuffer.length} bytes`);
+
+    const { chunks, meta } = await this.pdf2JsonService.parseBuffer(fileBuffer);
+
+    this.logger.log(
+      `[PDF2JSON] Extraction complete: ${chunks.length} chunks from ${meta.Pages?.length} pages`,
+    );
+
+    // Combine all chunk content for entity extraction
+    const fullText = chunks.map((c) => c.content).join('\n');
+
+    // Check if we got meaningful text
+    if (fullText.trim().length < MIN_NATIVE_TEXT_LENGTH) {
+      throw new Error(
+        `Insufficient text content: ${fullText.length} characters`,
+      );
+    }
+
+    // Extract entities from combined text using regex patterns
+    const entities = extractEntitiesFromText(fullText);
+    this.logger.log(
+      `[PDF2JSON] Extracted ${entities.length} entities from text`,
+    );
+
+    context.result = {
+      text: fullText,
+      confidence: 1.0, // Native text = 100% confidence
+      pageCount: meta.Pages?.length || chunks.length,
+      entities,
+      fullResponse: {
+        method: 'pdf2json_extraction',
+        chunks, // Include structured chunks
+        metadata: meta.Meta || {},
+      },
+    };
+    context.processingMethod = ProcessingMethod.DIRECT_EXTRACTION;
+  }
+}
@@ -0,0 +1,11 @@
+import { ExtractionContext } from '../../../domain/ports/extraction-stage.port';
+
+/**
+ * Minimum native text length for a PDF to count as text-based
+ * Shorter output usually means a scanned PDF that needs OCR
+ */
+export const MIN_NATIVE_TEXT_LENGTH = 50;
+
+export function isPdfWithBuffer(context: ExtractionContext): boolean {
+  return context.mimeType === 'application/pdf' && !!context.fileBuffer;
+}
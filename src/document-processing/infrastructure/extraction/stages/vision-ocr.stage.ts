@@ -0,0 +1,40 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import {
+  ExtractionContext,
+  ExtractionStage,
+} from '../../../domain/ports/extraction-stage.port';
+import { OcrServicePort } from '../../../domain/ports/ocr.service.port';
+import { ExtractionStageName } from '../../../domain/enums/extraction-stage-name.enum';
+
+/**
+ * Google Vision AI OCR
+ *
+ * Always runs when routed - even after a successful native text extraction -
+ * so the Vision output is available for comparison endpoints.
+ * The output is recorded as an engine output; `ocr-merge` selects the result.
+ */
+@Injectable()
+export class VisionOcrStage implements ExtractionStage {
+  readonly name = ExtractionStageName.VISION;
+  private readonly logger = new Logger(VisionOcrStage.name);
+
+  constructor(
+    @Inject('VisionOcrServicePort')
+    private readonly visionOcrService: OcrServicePort,
+  ) {}
+
+  canRun(context: ExtractionContext): boolean {
+    return !!context.gcsUri;
+  }
+
+  async run(context: ExtractionContext): Promise<void> {
+    context.engineOutputs.vision = await this.visionOcrService.processDocument(
+      context.gcsUri,
+      context.mimeType,
+      context.pageCount,
+    );
+    this.logger.log(
+      `[PARALLEL OCR] Vision AI completed for document ${context.documentId}`,
+    );
+  }
+}
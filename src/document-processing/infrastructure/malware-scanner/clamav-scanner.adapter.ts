@@ -0,0 +1,129 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createConnection, Socket } from 'net';
+import { Readable } from 'stream';
+import {
+  MalwareScannerPort,
+  MalwareScanResult,
+} from '../../domain/ports/malware-scanner.port';
+import { AllConfigType } from '../../../config/config.type';
+
+const CLEAN_REPLY = /^stream: OK$/;
+const FOUND_REPLY = /^stream: (.+) FOUND$/;
+
+/**
+ * ClamAV Malware Scanner Adapter
+ *
+ * Streams files to clamd with the INSTREAM command: each chunk is sent with
+ * a 4-byte big-endian length prefix, terminated by a zero-length chunk.
+ * Connects to DOC_PROCESSING_CLAMAV_SOCKET if set, otherwise to
+ * DOC_PROCESSING_CLAMAV_HOST:DOC_PROCESSING_CLAMAV_PORT.
+ *
+ * clamd's StreamMaxLength must be at least the largest accepted upload,
+ * otherwise larger files fail to scan (and are never processed).
+ *
+ * HIPAA Compliance:
+ * - Use a local socket (or a private network); file content is sent in clear
+ * - Only signature names are logged, never file content
+ */
+@Injectable()
+export class ClamAvScannerAdapter implements MalwareScannerPort, OnModuleInit {
+  private readonly logger = new Logger(ClamAvScannerAdapter.name);
+  private readonly socketPath?: string;
+  private readonly host: string;
+  private readonly port: number;
+  private readonly timeoutMs: number;
+
+  constructor(private readonly configService: ConfigService<AllConfigType>) {
+    const config = this.configService.getOrThrow(
+      'documentProcessing.malwareScan.clamav',
+      { infer: true },
+    );
+    this.socketPath = config.socketPath;
+    this.host = config.host;
+    this.port = config.port;
+    this.timeoutMs = config.timeoutMs;
+  }
+
+  onModuleInit(): void {
+    this.logger.log(
+      `[MALWARE SCAN] Using clamd at ${this.socketPath ?? `${this.host}:${this.port}`}`,
+    );
+  }
+
+  async scan(stream: Readable): Promise<MalwareScanResult> {
+    const socket = this.socketPath
+      ? createConnection({ path: this.socketPath })
+      : createConnection({ host: this.host, port: this.port });
+    socket.setTimeout(this.timeoutMs, () =>
+      socket.destroy(new Error(`clamd timed out after ${this.timeoutMs} ms`)),
+    );
+
+    const reply = this.readReply(socket);
+    // Awaited below; avoids an unhandled rejection if sending fails first
+    reply.catch(() => undefined);
+
+    try {
+      await this.write(socket, Buffer.from('zINSTREAM\0'));
+      for await (const chunk of stream) {
+        const length = Buffer.alloc(4);
+        length.writeUInt32BE(chunk.length);
+        await this.write(socket, length);
+        await this.write(socket, chunk);
+      }
+      await this.write(socket, Buffer.alloc(4)); // End of stream
+    } catch (error) {
+      // clamd stops reading when it rejects a stream (e.g. size limit) and
+      // replies with the reason before closing the connection
+      const reason = await reply.catch(() => undefined);
+      socket.destroy();
+      if (reason) {
+        return this.parseReply(reason);
+      }
+      throw error;
+    }
+
+    try {
+      return this.parseReply(await reply);
+    } finally {
+      socket.destroy();
+    }
+  }
+
+  private readReply(socket: Socket): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const chunks: Buffer[] = [];
+      socket.on('data', (chunk: Buffer) => chunks.push(chunk));
+      // clamd closes the connection after replying to a z-prefixed command
+      socket.on('end', () =>
+        resolve(Buffer.concat(chunks).toString('utf8').replace(/\0/g, '')),
+      );
+      socket.on('error', reject);
+      socket.on('close', () =>
+        reject(new Error('clamd closed the connection without replying')),
+      );
+    });
+  }
+
+  private write(socket: Socket, data: Uint8Array): Promise<void> {
+    // Resolves once the data is flushed, so large files are sent with backpressure
+    return new Promise((resolve, reject) =>
+      socket.write(data, (error) => (error ? reject(error) : resolve())),
+    );
+  }
+
+  private parseReply(reply: string): MalwareScanResult {
+    const text = reply.trim();
+
+    if (CLEAN_REPLY.test(text)) {
+      return { clean: true };
+    }
+
+    const found = FOUND_REPLY.exec(text);
+    if (found) {
+      return { clean: false, signature: found[1] };
+    }
+
+    throw new Error(`clamd could not scan the file: ${text}`);
+  }
+}
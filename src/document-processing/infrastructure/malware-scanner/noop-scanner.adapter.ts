@@ -0,0 +1,33 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { Readable } from 'stream';
+import { finished } from 'stream/promises';
+import {
+  MalwareScannerPort,
+  MalwareScanResult,
+} from '../../domain/ports/malware-scanner.port';
+
+/**
+ * No-op Malware Scanner Adapter
+ *
+ * Reports every file as clean. For tests and local development only
+ * (DOC_PROCESSING_MALWARE_SCANNER=none); magic-byte and encryption checks
+ * still run.
+ */
+@Injectable()
+export class NoopScannerAdapter implements MalwareScannerPort, OnModuleInit {
+  private readonly logger = new Logger(NoopScannerAdapter.name);
+
+  onModuleInit(): void {
+    this.logger.warn(
+      '[MALWARE SCAN] Malware scanning is disabled; do not use in production',
+    );
+  }
+
+  async scan(stream: Readable): Promise<MalwareScanResult> {
+    // Consume the file like a real scanner would, so callers inspecting the
+    // same stream see all of it
+    stream.resume();
+    await finished(stream);
+    return { clean: true };
+  }
+}
@@ -0,0 +1,139 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { createWorker } from 'tesseract.js';
+import { LocalOcrAdapter } from './local-ocr.adapter';
+import { StorageServicePort } from '../../domain/ports/storage.service.port';
+import { extractLinesWithBoundingBoxes } from '../../utils/ocr-alignment';
+
+jest.mock('tesseract.js', () => ({
+  createWorker: jest.fn(),
+  OEM: { LSTM_ONLY: 1 },
+}));
+
+// PNG header only: signature, IHDR chunk type, width and height
+function pngHeader(width: number, height: number): Buffer {
+  const buffer = Buffer.alloc(24);
+  buffer.writeUInt32BE(0x89504e47, 0);
+  buffer.write('IHDR', 12, 'ascii');
+  buffer.writeUInt32BE(width, 16);
+  buffer.writeUInt32BE(height, 20);
+  return buffer;
+}
+
+function word(text: string, x0: number, y0: number, confidence: number) {
+  return {
+    text,
+    confidence,
+    bbox: { x0, y0, x1: x0 + 80, y1: y0 + 20 },
+  };
+}
+
+describe('LocalOcrAdapter', () => {
+  let adapter: LocalOcrAdapter;
+  let mockStorage: jest.Mocked<StorageServicePort>;
+  let mockWorker: { recognize: jest.Mock; terminate: jest.Mock };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const words = [
+      word('Glucose', 40, 100, 96),
+      word('95', 200, 102, 90),
+      word('mg/dL', 300, 101, 88),
+    ];
+    mockWorker = {
+      recognize: jest.fn().mockResolvedValue({
+        data: {
+          text: 'Glucose 95 mg/dL\n',
+          confidence: 91,
+          blocks: [
+            {
+              confidence: 91,
+              bbox: { x0: 40, y0: 100, x1: 380, y1: 122 },
+              paragraphs: [
+                {
+                  confidence: 91,
+                  bbox: { x0: 40, y0: 100, x1: 380, y1: 122 },
+                  lines: [{ words }],
+                },
+              ],
+            },
+          ],
+        },
+      }),
+      terminate: jest.fn(),
+    };
+    (createWorker as jest.Mock).mockResolvedValue(mockWorker);
+
+    mockStorage = {
+      fetchRaw: jest.fn().mockResolvedValue(pngHeader(800, 600)),
+    } as any;
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        LocalOcrAdapter,
+        { provide: 'StorageServicePort', useValue: mockStorage },
+        {
+          provide: ConfigService,
+          useValue: {
+            getOrThrow: jest.fn().mockReturnValue({
+              languages: 'eng',
+              pdfRenderScale: 2,
+            }),
+          },
+        },
+      ],
+    }).compile();
+
+    adapter = module.get(LocalOcrAdapter);
+  });
+
+  it('should return Vision AI shaped output with scaled confidence', async () => {
+    const result = await adapter.processDocument(
+      'local://documents/scan.png',
+      'image/png',
+    );
+
+    expect(result.text).toBe('Glucose 95 mg/dL\n');
+    expect(result.pageCount).toBe(1);
+    expect(result.confidence).toBe(0.91);
+
+    const page = result.fullResponse.fullTextAnnotation.pages[0];
+    expect(page).toMatchObject({ width: 800, height: 600, confidence: 0.91 });
+
+    const words = page.blocks[0].paragraphs[0].words;
+    expect(words.map((w: any) => w.symbols[0].text)).toEqual([
+      'Glucose',
+      '95',
+      'mg/dL',
+    ]);
+    expect(words[0].confidence).toBe(0.96);
+    expect(words[0].boundingBox.vertices).toEqual([
+      { x: 40, y: 100 },
+      { x: 120, y: 100 },
+      { x: 120, y: 120 },
+      { x: 40, y: 120 },
+    ]);
+  });
+
+  it('should produce lines with bounding boxes for the merge stage', async () => {
+    const result = await adapter.processDocument(
+      'local://documents/scan.png',
+      'image/png',
+    );
+
+    const lines = extractLinesWithBoundingBoxes(result);
+
+    expect(lines).toHaveLength(1);
+    expect(lines[0].text).toContain('Glucose');
+    expect(lines[0].text).toContain('mg/dL');
+  });
+
+  it('should create a single shared worker', async () => {
+    await adapter.processDocument('local://a.png', 'image/png');
+    await adapter.processDocument('local://b.png', 'image/png');
+
+    expect(createWorker).toHaveBeenCalledTimes(1);
+    expect(mockWorker.recognize).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,224 @@
+import { Inject, Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createWorker, OEM, Page, Worker } from 'tesseract.js';
+import { OcrServicePort, OcrResult } from '../../domain/ports/ocr.service.port';
+import { StorageServicePort } from '../../domain/ports/storage.service.port';
+import { AllConfigType } from '../../../config/config.type';
+import { extractEntitiesFromText } from '../../utils/text-entity-extractor';
+import { readImageDimensions } from '../../utils/image-dimensions';
+
+// Use require for pdf-parse (CommonJS module)
+// eslint-disable-next-line @typescript-eslint/no-require-imports
+const { PDFParse } = require('pdf-parse');
+
+interface PageImage {
+  data: Buffer;
+  width?: number;
+  height?: number;
+}
+
+/**
+ * Local (offline) OCR Adapter
+ *
+ * Runs tesseract.js (WASM) in-process, so scanned documents can be processed
+ * without GCP (dev, CI, on-prem). PDFs are rendered page by page before OCR.
+ *
+ * Output mirrors the Vision AI shape (fullResponse.fullTextAnnotation with
+ * pages -> blocks -> paragraphs -> words and pixel bounding boxes), so
+ * OcrMergeService and extractLinesWithBoundingBoxes work unchanged.
+ *
+ * Select per engine slot:
+ * DOC_PROCESSING_OCR_VISION_ENGINE=local and/or
+ * DOC_PROCESSING_OCR_DOCUMENT_AI_ENGINE=local
+ *
+ * Offline installs: set DOC_PROCESSING_LOCAL_OCR_LANG_PATH to a directory
+ * containing <lang>.traineddata; otherwise language data is downloaded once
+ * and cached.
+ *
+ * HIPAA Compliance:
+ * - Document content never leaves the process
+ * - Never log PHI or extracted text
+ */
+@Injectable()
+export class LocalOcrAdapter implements OcrServicePort, OnModuleDestroy {
+  private readonly logger = new Logger(LocalOcrAdapter.name);
+  private workerPromise?: Promise<Worker>;
+
+  constructor(
+    private readonly configService: ConfigService<AllConfigType>,
+    @Inject('StorageServicePort')
+    private readonly storageService: StorageServicePort,
+  ) {}
+
+  async processDocument(
+    gcsUri: string,
+    mimeType: string,
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    _pageCount?: number,
+  ): Promise<OcrResult> {
+    const startTime = Date.now();
+    this.logger.log(`[LOCAL OCR] processDocument called - MIME: ${mimeType}`);
+
+    const fileBuffer = await this.storageService.fetchRaw(gcsUri);
+    const pageImages =
+      mimeType === 'application/pdf'
+        ? await this.renderPdfPages(fileBuffer)
+        : [{ data: fileBuffer, ...readImageDimensions(fileBuffer) }];
+
+    const worker = await this.getWorker();
+    const pages: any[] = [];
+    const pageTexts: string[] = [];
+    let confidenceSum = 0;
+
+    for (const image of pageImages) {
+      const { data } = await worker.recognize(
+        image.data,
+        {},
+        { text: true, blocks: true },
+      );
+      pages.push(this.toVisionPage(data, image));
+      pageTexts.push(data.text || '');
+      confidenceSum += data.confidence || 0;
+    }
+
+    const fullText = pageTexts.join('\n');
+    const pageCount = pageImages.length;
+    // Tesseract reports 0-100
+    const confidence =
+      pageCount > 0 ? Math.round((confidenceSum / pageCount) * 10) / 1000 : 0;
+    const entities = extractEntitiesFromText(fullText);
+
+    this.logger.log(
+      `[LOCAL OCR] Processing complete - Pages: ${pageCount}, Entities: ${entities.length}, Confidence: ${confidence}, Time: ${Date.now() - startTime}ms`,
+    );
+
+    return {
+      text: fullText,
+      confidence,
+      pageCount,
+      entities,
+      fullResponse: {
+        engine: 'tesseract',
+        fullTextAnnotation: {
+          text: fullText,
+          pages,
+        },
+      },
+    };
+  }
+
+  async onModuleDestroy(): Promise<void> {
+    if (this.workerPromise) {
+      const worker = await this.workerPromise.catch(() => undefined);
+      await worker?.terminate();
+      this.workerPromise = undefined;
+    }
+  }
+
+  /**
+   * Lazily create a single shared worker (jobs are queued by tesseract.js)
+   */
+  private getWorker(): Promise<Worker> {
+    if (!this.workerPromise) {
+      const localOcr = this.configService.getOrThrow(
+        'documentProcessing.localOcr',
+        { infer: true },
+      );
+
+      this.logger.log(
+        `[LOCAL OCR] Initializing tesseract worker (languages: ${localOcr.languages})`,
+      );
+
+      this.workerPromise = createWorker(localOcr.languages, OEM.LSTM_ONLY, {
+        ...(localOcr.langPath && { langPath: localOcr.langPath }),
+        ...(localOcr.cachePath && { cachePath: localOcr.cachePath }),
+      }).catch((error) => {
+        // Allow a later attempt to retry initialization
+        this.workerPromise = undefined;
+        throw error;
+      });
+    }
+    return this.workerPromise;
+  }
+
+  /**
+   * Render each PDF page to PNG for OCR
+   */
+  private async renderPdfPages(fileBuffer: Buffer): Promise<PageImage[]> {
+    const scale = this.configService.getOrThrow(
+      'documentProcessing.localOcr.pdfRenderScale',
+      { infer: true },
+    );
+    const parser = new PDFParse({ data: fileBuffer });
+
+    try {
+      const screenshots = await parser.getScreenshot({
+        scale,
+        imageDataUrl: false,
+        imageBuffer: true,
+      });
+
+      return screenshots.pages.map((page: any) => ({
+        data: Buffer.from(page.data),
+        width: page.width,
+        height: page.height,
+      }));
+    } finally {
+      await parser.destroy();
+    }
+  }
+
+  /**
+   * Convert a tesseract page into a Vision AI style page
+   * Bounding boxes stay in pixels; width/height allow normalization
+   */
+  private toVisionPage(page: Page, image: PageImage): any {
+    const blocks = (page.blocks || []).map((block) => ({
+      confidence: block.confidence / 100,
+      boundingBox: this.toBoundingPoly(block.bbox),
+      paragraphs: block.paragraphs.map((paragraph) => ({
+        confidence: paragraph.confidence / 100,
+        boundingBox: this.toBoundingPoly(paragraph.bbox),
+        words: paragraph.lines.flatMap((line) =>
+          line.words.map((word) => ({
+            confidence: word.confidence / 100,
+            boundingBox: this.toBoundingPoly(word.bbox),
+            symbols: [{ text: word.text }],
+          })),
+        ),
+      })),
+    }));
+
+    // Fall back to the text extent when the image size is unknown
+    const extent = (page.blocks || []).reduce(
+      (max, block) => ({
+        width: Math.max(max.width, block.bbox.x1),
+        height: Math.max(max.height, block.bbox.y1),
+      }),
+      { width: 1, height: 1 },
+    );
+
+    return {
+      width: image.width || extent.width,
+      height: image.height || extent.height,
+      confidence: page.confidence / 100,
+      blocks,
+    };
+  }
+
+  private toBoundingPoly(bbox: {
+    x0: number;
+    y0: number;
+    x1: number;
+    y1: number;
+  }) {
+    return {
+      vertices: [
+        { x: bbox.x0, y: bbox.y0 },
+        { x: bbox.x1, y: bbox.y0 },
+        { x: bbox.x1, y: bbox.y1 },
+        { x: bbox.x0, y: bbox.y1 },
+      ],
+    };
+  }
+}
@@ -1,10 +1,21 @@
 import { Injectable, Logger } from '@nestjs/common';
+import { PositionedText } from '../../utils/lab-result-table-parser';
 
 // Use require to get the correct constructor reference
 // pdf2json exports a class/constructor, not a plain function
 // eslint-disable-next-line @typescript-eslint/no-require-imports
 const PDFParserModule = require('pdf2json');
 
+// pdf2json positions are in page units of 1/4.5 inch (16 points)
+const POINTS_PER_PAGE_UNIT = 16;
+const DEFAULT_FONT_SIZE = 10;
+
+export interface Pdf2JsonChunk {
+  id: string;
+  content: string;
+  texts?: PositionedText[]; // Page chunks: text items with their positions
+}
+
 /**
  * PDF2JSON Extraction Service
  *
@@ -15,6 +26,8 @@ const PDFParserModule = require('pdf2json');
  * - Extracts text content from PDF pages
  * - Extracts interactive form field values
  * - Returns structured chunks (pages and fields)
+ * - Keeps the position of every text item on page chunks, so tables can be
+ *   rebuilt (e.g. lab result rows)
  * - Includes metadata from the PDF
  *
  * Usage pattern from docs:
@@ -36,7 +49,7 @@ export class Pdf2JsonService {
    * @returns Object containing chunks (array of text/field content) and metadata
    */
   async parseBuffer(buffer: Buffer): Promise<{
-    chunks: Array<{ id: string; content: string }>;
+    chunks: Pdf2JsonChunk[];
     meta: any;
   }> {
     this.logger.log('[PDF2JSON] Starting parse of PDF buffer...');
@@ -97,20 +110,22 @@ export class Pdf2JsonService {
    * @returns Structured chunks and metadata
    */
   private mapPdfData(pdfData: any) {
-    const chunks: Array<{ id: string; content: string }> = [];
+    const chunks: Pdf2JsonChunk[] = [];
 
     // Process each page
     for (const [pageIndex, page] of (pdfData.Pages ?? []).entries()) {
       // Extract text segments from the page
       // The Texts entries store percent-encoded text segments; need to decodeURIComponent to get human readable text
-      const pageText = (page.Texts ?? [])
-        .map((t: any) => decodeURIComponent(t.R.map((r: any) => r.T).join('')))
-        .join(' ');
+      const texts: PositionedText[] = (page.Texts ?? []).map((t: any) =>
+        this.toPositionedText(t, pageIndex, page),
+      );
+      const pageText = texts.map((t) => t.text).join(' ');
 
       // Add page content chunk
       chunks.push({
         id: `page_${pageIndex + 1}`,
         content: pageText,
+        texts,
       });
 
       // Extract form fields if present
@@ -133,4 +148,27 @@ export class Pdf2JsonService {
 
     return { chunks, meta: pdfData };
   }
+
+  /**
+   * Decode a text item and normalize its position to the page [0, 1]
+   * pdf2json gives the top-left corner; the height comes from the font size
+   */
+  private toPositionedText(
+    text: any,
+    pageIndex: number,
+    page: any,
+  ): PositionedText {
+    const pageWidth = page.Width || 1;
+    const pageHeight = page.Height || 1;
+    const fontSize = text.R?.[0]?.TS?.[1] || DEFAULT_FONT_SIZE;
+    const y = text.y ?? 0;
+
+    return {
+      text: decodeURIComponent(text.R.map((r: any) => r.T).join('')),
+      pageIndex,
+      x: (text.x ?? 0) / pageWidth,
+      y0: y / pageHeight,
+      y1: (y + fontSize / POINTS_PER_PAGE_UNIT) / pageHeight,
+    };
+  }
 }
@@ -0,0 +1,135 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import {
+  DocumentSchema,
+  DocumentSchemaClass,
+} from './entities/document.schema';
+import {
+  ExtractedFieldSchema,
+  ExtractedFieldSchemaClass,
+} from './entities/extracted-field.schema';
+import {
+  ProcessingJobSchema,
+  ProcessingJobSchemaClass,
+} from './entities/processing-job.schema';
+import {
+  DocumentGrantSchema,
+  DocumentGrantSchemaClass,
+} from './entities/document-grant.schema';
+import {
+  UploadSessionSchema,
+  UploadSessionSchemaClass,
+} from './entities/upload-session.schema';
+import {
+  DocumentProcessingRunSchema,
+  DocumentProcessingRunSchemaClass,
+} from './entities/document-processing-run.schema';
+import {
+  WebhookSubscriptionSchema,
+  WebhookSubscriptionSchemaClass,
+} from './entities/webhook-subscription.schema';
+import {
+  WebhookDeliverySchema,
+  WebhookDeliverySchemaClass,
+} from './entities/webhook-delivery.schema';
+import {
+  LabResultSchema,
+  LabResultSchemaClass,
+} from './entities/lab-result.schema';
+import {
+  MedicationSchema,
+  MedicationSchemaClass,
+} from './entities/medication.schema';
+import {
+  ImmunizationSchema,
+  ImmunizationSchemaClass,
+} from './entities/immunization.schema';
+import { DocumentsDocumentRepository } from './repositories/document.repository';
+import { ProcessingQueueDocumentRepository } from './repositories/processing-queue.repository';
+import { DocumentGrantsDocumentRepository } from './repositories/document-grant.repository';
+import { UploadSessionsDocumentRepository } from './repositories/upload-session.repository';
+import { DocumentProcessingRunsDocumentRepository } from './repositories/document-processing-run.repository';
+import { WebhookSubscriptionsDocumentRepository } from './repositories/webhook-subscription.repository';
+import { WebhookDeliveriesDocumentRepository } from './repositories/webhook-delivery.repository';
+import { LabResultsDocumentRepository } from './repositories/lab-result.repository';
+import { MedicationsDocumentRepository } from './repositories/medication.repository';
+import { ImmunizationsDocumentRepository } from './repositories/immunization.repository';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: DocumentSchemaClass.name, schema: DocumentSchema },
+      { name: ExtractedFieldSchemaClass.name, schema: ExtractedFieldSchema },
+      { name: ProcessingJobSchemaClass.name, schema: ProcessingJobSchema },
+      { name: DocumentGrantSchemaClass.name, schema: DocumentGrantSchema },
+      { name: UploadSessionSchemaClass.name, schema: UploadSessionSchema },
+      {
+        name: DocumentProcessingRunSchemaClass.name,
+        schema: DocumentProcessingRunSchema,
+      },
+      {
+        name: WebhookSubscriptionSchemaClass.name,
+        schema: WebhookSubscriptionSchema,
+      },
+      { name: WebhookDeliverySchemaClass.name, schema: WebhookDeliverySchema },
+      { name: LabResultSchemaClass.name, schema: LabResultSchema },
+      { name: MedicationSchemaClass.name, schema: MedicationSchema },
+      { name: ImmunizationSchemaClass.name, schema: ImmunizationSchema },
+    ]),
+  ],
+  providers: [
+    {
+      provide: 'DocumentRepositoryPort',
+      useClass: DocumentsDocumentRepository,
+    },
+    {
+      provide: 'ProcessingQueuePort',
+      useClass: ProcessingQueueDocumentRepository,
+    },
+    {
+      provide: 'DocumentGrantRepositoryPort',
+      useClass: DocumentGrantsDocumentRepository,
+    },
+    {
+      provide: 'UploadSessionRepositoryPort',
+      useClass: UploadSessionsDocumentRepository,
+    },
+    {
+      provide: 'DocumentProcessingRunRepositoryPort',
+      useClass: DocumentProcessingRunsDocumentRepository,
+    },
+    {
+      provide: 'WebhookSubscriptionRepositoryPort',
+      useClass: WebhookSubscriptionsDocumentRepository,
+    },
+    {
+      provide: 'WebhookDeliveryRepositoryPort',
+      useClass: WebhookDeliveriesDocumentRepository,
+    },
+    {
+      provide: 'LabResultRepositoryPort',
+      useClass: LabResultsDocumentRepository,
+    },
+    {
+      provide: 'MedicationRepositoryPort',
+      useClass: MedicationsDocumentRepository,
+    },
+    {
+      provide: 'ImmunizationRepositoryPort',
+      useClass: ImmunizationsDocumentRepository,
+    },
+  ],
+  exports: [
+    'DocumentRepositoryPort',
+    'ProcessingQueuePort',
+    'DocumentGrantRepositoryPort',
+    'UploadSessionRepositoryPort',
+    'DocumentProcessingRunRepositoryPort',
+    'WebhookSubscriptionRepositoryPort',
+    'WebhookDeliveryRepositoryPort',
+    'LabResultRepositoryPort',
+    'MedicationRepositoryPort',
+    'ImmunizationRepositoryPort',
+  ],
+})
+export class DocumentDocumentProcessingPersistenceModule {}
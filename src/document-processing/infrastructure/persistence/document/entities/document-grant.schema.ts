@@ -0,0 +1,54 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { now, HydratedDocument } from 'mongoose';
+import { randomUUID } from 'crypto';
+import { DocumentGrantScope } from '../../../../domain/enums/document-grant-scope.enum';
+
+export type DocumentGrantSchemaDocument =
+  HydratedDocument<DocumentGrantSchemaClass>;
+
+@Schema({
+  timestamps: true,
+  toJSON: {
+    virtuals: true,
+    getters: true,
+  },
+})
+export class DocumentGrantSchemaClass {
+  @Prop({ type: String, default: () => randomUUID() })
+  _id: string;
+
+  @Prop({ type: String, required: true, index: true })
+  documentId: string;
+
+  @Prop({ type: String, required: true })
+  grantedByUserId: string;
+
+  @Prop({ type: String, default: null, index: true })
+  granteeUserId?: string | null;
+
+  // HIPAA NOTE: PII - invite email, stored lowercase
+  @Prop({ type: String, default: null, index: true })
+  granteeEmail?: string | null;
+
+  @Prop({ type: [String], enum: DocumentGrantScope, required: true })
+  scopes: DocumentGrantScope[];
+
+  @Prop({ type: Date, default: null })
+  expiresAt?: Date | null;
+
+  @Prop({ type: Date, default: null })
+  revokedAt?: Date | null;
+
+  @Prop({ type: Date, default: null })
+  lastUsedAt?: Date | null;
+
+  @Prop({ default: now })
+  createdAt: Date;
+
+  @Prop({ default: now })
+  updatedAt: Date;
+}
+
+export const DocumentGrantSchema = SchemaFactory.createForClass(
+  DocumentGrantSchemaClass,
+);
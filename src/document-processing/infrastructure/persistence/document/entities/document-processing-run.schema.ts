@@ -0,0 +1,130 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { now, HydratedDocument } from 'mongoose';
+import { randomUUID } from 'crypto';
+import { DocumentType } from '../../../../domain/enums/document-type.enum';
+import { ProcessingMethod } from '../../../../domain/enums/processing-method.enum';
+import { ProcessingRunStatus } from '../../../../domain/enums/processing-run-status.enum';
+import { ProcessingRunTrigger } from '../../../../domain/enums/processing-run-trigger.enum';
+
+export type DocumentProcessingRunSchemaDocument =
+  HydratedDocument<DocumentProcessingRunSchemaClass>;
+
+@Schema({
+  timestamps: true,
+  toJSON: {
+    virtuals: true,
+    getters: true,
+  },
+})
+export class DocumentProcessingRunSchemaClass {
+  @Prop({ type: String, default: () => randomUUID() })
+  _id: string;
+
+  @Prop({ type: String, required: true })
+  documentId: string;
+
+  @Prop({ type: String, required: true })
+  pipelineVersion: string;
+
+  @Prop({ type: String, enum: ProcessingRunTrigger, required: true })
+  trigger: ProcessingRunTrigger;
+
+  @Prop({ type: String, default: null })
+  requestedByUserId?: string | null;
+
+  @Prop({ type: String, enum: ProcessingRunStatus, required: true })
+  status: ProcessingRunStatus;
+
+  @Prop({ type: Boolean, default: true })
+  promoteOnSuccess: boolean;
+
+  @Prop({ type: Number, default: 0 })
+  attempts: number;
+
+  @Prop({ type: String, enum: ProcessingMethod, default: null })
+  processingMethod?: ProcessingMethod | null;
+
+  @Prop({ type: String, enum: DocumentType, default: null })
+  documentType?: DocumentType | null;
+
+  @Prop({ type: String, enum: DocumentType, default: null })
+  predictedDocumentType?: DocumentType | null;
+
+  @Prop({ type: Number, default: null })
+  classificationConfidence?: number | null;
+
+  @Prop({ type: String, default: null })
+  processedFileUri?: string | null;
+
+  // HIPAA NOTE: The following fields contain PHI
+  @Prop({ type: Object, default: null })
+  ocrJsonOutput?: any;
+
+  @Prop({ type: String, default: null })
+  extractedText?: string | null;
+
+  @Prop({ type: [Object], default: null })
+  extractedFields?: any[] | null;
+
+  @Prop({ type: [Object], default: null })
+  labResults?: any[] | null;
+
+  @Prop({ type: [Object], default: null })
+  medications?: any[] | null;
+
+  @Prop({ type: [Object], default: null })
+  immunizations?: any[] | null;
+
+  @Prop({ type: Number, default: null })
+  confidence?: number | null;
+
+  @Prop({ type: Number, default: null })
+  pageCount?: number | null;
+
+  // Stage history (no PHI): ProcessingStageRecord[]
+  @Prop({ type: [Object], default: [] })
+  stages: any[];
+
+  @Prop({ type: Number, default: null })
+  durationMs?: number | null;
+
+  @Prop({ type: Number, default: 0 })
+  pagesBilled: number;
+
+  @Prop({ type: String, default: null })
+  errorMessage?: string | null;
+
+  @Prop({ default: now })
+  createdAt: Date;
+
+  @Prop({ default: now })
+  updatedAt: Date;
+
+  @Prop({ type: Date, default: null })
+  startedAt?: Date | null;
+
+  @Prop({ type: Date, default: null })
+  completedAt?: Date | null;
+
+  @Prop({ type: Date, default: null })
+  promotedAt?: Date | null;
+}
+
+export const DocumentProcessingRunSchema = SchemaFactory.createForClass(
+  DocumentProcessingRunSchemaClass,
+);
+
+DocumentProcessingRunSchema.index({ documentId: 1, createdAt: -1 });
+DocumentProcessingRunSchema.index({ status: 1 });
+// At most one open run per document
+DocumentProcessingRunSchema.index(
+  { documentId: 1 },
+  {
+    unique: true,
+    partialFilterExpression: {
+      status: {
+        $in: [ProcessingRunStatus.QUEUED, ProcessingRunStatus.RUNNING],
+      },
+    },
+  },
+);
@@ -0,0 +1,137 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import mongoose, { now, HydratedDocument } from 'mongoose';
+import { randomUUID } from 'crypto';
+import { DocumentStatus } from '../../../../domain/enums/document-status.enum';
+import { DocumentType } from '../../../../domain/enums/document-type.enum';
+import { ProcessingMethod } from '../../../../domain/enums/processing-method.enum';
+
+export type DocumentSchemaDocument = HydratedDocument<DocumentSchemaClass>;
+
+@Schema({
+  timestamps: true,
+  toJSON: {
+    virtuals: true,
+    getters: true,
+  },
+})
+export class DocumentSchemaClass {
+  // UUIDs (not ObjectIds) keep document IDs identical across both databases
+  @Prop({ type: String, default: () => randomUUID() })
+  _id: string;
+
+  @Prop({ type: String, required: true })
+  userId: string;
+
+  @Prop({ type: String, enum: DocumentType, required: true })
+  documentType: DocumentType;
+
+  // null: left to the classifier; missing: uploaded before classification
+  @Prop({ type: String, enum: DocumentType })
+  declaredDocumentType?: DocumentType | null;
+
+  @Prop({ type: String, enum: DocumentType })
+  predictedDocumentType?: DocumentType;
+
+  @Prop({ type: Number })
+  classificationConfidence?: number;
+
+  @Prop({ type: String, enum: DocumentStatus, required: true })
+  status: DocumentStatus;
+
+  @Prop({ type: String, enum: ProcessingMethod })
+  processingMethod?: ProcessingMethod;
+
+  @Prop({ type: String })
+  currentRunId?: string;
+
+  @Prop({ type: String })
+  pipelineVersion?: string;
+
+  @Prop({ type: String, default: '' })
+  rawFileUri: string;
+
+  @Prop({ type: String })
+  backFileUri?: string;
+
+  @Prop({ type: String })
+  backMimeType?: string;
+
+  @Prop({ type: String })
+  processedFileUri?: string;
+
+  // HIPAA NOTE: This field contains PHI - enable encryption at rest
+  @Prop({ type: mongoose.Schema.Types.Mixed })
+  ocrJsonOutput?: any;
+
+  @Prop({ type: String })
+  extractedText?: string;
+
+  // Full-text search copy of extractedText (text index below)
+  // HIPAA NOTE: PHI - removed when the document is soft-deleted
+  @Prop({ type: String, select: false })
+  searchText?: string;
+
+  @Prop({ type: Number })
+  confidence?: number;
+
+  @Prop({ type: String, required: true })
+  fileName: string;
+
+  @Prop({ type: Number, required: true })
+  fileSize: number;
+
+  @Prop({ type: String, required: true })
+  mimeType: string;
+
+  @Prop({ type: String })
+  contentHash?: string;
+
+  @Prop({ type: String })
+  duplicateOf?: string;
+
+  @Prop({ type: Number })
+  pageCount?: number;
+
+  @Prop({ type: String })
+  description?: string;
+
+  @Prop({ type: String })
+  errorMessage?: string;
+
+  @Prop({ type: Number, default: 0 })
+  retryCount: number;
+
+  @Prop({ default: now })
+  uploadedAt: Date;
+
+  @Prop({ type: Date })
+  processingStartedAt?: Date;
+
+  @Prop({ type: Date })
+  processedAt?: Date;
+
+  @Prop({ default: now })
+  createdAt: Date;
+
+  @Prop({ default: now })
+  updatedAt: Date;
+
+  @Prop({ type: Date, default: null })
+  deletedAt?: Date | null;
+
+  @Prop({ type: Date })
+  scheduledDeletionAt?: Date;
+}
+
+export const DocumentSchema = SchemaFactory.createForClass(DocumentSchemaClass);
+
+DocumentSchema.index({ userId: 1, createdAt: -1 });
+DocumentSchema.index({ status: 1 });
+DocumentSchema.index({ scheduledDeletionAt: 1 });
+DocumentSchema.index({ userId: 1, contentHash: 1 });
+DocumentSchema.index({ duplicateOf: 1 });
+DocumentSchema.index({ pipelineVersion: 1 });
+DocumentSchema.index(
+  { userId: 1, searchText: 'text' },
+  { name: 'documents_search_text', default_language: 'english' },
+);
@@ -0,0 +1,53 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { now, HydratedDocument } from 'mongoose';
+import { randomUUID } from 'crypto';
+
+export type ExtractedFieldSchemaDocument =
+  HydratedDocument<ExtractedFieldSchemaClass>;
+
+@Schema({
+  timestamps: true,
+  toJSON: {
+    virtuals: true,
+    getters: true,
+  },
+})
+export class ExtractedFieldSchemaClass {
+  @Prop({ type: String, default: () => randomUUID() })
+  _id: string;
+
+  @Prop({ type: String, required: true })
+  documentId: string;
+
+  @Prop({ type: String, required: true })
+  fieldKey: string;
+
+  // HIPAA NOTE: Field values contain PHI
+  @Prop({ type: String, required: true })
+  fieldValue: string;
+
+  @Prop({ type: String, required: true })
+  fieldType: string;
+
+  @Prop({ type: Number })
+  confidence?: number;
+
+  @Prop({ type: Number })
+  startIndex?: number;
+
+  @Prop({ type: Number })
+  endIndex?: number;
+
+  @Prop({ default: now })
+  createdAt: Date;
+
+  @Prop({ default: now })
+  updatedAt: Date;
+}
+
+export const ExtractedFieldSchema = SchemaFactory.createForClass(
+  ExtractedFieldSchemaClass,
+);
+
+ExtractedFieldSchema.index({ documentId: 1 });
+ExtractedFieldSchema.index({ fieldKey: 1 });
@@ -0,0 +1,61 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { now, HydratedDocument } from 'mongoose';
+import { randomUUID } from 'crypto';
+
+export type ImmunizationSchemaDocument =
+  HydratedDocument<ImmunizationSchemaClass>;
+
+@Schema({
+  timestamps: { createdAt: true, updatedAt: false },
+  toJSON: {
+    virtuals: true,
+    getters: true,
+  },
+})
+export class ImmunizationSchemaClass {
+  @Prop({ type: String, default: () => randomUUID() })
+  _id: string;
+
+  @Prop({ type: String, required: true })
+  documentId: string;
+
+  @Prop({ type: Number, required: true })
+  rowIndex: number;
+
+  // HIPAA NOTE: Immunizations contain PHI
+  @Prop({ type: String, required: true })
+  cvxCode: string;
+
+  @Prop({ type: String, required: true })
+  vaccineName: string;
+
+  @Prop({ type: String, required: true })
+  printedName: string;
+
+  @Prop({ type: String, default: null })
+  administeredDate?: string | null; // YYYY-MM-DD
+
+  @Prop({ type: Number, default: null })
+  doseNumber?: number | null;
+
+  @Prop({ type: String, default: null })
+  lotNumber?: string | null;
+
+  @Prop({ type: String, default: null })
+  manufacturer?: string | null;
+
+  @Prop({ type: String, default: null })
+  administeredAt?: string | null;
+
+  @Prop({ type: Number, required: true })
+  confidence: number;
+
+  @Prop({ default: now })
+  createdAt: Date;
+}
+
+export const ImmunizationSchema = SchemaFactory.createForClass(
+  ImmunizationSchemaClass,
+);
+
+ImmunizationSchema.index({ documentId: 1, rowIndex: 1 });
@@ -0,0 +1,66 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { now, HydratedDocument } from 'mongoose';
+import { randomUUID } from 'crypto';
+import { LabResultFlag } from '../../../../domain/enums/lab-result-flag.enum';
+
+export type LabResultSchemaDocument = HydratedDocument<LabResultSchemaClass>;
+
+@Schema({
+  timestamps: { createdAt: true, updatedAt: false },
+  toJSON: {
+    virtuals: true,
+    getters: true,
+  },
+})
+export class LabResultSchemaClass {
+  @Prop({ type: String, default: () => randomUUID() })
+  _id: string;
+
+  @Prop({ type: String, required: true })
+  documentId: string;
+
+  @Prop({ type: Number, required: true })
+  rowIndex: number;
+
+  @Prop({ type: Number, default: 0 })
+  pageIndex: number;
+
+  // HIPAA NOTE: Result values contain PHI
+  @Prop({ type: String, required: true })
+  analyte: string;
+
+  @Prop({ type: String, required: true })
+  value: string;
+
+  @Prop({ type: Number, default: null })
+  numericValue?: number | null;
+
+  @Prop({ type: String, default: null })
+  unit?: string | null;
+
+  @Prop({ type: Number, default: null })
+  referenceLow?: number | null;
+
+  @Prop({ type: Number, default: null })
+  referenceHigh?: number | null;
+
+  @Prop({ type: String, default: null })
+  referenceRange?: string | null;
+
+  @Prop({ type: String, enum: LabResultFlag, default: null })
+  flag?: LabResultFlag | null;
+
+  @Prop({ type: String, default: null })
+  specimen?: string | null;
+
+  @Prop({ type: String, default: null })
+  collectionDate?: string | null; // YYYY-MM-DD
+
+  @Prop({ default: now })
+  createdAt: Date;
+}
+
+export const LabResultSchema =
+  SchemaFactory.createForClass(LabResultSchemaClass);
+
+LabResultSchema.index({ documentId: 1, rowIndex: 1 });
@@ -0,0 +1,79 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { now, HydratedDocument } from 'mongoose';
+import { randomUUID } from 'crypto';
+import { MedicationRoute } from '../../../../domain/enums/medication-route.enum';
+
+export type MedicationSchemaDocument = HydratedDocument<MedicationSchemaClass>;
+
+@Schema({
+  timestamps: { createdAt: true, updatedAt: false },
+  toJSON: {
+    virtuals: true,
+    getters: true,
+  },
+})
+export class MedicationSchemaClass {
+  @Prop({ type: String, default: () => randomUUID() })
+  _id: string;
+
+  @Prop({ type: String, required: true })
+  documentId: string;
+
+  @Prop({ type: Number, required: true })
+  rowIndex: number;
+
+  // HIPAA NOTE: Medications contain PHI
+  @Prop({ type: String, required: true })
+  drugName: string;
+
+  @Prop({ type: String, required: true })
+  printedName: string;
+
+  @Prop({ type: String, default: null })
+  strength?: string | null;
+
+  @Prop({ type: String, default: null })
+  dosageForm?: string | null;
+
+  @Prop({ type: String, default: null })
+  sig?: string | null;
+
+  @Prop({ type: String, default: null })
+  dose?: string | null;
+
+  @Prop({ type: String, enum: MedicationRoute, default: null })
+  route?: MedicationRoute | null;
+
+  @Prop({ type: String, default: null })
+  frequency?: string | null;
+
+  @Prop({ type: Number, default: null })
+  timesPerDay?: number | null;
+
+  @Prop({ type: Number, default: null })
+  intervalHours?: number | null;
+
+  @Prop({ type: Boolean, default: false })
+  asNeeded: boolean;
+
+  @Prop({ type: String, default: null })
+  asNeededReason?: string | null;
+
+  @Prop({ type: Number, default: null })
+  quantity?: number | null;
+
+  @Prop({ type: Number, default: null })
+  refills?: number | null;
+
+  @Prop({ type: Number, required: true })
+  confidence: number;
+
+  @Prop({ default: now })
+  createdAt: Date;
+}
+
+export const MedicationSchema = SchemaFactory.createForClass(
+  MedicationSchemaClass,
+);
+
+MedicationSchema.index({ documentId: 1, rowIndex: 1 });
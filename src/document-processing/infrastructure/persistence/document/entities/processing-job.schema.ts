@@ -0,0 +1,68 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { now, HydratedDocument } from 'mongoose';
+import { randomUUID } from 'crypto';
+import { ProcessingJobStatus } from '../../../../domain/enums/processing-job-status.enum';
+
+export type ProcessingJobSchemaDocument =
+  HydratedDocument<ProcessingJobSchemaClass>;
+
+@Schema({
+  timestamps: true,
+  toJSON: {
+    virtuals: true,
+    getters: true,
+  },
+})
+export class ProcessingJobSchemaClass {
+  @Prop({ type: String, default: () => randomUUID() })
+  _id: string;
+
+  @Prop({ type: String, required: true })
+  documentId: string;
+
+  @Prop({ type: String, enum: ProcessingJobStatus, required: true })
+  status: ProcessingJobStatus;
+
+  @Prop({ type: Number, default: 0 })
+  attempts: number;
+
+  @Prop({ type: Date, required: true })
+  availableAt: Date;
+
+  @Prop({ type: String, default: null })
+  leasedBy?: string | null;
+
+  @Prop({ type: Date, default: null })
+  leaseExpiresAt?: Date | null;
+
+  @Prop({ type: String, default: null })
+  lastError?: string | null;
+
+  @Prop({ default: now })
+  createdAt: Date;
+
+  @Prop({ default: now })
+  updatedAt: Date;
+
+  @Prop({ type: Date, default: null })
+  completedAt?: Date | null;
+}
+
+export const ProcessingJobSchema = SchemaFactory.createForClass(
+  ProcessingJobSchemaClass,
+);
+
+ProcessingJobSchema.index({ status: 1, availableAt: 1 });
+ProcessingJobSchema.index({ status: 1, leaseExpiresAt: 1 });
+// At most one open job per document
+ProcessingJobSchema.index(
+  { documentId: 1 },
+  {
+    unique: true,
+    partialFilterExpression: {
+      status: {
+        $in: [ProcessingJobStatus.PENDING, ProcessingJobStatus.LEASED],
+      },
+    },
+  },
+);
@@ -0,0 +1,63 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { now, HydratedDocument } from 'mongoose';
+import { randomUUID } from 'crypto';
+import { DocumentType } from '../../../../domain/enums/document-type.enum';
+
+export type UploadSessionSchemaDocument =
+  HydratedDocument<UploadSessionSchemaClass>;
+
+@Schema({
+  timestamps: true,
+  toJSON: {
+    virtuals: true,
+    getters: true,
+  },
+})
+export class UploadSessionSchemaClass {
+  @Prop({ type: String, default: () => randomUUID() })
+  _id: string;
+
+  @Prop({ type: String, required: true, index: true })
+  userId: string;
+
+  @Prop({ type: String, enum: DocumentType })
+  documentType?: DocumentType;
+
+  // HIPAA NOTE: May contain PHI (patient names in file names)
+  @Prop({ type: String, required: true })
+  fileName: string;
+
+  @Prop({ type: String, required: true })
+  mimeType: string;
+
+  @Prop({ type: Number, required: true })
+  fileSize: number;
+
+  @Prop({ type: String, default: null })
+  description?: string | null;
+
+  @Prop({ type: Number, default: 0 })
+  offset: number;
+
+  @Prop({ type: [String], default: [] })
+  partNames: string[];
+
+  @Prop({ type: Date, default: null })
+  completedAt?: Date | null;
+
+  @Prop({ type: String, default: null })
+  documentId?: string | null;
+
+  @Prop({ type: Date, required: true, index: true })
+  expiresAt: Date;
+
+  @Prop({ default: now })
+  createdAt: Date;
+
+  @Prop({ default: now })
+  updatedAt: Date;
+}
+
+export const UploadSessionSchema = SchemaFactory.createForClass(
+  UploadSessionSchemaClass,
+);
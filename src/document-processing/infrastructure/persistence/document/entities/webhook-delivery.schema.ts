@@ -0,0 +1,74 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { now, HydratedDocument } from 'mongoose';
+import { randomUUID } from 'crypto';
+import { DocumentEventType } from '../../../../domain/enums/document-event-type.enum';
+import { WebhookDeliveryStatus } from '../../../../domain/enums/webhook-delivery-status.enum';
+
+export type WebhookDeliverySchemaDocument =
+  HydratedDocument<WebhookDeliverySchemaClass>;
+
+@Schema({
+  timestamps: true,
+  toJSON: {
+    virtuals: true,
+    getters: true,
+  },
+})
+export class WebhookDeliverySchemaClass {
+  @Prop({ type: String, default: () => randomUUID() })
+  _id: string;
+
+  @Prop({ type: String, required: true })
+  subscriptionId: string;
+
+  @Prop({ type: String, required: true })
+  eventId: string;
+
+  @Prop({ type: String, enum: DocumentEventType, required: true })
+  eventType: DocumentEventType;
+
+  @Prop({ type: String, required: true })
+  documentId: string;
+
+  // WebhookEventPayload (IDs only, no PHI)
+  @Prop({ type: Object, required: true })
+  payload: any;
+
+  @Prop({ type: String, default: null })
+  redeliveryOf?: string | null;
+
+  @Prop({ type: String, enum: WebhookDeliveryStatus, required: true })
+  status: WebhookDeliveryStatus;
+
+  @Prop({ type: Number, default: 0 })
+  attempts: number;
+
+  @Prop({ type: Date, default: null })
+  nextAttemptAt?: Date | null;
+
+  // WebhookDeliveryAttempt[]
+  @Prop({ type: [Object], default: [] })
+  attemptLog: any[];
+
+  @Prop({ type: Number, default: null })
+  lastResponseStatus?: number | null;
+
+  @Prop({ type: String, default: null })
+  lastError?: string | null;
+
+  @Prop({ default: now })
+  createdAt: Date;
+
+  @Prop({ default: now })
+  updatedAt: Date;
+
+  @Prop({ type: Date, default: null })
+  deliveredAt?: Date | null;
+}
+
+export const WebhookDeliverySchema = SchemaFactory.createForClass(
+  WebhookDeliverySchemaClass,
+);
+
+WebhookDeliverySchema.index({ status: 1, nextAttemptAt: 1 });
+WebhookDeliverySchema.index({ subscriptionId: 1, createdAt: -1 });
@@ -0,0 +1,50 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { now, HydratedDocument } from 'mongoose';
+import { randomUUID } from 'crypto';
+import { DocumentEventType } from '../../../../domain/enums/document-event-type.enum';
+
+export type WebhookSubscriptionSchemaDocument =
+  HydratedDocument<WebhookSubscriptionSchemaClass>;
+
+@Schema({
+  timestamps: true,
+  toJSON: {
+    virtuals: true,
+    getters: true,
+  },
+})
+export class WebhookSubscriptionSchemaClass {
+  @Prop({ type: String, default: () => randomUUID() })
+  _id: string;
+
+  @Prop({ type: String, required: true })
+  name: string;
+
+  @Prop({ type: String, required: true })
+  url: string;
+
+  @Prop({ type: [String], enum: DocumentEventType, default: [] })
+  events: DocumentEventType[];
+
+  @Prop({ type: Boolean, default: true })
+  active: boolean;
+
+  // AES-256-GCM encrypted signing secret
+  @Prop({ type: String, required: true })
+  encryptedSecret: string;
+
+  @Prop({ type: String, default: null })
+  createdByUserId?: string | null;
+
+  @Prop({ default: now })
+  createdAt: Date;
+
+  @Prop({ default: now })
+  updatedAt: Date;
+}
+
+export const WebhookSubscriptionSchema = SchemaFactory.createForClass(
+  WebhookSubscriptionSchemaClass,
+);
+
+WebhookSubscriptionSchema.index({ active: 1, events: 1 });
@@ -0,0 +1,34 @@
+import { DocumentGrant } from '../../../../domain/entities/document-grant.entity';
+import { DocumentGrantSchemaClass } from '../entities/document-grant.schema';
+
+export class DocumentGrantMapper {
+  static toDomain(raw: DocumentGrantSchemaClass): DocumentGrant {
+    const domain = new DocumentGrant();
+    domain.id = raw._id.toString();
+    domain.documentId = raw.documentId;
+    domain.grantedByUserId = raw.grantedByUserId;
+    domain.granteeUserId = raw.granteeUserId ?? undefined;
+    domain.granteeEmail = raw.granteeEmail ?? undefined;
+    domain.scopes = raw.scopes;
+    domain.expiresAt = raw.expiresAt ?? undefined;
+    domain.revokedAt = raw.revokedAt ?? undefined;
+    domain.lastUsedAt = raw.lastUsedAt ?? undefined;
+    domain.createdAt = raw.createdAt;
+    domain.updatedAt = raw.updatedAt;
+    return domain;
+  }
+
+  static toPersistence(domain: DocumentGrant): DocumentGrantSchemaClass {
+    const persistenceSchema = new DocumentGrantSchemaClass();
+    if (domain.id) persistenceSchema._id = domain.id;
+    persistenceSchema.documentId = domain.documentId;
+    persistenceSchema.grantedByUserId = domain.grantedByUserId.toString();
+    persistenceSchema.granteeUserId = domain.granteeUserId?.toString() ?? null;
+    persistenceSchema.granteeEmail = domain.granteeEmail ?? null;
+    persistenceSchema.scopes = domain.scopes;
+    persistenceSchema.expiresAt = domain.expiresAt ?? null;
+    persistenceSchema.revokedAt = domain.revokedAt ?? null;
+    persistenceSchema.lastUsedAt = domain.lastUsedAt ?? null;
+    return persistenceSchema;
+  }
+}
@@ -0,0 +1,79 @@
+import { DocumentProcessingRun } from '../../../../domain/entities/document-processing-run.entity';
+import { DocumentProcessingRunSchemaClass } from '../entities/document-processing-run.schema';
+
+export class DocumentProcessingRunMapper {
+  static toDomain(
+    raw: DocumentProcessingRunSchemaClass,
+  ): DocumentProcessingRun {
+    const domain = new DocumentProcessingRun();
+    domain.id = raw._id.toString();
+    domain.documentId = raw.documentId;
+    domain.pipelineVersion = raw.pipelineVersion;
+    domain.trigger = raw.trigger;
+    domain.requestedByUserId = raw.requestedByUserId ?? undefined;
+    domain.status = raw.status;
+    domain.promoteOnSuccess = raw.promoteOnSuccess;
+    domain.attempts = raw.attempts;
+    domain.processingMethod = raw.processingMethod ?? undefined;
+    domain.documentType = raw.documentType ?? undefined;
+    domain.predictedDocumentType = raw.predictedDocumentType ?? undefined;
+    domain.classificationConfidence = raw.classificationConfidence ?? undefined;
+    domain.processedFileUri = raw.processedFileUri ?? undefined;
+    domain.ocrJsonOutput = raw.ocrJsonOutput ?? undefined;
+    domain.extractedText = raw.extractedText ?? undefined;
+    domain.extractedFields = raw.extractedFields ?? undefined;
+    domain.labResults = raw.labResults ?? undefined;
+    domain.medications = raw.medications ?? undefined;
+    domain.immunizations = raw.immunizations ?? undefined;
+    domain.confidence = raw.confidence ?? undefined;
+    domain.pageCount = raw.pageCount ?? undefined;
+    domain.stages = raw.stages ?? [];
+    domain.durationMs = raw.durationMs ?? undefined;
+    domain.pagesBilled = raw.pagesBilled ?? 0;
+    domain.errorMessage = raw.errorMessage ?? undefined;
+    domain.createdAt = raw.createdAt;
+    domain.updatedAt = raw.updatedAt;
+    domain.startedAt = raw.startedAt ?? undefined;
+    domain.completedAt = raw.completedAt ?? undefined;
+    domain.promotedAt = raw.promotedAt ?? undefined;
+    return domain;
+  }
+
+  static toPersistence(
+    domain: DocumentProcessingRun,
+  ): DocumentProcessingRunSchemaClass {
+    const persistenceSchema = new DocumentProcessingRunSchemaClass();
+    if (domain.id) persistenceSchema._id = domain.id;
+    persistenceSchema.documentId = domain.documentId;
+    persistenceSchema.pipelineVersion = domain.pipelineVersion;
+    persistenceSchema.trigger = domain.trigger;
+    persistenceSchema.requestedByUserId =
+      domain.requestedByUserId?.toString() ?? null;
+    persistenceSchema.status = domain.status;
+    persistenceSchema.promoteOnSuccess = domain.promoteOnSuccess;
+    persistenceSchema.attempts = domain.attempts || 0;
+    persistenceSchema.processingMethod = domain.processingMethod ?? null;
+    persistenceSchema.documentType = domain.documentType ?? null;
+    persistenceSchema.predictedDocumentType =
+      domain.predictedDocumentType ?? null;
+    persistenceSchema.classificationConfidence =
+      domain.classificationConfidence ?? null;
+    persistenceSchema.processedFileUri = domain.processedFileUri ?? null;
+    persistenceSchema.ocrJsonOutput = domain.ocrJsonOutput ?? null;
+    persistenceSchema.extractedText = domain.extractedText ?? null;
+    persistenceSchema.extractedFields = domain.extractedFields ?? null;
+    persistenceSchema.labResults = domain.labResults ?? null;
+    persistenceSchema.medications = domain.medications ?? null;
+    persistenceSchema.immunizations = domain.immunizations ?? null;
+    persistenceSchema.confidence = domain.confidence ?? null;
+    persistenceSchema.pageCount = domain.pageCount ?? null;
+    persistenceSchema.stages = domain.stages ?? [];
+    persistenceSchema.durationMs = domain.durationMs ?? null;
+    persistenceSchema.pagesBilled = domain.pagesBilled ?? 0;
+    persistenceSchema.errorMessage = domain.errorMessage ?? null;
+    persistenceSchema.startedAt = domain.startedAt ?? null;
+    persistenceSchema.completedAt = domain.completedAt ?? null;
+    persistenceSchema.promotedAt = domain.promotedAt ?? null;
+    return persistenceSchema;
+  }
+}
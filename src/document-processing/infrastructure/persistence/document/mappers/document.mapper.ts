@@ -0,0 +1,84 @@
+import { Document } from '../../../../domain/entities/document.entity';
+import { DocumentSchemaClass } from '../entities/document.schema';
+
+export class DocumentMapper {
+  static toDomain(raw: DocumentSchemaClass): Document {
+    const domain = new Document();
+    domain.id = raw._id.toString();
+    domain.userId = raw.userId;
+    domain.documentType = raw.documentType;
+    // Documents uploaded before classification have their declared type only
+    domain.declaredDocumentType =
+      raw.declaredDocumentType === undefined
+        ? raw.documentType
+        : (raw.declaredDocumentType ?? undefined);
+    domain.predictedDocumentType = raw.predictedDocumentType;
+    domain.classificationConfidence = raw.classificationConfidence;
+    domain.status = raw.status;
+    domain.rawFileUri = raw.rawFileUri;
+    domain.backFileUri = raw.backFileUri;
+    domain.backMimeType = raw.backMimeType;
+    domain.processedFileUri = raw.processedFileUri;
+    domain.ocrJsonOutput = raw.ocrJsonOutput;
+    domain.extractedText = raw.extractedText;
+    domain.confidence = raw.confidence;
+    domain.fileName = raw.fileName;
+    domain.fileSize = raw.fileSize;
+    domain.mimeType = raw.mimeType;
+    domain.contentHash = raw.contentHash;
+    domain.duplicateOf = raw.duplicateOf;
+    domain.pageCount = raw.pageCount;
+    domain.description = raw.description;
+    domain.errorMessage = raw.errorMessage;
+    domain.retryCount = raw.retryCount;
+    domain.uploadedAt = raw.uploadedAt;
+    domain.processingStartedAt = raw.processingStartedAt;
+    domain.processedAt = raw.processedAt;
+    domain.createdAt = raw.createdAt;
+    domain.updatedAt = raw.updatedAt;
+    domain.deletedAt = raw.deletedAt ?? undefined;
+    domain.scheduledDeletionAt = raw.scheduledDeletionAt;
+    domain.processingMethod = raw.processingMethod;
+    domain.currentRunId = raw.currentRunId;
+    domain.pipelineVersion = raw.pipelineVersion;
+    return domain;
+  }
+
+  static toPersistence(domain: Document): DocumentSchemaClass {
+    const persistenceSchema = new DocumentSchemaClass();
+    if (domain.id) persistenceSchema._id = domain.id;
+    persistenceSchema.userId = domain.userId.toString();
+    persistenceSchema.documentType = domain.documentType;
+    persistenceSchema.declaredDocumentType =
+      domain.declaredDocumentType ?? null;
+    persistenceSchema.predictedDocumentType = domain.predictedDocumentType;
+    persistenceSchema.classificationConfidence =
+      domain.classificationConfidence;
+    persistenceSchema.status = domain.status;
+    persistenceSchema.rawFileUri = domain.rawFileUri;
+    persistenceSchema.backFileUri = domain.backFileUri;
+    persistenceSchema.backMimeType = domain.backMimeType;
+    persistenceSchema.processedFileUri = domain.processedFileUri;
+    persistenceSchema.ocrJsonOutput = domain.ocrJsonOutput;
+    persistenceSchema.extractedText = domain.extractedText;
+    persistenceSchema.confidence = domain.confidence;
+    persistenceSchema.fileName = domain.fileName;
+    persistenceSchema.fileSize = domain.fileSize;
+    persistenceSchema.mimeType = domain.mimeType;
+    persistenceSchema.contentHash = domain.contentHash;
+    persistenceSchema.duplicateOf = domain.duplicateOf;
+    persistenceSchema.pageCount = domain.pageCount;
+    persistenceSchema.description = domain.description;
+    persistenceSchema.errorMessage = domain.errorMessage;
+    persistenceSchema.retryCount = domain.retryCount || 0;
+    persistenceSchema.uploadedAt = domain.uploadedAt;
+    persistenceSchema.processingStartedAt = domain.processingStartedAt;
+    persistenceSchema.processedAt = domain.processedAt;
+    persistenceSchema.deletedAt = domain.deletedAt ?? null;
+    persistenceSchema.scheduledDeletionAt = domain.scheduledDeletionAt;
+    persistenceSchema.processingMethod = domain.processingMethod;
+    persistenceSchema.currentRunId = domain.currentRunId;
+    persistenceSchema.pipelineVersion = domain.pipelineVersion;
+    return persistenceSchema;
+  }
+}
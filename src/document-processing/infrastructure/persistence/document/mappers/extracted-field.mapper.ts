@@ -0,0 +1,32 @@
+import { ExtractedField } from '../../../../domain/entities/extracted-field.entity';
+import { ExtractedFieldSchemaClass } from '../entities/extracted-field.schema';
+
+export class ExtractedFieldMapper {
+  static toDomain(raw: ExtractedFieldSchemaClass): ExtractedField {
+    const domain = new ExtractedField();
+    domain.id = raw._id.toString();
+    domain.documentId = raw.documentId;
+    domain.fieldKey = raw.fieldKey;
+    domain.fieldValue = raw.fieldValue;
+    domain.fieldType = raw.fieldType;
+    domain.confidence = raw.confidence;
+    domain.startIndex = raw.startIndex;
+    domain.endIndex = raw.endIndex;
+    domain.createdAt = raw.createdAt;
+    domain.updatedAt = raw.updatedAt;
+    return domain;
+  }
+
+  static toPersistence(domain: ExtractedField): ExtractedFieldSchemaClass {
+    const persistenceSchema = new ExtractedFieldSchemaClass();
+    if (domain.id) persistenceSchema._id = domain.id;
+    persistenceSchema.documentId = domain.documentId;
+    persistenceSchema.fieldKey = domain.fieldKey;
+    persistenceSchema.fieldValue = domain.fieldValue;
+    persistenceSchema.fieldType = domain.fieldType;
+    persistenceSchema.confidence = domain.confidence;
+    persistenceSchema.startIndex = domain.startIndex;
+    persistenceSchema.endIndex = domain.endIndex;
+    return persistenceSchema;
+  }
+}
@@ -0,0 +1,39 @@
+import { Immunization } from '../../../../domain/entities/immunization.entity';
+import { ImmunizationSchemaClass } from '../entities/immunization.schema';
+
+export class ImmunizationMapper {
+  static toDomain(raw: ImmunizationSchemaClass): Immunization {
+    const domain = new Immunization();
+    domain.id = raw._id.toString();
+    domain.documentId = raw.documentId;
+    domain.rowIndex = raw.rowIndex;
+    domain.cvxCode = raw.cvxCode;
+    domain.vaccineName = raw.vaccineName;
+    domain.printedName = raw.printedName;
+    domain.administeredDate = raw.administeredDate ?? undefined;
+    domain.doseNumber = raw.doseNumber ?? undefined;
+    domain.lotNumber = raw.lotNumber ?? undefined;
+    domain.manufacturer = raw.manufacturer ?? undefined;
+    domain.administeredAt = raw.administeredAt ?? undefined;
+    domain.confidence = raw.confidence;
+    domain.createdAt = raw.createdAt;
+    return domain;
+  }
+
+  static toPersistence(domain: Immunization): ImmunizationSchemaClass {
+    const persistenceSchema = new ImmunizationSchemaClass();
+    if (domain.id) persistenceSchema._id = domain.id;
+    persistenceSchema.documentId = domain.documentId;
+    persistenceSchema.rowIndex = domain.rowIndex;
+    persistenceSchema.cvxCode = domain.cvxCode;
+    persistenceSchema.vaccineName = domain.vaccineName;
+    persistenceSchema.printedName = domain.printedName;
+    persistenceSchema.administeredDate = domain.administeredDate ?? null;
+    persistenceSchema.doseNumber = domain.doseNumber ?? null;
+    persistenceSchema.lotNumber = domain.lotNumber ?? null;
+    persistenceSchema.manufacturer = domain.manufacturer ?? null;
+    persistenceSchema.administeredAt = domain.administeredAt ?? null;
+    persistenceSchema.confidence = domain.confidence;
+    return persistenceSchema;
+  }
+}
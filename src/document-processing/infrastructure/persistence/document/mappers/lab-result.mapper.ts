@@ -0,0 +1,43 @@
+import { LabResult } from '../../../../domain/entities/lab-result.entity';
+import { LabResultSchemaClass } from '../entities/lab-result.schema';
+
+export class LabResultMapper {
+  static toDomain(raw: LabResultSchemaClass): LabResult {
+    const domain = new LabResult();
+    domain.id = raw._id.toString();
+    domain.documentId = raw.documentId;
+    domain.rowIndex = raw.rowIndex;
+    domain.pageIndex = raw.pageIndex;
+    domain.analyte = raw.analyte;
+    domain.value = raw.value;
+    domain.numericValue = raw.numericValue ?? undefined;
+    domain.unit = raw.unit ?? undefined;
+    domain.referenceLow = raw.referenceLow ?? undefined;
+    domain.referenceHigh = raw.referenceHigh ?? undefined;
+    domain.referenceRange = raw.referenceRange ?? undefined;
+    domain.flag = raw.flag ?? undefined;
+    domain.specimen = raw.specimen ?? undefined;
+    domain.collectionDate = raw.collectionDate ?? undefined;
+    domain.createdAt = raw.createdAt;
+    return domain;
+  }
+
+  static toPersistence(domain: LabResult): LabResultSchemaClass {
+    const persistenceSchema = new LabResultSchemaClass();
+    if (domain.id) persistenceSchema._id = domain.id;
+    persistenceSchema.documentId = domain.documentId;
+    persistenceSchema.rowIndex = domain.rowIndex;
+    persistenceSchema.pageIndex = domain.pageIndex;
+    persistenceSchema.analyte = domain.analyte;
+    persistenceSchema.value = domain.value;
+    persistenceSchema.numericValue = domain.numericValue ?? null;
+    persistenceSchema.unit = domain.unit ?? null;
+    persistenceSchema.referenceLow = domain.referenceLow ?? null;
+    persistenceSchema.referenceHigh = domain.referenceHigh ?? null;
+    persistenceSchema.referenceRange = domain.referenceRange ?? null;
+    persistenceSchema.flag = domain.flag ?? null;
+    persistenceSchema.specimen = domain.specimen ?? null;
+    persistenceSchema.collectionDate = domain.collectionDate ?? null;
+    return persistenceSchema;
+  }
+}
@@ -0,0 +1,51 @@
+import { Medication } from '../../../../domain/entities/medication.entity';
+import { MedicationSchemaClass } from '../entities/medication.schema';
+
+export class MedicationMapper {
+  static toDomain(raw: MedicationSchemaClass): Medication {
+    const domain = new Medication();
+    domain.id = raw._id.toString();
+    domain.documentId = raw.documentId;
+    domain.rowIndex = raw.rowIndex;
+    domain.drugName = raw.drugName;
+    domain.printedName = raw.printedName;
+    domain.strength = raw.strength ?? undefined;
+    domain.dosageForm = raw.dosageForm ?? undefined;
+    domain.sig = raw.sig ?? undefined;
+    domain.dose = raw.dose ?? undefined;
+    domain.route = raw.route ?? undefined;
+    domain.frequency = raw.frequency ?? undefined;
+    domain.timesPerDay = raw.timesPerDay ?? undefined;
+    domain.intervalHours = raw.intervalHours ?? undefined;
+    domain.asNeeded = raw.asNeeded;
+    domain.asNeededReason = raw.asNeededReason ?? undefined;
+    domain.quantity = raw.quantity ?? undefined;
+    domain.refills = raw.refills ?? undefined;
+    domain.confidence = raw.confidence;
+    domain.createdAt = raw.createdAt;
+    return domain;
+  }
+
+  static toPersistence(domain: Medication): MedicationSchemaClass {
+    const persistenceSchema = new MedicationSchemaClass();
+    if (domain.id) persistenceSchema._id = domain.id;
+    persistenceSchema.documentId = domain.documentId;
+    persistenceSchema.rowIndex = domain.rowIndex;
+    persistenceSchema.drugName = domain.drugName;
+    persistenceSchema.printedName = domain.printedName;
+    persistenceSchema.strength = domain.strength ?? null;
+    persistenceSchema.dosageForm = domain.dosageForm ?? null;
+    persistenceSchema.sig = domain.sig ?? null;
+    persistenceSchema.dose = domain.dose ?? null;
+    persistenceSchema.route = domain.route ?? null;
+    persistenceSchema.frequency = domain.frequency ?? null;
+    persistenceSchema.timesPerDay = domain.timesPerDay ?? null;
+    persistenceSchema.intervalHours = domain.intervalHours ?? null;
+    persistenceSchema.asNeeded = domain.asNeeded;
+    persistenceSchema.asNeededReason = domain.asNeededReason ?? null;
+    persistenceSchema.quantity = domain.quantity ?? null;
+    persistenceSchema.refills = domain.refills ?? null;
+    persistenceSchema.confidence = domain.confidence;
+    return persistenceSchema;
+  }
+}
@@ -0,0 +1,20 @@
+import { ProcessingJob } from '../../../../domain/entities/processing-job.entity';
+import { ProcessingJobSchemaClass } from '../entities/processing-job.schema';
+
+export class ProcessingJobMapper {
+  static toDomain(raw: ProcessingJobSchemaClass): ProcessingJob {
+    const domain = new ProcessingJob();
+    domain.id = raw._id.toString();
+    domain.documentId = raw.documentId;
+    domain.status = raw.status;
+    domain.attempts = raw.attempts;
+    domain.availableAt = raw.availableAt;
+    domain.leasedBy = raw.leasedBy ?? undefined;
+    domain.leaseExpiresAt = raw.leaseExpiresAt ?? undefined;
+    domain.lastError = raw.lastError ?? undefined;
+    domain.createdAt = raw.createdAt;
+    domain.updatedAt = raw.updatedAt;
+    domain.completedAt = raw.completedAt ?? undefined;
+    return domain;
+  }
+}
@@ -0,0 +1,40 @@
+import { UploadSession } from '../../../../domain/entities/upload-session.entity';
+import { UploadSessionSchemaClass } from '../entities/upload-session.schema';
+
+export class UploadSessionMapper {
+  static toDomain(raw: UploadSessionSchemaClass): UploadSession {
+    const domain = new UploadSession();
+    domain.id = raw._id.toString();
+    domain.userId = raw.userId;
+    domain.documentType = raw.documentType;
+    domain.fileName = raw.fileName;
+    domain.mimeType = raw.mimeType;
+    domain.fileSize = raw.fileSize;
+    domain.description = raw.description ?? undefined;
+    domain.offset = raw.offset;
+    domain.partNames = raw.partNames ?? [];
+    domain.completedAt = raw.completedAt ?? undefined;
+    domain.documentId = raw.documentId ?? undefined;
+    domain.expiresAt = raw.expiresAt;
+    domain.createdAt = raw.createdAt;
+    domain.updatedAt = raw.updatedAt;
+    return domain;
+  }
+
+  static toPersistence(domain: UploadSession): UploadSessionSchemaClass {
+    const persistenceSchema = new UploadSessionSchemaClass();
+    if (domain.id) persistenceSchema._id = domain.id;
+    persistenceSchema.userId = domain.userId.toString();
+    persistenceSchema.documentType = domain.documentType;
+    persistenceSchema.fileName = domain.fileName;
+    persistenceSchema.mimeType = domain.mimeType;
+    persistenceSchema.fileSize = domain.fileSize;
+    persistenceSchema.description = domain.description ?? null;
+    persistenceSchema.offset = domain.offset;
+    persistenceSchema.partNames = domain.partNames;
+    persistenceSchema.completedAt = domain.completedAt ?? null;
+    persistenceSchema.documentId = domain.documentId ?? null;
+    persistenceSchema.expiresAt = domain.expiresAt;
+    return persistenceSchema;
+  }
+}
@@ -0,0 +1,44 @@
+import { WebhookDelivery } from '../../../../domain/entities/webhook-delivery.entity';
+import { WebhookDeliverySchemaClass } from '../entities/webhook-delivery.schema';
+
+export class WebhookDeliveryMapper {
+  static toDomain(raw: WebhookDeliverySchemaClass): WebhookDelivery {
+    const domain = new WebhookDelivery();
+    domain.id = raw._id.toString();
+    domain.subscriptionId = raw.subscriptionId;
+    domain.eventId = raw.eventId;
+    domain.eventType = raw.eventType;
+    domain.documentId = raw.documentId;
+    domain.payload = raw.payload;
+    domain.redeliveryOf = raw.redeliveryOf ?? undefined;
+    domain.status = raw.status;
+    domain.attempts = raw.attempts;
+    domain.nextAttemptAt = raw.nextAttemptAt ?? undefined;
+    domain.attemptLog = raw.attemptLog ?? [];
+    domain.lastResponseStatus = raw.lastResponseStatus ?? undefined;
+    domain.lastError = raw.lastError ?? undefined;
+    domain.createdAt = raw.createdAt;
+    domain.updatedAt = raw.updatedAt;
+    domain.deliveredAt = raw.deliveredAt ?? undefined;
+    return domain;
+  }
+
+  static toPersistence(domain: WebhookDelivery): WebhookDeliverySchemaClass {
+    const persistenceSchema = new WebhookDeliverySchemaClass();
+    if (domain.id) persistenceSchema._id = domain.id;
+    persistenceSchema.subscriptionId = domain.subscriptionId;
+    persistenceSchema.eventId = domain.eventId;
+    persistenceSchema.eventType = domain.eventType;
+    persistenceSchema.documentId = domain.documentId;
+    persistenceSchema.payload = domain.payload;
+    persistenceSchema.redeliveryOf = domain.redeliveryOf ?? null;
+    persistenceSchema.status = domain.status;
+    persistenceSchema.attempts = domain.attempts || 0;
+    persistenceSchema.nextAttemptAt = domain.nextAttemptAt ?? null;
+    persistenceSchema.attemptLog = domain.attemptLog ?? [];
+    persistenceSchema.lastResponseStatus = domain.lastResponseStatus ?? null;
+    persistenceSchema.lastError = domain.lastError ?? null;
+    persistenceSchema.deliveredAt = domain.deliveredAt ?? null;
+    return persistenceSchema;
+  }
+}
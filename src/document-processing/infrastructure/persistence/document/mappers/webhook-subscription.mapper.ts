@@ -0,0 +1,33 @@
+import { WebhookSubscription } from '../../../../domain/entities/webhook-subscription.entity';
+import { WebhookSubscriptionSchemaClass } from '../entities/webhook-subscription.schema';
+
+export class WebhookSubscriptionMapper {
+  static toDomain(raw: WebhookSubscriptionSchemaClass): WebhookSubscription {
+    const domain = new WebhookSubscription();
+    domain.id = raw._id.toString();
+    domain.name = raw.name;
+    domain.url = raw.url;
+    domain.events = raw.events ?? [];
+    domain.active = raw.active;
+    domain.encryptedSecret = raw.encryptedSecret;
+    domain.createdByUserId = raw.createdByUserId ?? undefined;
+    domain.createdAt = raw.createdAt;
+    domain.updatedAt = raw.updatedAt;
+    return domain;
+  }
+
+  static toPersistence(
+    domain: WebhookSubscription,
+  ): WebhookSubscriptionSchemaClass {
+    const persistenceSchema = new WebhookSubscriptionSchemaClass();
+    if (domain.id) persistenceSchema._id = domain.id;
+    persistenceSchema.name = domain.name;
+    persistenceSchema.url = domain.url;
+    persistenceSchema.events = domain.events ?? [];
+    persistenceSchema.active = domain.active;
+    persistenceSchema.encryptedSecret = domain.encryptedSecret;
+    persistenceSchema.createdByUserId =
+      domain.createdByUserId?.toString() ?? null;
+    return persistenceSchema;
+  }
+}
@@ -0,0 +1,75 @@
+import { Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { FilterQuery, Model } from 'mongoose';
+import { DocumentGrantRepositoryPort } from '../../../../domain/ports/document-grant.repository.port';
+import { DocumentGrant } from '../../../../domain/entities/document-grant.entity';
+import { DocumentGrantSchemaClass } from '../entities/document-grant.schema';
+import { DocumentGrantMapper } from '../mappers/document-grant.mapper';
+import { NullableType } from '../../../../../utils/types/nullable.type';
+
+@Injectable()
+export class DocumentGrantsDocumentRepository
+  implements DocumentGrantRepositoryPort
+{
+  constructor(
+    @InjectModel(DocumentGrantSchemaClass.name)
+    private readonly grantsModel: Model<DocumentGrantSchemaClass>,
+  ) {}
+
+  async create(grant: DocumentGrant): Promise<DocumentGrant> {
+    const createdGrant = new this.grantsModel(
+      DocumentGrantMapper.toPersistence(grant),
+    );
+    return DocumentGrantMapper.toDomain(await createdGrant.save());
+  }
+
+  async update(id: string, partial: Partial<DocumentGrant>): Promise<void> {
+    const clonedPayload: any = { ...partial };
+    delete clonedPayload.id;
+    if (partial.granteeUserId !== undefined) {
+      clonedPayload.granteeUserId = partial.granteeUserId.toString();
+    }
+
+    await this.grantsModel.updateOne({ _id: id }, { $set: clonedPayload });
+  }
+
+  async findById(id: string): Promise<NullableType<DocumentGrant>> {
+    const grantObject = await this.grantsModel.findById(id);
+    return grantObject ? DocumentGrantMapper.toDomain(grantObject) : null;
+  }
+
+  async findByDocumentId(documentId: string): Promise<DocumentGrant[]> {
+    const grantObjects = await this.grantsModel
+      .find({ documentId })
+      .sort({ createdAt: -1 });
+    return grantObjects.map((grantObject) =>
+      DocumentGrantMapper.toDomain(grantObject),
+    );
+  }
+
+  async findActiveForGrantee(
+    documentId: string,
+    grantee: { userId: string | number; email?: string | null },
+  ): Promise<DocumentGrant[]> {
+    const granteeFilters: FilterQuery<DocumentGrantSchemaClass>[] = [
+      { granteeUserId: grantee.userId.toString() },
+    ];
+    if (grantee.email) {
+      granteeFilters.push({ granteeUserId: null, granteeEmail: grantee.email });
+    }
+
+    const grantObjects = await this.grantsModel
+      .find({
+        documentId,
+        revokedAt: null,
+        $and: [
+          { $or: [{ expiresAt: null }, { expiresAt: { $gt: new Date() } }] },
+          { $or: granteeFilters },
+        ],
+      })
+      .sort({ createdAt: 1 });
+    return grantObjects.map((grantObject) =>
+      DocumentGrantMapper.toDomain(grantObject),
+    );
+  }
+}
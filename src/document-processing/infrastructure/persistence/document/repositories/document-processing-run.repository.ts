@@ -0,0 +1,78 @@
+import { Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { DocumentProcessingRunRepositoryPort } from '../../../../domain/ports/document-processing-run.repository.port';
+import { DocumentProcessingRun } from '../../../../domain/entities/document-processing-run.entity';
+import { ProcessingRunStatus } from '../../../../domain/enums/processing-run-status.enum';
+import { DocumentProcessingRunSchemaClass } from '../entities/document-processing-run.schema';
+import { DocumentProcessingRunMapper } from '../mappers/document-processing-run.mapper';
+import { NullableType } from '../../../../../utils/types/nullable.type';
+
+const OPEN_STATUSES = [ProcessingRunStatus.QUEUED, ProcessingRunStatus.RUNNING];
+
+@Injectable()
+export class DocumentProcessingRunsDocumentRepository
+  implements DocumentProcessingRunRepositoryPort
+{
+  constructor(
+    @InjectModel(DocumentProcessingRunSchemaClass.name)
+    private readonly runsModel: Model<DocumentProcessingRunSchemaClass>,
+  ) {}
+
+  async create(run: DocumentProcessingRun): Promise<DocumentProcessingRun> {
+    const createdRun = new this.runsModel(
+      DocumentProcessingRunMapper.toPersistence(run),
+    );
+    return DocumentProcessingRunMapper.toDomain(await createdRun.save());
+  }
+
+  async update(
+    id: string,
+    partial: Partial<DocumentProcessingRun>,
+  ): Promise<void> {
+    const clonedPayload: any = { ...partial };
+    delete clonedPayload.id;
+    if (partial.requestedByUserId !== undefined) {
+      clonedPayload.requestedByUserId = partial.requestedByUserId.toString();
+    }
+
+    await this.runsModel.updateOne({ _id: id }, { $set: clonedPayload });
+  }
+
+  async findById(id: string): Promise<NullableType<DocumentProcessingRun>> {
+    const runObject = await this.runsModel.findById(id);
+    return runObject ? DocumentProcessingRunMapper.toDomain(runObject) : null;
+  }
+
+  async findByDocumentId(documentId: string): Promise<DocumentProcessingRun[]> {
+    const runObjects = await this.runsModel
+      .find({ documentId })
+      .sort({ createdAt: -1 });
+    return runObjects.map((runObject) =>
+      DocumentProcessingRunMapper.toDomain(runObject),
+    );
+  }
+
+  async findOpenByDocumentId(
+    documentId: string,
+  ): Promise<NullableType<DocumentProcessingRun>> {
+    const runObject = await this.runsModel.findOne({
+      documentId,
+      status: { $in: OPEN_STATUSES },
+    });
+    return runObject ? DocumentProcessingRunMapper.toDomain(runObject) : null;
+  }
+
+  async findOpen(): Promise<DocumentProcessingRun[]> {
+    const runObjects = await this.runsModel
+      .find({ status: { $in: OPEN_STATUSES } })
+      .sort({ createdAt: 1 });
+    return runObjects.map((runObject) =>
+      DocumentProcessingRunMapper.toDomain(runObject),
+    );
+  }
+
+  async deleteByDocumentId(documentId: string): Promise<void> {
+    await this.runsModel.deleteMany({ documentId });
+  }
+}
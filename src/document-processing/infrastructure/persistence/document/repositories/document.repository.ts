@@ -0,0 +1,306 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { FilterQuery, Model } from 'mongoose';
+import {
+  DocumentReprocessFilter,
+  DocumentRepositoryPort,
+  DocumentSearchHit,
+  DocumentSearchQuery,
+} from '../../../../domain/ports/document.repository.port';
+import { Document } from '../../../../domain/entities/document.entity';
+import { ExtractedField } from '../../../../domain/entities/extracted-field.entity';
+import { DocumentStatus } from '../../../../domain/enums/document-status.enum';
+import { DocumentSchemaClass } from '../entities/document.schema';
+import { ExtractedFieldSchemaClass } from '../entities/extracted-field.schema';
+import { LabResultSchemaClass } from '../entities/lab-result.schema';
+import { MedicationSchemaClass } from '../entities/medication.schema';
+import { ImmunizationSchemaClass } from '../entities/immunization.schema';
+import { DocumentMapper } from '../mappers/document.mapper';
+import { ExtractedFieldMapper } from '../mappers/extracted-field.mapper';
+import { NullableType } from '../../../../../utils/types/nullable.type';
+import { buildSnippets } from '../../../../utils/search-snippets';
+
+/**
+ * MongoDB document repository
+ *
+ * Mirrors the relational adapter: reads exclude soft-deleted documents
+ * (deletedAt set), except findExpired which only returns them.
+ */
+@Injectable()
+export class DocumentsDocumentRepository implements DocumentRepositoryPort {
+  private readonly logger = new Logger(DocumentsDocumentRepository.name);
+
+  constructor(
+    @InjectModel(DocumentSchemaClass.name)
+    private readonly documentsModel: Model<DocumentSchemaClass>,
+    @InjectModel(ExtractedFieldSchemaClass.name)
+    private readonly extractedFieldsModel: Model<ExtractedFieldSchemaClass>,
+    @InjectModel(LabResultSchemaClass.name)
+    private readonly labResultsModel: Model<LabResultSchemaClass>,
+    @InjectModel(MedicationSchemaClass.name)
+    private readonly medicationsModel: Model<MedicationSchemaClass>,
+    @InjectModel(ImmunizationSchemaClass.name)
+    private readonly immunizationsModel: Model<ImmunizationSchemaClass>,
+  ) {}
+
+  async save(document: Document): Promise<Document> {
+    const persistenceModel = DocumentMapper.toPersistence(document);
+
+    if (persistenceModel._id) {
+      const documentObject = await this.documentsModel.findOneAndUpdate(
+        { _id: persistenceModel._id },
+        persistenceModel,
+        { upsert: true, new: true },
+      );
+      return DocumentMapper.toDomain(documentObject);
+    }
+
+    const createdDocument = new this.documentsModel(persistenceModel);
+    const documentObject = await createdDocument.save();
+    return DocumentMapper.toDomain(documentObject);
+  }
+
+  async update(id: string, partial: Partial<Document>): Promise<void> {
+    const clonedPayload = { ...partial };
+    delete clonedPayload.id;
+
+    await this.documentsModel.updateOne({ _id: id }, { $set: clonedPayload });
+  }
+
+  async updateStatus(
+    id: string,
+    status: DocumentStatus,
+    fields?: Partial<Document>,
+  ): Promise<void> {
+    await this.update(id, { ...fields, status });
+  }
+
+  async findById(id: string): Promise<NullableType<Document>> {
+    const documentObject = await this.documentsModel.findOne({
+      _id: id,
+      deletedAt: null,
+    });
+    return documentObject ? DocumentMapper.toDomain(documentObject) : null;
+  }
+
+  async findByIdAndUserId(
+    id: string,
+    userId: string | number,
+  ): Promise<NullableType<Document>> {
+    const documentObject = await this.documentsModel.findOne({
+      _id: id,
+      userId: userId.toString(),
+      deletedAt: null,
+    });
+    return documentObject ? DocumentMapper.toDomain(documentObject) : null;
+  }
+
+  async findByUserId(
+    userId: string | number,
+    options?: { skip?: number; limit?: number; status?: DocumentStatus[] },
+  ): Promise<{ data: Document[]; total: number }> {
+    const where: FilterQuery<DocumentSchemaClass> = {
+      userId: userId.toString(),
+      deletedAt: null,
+    };
+    if (options?.status) {
+      where.status = { $in: options.status };
+    }
+
+    const query = this.documentsModel
+      .find(where)
+      .sort({ createdAt: -1 })
+      .skip(options?.skip ?? 0);
+    if (options?.limit) {
+      query.limit(options.limit);
+    }
+
+    const [documentObjects, total] = await Promise.all([
+      query,
+      this.documentsModel.countDocuments(where),
+    ]);
+
+    return {
+      data: documentObjects.map((documentObject) =>
+        DocumentMapper.toDomain(documentObject),
+      ),
+      total,
+    };
+  }
+
+  async findByStatuses(statuses: DocumentStatus[]): Promise<Document[]> {
+    const documentObjects = await this.documentsModel
+      .find({ status: { $in: statuses }, deletedAt: null })
+      .sort({ createdAt: 1 });
+    return documentObjects.map((documentObject) =>
+      DocumentMapper.toDomain(documentObject),
+    );
+  }
+
+  async findByContentHash(
+    userId: string | number,
+    contentHash: string,
+  ): Promise<Document[]> {
+    const documentObjects = await this.documentsModel
+      .find({ userId: userId.toString(), contentHash, deletedAt: null })
+      .sort({ createdAt: 1 });
+    return documentObjects.map((documentObject) =>
+      DocumentMapper.toDomain(documentObject),
+    );
+  }
+
+  async findDuplicatesOf(documentId: string): Promise<Document[]> {
+    const documentObjects = await this.documentsModel.find({
+      duplicateOf: documentId,
+      deletedAt: null,
+    });
+    return documentObjects.map((documentObject) =>
+      DocumentMapper.toDomain(documentObject),
+    );
+  }
+
+  async findForReprocessing(
+    filter: DocumentReprocessFilter,
+  ): Promise<Document[]> {
+    const where: FilterQuery<DocumentSchemaClass> = {
+      status: { $in: filter.statuses },
+      deletedAt: null,
+    };
+    if (filter.documentType) {
+      where.documentType = filter.documentType;
+    }
+    if (filter.userId !== undefined) {
+      where.userId = filter.userId.toString();
+    }
+    if (filter.processedBefore) {
+      where.processedAt = { $lt: filter.processedBefore };
+    }
+    if (filter.pipelineVersionNot) {
+      // $ne also matches documents without the field
+      where.pipelineVersion = { $ne: filter.pipelineVersionNot };
+    }
+
+    const documentObjects = await this.documentsModel
+      .find(where)
+      .sort({ createdAt: 1 })
+      .limit(filter.limit);
+    return documentObjects.map((documentObject) =>
+      DocumentMapper.toDomain(documentObject),
+    );
+  }
+
+  /**
+   * Text index search: unlike PostgreSQL, documents matching any of the
+   * words are returned (ranked by text score)
+   */
+  async search(
+    userId: string | number,
+    query: DocumentSearchQuery,
+  ): Promise<{ data: DocumentSearchHit[]; total: number }> {
+    const where: FilterQuery<DocumentSchemaClass> = {
+      userId: userId.toString(),
+      deletedAt: null,
+      $text: { $search: query.text },
+    };
+    if (query.documentTypes?.length) {
+      where.documentType = { $in: query.documentTypes };
+    }
+    if (query.uploadedFrom || query.uploadedTo) {
+      where.uploadedAt = {
+        ...(query.uploadedFrom && { $gte: query.uploadedFrom }),
+        ...(query.uploadedTo && { $lte: query.uploadedTo }),
+      };
+    }
+
+    const [documentObjects, total] = await Promise.all([
+      this.documentsModel
+        .find(where, { score: { $meta: 'textScore' } })
+        .sort({ score: { $meta: 'textScore' }, uploadedAt: -1 })
+        .skip(query.skip)
+        .limit(query.limit)
+        .lean<(DocumentSchemaClass & { score: number })[]>(),
+      this.documentsModel.countDocuments(where),
+    ]);
+
+    return {
+      data: documentObjects.map((documentObject) => ({
+        document: DocumentMapper.toDomain(documentObject),
+        rank: documentObject.score,
+        snippets: buildSnippets(documentObject.extractedText ?? '', query.text),
+      })),
+      total,
+    };
+  }
+
+  async updateSearchIndex(id: string): Promise<void> {
+    const documentObject = await this.documentsModel
+      .findOne({ _id: id, deletedAt: null }) // Never re-index a deleted document
+      .select('extractedText');
+    if (!documentObject) return;
+
+    await this.documentsModel.updateOne(
+      { _id: id },
+      documentObject.extractedText
+        ? { $set: { searchText: documentObject.extractedText } }
+        : { $unset: { searchText: 1 } },
+    );
+  }
+
+  async clearSearchIndex(id: string): Promise<void> {
+    await this.documentsModel.updateOne(
+      { _id: id },
+      { $unset: { searchText: 1 } },
+    );
+  }
+
+  async findExpired(): Promise<Document[]> {
+    const documentObjects = await this.documentsModel.find({
+      scheduledDeletionAt: { $lt: new Date() },
+      deletedAt: { $ne: null }, // Only soft-deleted documents
+    });
+    return documentObjects.map((documentObject) =>
+      DocumentMapper.toDomain(documentObject),
+    );
+  }
+
+  async hardDelete(id: string): Promise<void> {
+    // No foreign keys in MongoDB: remove the document's rows explicitly
+    await this.extractedFieldsModel.deleteMany({ documentId: id });
+    await this.labResultsModel.deleteMany({ documentId: id });
+    await this.medicationsModel.deleteMany({ documentId: id });
+    await this.immunizationsModel.deleteMany({ documentId: id });
+    await this.documentsModel.deleteOne({ _id: id });
+  }
+
+  async saveExtractedFields(fields: ExtractedField[]): Promise<void> {
+    this.logger.log(
+      `[REPOSITORY] Saving ${fields.length} extracted fields to database`,
+    );
+
+    const saved = await this.extractedFieldsModel.insertMany(
+      fields.map((field) => ExtractedFieldMapper.toPersistence(field)),
+    );
+
+    this.logger.log(
+      `[REPOSITORY] Successfully saved ${saved.length} extracted fields`,
+    );
+  }
+
+  async deleteExtractedFields(documentId: string): Promise<void> {
+    await this.extractedFieldsModel.deleteMany({ documentId });
+  }
+
+  async findExtractedFieldsByDocumentId(
+    documentId: string,
+  ): Promise<ExtractedField[]> {
+    const fieldObjects = await this.extractedFieldsModel.find({ documentId });
+
+    this.logger.log(
+      `[REPOSITORY] Query returned ${fieldObjects.length} extracted fields for documentId: ${documentId}`,
+    );
+
+    return fieldObjects.map((fieldObject) =>
+      ExtractedFieldMapper.toDomain(fieldObject),
+    );
+  }
+}
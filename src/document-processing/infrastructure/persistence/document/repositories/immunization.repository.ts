@@ -0,0 +1,57 @@
+import { Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { ImmunizationRepositoryPort } from '../../../../domain/ports/immunization.repository.port';
+import { Immunization } from '../../../../domain/entities/immunization.entity';
+import { ImmunizationSchemaClass } from '../entities/immunization.schema';
+import { ImmunizationMapper } from '../mappers/immunization.mapper';
+
+@Injectable()
+export class ImmunizationsDocumentRepository
+  implements ImmunizationRepositoryPort
+{
+  constructor(
+    @InjectModel(ImmunizationSchemaClass.name)
+    private readonly immunizationsModel: Model<ImmunizationSchemaClass>,
+  ) {}
+
+  async replaceForDocument(
+    documentId: string,
+    immunizations: Immunization[],
+  ): Promise<void> {
+    // Without a replica set there are no transactions: rows are replaced
+    // in two steps, like extracted fields
+    await this.immunizationsModel.deleteMany({ documentId });
+    if (immunizations.length > 0) {
+      await this.immunizationsModel.insertMany(
+        immunizations.map((immunization) =>
+          ImmunizationMapper.toPersistence({ ...immunization, documentId }),
+        ),
+      );
+    }
+  }
+
+  async findByDocumentId(documentId: string): Promise<Immunization[]> {
+    const immunizationObjects = await this.immunizationsModel
+      .find({ documentId })
+      .sort({ rowIndex: 1 });
+    return immunizationObjects.map((immunizationObject) =>
+      ImmunizationMapper.toDomain(immunizationObject),
+    );
+  }
+
+  async findByDocumentIds(documentIds: string[]): Promise<Immunization[]> {
+    // YYYY-MM-DD strings sort by date; undated doses (null) sort first in
+    // MongoDB, last in PostgreSQL: moved last to match
+    const immunizationObjects = await this.immunizationsModel
+      .find({ documentId: { $in: documentIds } })
+      .sort({ administeredDate: 1, rowIndex: 1 });
+    const immunizations = immunizationObjects.map((immunizationObject) =>
+      ImmunizationMapper.toDomain(immunizationObject),
+    );
+    return [
+      ...immunizations.filter((immunization) => immunization.administeredDate),
+      ...immunizations.filter((immunization) => !immunization.administeredDate),
+    ];
+  }
+}
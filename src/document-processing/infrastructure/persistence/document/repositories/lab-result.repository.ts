@@ -0,0 +1,40 @@
+import { Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { LabResultRepositoryPort } from '../../../../domain/ports/lab-result.repository.port';
+import { LabResult } from '../../../../domain/entities/lab-result.entity';
+import { LabResultSchemaClass } from '../entities/lab-result.schema';
+import { LabResultMapper } from '../mappers/lab-result.mapper';
+
+@Injectable()
+export class LabResultsDocumentRepository implements LabResultRepositoryPort {
+  constructor(
+    @InjectModel(LabResultSchemaClass.name)
+    private readonly labResultsModel: Model<LabResultSchemaClass>,
+  ) {}
+
+  async replaceForDocument(
+    documentId: string,
+    results: LabResult[],
+  ): Promise<void> {
+    // Without a replica set there are no transactions: rows are replaced
+    // in two steps, like extracted fields
+    await this.labResultsModel.deleteMany({ documentId });
+    if (results.length > 0) {
+      await this.labResultsModel.insertMany(
+        results.map((result) =>
+          LabResultMapper.toPersistence({ ...result, documentId }),
+        ),
+      );
+    }
+  }
+
+  async findByDocumentId(documentId: string): Promise<LabResult[]> {
+    const resultObjects = await this.labResultsModel
+      .find({ documentId })
+      .sort({ rowIndex: 1 });
+    return resultObjects.map((resultObject) =>
+      LabResultMapper.toDomain(resultObject),
+    );
+  }
+}
@@ -0,0 +1,40 @@
+import { Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { MedicationRepositoryPort } from '../../../../domain/ports/medication.repository.port';
+import { Medication } from '../../../../domain/entities/medication.entity';
+import { MedicationSchemaClass } from '../entities/medication.schema';
+import { MedicationMapper } from '../mappers/medication.mapper';
+
+@Injectable()
+export class MedicationsDocumentRepository implements MedicationRepositoryPort {
+  constructor(
+    @InjectModel(MedicationSchemaClass.name)
+    private readonly medicationsModel: Model<MedicationSchemaClass>,
+  ) {}
+
+  async replaceForDocument(
+    documentId: string,
+    medications: Medication[],
+  ): Promise<void> {
+    // Without a replica set there are no transactions: rows are replaced
+    // in two steps, like extracted fields
+    await this.medicationsModel.deleteMany({ documentId });
+    if (medications.length > 0) {
+      await this.medicationsModel.insertMany(
+        medications.map((medication) =>
+          MedicationMapper.toPersistence({ ...medication, documentId }),
+        ),
+      );
+    }
+  }
+
+  async findByDocumentId(documentId: string): Promise<Medication[]> {
+    const medicationObjects = await this.medicationsModel
+      .find({ documentId })
+      .sort({ rowIndex: 1 });
+    return medicationObjects.map((medicationObject) =>
+      MedicationMapper.toDomain(medicationObject),
+    );
+  }
+}
@@ -0,0 +1,181 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { ProcessingQueuePort } from '../../../../domain/ports/processing-queue.port';
+import { ProcessingJob } from '../../../../domain/entities/processing-job.entity';
+import { ProcessingJobStatus } from '../../../../domain/enums/processing-job-status.enum';
+import { ProcessingJobSchemaClass } from '../entities/processing-job.schema';
+import { ProcessingJobMapper } from '../mappers/processing-job.mapper';
+
+const OPEN_STATUSES = [ProcessingJobStatus.PENDING, ProcessingJobStatus.LEASED];
+const DUPLICATE_KEY_ERROR = 11000;
+
+/**
+ * MongoDB-backed processing queue
+ *
+ * Each job is claimed with an atomic findOneAndUpdate, so multiple workers
+ * never claim the same job. A partial unique index guarantees at most one
+ * open job per document.
+ */
+@Injectable()
+export class ProcessingQueueDocumentRepository implements ProcessingQueuePort {
+  private readonly logger = new Logger(ProcessingQueueDocumentRepository.name);
+
+  constructor(
+    @InjectModel(ProcessingJobSchemaClass.name)
+    private readonly jobsModel: Model<ProcessingJobSchemaClass>,
+  ) {}
+
+  async enqueue(
+    documentId: string,
+    availableAt?: Date,
+  ): Promise<ProcessingJob> {
+    const existing = await this.findOpenJob(documentId);
+    if (existing) {
+      return ProcessingJobMapper.toDomain(existing);
+    }
+
+    try {
+      const createdJob = new this.jobsModel({
+        documentId,
+        status: ProcessingJobStatus.PENDING,
+        attempts: 0,
+        availableAt: availableAt ?? new Date(),
+      });
+      return ProcessingJobMapper.toDomain(await createdJob.save());
+    } catch (error) {
+      // Lost a race with a concurrent enqueue (unique open job per document)
+      if (error?.code === DUPLICATE_KEY_ERROR) {
+        const raced = await this.findOpenJob(documentId);
+        if (raced) {
+          return ProcessingJobMapper.toDomain(raced);
+        }
+      }
+      throw error;
+    }
+  }
+
+  async claim(
+    workerId: string,
+    limit: number,
+    leaseSeconds: number,
+  ): Promise<ProcessingJob[]> {
+    const jobs: ProcessingJob[] = [];
+    const now = new Date();
+    const leaseExpiresAt = new Date(now.getTime() + leaseSeconds * 1000);
+
+    while (jobs.length < limit) {
+      const jobObject = await this.jobsModel.findOneAndUpdate(
+        { status: ProcessingJobStatus.PENDING, availableAt: { $lte: now } },
+        {
+          $set: {
+            status: ProcessingJobStatus.LEASED,
+            leasedBy: workerId,
+            leaseExpiresAt,
+          },
+          $inc: { attempts: 1 },
+        },
+        { sort: { availableAt: 1 }, new: true },
+      );
+
+      if (!jobObject) {
+        break;
+      }
+      jobs.push(ProcessingJobMapper.toDomain(jobObject));
+    }
+
+    return jobs;
+  }
+
+  async extendLease(
+    jobId: string,
+    workerId: string,
+    leaseSeconds: number,
+  ): Promise<boolean> {
+    const result = await this.jobsModel.updateOne(
+      { _id: jobId, leasedBy: workerId, status: ProcessingJobStatus.LEASED },
+      { $set: { leaseExpiresAt: new Date(Date.now() + leaseSeconds * 1000) } },
+    );
+    return result.matchedCount > 0;
+  }
+
+  async complete(jobId: string, workerId: string): Promise<void> {
+    const result = await this.jobsModel.updateOne(
+      { _id: jobId, leasedBy: workerId, status: ProcessingJobStatus.LEASED },
+      {
+        $set: {
+          status: ProcessingJobStatus.COMPLETED,
+          leasedBy: null,
+          leaseExpiresAt: null,
+          completedAt: new Date(),
+        },
+      },
+    );
+
+    if (!result.matchedCount) {
+      this.logger.warn(
+        `[QUEUE] Job ${jobId} completed by ${workerId} after losing its lease`,
+      );
+    }
+  }
+
+  async reschedule(
+    jobId: string,
+    workerId: string,
+    availableAt: Date,
+    lastError?: string,
+  ): Promise<void> {
+    await this.jobsModel.updateOne(
+      { _id: jobId, leasedBy: workerId, status: ProcessingJobStatus.LEASED },
+      {
+        $set: {
+          status: ProcessingJobStatus.PENDING,
+          leasedBy: null,
+          leaseExpiresAt: null,
+          availableAt,
+          lastError: lastError ?? null,
+        },
+      },
+    );
+  }
+
+  async markDead(jobId: string, lastError?: string): Promise<void> {
+    await this.jobsModel.updateOne(
+      { _id: jobId },
+      {
+        $set: {
+          status: ProcessingJobStatus.DEAD,
+          leasedBy: null,
+          leaseExpiresAt: null,
+          lastError: lastError ?? null,
+          completedAt: new Date(),
+        },
+      },
+    );
+  }
+
+  async requeueExpiredLeases(): Promise<number> {
+    const result = await this.jobsModel.updateMany(
+      {
+        status: ProcessingJobStatus.LEASED,
+        leaseExpiresAt: { $lt: new Date() },
+      },
+      {
+        $set: {
+          status: ProcessingJobStatus.PENDING,
+          leasedBy: null,
+          leaseExpiresAt: null,
+          availableAt: new Date(),
+        },
+      },
+    );
+    return result.modifiedCount;
+  }
+
+  private findOpenJob(documentId: string) {
+    return this.jobsModel.findOne({
+      documentId,
+      status: { $in: OPEN_STATUSES },
+    });
+  }
+}
@@ -0,0 +1,85 @@
+import { Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { UploadSessionRepositoryPort } from '../../../../domain/ports/upload-session.repository.port';
+import { UploadSession } from '../../../../domain/entities/upload-session.entity';
+import { UploadSessionSchemaClass } from '../entities/upload-session.schema';
+import { UploadSessionMapper } from '../mappers/upload-session.mapper';
+import { NullableType } from '../../../../../utils/types/nullable.type';
+
+@Injectable()
+export class UploadSessionsDocumentRepository
+  implements UploadSessionRepositoryPort
+{
+  constructor(
+    @InjectModel(UploadSessionSchemaClass.name)
+    private readonly sessionsModel: Model<UploadSessionSchemaClass>,
+  ) {}
+
+  async create(session: UploadSession): Promise<UploadSession> {
+    const createdSession = new this.sessionsModel(
+      UploadSessionMapper.toPersistence(session),
+    );
+    return UploadSessionMapper.toDomain(await createdSession.save());
+  }
+
+  async findById(id: string): Promise<NullableType<UploadSession>> {
+    const sessionObject = await this.sessionsModel.findById(id);
+    return sessionObject ? UploadSessionMapper.toDomain(sessionObject) : null;
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.sessionsModel.deleteOne({ _id: id });
+  }
+
+  async appendPart(
+    id: string,
+    expectedOffset: number,
+    part: { name: string; size: number },
+    expiresAt: Date,
+  ): Promise<boolean> {
+    // Conditional on the offset, so concurrent chunks cannot both be recorded
+    const result = await this.sessionsModel.updateOne(
+      { _id: id, offset: expectedOffset, completedAt: null },
+      {
+        $inc: { offset: part.size },
+        $push: { partNames: part.name },
+        $set: { expiresAt },
+      },
+    );
+    return result.modifiedCount > 0;
+  }
+
+  async claimCompletion(id: string, staleBefore: Date): Promise<boolean> {
+    const result = await this.sessionsModel.updateOne(
+      {
+        _id: id,
+        documentId: null,
+        $or: [{ completedAt: null }, { completedAt: { $lt: staleBefore } }],
+      },
+      { $set: { completedAt: new Date() } },
+    );
+    return result.modifiedCount > 0;
+  }
+
+  async releaseCompletion(id: string): Promise<void> {
+    await this.sessionsModel.updateOne(
+      { _id: id },
+      { $set: { completedAt: null } },
+    );
+  }
+
+  async setDocumentId(id: string, documentId: string): Promise<void> {
+    await this.sessionsModel.updateOne({ _id: id }, { $set: { documentId } });
+  }
+
+  async findExpired(now: Date, limit: number): Promise<UploadSession[]> {
+    const sessionObjects = await this.sessionsModel
+      .find({ expiresAt: { $lt: now } })
+      .sort({ expiresAt: 1 })
+      .limit(limit);
+    return sessionObjects.map((sessionObject) =>
+      UploadSessionMapper.toDomain(sessionObject),
+    );
+  }
+}
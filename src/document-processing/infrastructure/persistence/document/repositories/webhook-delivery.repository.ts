@@ -0,0 +1,105 @@
+import { Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { WebhookDeliveryRepositoryPort } from '../../../../domain/ports/webhook-delivery.repository.port';
+import { WebhookDelivery } from '../../../../domain/entities/webhook-delivery.entity';
+import { WebhookDeliveryStatus } from '../../../../domain/enums/webhook-delivery-status.enum';
+import { WebhookDeliverySchemaClass } from '../entities/webhook-delivery.schema';
+import { WebhookDeliveryMapper } from '../mappers/webhook-delivery.mapper';
+import { NullableType } from '../../../../../utils/types/nullable.type';
+
+/**
+ * MongoDB-backed webhook delivery log
+ *
+ * Each due delivery is claimed with an atomic findOneAndUpdate, like
+ * processing jobs, so concurrent workers never send the same delivery.
+ */
+@Injectable()
+export class WebhookDeliveriesDocumentRepository
+  implements WebhookDeliveryRepositoryPort
+{
+  constructor(
+    @InjectModel(WebhookDeliverySchemaClass.name)
+    private readonly deliveriesModel: Model<WebhookDeliverySchemaClass>,
+  ) {}
+
+  async createMany(deliveries: WebhookDelivery[]): Promise<WebhookDelivery[]> {
+    const deliveryObjects = await this.deliveriesModel.insertMany(
+      deliveries.map((delivery) =>
+        WebhookDeliveryMapper.toPersistence(delivery),
+      ),
+    );
+    return deliveryObjects.map((deliveryObject) =>
+      WebhookDeliveryMapper.toDomain(deliveryObject),
+    );
+  }
+
+  async update(id: string, partial: Partial<WebhookDelivery>): Promise<void> {
+    const clonedPayload: any = { ...partial };
+    delete clonedPayload.id;
+
+    await this.deliveriesModel.updateOne({ _id: id }, { $set: clonedPayload });
+  }
+
+  async findById(id: string): Promise<NullableType<WebhookDelivery>> {
+    const deliveryObject = await this.deliveriesModel.findById(id);
+    return deliveryObject
+      ? WebhookDeliveryMapper.toDomain(deliveryObject)
+      : null;
+  }
+
+  async findBySubscriptionId(
+    subscriptionId: string,
+    limit: number,
+  ): Promise<WebhookDelivery[]> {
+    const deliveryObjects = await this.deliveriesModel
+      .find({ subscriptionId })
+      .sort({ createdAt: -1 })
+      .limit(limit);
+    return deliveryObjects.map((deliveryObject) =>
+      WebhookDeliveryMapper.toDomain(deliveryObject),
+    );
+  }
+
+  async claimDue(
+    limit: number,
+    leaseSeconds: number,
+  ): Promise<WebhookDelivery[]> {
+    const deliveries: WebhookDelivery[] = [];
+    const now = new Date();
+    const leaseExpiresAt = new Date(now.getTime() + leaseSeconds * 1000);
+
+    while (deliveries.length < limit) {
+      // Returns the document as it was before the lease was applied
+      const deliveryObject = await this.deliveriesModel.findOneAndUpdate(
+        {
+          status: WebhookDeliveryStatus.PENDING,
+          nextAttemptAt: { $lte: now },
+        },
+        { $set: { nextAttemptAt: leaseExpiresAt } },
+        { sort: { nextAttemptAt: 1 } },
+      );
+
+      if (!deliveryObject) {
+        break;
+      }
+      deliveries.push(WebhookDeliveryMapper.toDomain(deliveryObject));
+    }
+
+    return deliveries;
+  }
+
+  async deleteBySubscriptionId(subscriptionId: string): Promise<void> {
+    await this.deliveriesModel.deleteMany({ subscriptionId });
+  }
+
+  async deleteFinishedBefore(date: Date): Promise<number> {
+    const result = await this.deliveriesModel.deleteMany({
+      status: {
+        $in: [WebhookDeliveryStatus.SUCCEEDED, WebhookDeliveryStatus.FAILED],
+      },
+      createdAt: { $lt: date },
+    });
+    return result.deletedCount;
+  }
+}
@@ -0,0 +1,76 @@
+import { Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { WebhookSubscriptionRepositoryPort } from '../../../../domain/ports/webhook-subscription.repository.port';
+import { WebhookSubscription } from '../../../../domain/entities/webhook-subscription.entity';
+import { DocumentEventType } from '../../../../domain/enums/document-event-type.enum';
+import { WebhookSubscriptionSchemaClass } from '../entities/webhook-subscription.schema';
+import { WebhookSubscriptionMapper } from '../mappers/webhook-subscription.mapper';
+import { NullableType } from '../../../../../utils/types/nullable.type';
+
+@Injectable()
+export class WebhookSubscriptionsDocumentRepository
+  implements WebhookSubscriptionRepositoryPort
+{
+  constructor(
+    @InjectModel(WebhookSubscriptionSchemaClass.name)
+    private readonly subscriptionsModel: Model<WebhookSubscriptionSchemaClass>,
+  ) {}
+
+  async create(
+    subscription: WebhookSubscription,
+  ): Promise<WebhookSubscription> {
+    const createdSubscription = new this.subscriptionsModel(
+      WebhookSubscriptionMapper.toPersistence(subscription),
+    );
+    return WebhookSubscriptionMapper.toDomain(await createdSubscription.save());
+  }
+
+  async update(
+    id: string,
+    partial: Partial<WebhookSubscription>,
+  ): Promise<void> {
+    const clonedPayload: any = { ...partial };
+    delete clonedPayload.id;
+    if (partial.createdByUserId !== undefined) {
+      clonedPayload.createdByUserId = partial.createdByUserId.toString();
+    }
+
+    await this.subscriptionsModel.updateOne(
+      { _id: id },
+      { $set: clonedPayload },
+    );
+  }
+
+  async findById(id: string): Promise<NullableType<WebhookSubscription>> {
+    const subscriptionObject = await this.subscriptionsModel.findById(id);
+    return subscriptionObject
+      ? WebhookSubscriptionMapper.toDomain(subscriptionObject)
+      : null;
+  }
+
+  async findAll(): Promise<WebhookSubscription[]> {
+    const subscriptionObjects = await this.subscriptionsModel
+      .find()
+      .sort({ createdAt: 1 });
+    return subscriptionObjects.map((subscriptionObject) =>
+      WebhookSubscriptionMapper.toDomain(subscriptionObject),
+    );
+  }
+
+  async findActiveByEvent(
+    eventType: DocumentEventType,
+  ): Promise<WebhookSubscription[]> {
+    const subscriptionObjects = await this.subscriptionsModel.find({
+      active: true,
+      events: eventType,
+    });
+    return subscriptionObjects.map((subscriptionObject) =>
+      WebhookSubscriptionMapper.toDomain(subscriptionObject),
+    );
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.subscriptionsModel.deleteOne({ _id: id });
+  }
+}
@@ -0,0 +1,62 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  JoinColumn,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from 'typeorm';
+import { DocumentEntity } from './document.entity';
+import { DocumentGrantScope } from '../../../../domain/enums/document-grant-scope.enum';
+import { EntityRelationalHelper } from '../../../../../utils/relational-entity-helper';
+
+@Entity({ name: 'document_grants' })
+export class DocumentGrantEntity extends EntityRelationalHelper {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @ManyToOne(() => DocumentEntity, { nullable: false, onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'document_id' })
+  document: DocumentEntity;
+
+  @Column({ name: 'document_id' })
+  @Index('IDX_document_grants_document_id')
+  documentId: string;
+
+  @Column({ name: 'granted_by_user_id', type: 'integer' })
+  grantedByUserId: number;
+
+  @Column({ name: 'grantee_user_id', type: 'integer', nullable: true })
+  @Index('IDX_document_grants_grantee_user_id')
+  granteeUserId?: number | null;
+
+  // HIPAA NOTE: PII - invite email, stored lowercase
+  @Column({
+    name: 'grantee_email',
+    type: 'varchar',
+    length: 255,
+    nullable: true,
+  })
+  @Index('IDX_document_grants_grantee_email')
+  granteeEmail?: string | null;
+
+  @Column({ type: 'varchar', length: 20, array: true })
+  scopes: DocumentGrantScope[];
+
+  @Column({ name: 'expires_at', type: 'timestamp', nullable: true })
+  expiresAt?: Date | null;
+
+  @Column({ name: 'revoked_at', type: 'timestamp', nullable: true })
+  revokedAt?: Date | null;
+
+  @Column({ name: 'last_used_at', type: 'timestamp', nullable: true })
+  lastUsedAt?: Date | null;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ name: 'updated_at' })
+  updatedAt: Date;
+}
@@ -0,0 +1,150 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  JoinColumn,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from 'typeorm';
+import { DocumentEntity } from './document.entity';
+import { DocumentType } from '../../../../domain/enums/document-type.enum';
+import { ProcessingMethod } from '../../../../domain/enums/processing-method.enum';
+import { ProcessingRunStatus } from '../../../../domain/enums/processing-run-status.enum';
+import { ProcessingRunTrigger } from '../../../../domain/enums/processing-run-trigger.enum';
+import { EntityRelationalHelper } from '../../../../../utils/relational-entity-helper';
+
+@Entity({ name: 'document_processing_runs' })
+@Index('IDX_document_processing_runs_document_id_created_at', [
+  'documentId',
+  'createdAt',
+])
+@Index('UQ_document_processing_runs_open_document', ['documentId'], {
+  unique: true,
+  where: `"status" IN ('QUEUED', 'RUNNING')`,
+})
+export class DocumentProcessingRunEntity extends EntityRelationalHelper {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @ManyToOne(() => DocumentEntity, { nullable: false, onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'document_id' })
+  document: DocumentEntity;
+
+  @Column({ name: 'document_id' })
+  documentId: string;
+
+  @Column({ name: 'pipeline_version', type: 'varchar', length: 20 })
+  pipelineVersion: string;
+
+  @Column({ type: 'varchar', length: 20 })
+  trigger: ProcessingRunTrigger;
+
+  @Column({ name: 'requested_by_user_id', type: 'integer', nullable: true })
+  requestedByUserId?: number | null;
+
+  @Column({ type: 'varchar', length: 20 })
+  @Index('IDX_document_processing_runs_status')
+  status: ProcessingRunStatus;
+
+  @Column({ name: 'promote_on_success', type: 'boolean', default: true })
+  promoteOnSuccess: boolean;
+
+  @Column({ type: 'integer', default: 0 })
+  attempts: number;
+
+  @Column({
+    name: 'processing_method',
+    type: 'varchar',
+    length: 50,
+    nullable: true,
+  })
+  processingMethod?: ProcessingMethod | null;
+
+  @Column({
+    name: 'document_type',
+    type: 'varchar',
+    length: 50,
+    nullable: true,
+  })
+  documentType?: DocumentType | null;
+
+  @Column({
+    name: 'predicted_document_type',
+    type: 'varchar',
+    length: 50,
+    nullable: true,
+  })
+  predictedDocumentType?: DocumentType | null;
+
+  @Column({
+    name: 'classification_confidence',
+    type: 'decimal',
+    precision: 5,
+    scale: 4,
+    nullable: true,
+  })
+  classificationConfidence?: number | null;
+
+  @Column({
+    name: 'processed_file_uri',
+    type: 'varchar',
+    length: 500,
+    nullable: true,
+  })
+  processedFileUri?: string | null;
+
+  // HIPAA NOTE: The following columns contain PHI - encrypted at rest by PostgreSQL
+  @Column({ name: 'ocr_json_output', type: 'jsonb', nullable: true })
+  ocrJsonOutput?: any;
+
+  @Column({ name: 'extracted_text', type: 'text', nullable: true })
+  extractedText?: string | null;
+
+  @Column({ name: 'extracted_fields', type: 'jsonb', nullable: true })
+  extractedFields?: any[] | null;
+
+  @Column({ name: 'lab_results', type: 'jsonb', nullable: true })
+  labResults?: any[] | null;
+
+  @Column({ type: 'jsonb', nullable: true })
+  medications?: any[] | null;
+
+  @Column({ type: 'jsonb', nullable: true })
+  immunizations?: any[] | null;
+
+  @Column({ type: 'decimal', precision: 5, scale: 4, nullable: true })
+  confidence?: number | null;
+
+  @Column({ name: 'page_count', type: 'integer', nullable: true })
+  pageCount?: number | null;
+
+  // Stage history (no PHI): ProcessingStageRecord[]
+  @Column({ type: 'jsonb', default: () => "'[]'" })
+  stages: any[];
+
+  @Column({ name: 'duration_ms', type: 'integer', nullable: true })
+  durationMs?: number | null;
+
+  @Column({ name: 'pages_billed', type: 'integer', default: 0 })
+  pagesBilled: number;
+
+  @Column({ name: 'error_message', type: 'text', nullable: true })
+  errorMessage?: string | null;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ name: 'updated_at' })
+  updatedAt: Date;
+
+  @Column({ name: 'started_at', type: 'timestamp', nullable: true })
+  startedAt?: Date | null;
+
+  @Column({ name: 'completed_at', type: 'timestamp', nullable: true })
+  completedAt?: Date | null;
+
+  @Column({ name: 'promoted_at', type: 'timestamp', nullable: true })
+  promotedAt?: Date | null;
+}
@@ -18,6 +18,7 @@ import { EntityRelationalHelper } from '../../../../../utils/relational-entity-h
 import { ProcessingMethod } from '../../../../domain/enums/processing-method.enum';
 
 @Entity({ name: 'documents' })
+@Index('IDX_documents_user_id_content_hash', ['userId', 'contentHash'])
 export class DocumentEntity extends EntityRelationalHelper {
   @PrimaryGeneratedColumn('uuid')
   id: string;
@@ -34,6 +35,31 @@ export class DocumentEntity extends EntityRelationalHelper {
   @Index()
   documentType: DocumentType;
 
+  @Column({
+    name: 'declared_document_type',
+    type: 'varchar',
+    length: 50,
+    nullable: true,
+  })
+  declaredDocumentType?: DocumentType;
+
+  @Column({
+    name: 'predicted_document_type',
+    type: 'varchar',
+    length: 50,
+    nullable: true,
+  })
+  predictedDocumentType?: DocumentType;
+
+  @Column({
+    name: 'classification_confidence',
+    type: 'decimal',
+    precision: 5,
+    scale: 4,
+    nullable: true,
+  })
+  classificationConfidence?: number;
+
   @Column({ type: 'varchar', length: 50 })
   @Index()
   status: DocumentStatus;
@@ -46,9 +72,37 @@ export class DocumentEntity extends EntityRelationalHelper {
   })
   processingMethod?: ProcessingMethod;
 
+  @Column({ name: 'current_run_id', type: 'uuid', nullable: true })
+  currentRunId?: string;
+
+  @Column({
+    name: 'pipeline_version',
+    type: 'varchar',
+    length: 20,
+    nullable: true,
+  })
+  @Index('IDX_documents_pipeline_version')
+  pipelineVersion?: string;
+
   @Column({ name: 'raw_file_uri', type: 'varchar', length: 500 })
   rawFileUri: string;
 
+  @Column({
+    name: 'back_file_uri',
+    type: 'varchar',
+    length: 500,
+    nullable: true,
+  })
+  backFileUri?: string;
+
+  @Column({
+    name: 'back_mime_type',
+    type: 'varchar',
+    length: 100,
+    nullable: true,
+  })
+  backMimeType?: string;
+
   @Column({
     name: 'processed_file_uri',
     type: 'varchar',
@@ -64,6 +118,17 @@ export class DocumentEntity extends EntityRelationalHelper {
   @Column({ name: 'extracted_text', type: 'text', nullable: true })
   extractedText?: string;
 
+  // Full-text search index of extracted_text (GIN index created by migration)
+  // HIPAA NOTE: Derived from PHI - cleared when the document is soft-deleted
+  @Column({
+    name: 'search_vector',
+    type: 'tsvector',
+    nullable: true,
+    select: false,
+  })
+  @Index('IDX_documents_search_vector', { synchronize: false })
+  searchVector?: string | null;
+
   @Column({ type: 'decimal', precision: 5, scale: 4, nullable: true })
   confidence?: number;
 
@@ -76,6 +141,13 @@ export class DocumentEntity extends EntityRelationalHelper {
   @Column({ name: 'mime_type', type: 'varchar', length: 100 })
   mimeType: string;
 
+  @Column({ name: 'content_hash', type: 'varchar', length: 64, nullable: true })
+  contentHash?: string;
+
+  @Column({ name: 'duplicate_of', type: 'uuid', nullable: true })
+  @Index('IDX_documents_duplicate_of')
+  duplicateOf?: string;
+
   @Column({ name: 'page_count', type: 'integer', nullable: true })
   pageCount?: number;
 
@@ -0,0 +1,67 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  JoinColumn,
+  CreateDateColumn,
+  Index,
+} from 'typeorm';
+import { DocumentEntity } from './document.entity';
+import { EntityRelationalHelper } from '../../../../../utils/relational-entity-helper';
+
+// HIPAA NOTE: Every column except ids, positions and timestamps is PHI
+@Entity({ name: 'immunizations' })
+@Index('IDX_immunizations_document_id_row_index', ['documentId', 'rowIndex'])
+export class ImmunizationEntity extends EntityRelationalHelper {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @ManyToOne(() => DocumentEntity, {
+    nullable: false,
+    onDelete: 'CASCADE',
+  })
+  @JoinColumn({ name: 'document_id' })
+  document: DocumentEntity;
+
+  @Column({ name: 'document_id' })
+  documentId: string;
+
+  @Column({ name: 'row_index', type: 'integer' })
+  rowIndex: number;
+
+  @Column({ name: 'cvx_code', type: 'varchar', length: 10 })
+  cvxCode: string;
+
+  @Column({ name: 'vaccine_name', type: 'varchar', length: 200 })
+  vaccineName: string;
+
+  @Column({ name: 'printed_name', type: 'varchar', length: 200 })
+  printedName: string;
+
+  @Column({ name: 'administered_date', type: 'date', nullable: true })
+  administeredDate?: string | null;
+
+  @Column({ name: 'dose_number', type: 'integer', nullable: true })
+  doseNumber?: number | null;
+
+  @Column({ name: 'lot_number', type: 'varchar', length: 50, nullable: true })
+  lotNumber?: string | null;
+
+  @Column({ type: 'varchar', length: 100, nullable: true })
+  manufacturer?: string | null;
+
+  @Column({
+    name: 'administered_at',
+    type: 'varchar',
+    length: 200,
+    nullable: true,
+  })
+  administeredAt?: string | null;
+
+  @Column({ type: 'decimal', precision: 5, scale: 4 })
+  confidence: number;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+}
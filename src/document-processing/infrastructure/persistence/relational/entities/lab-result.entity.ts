@@ -0,0 +1,74 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  JoinColumn,
+  CreateDateColumn,
+  Index,
+} from 'typeorm';
+import { DocumentEntity } from './document.entity';
+import { LabResultFlag } from '../../../../domain/enums/lab-result-flag.enum';
+import { EntityRelationalHelper } from '../../../../../utils/relational-entity-helper';
+
+// HIPAA NOTE: Every column except ids, positions and timestamps is PHI
+@Entity({ name: 'lab_results' })
+@Index('IDX_lab_results_document_id_row_index', ['documentId', 'rowIndex'])
+export class LabResultEntity extends EntityRelationalHelper {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @ManyToOne(() => DocumentEntity, {
+    nullable: false,
+    onDelete: 'CASCADE',
+  })
+  @JoinColumn({ name: 'document_id' })
+  document: DocumentEntity;
+
+  @Column({ name: 'document_id' })
+  documentId: string;
+
+  @Column({ name: 'row_index', type: 'integer' })
+  rowIndex: number;
+
+  @Column({ name: 'page_index', type: 'integer', default: 0 })
+  pageIndex: number;
+
+  @Column({ type: 'varchar', length: 200 })
+  analyte: string;
+
+  @Column({ type: 'varchar', length: 100 })
+  value: string;
+
+  @Column({ name: 'numeric_value', type: 'double precision', nullable: true })
+  numericValue?: number | null;
+
+  @Column({ type: 'varchar', length: 50, nullable: true })
+  unit?: string | null;
+
+  @Column({ name: 'reference_low', type: 'double precision', nullable: true })
+  referenceLow?: number | null;
+
+  @Column({ name: 'reference_high', type: 'double precision', nullable: true })
+  referenceHigh?: number | null;
+
+  @Column({
+    name: 'reference_range',
+    type: 'varchar',
+    length: 100,
+    nullable: true,
+  })
+  referenceRange?: string | null;
+
+  @Column({ type: 'varchar', length: 20, nullable: true })
+  flag?: LabResultFlag | null;
+
+  @Column({ type: 'varchar', length: 100, nullable: true })
+  specimen?: string | null;
+
+  @Column({ name: 'collection_date', type: 'date', nullable: true })
+  collectionDate?: string | null;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+}
@@ -0,0 +1,86 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  JoinColumn,
+  CreateDateColumn,
+  Index,
+} from 'typeorm';
+import { DocumentEntity } from './document.entity';
+import { MedicationRoute } from '../../../../domain/enums/medication-route.enum';
+import { EntityRelationalHelper } from '../../../../../utils/relational-entity-helper';
+
+// HIPAA NOTE: Every column except ids, positions and timestamps is PHI
+@Entity({ name: 'medications' })
+@Index('IDX_medications_document_id_row_index', ['documentId', 'rowIndex'])
+export class MedicationEntity extends EntityRelationalHelper {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @ManyToOne(() => DocumentEntity, {
+    nullable: false,
+    onDelete: 'CASCADE',
+  })
+  @JoinColumn({ name: 'document_id' })
+  document: DocumentEntity;
+
+  @Column({ name: 'document_id' })
+  documentId: string;
+
+  @Column({ name: 'row_index', type: 'integer' })
+  rowIndex: number;
+
+  @Column({ name: 'drug_name', type: 'varchar', length: 200 })
+  drugName: string;
+
+  @Column({ name: 'printed_name', type: 'varchar', length: 200 })
+  printedName: string;
+
+  @Column({ type: 'varchar', length: 50, nullable: true })
+  strength?: string | null;
+
+  @Column({ name: 'dosage_form', type: 'varchar', length: 50, nullable: true })
+  dosageForm?: string | null;
+
+  @Column({ type: 'text', nullable: true })
+  sig?: string | null;
+
+  @Column({ type: 'varchar', length: 50, nullable: true })
+  dose?: string | null;
+
+  @Column({ type: 'varchar', length: 20, nullable: true })
+  route?: MedicationRoute | null;
+
+  @Column({ type: 'varchar', length: 50, nullable: true })
+  frequency?: string | null;
+
+  @Column({ name: 'times_per_day', type: 'double precision', nullable: true })
+  timesPerDay?: number | null;
+
+  @Column({ name: 'interval_hours', type: 'integer', nullable: true })
+  intervalHours?: number | null;
+
+  @Column({ name: 'as_needed', type: 'boolean', default: false })
+  asNeeded: boolean;
+
+  @Column({
+    name: 'as_needed_reason',
+    type: 'varchar',
+    length: 100,
+    nullable: true,
+  })
+  asNeededReason?: string | null;
+
+  @Column({ type: 'double precision', nullable: true })
+  quantity?: number | null;
+
+  @Column({ type: 'integer', nullable: true })
+  refills?: number | null;
+
+  @Column({ type: 'decimal', precision: 5, scale: 4 })
+  confidence: number;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+}
@@ -0,0 +1,62 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  JoinColumn,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from 'typeorm';
+import { DocumentEntity } from './document.entity';
+import { ProcessingJobStatus } from '../../../../domain/enums/processing-job-status.enum';
+import { EntityRelationalHelper } from '../../../../../utils/relational-entity-helper';
+
+@Entity({ name: 'document_processing_jobs' })
+@Index('IDX_document_processing_jobs_status_available_at', [
+  'status',
+  'availableAt',
+])
+@Index('UQ_document_processing_jobs_open_document', ['documentId'], {
+  unique: true,
+  where: `"status" IN ('PENDING', 'LEASED')`,
+})
+export class ProcessingJobEntity extends EntityRelationalHelper {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @ManyToOne(() => DocumentEntity, { nullable: false, onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'document_id' })
+  document: DocumentEntity;
+
+  @Column({ name: 'document_id' })
+  documentId: string;
+
+  @Column({ type: 'varchar', length: 20 })
+  status: ProcessingJobStatus;
+
+  @Column({ type: 'integer', default: 0 })
+  attempts: number;
+
+  @Column({ name: 'available_at', type: 'timestamp' })
+  availableAt: Date;
+
+  @Column({ name: 'leased_by', type: 'varchar', length: 100, nullable: true })
+  leasedBy?: string | null;
+
+  @Column({ name: 'lease_expires_at', type: 'timestamp', nullable: true })
+  @Index('IDX_document_processing_jobs_lease_expires_at')
+  leaseExpiresAt?: Date | null;
+
+  @Column({ name: 'last_error', type: 'text', nullable: true })
+  lastError?: string | null;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ name: 'updated_at' })
+  updatedAt: Date;
+
+  @Column({ name: 'completed_at', type: 'timestamp', nullable: true })
+  completedAt?: Date | null;
+}
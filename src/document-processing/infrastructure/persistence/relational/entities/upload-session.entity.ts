@@ -0,0 +1,69 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from 'typeorm';
+import { DocumentType } from '../../../../domain/enums/document-type.enum';
+import { EntityRelationalHelper } from '../../../../../utils/relational-entity-helper';
+
+@Entity({ name: 'upload_sessions' })
+export class UploadSessionEntity extends EntityRelationalHelper {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ name: 'user_id', type: 'integer' })
+  @Index('IDX_upload_sessions_user_id')
+  userId: number;
+
+  @Column({
+    name: 'document_type',
+    type: 'varchar',
+    length: 50,
+    nullable: true,
+  })
+  documentType?: DocumentType;
+
+  // HIPAA NOTE: May contain PHI (patient names in file names)
+  @Column({ name: 'file_name', type: 'varchar', length: 255 })
+  fileName: string;
+
+  @Column({ name: 'mime_type', type: 'varchar', length: 100 })
+  mimeType: string;
+
+  @Column({ name: 'file_size', type: 'integer' })
+  fileSize: number;
+
+  @Column({ type: 'text', nullable: true })
+  description?: string | null;
+
+  @Column({ name: 'bytes_received', type: 'integer', default: 0 })
+  offset: number;
+
+  @Column({
+    name: 'part_names',
+    type: 'varchar',
+    length: 80,
+    array: true,
+    default: '{}',
+  })
+  partNames: string[];
+
+  @Column({ name: 'completed_at', type: 'timestamp', nullable: true })
+  completedAt?: Date | null;
+
+  @Column({ name: 'document_id', type: 'uuid', nullable: true })
+  documentId?: string | null;
+
+  @Column({ name: 'expires_at', type: 'timestamp' })
+  @Index('IDX_upload_sessions_expires_at')
+  expiresAt: Date;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ name: 'updated_at' })
+  updatedAt: Date;
+}
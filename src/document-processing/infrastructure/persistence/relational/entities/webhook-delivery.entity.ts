@@ -0,0 +1,83 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  JoinColumn,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from 'typeorm';
+import { WebhookSubscriptionEntity } from './webhook-subscription.entity';
+import { DocumentEventType } from '../../../../domain/enums/document-event-type.enum';
+import { WebhookDeliveryStatus } from '../../../../domain/enums/webhook-delivery-status.enum';
+import { EntityRelationalHelper } from '../../../../../utils/relational-entity-helper';
+
+// No foreign key to documents: deliveries outlive the documents they announce
+@Entity({ name: 'document_webhook_deliveries' })
+@Index('IDX_document_webhook_deliveries_status_next_attempt_at', [
+  'status',
+  'nextAttemptAt',
+])
+@Index('IDX_document_webhook_deliveries_subscription_id_created_at', [
+  'subscriptionId',
+  'createdAt',
+])
+export class WebhookDeliveryEntity extends EntityRelationalHelper {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @ManyToOne(() => WebhookSubscriptionEntity, {
+    nullable: false,
+    onDelete: 'CASCADE',
+  })
+  @JoinColumn({ name: 'subscription_id' })
+  subscription: WebhookSubscriptionEntity;
+
+  @Column({ name: 'subscription_id' })
+  subscriptionId: string;
+
+  @Column({ name: 'event_id', type: 'uuid' })
+  eventId: string;
+
+  @Column({ name: 'event_type', type: 'varchar', length: 50 })
+  eventType: DocumentEventType;
+
+  @Column({ name: 'document_id', type: 'uuid' })
+  documentId: string;
+
+  // WebhookEventPayload (IDs only, no PHI)
+  @Column({ type: 'jsonb' })
+  payload: any;
+
+  @Column({ name: 'redelivery_of', type: 'uuid', nullable: true })
+  redeliveryOf?: string | null;
+
+  @Column({ type: 'varchar', length: 20 })
+  status: WebhookDeliveryStatus;
+
+  @Column({ type: 'integer', default: 0 })
+  attempts: number;
+
+  @Column({ name: 'next_attempt_at', type: 'timestamp', nullable: true })
+  nextAttemptAt?: Date | null;
+
+  // WebhookDeliveryAttempt[]
+  @Column({ name: 'attempt_log', type: 'jsonb', default: () => "'[]'" })
+  attemptLog: any[];
+
+  @Column({ name: 'last_response_status', type: 'integer', nullable: true })
+  lastResponseStatus?: number | null;
+
+  @Column({ name: 'last_error', type: 'text', nullable: true })
+  lastError?: string | null;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ name: 'updated_at' })
+  updatedAt: Date;
+
+  @Column({ name: 'delivered_at', type: 'timestamp', nullable: true })
+  deliveredAt?: Date | null;
+}
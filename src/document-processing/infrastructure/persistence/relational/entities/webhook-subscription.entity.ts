@@ -0,0 +1,40 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+import { DocumentEventType } from '../../../../domain/enums/document-event-type.enum';
+import { EntityRelationalHelper } from '../../../../../utils/relational-entity-helper';
+
+@Entity({ name: 'document_webhook_subscriptions' })
+export class WebhookSubscriptionEntity extends EntityRelationalHelper {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'varchar', length: 100 })
+  name: string;
+
+  @Column({ type: 'varchar', length: 2048 })
+  url: string;
+
+  @Column({ type: 'jsonb', default: () => "'[]'" })
+  events: DocumentEventType[];
+
+  @Column({ type: 'boolean', default: true })
+  active: boolean;
+
+  // AES-256-GCM encrypted signing secret
+  @Column({ name: 'encrypted_secret', type: 'text' })
+  encryptedSecret: string;
+
+  @Column({ name: 'created_by_user_id', type: 'integer', nullable: true })
+  createdByUserId?: number | null;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ name: 'updated_at' })
+  updatedAt: Date;
+}
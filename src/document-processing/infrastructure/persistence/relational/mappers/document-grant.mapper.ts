@@ -0,0 +1,35 @@
+import { DocumentGrant } from '../../../../domain/entities/document-grant.entity';
+import { DocumentGrantEntity } from '../entities/document-grant.entity';
+
+export class DocumentGrantMapper {
+  static toDomain(entity: DocumentGrantEntity): DocumentGrant {
+    const domain = new DocumentGrant();
+    domain.id = entity.id;
+    domain.documentId = entity.documentId;
+    domain.grantedByUserId = entity.grantedByUserId;
+    domain.granteeUserId = entity.granteeUserId ?? undefined;
+    domain.granteeEmail = entity.granteeEmail ?? undefined;
+    domain.scopes = entity.scopes;
+    domain.expiresAt = entity.expiresAt ?? undefined;
+    domain.revokedAt = entity.revokedAt ?? undefined;
+    domain.lastUsedAt = entity.lastUsedAt ?? undefined;
+    domain.createdAt = entity.createdAt;
+    domain.updatedAt = entity.updatedAt;
+    return domain;
+  }
+
+  static toPersistence(domain: DocumentGrant): DocumentGrantEntity {
+    const entity = new DocumentGrantEntity();
+    if (domain.id) entity.id = domain.id;
+    entity.documentId = domain.documentId;
+    entity.grantedByUserId = Number(domain.grantedByUserId);
+    entity.granteeUserId =
+      domain.granteeUserId !== undefined ? Number(domain.granteeUserId) : null;
+    entity.granteeEmail = domain.granteeEmail ?? null;
+    entity.scopes = domain.scopes;
+    entity.expiresAt = domain.expiresAt ?? null;
+    entity.revokedAt = domain.revokedAt ?? null;
+    entity.lastUsedAt = domain.lastUsedAt ?? null;
+    return entity;
+  }
+}
@@ -0,0 +1,87 @@
+import { DocumentProcessingRun } from '../../../../domain/entities/document-processing-run.entity';
+import { DocumentProcessingRunEntity } from '../entities/document-processing-run.entity';
+
+export class DocumentProcessingRunMapper {
+  static toDomain(entity: DocumentProcessingRunEntity): DocumentProcessingRun {
+    const domain = new DocumentProcessingRun();
+    domain.id = entity.id;
+    domain.documentId = entity.documentId;
+    domain.pipelineVersion = entity.pipelineVersion;
+    domain.trigger = entity.trigger;
+    domain.requestedByUserId = entity.requestedByUserId ?? undefined;
+    domain.status = entity.status;
+    domain.promoteOnSuccess = entity.promoteOnSuccess;
+    domain.attempts = entity.attempts;
+    domain.processingMethod = entity.processingMethod ?? undefined;
+    domain.documentType = entity.documentType ?? undefined;
+    domain.predictedDocumentType = entity.predictedDocumentType ?? undefined;
+    domain.classificationConfidence =
+      entity.classificationConfidence !== null &&
+      entity.classificationConfidence !== undefined
+        ? parseFloat(entity.classificationConfidence.toString())
+        : undefined;
+    domain.processedFileUri = entity.processedFileUri ?? undefined;
+    domain.ocrJsonOutput = entity.ocrJsonOutput ?? undefined;
+    domain.extractedText = entity.extractedText ?? undefined;
+    domain.extractedFields = entity.extractedFields ?? undefined;
+    domain.labResults = entity.labResults ?? undefined;
+    domain.medications = entity.medications ?? undefined;
+    domain.immunizations = entity.immunizations ?? undefined;
+    domain.confidence =
+      entity.confidence !== null && entity.confidence !== undefined
+        ? parseFloat(entity.confidence.toString())
+        : undefined;
+    domain.pageCount = entity.pageCount ?? undefined;
+    domain.stages = (entity.stages ?? []).map((stage) => ({
+      ...stage,
+      startedAt: new Date(stage.startedAt),
+    }));
+    domain.durationMs = entity.durationMs ?? undefined;
+    domain.pagesBilled = entity.pagesBilled ?? 0;
+    domain.errorMessage = entity.errorMessage ?? undefined;
+    domain.createdAt = entity.createdAt;
+    domain.updatedAt = entity.updatedAt;
+    domain.startedAt = entity.startedAt ?? undefined;
+    domain.completedAt = entity.completedAt ?? undefined;
+    domain.promotedAt = entity.promotedAt ?? undefined;
+    return domain;
+  }
+
+  static toPersistence(
+    domain: DocumentProcessingRun,
+  ): DocumentProcessingRunEntity {
+    const entity = new DocumentProcessingRunEntity();
+    if (domain.id) entity.id = domain.id;
+    entity.documentId = domain.documentId;
+    entity.pipelineVersion = domain.pipelineVersion;
+    entity.trigger = domain.trigger;
+    entity.requestedByUserId =
+      domain.requestedByUserId !== undefined
+        ? Number(domain.requestedByUserId)
+        : null;
+    entity.status = domain.status;
+    entity.promoteOnSuccess = domain.promoteOnSuccess;
+    entity.attempts = domain.attempts || 0;
+    entity.processingMethod = domain.processingMethod ?? null;
+    entity.documentType = domain.documentType ?? null;
+    entity.predictedDocumentType = domain.predictedDocumentType ?? null;
+    entity.classificationConfidence = domain.classificationConfidence ?? null;
+    entity.processedFileUri = domain.processedFileUri ?? null;
+    entity.ocrJsonOutput = domain.ocrJsonOutput ?? null;
+    entity.extractedText = domain.extractedText ?? null;
+    entity.extractedFields = domain.extractedFields ?? null;
+    entity.labResults = domain.labResults ?? null;
+    entity.medications = domain.medications ?? null;
+    entity.immunizations = domain.immunizations ?? null;
+    entity.confidence = domain.confidence ?? null;
+    entity.pageCount = domain.pageCount ?? null;
+    entity.stages = domain.stages ?? [];
+    entity.durationMs = domain.durationMs ?? null;
+    entity.pagesBilled = domain.pagesBilled ?? 0;
+    entity.errorMessage = domain.errorMessage ?? null;
+    entity.startedAt = domain.startedAt ?? null;
+    entity.completedAt = domain.completedAt ?? null;
+    entity.promotedAt = domain.promotedAt ?? null;
+    return entity;
+  }
+}
@@ -7,8 +7,17 @@ export class DocumentMapper {
     domain.id = entity.id;
     domain.userId = entity.userId || entity.user?.id; // Use direct userId or relation
     domain.documentType = entity.documentType;
+    domain.declaredDocumentType = entity.declaredDocumentType ?? undefined;
+    domain.predictedDocumentType = entity.predictedDocumentType ?? undefined;
+    domain.classificationConfidence =
+      entity.classificationConfidence !== null &&
+      entity.classificationConfidence !== undefined
+        ? parseFloat(entity.classificationConfidence.toString())
+        : undefined;
     domain.status = entity.status;
     domain.rawFileUri = entity.rawFileUri;
+    domain.backFileUri = entity.backFileUri;
+    domain.backMimeType = entity.backMimeType;
     domain.processedFileUri = entity.processedFileUri;
     domain.ocrJsonOutput = entity.ocrJsonOutput;
     domain.extractedText = entity.extractedText;
@@ -18,6 +27,8 @@ export class DocumentMapper {
     domain.fileName = entity.fileName;
     domain.fileSize = entity.fileSize;
     domain.mimeType = entity.mimeType;
+    domain.contentHash = entity.contentHash;
+    domain.duplicateOf = entity.duplicateOf;
     domain.pageCount = entity.pageCount;
     domain.description = entity.description;
     domain.errorMessage = entity.errorMessage;
@@ -30,6 +41,8 @@ export class DocumentMapper {
     domain.deletedAt = entity.deletedAt;
     domain.scheduledDeletionAt = entity.scheduledDeletionAt;
     domain.processingMethod = entity.processingMethod;
+    domain.currentRunId = entity.currentRunId;
+    domain.pipelineVersion = entity.pipelineVersion;
     return domain;
   }
 
@@ -44,8 +57,13 @@ export class DocumentMapper {
         : domain.userId;
 
     entity.documentType = domain.documentType;
+    entity.declaredDocumentType = domain.declaredDocumentType;
+    entity.predictedDocumentType = domain.predictedDocumentType;
+    entity.classificationConfidence = domain.classificationConfidence;
     entity.status = domain.status;
     entity.rawFileUri = domain.rawFileUri;
+    entity.backFileUri = domain.backFileUri;
+    entity.backMimeType = domain.backMimeType;
     entity.processedFileUri = domain.processedFileUri;
     entity.ocrJsonOutput = domain.ocrJsonOutput;
     entity.extractedText = domain.extractedText;
@@ -53,6 +71,8 @@ export class DocumentMapper {
     entity.fileName = domain.fileName;
     entity.fileSize = domain.fileSize;
     entity.mimeType = domain.mimeType;
+    entity.contentHash = domain.contentHash;
+    entity.duplicateOf = domain.duplicateOf;
     entity.pageCount = domain.pageCount;
     entity.description = domain.description;
     entity.errorMessage = domain.errorMessage;
@@ -63,6 +83,8 @@ export class DocumentMapper {
     entity.deletedAt = domain.deletedAt;
     entity.scheduledDeletionAt = domain.scheduledDeletionAt;
     entity.processingMethod = domain.processingMethod;
+    entity.currentRunId = domain.currentRunId;
+    entity.pipelineVersion = domain.pipelineVersion;
     return entity;
   }
 }
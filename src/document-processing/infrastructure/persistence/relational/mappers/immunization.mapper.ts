@@ -0,0 +1,39 @@
+import { Immunization } from '../../../../domain/entities/immunization.entity';
+import { ImmunizationEntity } from '../entities/immunization.entity';
+
+export class ImmunizationMapper {
+  static toDomain(entity: ImmunizationEntity): Immunization {
+    const domain = new Immunization();
+    domain.id = entity.id;
+    domain.documentId = entity.documentId;
+    domain.rowIndex = entity.rowIndex;
+    domain.cvxCode = entity.cvxCode;
+    domain.vaccineName = entity.vaccineName;
+    domain.printedName = entity.printedName;
+    domain.administeredDate = entity.administeredDate ?? undefined;
+    domain.doseNumber = entity.doseNumber ?? undefined;
+    domain.lotNumber = entity.lotNumber ?? undefined;
+    domain.manufacturer = entity.manufacturer ?? undefined;
+    domain.administeredAt = entity.administeredAt ?? undefined;
+    domain.confidence = parseFloat(entity.confidence.toString());
+    domain.createdAt = entity.createdAt;
+    return domain;
+  }
+
+  static toPersistence(domain: Immunization): ImmunizationEntity {
+    const entity = new ImmunizationEntity();
+    if (domain.id) entity.id = domain.id;
+    entity.documentId = domain.documentId;
+    entity.rowIndex = domain.rowIndex;
+    entity.cvxCode = domain.cvxCode;
+    entity.vaccineName = domain.vaccineName;
+    entity.printedName = domain.printedName;
+    entity.administeredDate = domain.administeredDate ?? null;
+    entity.doseNumber = domain.doseNumber ?? null;
+    entity.lotNumber = domain.lotNumber ?? null;
+    entity.manufacturer = domain.manufacturer ?? null;
+    entity.administeredAt = domain.administeredAt ?? null;
+    entity.confidence = domain.confidence;
+    return entity;
+  }
+}
@@ -0,0 +1,43 @@
+import { LabResult } from '../../../../domain/entities/lab-result.entity';
+import { LabResultEntity } from '../entities/lab-result.entity';
+
+export class LabResultMapper {
+  static toDomain(entity: LabResultEntity): LabResult {
+    const domain = new LabResult();
+    domain.id = entity.id;
+    domain.documentId = entity.documentId;
+    domain.rowIndex = entity.rowIndex;
+    domain.pageIndex = entity.pageIndex;
+    domain.analyte = entity.analyte;
+    domain.value = entity.value;
+    domain.numericValue = entity.numericValue ?? undefined;
+    domain.unit = entity.unit ?? undefined;
+    domain.referenceLow = entity.referenceLow ?? undefined;
+    domain.referenceHigh = entity.referenceHigh ?? undefined;
+    domain.referenceRange = entity.referenceRange ?? undefined;
+    domain.flag = entity.flag ?? undefined;
+    domain.specimen = entity.specimen ?? undefined;
+    domain.collectionDate = entity.collectionDate ?? undefined;
+    domain.createdAt = entity.createdAt;
+    return domain;
+  }
+
+  static toPersistence(domain: LabResult): LabResultEntity {
+    const entity = new LabResultEntity();
+    if (domain.id) entity.id = domain.id;
+    entity.documentId = domain.documentId;
+    entity.rowIndex = domain.rowIndex;
+    entity.pageIndex = domain.pageIndex;
+    entity.analyte = domain.analyte;
+    entity.value = domain.value;
+    entity.numericValue = domain.numericValue ?? null;
+    entity.unit = domain.unit ?? null;
+    entity.referenceLow = domain.referenceLow ?? null;
+    entity.referenceHigh = domain.referenceHigh ?? null;
+    entity.referenceRange = domain.referenceRange ?? null;
+    entity.flag = domain.flag ?? null;
+    entity.specimen = domain.specimen ?? null;
+    entity.collectionDate = domain.collectionDate ?? null;
+    return entity;
+  }
+}
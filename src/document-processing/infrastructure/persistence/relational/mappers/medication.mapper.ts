@@ -0,0 +1,51 @@
+import { Medication } from '../../../../domain/entities/medication.entity';
+import { MedicationEntity } from '../entities/medication.entity';
+
+export class MedicationMapper {
+  static toDomain(entity: MedicationEntity): Medication {
+    const domain = new Medication();
+    domain.id = entity.id;
+    domain.documentId = entity.documentId;
+    domain.rowIndex = entity.rowIndex;
+    domain.drugName = entity.drugName;
+    domain.printedName = entity.printedName;
+    domain.strength = entity.strength ?? undefined;
+    domain.dosageForm = entity.dosageForm ?? undefined;
+    domain.sig = entity.sig ?? undefined;
+    domain.dose = entity.dose ?? undefined;
+    domain.route = entity.route ?? undefined;
+    domain.frequency = entity.frequency ?? undefined;
+    domain.timesPerDay = entity.timesPerDay ?? undefined;
+    domain.intervalHours = entity.intervalHours ?? undefined;
+    domain.asNeeded = entity.asNeeded;
+    domain.asNeededReason = entity.asNeededReason ?? undefined;
+    domain.quantity = entity.quantity ?? undefined;
+    domain.refills = entity.refills ?? undefined;
+    domain.confidence = parseFloat(entity.confidence.toString());
+    domain.createdAt = entity.createdAt;
+    return domain;
+  }
+
+  static toPersistence(domain: Medication): MedicationEntity {
+    const entity = new MedicationEntity();
+    if (domain.id) entity.id = domain.id;
+    entity.documentId = domain.documentId;
+    entity.rowIndex = domain.rowIndex;
+    entity.drugName = domain.drugName;
+    entity.printedName = domain.printedName;
+    entity.strength = domain.strength ?? null;
+    entity.dosageForm = domain.dosageForm ?? null;
+    entity.sig = domain.sig ?? null;
+    entity.dose = domain.dose ?? null;
+    entity.route = domain.route ?? null;
+    entity.frequency = domain.frequency ?? null;
+    entity.timesPerDay = domain.timesPerDay ?? null;
+    entity.intervalHours = domain.intervalHours ?? null;
+    entity.asNeeded = domain.asNeeded;
+    entity.asNeededReason = domain.asNeededReason ?? null;
+    entity.quantity = domain.quantity ?? null;
+    entity.refills = domain.refills ?? null;
+    entity.confidence = domain.confidence;
+    return entity;
+  }
+}
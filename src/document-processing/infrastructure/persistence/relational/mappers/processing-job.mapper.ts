@@ -0,0 +1,34 @@
+import { ProcessingJob } from '../../../../domain/entities/processing-job.entity';
+import { ProcessingJobEntity } from '../entities/processing-job.entity';
+
+export class ProcessingJobMapper {
+  static toDomain(entity: ProcessingJobEntity): ProcessingJob {
+    const domain = new ProcessingJob();
+    domain.id = entity.id;
+    domain.documentId = entity.documentId;
+    domain.status = entity.status;
+    domain.attempts = entity.attempts;
+    domain.availableAt = entity.availableAt;
+    domain.leasedBy = entity.leasedBy ?? undefined;
+    domain.leaseExpiresAt = entity.leaseExpiresAt ?? undefined;
+    domain.lastError = entity.lastError ?? undefined;
+    domain.createdAt = entity.createdAt;
+    domain.updatedAt = entity.updatedAt;
+    domain.completedAt = entity.completedAt ?? undefined;
+    return domain;
+  }
+
+  static toPersistence(domain: ProcessingJob): ProcessingJobEntity {
+    const entity = new ProcessingJobEntity();
+    if (domain.id) entity.id = domain.id;
+    entity.documentId = domain.documentId;
+    entity.status = domain.status;
+    entity.attempts = domain.attempts || 0;
+    entity.availableAt = domain.availableAt;
+    entity.leasedBy = domain.leasedBy;
+    entity.leaseExpiresAt = domain.leaseExpiresAt;
+    entity.lastError = domain.lastError;
+    entity.completedAt = domain.completedAt;
+    return entity;
+  }
+}
@@ -0,0 +1,40 @@
+import { UploadSession } from '../../../../domain/entities/upload-session.entity';
+import { UploadSessionEntity } from '../entities/upload-session.entity';
+
+export class UploadSessionMapper {
+  static toDomain(entity: UploadSessionEntity): UploadSession {
+    const domain = new UploadSession();
+    domain.id = entity.id;
+    domain.userId = entity.userId;
+    domain.documentType = entity.documentType;
+    domain.fileName = entity.fileName;
+    domain.mimeType = entity.mimeType;
+    domain.fileSize = entity.fileSize;
+    domain.description = entity.description ?? undefined;
+    domain.offset = entity.offset;
+    domain.partNames = entity.partNames ?? [];
+    domain.completedAt = entity.completedAt ?? undefined;
+    domain.documentId = entity.documentId ?? undefined;
+    domain.expiresAt = entity.expiresAt;
+    domain.createdAt = entity.createdAt;
+    domain.updatedAt = entity.updatedAt;
+    return domain;
+  }
+
+  static toPersistence(domain: UploadSession): UploadSessionEntity {
+    const entity = new UploadSessionEntity();
+    if (domain.id) entity.id = domain.id;
+    entity.userId = Number(domain.userId);
+    entity.documentType = domain.documentType;
+    entity.fileName = domain.fileName;
+    entity.mimeType = domain.mimeType;
+    entity.fileSize = domain.fileSize;
+    entity.description = domain.description ?? null;
+    entity.offset = domain.offset;
+    entity.partNames = domain.partNames;
+    entity.completedAt = domain.completedAt ?? null;
+    entity.documentId = domain.documentId ?? null;
+    entity.expiresAt = domain.expiresAt;
+    return entity;
+  }
+}
@@ -0,0 +1,71 @@
+import { QueryDeepPartialEntity } from 'typeorm/query-builder/QueryPartialEntity';
+import { WebhookDelivery } from '../../../../domain/entities/webhook-delivery.entity';
+import { WebhookDeliveryEntity } from '../entities/webhook-delivery.entity';
+
+export class WebhookDeliveryMapper {
+  static toDomain(entity: WebhookDeliveryEntity): WebhookDelivery {
+    const domain = new WebhookDelivery();
+    domain.id = entity.id;
+    domain.subscriptionId = entity.subscriptionId;
+    domain.eventId = entity.eventId;
+    domain.eventType = entity.eventType;
+    domain.documentId = entity.documentId;
+    domain.payload = entity.payload;
+    domain.redeliveryOf = entity.redeliveryOf ?? undefined;
+    domain.status = entity.status;
+    domain.attempts = entity.attempts;
+    domain.nextAttemptAt = entity.nextAttemptAt ?? undefined;
+    domain.attemptLog = (entity.attemptLog ?? []).map((attempt) => ({
+      ...attempt,
+      attemptedAt: new Date(attempt.attemptedAt),
+    }));
+    domain.lastResponseStatus = entity.lastResponseStatus ?? undefined;
+    domain.lastError = entity.lastError ?? undefined;
+    domain.createdAt = entity.createdAt;
+    domain.updatedAt = entity.updatedAt;
+    domain.deliveredAt = entity.deliveredAt ?? undefined;
+    return domain;
+  }
+
+  static toPersistence(domain: WebhookDelivery): WebhookDeliveryEntity {
+    const entity = new WebhookDeliveryEntity();
+    if (domain.id) entity.id = domain.id;
+    entity.subscriptionId = domain.subscriptionId;
+    entity.eventId = domain.eventId;
+    entity.eventType = domain.eventType;
+    entity.documentId = domain.documentId;
+    entity.payload = domain.payload;
+    entity.redeliveryOf = domain.redeliveryOf ?? null;
+    entity.status = domain.status;
+    entity.attempts = domain.attempts || 0;
+    entity.nextAttemptAt = domain.nextAttemptAt ?? null;
+    entity.attemptLog = domain.attemptLog ?? [];
+    entity.lastResponseStatus = domain.lastResponseStatus ?? null;
+    entity.lastError = domain.lastError ?? null;
+    entity.deliveredAt = domain.deliveredAt ?? null;
+    return entity;
+  }
+
+  // Fields present in the partial (undefined clears a nullable column)
+  static toPersistencePartial(
+    partial: Partial<WebhookDelivery>,
+  ): QueryDeepPartialEntity<WebhookDeliveryEntity> {
+    const fields: Partial<WebhookDeliveryEntity> = {};
+    if ('status' in partial) fields.status = partial.status;
+    if ('attempts' in partial) fields.attempts = partial.attempts;
+    if ('nextAttemptAt' in partial) {
+      fields.nextAttemptAt = partial.nextAttemptAt ?? null;
+    }
+    if ('attemptLog' in partial) {
+      fields.attemptLog = partial.attemptLog ?? [];
+    }
+    if ('lastResponseStatus' in partial) {
+      fields.lastResponseStatus = partial.lastResponseStatus ?? null;
+    }
+    if ('lastError' in partial) fields.lastError = partial.lastError ?? null;
+    if ('deliveredAt' in partial) {
+      fields.deliveredAt = partial.deliveredAt ?? null;
+    }
+    return fields;
+  }
+}
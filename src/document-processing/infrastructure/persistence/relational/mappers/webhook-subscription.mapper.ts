@@ -0,0 +1,33 @@
+import { WebhookSubscription } from '../../../../domain/entities/webhook-subscription.entity';
+import { WebhookSubscriptionEntity } from '../entities/webhook-subscription.entity';
+
+export class WebhookSubscriptionMapper {
+  static toDomain(entity: WebhookSubscriptionEntity): WebhookSubscription {
+    const domain = new WebhookSubscription();
+    domain.id = entity.id;
+    domain.name = entity.name;
+    domain.url = entity.url;
+    domain.events = entity.events ?? [];
+    domain.active = entity.active;
+    domain.encryptedSecret = entity.encryptedSecret;
+    domain.createdByUserId = entity.createdByUserId ?? undefined;
+    domain.createdAt = entity.createdAt;
+    domain.updatedAt = entity.updatedAt;
+    return domain;
+  }
+
+  static toPersistence(domain: WebhookSubscription): WebhookSubscriptionEntity {
+    const entity = new WebhookSubscriptionEntity();
+    if (domain.id) entity.id = domain.id;
+    entity.name = domain.name;
+    entity.url = domain.url;
+    entity.events = domain.events ?? [];
+    entity.active = domain.active;
+    entity.encryptedSecret = domain.encryptedSecret;
+    entity.createdByUserId =
+      domain.createdByUserId !== undefined
+        ? Number(domain.createdByUserId)
+        : null;
+    return entity;
+  }
+}
@@ -0,0 +1,96 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { DocumentEntity } from './entities/document.entity';
+import { ExtractedFieldEntity } from './entities/extracted-field.entity';
+import { ProcessingJobEntity } from './entities/processing-job.entity';
+import { DocumentGrantEntity } from './entities/document-grant.entity';
+import { UploadSessionEntity } from './entities/upload-session.entity';
+import { DocumentProcessingRunEntity } from './entities/document-processing-run.entity';
+import { WebhookSubscriptionEntity } from './entities/webhook-subscription.entity';
+import { WebhookDeliveryEntity } from './entities/webhook-delivery.entity';
+import { LabResultEntity } from './entities/lab-result.entity';
+import { MedicationEntity } from './entities/medication.entity';
+import { ImmunizationEntity } from './entities/immunization.entity';
+import { DocumentRepositoryAdapter } from './repositories/document.repository';
+import { ProcessingQueueAdapter } from './repositories/processing-queue.repository';
+import { DocumentGrantRepositoryAdapter } from './repositories/document-grant.repository';
+import { UploadSessionRepositoryAdapter } from './repositories/upload-session.repository';
+import { DocumentProcessingRunRepositoryAdapter } from './repositories/document-processing-run.repository';
+import { WebhookSubscriptionRepositoryAdapter } from './repositories/webhook-subscription.repository';
+import { WebhookDeliveryRepositoryAdapter } from './repositories/webhook-delivery.repository';
+import { LabResultRepositoryAdapter } from './repositories/lab-result.repository';
+import { MedicationRepositoryAdapter } from './repositories/medication.repository';
+import { ImmunizationRepositoryAdapter } from './repositories/immunization.repository';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([
+      DocumentEntity,
+      ExtractedFieldEntity,
+      ProcessingJobEntity,
+      DocumentGrantEntity,
+      UploadSessionEntity,
+      DocumentProcessingRunEntity,
+      WebhookSubscriptionEntity,
+      WebhookDeliveryEntity,
+      LabResultEntity,
+      MedicationEntity,
+      ImmunizationEntity,
+    ]),
+  ],
+  providers: [
+    {
+      provide: 'DocumentRepositoryPort',
+      useClass: DocumentRepositoryAdapter,
+    },
+    {
+      provide: 'ProcessingQueuePort',
+      useClass: ProcessingQueueAdapter,
+    },
+    {
+      provide: 'DocumentGrantRepositoryPort',
+      useClass: DocumentGrantRepositoryAdapter,
+    },
+    {
+      provide: 'UploadSessionRepositoryPort',
+      useClass: UploadSessionRepositoryAdapter,
+    },
+    {
+      provide: 'DocumentProcessingRunRepositoryPort',
+      useClass: DocumentProcessingRunRepositoryAdapter,
+    },
+    {
+      provide: 'WebhookSubscriptionRepositoryPort',
+      useClass: WebhookSubscriptionRepositoryAdapter,
+    },
+    {
+      provide: 'WebhookDeliveryRepositoryPort',
+      useClass: WebhookDeliveryRepositoryAdapter,
+    },
+    {
+      provide: 'LabResultRepositoryPort',
+      useClass: LabResultRepositoryAdapter,
+    },
+    {
+      provide: 'MedicationRepositoryPort',
+      useClass: MedicationRepositoryAdapter,
+    },
+    {
+      provide: 'ImmunizationRepositoryPort',
+      useClass: ImmunizationRepositoryAdapter,
+    },
+  ],
+  exports: [
+    'DocumentRepositoryPort',
+    'ProcessingQueuePort',
+    'DocumentGrantRepositoryPort',
+    'UploadSessionRepositoryPort',
+    'DocumentProcessingRunRepositoryPort',
+    'WebhookSubscriptionRepositoryPort',
+    'WebhookDeliveryRepositoryPort',
+    'LabResultRepositoryPort',
+    'MedicationRepositoryPort',
+    'ImmunizationRepositoryPort',
+  ],
+})
+export class RelationalDocumentProcessingPersistenceModule {}
@@ -0,0 +1,82 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Brackets, Repository } from 'typeorm';
+import { DocumentGrantRepositoryPort } from '../../../../domain/ports/document-grant.repository.port';
+import { DocumentGrant } from '../../../../domain/entities/document-grant.entity';
+import { DocumentGrantEntity } from '../entities/document-grant.entity';
+import { DocumentGrantMapper } from '../mappers/document-grant.mapper';
+import { NullableType } from '../../../../../utils/types/nullable.type';
+import { transactional } from '../../../../../database/relational-transaction';
+
+@Injectable()
+export class DocumentGrantRepositoryAdapter
+  implements DocumentGrantRepositoryPort
+{
+  constructor(
+    @InjectRepository(DocumentGrantEntity)
+    private readonly grantRepository: Repository<DocumentGrantEntity>,
+  ) {}
+
+  async create(grant: DocumentGrant): Promise<DocumentGrant> {
+    const saved = await transactional(this.grantRepository).save(
+      DocumentGrantMapper.toPersistence(grant),
+    );
+    return DocumentGrantMapper.toDomain(saved);
+  }
+
+  async update(id: string, partial: Partial<DocumentGrant>): Promise<void> {
+    const fields: any = { ...partial };
+    if (partial.granteeUserId !== undefined) {
+      fields.granteeUserId = Number(partial.granteeUserId);
+    }
+    await transactional(this.grantRepository).update(id, fields);
+  }
+
+  async findById(id: string): Promise<NullableType<DocumentGrant>> {
+    const entity = await this.grantRepository.findOne({ where: { id } });
+    return entity ? DocumentGrantMapper.toDomain(entity) : null;
+  }
+
+  async findByDocumentId(documentId: string): Promise<DocumentGrant[]> {
+    const entities = await this.grantRepository.find({
+      where: { documentId },
+      order: { createdAt: 'DESC' },
+    });
+    return entities.map((entity) => DocumentGrantMapper.toDomain(entity));
+  }
+
+  async findActiveForGrantee(
+    documentId: string,
+    grantee: { userId: string | number; email?: string | null },
+  ): Promise<DocumentGrant[]> {
+    const query = this.grantRepository
+      .createQueryBuilder('documentGrant')
+      .where('documentGrant.documentId = :documentId', { documentId })
+      .andWhere('documentGrant.revokedAt IS NULL')
+      .andWhere(
+        new Brackets((qb) => {
+          qb.where('documentGrant.expiresAt IS NULL').orWhere(
+            'documentGrant.expiresAt > :now',
+            { now: new Date() },
+          );
+        }),
+      )
+      .andWhere(
+        new Brackets((qb) => {
+          qb.where('documentGrant.granteeUserId = :userId', {
+            userId: Number(grantee.userId),
+          });
+          if (grantee.email) {
+            qb.orWhere(
+              'documentGrant.granteeUserId IS NULL AND documentGrant.granteeEmail = :email',
+              { email: grantee.email },
+            );
+          }
+        }),
+      )
+      .orderBy('documentGrant.createdAt', 'ASC');
+
+    const entities = await query.getMany();
+    return entities.map((entity) => DocumentGrantMapper.toDomain(entity));
+  }
+}
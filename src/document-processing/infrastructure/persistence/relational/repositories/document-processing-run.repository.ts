@@ -0,0 +1,78 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, Repository } from 'typeorm';
+import { DocumentProcessingRunRepositoryPort } from '../../../../domain/ports/document-processing-run.repository.port';
+import { DocumentProcessingRun } from '../../../../domain/entities/document-processing-run.entity';
+import { ProcessingRunStatus } from '../../../../domain/enums/processing-run-status.enum';
+import { DocumentProcessingRunEntity } from '../entities/document-processing-run.entity';
+import { DocumentProcessingRunMapper } from '../mappers/document-processing-run.mapper';
+import { NullableType } from '../../../../../utils/types/nullable.type';
+import { transactional } from '../../../../../database/relational-transaction';
+
+const OPEN_STATUSES = [ProcessingRunStatus.QUEUED, ProcessingRunStatus.RUNNING];
+
+@Injectable()
+export class DocumentProcessingRunRepositoryAdapter
+  implements DocumentProcessingRunRepositoryPort
+{
+  constructor(
+    @InjectRepository(DocumentProcessingRunEntity)
+    private readonly runRepository: Repository<DocumentProcessingRunEntity>,
+  ) {}
+
+  async create(run: DocumentProcessingRun): Promise<DocumentProcessingRun> {
+    const saved = await transactional(this.runRepository).save(
+      DocumentProcessingRunMapper.toPersistence(run),
+    );
+    return DocumentProcessingRunMapper.toDomain(saved);
+  }
+
+  async update(
+    id: string,
+    partial: Partial<DocumentProcessingRun>,
+  ): Promise<void> {
+    const fields: any = { ...partial };
+    if (partial.requestedByUserId !== undefined) {
+      fields.requestedByUserId = Number(partial.requestedByUserId);
+    }
+    await transactional(this.runRepository).update(id, fields);
+  }
+
+  async findById(id: string): Promise<NullableType<DocumentProcessingRun>> {
+    const entity = await this.runRepository.findOne({ where: { id } });
+    return entity ? DocumentProcessingRunMapper.toDomain(entity) : null;
+  }
+
+  async findByDocumentId(documentId: string): Promise<DocumentProcessingRun[]> {
+    const entities = await this.runRepository.find({
+      where: { documentId },
+      order: { createdAt: 'DESC' },
+    });
+    return entities.map((entity) =>
+      DocumentProcessingRunMapper.toDomain(entity),
+    );
+  }
+
+  async findOpenByDocumentId(
+    documentId: string,
+  ): Promise<NullableType<DocumentProcessingRun>> {
+    const entity = await this.runRepository.findOne({
+      where: { documentId, status: In(OPEN_STATUSES) },
+    });
+    return entity ? DocumentProcessingRunMapper.toDomain(entity) : null;
+  }
+
+  async findOpen(): Promise<DocumentProcessingRun[]> {
+    const entities = await this.runRepository.find({
+      where: { status: In(OPEN_STATUSES) },
+      order: { createdAt: 'ASC' },
+    });
+    return entities.map((entity) =>
+      DocumentProcessingRunMapper.toDomain(entity),
+    );
+  }
+
+  async deleteByDocumentId(documentId: string): Promise<void> {
+    await this.runRepository.delete({ documentId });
+  }
+}
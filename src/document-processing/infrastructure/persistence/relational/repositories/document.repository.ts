@@ -1,7 +1,12 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository, LessThan, In, IsNull } from 'typeorm';
-import { DocumentRepositoryPort } from '../../../../domain/ports/document.repository.port';
+import { Repository, LessThan, In, IsNull, Brackets } from 'typeorm';
+import {
+  DocumentReprocessFilter,
+  DocumentRepositoryPort,
+  DocumentSearchHit,
+  DocumentSearchQuery,
+} from '../../../../domain/ports/document.repository.port';
 import { Document } from '../../../../domain/entities/document.entity';
 import { ExtractedField } from '../../../../domain/entities/extracted-field.entity';
 import { DocumentEntity } from '../entities/document.entity';
@@ -10,6 +15,27 @@ import { DocumentMapper } from '../mappers/document.mapper';
 import { ExtractedFieldMapper } from '../mappers/extracted-field.mapper';
 import { DocumentStatus } from '../../../../domain/enums/document-status.enum';
 import { NullableType } from '../../../../../utils/types/nullable.type';
+import {
+  SNIPPET_FRAGMENT_DELIMITER,
+  SNIPPET_FRAGMENT_WORDS,
+  SNIPPET_MATCH_END,
+  SNIPPET_MATCH_START,
+  SNIPPET_MAX_FRAGMENTS,
+  toHtmlSnippets,
+} from '../../../../utils/search-snippets';
+import { transactional } from '../../../../../database/relational-transaction';
+
+// Text search configuration (stemming, stop words) of search_vector
+const SEARCH_CONFIG = 'english';
+const SEARCH_TS_QUERY = `websearch_to_tsquery('${SEARCH_CONFIG}', :text)`;
+const SEARCH_HEADLINE_OPTIONS = [
+  `StartSel="${SNIPPET_MATCH_START}"`,
+  `StopSel="${SNIPPET_MATCH_END}"`,
+  `FragmentDelimiter="${SNIPPET_FRAGMENT_DELIMITER}"`,
+  `MaxFragments=${SNIPPET_MAX_FRAGMENTS}`,
+  `MaxWords=${SNIPPET_FRAGMENT_WORDS}`,
+  'MinWords=8',
+].join(', ');
 
 @Injectable()
 export class DocumentRepositoryAdapter implements DocumentRepositoryPort {
@@ -24,12 +50,12 @@ export class DocumentRepositoryAdapter implements DocumentRepositoryPort {
 
   async save(document: Document): Promise<Document> {
     const entity = DocumentMapper.toPersistence(document);
-    const saved = await this.documentRepository.save(entity);
+    const saved = await transactional(this.documentRepository).save(entity);
     return DocumentMapper.toDomain(saved);
   }
 
   async update(id: string, partial: Partial<Document>): Promise<void> {
-    await this.documentRepository.update(id, partial as any);
+    await transactional(this.documentRepository).update(id, partial as any);
   }
 
   async updateStatus(
@@ -37,7 +63,10 @@ export class DocumentRepositoryAdapter implements DocumentRepositoryPort {
     status: DocumentStatus,
     fields?: Partial<Document>,
   ): Promise<void> {
-    await this.documentRepository.update(id, { status, ...fields } as any);
+    await transactional(this.documentRepository).update(id, {
+      status,
+      ...fields,
+    } as any);
   }
 
   async findById(id: string): Promise<NullableType<Document>> {
@@ -83,6 +112,162 @@ export class DocumentRepositoryAdapter implements DocumentRepositoryPort {
     };
   }
 
+  async findByStatuses(statuses: DocumentStatus[]): Promise<Document[]> {
+    const entities = await this.documentRepository.find({
+      where: { status: In(statuses) },
+      order: { createdAt: 'ASC' },
+    });
+    return entities.map(DocumentMapper.toDomain);
+  }
+
+  async findByContentHash(
+    userId: string | number,
+    contentHash: string,
+  ): Promise<Document[]> {
+    const numericUserId =
+      typeof userId === 'string' ? parseInt(userId, 10) : userId;
+    const entities = await this.documentRepository.find({
+      where: { userId: numericUserId, contentHash },
+      order: { createdAt: 'ASC' },
+    });
+    return entities.map(DocumentMapper.toDomain);
+  }
+
+  async findDuplicatesOf(documentId: string): Promise<Document[]> {
+    const entities = await this.documentRepository.find({
+      where: { duplicateOf: documentId },
+    });
+    return entities.map(DocumentMapper.toDomain);
+  }
+
+  async findForReprocessing(
+    filter: DocumentReprocessFilter,
+  ): Promise<Document[]> {
+    const query = this.documentRepository
+      .createQueryBuilder('document')
+      .where('document.status IN (:...statuses)', {
+        statuses: filter.statuses,
+      });
+
+    if (filter.documentType) {
+      query.andWhere('document.documentType = :documentType', {
+        documentType: filter.documentType,
+      });
+    }
+    if (filter.userId !== undefined) {
+      query.andWhere('document.userId = :userId', {
+        userId: Number(filter.userId),
+      });
+    }
+    if (filter.processedBefore) {
+      query.andWhere('document.processedAt < :processedBefore', {
+        processedBefore: filter.processedBefore,
+      });
+    }
+    if (filter.pipelineVersionNot) {
+      query.andWhere(
+        new Brackets((qb) => {
+          qb.where('document.pipelineVersion IS NULL').orWhere(
+            'document.pipelineVersion != :pipelineVersion',
+            { pipelineVersion: filter.pipelineVersionNot },
+          );
+        }),
+      );
+    }
+
+    const entities = await query
+      .orderBy('document.createdAt', 'ASC')
+      .take(filter.limit)
+      .getMany();
+    return entities.map(DocumentMapper.toDomain);
+  }
+
+  async search(
+    userId: string | number,
+    query: DocumentSearchQuery,
+  ): Promise<{ data: DocumentSearchHit[]; total: number }> {
+    const matches = this.documentRepository
+      .createQueryBuilder('document')
+      .where('document.userId = :userId', { userId: Number(userId) })
+      .andWhere(`document.searchVector @@ ${SEARCH_TS_QUERY}`, {
+        text: query.text,
+      });
+
+    if (query.documentTypes?.length) {
+      matches.andWhere('document.documentType IN (:...documentTypes)', {
+        documentTypes: query.documentTypes,
+      });
+    }
+    if (query.uploadedFrom) {
+      matches.andWhere('document.uploadedAt >= :uploadedFrom', {
+        uploadedFrom: query.uploadedFrom,
+      });
+    }
+    if (query.uploadedTo) {
+      matches.andWhere('document.uploadedAt <= :uploadedTo', {
+        uploadedTo: query.uploadedTo,
+      });
+    }
+
+    const total = await matches.getCount();
+    const { entities, raw } = await matches
+      .clone()
+      .addSelect(
+        `ts_rank_cd(document.searchVector, ${SEARCH_TS_QUERY})`,
+        'rank',
+      )
+      .orderBy('rank', 'DESC')
+      .addOrderBy('document.uploadedAt', 'DESC')
+      .offset(query.skip)
+      .limit(query.limit)
+      .getRawAndEntities();
+    if (entities.length === 0) return { data: [], total };
+
+    // Headlines are costly: only computed for the returned page
+    const headlines: { id: string; headline: string | null }[] =
+      await this.documentRepository
+        .createQueryBuilder('document')
+        .select('document.id', 'id')
+        .addSelect(
+          `ts_headline('${SEARCH_CONFIG}', document.extractedText, ${SEARCH_TS_QUERY}, :options)`,
+          'headline',
+        )
+        .where('document.id IN (:...ids)', {
+          ids: entities.map((entity) => entity.id),
+          text: query.text,
+          options: SEARCH_HEADLINE_OPTIONS,
+        })
+        .getRawMany();
+
+    return {
+      data: entities.map((entity) => {
+        const headline = headlines.find((row) => row.id === entity.id);
+        return {
+          document: DocumentMapper.toDomain(entity),
+          rank: Number(raw.find((row) => row.document_id === entity.id)?.rank),
+          snippets: toHtmlSnippets(headline?.headline ?? ''),
+        };
+      }),
+      total,
+    };
+  }
+
+  async updateSearchIndex(id: string): Promise<void> {
+    await this.documentRepository
+      .createQueryBuilder()
+      .update(DocumentEntity)
+      .set({
+        searchVector: () => `to_tsvector('${SEARCH_CONFIG}', extracted_text)`,
+      })
+      .where('id = :id', { id })
+      .andWhere('deleted_at IS NULL') // Never re-index a deleted document
+      .execute();
+  }
+
+  async clearSearchIndex(id: string): Promise<void> {
+    await this.documentRepository.update(id, { searchVector: null });
+  }
+
   async findExpired(): Promise<Document[]> {
     const entities = await this.documentRepository.find({
       where: {
@@ -94,7 +279,7 @@ export class DocumentRepositoryAdapter implements DocumentRepositoryPort {
   }
 
   async hardDelete(id: string): Promise<void> {
-    await this.documentRepository.delete(id);
+    await transactional(this.documentRepository).delete(id);
   }
 
   async saveExtractedFields(fields: ExtractedField[]): Promise<void> {
@@ -120,12 +305,18 @@ export class DocumentRepositoryAdapter implements DocumentRepositoryPort {
       })}`,
     );
 
-    const saved = await this.extractedFieldRepository.save(entities);
+    const saved = await transactional(this.extractedFieldRepository).save(
+      entities,
+    );
     this.logger.log(
       `[REPOSITORY] Successfully saved ${saved.length} extracted fields`,
     );
   }
 
+  async deleteExtractedFields(documentId: string): Promise<void> {
+    await transactional(this.extractedFieldRepository).delete({ documentId });
+  }
+
   async findExtractedFieldsByDocumentId(
     documentId: string,
   ): Promise<ExtractedField[]> {
@@ -0,0 +1,56 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { DataSource, In, Repository } from 'typeorm';
+import { ImmunizationRepositoryPort } from '../../../../domain/ports/immunization.repository.port';
+import { Immunization } from '../../../../domain/entities/immunization.entity';
+import { ImmunizationEntity } from '../entities/immunization.entity';
+import { ImmunizationMapper } from '../mappers/immunization.mapper';
+import { runInTransaction } from '../../../../../database/relational-transaction';
+
+@Injectable()
+export class ImmunizationRepositoryAdapter
+  implements ImmunizationRepositoryPort
+{
+  constructor(
+    @InjectRepository(ImmunizationEntity)
+    private readonly immunizationRepository: Repository<ImmunizationEntity>,
+    private readonly dataSource: DataSource,
+  ) {}
+
+  async replaceForDocument(
+    documentId: string,
+    immunizations: Immunization[],
+  ): Promise<void> {
+    // One transaction: readers never see a document without its rows
+    await runInTransaction(this.dataSource, async (manager) => {
+      await manager.delete(ImmunizationEntity, { documentId });
+      if (immunizations.length > 0) {
+        await manager.save(
+          ImmunizationEntity,
+          immunizations.map((immunization) =>
+            ImmunizationMapper.toPersistence({ ...immunization, documentId }),
+          ),
+        );
+      }
+    });
+  }
+
+  async findByDocumentId(documentId: string): Promise<Immunization[]> {
+    const entities = await this.immunizationRepository.find({
+      where: { documentId },
+      order: { rowIndex: 'ASC' },
+    });
+    return entities.map((entity) => ImmunizationMapper.toDomain(entity));
+  }
+
+  async findByDocumentIds(documentIds: string[]): Promise<Immunization[]> {
+    if (documentIds.length === 0) {
+      return [];
+    }
+    const entities = await this.immunizationRepository.find({
+      where: { documentId: In(documentIds) },
+      order: { administeredDate: 'ASC', rowIndex: 'ASC' },
+    });
+    return entities.map((entity) => ImmunizationMapper.toDomain(entity));
+  }
+}
@@ -0,0 +1,43 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { DataSource, Repository } from 'typeorm';
+import { LabResultRepositoryPort } from '../../../../domain/ports/lab-result.repository.port';
+import { LabResult } from '../../../../domain/entities/lab-result.entity';
+import { LabResultEntity } from '../entities/lab-result.entity';
+import { LabResultMapper } from '../mappers/lab-result.mapper';
+import { runInTransaction } from '../../../../../database/relational-transaction';
+
+@Injectable()
+export class LabResultRepositoryAdapter implements LabResultRepositoryPort {
+  constructor(
+    @InjectRepository(LabResultEntity)
+    private readonly labResultRepository: Repository<LabResultEntity>,
+    private readonly dataSource: DataSource,
+  ) {}
+
+  async replaceForDocument(
+    documentId: string,
+    results: LabResult[],
+  ): Promise<void> {
+    // One transaction: readers never see a document without its rows
+    await runInTransaction(this.dataSource, async (manager) => {
+      await manager.delete(LabResultEntity, { documentId });
+      if (results.length > 0) {
+        await manager.save(
+          LabResultEntity,
+          results.map((result) =>
+            LabResultMapper.toPersistence({ ...result, documentId }),
+          ),
+        );
+      }
+    });
+  }
+
+  async findByDocumentId(documentId: string): Promise<LabResult[]> {
+    const entities = await this.labResultRepository.find({
+      where: { documentId },
+      order: { rowIndex: 'ASC' },
+    });
+    return entities.map((entity) => LabResultMapper.toDomain(entity));
+  }
+}
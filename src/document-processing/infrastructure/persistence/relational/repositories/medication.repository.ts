@@ -0,0 +1,43 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { DataSource, Repository } from 'typeorm';
+import { MedicationRepositoryPort } from '../../../../domain/ports/medication.repository.port';
+import { Medication } from '../../../../domain/entities/medication.entity';
+import { MedicationEntity } from '../entities/medication.entity';
+import { MedicationMapper } from '../mappers/medication.mapper';
+import { runInTransaction } from '../../../../../database/relational-transaction';
+
+@Injectable()
+export class MedicationRepositoryAdapter implements MedicationRepositoryPort {
+  constructor(
+    @InjectRepository(MedicationEntity)
+    private readonly medicationRepository: Repository<MedicationEntity>,
+    private readonly dataSource: DataSource,
+  ) {}
+
+  async replaceForDocument(
+    documentId: string,
+    medications: Medication[],
+  ): Promise<void> {
+    // One transaction: readers never see a document without its rows
+    await runInTransaction(this.dataSource, async (manager) => {
+      await manager.delete(MedicationEntity, { documentId });
+      if (medications.length > 0) {
+        await manager.save(
+          MedicationEntity,
+          medications.map((medication) =>
+            MedicationMapper.toPersistence({ ...medication, documentId }),
+          ),
+        );
+      }
+    });
+  }
+
+  async findByDocumentId(documentId: string): Promise<Medication[]> {
+    const entities = await this.medicationRepository.find({
+      where: { documentId },
+      order: { rowIndex: 'ASC' },
+    });
+    return entities.map((entity) => MedicationMapper.toDomain(entity));
+  }
+}
@@ -0,0 +1,192 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { DataSource, In, LessThan, Repository } from 'typeorm';
+import { ProcessingQueuePort } from '../../../../domain/ports/processing-queue.port';
+import { ProcessingJob } from '../../../../domain/entities/processing-job.entity';
+import { ProcessingJobStatus } from '../../../../domain/enums/processing-job-status.enum';
+import { ProcessingJobEntity } from '../entities/processing-job.entity';
+import { ProcessingJobMapper } from '../mappers/processing-job.mapper';
+
+const OPEN_STATUSES = [ProcessingJobStatus.PENDING, ProcessingJobStatus.LEASED];
+
+/**
+ * PostgreSQL-backed processing queue
+ *
+ * Jobs are claimed with SELECT ... FOR UPDATE SKIP LOCKED so that multiple
+ * workers (in one or many instances) never claim the same job.
+ * A partial unique index guarantees at most one open job per document.
+ */
+@Injectable()
+export class ProcessingQueueAdapter implements ProcessingQueuePort {
+  private readonly logger = new Logger(ProcessingQueueAdapter.name);
+
+  constructor(
+    @InjectRepository(ProcessingJobEntity)
+    private readonly jobRepository: Repository<ProcessingJobEntity>,
+    private readonly dataSource: DataSource,
+  ) {}
+
+  async enqueue(
+    documentId: string,
+    availableAt?: Date,
+  ): Promise<ProcessingJob> {
+    const existing = await this.findOpenJob(documentId);
+    if (existing) {
+      return ProcessingJobMapper.toDomain(existing);
+    }
+
+    const entity = this.jobRepository.create({
+      documentId,
+      status: ProcessingJobStatus.PENDING,
+      attempts: 0,
+      availableAt: availableAt ?? new Date(),
+    });
+
+    try {
+      const saved = await this.jobRepository.save(entity);
+      return ProcessingJobMapper.toDomain(saved);
+    } catch (error) {
+      // Lost a race with a concurrent enqueue (unique open job per document)
+      const raced = await this.findOpenJob(documentId);
+      if (raced) {
+        return ProcessingJobMapper.toDomain(raced);
+      }
+      throw error;
+    }
+  }
+
+  async claim(
+    workerId: string,
+    limit: number,
+    leaseSeconds: number,
+  ): Promise<ProcessingJob[]> {
+    if (limit <= 0) {
+      return [];
+    }
+
+    return this.dataSource.transaction(async (manager) => {
+      const now = new Date();
+      const candidates = await manager
+        .getRepository(ProcessingJobEntity)
+        .createQueryBuilder('job')
+        .where('job.status = :status', { status: ProcessingJobStatus.PENDING })
+        .andWhere('job.availableAt <= :now', { now })
+        .orderBy('job.availableAt', 'ASC')
+        .limit(limit)
+        .setLock('pessimistic_write')
+        .setOnLocked('skip_locked')
+        .getMany();
+
+      if (candidates.length === 0) {
+        return [];
+      }
+
+      const leaseExpiresAt = new Date(now.getTime() + leaseSeconds * 1000);
+      await manager
+        .getRepository(ProcessingJobEntity)
+        .createQueryBuilder()
+        .update()
+        .set({
+          status: ProcessingJobStatus.LEASED,
+          leasedBy: workerId,
+          leaseExpiresAt,
+          attempts: () => 'attempts + 1',
+        })
+        .whereInIds(candidates.map((job) => job.id))
+        .execute();
+
+      return candidates.map((job) =>
+        ProcessingJobMapper.toDomain({
+          ...job,
+          status: ProcessingJobStatus.LEASED,
+          leasedBy: workerId,
+          leaseExpiresAt,
+          attempts: job.attempts + 1,
+        } as ProcessingJobEntity),
+      );
+    });
+  }
+
+  async extendLease(
+    jobId: string,
+    workerId: string,
+    leaseSeconds: number,
+  ): Promise<boolean> {
+    const result = await this.jobRepository.update(
+      { id: jobId, leasedBy: workerId, status: ProcessingJobStatus.LEASED },
+      { leaseExpiresAt: new Date(Date.now() + leaseSeconds * 1000) },
+    );
+    return (result.affected ?? 0) > 0;
+  }
+
+  async complete(jobId: string, workerId: string): Promise<void> {
+    const result = await this.jobRepository.update(
+      { id: jobId, leasedBy: workerId, status: ProcessingJobStatus.LEASED },
+      {
+        status: ProcessingJobStatus.COMPLETED,
+        leasedBy: null,
+        leaseExpiresAt: null,
+        completedAt: new Date(),
+      },
+    );
+
+    if (!result.affected) {
+      this.logger.warn(
+        `[QUEUE] Job ${jobId} completed by ${workerId} after losing its lease`,
+      );
+    }
+  }
+
+  async reschedule(
+    jobId: string,
+    workerId: string,
+    availableAt: Date,
+    lastError?: string,
+  ): Promise<void> {
+    await this.jobRepository.update(
+      { id: jobId, leasedBy: workerId, status: ProcessingJobStatus.LEASED },
+      {
+        status: ProcessingJobStatus.PENDING,
+        leasedBy: null,
+        leaseExpiresAt: null,
+        availableAt,
+        lastError: lastError ?? null,
+      },
+    );
+  }
+
+  async markDead(jobId: string, lastError?: string): Promise<void> {
+    await this.jobRepository.update(
+      { id: jobId },
+      {
+        status: ProcessingJobStatus.DEAD,
+        leasedBy: null,
+        leaseExpiresAt: null,
+        lastError: lastError ?? null,
+        completedAt: new Date(),
+      },
+    );
+  }
+
+  async requeueExpiredLeases(): Promise<number> {
+    const result = await this.jobRepository.update(
+      {
+        status: ProcessingJobStatus.LEASED,
+        leaseExpiresAt: LessThan(new Date()),
+      },
+      {
+        status: ProcessingJobStatus.PENDING,
+        leasedBy: null,
+        leaseExpiresAt: null,
+        availableAt: new Date(),
+      },
+    );
+    return result.affected ?? 0;
+  }
+
+  private findOpenJob(documentId: string): Promise<ProcessingJobEntity | null> {
+    return this.jobRepository.findOne({
+      where: { documentId, status: In(OPEN_STATUSES) },
+    });
+  }
+}
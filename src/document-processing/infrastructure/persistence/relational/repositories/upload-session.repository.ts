@@ -0,0 +1,90 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { LessThan, Repository } from 'typeorm';
+import { UploadSessionRepositoryPort } from '../../../../domain/ports/upload-session.repository.port';
+import { UploadSession } from '../../../../domain/entities/upload-session.entity';
+import { UploadSessionEntity } from '../entities/upload-session.entity';
+import { UploadSessionMapper } from '../mappers/upload-session.mapper';
+import { NullableType } from '../../../../../utils/types/nullable.type';
+
+@Injectable()
+export class UploadSessionRepositoryAdapter
+  implements UploadSessionRepositoryPort
+{
+  constructor(
+    @InjectRepository(UploadSessionEntity)
+    private readonly sessionRepository: Repository<UploadSessionEntity>,
+  ) {}
+
+  async create(session: UploadSession): Promise<UploadSession> {
+    const saved = await this.sessionRepository.save(
+      UploadSessionMapper.toPersistence(session),
+    );
+    return UploadSessionMapper.toDomain(saved);
+  }
+
+  async findById(id: string): Promise<NullableType<UploadSession>> {
+    const entity = await this.sessionRepository.findOne({ where: { id } });
+    return entity ? UploadSessionMapper.toDomain(entity) : null;
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.sessionRepository.delete(id);
+  }
+
+  async appendPart(
+    id: string,
+    expectedOffset: number,
+    part: { name: string; size: number },
+    expiresAt: Date,
+  ): Promise<boolean> {
+    // Conditional on the offset, so concurrent chunks cannot both be recorded
+    const result = await this.sessionRepository
+      .createQueryBuilder()
+      .update(UploadSessionEntity)
+      .set({
+        offset: () => 'bytes_received + :size',
+        partNames: () => 'array_append(part_names, :name)',
+        expiresAt,
+      })
+      .where('id = :id', { id })
+      .andWhere('bytes_received = :expectedOffset', { expectedOffset })
+      .andWhere('completed_at IS NULL')
+      .setParameters({ size: part.size, name: part.name })
+      .execute();
+
+    return (result.affected ?? 0) > 0;
+  }
+
+  async claimCompletion(id: string, staleBefore: Date): Promise<boolean> {
+    const result = await this.sessionRepository
+      .createQueryBuilder()
+      .update(UploadSessionEntity)
+      .set({ completedAt: new Date() })
+      .where('id = :id', { id })
+      .andWhere('document_id IS NULL')
+      .andWhere('(completed_at IS NULL OR completed_at < :staleBefore)', {
+        staleBefore,
+      })
+      .execute();
+
+    return (result.affected ?? 0) > 0;
+  }
+
+  async releaseCompletion(id: string): Promise<void> {
+    await this.sessionRepository.update(id, { completedAt: null });
+  }
+
+  async setDocumentId(id: string, documentId: string): Promise<void> {
+    await this.sessionRepository.update(id, { documentId });
+  }
+
+  async findExpired(now: Date, limit: number): Promise<UploadSession[]> {
+    const entities = await this.sessionRepository.find({
+      where: { expiresAt: LessThan(now) },
+      order: { expiresAt: 'ASC' },
+      take: limit,
+    });
+    return entities.map((entity) => UploadSessionMapper.toDomain(entity));
+  }
+}
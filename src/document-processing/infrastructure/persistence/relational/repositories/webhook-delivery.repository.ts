@@ -0,0 +1,113 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { DataSource, In, LessThan, Repository } from 'typeorm';
+import { WebhookDeliveryRepositoryPort } from '../../../../domain/ports/webhook-delivery.repository.port';
+import { WebhookDelivery } from '../../../../domain/entities/webhook-delivery.entity';
+import { WebhookDeliveryStatus } from '../../../../domain/enums/webhook-delivery-status.enum';
+import { WebhookDeliveryEntity } from '../entities/webhook-delivery.entity';
+import { WebhookDeliveryMapper } from '../mappers/webhook-delivery.mapper';
+import { NullableType } from '../../../../../utils/types/nullable.type';
+import { transactional } from '../../../../../database/relational-transaction';
+
+/**
+ * PostgreSQL-backed webhook delivery log
+ *
+ * Due deliveries are claimed with SELECT ... FOR UPDATE SKIP LOCKED, like
+ * processing jobs, so concurrent workers never send the same delivery.
+ */
+@Injectable()
+export class WebhookDeliveryRepositoryAdapter
+  implements WebhookDeliveryRepositoryPort
+{
+  constructor(
+    @InjectRepository(WebhookDeliveryEntity)
+    private readonly deliveryRepository: Repository<WebhookDeliveryEntity>,
+    private readonly dataSource: DataSource,
+  ) {}
+
+  async createMany(deliveries: WebhookDelivery[]): Promise<WebhookDelivery[]> {
+    const saved = await this.deliveryRepository.save(
+      deliveries.map((delivery) =>
+        WebhookDeliveryMapper.toPersistence(delivery),
+      ),
+    );
+    return saved.map((entity) => WebhookDeliveryMapper.toDomain(entity));
+  }
+
+  async update(id: string, partial: Partial<WebhookDelivery>): Promise<void> {
+    await this.deliveryRepository.update(
+      id,
+      WebhookDeliveryMapper.toPersistencePartial(partial),
+    );
+  }
+
+  async findById(id: string): Promise<NullableType<WebhookDelivery>> {
+    const entity = await this.deliveryRepository.findOne({ where: { id } });
+    return entity ? WebhookDeliveryMapper.toDomain(entity) : null;
+  }
+
+  async findBySubscriptionId(
+    subscriptionId: string,
+    limit: number,
+  ): Promise<WebhookDelivery[]> {
+    const entities = await this.deliveryRepository.find({
+      where: { subscriptionId },
+      order: { createdAt: 'DESC' },
+      take: limit,
+    });
+    return entities.map((entity) => WebhookDeliveryMapper.toDomain(entity));
+  }
+
+  async claimDue(
+    limit: number,
+    leaseSeconds: number,
+  ): Promise<WebhookDelivery[]> {
+    if (limit <= 0) {
+      return [];
+    }
+
+    return this.dataSource.transaction(async (manager) => {
+      const now = new Date();
+      const candidates = await manager
+        .getRepository(WebhookDeliveryEntity)
+        .createQueryBuilder('delivery')
+        .where('delivery.status = :status', {
+          status: WebhookDeliveryStatus.PENDING,
+        })
+        .andWhere('delivery.nextAttemptAt <= :now', { now })
+        .orderBy('delivery.nextAttemptAt', 'ASC')
+        .limit(limit)
+        .setLock('pessimistic_write')
+        .setOnLocked('skip_locked')
+        .getMany();
+
+      if (candidates.length === 0) {
+        return [];
+      }
+
+      await manager
+        .getRepository(WebhookDeliveryEntity)
+        .update(
+          { id: In(candidates.map((delivery) => delivery.id)) },
+          { nextAttemptAt: new Date(now.getTime() + leaseSeconds * 1000) },
+        );
+
+      return candidates.map((entity) => WebhookDeliveryMapper.toDomain(entity));
+    });
+  }
+
+  async deleteBySubscriptionId(subscriptionId: string): Promise<void> {
+    await transactional(this.deliveryRepository).delete({ subscriptionId });
+  }
+
+  async deleteFinishedBefore(date: Date): Promise<number> {
+    const result = await this.deliveryRepository.delete({
+      status: In([
+        WebhookDeliveryStatus.SUCCEEDED,
+        WebhookDeliveryStatus.FAILED,
+      ]),
+      createdAt: LessThan(date),
+    });
+    return result.affected ?? 0;
+  }
+}
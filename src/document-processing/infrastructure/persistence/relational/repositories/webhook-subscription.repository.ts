@@ -0,0 +1,71 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { WebhookSubscriptionRepositoryPort } from '../../../../domain/ports/webhook-subscription.repository.port';
+import { WebhookSubscription } from '../../../../domain/entities/webhook-subscription.entity';
+import { DocumentEventType } from '../../../../domain/enums/document-event-type.enum';
+import { WebhookSubscriptionEntity } from '../entities/webhook-subscription.entity';
+import { WebhookSubscriptionMapper } from '../mappers/webhook-subscription.mapper';
+import { NullableType } from '../../../../../utils/types/nullable.type';
+import { transactional } from '../../../../../database/relational-transaction';
+
+@Injectable()
+export class WebhookSubscriptionRepositoryAdapter
+  implements WebhookSubscriptionRepositoryPort
+{
+  constructor(
+    @InjectRepository(WebhookSubscriptionEntity)
+    private readonly subscriptionRepository: Repository<WebhookSubscriptionEntity>,
+  ) {}
+
+  async create(
+    subscription: WebhookSubscription,
+  ): Promise<WebhookSubscription> {
+    const saved = await transactional(this.subscriptionRepository).save(
+      WebhookSubscriptionMapper.toPersistence(subscription),
+    );
+    return WebhookSubscriptionMapper.toDomain(saved);
+  }
+
+  async update(
+    id: string,
+    partial: Partial<WebhookSubscription>,
+  ): Promise<void> {
+    const fields: any = { ...partial };
+    if (partial.createdByUserId !== undefined) {
+      fields.createdByUserId = Number(partial.createdByUserId);
+    }
+    await transactional(this.subscriptionRepository).update(id, fields);
+  }
+
+  async findById(id: string): Promise<NullableType<WebhookSubscription>> {
+    const entity = await this.subscriptionRepository.findOne({
+      where: { id },
+    });
+    return entity ? WebhookSubscriptionMapper.toDomain(entity) : null;
+  }
+
+  async findAll(): Promise<WebhookSubscription[]> {
+    const entities = await this.subscriptionRepository.find({
+      order: { createdAt: 'ASC' },
+    });
+    return entities.map((entity) => WebhookSubscriptionMapper.toDomain(entity));
+  }
+
+  async findActiveByEvent(
+    eventType: DocumentEventType,
+  ): Promise<WebhookSubscription[]> {
+    const entities = await this.subscriptionRepository
+      .createQueryBuilder('subscription')
+      .where('subscription.active = true')
+      .andWhere('subscription.events @> :events::jsonb', {
+        events: JSON.stringify([eventType]),
+      })
+      .getMany();
+    return entities.map((entity) => WebhookSubscriptionMapper.toDomain(entity));
+  }
+
+  async delete(id: string): Promise<void> {
+    await transactional(this.subscriptionRepository).delete(id);
+  }
+}
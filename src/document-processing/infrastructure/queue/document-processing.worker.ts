@@ -0,0 +1,182 @@
+import {
+  Inject,
+  Injectable,
+  Logger,
+  OnApplicationBootstrap,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { hostname } from 'os';
+import { randomUUID } from 'crypto';
+import { ProcessingQueuePort } from '../../domain/ports/processing-queue.port';
+import { ProcessingJob } from '../../domain/entities/processing-job.entity';
+import { DocumentProcessingDomainService } from '../../domain/services/document-processing.domain.service';
+import { AllConfigType } from '../../../config/config.type';
+
+/**
+ * Document Processing Worker
+ *
+ * Polls the durable processing queue and runs OCR processing for claimed jobs.
+ * - Concurrency is capped per worker (documentProcessing.queue.concurrency)
+ * - Leases are extended while a job runs; a crashed worker's jobs become
+ *   claimable again once their lease expires
+ * - Jobs claimed more than maxAttempts times are dead-lettered
+ *
+ * Set DOC_PROCESSING_QUEUE_WORKER_ENABLED=false to run API-only instances.
+ */
+@Injectable()
+export class DocumentProcessingWorker
+  implements OnApplicationBootstrap, OnModuleDestroy
+{
+  private readonly logger = new Logger(DocumentProcessingWorker.name);
+  private readonly workerId = `${hostname()}-${process.pid}-${randomUUID().slice(0, 8)}`;
+  private readonly inFlight = new Set<string>();
+  private pollTimer?: NodeJS.Timeout;
+  private polling = false;
+  private stopped = false;
+
+  constructor(
+    @Inject('ProcessingQueuePort')
+    private readonly processingQueue: ProcessingQueuePort,
+    private readonly domainService: DocumentProcessingDomainService,
+    private readonly configService: ConfigService<AllConfigType>,
+  ) {}
+
+  async onApplicationBootstrap(): Promise<void> {
+    const { workerEnabled, pollIntervalMs } = this.getQueueConfig();
+    if (!workerEnabled) {
+      this.logger.log('[QUEUE] Processing worker disabled on this instance');
+      return;
+    }
+
+    try {
+      const requeued = await this.processingQueue.requeueExpiredLeases();
+      const recovered = await this.domainService.recoverStalledDocuments();
+      this.logger.log(
+        `[QUEUE] Recovery: ${requeued} expired leases re-queued, ${recovered} in-flight documents checked`,
+      );
+    } catch (error) {
+      this.logger.error(`[QUEUE] Recovery failed: ${error.message}`);
+    }
+
+    this.pollTimer = setInterval(() => {
+      void this.poll();
+    }, pollIntervalMs);
+
+    this.logger.log(`[QUEUE] Processing worker ${this.workerId} started`);
+  }
+
+  onModuleDestroy(): void {
+    this.stopped = true;
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+    }
+  }
+
+  /**
+   * Claim and dispatch as many jobs as there are free slots
+   */
+  async poll(): Promise<void> {
+    if (this.polling || this.stopped) return;
+    this.polling = true;
+
+    try {
+      const { concurrency, leaseSeconds } = this.getQueueConfig();
+      const freeSlots = concurrency - this.inFlight.size;
+      if (freeSlots <= 0) return;
+
+      await this.processingQueue.requeueExpiredLeases();
+
+      const jobs = await this.processingQueue.claim(
+        this.workerId,
+        freeSlots,
+        leaseSeconds,
+      );
+
+      for (const job of jobs) {
+        this.inFlight.add(job.id);
+        void this.runJob(job).finally(() => this.inFlight.delete(job.id));
+      }
+    } catch (error) {
+      this.logger.error(`[QUEUE] Poll failed: ${error.message}`);
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  private async runJob(job: ProcessingJob): Promise<void> {
+    const { leaseSeconds, maxAttempts } = this.getQueueConfig();
+
+    if (job.attempts > maxAttempts) {
+      const error = `Exceeded ${maxAttempts} processing attempts`;
+      this.logger.error(
+        `[QUEUE] Dead-lettering job ${job.id} for document ${job.documentId}: ${error}`,
+      );
+      try {
+        await this.processingQueue.markDead(job.id, error);
+        await this.domainService.markProcessingFailed(job.documentId, error);
+      } catch (deadLetterError) {
+        // If markDead failed, the next claim after the lease dead-letters it again
+        this.logger.error(
+          `[QUEUE] Job ${job.id} crashed: ${deadLetterError.message}`,
+        );
+      }
+      return;
+    }
+
+    // Heartbeat: keep the lease alive while OCR is running
+    const heartbeat = setInterval(
+      () => {
+        this.processingQueue
+          .extendLease(job.id, this.workerId, leaseSeconds)
+          .then((extended) => {
+            if (!extended) {
+              this.logger.warn(`[QUEUE] Lost lease on job ${job.id}`);
+            }
+          })
+          .catch((error) =>
+            this.logger.warn(
+              `[QUEUE] Lease extension failed for job ${job.id}: ${error.message}`,
+            ),
+          );
+      },
+      (leaseSeconds * 1000) / 2,
+    );
+
+    try {
+      this.logger.log(
+        `[QUEUE] Processing job ${job.id} for document ${job.documentId} (attempt ${job.attempts})`,
+      );
+
+      const result = await this.domainService.processDocument(job.documentId);
+
+      switch (result.outcome) {
+        case 'retry':
+          await this.processingQueue.reschedule(
+            job.id,
+            this.workerId,
+            result.retryAt,
+            result.error,
+          );
+          break;
+        case 'failed':
+          await this.processingQueue.markDead(job.id, result.error);
+          break;
+        default:
+          await this.processingQueue.complete(job.id, this.workerId);
+      }
+    } catch (error) {
+      // Unexpected error outside the processing pipeline - leave the lease to
+      // expire so the job is retried (bounded by maxAttempts)
+      this.logger.error(`[QUEUE] Job ${job.id} crashed: ${error.message}`);
+    } finally {
+      clearInterval(heartbeat);
+    }
+  }
+
+  private getQueueConfig() {
+    return this.configService.getOrThrow('documentProcessing.queue', {
+      infer: true,
+    });
+  }
+}
@@ -0,0 +1,33 @@
+import { Injectable } from '@nestjs/common';
+import { EventEmitter } from 'events';
+import {
+  DocumentStatusEvent,
+  DocumentStatusEventsPort,
+} from '../../domain/ports/document-status-events.port';
+
+const STATUS_EVENT = 'status';
+
+/**
+ * In-Memory Status Events Adapter
+ *
+ * Delivers events within this process only, so API instances only see
+ * documents processed by their own worker
+ * (DOC_PROCESSING_STATUS_EVENTS_DRIVER=memory). Use the postgres driver when
+ * the worker runs separately (DOC_PROCESSING_QUEUE_WORKER_ENABLED=false).
+ */
+@Injectable()
+export class InMemoryStatusEventsAdapter implements DocumentStatusEventsPort {
+  private readonly emitter = new EventEmitter().setMaxListeners(0);
+
+  publish(event: DocumentStatusEvent): Promise<void> {
+    this.emitter.emit(STATUS_EVENT, event);
+    return Promise.resolve();
+  }
+
+  subscribe(listener: (event: DocumentStatusEvent) => void): () => void {
+    this.emitter.on(STATUS_EVENT, listener);
+    return () => {
+      this.emitter.off(STATUS_EVENT, listener);
+    };
+  }
+}
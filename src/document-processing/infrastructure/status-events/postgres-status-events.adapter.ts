@@ -0,0 +1,125 @@
+import {
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { EventEmitter } from 'events';
+import { DataSource } from 'typeorm';
+import { PostgresDriver } from 'typeorm/driver/postgres/PostgresDriver';
+import {
+  DocumentStatusEvent,
+  DocumentStatusEventsPort,
+} from '../../domain/ports/document-status-events.port';
+import { sanitizeError } from '../../utils/ocr-serialization';
+
+const CHANNEL = 'document_status_events';
+const STATUS_EVENT = 'status';
+const RECONNECT_DELAY_MS = 5000;
+
+/**
+ * PostgreSQL Status Events Adapter (LISTEN/NOTIFY)
+ *
+ * Events are published with pg_notify and received by every instance
+ * listening on the channel, including the publisher, so API-only instances
+ * see progress from workers running elsewhere
+ * (DOC_PROCESSING_STATUS_EVENTS_DRIVER=postgres, relational database only).
+ *
+ * Each instance holds one pooled connection for LISTEN; it is re-established
+ * after connection errors. Events published while it is down are lost -
+ * clients fall back to GET /documents/:documentId/status.
+ */
+@Injectable()
+export class PostgresStatusEventsAdapter
+  implements DocumentStatusEventsPort, OnModuleInit, OnModuleDestroy
+{
+  private readonly logger = new Logger(PostgresStatusEventsAdapter.name);
+  private readonly emitter = new EventEmitter().setMaxListeners(0);
+  private connection?: { client: any; release: (error?: Error) => void };
+  private reconnectTimer?: NodeJS.Timeout;
+  private stopped = false;
+
+  constructor(private readonly dataSource: DataSource) {}
+
+  async onModuleInit(): Promise<void> {
+    await this.listen();
+  }
+
+  onModuleDestroy(): void {
+    this.stopped = true;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+    }
+    this.connection?.release();
+    this.connection = undefined;
+  }
+
+  async publish(event: DocumentStatusEvent): Promise<void> {
+    // Payloads are a few hundred bytes (pg_notify limit: 8000)
+    await this.dataSource.query('SELECT pg_notify($1, $2)', [
+      CHANNEL,
+      JSON.stringify(event),
+    ]);
+  }
+
+  subscribe(listener: (event: DocumentStatusEvent) => void): () => void {
+    this.emitter.on(STATUS_EVENT, listener);
+    return () => {
+      this.emitter.off(STATUS_EVENT, listener);
+    };
+  }
+
+  private async listen(): Promise<void> {
+    try {
+      const [client, release] = await (
+        this.dataSource.driver as PostgresDriver
+      ).obtainMasterConnection();
+      this.connection = {
+        client,
+        release: release as (error?: Error) => void,
+      };
+
+      client.on('notification', (message: { payload?: string }) =>
+        this.onNotification(message.payload),
+      );
+      client.on('error', (error: Error) => this.onConnectionError(error));
+      await client.query(`LISTEN ${CHANNEL}`);
+
+      this.logger.log(`[STATUS EVENTS] Listening on ${CHANNEL}`);
+    } catch (error) {
+      this.onConnectionError(error);
+    }
+  }
+
+  private onNotification(payload?: string): void {
+    if (!payload) return;
+    try {
+      const event = JSON.parse(payload) as DocumentStatusEvent;
+      event.occurredAt = new Date(event.occurredAt);
+      this.emitter.emit(STATUS_EVENT, event);
+    } catch (error) {
+      this.logger.warn(
+        `[STATUS EVENTS] Ignoring malformed notification: ${sanitizeError(error)}`,
+      );
+    }
+  }
+
+  private onConnectionError(error: unknown): void {
+    this.logger.error(
+      `[STATUS EVENTS] Listener connection failed: ${sanitizeError(error)}`,
+    );
+
+    // Passing the error makes the pool discard the broken connection
+    this.connection?.release(
+      error instanceof Error ? error : new Error(String(error)),
+    );
+    this.connection = undefined;
+
+    if (!this.stopped && !this.reconnectTimer) {
+      this.reconnectTimer = setTimeout(() => {
+        this.reconnectTimer = undefined;
+        void this.listen();
+      }, RECONNECT_DELAY_MS);
+    }
+  }
+}
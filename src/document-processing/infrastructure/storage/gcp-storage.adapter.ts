@@ -7,11 +7,18 @@ import { ConfigService } from '@nestjs/config';
 import { Storage, Bucket, File } from '@google-cloud/storage';
 import * as fs from 'fs';
 import * as path from 'path';
+import { Readable } from 'stream';
 import {
   StorageServicePort,
   FileMetadata,
+  SignedUpload,
+  StoredObjectInfo,
 } from '../../domain/ports/storage.service.port';
 import { AllConfigType } from '../../../config/config.type';
+import { inspectStream } from './inspect-stream';
+
+// Cloud Storage compose accepts at most 32 source objects per request
+const MAX_COMPOSE_SOURCES = 32;
 
 /**
  * GCP Cloud Storage Adapter
@@ -39,6 +46,7 @@ export class GcpStorageAdapter implements StorageServicePort {
   private readonly bucket: Bucket;
   private readonly rawPrefix: string;
   private readonly processedPrefix: string;
+  private readonly uploadPrefix: string;
 
   constructor(private readonly configService: ConfigService<AllConfigType>) {
     // Initialize Storage with proper credential handling (same pattern as Document AI and Vision AI)
@@ -133,6 +141,11 @@ export class GcpStorageAdapter implements StorageServicePort {
       { infer: true },
     );
 
+    this.uploadPrefix = this.configService.getOrThrow(
+      'documentProcessing.storage.uploadPrefix',
+      { infer: true },
+    );
+
     this.logger.log('GCP Storage adapter initialized');
 
     // Validate credentials for signed URL generation
@@ -386,6 +399,64 @@ export class GcpStorageAdapter implements StorageServicePort {
     }
   }
 
+  async fetchRaw(gcsUri: string): Promise<Buffer> {
+    try {
+      const { bucket, objectKey } = this.parseGcsUri(gcsUri);
+      const [contents] = await this.storage
+        .bucket(bucket)
+        .file(objectKey)
+        .download();
+
+      this.logger.debug(
+        `Downloaded raw file (${(contents.length / 1024).toFixed(2)} KB)`,
+      );
+
+      return contents;
+    } catch (error) {
+      const authError = this.detectAuthError(error);
+      if (authError) {
+        this.logger.error(
+          `GCP authentication error during download: ${authError.message}`,
+        );
+        this.logger.error(authError.remediation);
+        throw new Error(authError.userMessage);
+      }
+
+      this.logger.error(
+        `Failed to download file from GCS: ${this.sanitizeError(error)}`,
+      );
+      throw new Error('Failed to download document from storage');
+    }
+  }
+
+  async streamRaw(gcsUri: string): Promise<Readable> {
+    try {
+      const { bucket, objectKey } = this.parseGcsUri(gcsUri);
+      const file = this.storage.bucket(bucket).file(objectKey);
+
+      const [exists] = await file.exists();
+      if (!exists) {
+        throw new Error('File not found');
+      }
+
+      return file.createReadStream();
+    } catch (error) {
+      const authError = this.detectAuthError(error);
+      if (authError) {
+        this.logger.error(
+          `GCP authentication error during download: ${authError.message}`,
+        );
+        this.logger.error(authError.remediation);
+        throw new Error(authError.userMessage);
+      }
+
+      this.logger.error(
+        `Failed to download file from GCS: ${this.sanitizeError(error)}`,
+      );
+      throw new Error('Failed to download document from storage');
+    }
+  }
+
   async storeProcessed(jsonData: any, metadata: FileMetadata): Promise<string> {
     try {
       const objectKey = `${this.processedPrefix}${metadata.userId}/${metadata.documentId}.json`;
@@ -522,6 +593,177 @@ export class GcpStorageAdapter implements StorageServicePort {
     }
   }
 
+  async getSignedUploadUrl(
+    metadata: FileMetadata,
+    expiresIn: number,
+  ): Promise<SignedUpload> {
+    const objectKey = `${this.rawPrefix}${metadata.userId}/${metadata.documentId}_${metadata.fileName}`;
+    const expires = Date.now() + expiresIn * 1000;
+
+    try {
+      const [url] = await this.bucket.file(objectKey).getSignedUrl({
+        version: 'v4',
+        action: 'write',
+        expires,
+        contentType: metadata.mimeType,
+      });
+
+      this.logger.debug(
+        `Generated signed upload URL for document ${metadata.documentId} (expires in ${expiresIn}s)`,
+      );
+
+      return {
+        uri: `gs://${this.bucket.name}/${objectKey}`,
+        url,
+        method: 'PUT',
+        headers: { 'Content-Type': metadata.mimeType },
+        expiresAt: new Date(expires),
+      };
+    } catch (error) {
+      const authError = this.detectAuthError(error);
+      if (authError) {
+        this.logger.error(
+          `GCP authentication error generating signed upload URL: ${authError.message}`,
+        );
+        this.logger.error(authError.remediation);
+      } else {
+        this.logger.error(
+          `Failed to generate signed upload URL: ${this.sanitizeError(error)}`,
+        );
+      }
+      // Return generic error to client (no internal details exposed)
+      throw new ServiceUnavailableException(
+        'Service temporarily unavailable. Please contact support if this issue persists.',
+      );
+    }
+  }
+
+  async inspect(gcsUri: string): Promise<StoredObjectInfo | null> {
+    try {
+      const { bucket, objectKey } = this.parseGcsUri(gcsUri);
+      const file = this.storage.bucket(bucket).file(objectKey);
+
+      const [exists] = await file.exists();
+      if (!exists) {
+        return null;
+      }
+
+      return await inspectStream(file.createReadStream());
+    } catch (error) {
+      const authError = this.detectAuthError(error);
+      if (authError) {
+        this.logger.error(
+          `GCP authentication error during download: ${authError.message}`,
+        );
+        this.logger.error(authError.remediation);
+        throw new Error(authError.userMessage);
+      }
+
+      this.logger.error(
+        `Failed to read file from GCS: ${this.sanitizeError(error)}`,
+      );
+      throw new Error('Failed to download document from storage');
+    }
+  }
+
+  async storeUploadPart(
+    uploadId: string,
+    partName: string,
+    data: Buffer,
+  ): Promise<void> {
+    try {
+      await this.bucket
+        .file(`${this.uploadPrefix}${uploadId}/${partName}`)
+        .save(data, { resumable: false });
+    } catch (error) {
+      this.logger.error(
+        `Failed to store part for upload ${uploadId}: ${this.sanitizeError(error)}`,
+      );
+      throw new Error('Failed to upload document to storage');
+    }
+  }
+
+  /**
+   * Server-side concatenation with compose (in rounds of up to 32 objects)
+   */
+  async completeUpload(
+    uploadId: string,
+    partNames: string[],
+    metadata: FileMetadata,
+  ): Promise<string> {
+    const objectKey = `${this.rawPrefix}${metadata.userId}/${metadata.documentId}_${metadata.fileName}`;
+
+    try {
+      let sources: File[] = partNames.map((partName) =>
+        this.bucket.file(`${this.uploadPrefix}${uploadId}/${partName}`),
+      );
+
+      // Intermediate objects live with the parts and are deleted with them
+      for (let round = 1; sources.length > MAX_COMPOSE_SOURCES; round++) {
+        const composed: File[] = [];
+        for (let i = 0; i < sources.length; i += MAX_COMPOSE_SOURCES) {
+          const intermediate = this.bucket.file(
+            `${this.uploadPrefix}${uploadId}/compose-${round}-${composed.length}`,
+          );
+          await this.bucket.combine(
+            sources.slice(i, i + MAX_COMPOSE_SOURCES),
+            intermediate,
+          );
+          composed.push(intermediate);
+        }
+        sources = composed;
+      }
+
+      const file: File = this.bucket.file(objectKey);
+      await this.bucket.combine(sources, file);
+      await file.setMetadata({
+        contentType: metadata.mimeType,
+        metadata: {
+          documentId: metadata.documentId,
+          userId: metadata.userId.toString(),
+          originalFileName: metadata.fileName,
+          uploadedAt: new Date().toISOString(),
+        },
+      });
+    } catch (error) {
+      const authError = this.detectAuthError(error);
+      if (authError) {
+        this.logger.error(
+          `GCP authentication error for document ${metadata.documentId}: ${authError.message}`,
+        );
+        this.logger.error(authError.remediation);
+        throw new Error(authError.userMessage);
+      }
+
+      this.logger.error(
+        `Failed to complete upload ${uploadId}: ${this.sanitizeError(error)}`,
+      );
+      throw new Error('Failed to upload document to storage');
+    }
+
+    // Best effort: parts are deleted again when the session expires
+    await this.abortUpload(uploadId).catch(() => undefined);
+
+    this.logger.debug(
+      `Assembled ${partNames.length} part(s) for document ${metadata.documentId} (${(metadata.contentLength / 1024).toFixed(2)} KB)`,
+    );
+
+    return `gs://${this.bucket.name}/${objectKey}`;
+  }
+
+  async abortUpload(uploadId: string): Promise<void> {
+    try {
+      await this.bucket.deleteFiles({
+        prefix: `${this.uploadPrefix}${uploadId}/`,
+      });
+    } catch (error) {
+      this.logger.error(
+        `Failed to delete parts of upload ${uploadId}: ${this.sanitizeError(error)}`,
+      );
+      throw new Error('Failed to delete file from storage');
+    }
+  }
+
   /**
    * Parse GCS URI into bucket and object key
    * @param gcsUri - gs://bucket-name/path/to/object
@@ -0,0 +1,23 @@
+import { createHash } from 'crypto';
+import { StoredObjectInfo } from '../../domain/ports/storage.service.port';
+
+/**
+ * Hash a stored object while it streams past (never holds the whole file in
+ * memory)
+ */
+export async function inspectStream(
+  stream: AsyncIterable<Uint8Array>,
+): Promise<StoredObjectInfo> {
+  const hash = createHash('sha256');
+  let size = 0;
+
+  for await (const chunk of stream) {
+    hash.update(chunk);
+    size += chunk.length;
+  }
+
+  return {
+    size,
+    sha256: hash.digest('hex'),
+  };
+}
@@ -0,0 +1,219 @@
+import { ConfigService } from '@nestjs/config';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { Readable } from 'stream';
+import { LocalStorageAdapter } from './local-storage.adapter';
+
+function createLocalStorageConfig(rootDir: string): ConfigService {
+  const values: Record<string, unknown> = {
+    'documentProcessing.storage': {
+      rawPrefix: 'raw/',
+      processedPrefix: 'processed/',
+      uploadPrefix: 'uploads/',
+      local: { rootDir, signingSecret: 'test-signing-secret' },
+    },
+    'app.backendDomain': 'http://localhost:3000',
+    'app.apiPrefix': 'api',
+  };
+  return { getOrThrow: jest.fn((key: string) => values[key]) } as any;
+}
+
+function signedQuery(url: string): URLSearchParams {
+  return new URL(url).searchParams;
+}
+
+describe('LocalStorageAdapter', () => {
+  let rootDir: string;
+  let adapter: LocalStorageAdapter;
+
+  beforeEach(async () => {
+    rootDir = await fs.mkdtemp(path.join(os.tmpdir(), 'local-storage-'));
+    adapter = new LocalStorageAdapter(createLocalStorageConfig(rootDir));
+  });
+
+  afterEach(async () => {
+    await fs.rm(rootDir, { recursive: true, force: true });
+  });
+
+  describe('signed download URLs', () => {
+    it('should accept the signature it issued', async () => {
+      const query = signedQuery(
+        await adapter.getSignedUrl('local://raw/1/doc-123_scan.pdf', 60),
+      );
+
+      expect(
+        adapter.verifySignature(
+          query.get('key')!,
+          Number(query.get('expires')),
+          query.get('signature')!,
+        ),
+      ).toBe(true);
+    });
+
+    it('should reject a signature for another key', async () => {
+      const query = signedQuery(
+        await adapter.getSignedUrl('local://raw/1/doc-123_scan.pdf', 60),
+      );
+
+      expect(
+        adapter.verifySignature(
+          'raw/2/doc-456_scan.pdf',
+          Number(query.get('expires')),
+          query.get('signature')!,
+        ),
+      ).toBe(false);
+    });
+
+    it('should reject an extended expiry and an expired link', async () => {
+      const query = signedQuery(
+        await adapter.getSignedUrl('local://raw/1/doc-123_scan.pdf', 60),
+      );
+      const expires = Number(query.get('expires'));
+
+      expect(
+        adapter.verifySignature(
+          query.get('key')!,
+          expires + 3600,
+          query.get('signature')!,
+        ),
+      ).toBe(false);
+
+      const expired = signedQuery(
+        await adapter.getSignedUrl('local://raw/1/doc-123_scan.pdf', -1),
+      );
+      expect(
+        adapter.verifySignature(
+          expired.get('key')!,
+          Number(expired.get('expires')),
+          expired.get('signature')!,
+        ),
+      ).toBe(false);
+    });
+
+    it('should never accept a download signature for an upload', async () => {
+      const query = signedQuery(
+        await adapter.getSignedUrl('local://raw/1/doc-123_scan.pdf', 60),
+      );
+
+      expect(
+        adapter.verifyUploadSignature(
+          query.get('key')!,
+          Number(query.get('expires')),
+          1024,
+          query.get('signature')!,
+        ),
+      ).toBe(false);
+    });
+  });
+
+  describe('signed upload URLs', () => {
+    it('should bind the signature to the declared size', async () => {
+      const upload = await adapter.getSignedUploadUrl(
+        {
+          userId: 1,
+          documentId: 'doc-123',
+          fileName: 'scan.pdf',
+          mimeType: 'application/pdf',
+          contentLength: 1024,
+        } as any,
+        60,
+      );
+      const query = signedQuery(upload.url);
+      const expires = Number(query.get('expires'));
+
+      expect(
+        adapter.verifyUploadSignature(
+          query.get('key')!,
+          expires,
+          1024,
+          query.get('signature')!,
+        ),
+      ).toBe(true);
+      expect(
+        adapter.verifyUploadSignature(
+          query.get('key')!,
+          expires,
+          4096,
+          query.get('signature')!,
+        ),
+      ).toBe(false);
+    });
+  });
+
+  describe('path traversal', () => {
+    it('should reject keys that resolve outside the storage root', async () => {
+      await expect(
+        adapter.fetchRaw('local://../outside.txt'),
+      ).rejects.toThrow();
+      await expect(
+        adapter.writeStream('raw/../../outside.txt', Readable.from([]), 10),
+      ).rejects.toThrow('Object key resolves outside the storage root');
+      await expect(adapter.openReadStream('../outside.txt')).rejects.toThrow(
+        'Object key resolves outside the storage root',
+      );
+    });
+
+    it('should keep a crafted file name inside the owner raw prefix', async () => {
+      const upload = await adapter.getSignedUploadUrl(
+        {
+          userId: 5,
+          documentId: 'doc-123',
+          fileName: '../../../../processed/7/victim.json',
+          mimeType: 'application/pdf',
+          contentLength: 1024,
+        } as any,
+        60,
+      );
+
+      expect(upload.uri).toBe('local://raw/5/doc-123_victim.json');
+    });
+
+    it('should reject upload keys outside the owner raw prefix', async () => {
+      const objectKey = 'raw/5/doc-123_../../../../processed/7/victim.json';
+
+      expect(
+        adapter.verifyUploadSignature(
+          objectKey,
+          Math.floor(Date.now() / 1000) + 60,
+          1024,
+          'signature',
+        ),
+      ).toBe(false);
+      await expect(
+        adapter.writeStream(objectKey, Readable.from([]), 10),
+      ).rejects.toThrow('Object key resolves outside the owner raw prefix');
+      await expect(
+        adapter.writeStream('processed/7/victim.json', Readable.from([]), 10),
+      ).rejects.toThrow('Object key resolves outside the owner raw prefix');
+    });
+  });
+
+  describe('writeStream', () => {
+    it('should store a body within the size limit', async () => {
+      const written = await adapter.writeStream(
+        'raw/1/doc-123_scan.pdf',
+        Readable.from([Buffer.from('%PDF-1.7')]),
+        1024,
+      );
+
+      expect(written).toBe(true);
+      await expect(
+        adapter.fetchRaw('local://raw/1/doc-123_scan.pdf'),
+      ).resolves.toEqual(Buffer.from('%PDF-1.7'));
+    });
+
+    it('should discard a body larger than the limit', async () => {
+      const written = await adapter.writeStream(
+        'raw/1/doc-123_scan.pdf',
+        Readable.from([Buffer.alloc(8), Buffer.alloc(8)]),
+        10,
+      );
+
+      expect(written).toBe(false);
+      await expect(
+        adapter.openReadStream('raw/1/doc-123_scan.pdf'),
+      ).resolves.toBeNull();
+    });
+  });
+});
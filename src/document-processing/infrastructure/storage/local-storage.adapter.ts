@@ -0,0 +1,493 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHmac, timingSafeEqual } from 'crypto';
+import { createReadStream, createWriteStream, ReadStream } from 'fs';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { Readable } from 'stream';
+import { finished, pipeline } from 'stream/promises';
+import {
+  FileMetadata,
+  SignedUpload,
+  StorageServicePort,
+  StoredObjectInfo,
+} from '../../domain/ports/storage.service.port';
+import { AllConfigType } from '../../../config/config.type';
+import { inspectStream } from './inspect-stream';
+
+const URI_SCHEME = 'local://';
+
+/**
+ * Reduce a client file name to a single path segment without control
+ * characters, so it can never move the object out of its directory
+ */
+function safeFileName(fileName: string): string {
+  const baseName = path.posix
+    .basename(fileName.replace(/\\/g, '/'))
+    .split('')
+    .filter((char) => char.charCodeAt(0) > 0x1f && char.charCodeAt(0) !== 0x7f)
+    .join('');
+
+  return baseName && baseName !== '.' && baseName !== '..'
+    ? baseName
+    : 'document';
+}
+
+/**
+ * Local Filesystem Storage Adapter
+ *
+ * Stores documents on local disk for development, CI and on-prem installs.
+ * Uses the same raw/processed key layout as the GCS adapter and returns
+ * local:// URIs.
+ *
+ * Signed URLs point at LocalStorageController and carry an HMAC-SHA256
+ * signature over the object key and expiry, so downloads work without a JWT
+ * exactly like GCS signed URLs. Signed upload URLs also cover the declared
+ * size, which the controller enforces while writing.
+ *
+ * Select with DOC_PROCESSING_STORAGE_DRIVER=local
+ *
+ * HIPAA Compliance:
+ * - Keep the storage root on an encrypted volume outside any static file root
+ * - Never log file paths (they contain user and document identifiers)
+ */
+@Injectable()
+export class LocalStorageAdapter implements StorageServicePort {
+  private readonly logger = new Logger(LocalStorageAdapter.name);
+  private readonly rootDir: string;
+  private readonly signingSecret: string;
+  private readonly rawPrefix: string;
+  private readonly processedPrefix: string;
+  private readonly uploadPrefix: string;
+
+  constructor(private readonly configService: ConfigService<AllConfigType>) {
+    const storage = this.configService.getOrThrow(
+      'documentProcessing.storage',
+      { infer: true },
+    );
+
+    this.rootDir = path.resolve(storage.local.rootDir);
+    this.rawPrefix = storage.rawPrefix;
+    this.processedPrefix = storage.processedPrefix;
+    this.uploadPrefix = storage.uploadPrefix;
+
+    if (!storage.local.signingSecret) {
+      throw new Error(
+        'DOC_PROCESSING_LOCAL_STORAGE_SIGNING_SECRET is required for local storage',
+      );
+    }
+    this.signingSecret = storage.local.signingSecret;
+
+    this.logger.log('[LOCAL STORAGE] Local storage adapter initialized');
+  }
+
+  async storeRaw(fileBuffer: Buffer, metadata: FileMetadata): Promise<string> {
+    const objectKey = this.rawObjectKey(metadata);
+
+    try {
+      await this.writeObject(objectKey, fileBuffer);
+
+      this.logger.debug(
+        `Stored raw file for document ${metadata.documentId} (${(metadata.contentLength / 1024).toFixed(2)} KB)`,
+      );
+
+      return `${URI_SCHEME}${objectKey}`;
+    } catch (error) {
+      this.logger.error(
+        `Failed to store raw file for document ${metadata.documentId}: ${this.sanitizeError(error)}`,
+      );
+      throw new Error('Failed to upload document to storage');
+    }
+  }
+
+  async fetchRaw(uri: string): Promise<Buffer> {
+    try {
+      const contents = await fs.readFile(this.resolvePath(this.parseUri(uri)));
+
+      this.logger.debug(
+        `Read raw file (${(contents.length / 1024).toFixed(2)} KB)`,
+      );
+
+      return contents;
+    } catch (error) {
+      this.logger.error(
+        `Failed to read file from local storage: ${this.sanitizeError(error)}`,
+      );
+      throw new Error('Failed to download document from storage');
+    }
+  }
+
+  async streamRaw(uri: string): Promise<Readable> {
+    let stream: ReadStream | null;
+    try {
+      stream = await this.openReadStream(this.parseUri(uri));
+    } catch (error) {
+      this.logger.error(
+        `Failed to read file from local storage: ${this.sanitizeError(error)}`,
+      );
+      throw new Error('Failed to download document from storage');
+    }
+
+    if (!stream) {
+      this.logger.error('Failed to read file from local storage: not found');
+      throw new Error('Failed to download document from storage');
+    }
+    return stream;
+  }
+
+  async storeProcessed(jsonData: any, metadata: FileMetadata): Promise<string> {
+    const objectKey = `${this.processedPrefix}${metadata.userId}/${metadata.documentId}.json`;
+
+    try {
+      await this.writeObject(
+        objectKey,
+        Buffer.from(JSON.stringify(jsonData, null, 2), 'utf-8'),
+      );
+
+      this.logger.debug(
+        `Stored processed output for document ${metadata.documentId}`,
+      );
+
+      return `${URI_SCHEME}${objectKey}`;
+    } catch (error) {
+      this.logger.error(
+        `Failed to store processed output for document ${metadata.documentId}: ${this.sanitizeError(error)}`,
+      );
+      throw new Error('Failed to store processed document');
+    }
+  }
+
+  async delete(uri: string): Promise<void> {
+    try {
+      // force: missing files are not an error (idempotent)
+      await fs.rm(this.resolvePath(this.parseUri(uri)), { force: true });
+
+      this.logger.debug('Deleted file from local storage');
+    } catch (error) {
+      this.logger.error(
+        `Failed to delete file from local storage: ${this.sanitizeError(error)}`,
+      );
+      throw new Error('Failed to delete file from storage');
+    }
+  }
+
+  getSignedUrl(uri: string, expiresIn: number = 86400): Promise<string> {
+    const objectKey = this.parseUri(uri);
+    const expires = Math.floor(Date.now() / 1000) + expiresIn;
+
+    const query = new URLSearchParams({
+      key: objectKey,
+      expires: String(expires),
+      signature: this.sign(objectKey, expires),
+    });
+
+    this.logger.debug(`Generated signed URL (expires in ${expiresIn}s)`);
+
+    return Promise.resolve(this.buildUrl('download', query));
+  }
+
+  getSignedUploadUrl(
+    metadata: FileMetadata,
+    expiresIn: number,
+  ): Promise<SignedUpload> {
+    const objectKey = this.rawObjectKey(metadata);
+    const expires = Math.floor(Date.now() / 1000) + expiresIn;
+
+    const query = new URLSearchParams({
+      key: objectKey,
+      expires: String(expires),
+      size: String(metadata.contentLength),
+      signature: this.signUpload(objectKey, expires, metadata.contentLength),
+    });
+
+    this.logger.debug(
+      `Generated signed upload URL for document ${metadata.documentId} (expires in ${expiresIn}s)`,
+    );
+
+    return Promise.resolve({
+      uri: `${URI_SCHEME}${objectKey}`,
+      url: this.buildUrl('upload', query),
+      method: 'PUT',
+      headers: { 'Content-Type': metadata.mimeType },
+      expiresAt: new Date(expires * 1000),
+    });
+  }
+
+  async inspect(uri: string): Promise<StoredObjectInfo | null> {
+    try {
+      const stream = await this.openReadStream(this.parseUri(uri));
+      return stream ? await inspectStream(stream) : null;
+    } catch (error) {
+      this.logger.error(
+        `Failed to read file from local storage: ${this.sanitizeError(error)}`,
+      );
+      throw new Error('Failed to download document from storage');
+    }
+  }
+
+  async storeUploadPart(
+    uploadId: string,
+    partName: string,
+    data: Buffer,
+  ): Promise<void> {
+    try {
+      await this.writeObject(
+        `${this.uploadPrefix}${uploadId}/${partName}`,
+        data,
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to store part for upload ${uploadId}: ${this.sanitizeError(error)}`,
+      );
+      throw new Error('Failed to upload document to storage');
+    }
+  }
+
+  async completeUpload(
+    uploadId: string,
+    partNames: string[],
+    metadata: FileMetadata,
+  ): Promise<string> {
+    const objectKey = this.rawObjectKey(metadata);
+
+    try {
+      const filePath = this.resolvePath(objectKey);
+      await fs.mkdir(path.dirname(filePath), { recursive: true, mode: 0o700 });
+
+      // Stream parts one after another (never holds the whole file in memory)
+      const output = createWriteStream(filePath, { mode: 0o600 });
+      try {
+        for (const partName of partNames) {
+          await pipeline(
+            createReadStream(
+              this.resolvePath(`${this.uploadPrefix}${uploadId}/${partName}`),
+            ),
+            output,
+            { end: false },
+          );
+        }
+        output.end();
+        await finished(output);
+      } catch (error) {
+        output.destroy();
+        throw error;
+      }
+
+      // Best effort: parts are deleted again when the session expires
+      await this.abortUpload(uploadId).catch(() => undefined);
+
+      this.logger.debug(
+        `Assembled ${partNames.length} part(s) for document ${metadata.documentId} (${(metadata.contentLength / 1024).toFixed(2)} KB)`,
+      );
+
+      return `${URI_SCHEME}${objectKey}`;
+    } catch (error) {
+      this.logger.error(
+        `Failed to complete upload ${uploadId}: ${this.sanitizeError(error)}`,
+      );
+      throw new Error('Failed to upload document to storage');
+    }
+  }
+
+  async abortUpload(uploadId: string): Promise<void> {
+    try {
+      await fs.rm(this.resolvePath(`${this.uploadPrefix}${uploadId}`), {
+        recursive: true,
+        force: true,
+      });
+    } catch (error) {
+      this.logger.error(
+        `Failed to delete parts of upload ${uploadId}: ${this.sanitizeError(error)}`,
+      );
+      throw new Error('Failed to delete file from storage');
+    }
+  }
+
+  /**
+   * Check a signed download link produced by getSignedUrl
+   */
+  verifySignature(objectKey: string, expires: number, signature: string) {
+    if (!Number.isFinite(expires) || expires < Date.now() / 1000) {
+      return false;
+    }
+
+    const expected = Buffer.from(this.sign(objectKey, expires));
+    const provided = Buffer.from(signature);
+
+    return (
+      expected.length === provided.length && timingSafeEqual(expected, provided)
+    );
+  }
+
+  /**
+   * Check a signed upload link produced by getSignedUploadUrl
+   */
+  verifyUploadSignature(
+    objectKey: string,
+    expires: number,
+    size: number,
+    signature: string,
+  ): boolean {
+    if (
+      !Number.isFinite(expires) ||
+      expires < Date.now() / 1000 ||
+      !Number.isSafeInteger(size) ||
+      !this.isUserRawKey(objectKey)
+    ) {
+      return false;
+    }
+
+    const expected = Buffer.from(this.signUpload(objectKey, expires, size));
+    const provided = Buffer.from(signature);
+
+    return (
+      expected.length === provided.length && timingSafeEqual(expected, provided)
+    );
+  }
+
+  /**
+   * Write an uploaded object (caller must verify the signature)
+   * @returns false if the body exceeded maxBytes (nothing is kept)
+   */
+  async writeStream(
+    objectKey: string,
+    body: Readable,
+    maxBytes: number,
+  ): Promise<boolean> {
+    const filePath = this.resolvePath(objectKey);
+    if (!this.isUserRawKey(objectKey)) {
+      throw new Error('Object key resolves outside the owner raw prefix');
+    }
+    await fs.mkdir(path.dirname(filePath), { recursive: true, mode: 0o700 });
+
+    let received = 0;
+    let tooLarge = false;
+    async function* limit(source: AsyncIterable<Buffer>) {
+      for await (const chunk of source) {
+        received += chunk.length;
+        if (received > maxBytes) {
+          tooLarge = true;
+          throw new Error('Upload exceeds the signed size');
+        }
+        yield chunk;
+      }
+    }
+
+    try {
+      await pipeline(body, limit, createWriteStream(filePath, { mode: 0o600 }));
+      return true;
+    } catch (error) {
+      await fs.rm(filePath, { force: true });
+      if (tooLarge) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Open a stored object for streaming (caller must verify the signature)
+   */
+  async openReadStream(objectKey: string): Promise<ReadStream | null> {
+    const filePath = this.resolvePath(objectKey);
+
+    try {
+      await fs.access(filePath);
+    } catch {
+      return null;
+    }
+
+    return createReadStream(filePath);
+  }
+
+  private sign(objectKey: string, expires: number): string {
+    return createHmac('sha256', this.signingSecret)
+      .update(`${objectKey}\n${expires}`)
+      .digest('base64url');
+  }
+
+  // Distinct message, so a download link can never be used for an upload
+  private signUpload(objectKey: string, expires: number, size: number): string {
+    return createHmac('sha256', this.signingSecret)
+      .update(`PUT\n${objectKey}\n${expires}\n${size}`)
+      .digest('base64url');
+  }
+
+  private buildUrl(route: string, query: URLSearchParams): string {
+    const backendDomain = this.configService.getOrThrow('app.backendDomain', {
+      infer: true,
+    });
+    const apiPrefix = this.configService.getOrThrow('app.apiPrefix', {
+      infer: true,
+    });
+
+    return `${backendDomain}/${apiPrefix}/v1/document-storage/${route}?${query.toString()}`;
+  }
+
+  private async writeObject(objectKey: string, data: Buffer): Promise<void> {
+    const filePath = this.resolvePath(objectKey);
+    await fs.mkdir(path.dirname(filePath), { recursive: true, mode: 0o700 });
+    await fs.writeFile(filePath, data, { mode: 0o600 });
+  }
+
+  /**
+   * Build the raw object key: raw/{userId}/{documentId}_{fileName}
+   */
+  private rawObjectKey(metadata: FileMetadata): string {
+    return `${this.rawPrefix}${metadata.userId}/${metadata.documentId}_${safeFileName(metadata.fileName)}`;
+  }
+
+  /**
+   * Check that a key names a file directly below raw/{userId}/, so an upload
+   * link can never write into another user's or the processed prefix
+   */
+  private isUserRawKey(objectKey: string): boolean {
+    if (!objectKey.startsWith(this.rawPrefix)) {
+      return false;
+    }
+
+    const userId = objectKey.slice(this.rawPrefix.length).split('/')[0];
+    if (!userId || userId === '.' || userId === '..') {
+      return false;
+    }
+
+    return (
+      path.dirname(path.resolve(this.rootDir, objectKey)) ===
+      path.resolve(this.rootDir, this.rawPrefix, userId)
+    );
+  }
+
+  /**
+   * Parse local URI into object key
+   * @param uri - local://raw/{userId}/{documentId}_{fileName}
+   */
+  private parseUri(uri: string): string {
+    if (!uri.startsWith(URI_SCHEME)) {
+      throw new Error('Invalid local storage URI format');
+    }
+    return uri.slice(URI_SCHEME.length);
+  }
+
+  /**
+   * Resolve an object key below the storage root (rejects path traversal)
+   */
+  private resolvePath(objectKey: string): string {
+    const filePath = path.resolve(this.rootDir, objectKey);
+    if (!filePath.startsWith(this.rootDir + path.sep)) {
+      throw new Error('Object key resolves outside the storage root');
+    }
+    return filePath;
+  }
+
+  /**
+   * Sanitize error messages to prevent leaking file paths
+   */
+  private sanitizeError(error: any): string {
+    const message = error?.message || String(error);
+    return message
+      .replace(/local:\/\/[^\s]+/g, '[URI_REDACTED]')
+      .split(this.rootDir)
+      .join('[STORAGE_ROOT]')
+      .substring(0, 200);
+  }
+}
@@ -0,0 +1,111 @@
+import { ForbiddenException, PayloadTooLargeException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { Readable } from 'stream';
+import { LocalStorageAdapter } from './local-storage.adapter';
+import { LocalStorageController } from './local-storage.controller';
+
+describe('LocalStorageController', () => {
+  let rootDir: string;
+  let adapter: LocalStorageAdapter;
+  let controller: LocalStorageController;
+
+  const metadata = {
+    userId: 1,
+    documentId: 'doc-123',
+    fileName: 'scan.pdf',
+    mimeType: 'application/pdf',
+    contentLength: 8,
+  } as any;
+
+  beforeEach(async () => {
+    rootDir = await fs.mkdtemp(path.join(os.tmpdir(), 'local-storage-'));
+    const values: Record<string, unknown> = {
+      'documentProcessing.storage': {
+        rawPrefix: 'raw/',
+        processedPrefix: 'processed/',
+        uploadPrefix: 'uploads/',
+        local: { rootDir, signingSecret: 'test-signing-secret' },
+      },
+      'app.backendDomain': 'http://localhost:3000',
+      'app.apiPrefix': 'api',
+    };
+    adapter = new LocalStorageAdapter({
+      getOrThrow: (key: string) => values[key],
+    } as unknown as ConfigService);
+    controller = new LocalStorageController(adapter);
+  });
+
+  afterEach(async () => {
+    await fs.rm(rootDir, { recursive: true, force: true });
+  });
+
+  async function signedUpload() {
+    const upload = await adapter.getSignedUploadUrl(metadata, 60);
+    return new URL(upload.url).searchParams;
+  }
+
+  function upload(query: URLSearchParams, body: Buffer[]) {
+    return controller.upload(
+      query.get('key')!,
+      query.get('expires')!,
+      query.get('size')!,
+      query.get('signature')!,
+      Readable.from(body) as any,
+    );
+  }
+
+  it('should accept a signed upload and serve it on a signed download', async () => {
+    await upload(await signedUpload(), [Buffer.from('%PDF-1.7')]);
+
+    const download = new URL(
+      await adapter.getSignedUrl('local://raw/1/doc-123_scan.pdf', 60),
+    ).searchParams;
+    const file = await controller.download(
+      download.get('key')!,
+      download.get('expires')!,
+      download.get('signature')!,
+    );
+
+    const chunks: Buffer[] = [];
+    for await (const chunk of file.getStream()) {
+      chunks.push(chunk as Buffer);
+    }
+    expect(Buffer.concat(chunks).toString()).toBe('%PDF-1.7');
+  });
+
+  it('should reject tampered and expired links', async () => {
+    const query = await signedUpload();
+
+    const tampered = new URLSearchParams(query);
+    tampered.set('key', 'raw/2/doc-456_scan.pdf');
+    await expect(upload(tampered, [Buffer.from('%PDF-1.7')])).rejects.toThrow(
+      ForbiddenException,
+    );
+
+    const enlarged = new URLSearchParams(query);
+    enlarged.set('size', '1000000');
+    await expect(upload(enlarged, [Buffer.from('%PDF-1.7')])).rejects.toThrow(
+      ForbiddenException,
+    );
+
+    const expired = new URL(
+      await adapter.getSignedUrl('local://raw/1/doc-123_scan.pdf', -1),
+    ).searchParams;
+    await expect(
+      controller.download(
+        expired.get('key')!,
+        expired.get('expires')!,
+        expired.get('signature')!,
+      ),
+    ).rejects.toThrow(ForbiddenException);
+  });
+
+  it('should reject uploads larger than the signed size', async () => {
+    await expect(
+      upload(await signedUpload(), [Buffer.alloc(8), Buffer.alloc(8)]),
+    ).rejects.toThrow(PayloadTooLargeException);
+  });
+});
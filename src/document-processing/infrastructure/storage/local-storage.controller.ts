@@ -0,0 +1,86 @@
+import {
+  Controller,
+  ForbiddenException,
+  Get,
+  HttpCode,
+  HttpStatus,
+  NotFoundException,
+  PayloadTooLargeException,
+  Put,
+  Query,
+  Req,
+  StreamableFile,
+} from '@nestjs/common';
+import { Request } from 'express';
+import { ApiExcludeController } from '@nestjs/swagger';
+import * as path from 'path';
+import { LocalStorageAdapter } from './local-storage.adapter';
+
+/**
+ * Signed download and upload routes for the local storage driver
+ *
+ * Stands in for GCS/S3 signed URLs: no JWT is required, access is granted by
+ * the HMAC signature issued in LocalStorageAdapter.getSignedUrl and
+ * getSignedUploadUrl.
+ * Only registered when DOC_PROCESSING_STORAGE_DRIVER=local.
+ */
+@ApiExcludeController()
+@Controller({ path: 'document-storage', version: '1' })
+export class LocalStorageController {
+  constructor(private readonly localStorage: LocalStorageAdapter) {}
+
+  @Get('download')
+  async download(
+    @Query('key') key: string,
+    @Query('expires') expires: string,
+    @Query('signature') signature: string,
+  ): Promise<StreamableFile> {
+    if (
+      !key ||
+      !signature ||
+      !this.localStorage.verifySignature(key, Number(expires), signature)
+    ) {
+      // Same response for tampered and expired links
+      throw new ForbiddenException('Invalid or expired download link');
+    }
+
+    const stream = await this.localStorage.openReadStream(key);
+    if (!stream) {
+      throw new NotFoundException('File not found');
+    }
+
+    return new StreamableFile(stream, {
+      type: 'application/octet-stream',
+      disposition: `attachment; filename*=UTF-8''${encodeURIComponent(path.basename(key))}`,
+    });
+  }
+
+  @Put('upload')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async upload(
+    @Query('key') key: string,
+    @Query('expires') expires: string,
+    @Query('size') size: string,
+    @Query('signature') signature: string,
+    @Req() req: Request,
+  ): Promise<void> {
+    if (
+      !key ||
+      !signature ||
+      !this.localStorage.verifyUploadSignature(
+        key,
+        Number(expires),
+        Number(size),
+        signature,
+      )
+    ) {
+      throw new ForbiddenException('Invalid or expired upload link');
+    }
+
+    // The declared size is verified again when the upload is completed
+    const written = await this.localStorage.writeStream(key, req, Number(size));
+    if (!written) {
+      throw new PayloadTooLargeException('File exceeds the declared size');
+    }
+  }
+}
@@ -0,0 +1,460 @@
+import {
+  Injectable,
+  Logger,
+  ServiceUnavailableException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  AbortMultipartUploadCommand,
+  CompleteMultipartUploadCommand,
+  CreateMultipartUploadCommand,
+  DeleteObjectCommand,
+  DeleteObjectsCommand,
+  GetObjectCommand,
+  ListObjectsV2Command,
+  PutObjectCommand,
+  S3Client,
+  UploadPartCopyCommand,
+} from '@aws-sdk/client-s3';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+import { Readable } from 'stream';
+import {
+  FileMetadata,
+  SignedUpload,
+  StorageServicePort,
+  StoredObjectInfo,
+} from '../../domain/ports/storage.service.port';
+import { AllConfigType } from '../../../config/config.type';
+import { inspectStream } from './inspect-stream';
+
+/**
+ * S3-Compatible Storage Adapter
+ *
+ * Stores documents in AWS S3 or any S3-compatible service (MinIO, Ceph, R2).
+ * Uses the same raw/processed key layout as the GCS adapter and returns
+ * s3://bucket/key URIs.
+ *
+ * Select with DOC_PROCESSING_STORAGE_DRIVER=s3
+ * MinIO: set DOC_PROCESSING_S3_ENDPOINT and DOC_PROCESSING_S3_FORCE_PATH_STYLE=true
+ *
+ * HIPAA Compliance:
+ * - Enable default bucket encryption (SSE-S3 or SSE-KMS) and block public access
+ * - AWS requires a BAA; self-hosted services must be on encrypted volumes
+ * - Never log object keys (they contain user and document identifiers)
+ */
+@Injectable()
+export class S3StorageAdapter implements StorageServicePort {
+  private readonly logger = new Logger(S3StorageAdapter.name);
+  private readonly s3: S3Client;
+  private readonly bucket: string;
+  private readonly rawPrefix: string;
+  private readonly processedPrefix: string;
+  private readonly uploadPrefix: string;
+
+  constructor(private readonly configService: ConfigService<AllConfigType>) {
+    const storage = this.configService.getOrThrow(
+      'documentProcessing.storage',
+      { infer: true },
+    );
+
+    if (!storage.s3.bucket) {
+      throw new Error('DOC_PROCESSING_S3_BUCKET is required for S3 storage');
+    }
+
+    this.bucket = storage.s3.bucket;
+    this.rawPrefix = storage.rawPrefix;
+    this.processedPrefix = storage.processedPrefix;
+    this.uploadPrefix = storage.uploadPrefix;
+
+    this.s3 = new S3Client({
+      region: storage.s3.region,
+      forcePathStyle: storage.s3.forcePathStyle,
+      ...(storage.s3.endpoint && { endpoint: storage.s3.endpoint }),
+      // Without explicit keys the AWS default credential chain is used
+      ...(storage.s3.accessKeyId &&
+        storage.s3.secretAccessKey && {
+          credentials: {
+            accessKeyId: storage.s3.accessKeyId,
+            secretAccessKey: storage.s3.secretAccessKey,
+          },
+        }),
+    });
+
+    this.logger.log('[S3 STORAGE] S3 storage adapter initialized');
+  }
+
+  async storeRaw(fileBuffer: Buffer, metadata: FileMetadata): Promise<string> {
+    const objectKey = `${this.rawPrefix}${metadata.userId}/${metadata.documentId}_${metadata.fileName}`;
+
+    try {
+      await this.s3.send(
+        new PutObjectCommand({
+          Bucket: this.bucket,
+          Key: objectKey,
+          Body: fileBuffer,
+          ContentType: metadata.mimeType,
+          Metadata: {
+            documentId: metadata.documentId,
+            userId: metadata.userId.toString(),
+            uploadedAt: new Date().toISOString(),
+          },
+        }),
+      );
+
+      this.logger.debug(
+        `Uploaded raw file for document ${metadata.documentId} (${(metadata.contentLength / 1024).toFixed(2)} KB)`,
+      );
+
+      return `s3://${this.bucket}/${objectKey}`;
+    } catch (error) {
+      this.logger.error(
+        `Failed to upload raw file for document ${metadata.documentId}: ${this.sanitizeError(error)}`,
+      );
+      throw new Error('Failed to upload document to storage');
+    }
+  }
+
+  async fetchRaw(uri: string): Promise<Buffer> {
+    try {
+      const { bucket, objectKey } = this.parseS3Uri(uri);
+      const response = await this.s3.send(
+        new GetObjectCommand({ Bucket: bucket, Key: objectKey }),
+      );
+
+      if (!response.Body) {
+        throw new Error('Empty response body');
+      }
+
+      const contents = Buffer.from(await response.Body.transformToByteArray());
+
+      this.logger.debug(
+        `Downloaded raw file (${(contents.length / 1024).toFixed(2)} KB)`,
+      );
+
+      return contents;
+    } catch (error) {
+      this.logger.error(
+        `Failed to download file from S3: ${this.sanitizeError(error)}`,
+      );
+      throw new Error('Failed to download document from storage');
+    }
+  }
+
+  async streamRaw(uri: string): Promise<Readable> {
+    try {
+      const { bucket, objectKey } = this.parseS3Uri(uri);
+      const response = await this.s3.send(
+        new GetObjectCommand({ Bucket: bucket, Key: objectKey }),
+      );
+
+      if (!response.Body) {
+        throw new Error('Empty response body');
+      }
+
+      // Node.js SDK bodies are Readable streams
+      return response.Body as Readable;
+    } catch (error) {
+      this.logger.error(
+        `Failed to download file from S3: ${this.sanitizeError(error)}`,
+      );
+      throw new Error('Failed to download document from storage');
+    }
+  }
+
+  async storeProcessed(jsonData: any, metadata: FileMetadata): Promise<string> {
+    const objectKey = `${this.processedPrefix}${metadata.userId}/${metadata.documentId}.json`;
+
+    try {
+      await this.s3.send(
+        new PutObjectCommand({
+          Bucket: this.bucket,
+          Key: objectKey,
+          Body: Buffer.from(JSON.stringify(jsonData, null, 2), 'utf-8'),
+          ContentType: 'application/json',
+          Metadata: {
+            documentId: metadata.documentId,
+            userId: metadata.userId.toString(),
+            processedAt: new Date().toISOString(),
+          },
+        }),
+      );
+
+      this.logger.debug(
+        `Stored processed output for document ${metadata.documentId}`,
+      );
+
+      return `s3://${this.bucket}/${objectKey}`;
+    } catch (error) {
+      this.logger.error(
+        `Failed to store processed output for document ${metadata.documentId}: ${this.sanitizeError(error)}`,
+      );
+      throw new Error('Failed to store processed document');
+    }
+  }
+
+  async delete(uri: string): Promise<void> {
+    try {
+      const { bucket, objectKey } = this.parseS3Uri(uri);
+
+      // S3 DeleteObject succeeds for missing keys (idempotent)
+      await this.s3.send(
+        new DeleteObjectCommand({ Bucket: bucket, Key: objectKey }),
+      );
+
+      this.logger.debug(
+        'Deleted file from S3 (hard delete for retention policy)',
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to delete file from S3: ${this.sanitizeError(error)}`,
+      );
+      throw new Error('Failed to delete file from storage');
+    }
+  }
+
+  async getSignedUrl(uri: string, expiresIn: number = 86400): Promise<string> {
+    try {
+      const { bucket, objectKey } = this.parseS3Uri(uri);
+
+      const url = await getSignedUrl(
+        this.s3,
+        new GetObjectCommand({ Bucket: bucket, Key: objectKey }),
+        { expiresIn },
+      );
+
+      this.logger.debug(`Generated signed URL (expires in ${expiresIn}s)`);
+
+      return url;
+    } catch (error) {
+      this.logger.error(
+        `Failed to generate signed URL: ${this.sanitizeError(error)}`,
+      );
+      // Return generic error to client (no internal details exposed)
+      throw new ServiceUnavailableException(
+        'Service temporarily unavailable. Please contact support if this issue persists.',
+      );
+    }
+  }
+
+  async getSignedUploadUrl(
+    metadata: FileMetadata,
+    expiresIn: number,
+  ): Promise<SignedUpload> {
+    const objectKey = `${this.rawPrefix}${metadata.userId}/${metadata.documentId}_${metadata.fileName}`;
+
+    try {
+      const url = await getSignedUrl(
+        this.s3,
+        new PutObjectCommand({
+          Bucket: this.bucket,
+          Key: objectKey,
+          ContentType: metadata.mimeType,
+        }),
+        { expiresIn, signableHeaders: new Set(['content-type']) },
+      );
+
+      this.logger.debug(
+        `Generated signed upload URL for document ${metadata.documentId} (expires in ${expiresIn}s)`,
+      );
+
+      return {
+        uri: `s3://${this.bucket}/${objectKey}`,
+        url,
+        method: 'PUT',
+        headers: { 'Content-Type': metadata.mimeType },
+        expiresAt: new Date(Date.now() + expiresIn * 1000),
+      };
+    } catch (error) {
+      this.logger.error(
+        `Failed to generate signed upload URL: ${this.sanitizeError(error)}`,
+      );
+      throw new ServiceUnavailableException(
+        'Service temporarily unavailable. Please contact support if this issue persists.',
+      );
+    }
+  }
+
+  async inspect(uri: string): Promise<StoredObjectInfo | null> {
+    try {
+      const { bucket, objectKey } = this.parseS3Uri(uri);
+      const response = await this.s3.send(
+        new GetObjectCommand({ Bucket: bucket, Key: objectKey }),
+      );
+
+      if (!response.Body) {
+        throw new Error('Empty response body');
+      }
+
+      // Node.js SDK bodies are Readable streams
+      return await inspectStream(
+        response.Body as unknown as AsyncIterable<Uint8Array>,
+      );
+    } catch (error) {
+      if (error?.name === 'NoSuchKey') {
+        return null;
+      }
+
+      this.logger.error(
+        `Failed to read file from S3: ${this.sanitizeError(error)}`,
+      );
+      throw new Error('Failed to download document from storage');
+    }
+  }
+
+  async storeUploadPart(
+    uploadId: string,
+    partName: string,
+    data: Buffer,
+  ): Promise<void> {
+    try {
+      await this.s3.send(
+        new PutObjectCommand({
+          Bucket: this.bucket,
+          Key: `${this.uploadPrefix}${uploadId}/${partName}`,
+          Body: data,
+        }),
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to store part for upload ${uploadId}: ${this.sanitizeError(error)}`,
+      );
+      throw new Error('Failed to upload document to storage');
+    }
+  }
+
+  /**
+   * Server-side concatenation: a multipart upload whose parts are copied from
+   * the staged objects (S3 requires every part but the last to be >= 5 MB)
+   */
+  async completeUpload(
+    uploadId: string,
+    partNames: string[],
+    metadata: FileMetadata,
+  ): Promise<string> {
+    const objectKey = `${this.rawPrefix}${metadata.userId}/${metadata.documentId}_${metadata.fileName}`;
+    let multipartUploadId: string | undefined;
+
+    try {
+      const multipartUpload = await this.s3.send(
+        new CreateMultipartUploadCommand({
+          Bucket: this.bucket,
+          Key: objectKey,
+          ContentType: metadata.mimeType,
+          Metadata: {
+            documentId: metadata.documentId,
+            userId: metadata.userId.toString(),
+            uploadedAt: new Date().toISOString(),
+          },
+        }),
+      );
+      multipartUploadId = multipartUpload.UploadId;
+
+      const parts: { ETag?: string; PartNumber: number }[] = [];
+      for (const [index, partName] of partNames.entries()) {
+        const copied = await this.s3.send(
+          new UploadPartCopyCommand({
+            Bucket: this.bucket,
+            Key: objectKey,
+            UploadId: multipartUploadId,
+            PartNumber: index + 1,
+            CopySource: `${this.bucket}/${this.uploadPrefix}${uploadId}/${partName}`,
+          }),
+        );
+        parts.push({
+          ETag: copied.CopyPartResult?.ETag,
+          PartNumber: index + 1,
+        });
+      }
+
+      await this.s3.send(
+        new CompleteMultipartUploadCommand({
+          Bucket: this.bucket,
+          Key: objectKey,
+          UploadId: multipartUploadId,
+          MultipartUpload: { Parts: parts },
+        }),
+      );
+    } catch (error) {
+      if (multipartUploadId) {
+        await this.s3
+          .send(
+            new AbortMultipartUploadCommand({
+              Bucket: this.bucket,
+              Key: objectKey,
+              UploadId: multipartUploadId,
+            }),
+          )
+          .catch(() => undefined);
+      }
+
+      this.logger.error(
+        `Failed to complete upload ${uploadId}: ${this.sanitizeError(error)}`,
+      );
+      throw new Error('Failed to upload document to storage');
+    }
+
+    // Best effort: parts are deleted again when the session expires
+    await this.abortUpload(uploadId).catch(() => undefined);
+
+    this.logger.debug(
+      `Assembled ${partNames.length} part(s) for document ${metadata.documentId} (${(metadata.contentLength / 1024).toFixed(2)} KB)`,
+    );
+
+    return `s3://${this.bucket}/${objectKey}`;
+  }
+
+  async abortUpload(uploadId: string): Promise<void> {
+    try {
+      const listed = await this.s3.send(
+        new ListObjectsV2Command({
+          Bucket: this.bucket,
+          Prefix: `${this.uploadPrefix}${uploadId}/`,
+        }),
+      );
+      const objects = (listed.Contents ?? []).map((object) => ({
+        Key: object.Key,
+      }));
+      if (objects.length === 0) {
+        return;
+      }
+
+      // At most 1000 keys per request; sessions stay far below that
+      await this.s3.send(
+        new DeleteObjectsCommand({
+          Bucket: this.bucket,
+          Delete: { Objects: objects, Quiet: true },
+        }),
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to delete parts of upload ${uploadId}: ${this.sanitizeError(error)}`,
+      );
+      throw new Error('Failed to delete file from storage');
+    }
+  }
+
+  /**
+   * Parse S3 URI into bucket and object key
+   * @param uri - s3://bucket-name/path/to/object
+   */
+  private parseS3Uri(uri: string): { bucket: string; objectKey: string } {
+    if (!uri.startsWith('s3://')) {
+      throw new Error('Invalid S3 URI format');
+    }
+
+    const parts = uri.replace('s3://', '').split('/');
+    return { bucket: parts[0], objectKey: parts.slice(1).join('/') };
+  }
+
+  /**
+   * Sanitize error messages to prevent leaking bucket and key names
+   */
+  private sanitizeError(error: any): string {
+    const message = error?.message || String(error);
+    return message
+      .replace(/s3:\/\/[^\s]+/g, '[S3_URI_REDACTED]')
+      .split(this.bucket)
+      .join('[BUCKET_REDACTED]')
+      .substring(0, 200);
+  }
+}
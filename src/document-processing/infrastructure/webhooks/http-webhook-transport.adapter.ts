@@ -0,0 +1,29 @@
+import { Injectable } from '@nestjs/common';
+import {
+  WebhookRequest,
+  WebhookTransportPort,
+} from '../../domain/ports/webhook-transport.port';
+
+/**
+ * HTTP Webhook Transport (fetch)
+ *
+ * Redirects are not followed: a subscriber that moved must be updated, so
+ * signed payloads are only ever sent to the registered URL.
+ */
+@Injectable()
+export class HttpWebhookTransportAdapter implements WebhookTransportPort {
+  async post(request: WebhookRequest): Promise<number> {
+    const response = await fetch(request.url, {
+      method: 'POST',
+      headers: request.headers,
+      body: request.body,
+      redirect: 'manual',
+      signal: AbortSignal.timeout(request.timeoutMs),
+    });
+
+    // Response bodies may echo anything - discard without reading
+    await response.body?.cancel();
+
+    return response.status;
+  }
+}
@@ -0,0 +1,79 @@
+import {
+  Injectable,
+  Logger,
+  OnApplicationBootstrap,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { DocumentWebhooksDomainService } from '../../domain/services/document-webhooks.domain.service';
+import { AllConfigType } from '../../../config/config.type';
+
+// Deliveries attempted in parallel per poll
+const DELIVERY_BATCH_SIZE = 10;
+
+/**
+ * Webhook Delivery Worker
+ *
+ * Polls the delivery log for due deliveries (first attempts and retries) and
+ * sends them. Runs on the same instances as the processing worker
+ * (DOC_PROCESSING_QUEUE_WORKER_ENABLED) and at the same poll interval.
+ */
+@Injectable()
+export class WebhookDeliveryWorker
+  implements OnApplicationBootstrap, OnModuleDestroy
+{
+  private readonly logger = new Logger(WebhookDeliveryWorker.name);
+  private pollTimer?: NodeJS.Timeout;
+  private polling = false;
+  private stopped = false;
+
+  constructor(
+    private readonly webhooksService: DocumentWebhooksDomainService,
+    private readonly configService: ConfigService<AllConfigType>,
+  ) {}
+
+  onApplicationBootstrap(): void {
+    const { workerEnabled, pollIntervalMs } = this.configService.getOrThrow(
+      'documentProcessing.queue',
+      { infer: true },
+    );
+    if (!workerEnabled) {
+      return;
+    }
+
+    this.pollTimer = setInterval(() => {
+      void this.poll();
+    }, pollIntervalMs);
+
+    this.logger.log('[WEBHOOKS] Delivery worker started');
+  }
+
+  onModuleDestroy(): void {
+    this.stopped = true;
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+    }
+  }
+
+  /**
+   * Send due deliveries until none are left
+   */
+  async poll(): Promise<void> {
+    if (this.polling || this.stopped) return;
+    this.polling = true;
+
+    try {
+      while (
+        !this.stopped &&
+        (await this.webhooksService.deliverDue(DELIVERY_BATCH_SIZE)) ===
+          DELIVERY_BATCH_SIZE
+      ) {
+        // Full batch: more deliveries may be due
+      }
+    } catch (error) {
+      this.logger.error(`[WEBHOOKS] Poll failed: ${error.message}`);
+    } finally {
+      this.polling = false;
+    }
+  }
+}
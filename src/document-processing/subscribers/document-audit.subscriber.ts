@@ -0,0 +1,354 @@
+import { Injectable, OnModuleInit } from '@nestjs/common';
+import { AuditService } from '../../audit/audit.service';
+import { DomainEventBus } from '../../domain-events/domain-event-bus.service';
+import {
+  DomainEventName,
+  WebhookSubscriptionChangedPayload,
+} from '../../domain-events/domain/domain-event';
+import { DocumentEventType } from '../domain/enums/document-event-type.enum';
+
+const SUBSCRIBER = 'document-audit';
+
+/**
+ * Audits document lifecycle events
+ *
+ * HIPAA Compliance:
+ * - Every lifecycle change is audited; the HARD_DELETED record persists after
+ *   the document itself is gone
+ * - Every access, search, denied access and grant change is audited;
+ *   access by another user records the owner as subject (owner's access
+ *   history)
+ * - Webhook subscription changes are audited for the admin who made them
+ */
+@Injectable()
+export class DocumentAuditSubscriber implements OnModuleInit {
+  constructor(
+    private readonly eventBus: DomainEventBus,
+    private readonly auditService: AuditService,
+  ) {}
+
+  onModuleInit(): void {
+    this.eventBus.subscribe(
+      DomainEventName.DOCUMENT_UPLOADED,
+      SUBSCRIBER,
+      ({ payload }) =>
+        this.auditService.record({
+          userId: payload.userId,
+          provider: 'document-processing',
+          event: DocumentEventType.DOCUMENT_UPLOADED,
+          success: true,
+          metadata: {
+            documentId: payload.documentId,
+            documentType: payload.documentType,
+            fileSize: payload.fileSize,
+            duplicateOf: payload.duplicateOf,
+          },
+        }),
+    );
+
+    this.eventBus.subscribe(
+      DomainEventName.DOCUMENT_UPLOAD_REJECTED,
+      SUBSCRIBER,
+      ({ payload }) =>
+        this.auditService.record({
+          userId: payload.userId,
+          provider: 'document-processing',
+          event: DocumentEventType.DOCUMENT_UPLOAD_REJECTED,
+          success: false,
+          errorMessage: payload.reason,
+          metadata: { documentId: payload.documentId },
+        }),
+    );
+
+    this.eventBus.subscribe(
+      DomainEventName.DOCUMENT_QUARANTINED,
+      SUBSCRIBER,
+      ({ payload }) =>
+        this.auditService.record({
+          userId: payload.userId,
+          provider: 'document-processing',
+          event: DocumentEventType.DOCUMENT_QUARANTINED,
+          success: false,
+          errorMessage: payload.errorMessage,
+          metadata: {
+            documentId: payload.documentId,
+            reason: payload.reason,
+            declaredMimeType: payload.declaredMimeType,
+            detectedMimeType: payload.detectedMimeType,
+            signature: payload.signature,
+          },
+        }),
+    );
+
+    this.eventBus.subscribe(
+      DomainEventName.DOCUMENT_PROCESSED,
+      SUBSCRIBER,
+      ({ payload }) =>
+        this.auditService.record({
+          userId: payload.userId,
+          provider: 'document-processing',
+          event: DocumentEventType.DOCUMENT_PROCESSING_COMPLETED,
+          success: true,
+          metadata: payload.duplicateOf
+            ? {
+                documentId: payload.documentId,
+                duplicateOf: payload.duplicateOf,
+                entitiesCount: payload.entitiesCount,
+              }
+            : {
+                documentId: payload.documentId,
+                runId: payload.runId,
+                promoted: payload.promoted,
+                confidence: payload.confidence,
+                entitiesCount: payload.entitiesCount,
+              },
+        }),
+    );
+
+    this.eventBus.subscribe(
+      DomainEventName.DOCUMENT_PROCESSING_FAILED,
+      SUBSCRIBER,
+      ({ payload }) =>
+        this.auditService.record({
+          userId: payload.userId,
+          provider: 'document-processing',
+          event: DocumentEventType.DOCUMENT_PROCESSING_FAILED,
+          success: false,
+          errorMessage: payload.errorMessage,
+          metadata: {
+            documentId: payload.documentId,
+            retryCount: payload.retryCount,
+          },
+        }),
+    );
+
+    this.eventBus.subscribe(
+      DomainEventName.DOCUMENT_REPROCESS_REQUESTED,
+      SUBSCRIBER,
+      ({ payload }) =>
+        this.auditService.record({
+          userId: payload.requestedByUserId,
+          subjectUserId: payload.userId,
+          provider: 'document-processing',
+          event: DocumentEventType.DOCUMENT_REPROCESS_REQUESTED,
+          success: true,
+          metadata: {
+            documentId: payload.documentId,
+            runId: payload.runId,
+            pipelineVersion: payload.pipelineVersion,
+            previousPipelineVersion: payload.previousPipelineVersion,
+            promote: payload.promote,
+          },
+        }),
+    );
+
+    this.eventBus.subscribe(
+      DomainEventName.DOCUMENT_RUN_PROMOTED,
+      SUBSCRIBER,
+      ({ payload }) =>
+        this.auditService.record({
+          userId: payload.userId,
+          provider: 'document-processing',
+          event: DocumentEventType.DOCUMENT_RUN_PROMOTED,
+          success: true,
+          metadata: {
+            documentId: payload.documentId,
+            runId: payload.runId,
+            previousRunId: payload.previousRunId,
+            pipelineVersion: payload.pipelineVersion,
+          },
+        }),
+    );
+
+    this.eventBus.subscribe(
+      DomainEventName.DOCUMENT_ACCESSED,
+      SUBSCRIBER,
+      ({ payload }) =>
+        this.auditService.record({
+          userId: payload.accessedByUserId,
+          subjectUserId: payload.userId,
+          provider: 'document-processing',
+          event: DocumentEventType.DOCUMENT_ACCESSED,
+          success: true,
+          metadata: {
+            documentId: payload.documentId,
+            ...(payload.grantId && {
+              grantId: payload.grantId,
+              scope: payload.scope,
+            }),
+            ...(payload.view && { view: payload.view }),
+          },
+        }),
+    );
+
+    this.eventBus.subscribe(
+      DomainEventName.DOCUMENT_ACCESS_DENIED,
+      SUBSCRIBER,
+      ({ payload }) =>
+        this.auditService.record({
+          userId: payload.userId,
+          subjectUserId: payload.ownerUserId ?? payload.userId,
+          provider: 'document-processing',
+          event: DocumentEventType.UNAUTHORIZED_DOCUMENT_ACCESS,
+          success: false,
+          metadata: payload.uploadId
+            ? { uploadId: payload.uploadId, action: payload.action }
+            : { documentId: payload.documentId, action: payload.action },
+        }),
+    );
+
+    this.eventBus.subscribe(
+      DomainEventName.DOCUMENTS_SEARCHED,
+      SUBSCRIBER,
+      ({ payload }) =>
+        this.auditService.record({
+          userId: payload.userId,
+          provider: 'document-processing',
+          event: DocumentEventType.DOCUMENTS_SEARCHED,
+          success: true,
+          metadata: {
+            total: payload.total,
+            documentIds: payload.documentIds,
+          },
+        }),
+    );
+
+    this.eventBus.subscribe(
+      DomainEventName.DOCUMENT_GRANT_CREATED,
+      SUBSCRIBER,
+      ({ payload }) =>
+        this.auditService.record({
+          userId: payload.userId,
+          provider: 'document-processing',
+          event: DocumentEventType.DOCUMENT_GRANT_CREATED,
+          success: true,
+          metadata: {
+            documentId: payload.documentId,
+            grantId: payload.grantId,
+            granteeUserId: payload.granteeUserId,
+            emailInvite: payload.emailInvite,
+            scopes: payload.scopes,
+            expiresAt: payload.expiresAt,
+          },
+        }),
+    );
+
+    this.eventBus.subscribe(
+      DomainEventName.DOCUMENT_GRANT_REVOKED,
+      SUBSCRIBER,
+      ({ payload }) =>
+        this.auditService.record({
+          userId: payload.userId,
+          provider: 'document-processing',
+          event: DocumentEventType.DOCUMENT_GRANT_REVOKED,
+          success: true,
+          metadata: {
+            documentId: payload.documentId,
+            grantId: payload.grantId,
+          },
+        }),
+    );
+
+    this.eventBus.subscribe(
+      DomainEventName.DOCUMENT_GRANT_USED,
+      SUBSCRIBER,
+      ({ payload }) =>
+        this.auditService.record({
+          userId: payload.granteeUserId,
+          subjectUserId: payload.userId,
+          provider: 'document-processing',
+          event: DocumentEventType.DOCUMENT_GRANT_USED,
+          success: true,
+          metadata: {
+            documentId: payload.documentId,
+            grantId: payload.grantId,
+            grantedByUserId: payload.userId,
+            scope: payload.scope,
+          },
+        }),
+    );
+
+    this.eventBus.subscribe(
+      DomainEventName.DOCUMENT_DELETED,
+      SUBSCRIBER,
+      ({ payload }) =>
+        this.auditService.record({
+          userId: payload.userId,
+          provider: 'document-processing',
+          event: DocumentEventType.DOCUMENT_DELETED,
+          success: true,
+          metadata: {
+            documentId: payload.documentId,
+            scheduledDeletionAt: payload.scheduledDeletionAt,
+          },
+        }),
+    );
+
+    this.eventBus.subscribe(
+      DomainEventName.DOCUMENT_HARD_DELETED,
+      SUBSCRIBER,
+      ({ payload }) =>
+        this.auditService.record({
+          userId: payload.userId,
+          provider: 'document-processing',
+          event: DocumentEventType.DOCUMENT_HARD_DELETED,
+          success: true,
+          metadata: {
+            documentId: payload.documentId,
+            documentType: payload.documentType,
+            deletedAt: payload.deletedAt,
+            retentionYears: payload.retentionYears,
+            reason: 'scheduled_cleanup',
+          },
+        }),
+    );
+
+    this.eventBus.subscribe(
+      DomainEventName.WEBHOOK_SUBSCRIPTION_CREATED,
+      SUBSCRIBER,
+      ({ payload }) =>
+        this.auditWebhookSubscription(
+          DocumentEventType.WEBHOOK_SUBSCRIPTION_CREATED,
+          payload,
+        ),
+    );
+
+    this.eventBus.subscribe(
+      DomainEventName.WEBHOOK_SUBSCRIPTION_UPDATED,
+      SUBSCRIBER,
+      ({ payload }) =>
+        this.auditWebhookSubscription(
+          DocumentEventType.WEBHOOK_SUBSCRIPTION_UPDATED,
+          payload,
+        ),
+    );
+
+    this.eventBus.subscribe(
+      DomainEventName.WEBHOOK_SUBSCRIPTION_DELETED,
+      SUBSCRIBER,
+      ({ payload }) =>
+        this.auditWebhookSubscription(
+          DocumentEventType.WEBHOOK_SUBSCRIPTION_DELETED,
+          payload,
+        ),
+    );
+  }
+
+  private auditWebhookSubscription(
+    event: DocumentEventType,
+    payload: WebhookSubscriptionChangedPayload,
+  ): Promise<void> {
+    return this.auditService.record({
+      userId: payload.userId,
+      provider: 'document-processing',
+      event,
+      success: true,
+      metadata: {
+        subscriptionId: payload.subscriptionId,
+        name: payload.name,
+        events: payload.events,
+        active: payload.active,
+      },
+    });
+  }
+}
@@ -0,0 +1,40 @@
+import { Injectable, OnModuleInit } from '@nestjs/common';
+import { DomainEventBus } from '../../domain-events/domain-event-bus.service';
+import { DomainEventName } from '../../domain-events/domain/domain-event';
+import { DocumentSearchDomainService } from '../domain/services/document-search.domain.service';
+
+const SUBSCRIBER = 'document-search-index';
+
+/**
+ * Keeps the full-text search index in step with document results
+ * (see DocumentSearchDomainService)
+ */
+@Injectable()
+export class DocumentSearchIndexSubscriber implements OnModuleInit {
+  constructor(
+    private readonly eventBus: DomainEventBus,
+    private readonly search: DocumentSearchDomainService,
+  ) {}
+
+  onModuleInit(): void {
+    // A run completed without promotion leaves the results, and so the
+    // index entry, unchanged; re-indexing is harmless
+    this.eventBus.subscribe(
+      DomainEventName.DOCUMENT_PROCESSED,
+      SUBSCRIBER,
+      ({ payload }) => this.search.index(payload.documentId),
+    );
+    this.eventBus.subscribe(
+      DomainEventName.DOCUMENT_RUN_PROMOTED,
+      SUBSCRIBER,
+      ({ payload }) => this.search.index(payload.documentId),
+    );
+
+    // HIPAA: deleted documents must not be searchable
+    this.eventBus.subscribe(
+      DomainEventName.DOCUMENT_DELETED,
+      SUBSCRIBER,
+      ({ payload }) => this.search.purge(payload.documentId),
+    );
+  }
+}
@@ -0,0 +1,62 @@
+import { Injectable, OnModuleInit } from '@nestjs/common';
+import { DomainEventBus } from '../../domain-events/domain-event-bus.service';
+import {
+  DomainEvent,
+  DomainEventName,
+} from '../../domain-events/domain/domain-event';
+import { DocumentEventType } from '../domain/enums/document-event-type.enum';
+import { DocumentWebhooksDomainService } from '../domain/services/document-webhooks.domain.service';
+
+const SUBSCRIBER = 'document-webhooks';
+
+// Webhook event type of each document domain event
+const WEBHOOK_EVENTS = {
+  [DomainEventName.DOCUMENT_UPLOADED]: DocumentEventType.DOCUMENT_UPLOADED,
+  [DomainEventName.DOCUMENT_QUARANTINED]:
+    DocumentEventType.DOCUMENT_QUARANTINED,
+  [DomainEventName.DOCUMENT_PROCESSED]:
+    DocumentEventType.DOCUMENT_PROCESSING_COMPLETED,
+  [DomainEventName.DOCUMENT_PROCESSING_FAILED]:
+    DocumentEventType.DOCUMENT_PROCESSING_FAILED,
+  [DomainEventName.DOCUMENT_RUN_PROMOTED]:
+    DocumentEventType.DOCUMENT_RUN_PROMOTED,
+  [DomainEventName.DOCUMENT_DELETED]: DocumentEventType.DOCUMENT_DELETED,
+  [DomainEventName.DOCUMENT_HARD_DELETED]:
+    DocumentEventType.DOCUMENT_HARD_DELETED,
+} as const;
+
+type WebhookDomainEventName = keyof typeof WEBHOOK_EVENTS;
+
+/**
+ * Queues webhook deliveries for document lifecycle events
+ * (see DocumentWebhooksDomainService)
+ */
+@Injectable()
+export class DocumentWebhooksSubscriber implements OnModuleInit {
+  constructor(
+    private readonly eventBus: DomainEventBus,
+    private readonly webhooks: DocumentWebhooksDomainService,
+  ) {}
+
+  onModuleInit(): void {
+    for (const name of Object.keys(
+      WEBHOOK_EVENTS,
+    ) as WebhookDomainEventName[]) {
+      this.eventBus.subscribe(name, SUBSCRIBER, (event) => this.notify(event));
+    }
+  }
+
+  private async notify(
+    event: DomainEvent<WebhookDomainEventName>,
+  ): Promise<void> {
+    const { documentId, userId } = event.payload;
+    const runId = 'runId' in event.payload ? event.payload.runId : undefined;
+
+    await this.webhooks.notify(
+      WEBHOOK_EVENTS[event.name],
+      { id: documentId, userId },
+      runId,
+      { eventId: event.id, occurredAt: event.occurredAt },
+    );
+  }
+}
@@ -0,0 +1,288 @@
+/**
+ * CVX Vaccine Codes
+ *
+ * Offline mapping of vaccine names, abbreviations and brand names to CDC CVX
+ * codes (https://www2a.cdc.gov/vaccines/iis/iisstandards/vaccines.asp).
+ * Bundled with the service (no lookup leaves the infrastructure). Names that
+ * do not identify a formulation map to the "unspecified formulation" code of
+ * the vaccine, e.g. every COVID-19 dose maps to 213.
+ *
+ * Extend by adding entries; codes must stay stable (stored on Immunization
+ * rows and used to consolidate immunization histories).
+ */
+interface CvxEntry {
+  cvxCode: string;
+  vaccineName: string; // CVX short description
+  names: string[]; // Matched case-insensitively
+  abbreviations?: string[]; // Matched as written (short, ambiguous otherwise)
+}
+
+const CVX_CODES: CvxEntry[] = [
+  {
+    cvxCode: '03',
+    vaccineName: 'MMR',
+    names: ['measles mumps rubella', 'm-m-r ii', 'mmr ii', 'priorix'],
+    abbreviations: ['MMR'],
+  },
+  {
+    cvxCode: '94',
+    vaccineName: 'MMRV',
+    names: ['measles mumps rubella varicella', 'proquad'],
+    abbreviations: ['MMRV'],
+  },
+  {
+    cvxCode: '21',
+    vaccineName: 'varicella',
+    names: ['varicella', 'chickenpox', 'chicken pox', 'varivax'],
+    abbreviations: ['VAR'],
+  },
+  {
+    cvxCode: '107',
+    vaccineName: 'DTaP, unspecified formulation',
+    names: [
+      'dtap',
+      'diphtheria tetanus acellular pertussis',
+      'daptacel',
+      'infanrix',
+    ],
+  },
+  {
+    cvxCode: '110',
+    vaccineName: 'DTaP-Hep B-IPV',
+    names: ['dtap-hepb-ipv', 'dtap-hep b-ipv', 'pediarix'],
+  },
+  {
+    cvxCode: '120',
+    vaccineName: 'DTaP-Hib-IPV',
+    names: ['dtap-hib-ipv', 'pentacel'],
+  },
+  {
+    cvxCode: '130',
+    vaccineName: 'DTaP-IPV',
+    names: ['dtap-ipv', 'kinrix', 'quadracel'],
+  },
+  {
+    cvxCode: '115',
+    vaccineName: 'Tdap',
+    names: ['tdap', 'boostrix', 'adacel'],
+  },
+  {
+    cvxCode: '139',
+    vaccineName: 'Td(adult) unspecified formulation',
+    names: ['tetanus diphtheria', 'tenivac', 'tdvax'],
+    abbreviations: ['Td'],
+  },
+  {
+    cvxCode: '10',
+    vaccineName: 'IPV',
+    names: ['polio', 'inactivated polio', 'ipol'],
+    abbreviations: ['IPV'],
+  },
+  {
+    cvxCode: '17',
+    vaccineName: 'Hib, unspecified formulation',
+    names: ['haemophilus influenzae type b', 'acthib', 'hiberix', 'pedvaxhib'],
+    abbreviations: ['Hib', 'HIB'],
+  },
+  {
+    cvxCode: '45',
+    vaccineName: 'Hep B, unspecified formulation',
+    names: [
+      'hepatitis b',
+      'hep b',
+      'hepb',
+      'engerix-b',
+      'recombivax',
+      'heplisav-b',
+    ],
+    abbreviations: ['HBV'],
+  },
+  {
+    cvxCode: '85',
+    vaccineName: 'Hep A, unspecified formulation',
+    names: ['hepatitis a', 'hep a', 'hepa', 'havrix', 'vaqta'],
+    abbreviations: ['HAV'],
+  },
+  {
+    cvxCode: '104',
+    vaccineName: 'Hep A-Hep B',
+    names: ['hepatitis a and b', 'hep a-hep b', 'twinrix'],
+  },
+  {
+    cvxCode: '109',
+    vaccineName: 'pneumococcal, unspecified formulation',
+    names: ['pneumococcal', 'pneumonia vaccine'],
+  },
+  {
+    cvxCode: '133',
+    vaccineName: 'Pneumococcal conjugate PCV 13',
+    names: ['pcv13', 'pcv 13', 'prevnar 13', 'prevnar13'],
+  },
+  {
+    cvxCode: '215',
+    vaccineName: 'Pneumococcal conjugate PCV15',
+    names: ['pcv15', 'pcv 15', 'vaxneuvance'],
+  },
+  {
+    cvxCode: '216',
+    vaccineName: 'Pneumococcal conjugate PCV20',
+    names: ['pcv20', 'pcv 20', 'prevnar 20', 'prevnar20'],
+  },
+  {
+    cvxCode: '33',
+    vaccineName: 'pneumococcal polysaccharide PPV23',
+    names: ['ppsv23', 'ppsv 23', 'ppv23', 'pneumovax', 'pneumovax 23'],
+  },
+  {
+    cvxCode: '137',
+    vaccineName: 'HPV, unspecified formulation',
+    names: ['human papillomavirus', 'papillomavirus', 'gardasil'],
+    abbreviations: ['HPV'],
+  },
+  {
+    cvxCode: '165',
+    vaccineName: 'HPV9',
+    names: ['hpv9', '9vhpv', 'gardasil 9', 'gardasil9'],
+  },
+  {
+    cvxCode: '108',
+    vaccineName: 'meningococcal ACWY, unspecified formulation',
+    names: [
+      'meningococcal',
+      'meningococcal acwy',
+      'meningococcal conjugate',
+      'menacwy',
+      'mcv4',
+      'menactra',
+      'menveo',
+      'menquadfi',
+    ],
+  },
+  {
+    cvxCode: '164',
+    vaccineName: 'meningococcal B, unspecified formulation',
+    names: ['meningococcal b', 'menb', 'bexsero', 'trumenba'],
+  },
+  {
+    cvxCode: '122',
+    vaccineName: 'rotavirus, unspecified formulation',
+    names: ['rotavirus', 'rotateq', 'rotarix'],
+  },
+  {
+    cvxCode: '88',
+    vaccineName: 'influenza, unspecified formulation',
+    names: [
+      'influenza',
+      'flu shot',
+      'flu vaccine',
+      'afluria',
+      'fluad',
+      'fluarix',
+      'flublok',
+      'flucelvax',
+      'flulaval',
+      'fluzone',
+    ],
+    abbreviations: ['Flu', 'FLU', 'IIV', 'IIV4'],
+  },
+  {
+    cvxCode: '111',
+    vaccineName: 'influenza, live, intranasal',
+    names: ['flumist', 'live attenuated influenza'],
+    abbreviations: ['LAIV', 'LAIV4'],
+  },
+  {
+    cvxCode: '188',
+    vaccineName: 'zoster, unspecified formulation',
+    names: ['zoster', 'shingles'],
+  },
+  {
+    cvxCode: '187',
+    vaccineName: 'zoster recombinant',
+    names: ['recombinant zoster', 'shingrix'],
+    abbreviations: ['RZV'],
+  },
+  {
+    cvxCode: '121',
+    vaccineName: 'zoster live',
+    names: ['zostavax'],
+    abbreviations: ['ZVL'],
+  },
+  {
+    cvxCode: '213',
+    vaccineName: 'SARS-COV-2 (COVID-19) vaccine, UNSPECIFIED FORMULATION',
+    names: ['covid-19', 'covid', 'sars-cov-2', 'comirnaty', 'spikevax'],
+  },
+  {
+    cvxCode: '91',
+    vaccineName: 'typhoid, unspecified formulation',
+    names: ['typhoid', 'typhim vi', 'vivotif'],
+  },
+  {
+    cvxCode: '37',
+    vaccineName: 'yellow fever',
+    names: ['yellow fever', 'yf-vax', 'stamaril'],
+  },
+  {
+    cvxCode: '90',
+    vaccineName: 'rabies, unspecified formulation',
+    names: ['rabies', 'imovax', 'rabavert'],
+  },
+];
+
+export interface CvxMatch {
+  cvxCode: string;
+  vaccineName: string;
+  printedName: string; // As printed
+  index: number; // Position in the text
+}
+
+interface NamePattern {
+  pattern: RegExp;
+  length: number;
+  entry: CvxEntry;
+}
+
+// All names, longest first: "DTaP-IPV" wins over "DTaP", "Hep A-Hep B"
+// over "Hep A"
+const NAME_PATTERNS: NamePattern[] = CVX_CODES.flatMap((entry) => [
+  ...entry.names.map((name) => ({
+    pattern: namePattern(name, 'gi'),
+    length: name.length,
+    entry,
+  })),
+  ...(entry.abbreviations ?? []).map((abbreviation) => ({
+    pattern: namePattern(abbreviation, 'g'),
+    length: abbreviation.length,
+    entry,
+  })),
+]).sort((a, b) => b.length - a.length);
+
+/**
+ * Find the first vaccine named in a text (the longest name at that position)
+ */
+export function findVaccine(text: string): CvxMatch | undefined {
+  let best: CvxMatch | undefined;
+  for (const { pattern, entry } of NAME_PATTERNS) {
+    pattern.lastIndex = 0;
+    const match = pattern.exec(text);
+    // Longest names come first: only an earlier match replaces the best
+    if (match && (!best || match.index < best.index)) {
+      best = {
+        cvxCode: entry.cvxCode,
+        vaccineName: entry.vaccineName,
+        printedName: match[0],
+        index: match.index,
+      };
+    }
+  }
+  return best;
+}
+
+// Spaces and hyphens are interchangeable ("Hep B", "Hep-B", "HepB" listed)
+function namePattern(name: string, flags: string): RegExp {
+  const escaped = name
+    .replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+    .replace(/[\s-]+/g, '[\\s-]+');
+  return new RegExp(`(?<![A-Za-z0-9])${escaped}(?![A-Za-z0-9])`, flags);
+}
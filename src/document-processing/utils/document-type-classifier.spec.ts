@@ -0,0 +1,98 @@
+import { classifyDocumentType } from './document-type-classifier';
+import { DocumentType } from '../domain/enums/document-type.enum';
+
+describe('classifyDocumentType', () => {
+  it('should recognize each document type from its keywords and structure', () => {
+    const samples: Array<[DocumentType, string[]]> = [
+      [
+        DocumentType.LAB_RESULT,
+        [
+          'Quest Diagnostics  Laboratory Report',
+          'Specimen: Serum  Collected: 03/14/2024',
+          'Test  Result  Flag  Units  Reference Range',
+          'Glucose 105 H mg/dL 65-99',
+          'Creatinine 0.9 mg/dL 0.6-1.3',
+          'Potassium 4.1 mmol/L 3.5-5.3',
+        ],
+      ],
+      [
+        DocumentType.PRESCRIPTION,
+        [
+          'Rx: Lisinopril 10 mg tablet',
+          'Sig: 1 tab PO daily',
+          'Disp: #30  Refills: 3',
+          'Jane Smith, MD  DEA: AB1234563',
+        ],
+      ],
+      [
+        DocumentType.MEDICAL_RECORD,
+        [
+          'Office Visit Note',
+          'Chief Complaint: cough for 2 weeks',
+          'History of Present Illness: ...',
+          'Vital Signs: BP 128/82',
+          'Assessment and Plan: acute bronchitis',
+        ],
+      ],
+      [
+        DocumentType.INSURANCE_CARD,
+        [
+          'Blue Cross Blue Shield  PPO',
+          'Member ID: XYZ123456789',
+          'Group #: 98765',
+          'RxBIN: 004336  RxPCN: ADV',
+          'Copay: PCP $25  Specialist $50',
+        ],
+      ],
+      [
+        DocumentType.IMAGING_REPORT,
+        [
+          'Department of Radiology',
+          'Exam: CT chest with contrast',
+          'Technique: Axial images were obtained',
+          'Findings: No pulmonary embolism.',
+          'Impression: No acute findings.',
+        ],
+      ],
+      [
+        DocumentType.IMMUNIZATION_RECORD,
+        [
+          'COVID-19 Vaccination Record Card',
+          '1st Dose COVID-19 | Pfizer EW0182 | 01/12/21 | CVS Pharmacy',
+          '2nd Dose | Pfizer FF2587 | 02/02/21 | CVS Pharmacy',
+        ],
+      ],
+    ];
+
+    for (const [documentType, lines] of samples) {
+      const classification = classifyDocumentType(lines.join('\n'));
+      expect(classification.documentType).toBe(documentType);
+      expect(classification.confidence).toBeGreaterThanOrEqual(0.8);
+    }
+  });
+
+  it('should lower the confidence when another type scores close', () => {
+    const classification = classifyDocumentType(
+      [
+        'Discharge Summary',
+        'Assessment and Plan: community acquired pneumonia',
+        'Discharge medications:',
+        'Amoxicillin 500 mg capsule',
+        'Sig: 1 cap PO TID x 7 days',
+        'Refills: 0',
+      ].join('\n'),
+    );
+
+    expect(classification.documentType).toBe(DocumentType.MEDICAL_RECORD);
+    expect(classification.confidence).toBeLessThan(0.8);
+  });
+
+  it('should predict OTHER when no type has enough evidence', () => {
+    const classification = classifyDocumentType(
+      'Thank you for your payment.\nAccount balance: $0.00',
+    );
+
+    expect(classification.documentType).toBe(DocumentType.OTHER);
+    expect(classification.confidence).toBe(1);
+  });
+});
@@ -0,0 +1,203 @@
+import { DocumentType } from '../domain/enums/document-type.enum';
+import { InsuranceCardFieldKey } from '../domain/enums/insurance-card-field-key.enum';
+import { extractImmunizations } from './immunization-extractor';
+import { extractInsuranceCardFields } from './insurance-card-extractor';
+import { parseLabResultRows } from './lab-result-table-parser';
+import { extractMedications } from './medication-parser';
+
+/**
+ * Document Type Classifier
+ *
+ * Predicts the type of a document from its extracted text, so documents
+ * uploaded as OTHER (or as the wrong type) still reach the right extractors.
+ * Runs in-process, no text leaves the service.
+ *
+ * Each type is scored from weighted features: keywords and headings
+ * ("Reference Range", "Vaccination Record Card", "RxBIN") and the structure
+ * the type's extractor finds (lab rows with a reference range, medications
+ * with a sig, vaccine doses, member and group numbers). The best score wins
+ * if it is high enough; confidence grows with the score and with its margin
+ * over the runner-up.
+ *
+ * HIPAA Compliance:
+ * - This is processing PHI - never log the text, only types and scores
+ */
+
+export interface DocumentTypeClassification {
+  documentType: DocumentType; // OTHER if no type scores high enough
+  confidence: number; // 0-1
+  scores: Partial<Record<DocumentType, number>>; // Per type, for diagnostics
+}
+
+interface Feature {
+  pattern: RegExp;
+  weight: number;
+}
+
+// Counted once per document, however often they occur
+const KEYWORD_FEATURES: Partial<Record<DocumentType, Feature[]>> = {
+  [DocumentType.LAB_RESULT]: [
+    { pattern: /\b(?:laboratory|lab)\s+(?:report|results?)\b/i, weight: 3 },
+    { pattern: /\b(?:reference|ref\.?)\s*(?:range|interval)\b/i, weight: 3 },
+    { pattern: /\b(?:specimen|collected|collection date)\b/i, weight: 1 },
+    {
+      pattern: /\b(?:cbc|cmp|bmp|lipid panel|hemoglobin a1c|urinalysis)\b/i,
+      weight: 2,
+    },
+    { pattern: /\b(?:quest diagnostics|labcorp)\b/i, weight: 2 },
+  ],
+  [DocumentType.PRESCRIPTION]: [
+    { pattern: /\bprescription\b/i, weight: 2 },
+    { pattern: /(?:^|\s)(?:rx|℞)\s*:/im, weight: 2 },
+    { pattern: /\bsig\s*:/i, weight: 3 },
+    { pattern: /\b(?:disp(?:ense)?|qty)\b/i, weight: 1 },
+    { pattern: /\brefills?\b/i, weight: 1 },
+    {
+      pattern: /\b(?:dea|npi)\s*(?:#|no\.?|number)?\s*:?\s*[A-Z0-9]/i,
+      weight: 2,
+    },
+    { pattern: /\b(?:substitution|dispense as written|daw)\b/i, weight: 2 },
+  ],
+  [DocumentType.MEDICAL_RECORD]: [
+    { pattern: /\bchief complaint\b/i, weight: 3 },
+    { pattern: /\bhistory of present illness\b|\bhpi\b/i, weight: 3 },
+    { pattern: /\bassessment(?:\s+and\s+|\s*\/\s*|\s*&\s*)plan\b/i, weight: 3 },
+    {
+      pattern: /\b(?:progress|office visit|clinic|consultation)\s+note\b/i,
+      weight: 2,
+    },
+    { pattern: /\bdischarge summary\b/i, weight: 3 },
+    {
+      pattern:
+        /\b(?:hospital course|admission date|discharge (?:diagnosis|date|medications))\b/i,
+      weight: 2,
+    },
+    { pattern: /\breview of systems\b|\bros\s*:/i, weight: 2 },
+    { pattern: /\b(?:physical exam(?:ination)?|vital signs)\b/i, weight: 2 },
+    { pattern: /\b(?:past medical history|pmh)\b/i, weight: 2 },
+  ],
+  [DocumentType.INSURANCE_CARD]: [
+    { pattern: /\b(?:member|subscriber)\s*(?:id|name)\b/i, weight: 2 },
+    { pattern: /\bgroup\s*(?:#|no\.?|number)\b/i, weight: 2 },
+    { pattern: /\brx\s*(?:bin|pcn|grp|group)\b/i, weight: 3 },
+    { pattern: /\bcopay\b|\bco-pay\b/i, weight: 2 },
+    { pattern: /\b(?:hmo|ppo|epo|pos|hdhp|medicare|medicaid)\b/i, weight: 1 },
+    { pattern: /\b(?:provider|member) services\b/i, weight: 1 },
+  ],
+  [DocumentType.IMAGING_REPORT]: [
+    { pattern: /\bradiology\b/i, weight: 3 },
+    { pattern: /\bimpression\s*:/i, weight: 3 },
+    { pattern: /\bfindings\s*:/i, weight: 2 },
+    { pattern: /\btechnique\s*:/i, weight: 2 },
+    { pattern: /\bcomparison\s*:/i, weight: 1 },
+    {
+      pattern:
+        /\b(?:mri|ct|x-ray|xray|radiograph|ultrasound|sonogram|mammogram|pet\/ct|dexa)\b/i,
+      weight: 2,
+    },
+    { pattern: /\b(?:contrast|views?|axial|sagittal)\b/i, weight: 1 },
+    { pattern: /\bradiologist\b/i, weight: 2 },
+  ],
+  [DocumentType.IMMUNIZATION_RECORD]: [
+    { pattern: /\b(?:immunization|vaccination)s?\b/i, weight: 3 },
+    {
+      pattern:
+        /\b(?:vaccin(?:e|ation)|immunization)\s+(?:record|card|history|certificate)\b/i,
+      weight: 2,
+    },
+    { pattern: /\b(?:cvx|vis date)\b/i, weight: 2 },
+    { pattern: /\blot\s*(?:#|no\.?|number)?\b/i, weight: 1 },
+  ],
+};
+
+// What each type's extractor finds in the text: points per item, capped
+const STRUCTURE_POINTS = 2;
+const STRUCTURE_MAX_POINTS = 8;
+
+// Insurance card fields that rarely appear elsewhere (phone numbers do)
+const CARD_FIELD_KEYS = [
+  InsuranceCardFieldKey.MEMBER_ID,
+  InsuranceCardFieldKey.GROUP_NUMBER,
+  InsuranceCardFieldKey.RX_BIN,
+  InsuranceCardFieldKey.RX_PCN,
+  InsuranceCardFieldKey.RX_GROUP,
+];
+
+// Best score needed for a prediction; score at which evidence is conclusive
+const MIN_SCORE = 4;
+const CONFIDENT_SCORE = 10;
+
+/**
+ * Predict the type of a document from its text
+ */
+export function classifyDocumentType(text: string): DocumentTypeClassification {
+  if (!text || text.trim().length === 0) {
+    return { documentType: DocumentType.OTHER, confidence: 1, scores: {} };
+  }
+
+  const structure = structureCounts(text);
+  const scores: Partial<Record<DocumentType, number>> = {};
+  for (const [documentType, features] of Object.entries(KEYWORD_FEATURES) as [
+    DocumentType,
+    Feature[],
+  ][]) {
+    const keywordScore = features
+      .filter(({ pattern }) => pattern.test(text))
+      .reduce((sum, { weight }) => sum + weight, 0);
+    scores[documentType] =
+      keywordScore +
+      Math.min(
+        (structure[documentType] ?? 0) * STRUCTURE_POINTS,
+        STRUCTURE_MAX_POINTS,
+      );
+  }
+
+  const [[bestType, best], [, runnerUp]] = (
+    Object.entries(scores) as [DocumentType, number][]
+  ).sort((a, b) => b[1] - a[1]);
+  if (best < MIN_SCORE) {
+    return {
+      documentType: DocumentType.OTHER,
+      confidence: round(1 - best / MIN_SCORE),
+      scores,
+    };
+  }
+
+  // Half from the evidence alone, half from the margin over the runner-up
+  const strength = Math.min(best / CONFIDENT_SCORE, 1);
+  const margin = 1 - runnerUp / best;
+  return {
+    documentType: bestType,
+    confidence: round(strength * (0.5 + 0.5 * margin)),
+    scores,
+  };
+}
+
+/**
+ * Items each type's extractor finds in the text
+ */
+function structureCounts(text: string): Partial<Record<DocumentType, number>> {
+  // One row per line; the unit pattern alone also matches sig lines
+  // ("Sig: 1 tab"), so only rows with a reference range count
+  const rows = text
+    .split('\n')
+    .map((line, index) => [
+      { text: line, pageIndex: 0, x: 0, y0: index, y1: index + 1 },
+    ]);
+  return {
+    [DocumentType.LAB_RESULT]: parseLabResultRows(rows).filter(
+      (row) => row.referenceRange,
+    ).length,
+    [DocumentType.PRESCRIPTION]: extractMedications(text).filter(
+      (medication) => medication.sig,
+    ).length,
+    [DocumentType.INSURANCE_CARD]: extractInsuranceCardFields(text).filter(
+      (field) => CARD_FIELD_KEYS.includes(field.key),
+    ).length,
+    [DocumentType.IMMUNIZATION_RECORD]: extractImmunizations(text).length,
+  };
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
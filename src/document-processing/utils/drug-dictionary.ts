@@ -0,0 +1,252 @@
+/**
+ * Drug Dictionary
+ *
+ * Offline list of commonly prescribed drugs: canonical generic name and the
+ * brand names it is prescribed under. Bundled with the service (no lookup
+ * leaves the infrastructure). Used by the medication parser to recognize drug
+ * names, tolerate single-character OCR errors, and canonicalize brand names.
+ *
+ * Extend by adding entries; canonical names must stay stable (stored on
+ * Medication rows).
+ */
+const DRUGS: Record<string, string[]> = {
+  acetaminophen: ['Tylenol', 'Paracetamol'],
+  acyclovir: ['Zovirax'],
+  albuterol: ['ProAir', 'Proventil', 'Ventolin', 'Salbutamol'],
+  alendronate: ['Fosamax'],
+  allopurinol: ['Zyloprim'],
+  alprazolam: ['Xanax'],
+  amiodarone: ['Pacerone', 'Cordarone'],
+  amitriptyline: ['Elavil'],
+  amlodipine: ['Norvasc'],
+  amoxicillin: ['Amoxil'],
+  'amoxicillin-clavulanate': ['Augmentin'],
+  amphetamine: ['Adderall'],
+  anastrozole: ['Arimidex'],
+  apixaban: ['Eliquis'],
+  aripiprazole: ['Abilify'],
+  aspirin: ['Bayer', 'Ecotrin'],
+  atenolol: ['Tenormin'],
+  atorvastatin: ['Lipitor'],
+  azithromycin: ['Zithromax', 'Z-Pak'],
+  baclofen: ['Lioresal'],
+  benazepril: ['Lotensin'],
+  benzonatate: ['Tessalon'],
+  budesonide: ['Pulmicort', 'Entocort'],
+  'budesonide-formoterol': ['Symbicort'],
+  bupropion: ['Wellbutrin', 'Zyban'],
+  buspirone: ['Buspar'],
+  carvedilol: ['Coreg'],
+  cefdinir: ['Omnicef'],
+  cephalexin: ['Keflex'],
+  cetirizine: ['Zyrtec'],
+  ciprofloxacin: ['Cipro'],
+  citalopram: ['Celexa'],
+  clonazepam: ['Klonopin'],
+  clonidine: ['Catapres'],
+  clopidogrel: ['Plavix'],
+  cyclobenzaprine: ['Flexeril'],
+  dapagliflozin: ['Farxiga'],
+  diazepam: ['Valium'],
+  diclofenac: ['Voltaren'],
+  digoxin: ['Lanoxin'],
+  diltiazem: ['Cardizem'],
+  diphenhydramine: ['Benadryl'],
+  donepezil: ['Aricept'],
+  doxycycline: ['Vibramycin', 'Doryx'],
+  duloxetine: ['Cymbalta'],
+  empagliflozin: ['Jardiance'],
+  enalapril: ['Vasotec'],
+  enoxaparin: ['Lovenox'],
+  escitalopram: ['Lexapro'],
+  esomeprazole: ['Nexium'],
+  estradiol: ['Estrace'],
+  ezetimibe: ['Zetia'],
+  famotidine: ['Pepcid'],
+  fenofibrate: ['Tricor'],
+  finasteride: ['Proscar', 'Propecia'],
+  fluconazole: ['Diflucan'],
+  fluoxetine: ['Prozac'],
+  fluticasone: ['Flonase', 'Flovent'],
+  'fluticasone-salmeterol': ['Advair'],
+  'folic acid': ['Folate'],
+  furosemide: ['Lasix'],
+  gabapentin: ['Neurontin'],
+  glimepiride: ['Amaryl'],
+  glipizide: ['Glucotrol'],
+  glyburide: ['Diabeta', 'Glynase'],
+  hydralazine: ['Apresoline'],
+  hydrochlorothiazide: ['Microzide', 'HCTZ'],
+  'hydrocodone-acetaminophen': ['Norco', 'Vicodin', 'Hydrocodone-APAP'],
+  hydroxychloroquine: ['Plaquenil'],
+  hydroxyzine: ['Atarax', 'Vistaril'],
+  ibuprofen: ['Advil', 'Motrin'],
+  'insulin aspart': ['Novolog'],
+  'insulin glargine': ['Lantus', 'Basaglar', 'Toujeo'],
+  'insulin lispro': ['Humalog'],
+  ipratropium: ['Atrovent'],
+  'isosorbide mononitrate': ['Imdur', 'Monoket'],
+  lamotrigine: ['Lamictal'],
+  lansoprazole: ['Prevacid'],
+  levetiracetam: ['Keppra'],
+  levofloxacin: ['Levaquin'],
+  levothyroxine: ['Synthroid', 'Levoxyl', 'Unithroid'],
+  linagliptin: ['Tradjenta'],
+  liraglutide: ['Victoza', 'Saxenda'],
+  lisinopril: ['Prinivil', 'Zestril'],
+  'lisinopril-hydrochlorothiazide': ['Zestoretic'],
+  lithium: ['Lithobid'],
+  loratadine: ['Claritin'],
+  lorazepam: ['Ativan'],
+  losartan: ['Cozaar'],
+  'losartan-hydrochlorothiazide': ['Hyzaar'],
+  lovastatin: ['Mevacor'],
+  meloxicam: ['Mobic'],
+  metformin: ['Glucophage'],
+  methocarbamol: ['Robaxin'],
+  methotrexate: ['Trexall'],
+  methylphenidate: ['Ritalin', 'Concerta'],
+  methylprednisolone: ['Medrol'],
+  metoclopramide: ['Reglan'],
+  metoprolol: ['Lopressor', 'Toprol'],
+  metronidazole: ['Flagyl'],
+  mirtazapine: ['Remeron'],
+  montelukast: ['Singulair'],
+  morphine: ['MS Contin'],
+  mupirocin: ['Bactroban'],
+  naproxen: ['Aleve', 'Naprosyn'],
+  nifedipine: ['Procardia', 'Adalat'],
+  nitrofurantoin: ['Macrobid', 'Macrodantin'],
+  nitroglycerin: ['Nitrostat'],
+  nystatin: ['Mycostatin'],
+  olanzapine: ['Zyprexa'],
+  olmesartan: ['Benicar'],
+  omeprazole: ['Prilosec'],
+  ondansetron: ['Zofran'],
+  oxybutynin: ['Ditropan'],
+  oxycodone: ['Roxicodone', 'OxyContin'],
+  'oxycodone-acetaminophen': ['Percocet', 'Endocet', 'Oxycodone-APAP'],
+  pantoprazole: ['Protonix'],
+  paroxetine: ['Paxil'],
+  penicillin: ['Pen VK'],
+  pioglitazone: ['Actos'],
+  'potassium chloride': ['Klor-Con', 'K-Dur'],
+  pravastatin: ['Pravachol'],
+  prednisolone: ['Orapred'],
+  prednisone: ['Deltasone'],
+  pregabalin: ['Lyrica'],
+  promethazine: ['Phenergan'],
+  propranolol: ['Inderal'],
+  quetiapine: ['Seroquel'],
+  ramipril: ['Altace'],
+  ranolazine: ['Ranexa'],
+  risperidone: ['Risperdal'],
+  rivaroxaban: ['Xarelto'],
+  rosuvastatin: ['Crestor'],
+  semaglutide: ['Ozempic', 'Wegovy', 'Rybelsus'],
+  sertraline: ['Zoloft'],
+  sildenafil: ['Viagra', 'Revatio'],
+  simvastatin: ['Zocor'],
+  sitagliptin: ['Januvia'],
+  spironolactone: ['Aldactone'],
+  sucralfate: ['Carafate'],
+  sulfamethoxazole: ['Bactrim', 'Septra', 'SMX-TMP'],
+  sumatriptan: ['Imitrex'],
+  tadalafil: ['Cialis'],
+  tamsulosin: ['Flomax'],
+  temazepam: ['Restoril'],
+  terbinafine: ['Lamisil'],
+  tiotropium: ['Spiriva'],
+  tizanidine: ['Zanaflex'],
+  topiramate: ['Topamax'],
+  tramadol: ['Ultram'],
+  trazodone: ['Desyrel'],
+  triamcinolone: ['Kenalog', 'Nasacort'],
+  valacyclovir: ['Valtrex'],
+  valsartan: ['Diovan'],
+  venlafaxine: ['Effexor'],
+  verapamil: ['Calan'],
+  warfarin: ['Coumadin', 'Jantoven'],
+  zolpidem: ['Ambien'],
+};
+
+// Fuzzy matches only for names long enough not to collide with other words
+const MIN_FUZZY_LENGTH = 6;
+
+export interface DrugMatch {
+  canonicalName: string; // Generic name, e.g., "metformin"
+  exact: boolean; // False for matches within one OCR error
+}
+
+// Lowercase name (generic or brand) -> canonical generic name
+const NAME_INDEX = new Map<string, string>();
+for (const [canonicalName, brandNames] of Object.entries(DRUGS)) {
+  for (const name of [canonicalName, ...brandNames]) {
+    NAME_INDEX.set(normalizeDrugName(name), canonicalName);
+  }
+}
+
+/**
+ * Look up a drug by generic or brand name (case-insensitive)
+ * Tolerates one substituted, missing or extra character in longer names
+ */
+export function lookupDrug(name: string): DrugMatch | undefined {
+  const normalized = normalizeDrugName(name);
+  const exact = NAME_INDEX.get(normalized);
+  if (exact) {
+    return { canonicalName: exact, exact: true };
+  }
+
+  if (normalized.length < MIN_FUZZY_LENGTH) {
+    return undefined;
+  }
+  for (const [indexed, canonicalName] of NAME_INDEX) {
+    if (
+      indexed.length >= MIN_FUZZY_LENGTH &&
+      isWithinOneEdit(normalized, indexed)
+    ) {
+      return { canonicalName, exact: false };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Longest number of words a dictionary name has ("insulin glargine": 2)
+ */
+export const MAX_DRUG_NAME_WORDS = Math.max(
+  ...[...NAME_INDEX.keys()].map((name) => name.split(' ').length),
+);
+
+function normalizeDrugName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/\s*[/-]\s*/g, '-') // Combinations: "Oxycodone/APAP"
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function isWithinOneEdit(a: string, b: string): boolean {
+  if (Math.abs(a.length - b.length) > 1) return false;
+
+  let i = 0;
+  let j = 0;
+  let edits = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      i++;
+      j++;
+      continue;
+    }
+    if (++edits > 1) return false;
+    if (a.length > b.length) {
+      i++;
+    } else if (a.length < b.length) {
+      j++;
+    } else {
+      i++;
+      j++;
+    }
+  }
+  return edits + (a.length - i) + (b.length - j) <= 1;
+}
@@ -0,0 +1,117 @@
+/**
+ * Image Dimension Reader
+ *
+ * Reads pixel dimensions from image headers without decoding the image.
+ * Supports the upload formats accepted by the API: PNG, JPEG, GIF, TIFF.
+ */
+
+export interface ImageDimensions {
+  width: number;
+  height: number;
+}
+
+/**
+ * Read image dimensions from a file buffer
+ * @returns null if the format is not recognised or the header is truncated
+ */
+export function readImageDimensions(buffer: Buffer): ImageDimensions | null {
+  try {
+    if (isPng(buffer)) {
+      return {
+        width: buffer.readUInt32BE(16),
+        height: buffer.readUInt32BE(20),
+      };
+    }
+    if (isGif(buffer)) {
+      return {
+        width: buffer.readUInt16LE(6),
+        height: buffer.readUInt16LE(8),
+      };
+    }
+    if (isJpeg(buffer)) {
+      return readJpegDimensions(buffer);
+    }
+    if (isTiff(buffer)) {
+      return readTiffDimensions(buffer);
+    }
+  } catch {
+    // Truncated or malformed header
+  }
+  return null;
+}
+
+function isPng(buffer: Buffer): boolean {
+  return (
+    buffer.length >= 24 &&
+    buffer.readUInt32BE(0) === 0x89504e47 &&
+    buffer.toString('ascii', 12, 16) === 'IHDR'
+  );
+}
+
+function isGif(buffer: Buffer): boolean {
+  return buffer.length >= 10 && buffer.toString('ascii', 0, 3) === 'GIF';
+}
+
+function isJpeg(buffer: Buffer): boolean {
+  return buffer.length >= 4 && buffer[0] === 0xff && buffer[1] === 0xd8;
+}
+
+function isTiff(buffer: Buffer): boolean {
+  const order = buffer.toString('ascii', 0, 2);
+  return buffer.length >= 8 && (order === 'II' || order === 'MM');
+}
+
+function readJpegDimensions(buffer: Buffer): ImageDimensions | null {
+  let offset = 2;
+  while (offset + 9 < buffer.length) {
+    if (buffer[offset] !== 0xff) {
+      offset++;
+      continue;
+    }
+
+    const marker = buffer[offset + 1];
+    // SOF0-SOF15 (excluding DHT, JPG and DAC) carry the frame size
+    const isStartOfFrame =
+      marker >= 0xc0 &&
+      marker <= 0xcf &&
+      marker !== 0xc4 &&
+      marker !== 0xc8 &&
+      marker !== 0xcc;
+
+    if (isStartOfFrame) {
+      return {
+        height: buffer.readUInt16BE(offset + 5),
+        width: buffer.readUInt16BE(offset + 7),
+      };
+    }
+
+    offset += 2 + buffer.readUInt16BE(offset + 2);
+  }
+  return null;
+}
+
+function readTiffDimensions(buffer: Buffer): ImageDimensions | null {
+  const littleEndian = buffer.toString('ascii', 0, 2) === 'II';
+  const readUInt16 = (at: number) =>
+    littleEndian ? buffer.readUInt16LE(at) : buffer.readUInt16BE(at);
+  const readUInt32 = (at: number) =>
+    littleEndian ? buffer.readUInt32LE(at) : buffer.readUInt32BE(at);
+
+  const ifdOffset = readUInt32(4);
+  const entryCount = readUInt16(ifdOffset);
+  let width = 0;
+  let height = 0;
+
+  for (let i = 0; i < entryCount; i++) {
+    const entry = ifdOffset + 2 + i * 12;
+    const tag = readUInt16(entry);
+    const type = readUInt16(entry + 2);
+    // SHORT (3) or LONG (4)
+    const value = type === 3 ? readUInt16(entry + 8) : readUInt32(entry + 8);
+
+    if (tag === 256) width = value; // ImageWidth
+    if (tag === 257) height = value; // ImageLength
+  }
+
+  return width && height ? { width, height } : null;
+}
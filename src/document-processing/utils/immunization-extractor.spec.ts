@@ -0,0 +1,83 @@
+import { extractImmunizations } from './immunization-extractor';
+
+describe('extractImmunizations', () => {
+  it('should read each dose of a COVID-19 vaccination card with lot, manufacturer and clinic', () => {
+    const text = [
+      'COVID-19 Vaccination Record Card',
+      'Last Name: SAMPLE  First Name: JANE',
+      'Date of birth: 01/02/1960',
+      'Vaccine | Product Name/Manufacturer Lot Number | Date | Healthcare Professional or Clinic Site',
+      '1st Dose COVID-19 | Pfizer EW0182 | 01/12/21 | CVS Pharmacy #1234',
+      '2nd Dose | Pfizer FF2587 | 02/02/21 | CVS Pharmacy #1234',
+      'Other | Moderna 012F21A | 11/05/2021 | Walgreens',
+    ].join('\n');
+
+    const doses = extractImmunizations(text);
+
+    expect(doses).toHaveLength(3);
+    expect(doses[0]).toEqual({
+      rowIndex: 0,
+      cvxCode: '213',
+      vaccineName: 'SARS-COV-2 (COVID-19) vaccine, UNSPECIFIED FORMULATION',
+      printedName: 'COVID-19',
+      administeredDate: '2021-01-12',
+      doseNumber: 1,
+      lotNumber: 'EW0182',
+      manufacturer: 'Pfizer',
+      administeredAt: 'CVS Pharmacy #1234',
+      confidence: 0.9,
+    });
+    // Dose rows without the vaccine name belong to the one above
+    expect(doses[1]).toEqual(
+      expect.objectContaining({
+        cvxCode: '213',
+        administeredDate: '2021-02-02',
+        doseNumber: 2,
+        lotNumber: 'FF2587',
+        confidence: 0.8,
+      }),
+    );
+    expect(doses[2]).toEqual(
+      expect.objectContaining({
+        administeredDate: '2021-11-05',
+        lotNumber: '012F21A',
+        manufacturer: 'Moderna',
+        administeredAt: 'Walgreens',
+      }),
+    );
+  });
+
+  it('should map names and brands to CVX codes and number the doses of a series', () => {
+    const text = [
+      'State Immunization Record  Printed: 05/06/2024',
+      'DTaP-IPV (Kinrix) 08/15/2019',
+      'MMR 02/01/2016 08/20/2019',
+      'Boostrix',
+      'Date given: 2024-09-03',
+      'Lot: AC52B123AA  Manufacturer: GSK',
+      'Administered at: County Health Dept',
+    ].join('\n');
+
+    const doses = extractImmunizations(text).map(
+      ({ cvxCode, administeredDate, doseNumber, lotNumber, manufacturer }) => ({
+        cvxCode,
+        administeredDate,
+        doseNumber,
+        lotNumber,
+        manufacturer,
+      }),
+    );
+
+    expect(doses).toEqual([
+      { cvxCode: '130', administeredDate: '2019-08-15' },
+      { cvxCode: '03', administeredDate: '2016-02-01', doseNumber: 1 },
+      { cvxCode: '03', administeredDate: '2019-08-20', doseNumber: 2 },
+      {
+        cvxCode: '115',
+        administeredDate: '2024-09-03',
+        lotNumber: 'AC52B123AA',
+        manufacturer: 'GlaxoSmithKline',
+      },
+    ]);
+  });
+});
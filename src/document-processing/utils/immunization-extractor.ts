@@ -0,0 +1,230 @@
+import { Immunization } from '../domain/entities/immunization.entity';
+import { findVaccine, CvxMatch } from './cvx-codes';
+import { toIsoDate } from './printed-date';
+
+/**
+ * Immunization Extractor
+ *
+ * Reads the administered doses of a vaccination card or immunization record:
+ * one row per dose with vaccine (CVX code from the bundled mapping), date,
+ * dose number, lot, manufacturer and administering clinic.
+ *
+ * A line naming a vaccine starts a block; the lines below it up to the next
+ * vaccine belong to it (e.g. the dose rows under the "COVID-19" header of a
+ * CDC card). Every date in a block is a dose. A line with several dates is a
+ * series (state records: "DTaP 02/01/2015 04/03/2015 ..."), numbered in
+ * order.
+ *
+ * HIPAA Compliance:
+ * - This is processing PHI - never log record contents, only counts
+ */
+
+export type ExtractedImmunization = Omit<
+  Immunization,
+  'id' | 'documentId' | 'createdAt'
+>;
+
+type DoseDetails = Pick<
+  ExtractedImmunization,
+  'doseNumber' | 'lotNumber' | 'manufacturer' | 'administeredAt'
+>;
+
+// Dose on the line naming the vaccine, or on a line below it
+const CONFIDENCE_VACCINE_LINE = 0.9;
+const CONFIDENCE_BLOCK_LINE = 0.8;
+
+const DATE_PATTERN =
+  /\b(\d{4}-\d{1,2}-\d{1,2}|\d{1,2}[/-]\d{1,2}[/-]\d{2,4})\b/g;
+
+// Dates that are not administrations
+const SKIPPED_LINE =
+  /\b(?:dob|date of birth|birth\s*date|born|exp(?:ir(?:es|ation|y))?|printed|issued|generated|next dose|due)\b/i;
+
+const MANUFACTURERS: Array<[RegExp, string]> = [
+  [/\b(?:pfizer(?:-biontech)?|biontech)\b/i, 'Pfizer'],
+  [/\bmoderna\b/i, 'Moderna'],
+  [
+    /\b(?:janssen|johnson\s*(?:&|and)\s*johnson|j\s*&\s*j)(?![a-z])/i,
+    'Janssen',
+  ],
+  [/\bnovavax\b/i, 'Novavax'],
+  [/\b(?:sanofi(?:\s+pasteur)?|pasteur)\b/i, 'Sanofi Pasteur'],
+  [/\b(?:glaxosmithkline|gsk)\b/i, 'GlaxoSmithKline'],
+  [/\b(?:merck|msd)\b/i, 'Merck'],
+  [/\bseqirus\b/i, 'Seqirus'],
+  [/\b(?:astrazeneca|medimmune)\b/i, 'AstraZeneca'],
+  [/\bdynavax\b/i, 'Dynavax'],
+];
+const MANUFACTURER_LABEL =
+  /\b(?:manufacturer|mfr|mfg)\b\.?\s*[:#-]?\s*([A-Za-z][A-Za-z&.\s-]{1,40}?)\s*(?=$|\||\t|\s{2,}|\blot\b)/im;
+
+const LOT_LABEL =
+  /\blot\s*(?:#|no\.?|number)?\s*[:#]?\s*([A-Z0-9][A-Z0-9-]{2,15})\b/i;
+// Unlabeled lot right after the manufacturer (CDC cards: "Pfizer EW0182")
+const LOT_AFTER_MANUFACTURER = /^[\s,/|-]*([A-Z0-9][A-Z0-9-]{3,15})\b/i;
+
+const ORDINALS: Record<string, number> = {
+  first: 1,
+  second: 2,
+  third: 3,
+  fourth: 4,
+  fifth: 5,
+};
+const DOSE_NUMBER_PATTERNS = [
+  /\b(\d)(?:st|nd|rd|th)\s+dose\b/i,
+  /\bdose\s*(?:#|no\.?|number)?\s*:?\s*(\d)\b/i,
+  /\b(first|second|third|fourth|fifth)\s+dose\b/i,
+];
+
+const CLINIC_LABEL =
+  /\b(?:clinic(?:\s+site)?|location|facility|pharmacy|administered\s+(?:at|by)|given\s+(?:at|by)|provider)\b\s*[:-]\s*([^|\t]+?)\s*$/im;
+
+interface Block {
+  vaccine: CvxMatch;
+  lines: string[]; // First line names the vaccine
+}
+
+/**
+ * Extract one record per administered dose
+ */
+export function extractImmunizations(text: string): ExtractedImmunization[] {
+  if (!text || text.trim().length === 0) {
+    return [];
+  }
+
+  const blocks: Block[] = [];
+  for (const rawLine of text.split('\n')) {
+    const line = rawLine.trim();
+    if (line.length === 0 || SKIPPED_LINE.test(line)) continue;
+
+    const vaccine = findVaccine(line);
+    if (vaccine) {
+      blocks.push({ vaccine, lines: [line] });
+    } else if (blocks.length > 0) {
+      blocks[blocks.length - 1].lines.push(line);
+    }
+  }
+
+  const immunizations: ExtractedImmunization[] = [];
+  for (const block of blocks) {
+    for (const dose of extractBlockDoses(block)) {
+      immunizations.push({ ...dose, rowIndex: immunizations.length });
+    }
+  }
+  return immunizations;
+}
+
+function extractBlockDoses(
+  block: Block,
+): Array<Omit<ExtractedImmunization, 'rowIndex'>> {
+  const { vaccine } = block;
+  const doses: Array<Omit<ExtractedImmunization, 'rowIndex'>> = [];
+
+  block.lines.forEach((line, lineIndex) => {
+    const dates = [...line.matchAll(DATE_PATTERN)]
+      .map((match) => ({ match, date: toIsoDate(match[1]) }))
+      .filter(({ date }) => date !== undefined);
+    if (dates.length === 0) return;
+
+    const confidence =
+      lineIndex === 0 ? CONFIDENCE_VACCINE_LINE : CONFIDENCE_BLOCK_LINE;
+    if (dates.length > 1) {
+      // Series: details on the line cannot be told apart between doses
+      dates.forEach(({ date }, index) =>
+        doses.push({
+          cvxCode: vaccine.cvxCode,
+          vaccineName: vaccine.vaccineName,
+          printedName: vaccine.printedName,
+          administeredDate: date,
+          doseNumber: index + 1,
+          confidence,
+        }),
+      );
+      return;
+    }
+
+    const lastDate = dates[0].match;
+    doses.push({
+      cvxCode: vaccine.cvxCode,
+      vaccineName: vaccine.vaccineName,
+      printedName: vaccine.printedName,
+      administeredDate: dates[0].date,
+      ...parseDetails(line, line.slice(lastDate.index + lastDate[0].length)),
+      confidence,
+    });
+  });
+
+  // Labeled details on their own lines ("Lot: ...") apply to a single dose
+  if (doses.length === 1) {
+    const details = parseDetails(block.lines.join('\n'), '');
+    for (const key of Object.keys(details) as Array<keyof DoseDetails>) {
+      if (doses[0][key] === undefined) {
+        Object.assign(doses[0], { [key]: details[key] });
+      }
+    }
+  }
+
+  return doses;
+}
+
+/**
+ * Dose number, lot, manufacturer and clinic of a dose
+ * @param afterDate Text after the date, the clinic column of CDC cards
+ */
+function parseDetails(text: string, afterDate: string): DoseDetails {
+  const details: DoseDetails = {};
+
+  for (const pattern of DOSE_NUMBER_PATTERNS) {
+    const match = pattern.exec(text);
+    if (match) {
+      details.doseNumber = ORDINALS[match[1].toLowerCase()] ?? Number(match[1]);
+      break;
+    }
+  }
+
+  const labeledManufacturer = MANUFACTURER_LABEL.exec(text);
+  let manufacturerEnd: number | undefined;
+  for (const [pattern, name] of MANUFACTURERS) {
+    const match = pattern.exec(text);
+    if (match) {
+      details.manufacturer = name;
+      manufacturerEnd = match.index + match[0].length;
+      break;
+    }
+  }
+  if (!details.manufacturer && labeledManufacturer) {
+    details.manufacturer = labeledManufacturer[1].trim();
+  }
+
+  const labeledLot = LOT_LABEL.exec(text);
+  if (labeledLot && /\d/.test(labeledLot[1])) {
+    details.lotNumber = labeledLot[1].toUpperCase();
+  } else if (manufacturerEnd !== undefined) {
+    const lot = LOT_AFTER_MANUFACTURER.exec(text.slice(manufacturerEnd));
+    if (lot && isLotNumber(lot[1])) {
+      details.lotNumber = lot[1].toUpperCase();
+    }
+  }
+
+  const labeledClinic = CLINIC_LABEL.exec(text);
+  if (labeledClinic) {
+    details.administeredAt = labeledClinic[1].trim();
+  } else {
+    const clinic = afterDate.replace(/^[\s|,;:-]+|[\s|,;:-]+$/g, '');
+    if (
+      /^[A-Za-z][A-Za-z0-9 .,'&#-]{2,80}$/.test(clinic) &&
+      !LOT_LABEL.test(clinic) &&
+      !MANUFACTURERS.some(([pattern]) => pattern.test(clinic)) &&
+      !DOSE_NUMBER_PATTERNS.some((pattern) => pattern.test(clinic))
+    ) {
+      details.administeredAt = clinic;
+    }
+  }
+
+  return details;
+}
+
+// Lots mix letters and digits, or are digits only; never a date
+function isLotNumber(token: string): boolean {
+  return /\d/.test(token) && !/^\d{1,2}[/-]\d{1,2}/.test(token);
+}
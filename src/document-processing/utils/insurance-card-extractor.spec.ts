@@ -0,0 +1,86 @@
+import {
+  extractInsuranceCardFields,
+  mergeCardSides,
+} from './insurance-card-extractor';
+import { InsuranceCardFieldKey } from '../domain/enums/insurance-card-field-key.enum';
+
+describe('extractInsuranceCardFields', () => {
+  const front = [
+    'BlueCross BlueShield of Texas',
+    'Member Name: JANE Q SAMPLE',
+    'Member ID: xgp123456789',
+    'Group No: 0012345',
+    'Plan: Blue Choice PPO',
+    'RxBIN: 610014  RxPCN: MEDDPRIME',
+    'RxGrp: RX4321',
+    'PCP $25  Specialist $50',
+    'Urgent Care $75  ER $150.00',
+  ].join('\n');
+  const back = [
+    'Member Services: 1-800-555-0100',
+    'Provider Services',
+    '(800) 555-0199',
+    'Pharmacy Help Desk 877.555.0142',
+  ].join('\n');
+
+  const valuesByKey = (text: string) =>
+    Object.fromEntries(
+      extractInsuranceCardFields(text).map((field) => [field.key, field.value]),
+    );
+
+  it('should extract every labeled field of a two-sided card with normalized values', () => {
+    const card = mergeCardSides(
+      { text: front, confidence: 0.9, pageCount: 1, fullResponse: {} },
+      { text: back, confidence: 0.8, pageCount: 1, fullResponse: {} },
+    );
+
+    expect(card.pageCount).toBe(2);
+    expect(card.confidence).toBeCloseTo(0.85);
+    expect(valuesByKey(card.text)).toEqual({
+      [InsuranceCardFieldKey.PAYER_NAME]: 'BlueCross BlueShield of Texas',
+      [InsuranceCardFieldKey.MEMBER_ID]: 'XGP123456789',
+      [InsuranceCardFieldKey.GROUP_NUMBER]: '0012345',
+      [InsuranceCardFieldKey.PLAN_TYPE]: 'PPO',
+      [InsuranceCardFieldKey.RX_BIN]: '610014',
+      [InsuranceCardFieldKey.RX_PCN]: 'MEDDPRIME',
+      [InsuranceCardFieldKey.RX_GROUP]: 'RX4321',
+      [InsuranceCardFieldKey.COPAY_PRIMARY_CARE]: '25.00',
+      [InsuranceCardFieldKey.COPAY_SPECIALIST]: '50.00',
+      [InsuranceCardFieldKey.COPAY_URGENT_CARE]: '75.00',
+      [InsuranceCardFieldKey.COPAY_EMERGENCY_ROOM]: '150.00',
+      [InsuranceCardFieldKey.CUSTOMER_SERVICE_PHONE]: '800-555-0100',
+      [InsuranceCardFieldKey.PROVIDER_SERVICES_PHONE]: '800-555-0199',
+      [InsuranceCardFieldKey.PHARMACY_PHONE]: '877-555-0142',
+    });
+
+    // Offsets point into the merged text
+    const pharmacy = extractInsuranceCardFields(card.text).find(
+      (field) => field.key === InsuranceCardFieldKey.PHARMACY_PHONE,
+    );
+    expect(card.text.slice(pharmacy?.startOffset, pharmacy?.endOffset)).toBe(
+      '877.555.0142',
+    );
+  });
+
+  it('should not mistake other identifiers for member IDs or phone numbers', () => {
+    const fields = valuesByKey(
+      [
+        'ACME Health',
+        'Group ID: 77001',
+        'Subscriber: JOHN SAMPLE',
+        'ID# W987654321',
+        'Member ID: 123-456-7890',
+        'HMO',
+        'Questions? 888 555 0123',
+      ].join('\n'),
+    );
+
+    expect(fields[InsuranceCardFieldKey.PAYER_NAME]).toBe('ACME Health');
+    expect(fields[InsuranceCardFieldKey.GROUP_NUMBER]).toBe('77001');
+    expect(fields[InsuranceCardFieldKey.MEMBER_ID]).toBe('W987654321');
+    expect(fields[InsuranceCardFieldKey.PLAN_TYPE]).toBe('HMO');
+    expect(fields[InsuranceCardFieldKey.CUSTOMER_SERVICE_PHONE]).toBe(
+      '888-555-0123',
+    );
+  });
+});
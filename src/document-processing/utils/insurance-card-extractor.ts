@@ -0,0 +1,359 @@
+import { OcrResult } from '../domain/ports/ocr.service.port';
+import { InsuranceCardFieldKey } from '../domain/enums/insurance-card-field-key.enum';
+
+/**
+ * Insurance Card Extractor
+ *
+ * Reads the fields billing needs from the text of an insurance card (front,
+ * then back): payer, member ID, group number, plan type, pharmacy routing
+ * (RxBIN/RxPCN/RxGroup), copays and phone numbers. Values are normalized
+ * (copays to amounts, phone numbers to 800-555-0100) so they can be compared
+ * across cards. For each key the first occurrence wins, so the front takes
+ * precedence over the back.
+ *
+ * HIPAA Compliance:
+ * - This is processing PHI - never log extracted values, only field keys
+ */
+
+export interface InsuranceCardField {
+  key: InsuranceCardFieldKey;
+  value: string;
+  fieldType: 'string' | 'number';
+  confidence: number; // Labeled values are more reliable than inferred ones
+  startOffset: number; // Position in the card text
+  endOffset: number;
+}
+
+// Between the text of the front and the back of a card
+export const CARD_SIDE_SEPARATOR = '\n\n';
+
+interface LabeledPattern {
+  key: InsuranceCardFieldKey;
+  pattern: RegExp; // Global; the value is the last group, ending the match
+  requireDigit?: boolean; // Rejects words following a label ("Group Name")
+}
+
+const LABELED_PATTERNS: LabeledPattern[] = [
+  {
+    key: InsuranceCardFieldKey.PAYER_NAME,
+    pattern:
+      /\b(?:payer|insurer|carrier|health\s*plan)(?:\s*name)?\s*:[ \t]*([^\n]{2,60})/gi,
+  },
+  {
+    key: InsuranceCardFieldKey.MEMBER_ID,
+    pattern:
+      /(?:\b(?:member|subscriber|enrollee)\s*(?:id|#|no\.?|number)|(?<![a-z]|(?:group|grp|rx|payer|plan)\s*)id(?:\s*(?:#|no\.?|number))?(?=\s*[:#]))\s*[:#]?\s*([A-Z0-9][A-Z0-9-]{3,24})/gi,
+    requireDigit: true,
+  },
+  {
+    key: InsuranceCardFieldKey.GROUP_NUMBER,
+    pattern:
+      /(?<!rx\s*)\b(?:group|grp)(?:\s*(?:#|no\.?|number|num|id))?\s*[:#]?\s*([A-Z0-9][A-Z0-9-]{2,19})/gi,
+    requireDigit: true,
+  },
+  {
+    key: InsuranceCardFieldKey.RX_BIN,
+    pattern: /\b(?:rx\s*)?bin(?:\s*(?:#|no\.?))?\s*[:#]?\s*(\d{6})(?!\d)/gi,
+  },
+  {
+    key: InsuranceCardFieldKey.RX_PCN,
+    pattern: /\b(?:rx\s*)?pcn\s*[:#]?\s*([A-Z0-9]{2,15})(?![A-Z0-9])/gi,
+  },
+  {
+    key: InsuranceCardFieldKey.RX_GROUP,
+    pattern:
+      /\brx\s*(?:grp|group)(?:\s*(?:#|no\.?))?\s*[:#]?\s*([A-Z0-9][A-Z0-9-]{1,19})(?![A-Z0-9-])/gi,
+  },
+];
+
+// Canonical plan type by keyword (lowercase, whitespace collapsed)
+const PLAN_TYPES: Record<string, string> = {
+  'medicare advantage': 'Medicare Advantage',
+  hdhp: 'HDHP',
+  hmo: 'HMO',
+  ppo: 'PPO',
+  epo: 'EPO',
+  pos: 'POS',
+  medicaid: 'Medicaid',
+  medicare: 'Medicare',
+};
+const PLAN_TYPE_PATTERN =
+  /\b(medicare\s+advantage|hdhp|hmo|ppo|epo|pos|medicaid|medicare)\b/i;
+const PLAN_LABEL_PATTERN =
+  /(?<!health\s*)\bplan(?:\s*type)?\s*:[ \t]*([^\n]{2,40})/i;
+
+// Payers whose name identifies the line of the card to use as payer name
+const KNOWN_PAYER_PATTERN =
+  /\b(?:aetna|anthem|blue\s*cross|blue\s*shield|bcbs|cigna|humana|kaiser|united\s*health\s*care|uhc|oscar|molina|ambetter|wellcare|highmark|health\s*net|tricare|carefirst|premera|regence|florida\s*blue|horizon|emblem\s*health|oxford)\b/i;
+
+// Copay labels (a copay is the first amount after its label, on its line)
+const COPAY_LABELS: Array<[InsuranceCardFieldKey, string]> = [
+  [
+    InsuranceCardFieldKey.COPAY_PRIMARY_CARE,
+    String.raw`pcp|primary(?:\s*care)?|office\s*visit|ov`,
+  ],
+  [InsuranceCardFieldKey.COPAY_SPECIALIST, String.raw`specialist|spec|spc`],
+  [InsuranceCardFieldKey.COPAY_URGENT_CARE, String.raw`urgent(?:\s*care)?|uc`],
+  [
+    InsuranceCardFieldKey.COPAY_EMERGENCY_ROOM,
+    String.raw`emergency(?:\s*room)?|er|ed`,
+  ],
+];
+
+// Requires separators, so digit runs (member IDs) are never phone numbers
+const PHONE_PATTERN =
+  /(?:\+?1[\s.-]?)?\(?(?<!\d)(\d{3})\)?[\s.-]?(\d{3})[\s.-](\d{4})(?!\d)/g;
+// Labels of identifiers that may be formatted like phone numbers
+const NON_PHONE_LABEL_PATTERN =
+  /\b(?:id|#|no|number|group|grp|bin|pcn)\s*:?\s*$/i;
+const PHONE_LABELS: Array<[InsuranceCardFieldKey, RegExp]> = [
+  [InsuranceCardFieldKey.PHARMACY_PHONE, /pharm|\brx\b|prescription/i],
+  [
+    InsuranceCardFieldKey.PROVIDER_SERVICES_PHONE,
+    /provider|physician|hospital|precert|prior\s*auth/i,
+  ],
+  [
+    InsuranceCardFieldKey.CUSTOMER_SERVICE_PHONE,
+    /member|customer|service|questions|call|benefit|toll/i,
+  ],
+];
+
+/**
+ * Merge the OCR results of the front and back of a card into one result
+ * Back offsets are shifted past the front text; the back's engine output is
+ * kept in fullResponse.backSide
+ */
+export function mergeCardSides(front: OcrResult, back: OcrResult): OcrResult {
+  const offset = front.text.length + CARD_SIDE_SEPARATOR.length;
+  const pageCount = (front.pageCount || 1) + (back.pageCount || 1);
+
+  return {
+    text: `${front.text}${CARD_SIDE_SEPARATOR}${back.text}`,
+    // Weighted by pages, as for multi-page documents
+    confidence:
+      (front.confidence * (front.pageCount || 1) +
+        back.confidence * (back.pageCount || 1)) /
+      pageCount,
+    pageCount,
+    entities: [
+      ...(front.entities ?? []),
+      ...(back.entities ?? []).map((entity) => ({
+        ...entity,
+        startOffset:
+          entity.startOffset !== undefined
+            ? entity.startOffset + offset
+            : undefined,
+        endOffset:
+          entity.endOffset !== undefined
+            ? entity.endOffset + offset
+            : undefined,
+      })),
+    ],
+    fullResponse: { ...front.fullResponse, backSide: back.fullResponse },
+  };
+}
+
+/**
+ * Extract insurance card fields from card text
+ * @returns At most one field per key, in InsuranceCardFieldKey order
+ */
+export function extractInsuranceCardFields(text: string): InsuranceCardField[] {
+  if (!text || text.trim().length === 0) {
+    return [];
+  }
+
+  const found = new Map<InsuranceCardFieldKey, InsuranceCardField>();
+  const add = (field: InsuranceCardField) => {
+    if (!found.has(field.key)) {
+      found.set(field.key, field);
+    }
+  };
+
+  for (const labeled of LABELED_PATTERNS) {
+    const field = findLabeled(text, labeled);
+    if (field) add(field);
+  }
+
+  const payer = findKnownPayer(text) ?? findFirstNameLine(text);
+  if (payer) add(payer);
+
+  const planType = findPlanType(text);
+  if (planType) add(planType);
+
+  for (const [key, labels] of COPAY_LABELS) {
+    const match = new RegExp(
+      String.raw`\b(?:${labels})\b[^$\n]{0,12}\$\s?(\d{1,4}(?:\.\d{2})?)(?!\d)`,
+      'i',
+    ).exec(text);
+    if (match) {
+      add({
+        key,
+        value: Number(match[1]).toFixed(2),
+        fieldType: 'number',
+        confidence: 0.85,
+        ...valueOffsets(match),
+      });
+    }
+  }
+
+  for (const phone of findPhones(text)) {
+    add(phone);
+  }
+
+  return Object.values(InsuranceCardFieldKey)
+    .map((key) => found.get(key))
+    .filter((field): field is InsuranceCardField => field !== undefined);
+}
+
+function findLabeled(
+  text: string,
+  { key, pattern, requireDigit }: LabeledPattern,
+): InsuranceCardField | undefined {
+  pattern.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    const value = match[1].trim();
+    if (requireDigit && !/\d/.test(value)) {
+      continue;
+    }
+    return {
+      key,
+      value:
+        key === InsuranceCardFieldKey.PAYER_NAME ? value : value.toUpperCase(),
+      fieldType: 'string',
+      confidence: 0.9,
+      ...valueOffsets(match),
+    };
+  }
+  return undefined;
+}
+
+function findKnownPayer(text: string): InsuranceCardField | undefined {
+  const match = KNOWN_PAYER_PATTERN.exec(text);
+  if (!match) return undefined;
+
+  // The whole line, e.g. "BlueCross BlueShield of Texas"
+  const start = text.lastIndexOf('\n', match.index) + 1;
+  const end = lineEnd(text, match.index);
+  return {
+    key: InsuranceCardFieldKey.PAYER_NAME,
+    value: text.slice(start, end).trim(),
+    fieldType: 'string',
+    confidence: 0.85,
+    startOffset: start,
+    endOffset: end,
+  };
+}
+
+/**
+ * Fallback payer name: cards print the payer first, as a title
+ */
+function findFirstNameLine(text: string): InsuranceCardField | undefined {
+  let start = 0;
+  for (const line of text.split('\n')) {
+    const trimmed = line.trim();
+    if (
+      trimmed.length >= 3 &&
+      trimmed.length <= 60 &&
+      /[a-z]{3,}/i.test(trimmed) &&
+      !/[\d:]/.test(trimmed)
+    ) {
+      return {
+        key: InsuranceCardFieldKey.PAYER_NAME,
+        value: trimmed,
+        fieldType: 'string',
+        confidence: 0.5,
+        startOffset: start,
+        endOffset: start + line.length,
+      };
+    }
+    start += line.length + 1;
+  }
+  return undefined;
+}
+
+function findPlanType(text: string): InsuranceCardField | undefined {
+  const label = PLAN_LABEL_PATTERN.exec(text);
+  if (label) {
+    const labelOffsets = valueOffsets(label);
+    const keyword = PLAN_TYPE_PATTERN.exec(label[1]);
+    return {
+      key: InsuranceCardFieldKey.PLAN_TYPE,
+      value: keyword ? canonicalPlanType(keyword[1]) : label[1].trim(),
+      fieldType: 'string',
+      confidence: 0.9,
+      ...labelOffsets,
+    };
+  }
+
+  const keyword = PLAN_TYPE_PATTERN.exec(text);
+  if (!keyword) return undefined;
+  return {
+    key: InsuranceCardFieldKey.PLAN_TYPE,
+    value: canonicalPlanType(keyword[1]),
+    fieldType: 'string',
+    confidence: 0.8,
+    startOffset: keyword.index,
+    endOffset: keyword.index + keyword[0].length,
+  };
+}
+
+function canonicalPlanType(keyword: string): string {
+  return PLAN_TYPES[keyword.toLowerCase().replace(/\s+/g, ' ')];
+}
+
+/**
+ * Phone numbers classified by the label before them (on their line, or the
+ * line above); the first unlabeled number is assumed to be customer service
+ */
+function findPhones(text: string): InsuranceCardField[] {
+  const phones: InsuranceCardField[] = [];
+  let unlabeled: InsuranceCardField | undefined;
+
+  PHONE_PATTERN.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = PHONE_PATTERN.exec(text)) !== null) {
+    const lineStart = text.lastIndexOf('\n', match.index - 1) + 1;
+    let label = text.slice(lineStart, match.index);
+    if (NON_PHONE_LABEL_PATTERN.test(label)) {
+      continue;
+    }
+    if (!/[a-z]/i.test(label) && lineStart > 0) {
+      label = text.slice(text.lastIndexOf('\n', lineStart - 2) + 1, lineStart);
+    }
+
+    const phone: Omit<InsuranceCardField, 'key' | 'confidence'> = {
+      value: `${match[1]}-${match[2]}-${match[3]}`,
+      fieldType: 'string',
+      startOffset: match.index,
+      endOffset: match.index + match[0].length,
+    };
+    const labeled = PHONE_LABELS.find(([, pattern]) => pattern.test(label));
+    if (labeled) {
+      phones.push({ ...phone, key: labeled[0], confidence: 0.85 });
+    } else if (!unlabeled) {
+      unlabeled = {
+        ...phone,
+        key: InsuranceCardFieldKey.CUSTOMER_SERVICE_PHONE,
+        confidence: 0.6,
+      };
+    }
+  }
+
+  // After the labeled numbers, so a labeled customer service number wins
+  return unlabeled ? [...phones, unlabeled] : phones;
+}
+
+function lineEnd(text: string, index: number): number {
+  const end = text.indexOf('\n', index);
+  return end === -1 ? text.length : end;
+}
+
+// Offsets of the last capture group, which ends the match
+function valueOffsets(match: RegExpExecArray): {
+  startOffset: number;
+  endOffset: number;
+} {
+  const endOffset = match.index + match[0].length;
+  return { startOffset: endOffset - match[match.length - 1].length, endOffset };
+}
@@ -0,0 +1,113 @@
+import { extractLabResults } from './lab-result-table-parser';
+import { LabResultFlag } from '../domain/enums/lab-result-flag.enum';
+
+describe('extractLabResults', () => {
+  // pdf2json text item at a column (x) of a row (y), in page units
+  const text = (value: string, x: number, y: number) => ({
+    text: value,
+    pageIndex: 0,
+    x,
+    y0: y,
+    y1: y + 0.012,
+  });
+
+  it('should rebuild rows from pdf2json positions when columns are emitted out of order', () => {
+    const chunks = [
+      {
+        id: 'page_1',
+        content: '',
+        // Header, then the PDF emits the table one column at a time
+        texts: [
+          text('Specimen: Whole Blood', 0.05, 0.1),
+          text('Collected: 01/15/2026', 0.55, 0.1001),
+          text('Test', 0.05, 0.15),
+          text('Result', 0.35, 0.15),
+          text('Hemoglobin', 0.05, 0.2),
+          text('Glucose, Fasting', 0.05, 0.22),
+          text('Potassium', 0.05, 0.24),
+          text('12.1', 0.35, 0.2002),
+          text('105', 0.35, 0.2201),
+          text('6.8', 0.35, 0.2399),
+          text('g/dL', 0.45, 0.2),
+          text('mg/dL', 0.45, 0.22),
+          text('mmol/L', 0.45, 0.24),
+          text('13.0 - 17.0', 0.6, 0.2),
+          text('70-99', 0.6, 0.22),
+          text('3.5-5.1', 0.6, 0.24),
+          text('HH', 0.8, 0.24),
+        ],
+      },
+    ];
+
+    const results = extractLabResults({
+      text: '',
+      confidence: 1,
+      pageCount: 1,
+      fullResponse: { method: 'pdf2json_extraction', chunks },
+    });
+
+    expect(results).toEqual([
+      expect.objectContaining({
+        rowIndex: 0,
+        analyte: 'Hemoglobin',
+        value: '12.1',
+        numericValue: 12.1,
+        unit: 'g/dL',
+        referenceRange: '13.0-17.0',
+        referenceLow: 13,
+        referenceHigh: 17,
+        flag: LabResultFlag.LOW,
+        specimen: 'Whole Blood',
+        collectionDate: '2026-01-15',
+      }),
+      expect.objectContaining({
+        analyte: 'Glucose, Fasting',
+        value: '105',
+        unit: 'mg/dL',
+        flag: LabResultFlag.HIGH,
+      }),
+      expect.objectContaining({
+        analyte: 'Potassium',
+        value: '6.8',
+        flag: LabResultFlag.CRITICAL,
+      }),
+    ]);
+  });
+
+  it('should parse plain text lines and skip rows that are not results', () => {
+    const results = extractLabResults({
+      text: [
+        'LABORATORY RESULTS',
+        'Patient ID 12345',
+        'Cholesterol, Total 210 H mg/dL <200',
+        'HIV-1/2 Ab Nonreactive Nonreactive',
+        'SARS-CoV-2 RNA Not Detected',
+        'Page 1 of 2',
+      ].join('\n'),
+      confidence: 0.9,
+      pageCount: 1,
+      fullResponse: {},
+    });
+
+    expect(results).toHaveLength(3);
+    expect(results[0]).toEqual(
+      expect.objectContaining({
+        analyte: 'Cholesterol, Total',
+        value: '210',
+        unit: 'mg/dL',
+        referenceHigh: 200,
+        flag: LabResultFlag.HIGH,
+      }),
+    );
+    expect(results[1]).toEqual(
+      expect.objectContaining({
+        analyte: 'HIV-1/2 Ab',
+        value: 'Nonreactive',
+        referenceRange: 'Nonreactive',
+        numericValue: undefined,
+      }),
+    );
+    expect(results[1].flag).toBeUndefined();
+    expect(results[2].value).toBe('Not Detected');
+  });
+});
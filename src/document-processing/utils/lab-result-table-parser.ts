@@ -0,0 +1,354 @@
+import { OcrResult } from '../domain/ports/ocr.service.port';
+import { LabResult } from '../domain/entities/lab-result.entity';
+import { LabResultFlag } from '../domain/enums/lab-result-flag.enum';
+import { extractLinesWithBoundingBoxes } from './ocr-alignment';
+import { toIsoDate } from './printed-date';
+
+/**
+ * Lab Result Table Parser
+ *
+ * Rebuilds the result table of a lab report from positioned text: pdf2json
+ * text items for native PDFs, OCR line bounding boxes for scans. Text sharing
+ * a baseline on a page forms a row, read left to right, so columns emitted
+ * out of order by the PDF (or split into separate lines by OCR) line up
+ * again. Each row is parsed into analyte, value, unit, reference range and
+ * flag; header lines set the specimen and collection date of the rows.
+ *
+ * HIPAA Compliance:
+ * - This is processing PHI - never log row contents, only counts
+ */
+
+/**
+ * Text with its position on a page
+ * Coordinates are normalized to the page [0, 1] (line numbers for plain text)
+ */
+export interface PositionedText {
+  text: string;
+  pageIndex: number; // Zero-based
+  x: number; // Left edge
+  y0: number; // Top edge
+  y1: number; // Bottom edge
+}
+
+export type ParsedLabResult = Omit<
+  LabResult,
+  'id' | 'documentId' | 'createdAt'
+>;
+
+// Fields read from the row itself
+type RowResult = Omit<
+  ParsedLabResult,
+  'rowIndex' | 'pageIndex' | 'specimen' | 'collectionDate'
+>;
+
+// Share of the shorter text height two texts must overlap to be on one row
+const ROW_OVERLAP_RATIO = 0.5;
+
+const NUMBER = String.raw`\d+(?:,\d{3})*(?:\.\d+)?`;
+const NUMERIC_VALUE_PATTERN = new RegExp(`^${NUMBER}$`);
+const BOUNDED_VALUE_PATTERN = new RegExp(`^(?:[<>]=?|≤|≥)${NUMBER}$`);
+const RANGE_PATTERN = new RegExp(`^(${NUMBER})-(${NUMBER})$`);
+const UPPER_BOUND_PATTERN = new RegExp(`^(?:<=?|≤)(${NUMBER})$`);
+const LOWER_BOUND_PATTERN = new RegExp(`^(?:>=?|≥)(${NUMBER})$`);
+// e.g. mg/dL, mmol/L, x10^3/uL, 10*3/uL, %, fL, pg
+const UNIT_PATTERN =
+  /^(?:%|(?:x\s?)?10[\^*eE]?\d+\/[a-zA-Zµμ]+|[a-zA-Zµμ][a-zA-Z0-9µμ^*.]*\/[a-zA-Z0-9µμ.^]+|[a-zA-Zµμ]{1,5})$/;
+
+const QUALITATIVE_VALUES = [
+  'negative',
+  'positive',
+  'reactive',
+  'nonreactive',
+  'non-reactive',
+  'detected',
+  'undetected',
+  'trace',
+];
+
+const PRINTED_FLAGS: Record<string, LabResultFlag> = {
+  h: LabResultFlag.HIGH,
+  high: LabResultFlag.HIGH,
+  l: LabResultFlag.LOW,
+  low: LabResultFlag.LOW,
+  hh: LabResultFlag.CRITICAL,
+  ll: LabResultFlag.CRITICAL,
+  c: LabResultFlag.CRITICAL,
+  crit: LabResultFlag.CRITICAL,
+  critical: LabResultFlag.CRITICAL,
+  panic: LabResultFlag.CRITICAL,
+};
+
+// Labels of header lines that look like "<words> <number> <word>" rows
+const NON_ANALYTE_PATTERN =
+  /^(?:page|age|dob|date|time|phone|tel|fax|mrn|id|account|acct|patient|sex|room|npi)\b/i;
+
+const SPECIMEN_PATTERN =
+  /\bspecimen(?:\s+(?:type|source))?\s*:\s*([a-z]+(?:\s+[a-z]+){0,2})/i;
+const SPECIMEN_STOP_WORDS =
+  /\s+(?:collect|receiv|report|date|time|drawn|fasting)\w*.*$/i;
+const COLLECTION_DATE_PATTERN =
+  /\b(?:collect(?:ed|ion)(?:\s+(?:date|on))?|date\s+collected|drawn)\s*:?\s*(\d{4}-\d{1,2}-\d{1,2}|\d{1,2}\/\d{1,2}\/\d{2,4})/i;
+
+/**
+ * Extract the result rows of a lab report from an OCR result
+ */
+export function extractLabResults(ocrResult: OcrResult): ParsedLabResult[] {
+  return parseLabResultRows(groupIntoRows(collectPositionedText(ocrResult)));
+}
+
+/**
+ * Positioned text of an OCR result, from the most precise source available:
+ * pdf2json text items, Document AI lines, Vision lines, then plain text lines
+ */
+export function collectPositionedText(ocrResult: OcrResult): PositionedText[] {
+  const fullResponse = ocrResult.fullResponse ?? {};
+
+  if (Array.isArray(fullResponse.chunks)) {
+    const texts: PositionedText[] = fullResponse.chunks.flatMap(
+      (chunk: { texts?: PositionedText[] }) => chunk.texts ?? [],
+    );
+    if (texts.length > 0) return texts;
+  }
+
+  // Raw engine outputs, as attached by the extraction pipeline
+  for (const raw of [
+    fullResponse.rawDocumentAiResult,
+    fullResponse.rawVisionResult,
+  ]) {
+    const engineResponse = raw?.fullResponse;
+    if (!engineResponse?.pages && !engineResponse?.fullTextAnnotation) {
+      continue;
+    }
+
+    const lines = extractLinesWithBoundingBoxes(raw);
+    if (lines.length > 0) {
+      return lines.map((line) => ({
+        text: line.text,
+        pageIndex: line.pageIndex,
+        x: line.boundingBox.x0,
+        y0: line.boundingBox.y0,
+        y1: line.boundingBox.y1,
+      }));
+    }
+  }
+
+  // No positions: every text line is a row
+  return (ocrResult.text ?? '').split('\n').map((text, index) => ({
+    text,
+    pageIndex: 0,
+    x: 0,
+    y0: index,
+    y1: index + 1,
+  }));
+}
+
+/**
+ * Group texts into rows (texts overlapping vertically on the same page),
+ * each row ordered left to right
+ */
+export function groupIntoRows(texts: PositionedText[]): PositionedText[][] {
+  const sorted = texts
+    .filter((text) => text.text.trim().length > 0)
+    .sort((a, b) => a.pageIndex - b.pageIndex || a.y0 - b.y0 || a.x - b.x);
+
+  const rows: PositionedText[][] = [];
+  for (const text of sorted) {
+    // Compare with the row's first text, so rows never drift down the page
+    const row = rows[rows.length - 1];
+    const first = row?.[0];
+    if (first && first.pageIndex === text.pageIndex) {
+      const overlap = Math.min(first.y1, text.y1) - Math.max(first.y0, text.y0);
+      const height = Math.min(first.y1 - first.y0, text.y1 - text.y0);
+      if (overlap > 0 && overlap >= height * ROW_OVERLAP_RATIO) {
+        row.push(text);
+        continue;
+      }
+    }
+    rows.push([text]);
+  }
+
+  return rows.map((row) => row.sort((a, b) => a.x - b.x));
+}
+
+/**
+ * Parse rows into lab results
+ * Rows that are not results (titles, column headers, patient details) are
+ * skipped; specimen and collection date lines apply to the rows below them,
+ * and to rows above the first one (headers printed beside the table)
+ */
+export function parseLabResultRows(
+  rows: PositionedText[][],
+): ParsedLabResult[] {
+  const results: ParsedLabResult[] = [];
+  let specimen: string | undefined;
+  let collectionDate: string | undefined;
+  let firstSpecimen: string | undefined;
+  let firstCollectionDate: string | undefined;
+
+  for (const row of rows) {
+    const text = row
+      .map((cell) => cell.text.trim())
+      .join(' ')
+      .replace(/\s+/g, ' ');
+
+    const specimenMatch = SPECIMEN_PATTERN.exec(text);
+    const dateMatch = COLLECTION_DATE_PATTERN.exec(text);
+    if (specimenMatch || dateMatch) {
+      if (specimenMatch) {
+        specimen =
+          specimenMatch[1].replace(SPECIMEN_STOP_WORDS, '').trim() || specimen;
+        firstSpecimen ??= specimen;
+      }
+      if (dateMatch) {
+        collectionDate = toIsoDate(dateMatch[1]) ?? collectionDate;
+        firstCollectionDate ??= collectionDate;
+      }
+      continue;
+    }
+
+    const result = parseRow(text);
+    if (result) {
+      results.push({
+        ...result,
+        rowIndex: results.length,
+        pageIndex: row[0].pageIndex,
+        specimen,
+        collectionDate,
+      });
+    }
+  }
+
+  return results.map((result) => ({
+    ...result,
+    specimen: result.specimen ?? firstSpecimen,
+    collectionDate: result.collectionDate ?? firstCollectionDate,
+  }));
+}
+
+/**
+ * Parse one row: the analyte is the text before the first value, followed
+ * (in any order) by unit, reference range and flag
+ */
+function parseRow(text: string): RowResult | undefined {
+  const tokens = text
+    .replace(/[()[\]]/g, ' ')
+    // "13.0 - 17.0" -> "13.0-17.0", "< 200" -> "<200"
+    .replace(/(\d)\s*[-–]\s*(?=\d)/g, '$1-')
+    .replace(/([<>≤≥]=?)\s+(?=\d)/g, '$1')
+    .split(' ')
+    .filter((token) => token.length > 0);
+
+  const valueIndex = tokens.findIndex(
+    (token, index) => index > 0 && readValue(tokens, index) !== undefined,
+  );
+  if (valueIndex === -1) return undefined;
+
+  const analyte = tokens
+    .slice(0, valueIndex)
+    .join(' ')
+    .replace(/[:\s]+$/, '');
+  if (!/[a-z]{2,}/i.test(analyte) || NON_ANALYTE_PATTERN.test(analyte)) {
+    return undefined;
+  }
+
+  const [value, valueLength] = readValue(tokens, valueIndex) as [
+    string,
+    number,
+  ];
+  const qualitative = !/\d/.test(value);
+  const result: RowResult = {
+    analyte,
+    value,
+    numericValue: NUMERIC_VALUE_PATTERN.test(value)
+      ? parseFloat(value.replace(/,/g, ''))
+      : undefined,
+  };
+
+  for (const token of tokens.slice(valueIndex + valueLength)) {
+    const flag = PRINTED_FLAGS[token.replace(/[*!]/g, '').toLowerCase()];
+    if (flag) {
+      // Critical wins over a direction printed in another column
+      if (result.flag !== LabResultFlag.CRITICAL) result.flag = flag;
+    } else if (!result.referenceRange && isReferenceRange(token)) {
+      result.referenceRange = token;
+    } else if (
+      qualitative &&
+      !result.referenceRange &&
+      QUALITATIVE_VALUES.includes(token.toLowerCase())
+    ) {
+      result.referenceRange = token;
+    } else if (!result.unit && !qualitative && UNIT_PATTERN.test(token)) {
+      result.unit = token;
+    }
+  }
+
+  // A bare number is not a result (e.g. a phone or page number)
+  if (!qualitative && !result.unit && !result.referenceRange) {
+    return undefined;
+  }
+
+  const range = parseReferenceRange(result.referenceRange);
+  result.referenceLow = range.low;
+  result.referenceHigh = range.high;
+
+  // Derive the direction when the report prints no flag
+  if (!result.flag && result.numericValue !== undefined) {
+    if (range.high !== undefined && result.numericValue > range.high) {
+      result.flag = LabResultFlag.HIGH;
+    } else if (range.low !== undefined && result.numericValue < range.low) {
+      result.flag = LabResultFlag.LOW;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Value starting at a token, with the number of tokens it spans
+ */
+function readValue(
+  tokens: string[],
+  index: number,
+): [string, number] | undefined {
+  const token = tokens[index];
+  if (
+    NUMERIC_VALUE_PATTERN.test(token) ||
+    BOUNDED_VALUE_PATTERN.test(token) ||
+    QUALITATIVE_VALUES.includes(token.toLowerCase())
+  ) {
+    return [token, 1];
+  }
+  if (
+    token.toLowerCase() === 'not' &&
+    tokens[index + 1]?.toLowerCase() === 'detected'
+  ) {
+    return [`${token} ${tokens[index + 1]}`, 2];
+  }
+  return undefined;
+}
+
+function isReferenceRange(token: string): boolean {
+  return (
+    RANGE_PATTERN.test(token) ||
+    UPPER_BOUND_PATTERN.test(token) ||
+    LOWER_BOUND_PATTERN.test(token)
+  );
+}
+
+function parseReferenceRange(range?: string): {
+  low?: number;
+  high?: number;
+} {
+  if (!range) return {};
+  const toNumber = (value: string) => parseFloat(value.replace(/,/g, ''));
+
+  const between = RANGE_PATTERN.exec(range);
+  if (between) {
+    return { low: toNumber(between[1]), high: toNumber(between[2]) };
+  }
+  const upper = UPPER_BOUND_PATTERN.exec(range);
+  if (upper) return { high: toNumber(upper[1]) };
+  const lower = LOWER_BOUND_PATTERN.exec(range);
+  if (lower) return { low: toNumber(lower[1]) };
+  return {};
+}
@@ -0,0 +1,94 @@
+import {
+  extractMedications,
+  extractPrescriberFields,
+} from './medication-parser';
+import { MedicationRoute } from '../domain/enums/medication-route.enum';
+import { PrescriptionFieldKey } from '../domain/enums/prescription-field-key.enum';
+
+describe('extractMedications', () => {
+  it('should parse a prescription with normalized sig, quantity and refills', () => {
+    const text = [
+      'Patient: JANE SAMPLE  DOB: 01/02/1960',
+      'Rx: Glucophage 500 mg tab',
+      'Sig: 1 tab PO BID with meals',
+      'Disp: #60  Refills: 2',
+      '',
+      'Oxycodone/APAP 5/325 mg tablet 1-2 tabs po q4-6h prn severe pain. Max 6/day',
+      'Qty 30 NR',
+      '',
+      'Albuterl HFA 90 mcg/act inhale 2 puffs q6h PRN wheezing',
+      '',
+      'Jane Smith, MD',
+      'DEA: AB1234563',
+    ].join('\n');
+
+    const medications = extractMedications(text);
+
+    expect(medications).toHaveLength(3);
+    expect(medications[0]).toEqual(
+      expect.objectContaining({
+        rowIndex: 0,
+        drugName: 'metformin',
+        printedName: 'Glucophage',
+        strength: '500 mg',
+        dosageForm: 'tablet',
+        sig: '1 tab PO BID with meals',
+        dose: '1 tablet',
+        route: MedicationRoute.ORAL,
+        frequency: 'twice daily',
+        timesPerDay: 2,
+        asNeeded: false,
+        quantity: 60,
+        refills: 2,
+        confidence: 0.9,
+      }),
+    );
+    expect(medications[1]).toEqual(
+      expect.objectContaining({
+        drugName: 'oxycodone-acetaminophen',
+        strength: '5/325 mg',
+        dose: '1-2 tablets',
+        route: MedicationRoute.ORAL,
+        frequency: 'every 4-6 hours',
+        timesPerDay: 6,
+        intervalHours: 4,
+        asNeeded: true,
+        asNeededReason: 'severe pain',
+        quantity: 30,
+        refills: 0,
+      }),
+    );
+    // One OCR error in the name: canonicalized, lower confidence
+    expect(medications[2]).toEqual(
+      expect.objectContaining({
+        drugName: 'albuterol',
+        printedName: 'Albuterl',
+        strength: '90 mcg/act',
+        dosageForm: 'inhaler',
+        dose: '2 puffs',
+        route: MedicationRoute.INHALATION,
+        frequency: 'every 6 hours',
+        asNeeded: true,
+        asNeededReason: 'wheezing',
+        confidence: 0.75,
+      }),
+    );
+  });
+
+  it('should extract the prescriber and flag DEA/NPI numbers failing their checksum', () => {
+    const fields = extractPrescriberFields(
+      ['Prescriber: Dr. Alan Grant', 'DEA# BG1234567', 'NPI: 1234567893'].join(
+        '\n',
+      ),
+    );
+
+    expect(fields.map(({ key, value }) => [key, value])).toEqual([
+      [PrescriptionFieldKey.PRESCRIBER_NAME, 'Dr. Alan Grant'],
+      [PrescriptionFieldKey.PRESCRIBER_DEA, 'BG1234567'],
+      [PrescriptionFieldKey.PRESCRIBER_NPI, '1234567893'],
+    ]);
+    // 1+3+5 + 2*(2+4+6) = 33: check digit 3, not 7
+    expect(fields[1].confidence).toBe(0.5);
+    expect(fields[2].confidence).toBe(0.95);
+  });
+});
@@ -0,0 +1,567 @@
+import { Medication } from '../domain/entities/medication.entity';
+import { MedicationRoute } from '../domain/enums/medication-route.enum';
+import { PrescriptionFieldKey } from '../domain/enums/prescription-field-key.enum';
+import { lookupDrug, MAX_DRUG_NAME_WORDS } from './drug-dictionary';
+
+/**
+ * Medication Parser
+ *
+ * Reads the medications of a prescription or medication list from its text.
+ * A medication starts at a line naming a drug (found in the bundled drug
+ * dictionary, or followed by a strength such as "500 mg"); the lines below it
+ * up to the next medication add its sig, dispense quantity and refills.
+ * Sig abbreviations (PO, BID, PRN, q6h, ...) are normalized into route,
+ * frequency and as-needed fields; the sig is also kept as printed.
+ *
+ * Prescriber name, DEA and NPI numbers are read separately, as document
+ * level fields.
+ *
+ * HIPAA Compliance:
+ * - This is processing PHI - never log medication contents, only counts
+ */
+
+export type ParsedMedication = Omit<
+  Medication,
+  'id' | 'documentId' | 'createdAt'
+>;
+
+export interface PrescriptionField {
+  key: PrescriptionFieldKey;
+  value: string;
+  confidence: number; // Lower for numbers failing their checksum
+  startOffset: number; // Position in the text
+  endOffset: number;
+}
+
+type SigFields = Pick<
+  ParsedMedication,
+  | 'dose'
+  | 'route'
+  | 'frequency'
+  | 'timesPerDay'
+  | 'intervalHours'
+  | 'asNeeded'
+  | 'asNeededReason'
+>;
+
+interface DrugName {
+  printedName: string;
+  canonicalName?: string; // When in the dictionary
+  exact: boolean;
+  end: number; // Index in the line after the name
+}
+
+// Drug name confidence: dictionary name, within one OCR error, unknown
+const CONFIDENCE_DICTIONARY = 0.9;
+const CONFIDENCE_FUZZY = 0.75;
+const CONFIDENCE_UNKNOWN = 0.6;
+
+// e.g. 500 mg, 5/325 mg, 90 mcg/act, 100 units/mL, 0.1%
+const STRENGTH_PATTERN =
+  /(\d+(?:\.\d+)?(?:\s*\/\s*\d+(?:\.\d+)?)*)\s*(mg|mcg|µg|g|ml|units?|iu|meq|%)(?:\s*\/\s*(\d+(?:\.\d+)?\s*)?(ml|act|actuation|hr|h|dose))?(?![a-z/])/i;
+const STRENGTH_UNITS: Record<string, string> = {
+  µg: 'mcg',
+  ml: 'mL',
+  unit: 'units',
+  iu: 'units',
+  meq: 'mEq',
+  actuation: 'act',
+  h: 'hr',
+};
+
+// Dosage form by abbreviation or name
+const DOSAGE_FORMS: Array<[RegExp, string]> = [
+  [/\b(?:tabs?|tablets?)\b/i, 'tablet'],
+  [/\b(?:caps?|capsules?)\b/i, 'capsule'],
+  [/\b(?:inhalers?|hfa|mdi)\b/i, 'inhaler'],
+  [/\b(?:soln|solution)\b/i, 'solution'],
+  [/\b(?:susp|suspension)\b/i, 'suspension'],
+  [/\bsyrup\b/i, 'syrup'],
+  [/\bcream\b/i, 'cream'],
+  [/\b(?:oint|ointment)\b/i, 'ointment'],
+  [/\bgel\b/i, 'gel'],
+  [/\bpatch(?:es)?\b/i, 'patch'],
+  [/\b(?:inj|injection|pen)\b/i, 'injection'],
+  [/\b(?:drops|gtts?)\b/i, 'drops'],
+  [/\b(?:nasal\s+)?spray\b/i, 'spray'],
+  [/\b(?:supp|suppository)\b/i, 'suppository'],
+];
+
+// Route by sig wording, most specific first
+const ROUTES: Array<[RegExp, MedicationRoute]> = [
+  [
+    /\b(?:sl|sublingual(?:ly)?|under the tongue)\b/i,
+    MedicationRoute.SUBLINGUAL,
+  ],
+  [/\b(?:po|p\.o\.|by mouth|orally|oral)\b/i, MedicationRoute.ORAL],
+  [
+    /\b(?:sc|sq|subq|sub-q|subcut(?:aneous(?:ly)?)?)\b/i,
+    MedicationRoute.SUBCUTANEOUS,
+  ],
+  [/\b(?:im|intramuscular(?:ly)?)\b/i, MedicationRoute.INTRAMUSCULAR],
+  [/\b(?:iv|intravenous(?:ly)?)\b/i, MedicationRoute.INTRAVENOUS],
+  [/\b(?:td|transdermal(?:ly)?)\b/i, MedicationRoute.TRANSDERMAL],
+  [
+    /\b(?:inh|inhale|inhaled|inhalation|puffs?|neb|nebulized?)\b/i,
+    MedicationRoute.INHALATION,
+  ],
+  [
+    /\b(?:nasal(?:ly)?|intranasal|each nostril|in (?:each |the )?nostrils?)\b/i,
+    MedicationRoute.NASAL,
+  ],
+  [
+    /\b(?:ou|od|os|ophthalmic|(?:each|left|right|both) eyes?|in (?:the )?eyes?)\b/i,
+    MedicationRoute.OPHTHALMIC,
+  ],
+  [
+    /\b(?:otic|(?:each|left|right|both) ears?|in (?:the )?ears?)\b/i,
+    MedicationRoute.OTIC,
+  ],
+  [/\b(?:pr|rectal(?:ly)?|per rectum)\b/i, MedicationRoute.RECTAL],
+  [/\b(?:pv|vaginal(?:ly)?)\b/i, MedicationRoute.VAGINAL],
+  [
+    /\b(?:top|topical(?:ly)?|to (?:the )?affected area)\b/i,
+    MedicationRoute.TOPICAL,
+  ],
+];
+
+// Route implied by the dosage form, when the sig names none
+const FORM_ROUTES: Record<string, MedicationRoute> = {
+  tablet: MedicationRoute.ORAL,
+  capsule: MedicationRoute.ORAL,
+  syrup: MedicationRoute.ORAL,
+  suspension: MedicationRoute.ORAL,
+  inhaler: MedicationRoute.INHALATION,
+  patch: MedicationRoute.TRANSDERMAL,
+  cream: MedicationRoute.TOPICAL,
+  ointment: MedicationRoute.TOPICAL,
+  gel: MedicationRoute.TOPICAL,
+  suppository: MedicationRoute.RECTAL,
+};
+
+interface Frequency {
+  pattern: RegExp;
+  frequency: (match: RegExpExecArray) => string;
+  timesPerDay?: (match: RegExpExecArray) => number | undefined;
+  intervalHours?: (match: RegExpExecArray) => number;
+}
+
+// Most specific first ("twice daily" before "daily")
+const FREQUENCIES: Frequency[] = [
+  {
+    // q4-6h: the shortest interval bounds the daily maximum
+    pattern:
+      /\b(?:q\.?\s*|every\s+)(\d+)\s*(?:-|to)\s*(\d+)\s*(?:h|hrs?|hours?)\b/i,
+    frequency: (match) => `every ${match[1]}-${match[2]} hours`,
+    timesPerDay: (match) => Math.floor(24 / Number(match[1])),
+    intervalHours: (match) => Number(match[1]),
+  },
+  {
+    pattern: /\b(?:q\.?\s*|every\s+)(\d+)\s*(?:h|hrs?|hours?)\b/i,
+    frequency: (match) => `every ${match[1]} hours`,
+    timesPerDay: (match) => Math.floor(24 / Number(match[1])),
+    intervalHours: (match) => Number(match[1]),
+  },
+  {
+    pattern: /\b(?:qid|q\.i\.d\.?|(?:four|4) times (?:a|per) day)(?![a-z])/i,
+    frequency: () => 'four times daily',
+    timesPerDay: () => 4,
+  },
+  {
+    pattern: /\b(?:tid|t\.i\.d\.?|(?:three|3) times (?:a|per) day)(?![a-z])/i,
+    frequency: () => 'three times daily',
+    timesPerDay: () => 3,
+  },
+  {
+    pattern:
+      /\b(?:bid|b\.i\.d\.?|twice (?:a |per )?day|twice daily|2 times (?:a|per) day)(?![a-z])/i,
+    frequency: () => 'twice daily',
+    timesPerDay: () => 2,
+  },
+  {
+    pattern: /\b(?:qhs|hs|at bedtime|nightly)\b/i,
+    frequency: () => 'at bedtime',
+    timesPerDay: () => 1,
+  },
+  {
+    pattern: /\b(?:qam|every morning|in the morning)\b/i,
+    frequency: () => 'every morning',
+    timesPerDay: () => 1,
+  },
+  {
+    pattern: /\b(?:qpm|every evening|in the evening)\b/i,
+    frequency: () => 'every evening',
+    timesPerDay: () => 1,
+  },
+  {
+    pattern: /\b(?:qod|every other day)\b/i,
+    frequency: () => 'every other day',
+    intervalHours: () => 48,
+  },
+  {
+    pattern: /\b(?:qwk|q\s?week|weekly|once (?:a|per) week|every week)\b/i,
+    frequency: () => 'once weekly',
+    intervalHours: () => 168,
+  },
+  {
+    pattern:
+      /\b(?:qd|q\.d\.?|qday|daily|once (?:a |per )?day|every day)(?![a-z])/i,
+    frequency: () => 'once daily',
+    timesPerDay: () => 1,
+  },
+];
+
+const PRN_PATTERN = /\b(?:prn|p\.r\.n\.?|as needed)(?![a-z])/i;
+// Where the as-needed reason ends
+const PRN_REASON_END =
+  /[.,;(]|\b(?:max(?:imum)?|do not|not to exceed|may repeat|x\s*\d|for\s+\d|up to)\b/i;
+
+// Amount per administration: [singular, plural] by abbreviation
+const DOSE_UNITS: Array<[RegExp, string, string]> = [
+  [/^(?:tabs?|tablets?)$/i, 'tablet', 'tablets'],
+  [/^(?:caps?|capsules?)$/i, 'capsule', 'capsules'],
+  [/^puffs?$/i, 'puff', 'puffs'],
+  [/^sprays?$/i, 'spray', 'sprays'],
+  [/^(?:drops?|gtts?)$/i, 'drop', 'drops'],
+  [/^units?$/i, 'unit', 'units'],
+  [/^ml$/i, 'mL', 'mL'],
+  [/^(?:tsp|teaspoons?)$/i, 'teaspoon', 'teaspoons'],
+  [/^patch(?:es)?$/i, 'patch', 'patches'],
+  [/^(?:suppository|suppositories)$/i, 'suppository', 'suppositories'],
+];
+const DOSE_PATTERN =
+  /\b(\d+(?:\.\d+)?(?:\s*-\s*\d+(?:\.\d+)?)?|one|two|three|half|1\/2)\s+(tabs?|tablets?|caps?|capsules?|puffs?|sprays?|drops?|gtts?|units?|ml|tsp|teaspoons?|patch(?:es)?|suppository|suppositories)\b/i;
+const NUMBER_WORDS: Record<string, string> = {
+  one: '1',
+  two: '2',
+  three: '3',
+  half: '0.5',
+  '1/2': '0.5',
+};
+
+const SIG_LABEL = /^(?:sig|directions|instructions)\s*[:.]\s*/i;
+const QUANTITY_PATTERN =
+  /\b(?:disp(?:ense)?|qty|quantity)\b\.?\s*[:.]?\s*#?\s*(\d+(?:\.\d+)?)/i;
+const REFILLS_PATTERN =
+  /\b(?:refills?|rf)\b\s*[:#x]?\s*(\d+|none|no|zero|nr)\b|\bno refills\b|\bNR\b/i;
+
+// Lines never starting a medication (header, prescriber, dispense details)
+const NON_MEDICATION_LINE =
+  /^(?:sig|directions|instructions|disp(?:ense)?|qty|quantity|refills?|rf|prescriber|prescribed|physician|provider|doctor|dr\.?|signature|signed|dea|npi|patient|name|dob|date|address|phone|allerg(?:y|ies)|pharmacy|license|page)\b/i;
+// Lines ending a medication's block (prescriber details below the last one)
+const BLOCK_END_LINE =
+  /^(?:prescriber|prescribed|physician|provider|doctor|dr\.?|signature|signed|dea|npi|license)\b|,\s*(?:md|do|np|pa-c|pa)\b/i;
+
+// Prescriber name on one line, e.g. "Dr. Jane A. Smith", and credentials
+const PERSON_NAME = String.raw`(?:Dr\.?[ \t]+)?[A-Z][A-Za-z'-]+(?:[ \t]+[A-Z]\.?)?(?:[ \t]+[A-Z][A-Za-z'-]+){1,2}`;
+const CREDENTIALS = 'MD|DO|NP|PA-C|PA|DDS|DPM|APRN|FNP-C|FNP';
+
+/**
+ * Extract the medications of a prescription or medication list
+ */
+export function extractMedications(text: string): ParsedMedication[] {
+  if (!text || text.trim().length === 0) {
+    return [];
+  }
+
+  const blocks: Array<{ drug: DrugName; line: string; rest: string[] }> = [];
+  for (const rawLine of text.split('\n')) {
+    const line = rawLine
+      .trim()
+      // Bullets, numbering and the Rx symbol
+      .replace(/^(?:[-*•]|\d{1,2}[.)]|rx\s*:?|℞)\s*/i, '');
+    if (line.length === 0) continue;
+
+    const drug = NON_MEDICATION_LINE.test(line) ? undefined : findDrug(line);
+    if (drug) {
+      blocks.push({ drug, line, rest: [] });
+    } else if (blocks.length > 0) {
+      if (BLOCK_END_LINE.test(line)) {
+        blocks[blocks.length - 1].rest.push('\u0000'); // Closed
+      } else if (!blocks[blocks.length - 1].rest.includes('\u0000')) {
+        blocks[blocks.length - 1].rest.push(line);
+      }
+    }
+  }
+
+  return blocks.map(({ drug, line, rest }, rowIndex) =>
+    parseMedication(
+      drug,
+      line,
+      rest.filter((restLine) => restLine !== '\u0000'),
+      rowIndex,
+    ),
+  );
+}
+
+/**
+ * Extract prescriber name, DEA and NPI numbers
+ * @returns At most one field per key, in PrescriptionFieldKey order
+ */
+export function extractPrescriberFields(text: string): PrescriptionField[] {
+  if (!text || text.trim().length === 0) {
+    return [];
+  }
+
+  const fields: PrescriptionField[] = [];
+
+  const prescriber = findPrescriber(text);
+  if (prescriber) fields.push(prescriber);
+
+  const dea =
+    /\bDEA\s*(?:#|no\.?|number|reg(?:istration)?)?\s*[:#]?\s*([A-Z][A-Z9]\d{7})(?![A-Z0-9])/i.exec(
+      text,
+    );
+  if (dea) {
+    const value = dea[1].toUpperCase();
+    fields.push({
+      key: PrescriptionFieldKey.PRESCRIBER_DEA,
+      value,
+      confidence: isValidDea(value) ? 0.95 : 0.5,
+      ...valueOffsets(dea),
+    });
+  }
+
+  const npi = /\bNPI\s*(?:#|no\.?|number)?\s*[:#]?\s*(\d{10})(?!\d)/i.exec(
+    text,
+  );
+  if (npi) {
+    fields.push({
+      key: PrescriptionFieldKey.PRESCRIBER_NPI,
+      value: npi[1],
+      confidence: isValidNpi(npi[1]) ? 0.95 : 0.5,
+      ...valueOffsets(npi),
+    });
+  }
+
+  return fields;
+}
+
+/**
+ * Normalize a sig into dose, route, frequency and as-needed fields
+ */
+export function parseSig(sig: string): SigFields {
+  const fields: SigFields = { asNeeded: false };
+
+  const dose = DOSE_PATTERN.exec(sig);
+  if (dose) {
+    const amount = NUMBER_WORDS[dose[1].toLowerCase()] ?? dose[1];
+    const unit = DOSE_UNITS.find(([pattern]) => pattern.test(dose[2]));
+    if (unit) {
+      fields.dose = `${amount.replace(/\s+/g, '')} ${amount === '1' ? unit[1] : unit[2]}`;
+    }
+  }
+
+  fields.route = ROUTES.find(([pattern]) => pattern.test(sig))?.[1];
+
+  for (const candidate of FREQUENCIES) {
+    const match = candidate.pattern.exec(sig);
+    if (match) {
+      fields.frequency = candidate.frequency(match);
+      fields.timesPerDay = candidate.timesPerDay?.(match);
+      fields.intervalHours = candidate.intervalHours?.(match);
+      break;
+    }
+  }
+
+  const prn = PRN_PATTERN.exec(sig);
+  if (prn) {
+    fields.asNeeded = true;
+    const after = sig
+      .slice(prn.index + prn[0].length)
+      .replace(/^\s*(?:for\s+)?/i, '');
+    const reason = after.split(PRN_REASON_END)[0].trim();
+    if (/^[a-z][a-z\s/-]{1,40}$/i.test(reason)) {
+      fields.asNeededReason = reason.toLowerCase();
+    }
+  }
+
+  return fields;
+}
+
+function parseMedication(
+  drug: DrugName,
+  line: string,
+  rest: string[],
+  rowIndex: number,
+): ParsedMedication {
+  const afterName = line.slice(drug.end);
+  const block = [line, ...rest].join('\n');
+
+  const strength = STRENGTH_PATTERN.exec(afterName);
+  const afterStrength = strength
+    ? afterName.slice(strength.index + strength[0].length)
+    : afterName;
+  const dosageForm = DOSAGE_FORMS.find(([pattern]) =>
+    pattern.test(afterName),
+  )?.[1];
+
+  // Labeled sig below the drug line, else the directions on the line
+  const labeledSig = rest.find((restLine) => SIG_LABEL.test(restLine));
+  const sig = labeledSig
+    ? labeledSig.replace(SIG_LABEL, '').trim()
+    : stripDosageForm(
+        afterStrength
+          .replace(QUANTITY_PATTERN, '')
+          .replace(/^[\s,;:-]+|[\s,;:-]+$/g, ''),
+      );
+  const sigFields = parseSig(sig);
+
+  const quantity = QUANTITY_PATTERN.exec(block);
+  const refills = REFILLS_PATTERN.exec(block);
+
+  return {
+    rowIndex,
+    drugName: drug.canonicalName ?? drug.printedName,
+    printedName: drug.printedName,
+    strength: strength ? normalizeStrength(strength) : undefined,
+    dosageForm,
+    sig: sig || undefined,
+    ...sigFields,
+    route:
+      sigFields.route ?? (dosageForm ? FORM_ROUTES[dosageForm] : undefined),
+    quantity: quantity ? Number(quantity[1]) : undefined,
+    refills: refills ? parseRefills(refills) : undefined,
+    confidence: drug.canonicalName
+      ? drug.exact
+        ? CONFIDENCE_DICTIONARY
+        : CONFIDENCE_FUZZY
+      : CONFIDENCE_UNKNOWN,
+  };
+}
+
+/**
+ * Drug named on a line: the first dictionary name (longest first), else the
+ * words before a strength
+ */
+function findDrug(line: string): DrugName | undefined {
+  const words = [...line.matchAll(/[A-Za-z][A-Za-z/-]*/g)];
+
+  for (let start = 0; start < words.length; start++) {
+    for (
+      let count = Math.min(MAX_DRUG_NAME_WORDS, words.length - start);
+      count > 0;
+      count--
+    ) {
+      const first = words[start];
+      const last = words[start + count - 1];
+      const end = (last.index as number) + last[0].length;
+      const printedName = line.slice(first.index, end);
+      const match = lookupDrug(printedName);
+      if (match) {
+        return {
+          printedName,
+          canonicalName: match.canonicalName,
+          exact: match.exact,
+          end,
+        };
+      }
+    }
+  }
+
+  const strength = STRENGTH_PATTERN.exec(line);
+  if (strength) {
+    const printedName = line
+      .slice(0, strength.index)
+      .replace(/[\s,:-]+$/, '')
+      .trim();
+    if (/^[A-Za-z][A-Za-z\s/-]{2,40}$/.test(printedName)) {
+      return {
+        printedName,
+        exact: false,
+        end: line.indexOf(printedName) + printedName.length,
+      };
+    }
+  }
+
+  return undefined;
+}
+
+// Drop the dosage form printed before the directions ("tablet - take 1 ...")
+function stripDosageForm(text: string): string {
+  const form = DOSAGE_FORMS.map(([pattern]) => pattern.exec(text)).find(
+    (match) => match?.index === 0,
+  );
+  return (form ? text.slice(form[0].length) : text)
+    .replace(/^[\s,;:-]+/, '')
+    .trim();
+}
+
+function normalizeStrength(match: RegExpExecArray): string {
+  const unit = (value: string) =>
+    STRENGTH_UNITS[value.toLowerCase()] ?? value.toLowerCase();
+  const amount = match[1].replace(/\s+/g, '');
+  const per = match[4]
+    ? `/${match[3] ? match[3].trim() : ''}${unit(match[4])}`
+    : '';
+  return match[2] === '%' ? `${amount}%` : `${amount} ${unit(match[2])}${per}`;
+}
+
+function parseRefills(match: RegExpExecArray): number {
+  const value = match[1]?.toLowerCase();
+  return value && /^\d+$/.test(value) ? Number(value) : 0;
+}
+
+function findPrescriber(text: string): PrescriptionField | undefined {
+  const labeled = new RegExp(
+    String.raw`\b(?:[Pp]rescriber|[Pp]rescribed by|PRESCRIBER|PRESCRIBED BY)[ \t]*:?[ \t]*(${PERSON_NAME}(?:,?[ \t]+(?:${CREDENTIALS})\b)?)`,
+  ).exec(text);
+  if (labeled) {
+    return {
+      key: PrescriptionFieldKey.PRESCRIBER_NAME,
+      value: labeled[1].trim(),
+      confidence: 0.9,
+      ...valueOffsets(labeled),
+    };
+  }
+
+  // A name with credentials on its own line, e.g. "Jane Smith, MD"
+  const signed = new RegExp(
+    String.raw`^[ \t]*(${PERSON_NAME},?[ \t]+(?:${CREDENTIALS}))\b`,
+    'm',
+  ).exec(text);
+  if (signed) {
+    return {
+      key: PrescriptionFieldKey.PRESCRIBER_NAME,
+      value: signed[1].trim(),
+      confidence: 0.8,
+      ...valueOffsets(signed),
+    };
+  }
+
+  return undefined;
+}
+
+/**
+ * DEA registration number checksum: (d1 + d3 + d5) + 2 * (d2 + d4 + d6)
+ * ends in d7
+ */
+function isValidDea(dea: string): boolean {
+  const digits = dea.slice(2).split('').map(Number);
+  const sum =
+    digits[0] + digits[2] + digits[4] + 2 * (digits[1] + digits[3] + digits[5]);
+  return sum % 10 === digits[6];
+}
+
+/**
+ * NPI check digit: Luhn over the number prefixed with 80840
+ */
+function isValidNpi(npi: string): boolean {
+  const digits = `80840${npi}`.split('').map(Number).reverse();
+  const sum = digits.reduce((total, digit, index) => {
+    if (index % 2 === 0) return total + digit;
+    const doubled = digit * 2;
+    return total + (doubled > 9 ? doubled - 9 : doubled);
+  }, 0);
+  return sum % 10 === 0;
+}
+
+// Offsets of the last capture group, which ends the match
+function valueOffsets(match: RegExpExecArray): {
+  startOffset: number;
+  endOffset: number;
+} {
+  const value = match[match.length - 1];
+  const startOffset = match.index + match[0].lastIndexOf(value);
+  return { startOffset, endOffset: startOffset + value.length };
+}
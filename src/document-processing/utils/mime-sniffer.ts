@@ -0,0 +1,50 @@
+/**
+ * MIME Type Sniffer
+ *
+ * Detects the real type of an uploaded file from its leading bytes, so a
+ * client-declared Content-Type cannot smuggle other content into storage.
+ * Supports the upload formats accepted by the API: PDF, JPEG, PNG, TIFF, GIF.
+ */
+
+// Leading bytes needed to recognise every supported format
+export const MIME_SNIFF_BYTES = 8;
+
+/**
+ * Detect the MIME type of a file from its first bytes
+ * @returns undefined if the content is not a supported format
+ */
+export function sniffMimeType(header: Buffer): string | undefined {
+  // PDF readers also accept the signature later in the first 1024 bytes, but
+  // that is how polyglot files (e.g. HTML or ZIP that is also a PDF) get in
+  if (header.toString('latin1', 0, 5) === '%PDF-') {
+    return 'application/pdf';
+  }
+  if (
+    header.length >= 3 &&
+    header[0] === 0xff &&
+    header[1] === 0xd8 &&
+    header[2] === 0xff
+  ) {
+    return 'image/jpeg';
+  }
+  if (
+    header.length >= 8 &&
+    header.readUInt32BE(0) === 0x89504e47 &&
+    header.readUInt32BE(4) === 0x0d0a1a0a
+  ) {
+    return 'image/png';
+  }
+  if (header.length >= 4) {
+    const signature = header.toString('latin1', 0, 4);
+    if (signature === 'II*\0' || signature === 'MM\0*') {
+      return 'image/tiff';
+    }
+  }
+  if (header.length >= 6) {
+    const signature = header.toString('ascii', 0, 6);
+    if (signature === 'GIF87a' || signature === 'GIF89a') {
+      return 'image/gif';
+    }
+  }
+  return undefined;
+}
@@ -0,0 +1,113 @@
+import { Logger } from '@nestjs/common';
+
+/**
+ * OCR Serialization Helpers
+ *
+ * Shared by the domain service and extraction stages to produce
+ * storage-safe copies of OCR engine output.
+ *
+ * HIPAA Compliance:
+ * - Error messages are stripped of storage URIs and project identifiers
+ * - Page images are removed from stored responses
+ */
+
+const logger = new Logger('OcrSerialization');
+
+/**
+ * Redact infrastructure identifiers from an error message
+ */
+export function sanitizeError(error: any): string {
+  const message = error?.message || String(error);
+  return message
+    .replace(/(gs|s3|local):\/\/[^\s]+/g, '[URI_REDACTED]')
+    .replace(/projects\/[^\/\s]+/g, '[PROJECT_REDACTED]')
+    .substring(0, 500);
+}
+
+/**
+ * Sanitize fullResponse by removing image fields from pages
+ * This reduces payload size and avoids exposing image data
+ */
+export function sanitizeFullResponse(fullResponse: any): any {
+  if (!fullResponse) {
+    return fullResponse;
+  }
+
+  try {
+    // Deep clone to avoid mutating original
+    const seen = new WeakSet();
+    const sanitized = JSON.parse(
+      JSON.stringify(fullResponse, (key, value) => {
+        // Skip circular references
+        if (typeof value === 'object' && value !== null) {
+          if (seen.has(value)) {
+            return '[Circular Reference]';
+          }
+          seen.add(value);
+        }
+        return value;
+      }),
+    );
+
+    // Remove image field from pages array
+    if (sanitized && Array.isArray(sanitized.pages)) {
+      sanitized.pages = sanitized.pages.map((page: any) => {
+        if (page && typeof page === 'object') {
+          // eslint-disable-next-line @typescript-eslint/no-unused-vars
+          const { image, ...pageWithoutImage } = page;
+          return pageWithoutImage;
+        }
+        return page;
+      });
+    }
+
+    return sanitized;
+  } catch (error) {
+    // If sanitization fails, return original (will be handled by caller)
+    logger.warn(
+      `Failed to sanitize fullResponse: ${sanitizeError(error)}. Returning original.`,
+    );
+    return fullResponse;
+  }
+}
+
+/**
+ * Serialize OCR result to avoid circular references when storing in database
+ * Creates a clean copy without circular references
+ */
+export function serializeOcrResult(ocrResult: any): any {
+  if (!ocrResult) {
+    return null;
+  }
+
+  try {
+    // Create a clean copy with only the data we need
+    const serialized: any = {
+      text: ocrResult.text,
+      confidence: ocrResult.confidence,
+      pageCount: ocrResult.pageCount,
+      entities: ocrResult.entities ? [...ocrResult.entities] : undefined,
+      outputRef: ocrResult.outputRef,
+    };
+
+    // Safely serialize fullResponse (which may contain circular references)
+    // and remove image fields from pages
+    if (ocrResult.fullResponse) {
+      serialized.fullResponse = sanitizeFullResponse(ocrResult.fullResponse);
+    }
+
+    return serialized;
+  } catch (error) {
+    // If serialization fails, return a minimal safe structure
+    logger.warn(
+      `Failed to serialize OCR result: ${sanitizeError(error)}. Returning minimal structure.`,
+    );
+    return {
+      text: ocrResult.text,
+      confidence: ocrResult.confidence,
+      pageCount: ocrResult.pageCount,
+      entities: ocrResult.entities,
+      fullResponse: '[Serialization Error]',
+    };
+  }
+}
@@ -0,0 +1,30 @@
+/**
+ * YYYY-MM-DD from a printed date: YYYY-MM-DD, or US MM/DD/YY(YY) with slashes
+ * or dashes. Two-digit years are taken within the last hundred years.
+ * @returns undefined for impossible dates (e.g. 02/30/2024)
+ */
+export function toIsoDate(printed: string): string | undefined {
+  let year: number;
+  let month: number;
+  let day: number;
+
+  const parts = printed.split(/[/-]/).map(Number);
+  if (/^\d{4}-/.test(printed)) {
+    [year, month, day] = parts;
+  } else {
+    [month, day, year] = parts;
+    if (year < 100) {
+      year += year > new Date().getUTCFullYear() % 100 ? 1900 : 2000;
+    }
+  }
+
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (
+    date.getUTCFullYear() !== year ||
+    date.getUTCMonth() !== month - 1 ||
+    date.getUTCDate() !== day
+  ) {
+    return undefined;
+  }
+  return date.toISOString().slice(0, 10);
+}
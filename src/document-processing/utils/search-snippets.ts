@@ -0,0 +1,95 @@
+/**
+ * Search Snippets
+ *
+ * Highlighted excerpts of a document's extracted text for search results.
+ * Fragments are HTML-escaped and matches wrapped in <mark>, so clients can
+ * render snippets as HTML without trusting OCR output.
+ */
+
+// Delimiters the database puts around matches and between fragments
+// (control characters never present in extracted text)
+export const SNIPPET_MATCH_START = '\u0002';
+export const SNIPPET_MATCH_END = '\u0003';
+export const SNIPPET_FRAGMENT_DELIMITER = '\u0004';
+
+export const SNIPPET_MAX_FRAGMENTS = 3;
+export const SNIPPET_FRAGMENT_WORDS = 20;
+
+const HTML_ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;',
+};
+
+/**
+ * Convert fragments with match delimiters into HTML snippets
+ */
+export function toHtmlSnippets(headline: string): string[] {
+  return headline
+    .split(SNIPPET_FRAGMENT_DELIMITER)
+    .map((fragment) => fragment.trim())
+    .filter((fragment) => fragment.length > 0)
+    .map((fragment) =>
+      fragment
+        .replace(/[&<>"']/g, (char) => HTML_ESCAPES[char])
+        .split(SNIPPET_MATCH_START)
+        .join('<mark>')
+        .split(SNIPPET_MATCH_END)
+        .join('</mark>'),
+    );
+}
+
+/**
+ * Build snippets in application code, for databases without a headline
+ * function (MongoDB): fragments around words starting with a query term
+ * @param query - Web search syntax ("quoted phrase", or, -excluded)
+ */
+export function buildSnippets(text: string, query: string): string[] {
+  const terms = query
+    .toLowerCase()
+    .split(/\s+/)
+    .filter((term) => term !== 'or' && !term.startsWith('-'))
+    .map(normalizeWord)
+    .filter((term) => term.length > 0);
+  if (terms.length === 0) return [];
+
+  const isMatch = (word: string) => {
+    const normalized = normalizeWord(word);
+    return (
+      normalized.length > 0 && terms.some((term) => normalized.startsWith(term))
+    );
+  };
+
+  const words = text.split(/\s+/).filter((word) => word.length > 0);
+  const fragments: string[] = [];
+  let end = -1; // Last word already in a fragment
+
+  for (
+    let i = 0;
+    i < words.length && fragments.length < SNIPPET_MAX_FRAGMENTS;
+    i++
+  ) {
+    if (i <= end || !isMatch(words[i])) continue;
+
+    const start = Math.max(end + 1, i - SNIPPET_FRAGMENT_WORDS / 2);
+    end = Math.min(words.length - 1, start + SNIPPET_FRAGMENT_WORDS - 1);
+    fragments.push(
+      words
+        .slice(start, end + 1)
+        .map((word) =>
+          isMatch(word)
+            ? `${SNIPPET_MATCH_START}${word}${SNIPPET_MATCH_END}`
+            : word,
+        )
+        .join(' '),
+    );
+  }
+
+  return toHtmlSnippets(fragments.join(SNIPPET_FRAGMENT_DELIMITER));
+}
+
+function normalizeWord(word: string): string {
+  return word.toLowerCase().replace(/[^\p{L}\p{N}]/gu, '');
+}
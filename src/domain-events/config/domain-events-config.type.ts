@@ -0,0 +1,12 @@
+export enum DomainEventsDriver {
+  MEMORY = 'memory', // Subscribers run in-process when the event is published
+  OUTBOX = 'outbox', // Events are stored first; the relay retries unfinished subscribers
+}
+
+export type DomainEventsConfig = {
+  driver: DomainEventsDriver;
+  relayEnabled: boolean; // Outbox only: poll for events left unfinished
+  pollIntervalMs: number;
+  maxAttempts: number; // Dispatch attempts before an event is marked FAILED
+  retryBaseSeconds: number; // Backoff before the first retry; doubles per attempt
+};
@@ -0,0 +1,60 @@
+import { registerAs } from '@nestjs/config';
+import {
+  DomainEventsConfig,
+  DomainEventsDriver,
+} from './domain-events-config.type';
+import {
+  IsBoolean,
+  IsEnum,
+  IsInt,
+  IsOptional,
+  Max,
+  Min,
+} from 'class-validator';
+import validateConfig from '../../utils/validate-config';
+
+class EnvironmentVariablesValidator {
+  @IsEnum(DomainEventsDriver)
+  @IsOptional()
+  DOMAIN_EVENTS_DRIVER: DomainEventsDriver;
+
+  @IsBoolean()
+  @IsOptional()
+  DOMAIN_EVENTS_RELAY_ENABLED: boolean;
+
+  @IsInt()
+  @Min(100)
+  @IsOptional()
+  DOMAIN_EVENTS_POLL_INTERVAL_MS: number;
+
+  @IsInt()
+  @Min(1)
+  @Max(20)
+  @IsOptional()
+  DOMAIN_EVENTS_MAX_ATTEMPTS: number;
+
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  DOMAIN_EVENTS_RETRY_BASE_SECONDS: number;
+}
+
+export default registerAs<DomainEventsConfig>('domainEvents', () => {
+  validateConfig(process.env, EnvironmentVariablesValidator);
+
+  return {
+    driver:
+      (process.env.DOMAIN_EVENTS_DRIVER as DomainEventsDriver) ||
+      DomainEventsDriver.MEMORY, // In-process dispatch (default)
+    relayEnabled: process.env.DOMAIN_EVENTS_RELAY_ENABLED !== 'false', // Outbox relay on this instance (default: on)
+    pollIntervalMs: parseInt(
+      process.env.DOMAIN_EVENTS_POLL_INTERVAL_MS ?? '2000',
+      10,
+    ),
+    maxAttempts: parseInt(process.env.DOMAIN_EVENTS_MAX_ATTEMPTS ?? '10', 10),
+    retryBaseSeconds: parseInt(
+      process.env.DOMAIN_EVENTS_RETRY_BASE_SECONDS ?? '10',
+      10,
+    ),
+  };
+});
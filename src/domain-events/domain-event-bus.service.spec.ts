@@ -0,0 +1,156 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { DomainEventBus } from './domain-event-bus.service';
+import { DomainEventName } from './domain/domain-event';
+import { OutboxEventStatus } from './domain/outbox-event-status.enum';
+import { OutboxEventRepository } from './infrastructure/persistence/outbox-event.repository';
+import { UnitOfWork } from './infrastructure/persistence/unit-of-work';
+import { DomainEventsDriver } from './config/domain-events-config.type';
+
+describe('DomainEventBus', () => {
+  let bus: DomainEventBus;
+  let mockOutbox: jest.Mocked<OutboxEventRepository>;
+  let driver: DomainEventsDriver;
+
+  const payload = {
+    documentId: 'doc-100',
+    userId: 1,
+    documentType: 'LAB_RESULT',
+    fileSize: 1024,
+  };
+
+  beforeEach(async () => {
+    driver = DomainEventsDriver.MEMORY;
+
+    mockOutbox = {
+      append: jest.fn(),
+      update: jest.fn(),
+      claimDue: jest.fn().mockResolvedValue([]),
+      deleteDispatchedBefore: jest.fn(),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        DomainEventBus,
+        { provide: OutboxEventRepository, useValue: mockOutbox },
+        {
+          provide: UnitOfWork,
+          useValue: { atomic: true, run: (work) => work() },
+        },
+        {
+          provide: ConfigService,
+          useValue: {
+            getOrThrow: jest.fn(() => ({
+              driver,
+              maxAttempts: 3,
+              retryBaseSeconds: 10,
+            })),
+          },
+        },
+      ],
+    }).compile();
+
+    bus = module.get(DomainEventBus);
+  });
+
+  it('should run every subscriber even when one of them fails', async () => {
+    const failing = jest.fn().mockRejectedValue(new Error('down'));
+    const succeeding = jest.fn();
+    bus.subscribe(DomainEventName.DOCUMENT_UPLOADED, 'failing', failing);
+    bus.subscribe(DomainEventName.DOCUMENT_UPLOADED, 'succeeding', succeeding);
+
+    await bus.publish(DomainEventName.DOCUMENT_UPLOADED, payload);
+
+    expect(failing).toHaveBeenCalled();
+    expect(succeeding).toHaveBeenCalledWith(
+      expect.objectContaining({
+        name: DomainEventName.DOCUMENT_UPLOADED,
+        payload,
+      }),
+    );
+    expect(mockOutbox.append).not.toHaveBeenCalled();
+  });
+
+  it('should store the event in the outbox and schedule a retry of failed subscribers only', async () => {
+    driver = DomainEventsDriver.OUTBOX;
+    const failing = jest.fn().mockRejectedValue(new Error('down'));
+    const succeeding = jest.fn();
+    bus.subscribe(DomainEventName.DOCUMENT_UPLOADED, 'failing', failing);
+    bus.subscribe(DomainEventName.DOCUMENT_UPLOADED, 'succeeding', succeeding);
+
+    await bus.publish(DomainEventName.DOCUMENT_UPLOADED, payload);
+
+    const stored = mockOutbox.append.mock.calls[0][0];
+    expect(stored.status).toBe(OutboxEventStatus.PENDING);
+    const [id, retry] = mockOutbox.update.mock.calls[0];
+    expect(id).toBe(stored.id);
+    expect(retry).toEqual(
+      expect.objectContaining({
+        attempts: 1,
+        completedSubscribers: ['succeeding'],
+      }),
+    );
+    expect(retry.status).toBeUndefined();
+
+    // Relay: only the failed subscriber runs again
+    failing.mockResolvedValue(undefined);
+    mockOutbox.claimDue.mockResolvedValue([{ ...stored, ...retry }]);
+    await bus.dispatchDue(10);
+
+    expect(failing).toHaveBeenCalledTimes(2);
+    expect(succeeding).toHaveBeenCalledTimes(1);
+    expect(mockOutbox.update.mock.calls[1][1]).toEqual(
+      expect.objectContaining({
+        status: OutboxEventStatus.DISPATCHED,
+        attempts: 2,
+      }),
+    );
+  });
+
+  it('should run subscribers only once the transaction is committed', async () => {
+    driver = DomainEventsDriver.OUTBOX;
+    const subscriber = jest.fn();
+    bus.subscribe(DomainEventName.DOCUMENT_UPLOADED, 'subscriber', subscriber);
+
+    await bus.transaction(async () => {
+      await bus.publish(DomainEventName.DOCUMENT_UPLOADED, payload);
+
+      expect(mockOutbox.append).toHaveBeenCalled();
+      expect(subscriber).not.toHaveBeenCalled();
+    });
+
+    expect(subscriber).toHaveBeenCalledTimes(1);
+    expect(mockOutbox.update.mock.calls[0][1].status).toBe(
+      OutboxEventStatus.DISPATCHED,
+    );
+  });
+
+  it('should discard the events of a transaction that fails', async () => {
+    const subscriber = jest.fn();
+    bus.subscribe(DomainEventName.DOCUMENT_UPLOADED, 'subscriber', subscriber);
+
+    await expect(
+      bus.transaction(async () => {
+        await bus.publish(DomainEventName.DOCUMENT_UPLOADED, payload);
+        throw new Error('write failed');
+      }),
+    ).rejects.toThrow('write failed');
+
+    expect(subscriber).not.toHaveBeenCalled();
+  });
+
+  it('should fail the transaction when its event cannot be stored', async () => {
+    driver = DomainEventsDriver.OUTBOX;
+    const subscriber = jest.fn();
+    bus.subscribe(DomainEventName.DOCUMENT_UPLOADED, 'subscriber', subscriber);
+    mockOutbox.append.mockRejectedValue(new Error('outbox down'));
+
+    await expect(
+      bus.transaction(() =>
+        bus.publish(DomainEventName.DOCUMENT_UPLOADED, payload),
+      ),
+    ).rejects.toThrow('outbox down');
+
+    expect(subscriber).not.toHaveBeenCalled();
+  });
+});
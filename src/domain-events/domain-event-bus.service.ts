@@ -0,0 +1,324 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { AsyncLocalStorage } from 'async_hooks';
+import { ConfigService } from '@nestjs/config';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { randomUUID } from 'crypto';
+import {
+  DomainEvent,
+  DomainEventHandler,
+  DomainEventName,
+  DomainEventPayloads,
+} from './domain/domain-event';
+import { OutboxEvent } from './domain/outbox-event';
+import { OutboxEventStatus } from './domain/outbox-event-status.enum';
+import { OutboxEventRepository } from './infrastructure/persistence/outbox-event.repository';
+import { UnitOfWork } from './infrastructure/persistence/unit-of-work';
+import { DomainEventsDriver } from './config/domain-events-config.type';
+import { AllConfigType } from '../config/config.type';
+import { auditRequestContext } from '../audit/audit-request-context';
+
+// Time an instance has to run the subscribers of a claimed event
+const DISPATCH_LEASE_SECONDS = 60;
+// Dispatched events are kept this long for troubleshooting
+const OUTBOX_RETENTION_DAYS = 7;
+
+interface DomainEventSubscription {
+  subscriber: string;
+  handler: DomainEventHandler<any>;
+}
+
+// Event published inside transaction(), delivered once the work is committed
+interface PendingEvent {
+  event: DomainEvent;
+  outboxEvent?: OutboxEvent; // Already stored (outbox driver)
+}
+
+/**
+ * Domain Event Bus
+ *
+ * Services publish typed domain events (DomainEventName) instead of calling
+ * audit, webhooks or caches inline; subscribers register in onModuleInit and
+ * react independently: one failing subscriber never affects the publisher or
+ * the other subscribers.
+ *
+ * Drivers (DOMAIN_EVENTS_DRIVER):
+ * - memory: subscribers run in-process during publish(); failures are logged
+ * - outbox: the event is stored in domain_event_outbox before any subscriber
+ *   runs. Subscribers that fail, or never ran because the process died, are
+ *   retried by the relay with exponential backoff, so every subscriber
+ *   handles every stored event at least once. Subscribers must be idempotent.
+ *
+ * Publish inside transaction() to store the event with the change it
+ * describes: on PostgreSQL both are written in one transaction, so an event
+ * is stored if and only if its change is committed. Subscribers run after
+ * the commit. MongoDB (no replica set, no transactions) stores the event
+ * right after the change.
+ *
+ * HIPAA Compliance:
+ * - Payloads carry IDs, statuses and counts only
+ * - The request context (IP, user agent) is stored with the event so audit
+ *   subscribers record the original client when retried
+ */
+@Injectable()
+export class DomainEventBus {
+  private readonly logger = new Logger(DomainEventBus.name);
+  private readonly subscriptions = new Map<
+    DomainEventName,
+    DomainEventSubscription[]
+  >();
+  private readonly pendingEvents = new AsyncLocalStorage<PendingEvent[]>();
+
+  constructor(
+    private readonly outboxRepository: OutboxEventRepository,
+    private readonly configService: ConfigService<AllConfigType>,
+    private readonly unitOfWork: UnitOfWork,
+  ) {}
+
+  /**
+   * Register a subscriber (call from onModuleInit)
+   * @param subscriber - Stable name; the outbox records which subscribers
+   *   finished an event, so renaming one re-runs it on pending events
+   */
+  subscribe<N extends DomainEventName>(
+    name: N,
+    subscriber: string,
+    handler: DomainEventHandler<N>,
+  ): void {
+    const subscriptions = this.subscriptions.get(name) ?? [];
+    if (subscriptions.some((entry) => entry.subscriber === subscriber)) {
+      throw new Error(`Subscriber ${subscriber} already handles ${name}`);
+    }
+
+    subscriptions.push({ subscriber, handler });
+    this.subscriptions.set(name, subscriptions);
+  }
+
+  /**
+   * Apply the writes of `work` and the events it publishes as one unit
+   * (one transaction on PostgreSQL); nested calls join the outer unit
+   *
+   * Subscribers run once the work is committed. If it throws, its events
+   * are discarded with its changes.
+   */
+  async transaction<T>(work: () => Promise<T>): Promise<T> {
+    if (this.pendingEvents.getStore()) {
+      return work();
+    }
+
+    const pending: PendingEvent[] = [];
+    const result = await this.pendingEvents.run(pending, () =>
+      this.unitOfWork.run(work),
+    );
+
+    for (const { event, outboxEvent } of pending) {
+      if (outboxEvent) {
+        await this.dispatch(outboxEvent);
+      } else {
+        await this.runSubscribers(event, []);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Publish an event to its subscribers
+   * Never fails the caller, except inside a transaction() whose event could
+   * not be stored: the transaction is rolled back instead of committing a
+   * change without its event
+   */
+  async publish<N extends DomainEventName>(
+    name: N,
+    payload: DomainEventPayloads[N],
+  ): Promise<void> {
+    const event: DomainEvent<N> = {
+      id: randomUUID(),
+      name,
+      payload,
+      occurredAt: new Date(),
+      context: auditRequestContext.getStore(),
+    };
+
+    const pending = this.pendingEvents.getStore();
+
+    if (this.getConfig().driver !== DomainEventsDriver.OUTBOX) {
+      if (pending) {
+        pending.push({ event });
+      } else {
+        await this.runSubscribers(event, []);
+      }
+      return;
+    }
+
+    const outboxEvent = this.toOutboxEvent(event);
+    try {
+      await this.outboxRepository.append(outboxEvent);
+    } catch (error) {
+      if (pending && this.unitOfWork.atomic) {
+        throw error;
+      }
+
+      // Run the subscribers anyway rather than lose the side effects
+      this.logger.error(
+        `[EVENTS] Could not store ${name} ${event.id} in the outbox: ${error.message}`,
+      );
+      if (pending) {
+        pending.push({ event });
+      } else {
+        await this.runSubscribers(event, []);
+      }
+      return;
+    }
+
+    if (pending) {
+      pending.push({ event, outboxEvent });
+    } else {
+      await this.dispatch(outboxEvent);
+    }
+  }
+
+  /**
+   * Claim stored events that are due and run their unfinished subscribers
+   * (called by the outbox relay)
+   * @returns Number of events dispatched
+   */
+  async dispatchDue(limit: number): Promise<number> {
+    const events = await this.outboxRepository.claimDue(
+      limit,
+      DISPATCH_LEASE_SECONDS,
+    );
+
+    // One at a time: events keep the order they were published in
+    for (const event of events) {
+      await this.dispatch(event);
+    }
+
+    return events.length;
+  }
+
+  /**
+   * Prune dispatched events from the outbox
+   * Runs daily at 5:00 AM UTC
+   */
+  @Cron(CronExpression.EVERY_DAY_AT_5AM)
+  async cleanupOutbox(): Promise<void> {
+    if (this.getConfig().driver !== DomainEventsDriver.OUTBOX) return;
+
+    try {
+      const cutoff = new Date(
+        Date.now() - OUTBOX_RETENTION_DAYS * 24 * 60 * 60 * 1000,
+      );
+      const deleted =
+        await this.outboxRepository.deleteDispatchedBefore(cutoff);
+      if (deleted > 0) {
+        this.logger.log(`[EVENTS] Pruned ${deleted} dispatched events`);
+      }
+    } catch (error) {
+      this.logger.error(`[EVENTS] Outbox cleanup failed: ${error.message}`);
+    }
+  }
+
+  private async dispatch(outboxEvent: OutboxEvent): Promise<void> {
+    const { maxAttempts, retryBaseSeconds } = this.getConfig();
+
+    try {
+      // Restore the client of the original request for audit subscribers
+      const { completed, errors } = await auditRequestContext.run(
+        outboxEvent.context ?? {},
+        () =>
+          this.runSubscribers(
+            this.toDomainEvent(outboxEvent),
+            outboxEvent.completedSubscribers,
+          ),
+      );
+
+      const attempts = outboxEvent.attempts + 1;
+      const partial: Partial<OutboxEvent> = {
+        attempts,
+        completedSubscribers: completed,
+        lastError: errors.length > 0 ? errors.join('; ') : null,
+      };
+
+      if (errors.length === 0) {
+        partial.status = OutboxEventStatus.DISPATCHED;
+        partial.dispatchedAt = new Date();
+      } else if (attempts < maxAttempts) {
+        // Backoff: base, 2x base, 4x base...
+        partial.nextAttemptAt = new Date(
+          Date.now() + retryBaseSeconds * 1000 * 2 ** (attempts - 1),
+        );
+      } else {
+        partial.status = OutboxEventStatus.FAILED;
+        this.logger.error(
+          `[EVENTS] Gave up on ${outboxEvent.name} ${outboxEvent.id} after ${attempts} attempts`,
+        );
+      }
+
+      await this.outboxRepository.update(outboxEvent.id, partial);
+    } catch (error) {
+      // The relay retries once the lease expires
+      this.logger.error(
+        `[EVENTS] Could not record dispatch of ${outboxEvent.name} ${outboxEvent.id}: ${error.message}`,
+      );
+    }
+  }
+
+  /**
+   * Run the subscribers of an event that have not handled it yet
+   */
+  private async runSubscribers(
+    event: DomainEvent,
+    alreadyCompleted: string[],
+  ): Promise<{ completed: string[]; errors: string[] }> {
+    const completed = [...alreadyCompleted];
+    const errors: string[] = [];
+
+    for (const { subscriber, handler } of this.subscriptions.get(event.name) ??
+      []) {
+      if (completed.includes(subscriber)) continue;
+
+      try {
+        await handler(event);
+        completed.push(subscriber);
+      } catch (error) {
+        errors.push(`${subscriber}: ${error.message}`);
+        this.logger.error(
+          `[EVENTS] Subscriber ${subscriber} failed on ${event.name} ${event.id}: ${error.message}`,
+        );
+      }
+    }
+
+    return { completed, errors };
+  }
+
+  private toOutboxEvent(event: DomainEvent): OutboxEvent {
+    const outboxEvent = new OutboxEvent();
+    outboxEvent.id = event.id;
+    outboxEvent.name = event.name;
+    outboxEvent.payload = { ...event.payload };
+    outboxEvent.context = event.context ?? null;
+    outboxEvent.occurredAt = event.occurredAt;
+    outboxEvent.status = OutboxEventStatus.PENDING;
+    outboxEvent.attempts = 0;
+    // Leased to this instance: the relay only steps in if publish() never finishes
+    outboxEvent.nextAttemptAt = new Date(
+      Date.now() + DISPATCH_LEASE_SECONDS * 1000,
+    );
+    outboxEvent.completedSubscribers = [];
+    return outboxEvent;
+  }
+
+  private toDomainEvent(outboxEvent: OutboxEvent): DomainEvent {
+    return {
+      id: outboxEvent.id,
+      name: outboxEvent.name,
+      payload: outboxEvent.payload as DomainEventPayloads[DomainEventName],
+      occurredAt: outboxEvent.occurredAt,
+      context: outboxEvent.context ?? undefined,
+    };
+  }
+
+  private getConfig() {
+    return this.configService.getOrThrow('domainEvents', { infer: true });
+  }
+}
@@ -0,0 +1,78 @@
+import {
+  Injectable,
+  Logger,
+  OnApplicationBootstrap,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { DomainEventBus } from './domain-event-bus.service';
+import { DomainEventsDriver } from './config/domain-events-config.type';
+import { AllConfigType } from '../config/config.type';
+
+// Events dispatched per claim
+const RELAY_BATCH_SIZE = 50;
+
+/**
+ * Outbox Relay
+ *
+ * Polls domain_event_outbox for events whose subscribers did not all finish
+ * (failures awaiting retry, or publishers that died mid-dispatch) and runs
+ * the remaining subscribers. Only runs with DOMAIN_EVENTS_DRIVER=outbox and
+ * DOMAIN_EVENTS_RELAY_ENABLED.
+ */
+@Injectable()
+export class DomainEventRelayWorker
+  implements OnApplicationBootstrap, OnModuleDestroy
+{
+  private readonly logger = new Logger(DomainEventRelayWorker.name);
+  private pollTimer?: NodeJS.Timeout;
+  private polling = false;
+  private stopped = false;
+
+  constructor(
+    private readonly eventBus: DomainEventBus,
+    private readonly configService: ConfigService<AllConfigType>,
+  ) {}
+
+  onApplicationBootstrap(): void {
+    const { driver, relayEnabled, pollIntervalMs } =
+      this.configService.getOrThrow('domainEvents', { infer: true });
+    if (driver !== DomainEventsDriver.OUTBOX || !relayEnabled) {
+      return;
+    }
+
+    this.pollTimer = setInterval(() => {
+      void this.poll();
+    }, pollIntervalMs);
+
+    this.logger.log('[EVENTS] Outbox relay started');
+  }
+
+  onModuleDestroy(): void {
+    this.stopped = true;
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+    }
+  }
+
+  /**
+   * Dispatch due events until none are left
+   */
+  async poll(): Promise<void> {
+    if (this.polling || this.stopped) return;
+    this.polling = true;
+
+    try {
+      while (
+        !this.stopped &&
+        (await this.eventBus.dispatchDue(RELAY_BATCH_SIZE)) === RELAY_BATCH_SIZE
+      ) {
+        // Full batch: more events may be due
+      }
+    } catch (error) {
+      this.logger.error(`[EVENTS] Poll failed: ${error.message}`);
+    } finally {
+      this.polling = false;
+    }
+  }
+}
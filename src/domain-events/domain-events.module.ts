@@ -0,0 +1,26 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import domainEventsConfig from './config/domain-events.config';
+import { DomainEventBus } from './domain-event-bus.service';
+import { DomainEventRelayWorker } from './domain-event-relay.worker';
+import { DocumentDomainEventsPersistenceModule } from './infrastructure/persistence/document/document-persistence.module';
+import { RelationalDomainEventsPersistenceModule } from './infrastructure/persistence/relational/relational-persistence.module';
+import { DatabaseConfig } from '../database/config/database-config.type';
+import databaseConfig from '../database/config/database.config';
+
+// <database-block>
+const infrastructurePersistenceModule = (databaseConfig() as DatabaseConfig)
+  .isDocumentDatabase
+  ? DocumentDomainEventsPersistenceModule
+  : RelationalDomainEventsPersistenceModule;
+// </database-block>
+
+@Module({
+  imports: [
+    ConfigModule.forFeature(domainEventsConfig),
+    infrastructurePersistenceModule,
+  ],
+  providers: [DomainEventBus, DomainEventRelayWorker],
+  exports: [DomainEventBus],
+})
+export class DomainEventsModule {}
@@ -0,0 +1,194 @@
+import { AuditRequestContext } from '../../audit/audit-request-context';
+
+/**
+ * Internal domain events
+ *
+ * Services publish what happened; subscribers (audit, webhooks, cache
+ * invalidation...) decide what to do about it. Payloads are JSON-safe so
+ * they can be stored in the outbox.
+ *
+ * HIPAA: payloads carry IDs, statuses and counts only - never file names,
+ * extracted text, fields or raw tokens
+ */
+export enum DomainEventName {
+  DOCUMENT_UPLOADED = 'document.uploaded',
+  DOCUMENT_UPLOAD_REJECTED = 'document.upload_rejected',
+  DOCUMENT_QUARANTINED = 'document.quarantined',
+  DOCUMENT_PROCESSED = 'document.processed',
+  DOCUMENT_PROCESSING_FAILED = 'document.processing_failed',
+  DOCUMENT_REPROCESS_REQUESTED = 'document.reprocess_requested',
+  DOCUMENT_RUN_PROMOTED = 'document.run_promoted',
+  DOCUMENT_ACCESSED = 'document.accessed',
+  DOCUMENT_ACCESS_DENIED = 'document.access_denied',
+  DOCUMENTS_SEARCHED = 'documents.searched',
+  DOCUMENT_GRANT_CREATED = 'document.grant_created',
+  DOCUMENT_GRANT_REVOKED = 'document.grant_revoked',
+  DOCUMENT_GRANT_USED = 'document.grant_used',
+  DOCUMENT_DELETED = 'document.deleted',
+  DOCUMENT_HARD_DELETED = 'document.hard_deleted',
+  WEBHOOK_SUBSCRIPTION_CREATED = 'webhook_subscription.created',
+  WEBHOOK_SUBSCRIPTION_UPDATED = 'webhook_subscription.updated',
+  WEBHOOK_SUBSCRIPTION_DELETED = 'webhook_subscription.deleted',
+  SESSION_REVOKED = 'session.revoked',
+}
+
+export enum SessionRevocationReason {
+  LOGOUT = 'logout',
+  PASSWORD_RESET = 'password_reset',
+  PASSWORD_CHANGED = 'password_changed',
+  APPLE_CONSENT_REVOKED = 'apple_consent_revoked',
+  APPLE_ACCOUNT_DELETED = 'apple_account_deleted',
+}
+
+interface DocumentEventPayload {
+  documentId: string;
+  userId: string | number; // Document owner
+}
+
+export interface DocumentUploadedPayload extends DocumentEventPayload {
+  documentType: string;
+  fileSize: number;
+  duplicateOf?: string;
+}
+
+export interface DocumentUploadRejectedPayload extends DocumentEventPayload {
+  reason: string; // Why the stored file does not match the upload intent
+}
+
+export interface DocumentQuarantinedPayload extends DocumentEventPayload {
+  reason: string;
+  errorMessage: string;
+  declaredMimeType: string;
+  detectedMimeType?: string;
+  signature?: string; // Malware signature name
+}
+
+export interface DocumentProcessedPayload extends DocumentEventPayload {
+  runId?: string; // Missing when results were copied from an identical upload
+  promoted?: boolean;
+  confidence?: number;
+  entitiesCount: number;
+  duplicateOf?: string;
+}
+
+export interface DocumentProcessingFailedPayload extends DocumentEventPayload {
+  runId?: string;
+  retryCount?: number;
+  errorMessage: string; // Sanitized
+}
+
+export interface DocumentReprocessRequestedPayload
+  extends DocumentEventPayload {
+  requestedByUserId: string | number; // Owner or admin
+  runId: string;
+  pipelineVersion: string;
+  previousPipelineVersion?: string;
+  promote: boolean;
+}
+
+export interface DocumentRunPromotedPayload extends DocumentEventPayload {
+  runId: string;
+  previousRunId?: string;
+  pipelineVersion: string;
+}
+
+export interface DocumentAccessedPayload extends DocumentEventPayload {
+  accessedByUserId: string | number; // The owner, or a grantee
+  grantId?: string; // Delegated access only
+  scope?: string;
+  view?: string; // Read for an aggregate view, e.g. immunization_history
+}
+
+// The requester may not own (or the document may not exist), so no owner
+export interface DocumentAccessDeniedPayload {
+  userId: string | number; // Requesting user
+  ownerUserId?: string | number; // Owner of the document or upload, if it exists
+  action: string;
+  documentId?: string;
+  uploadId?: string;
+}
+
+// Never the search terms (they may contain PHI)
+export interface DocumentsSearchedPayload {
+  userId: string | number;
+  total: number;
+  documentIds: string[]; // Current page of results
+}
+
+export interface DocumentGrantCreatedPayload extends DocumentEventPayload {
+  grantId: string;
+  granteeUserId?: string | number; // Missing until an email invite is bound
+  emailInvite: boolean;
+  scopes: string[];
+  expiresAt?: string; // ISO 8601
+}
+
+export interface DocumentGrantRevokedPayload extends DocumentEventPayload {
+  grantId: string;
+}
+
+export interface DocumentGrantUsedPayload extends DocumentEventPayload {
+  grantId: string;
+  granteeUserId: string | number;
+  scope: string;
+}
+
+export interface DocumentDeletedPayload extends DocumentEventPayload {
+  scheduledDeletionAt: string; // ISO 8601
+}
+
+export interface DocumentHardDeletedPayload extends DocumentEventPayload {
+  documentType: string;
+  deletedAt?: string; // ISO 8601
+  retentionYears: number;
+}
+
+// Never the URL or signing secret
+export interface WebhookSubscriptionChangedPayload {
+  subscriptionId: string;
+  userId: string | number; // Admin who made the change
+  name: string;
+  events: string[];
+  active: boolean;
+}
+
+export interface SessionRevokedPayload {
+  userId: string | number;
+  sessionId?: string | number; // Missing when all of the user's sessions were revoked
+  exceptSessionId?: string | number; // Session kept when the others were revoked
+  reason: SessionRevocationReason;
+}
+
+export interface DomainEventPayloads {
+  [DomainEventName.DOCUMENT_UPLOADED]: DocumentUploadedPayload;
+  [DomainEventName.DOCUMENT_UPLOAD_REJECTED]: DocumentUploadRejectedPayload;
+  [DomainEventName.DOCUMENT_QUARANTINED]: DocumentQuarantinedPayload;
+  [DomainEventName.DOCUMENT_PROCESSED]: DocumentProcessedPayload;
+  [DomainEventName.DOCUMENT_PROCESSING_FAILED]: DocumentProcessingFailedPayload;
+  [DomainEventName.DOCUMENT_REPROCESS_REQUESTED]: DocumentReprocessRequestedPayload;
+  [DomainEventName.DOCUMENT_RUN_PROMOTED]: DocumentRunPromotedPayload;
+  [DomainEventName.DOCUMENT_ACCESSED]: DocumentAccessedPayload;
+  [DomainEventName.DOCUMENT_ACCESS_DENIED]: DocumentAccessDeniedPayload;
+  [DomainEventName.DOCUMENTS_SEARCHED]: DocumentsSearchedPayload;
+  [DomainEventName.DOCUMENT_GRANT_CREATED]: DocumentGrantCreatedPayload;
+  [DomainEventName.DOCUMENT_GRANT_REVOKED]: DocumentGrantRevokedPayload;
+  [DomainEventName.DOCUMENT_GRANT_USED]: DocumentGrantUsedPayload;
+  [DomainEventName.DOCUMENT_DELETED]: DocumentDeletedPayload;
+  [DomainEventName.DOCUMENT_HARD_DELETED]: DocumentHardDeletedPayload;
+  [DomainEventName.WEBHOOK_SUBSCRIPTION_CREATED]: WebhookSubscriptionChangedPayload;
+  [DomainEventName.WEBHOOK_SUBSCRIPTION_UPDATED]: WebhookSubscriptionChangedPayload;
+  [DomainEventName.WEBHOOK_SUBSCRIPTION_DELETED]: WebhookSubscriptionChangedPayload;
+  [DomainEventName.SESSION_REVOKED]: SessionRevokedPayload;
+}
+
+export interface DomainEvent<N extends DomainEventName = DomainEventName> {
+  id: string;
+  name: N;
+  payload: DomainEventPayloads[N];
+  occurredAt: Date;
+  context?: AuditRequestContext; // Client of the request that caused the event
+}
+
+export type DomainEventHandler<N extends DomainEventName> = (
+  event: DomainEvent<N>,
+) => Promise<void> | void;
@@ -0,0 +1,5 @@
+export enum OutboxEventStatus {
+  PENDING = 'PENDING', // Stored; some subscribers have not finished yet
+  DISPATCHED = 'DISPATCHED', // Every subscriber finished
+  FAILED = 'FAILED', // Gave up after maxAttempts
+}
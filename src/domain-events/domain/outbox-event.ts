@@ -0,0 +1,23 @@
+import { AuditRequestContext } from '../../audit/audit-request-context';
+import { DomainEventName } from './domain-event';
+import { OutboxEventStatus } from './outbox-event-status.enum';
+
+/**
+ * Stored domain event (outbox driver)
+ *
+ * `completedSubscribers` lists the subscribers that already handled the
+ * event, so retries only run the ones that failed.
+ */
+export class OutboxEvent {
+  id: string; // Domain event ID
+  name: DomainEventName;
+  payload: Record<string, any>;
+  context?: AuditRequestContext | null;
+  occurredAt: Date;
+  status: OutboxEventStatus;
+  attempts: number;
+  nextAttemptAt: Date; // Also the lease of the instance dispatching it
+  completedSubscribers: string[];
+  lastError?: string | null;
+  dispatchedAt?: Date | null;
+}
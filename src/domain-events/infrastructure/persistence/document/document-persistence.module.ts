@@ -0,0 +1,30 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import {
+  OutboxEventSchema,
+  OutboxEventSchemaClass,
+} from './entities/outbox-event.schema';
+import { OutboxEventRepository } from '../outbox-event.repository';
+import { UnitOfWork } from '../unit-of-work';
+import { OutboxEventDocumentRepository } from './repositories/outbox-event.repository';
+import { DocumentUnitOfWork } from './document-unit-of-work';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: OutboxEventSchemaClass.name, schema: OutboxEventSchema },
+    ]),
+  ],
+  providers: [
+    {
+      provide: OutboxEventRepository,
+      useClass: OutboxEventDocumentRepository,
+    },
+    {
+      provide: UnitOfWork,
+      useClass: DocumentUnitOfWork,
+    },
+  ],
+  exports: [OutboxEventRepository, UnitOfWork],
+})
+export class DocumentDomainEventsPersistenceModule {}
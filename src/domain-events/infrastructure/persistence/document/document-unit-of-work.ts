@@ -0,0 +1,15 @@
+import { Injectable } from '@nestjs/common';
+import { UnitOfWork } from '../unit-of-work';
+
+/**
+ * Without a replica set MongoDB has no multi-document transactions: writes
+ * are applied as they are made, like lab results and extracted fields
+ */
+@Injectable()
+export class DocumentUnitOfWork implements UnitOfWork {
+  readonly atomic = false;
+
+  run<T>(work: () => Promise<T>): Promise<T> {
+    return work();
+  }
+}
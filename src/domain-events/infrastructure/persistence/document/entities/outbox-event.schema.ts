@@ -0,0 +1,59 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { HydratedDocument, Schema as MongooseSchema } from 'mongoose';
+import { DomainEventName } from '../../../../domain/domain-event';
+import { OutboxEventStatus } from '../../../../domain/outbox-event-status.enum';
+
+export type OutboxEventSchemaDocument =
+  HydratedDocument<OutboxEventSchemaClass>;
+
+@Schema({
+  collection: 'domain_event_outbox',
+  versionKey: false,
+  toJSON: {
+    virtuals: true,
+    getters: true,
+  },
+})
+export class OutboxEventSchemaClass {
+  // Domain event ID, assigned by the publisher
+  @Prop({ type: String, required: true })
+  _id: string;
+
+  @Prop({ type: String, enum: DomainEventName, required: true })
+  name: DomainEventName;
+
+  // DomainEventPayloads[name] (IDs only, no PHI)
+  @Prop({ type: MongooseSchema.Types.Mixed, required: true })
+  payload: Record<string, any>;
+
+  // AuditRequestContext
+  @Prop({ type: MongooseSchema.Types.Mixed, default: null })
+  context?: Record<string, any> | null;
+
+  @Prop({ type: Date, required: true })
+  occurredAt: Date;
+
+  @Prop({ type: String, enum: OutboxEventStatus, required: true })
+  status: OutboxEventStatus;
+
+  @Prop({ type: Number, default: 0 })
+  attempts: number;
+
+  @Prop({ type: Date, required: true })
+  nextAttemptAt: Date;
+
+  @Prop({ type: [String], default: [] })
+  completedSubscribers: string[];
+
+  @Prop({ type: String, default: null })
+  lastError?: string | null;
+
+  @Prop({ type: Date, default: null })
+  dispatchedAt?: Date | null;
+}
+
+export const OutboxEventSchema = SchemaFactory.createForClass(
+  OutboxEventSchemaClass,
+);
+
+OutboxEventSchema.index({ status: 1, nextAttemptAt: 1 });
@@ -0,0 +1,36 @@
+import { OutboxEvent } from '../../../../domain/outbox-event';
+import { OutboxEventSchemaClass } from '../entities/outbox-event.schema';
+
+export class OutboxEventMapper {
+  static toDomain(raw: OutboxEventSchemaClass): OutboxEvent {
+    const domainEntity = new OutboxEvent();
+    domainEntity.id = raw._id.toString();
+    domainEntity.name = raw.name;
+    domainEntity.payload = raw.payload;
+    domainEntity.context = raw.context;
+    domainEntity.occurredAt = raw.occurredAt;
+    domainEntity.status = raw.status;
+    domainEntity.attempts = raw.attempts;
+    domainEntity.nextAttemptAt = raw.nextAttemptAt;
+    domainEntity.completedSubscribers = raw.completedSubscribers ?? [];
+    domainEntity.lastError = raw.lastError;
+    domainEntity.dispatchedAt = raw.dispatchedAt;
+    return domainEntity;
+  }
+
+  static toPersistence(domainEntity: OutboxEvent): OutboxEventSchemaClass {
+    const persistenceSchema = new OutboxEventSchemaClass();
+    persistenceSchema._id = domainEntity.id;
+    persistenceSchema.name = domainEntity.name;
+    persistenceSchema.payload = domainEntity.payload;
+    persistenceSchema.context = domainEntity.context ?? null;
+    persistenceSchema.occurredAt = domainEntity.occurredAt;
+    persistenceSchema.status = domainEntity.status;
+    persistenceSchema.attempts = domainEntity.attempts;
+    persistenceSchema.nextAttemptAt = domainEntity.nextAttemptAt;
+    persistenceSchema.completedSubscribers = domainEntity.completedSubscribers;
+    persistenceSchema.lastError = domainEntity.lastError ?? null;
+    persistenceSchema.dispatchedAt = domainEntity.dispatchedAt ?? null;
+    return persistenceSchema;
+  }
+}
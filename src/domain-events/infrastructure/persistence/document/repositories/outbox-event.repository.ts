@@ -0,0 +1,63 @@
+import { Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { OutboxEvent } from '../../../../domain/outbox-event';
+import { OutboxEventStatus } from '../../../../domain/outbox-event-status.enum';
+import { OutboxEventRepository } from '../../outbox-event.repository';
+import { OutboxEventSchemaClass } from '../entities/outbox-event.schema';
+import { OutboxEventMapper } from '../mappers/outbox-event.mapper';
+
+/**
+ * MongoDB-backed outbox
+ *
+ * Each due event is claimed with an atomic findOneAndUpdate so concurrent
+ * relays never dispatch the same event.
+ */
+@Injectable()
+export class OutboxEventDocumentRepository implements OutboxEventRepository {
+  constructor(
+    @InjectModel(OutboxEventSchemaClass.name)
+    private readonly outboxModel: Model<OutboxEventSchemaClass>,
+  ) {}
+
+  async append(event: OutboxEvent): Promise<void> {
+    await this.outboxModel.create(OutboxEventMapper.toPersistence(event));
+  }
+
+  async update(id: string, partial: Partial<OutboxEvent>): Promise<void> {
+    const clonedPayload: any = { ...partial };
+    delete clonedPayload.id;
+
+    await this.outboxModel.updateOne({ _id: id }, { $set: clonedPayload });
+  }
+
+  async claimDue(limit: number, leaseSeconds: number): Promise<OutboxEvent[]> {
+    const events: OutboxEvent[] = [];
+    const now = new Date();
+    const leaseExpiresAt = new Date(now.getTime() + leaseSeconds * 1000);
+
+    while (events.length < limit) {
+      // Returns the document as it was before the lease was applied
+      const eventObject = await this.outboxModel.findOneAndUpdate(
+        { status: OutboxEventStatus.PENDING, nextAttemptAt: { $lte: now } },
+        { $set: { nextAttemptAt: leaseExpiresAt } },
+        { sort: { nextAttemptAt: 1 } },
+      );
+
+      if (!eventObject) {
+        break;
+      }
+      events.push(OutboxEventMapper.toDomain(eventObject));
+    }
+
+    return events;
+  }
+
+  async deleteDispatchedBefore(date: Date): Promise<number> {
+    const result = await this.outboxModel.deleteMany({
+      status: OutboxEventStatus.DISPATCHED,
+      dispatchedAt: { $lt: date },
+    });
+    return result.deletedCount;
+  }
+}
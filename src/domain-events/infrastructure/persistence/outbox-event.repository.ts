@@ -0,0 +1,22 @@
+import { OutboxEvent } from '../../domain/outbox-event';
+
+/**
+ * Domain event outbox
+ */
+export abstract class OutboxEventRepository {
+  abstract append(event: OutboxEvent): Promise<void>;
+
+  abstract update(id: string, partial: Partial<OutboxEvent>): Promise<void>;
+
+  /**
+   * Lease PENDING events whose nextAttemptAt has passed, oldest first, by
+   * moving nextAttemptAt forward so no other instance dispatches them
+   */
+  abstract claimDue(
+    limit: number,
+    leaseSeconds: number,
+  ): Promise<OutboxEvent[]>;
+
+  // @returns Number of events deleted
+  abstract deleteDispatchedBefore(date: Date): Promise<number>;
+}
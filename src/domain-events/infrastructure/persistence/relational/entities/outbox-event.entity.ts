@@ -0,0 +1,51 @@
+import { Column, Entity, Index, PrimaryColumn } from 'typeorm';
+import { DomainEventName } from '../../../../domain/domain-event';
+import { OutboxEventStatus } from '../../../../domain/outbox-event-status.enum';
+import { EntityRelationalHelper } from '../../../../../utils/relational-entity-helper';
+
+@Entity({ name: 'domain_event_outbox' })
+@Index('IDX_domain_event_outbox_status_next_attempt_at', [
+  'status',
+  'nextAttemptAt',
+])
+export class OutboxEventEntity extends EntityRelationalHelper {
+  // Domain event ID, assigned by the publisher
+  @PrimaryColumn('uuid')
+  id: string;
+
+  @Column({ type: 'varchar', length: 100 })
+  name: DomainEventName;
+
+  // DomainEventPayloads[name] (IDs only, no PHI)
+  @Column({ type: 'jsonb' })
+  payload: Record<string, any>;
+
+  // AuditRequestContext
+  @Column({ type: 'jsonb', nullable: true })
+  context?: Record<string, any> | null;
+
+  @Column({ name: 'occurred_at', type: 'timestamp' })
+  occurredAt: Date;
+
+  @Column({ type: 'varchar', length: 20 })
+  status: OutboxEventStatus;
+
+  @Column({ type: 'integer', default: 0 })
+  attempts: number;
+
+  @Column({ name: 'next_attempt_at', type: 'timestamp' })
+  nextAttemptAt: Date;
+
+  @Column({
+    name: 'completed_subscribers',
+    type: 'jsonb',
+    default: () => "'[]'",
+  })
+  completedSubscribers: string[];
+
+  @Column({ name: 'last_error', type: 'text', nullable: true })
+  lastError?: string | null;
+
+  @Column({ name: 'dispatched_at', type: 'timestamp', nullable: true })
+  dispatchedAt?: Date | null;
+}
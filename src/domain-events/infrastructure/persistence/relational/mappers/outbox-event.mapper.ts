@@ -0,0 +1,57 @@
+import { QueryDeepPartialEntity } from 'typeorm/query-builder/QueryPartialEntity';
+import { OutboxEvent } from '../../../../domain/outbox-event';
+import { OutboxEventEntity } from '../entities/outbox-event.entity';
+
+export class OutboxEventMapper {
+  static toDomain(raw: OutboxEventEntity): OutboxEvent {
+    const domainEntity = new OutboxEvent();
+    domainEntity.id = raw.id;
+    domainEntity.name = raw.name;
+    domainEntity.payload = raw.payload;
+    domainEntity.context = raw.context;
+    domainEntity.occurredAt = raw.occurredAt;
+    domainEntity.status = raw.status;
+    domainEntity.attempts = raw.attempts;
+    domainEntity.nextAttemptAt = raw.nextAttemptAt;
+    domainEntity.completedSubscribers = raw.completedSubscribers ?? [];
+    domainEntity.lastError = raw.lastError;
+    domainEntity.dispatchedAt = raw.dispatchedAt;
+    return domainEntity;
+  }
+
+  static toPersistence(domainEntity: OutboxEvent): OutboxEventEntity {
+    const persistenceEntity = new OutboxEventEntity();
+    persistenceEntity.id = domainEntity.id;
+    persistenceEntity.name = domainEntity.name;
+    persistenceEntity.payload = domainEntity.payload;
+    persistenceEntity.context = domainEntity.context ?? null;
+    persistenceEntity.occurredAt = domainEntity.occurredAt;
+    persistenceEntity.status = domainEntity.status;
+    persistenceEntity.attempts = domainEntity.attempts;
+    persistenceEntity.nextAttemptAt = domainEntity.nextAttemptAt;
+    persistenceEntity.completedSubscribers = domainEntity.completedSubscribers;
+    persistenceEntity.lastError = domainEntity.lastError ?? null;
+    persistenceEntity.dispatchedAt = domainEntity.dispatchedAt ?? null;
+    return persistenceEntity;
+  }
+
+  // Fields present in the partial (undefined clears a nullable column)
+  static toPersistencePartial(
+    partial: Partial<OutboxEvent>,
+  ): QueryDeepPartialEntity<OutboxEventEntity> {
+    const fields: Partial<OutboxEventEntity> = {};
+    if ('status' in partial) fields.status = partial.status;
+    if ('attempts' in partial) fields.attempts = partial.attempts;
+    if ('nextAttemptAt' in partial) {
+      fields.nextAttemptAt = partial.nextAttemptAt;
+    }
+    if ('completedSubscribers' in partial) {
+      fields.completedSubscribers = partial.completedSubscribers ?? [];
+    }
+    if ('lastError' in partial) fields.lastError = partial.lastError ?? null;
+    if ('dispatchedAt' in partial) {
+      fields.dispatchedAt = partial.dispatchedAt ?? null;
+    }
+    return fields;
+  }
+}
@@ -0,0 +1,23 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { OutboxEventRepository } from '../outbox-event.repository';
+import { UnitOfWork } from '../unit-of-work';
+import { OutboxEventEntity } from './entities/outbox-event.entity';
+import { OutboxEventRelationalRepository } from './repositories/outbox-event.repository';
+import { RelationalUnitOfWork } from './relational-unit-of-work';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([OutboxEventEntity])],
+  providers: [
+    {
+      provide: OutboxEventRepository,
+      useClass: OutboxEventRelationalRepository,
+    },
+    {
+      provide: UnitOfWork,
+      useClass: RelationalUnitOfWork,
+    },
+  ],
+  exports: [OutboxEventRepository, UnitOfWork],
+})
+export class RelationalDomainEventsPersistenceModule {}
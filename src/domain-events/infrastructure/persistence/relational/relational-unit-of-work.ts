@@ -0,0 +1,19 @@
+import { Injectable } from '@nestjs/common';
+import { DataSource } from 'typeorm';
+import { UnitOfWork } from '../unit-of-work';
+import { runInTransaction } from '../../../../database/relational-transaction';
+
+/**
+ * One PostgreSQL transaction, joined by every repository that writes
+ * through transactional() / runInTransaction()
+ */
+@Injectable()
+export class RelationalUnitOfWork implements UnitOfWork {
+  readonly atomic = true;
+
+  constructor(private readonly dataSource: DataSource) {}
+
+  run<T>(work: () => Promise<T>): Promise<T> {
+    return runInTransaction(this.dataSource, () => work());
+  }
+}
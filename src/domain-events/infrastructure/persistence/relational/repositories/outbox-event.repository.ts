@@ -0,0 +1,79 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { DataSource, In, LessThan, Repository } from 'typeorm';
+import { OutboxEventEntity } from '../entities/outbox-event.entity';
+import { OutboxEvent } from '../../../../domain/outbox-event';
+import { OutboxEventStatus } from '../../../../domain/outbox-event-status.enum';
+import { OutboxEventRepository } from '../../outbox-event.repository';
+import { OutboxEventMapper } from '../mappers/outbox-event.mapper';
+import { transactional } from '../../../../../database/relational-transaction';
+
+/**
+ * PostgreSQL-backed outbox
+ *
+ * Due events are claimed with SELECT ... FOR UPDATE SKIP LOCKED so
+ * concurrent relays never dispatch the same event.
+ */
+@Injectable()
+export class OutboxEventRelationalRepository implements OutboxEventRepository {
+  constructor(
+    @InjectRepository(OutboxEventEntity)
+    private readonly outboxRepository: Repository<OutboxEventEntity>,
+    private readonly dataSource: DataSource,
+  ) {}
+
+  async append(event: OutboxEvent): Promise<void> {
+    // insert() rather than save(): an event is stored exactly once
+    await transactional(this.outboxRepository).insert(
+      OutboxEventMapper.toPersistence(event),
+    );
+  }
+
+  async update(id: string, partial: Partial<OutboxEvent>): Promise<void> {
+    await this.outboxRepository.update(
+      id,
+      OutboxEventMapper.toPersistencePartial(partial),
+    );
+  }
+
+  async claimDue(limit: number, leaseSeconds: number): Promise<OutboxEvent[]> {
+    if (limit <= 0) {
+      return [];
+    }
+
+    return this.dataSource.transaction(async (manager) => {
+      const now = new Date();
+      const candidates = await manager
+        .getRepository(OutboxEventEntity)
+        .createQueryBuilder('event')
+        .where('event.status = :status', { status: OutboxEventStatus.PENDING })
+        .andWhere('event.nextAttemptAt <= :now', { now })
+        .orderBy('event.nextAttemptAt', 'ASC')
+        .limit(limit)
+        .setLock('pessimistic_write')
+        .setOnLocked('skip_locked')
+        .getMany();
+
+      if (candidates.length === 0) {
+        return [];
+      }
+
+      await manager
+        .getRepository(OutboxEventEntity)
+        .update(
+          { id: In(candidates.map((event) => event.id)) },
+          { nextAttemptAt: new Date(now.getTime() + leaseSeconds * 1000) },
+        );
+
+      return candidates.map((entity) => OutboxEventMapper.toDomain(entity));
+    });
+  }
+
+  async deleteDispatchedBefore(date: Date): Promise<number> {
+    const result = await this.outboxRepository.delete({
+      status: OutboxEventStatus.DISPATCHED,
+      dispatchedAt: LessThan(date),
+    });
+    return result.affected ?? 0;
+  }
+}
@@ -0,0 +1,10 @@
+/**
+ * Groups writes made through the repositories so they are applied together
+ * (see DomainEventBus.transaction)
+ */
+export abstract class UnitOfWork {
+  // false when writes are applied one by one as they are made
+  abstract readonly atomic: boolean;
+
+  abstract run<T>(work: () => Promise<T>): Promise<T>;
+}
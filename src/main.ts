@@ -58,7 +58,12 @@ async function bootstrap() {
   app.setGlobalPrefix(
     configService.getOrThrow('app.apiPrefix', { infer: true }),
     {
-      exclude: ['/'],
+      // JWKS and discovery must live at the origin root
+      exclude: [
+        '/',
+        '.well-known/jwks.json',
+        '.well-known/openid-configuration',
+      ],
     },
   );
   app.enableVersioning({
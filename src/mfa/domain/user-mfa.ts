@@ -0,0 +1,14 @@
+import { User } from '../../users/domain/user';
+
+export class UserMfa {
+  id: string;
+  userId: User['id'];
+  encryptedTotpSecret: string; // AES-256-GCM (AUTH_MFA_ENCRYPTION_SECRET)
+  enabledAt?: Date | null; // null while enrollment is pending
+  lastUsedStep?: number | null; // Last accepted TOTP step (replay protection)
+  recoveryCodeHashes: string[]; // SHA-256 of unused recovery codes
+  failedAttempts: number; // Consecutive failed codes (brute-force limit)
+  lockedUntil?: Date | null; // Codes are refused until then
+  createdAt: Date;
+  updatedAt: Date;
+}
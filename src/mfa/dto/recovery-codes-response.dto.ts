@@ -0,0 +1,11 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class RecoveryCodesResponseDto {
+  @ApiProperty({
+    type: [String],
+    example: ['k7xq-2mfa', 'p3zr-8wtd'],
+    description:
+      'One-time recovery codes. Shown only once: each replaces a TOTP code a single time.',
+  })
+  recoveryCodes: string[];
+}
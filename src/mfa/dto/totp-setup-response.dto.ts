@@ -0,0 +1,20 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class TotpSetupResponseDto {
+  @ApiProperty({
+    example: 'JBSWY3DPEHPK3PXPJBSWY3DPEHPK3PXP',
+    description: 'Base32 secret for manual entry',
+  })
+  secret: string;
+
+  @ApiProperty({
+    example:
+      'otpauth://totp/Keystone:john.doe%40example.com?secret=JBSWY3DPEHPK3PXPJBSWY3DPEHPK3PXP&issuer=Keystone&algorithm=SHA1&digits=6&period=30',
+  })
+  otpauthUri: string;
+
+  @ApiProperty({
+    description: 'Text to encode in the QR code scanned by authenticator apps',
+  })
+  qrPayload: string;
+}
@@ -0,0 +1,21 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { UserMfaSchema, UserMfaSchemaClass } from './entities/user-mfa.schema';
+import { UserMfaRepository } from '../user-mfa.repository';
+import { UserMfaDocumentRepository } from './repositories/user-mfa.repository';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: UserMfaSchemaClass.name, schema: UserMfaSchema },
+    ]),
+  ],
+  providers: [
+    {
+      provide: UserMfaRepository,
+      useClass: UserMfaDocumentRepository,
+    },
+  ],
+  exports: [UserMfaRepository],
+})
+export class DocumentMfaPersistenceModule {}
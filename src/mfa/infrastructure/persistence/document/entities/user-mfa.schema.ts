@@ -0,0 +1,47 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { HydratedDocument } from 'mongoose';
+import { randomUUID } from 'crypto';
+
+export type UserMfaSchemaDocument = HydratedDocument<UserMfaSchemaClass>;
+
+@Schema({
+  collection: 'user_mfa',
+  timestamps: true,
+  toJSON: {
+    virtuals: true,
+    getters: true,
+  },
+})
+export class UserMfaSchemaClass {
+  @Prop({ type: String, default: () => randomUUID() })
+  _id: string;
+
+  @Prop({ type: String, required: true, unique: true })
+  userId: string;
+
+  @Prop({ type: String, required: true })
+  encryptedTotpSecret: string;
+
+  @Prop({ type: Date, default: null })
+  enabledAt?: Date | null;
+
+  @Prop({ type: Number, default: null })
+  lastUsedStep?: number | null;
+
+  @Prop({ type: [String], default: [] })
+  recoveryCodeHashes: string[];
+
+  @Prop({ type: Number, default: 0 })
+  failedAttempts: number;
+
+  @Prop({ type: Date, default: null })
+  lockedUntil?: Date | null;
+
+  @Prop()
+  createdAt: Date;
+
+  @Prop()
+  updatedAt: Date;
+}
+
+export const UserMfaSchema = SchemaFactory.createForClass(UserMfaSchemaClass);
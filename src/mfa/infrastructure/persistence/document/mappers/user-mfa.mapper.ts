@@ -0,0 +1,33 @@
+import { UserMfa } from '../../../../domain/user-mfa';
+import { UserMfaSchemaClass } from '../entities/user-mfa.schema';
+
+export class UserMfaMapper {
+  static toDomain(raw: UserMfaSchemaClass): UserMfa {
+    const domainEntity = new UserMfa();
+    domainEntity.id = raw._id.toString();
+    domainEntity.userId = raw.userId;
+    domainEntity.encryptedTotpSecret = raw.encryptedTotpSecret;
+    domainEntity.enabledAt = raw.enabledAt;
+    domainEntity.lastUsedStep = raw.lastUsedStep;
+    domainEntity.recoveryCodeHashes = raw.recoveryCodeHashes;
+    domainEntity.failedAttempts = raw.failedAttempts ?? 0;
+    domainEntity.lockedUntil = raw.lockedUntil;
+    domainEntity.createdAt = raw.createdAt;
+    domainEntity.updatedAt = raw.updatedAt;
+    return domainEntity;
+  }
+
+  static toPersistence(
+    domainEntity: Omit<UserMfa, 'id' | 'createdAt' | 'updatedAt'>,
+  ): Omit<UserMfaSchemaClass, '_id' | 'createdAt' | 'updatedAt'> {
+    return {
+      userId: domainEntity.userId.toString(),
+      encryptedTotpSecret: domainEntity.encryptedTotpSecret,
+      enabledAt: domainEntity.enabledAt ?? null,
+      lastUsedStep: domainEntity.lastUsedStep ?? null,
+      recoveryCodeHashes: domainEntity.recoveryCodeHashes,
+      failedAttempts: domainEntity.failedAttempts,
+      lockedUntil: domainEntity.lockedUntil ?? null,
+    };
+  }
+}
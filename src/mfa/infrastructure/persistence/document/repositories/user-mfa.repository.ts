@@ -0,0 +1,77 @@
+import { Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { NullableType } from '../../../../../utils/types/nullable.type';
+import { User } from '../../../../../users/domain/user';
+import { UserMfa } from '../../../../domain/user-mfa';
+import { UserMfaRepository } from '../../user-mfa.repository';
+import { UserMfaSchemaClass } from '../entities/user-mfa.schema';
+import { UserMfaMapper } from '../mappers/user-mfa.mapper';
+
+@Injectable()
+export class UserMfaDocumentRepository implements UserMfaRepository {
+  constructor(
+    @InjectModel(UserMfaSchemaClass.name)
+    private readonly userMfaModel: Model<UserMfaSchemaClass>,
+  ) {}
+
+  async create(
+    data: Omit<UserMfa, 'id' | 'createdAt' | 'updatedAt'>,
+  ): Promise<UserMfa> {
+    const createdMfa = new this.userMfaModel(UserMfaMapper.toPersistence(data));
+    return UserMfaMapper.toDomain(await createdMfa.save());
+  }
+
+  async findByUserId(userId: User['id']): Promise<NullableType<UserMfa>> {
+    const mfaObject = await this.userMfaModel.findOne({
+      userId: userId.toString(),
+    });
+    return mfaObject ? UserMfaMapper.toDomain(mfaObject) : null;
+  }
+
+  async update(
+    id: UserMfa['id'],
+    payload: Partial<
+      Omit<UserMfa, 'id' | 'userId' | 'createdAt' | 'updatedAt'>
+    >,
+  ): Promise<void> {
+    await this.userMfaModel.updateOne({ _id: id }, payload);
+  }
+
+  async consumeTotpStep(id: UserMfa['id'], step: number): Promise<boolean> {
+    const result = await this.userMfaModel.updateOne(
+      {
+        _id: id,
+        $or: [{ lastUsedStep: null }, { lastUsedStep: { $lt: step } }],
+      },
+      { lastUsedStep: step },
+    );
+
+    return result.modifiedCount === 1;
+  }
+
+  async consumeRecoveryCode(
+    id: UserMfa['id'],
+    recoveryCodeHash: string,
+  ): Promise<boolean> {
+    const result = await this.userMfaModel.updateOne(
+      { _id: id, recoveryCodeHashes: recoveryCodeHash },
+      { $pull: { recoveryCodeHashes: recoveryCodeHash } },
+    );
+
+    return result.modifiedCount === 1;
+  }
+
+  async incrementFailedAttempts(id: UserMfa['id']): Promise<number> {
+    const mfaObject = await this.userMfaModel.findOneAndUpdate(
+      { _id: id },
+      { $inc: { failedAttempts: 1 } },
+      { new: true },
+    );
+    return mfaObject?.failedAttempts ?? 0;
+  }
+
+  async remove(id: UserMfa['id']): Promise<void> {
+    await this.userMfaModel.deleteOne({ _id: id });
+  }
+}
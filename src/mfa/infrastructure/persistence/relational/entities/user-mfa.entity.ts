@@ -0,0 +1,54 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  JoinColumn,
+  OneToOne,
+  PrimaryGeneratedColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+import { UserEntity } from '../../../../../users/infrastructure/persistence/relational/entities/user.entity';
+import { EntityRelationalHelper } from '../../../../../utils/relational-entity-helper';
+
+@Entity({ name: 'user_mfa' })
+export class UserMfaEntity extends EntityRelationalHelper {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @OneToOne(() => UserEntity, { nullable: false, onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'user_id' })
+  user: UserEntity;
+
+  @Column({ name: 'user_id', type: 'integer', unique: true })
+  userId: number;
+
+  @Column({ name: 'encrypted_totp_secret', type: 'text' })
+  encryptedTotpSecret: string;
+
+  @Column({ name: 'enabled_at', type: 'timestamp', nullable: true })
+  enabledAt?: Date | null;
+
+  @Column({ name: 'last_used_step', type: 'integer', nullable: true })
+  lastUsedStep?: number | null;
+
+  @Column({
+    name: 'recovery_code_hashes',
+    type: 'varchar',
+    length: 64,
+    array: true,
+    default: () => "'{}'",
+  })
+  recoveryCodeHashes: string[];
+
+  @Column({ name: 'failed_attempts', type: 'integer', default: 0 })
+  failedAttempts: number;
+
+  @Column({ name: 'locked_until', type: 'timestamp', nullable: true })
+  lockedUntil?: Date | null;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ name: 'updated_at' })
+  updatedAt: Date;
+}
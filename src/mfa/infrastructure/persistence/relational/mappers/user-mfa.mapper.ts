@@ -0,0 +1,33 @@
+import { UserMfa } from '../../../../domain/user-mfa';
+import { UserMfaEntity } from '../entities/user-mfa.entity';
+
+export class UserMfaMapper {
+  static toDomain(raw: UserMfaEntity): UserMfa {
+    const domainEntity = new UserMfa();
+    domainEntity.id = raw.id;
+    domainEntity.userId = raw.userId;
+    domainEntity.encryptedTotpSecret = raw.encryptedTotpSecret;
+    domainEntity.enabledAt = raw.enabledAt;
+    domainEntity.lastUsedStep = raw.lastUsedStep;
+    domainEntity.recoveryCodeHashes = raw.recoveryCodeHashes;
+    domainEntity.failedAttempts = raw.failedAttempts ?? 0;
+    domainEntity.lockedUntil = raw.lockedUntil;
+    domainEntity.createdAt = raw.createdAt;
+    domainEntity.updatedAt = raw.updatedAt;
+    return domainEntity;
+  }
+
+  static toPersistence(
+    domainEntity: Omit<UserMfa, 'id' | 'createdAt' | 'updatedAt'>,
+  ): UserMfaEntity {
+    const persistenceEntity = new UserMfaEntity();
+    persistenceEntity.userId = Number(domainEntity.userId);
+    persistenceEntity.encryptedTotpSecret = domainEntity.encryptedTotpSecret;
+    persistenceEntity.enabledAt = domainEntity.enabledAt ?? null;
+    persistenceEntity.lastUsedStep = domainEntity.lastUsedStep ?? null;
+    persistenceEntity.recoveryCodeHashes = domainEntity.recoveryCodeHashes;
+    persistenceEntity.failedAttempts = domainEntity.failedAttempts;
+    persistenceEntity.lockedUntil = domainEntity.lockedUntil ?? null;
+    return persistenceEntity;
+  }
+}
@@ -0,0 +1,17 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { UserMfaRepository } from '../user-mfa.repository';
+import { UserMfaEntity } from './entities/user-mfa.entity';
+import { UserMfaRelationalRepository } from './repositories/user-mfa.repository';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([UserMfaEntity])],
+  providers: [
+    {
+      provide: UserMfaRepository,
+      useClass: UserMfaRelationalRepository,
+    },
+  ],
+  exports: [UserMfaRepository],
+})
+export class RelationalMfaPersistenceModule {}
@@ -0,0 +1,92 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { UserMfaEntity } from '../entities/user-mfa.entity';
+import { NullableType } from '../../../../../utils/types/nullable.type';
+import { User } from '../../../../../users/domain/user';
+import { UserMfa } from '../../../../domain/user-mfa';
+import { UserMfaRepository } from '../../user-mfa.repository';
+import { UserMfaMapper } from '../mappers/user-mfa.mapper';
+
+@Injectable()
+export class UserMfaRelationalRepository implements UserMfaRepository {
+  constructor(
+    @InjectRepository(UserMfaEntity)
+    private readonly userMfaRepository: Repository<UserMfaEntity>,
+  ) {}
+
+  async create(
+    data: Omit<UserMfa, 'id' | 'createdAt' | 'updatedAt'>,
+  ): Promise<UserMfa> {
+    const persistenceModel = UserMfaMapper.toPersistence(data);
+    return UserMfaMapper.toDomain(
+      await this.userMfaRepository.save(
+        this.userMfaRepository.create(persistenceModel),
+      ),
+    );
+  }
+
+  async findByUserId(userId: User['id']): Promise<NullableType<UserMfa>> {
+    const entity = await this.userMfaRepository.findOne({
+      where: { userId: Number(userId) },
+    });
+
+    return entity ? UserMfaMapper.toDomain(entity) : null;
+  }
+
+  async update(
+    id: UserMfa['id'],
+    payload: Partial<
+      Omit<UserMfa, 'id' | 'userId' | 'createdAt' | 'updatedAt'>
+    >,
+  ): Promise<void> {
+    await this.userMfaRepository.update(id, payload);
+  }
+
+  async consumeTotpStep(id: UserMfa['id'], step: number): Promise<boolean> {
+    const result = await this.userMfaRepository
+      .createQueryBuilder()
+      .update(UserMfaEntity)
+      .set({ lastUsedStep: step })
+      .where('id = :id', { id })
+      .andWhere('(last_used_step IS NULL OR last_used_step < :step)', { step })
+      .execute();
+
+    return result.affected === 1;
+  }
+
+  async consumeRecoveryCode(
+    id: UserMfa['id'],
+    recoveryCodeHash: string,
+  ): Promise<boolean> {
+    const result = await this.userMfaRepository
+      .createQueryBuilder()
+      .update(UserMfaEntity)
+      .set({
+        recoveryCodeHashes: () =>
+          'array_remove(recovery_code_hashes, :recoveryCodeHash)',
+      })
+      .where('id = :id', { id })
+      .andWhere(':recoveryCodeHash = ANY(recovery_code_hashes)')
+      .setParameter('recoveryCodeHash', recoveryCodeHash)
+      .execute();
+
+    return result.affected === 1;
+  }
+
+  async incrementFailedAttempts(id: UserMfa['id']): Promise<number> {
+    const result = await this.userMfaRepository
+      .createQueryBuilder()
+      .update(UserMfaEntity)
+      .set({ failedAttempts: () => 'failed_attempts + 1' })
+      .where('id = :id', { id })
+      .returning('failed_attempts')
+      .execute();
+
+    return Number(result.raw[0]?.failed_attempts ?? 0);
+  }
+
+  async remove(id: UserMfa['id']): Promise<void> {
+    await this.userMfaRepository.delete(id);
+  }
+}
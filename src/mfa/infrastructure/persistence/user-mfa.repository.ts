@@ -0,0 +1,42 @@
+import { NullableType } from '../../../utils/types/nullable.type';
+import { User } from '../../../users/domain/user';
+import { UserMfa } from '../../domain/user-mfa';
+
+// One row per user: pending enrollment or enabled TOTP factor
+export abstract class UserMfaRepository {
+  abstract create(
+    data: Omit<UserMfa, 'id' | 'createdAt' | 'updatedAt'>,
+  ): Promise<UserMfa>;
+
+  abstract findByUserId(userId: User['id']): Promise<NullableType<UserMfa>>;
+
+  abstract update(
+    id: UserMfa['id'],
+    payload: Partial<
+      Omit<UserMfa, 'id' | 'userId' | 'createdAt' | 'updatedAt'>
+    >,
+  ): Promise<void>;
+
+  /**
+   * Record an accepted TOTP step unless it (or a later one) was already used
+   * @returns false if a concurrent request accepted the step first
+   */
+  abstract consumeTotpStep(id: UserMfa['id'], step: number): Promise<boolean>;
+
+  /**
+   * Remove one unused recovery code
+   * @returns false if the code was already used (or never existed)
+   */
+  abstract consumeRecoveryCode(
+    id: UserMfa['id'],
+    recoveryCodeHash: string,
+  ): Promise<boolean>;
+
+  /**
+   * Count a failed code atomically
+   * @returns The number of consecutive failures including this one
+   */
+  abstract incrementFailedAttempts(id: UserMfa['id']): Promise<number>;
+
+  abstract remove(id: UserMfa['id']): Promise<void>;
+}
@@ -0,0 +1,21 @@
+import { Module } from '@nestjs/common';
+import { DocumentMfaPersistenceModule } from './infrastructure/persistence/document/document-persistence.module';
+import { RelationalMfaPersistenceModule } from './infrastructure/persistence/relational/relational-persistence.module';
+import { MfaService } from './mfa.service';
+import { AuditModule } from '../audit/audit.module';
+import { DatabaseConfig } from '../database/config/database-config.type';
+import databaseConfig from '../database/config/database.config';
+
+// <database-block>
+const infrastructurePersistenceModule = (databaseConfig() as DatabaseConfig)
+  .isDocumentDatabase
+  ? DocumentMfaPersistenceModule
+  : RelationalMfaPersistenceModule;
+// </database-block>
+
+@Module({
+  imports: [infrastructurePersistenceModule, AuditModule],
+  providers: [MfaService],
+  exports: [MfaService],
+})
+export class MfaModule {}
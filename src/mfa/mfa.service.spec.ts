@@ -0,0 +1,134 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { UnprocessableEntityException } from '@nestjs/common';
+import { MfaService } from './mfa.service';
+import { UserMfa } from './domain/user-mfa';
+import { UserMfaRepository } from './infrastructure/persistence/user-mfa.repository';
+import { AuditService } from '../audit/audit.service';
+import { generateTotp, generateTotpSecret, getTotpStep } from './totp';
+import { encryptSecret } from '../utils/secret-encryption';
+
+describe('MfaService', () => {
+  const encryptionKey = 'test-mfa-encryption-secret';
+  const secret = generateTotpSecret();
+  let service: MfaService;
+  let stored: UserMfa;
+  let config: Record<string, unknown>;
+
+  beforeEach(async () => {
+    stored = {
+      id: 'mfa-1',
+      userId: 1,
+      encryptedTotpSecret: encryptSecret(secret, encryptionKey),
+      enabledAt: new Date(),
+      lastUsedStep: null,
+      recoveryCodeHashes: [],
+      failedAttempts: 0,
+      lockedUntil: null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+
+    // In-memory store with the same conditional semantics as the databases
+    const repository: Partial<UserMfaRepository> = {
+      findByUserId: jest.fn(() =>
+        Promise.resolve({
+          ...stored,
+          recoveryCodeHashes: [...stored.recoveryCodeHashes],
+        }),
+      ),
+      update: jest.fn((_id, payload) => {
+        Object.assign(stored, payload);
+        return Promise.resolve();
+      }),
+      consumeTotpStep: jest.fn((_id, step: number) => {
+        if (stored.lastUsedStep != null && stored.lastUsedStep >= step) {
+          return Promise.resolve(false);
+        }
+        stored.lastUsedStep = step;
+        return Promise.resolve(true);
+      }),
+      consumeRecoveryCode: jest.fn((_id, hash: string) => {
+        if (!stored.recoveryCodeHashes.includes(hash)) {
+          return Promise.resolve(false);
+        }
+        stored.recoveryCodeHashes = stored.recoveryCodeHashes.filter(
+          (candidate) => candidate !== hash,
+        );
+        return Promise.resolve(true);
+      }),
+      incrementFailedAttempts: jest.fn(() =>
+        Promise.resolve(++stored.failedAttempts),
+      ),
+    };
+
+    config = {
+      'auth.mfaEncryptionSecret': encryptionKey,
+      'auth.mfaMaxAttempts': 5,
+      'auth.mfaLockoutDuration': '15m',
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        MfaService,
+        { provide: UserMfaRepository, useValue: repository },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn((key: string) => config[key]),
+            getOrThrow: jest.fn((key: string) => config[key]),
+          },
+        },
+        { provide: AuditService, useValue: { logAuthEvent: jest.fn() } },
+      ],
+    }).compile();
+
+    service = module.get(MfaService);
+  });
+
+  it('should accept a TOTP code only once under concurrent requests', async () => {
+    const code = generateTotp(secret, getTotpStep());
+
+    const results = await Promise.all([
+      service.verify(1, code),
+      service.verify(1, code),
+    ]);
+
+    expect(results.filter(Boolean)).toHaveLength(1);
+    await expect(service.verify(1, code)).resolves.toBe(false);
+  });
+
+  it('should accept a recovery code only once under concurrent requests', async () => {
+    const recoveryCodes = await service.regenerateRecoveryCodes(
+      1,
+      generateTotp(secret, getTotpStep()),
+    );
+
+    const results = await Promise.all([
+      service.verify(1, recoveryCodes[0]),
+      service.verify(1, recoveryCodes[0]),
+    ]);
+
+    expect(results.filter(Boolean)).toHaveLength(1);
+    expect(stored.recoveryCodeHashes).toHaveLength(recoveryCodes.length - 1);
+  });
+
+  it('should lock the factor after too many failed codes', async () => {
+    for (let attempt = 0; attempt < 5; attempt++) {
+      await expect(service.verify(1, '000000')).resolves.toBe(false);
+    }
+
+    expect(stored.lockedUntil!.getTime()).toBeGreaterThan(Date.now());
+    await expect(
+      service.verify(1, generateTotp(secret, getTotpStep())),
+    ).rejects.toThrow(UnprocessableEntityException);
+  });
+
+  it('should refuse MFA without an encryption secret', async () => {
+    delete config['auth.mfaEncryptionSecret'];
+
+    await expect(
+      service.verify(1, generateTotp(secret, getTotpStep())),
+    ).rejects.toThrow('AUTH_MFA_ENCRYPTION_SECRET is required to use MFA');
+  });
+});
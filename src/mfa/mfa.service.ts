@@ -0,0 +1,375 @@
+import {
+  HttpStatus,
+  Injectable,
+  Logger,
+  UnprocessableEntityException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHash, randomBytes } from 'crypto';
+import ms from 'ms';
+import { AllConfigType } from '../config/config.type';
+import { AuditService, AuthEventType } from '../audit/audit.service';
+import { User } from '../users/domain/user';
+import { UserMfa } from './domain/user-mfa';
+import { UserMfaRepository } from './infrastructure/persistence/user-mfa.repository';
+import { TotpSetupResponseDto } from './dto/totp-setup-response.dto';
+import {
+  base32Encode,
+  buildOtpauthUri,
+  findTotpStep,
+  generateTotpSecret,
+} from './totp';
+import { decryptSecret, encryptSecret } from '../utils/secret-encryption';
+
+const RECOVERY_CODE_COUNT = 10;
+
+/**
+ * Multi-factor authentication (TOTP + one-time recovery codes)
+ *
+ * Enrollment is two-step: setupTotp stores a pending secret, enableTotp
+ * confirms it with a first code and returns the recovery codes.
+ *
+ * HIPAA Compliance:
+ * - TOTP secrets are encrypted at rest (AUTH_MFA_ENCRYPTION_SECRET)
+ * - Recovery codes are stored as SHA-256 hashes and shown only once
+ * - Accepted TOTP steps are recorded so a code cannot be replayed
+ * - Repeated failed codes lock the factor (brute-force limit per account)
+ * - Never log secrets or codes
+ */
+@Injectable()
+export class MfaService {
+  private readonly logger = new Logger(MfaService.name);
+
+  constructor(
+    private readonly userMfaRepository: UserMfaRepository,
+    private readonly configService: ConfigService<AllConfigType>,
+    private readonly auditService: AuditService,
+  ) {}
+
+  async isEnabled(userId: User['id']): Promise<boolean> {
+    const mfa = await this.userMfaRepository.findByUserId(userId);
+    return !!mfa?.enabledAt;
+  }
+
+  /**
+   * Admin policy: roles that must use a second factor (AUTH_MFA_REQUIRED_ROLES)
+   */
+  isRequiredForUser(user: User): boolean {
+    const requiredRoles = this.configService.getOrThrow(
+      'auth.mfaRequiredRoles',
+      { infer: true },
+    );
+    return (
+      !!user.role?.id &&
+      requiredRoles.some((roleId) => String(roleId) === String(user.role!.id))
+    );
+  }
+
+  /**
+   * Start (or restart) enrollment with a new secret
+   */
+  async setupTotp(user: User): Promise<TotpSetupResponseDto> {
+    const existing = await this.userMfaRepository.findByUserId(user.id);
+    if (existing?.enabledAt) {
+      throw new UnprocessableEntityException({
+        status: HttpStatus.UNPROCESSABLE_ENTITY,
+        errors: {
+          mfa: 'alreadyEnabled',
+        },
+      });
+    }
+
+    const secret = generateTotpSecret();
+    const encryptedTotpSecret = encryptSecret(secret, this.getEncryptionKey());
+
+    if (existing) {
+      await this.userMfaRepository.update(existing.id, {
+        encryptedTotpSecret,
+        lastUsedStep: null,
+      });
+    } else {
+      await this.userMfaRepository.create({
+        userId: user.id,
+        encryptedTotpSecret,
+        enabledAt: null,
+        lastUsedStep: null,
+        recoveryCodeHashes: [],
+        failedAttempts: 0,
+      });
+    }
+
+    const otpauthUri = buildOtpauthUri(
+      secret,
+      this.configService.getOrThrow('auth.mfaIssuer', { infer: true }),
+      user.email ?? String(user.id),
+    );
+
+    return { secret, otpauthUri, qrPayload: otpauthUri };
+  }
+
+  /**
+   * Confirm enrollment with a first TOTP code
+   * @returns Recovery codes (shown once)
+   */
+  async enableTotp(userId: User['id'], code: string): Promise<string[]> {
+    const mfa = await this.userMfaRepository.findByUserId(userId);
+    if (!mfa || mfa.enabledAt) {
+      throw new UnprocessableEntityException({
+        status: HttpStatus.UNPROCESSABLE_ENTITY,
+        errors: {
+          mfa: mfa ? 'alreadyEnabled' : 'setupRequired',
+        },
+      });
+    }
+
+    const step = this.matchTotp(mfa, code);
+    if (step === null) {
+      this.throwInvalidCode(userId, 'enable');
+    }
+
+    const recoveryCodes = this.generateRecoveryCodes();
+    await this.userMfaRepository.update(mfa.id, {
+      enabledAt: new Date(),
+      lastUsedStep: step,
+      recoveryCodeHashes: recoveryCodes.map((recoveryCode) =>
+        this.hashRecoveryCode(recoveryCode),
+      ),
+    });
+
+    this.auditService.logAuthEvent({
+      userId,
+      provider: 'system',
+      event: AuthEventType.MFA_ENABLED,
+      success: true,
+      metadata: { method: 'totp' },
+    });
+
+    this.logger.log(`[MFA] TOTP enabled for user ${userId}`);
+
+    return recoveryCodes;
+  }
+
+  /**
+   * Check a TOTP or recovery code for a user with MFA enabled
+   * Recovery codes are consumed; TOTP steps cannot be reused
+   *
+   * Failures are counted per account, across all challenges: after
+   * AUTH_MFA_MAX_ATTEMPTS the factor is locked for AUTH_MFA_LOCKOUT_DURATION
+   */
+  async verify(userId: User['id'], code: string): Promise<boolean> {
+    const mfa = await this.userMfaRepository.findByUserId(userId);
+    if (!mfa?.enabledAt) {
+      return false;
+    }
+
+    if (mfa.lockedUntil && mfa.lockedUntil > new Date()) {
+      throw new UnprocessableEntityException({
+        status: HttpStatus.UNPROCESSABLE_ENTITY,
+        errors: {
+          code: 'tooManyAttempts',
+        },
+      });
+    }
+
+    if (!(await this.consumeCode(mfa, code))) {
+      await this.recordFailedAttempt(mfa);
+      return false;
+    }
+
+    if (mfa.failedAttempts > 0) {
+      await this.userMfaRepository.update(mfa.id, { failedAttempts: 0 });
+    }
+    return true;
+  }
+
+  /**
+   * Turn MFA off (requires a valid code; refused when the role requires MFA)
+   */
+  async disable(user: User, code: string): Promise<void> {
+    if (this.isRequiredForUser(user)) {
+      throw new UnprocessableEntityException({
+        status: HttpStatus.UNPROCESSABLE_ENTITY,
+        errors: {
+          mfa: 'requiredForRole',
+        },
+      });
+    }
+
+    const mfa = await this.userMfaRepository.findByUserId(user.id);
+    if (!mfa?.enabledAt) {
+      throw new UnprocessableEntityException({
+        status: HttpStatus.UNPROCESSABLE_ENTITY,
+        errors: {
+          mfa: 'notEnabled',
+        },
+      });
+    }
+
+    if (!(await this.verify(user.id, code))) {
+      this.throwInvalidCode(user.id, 'disable');
+    }
+
+    await this.userMfaRepository.remove(mfa.id);
+
+    this.auditService.logAuthEvent({
+      userId: user.id,
+      provider: 'system',
+      event: AuthEventType.MFA_DISABLED,
+      success: true,
+    });
+
+    this.logger.log(`[MFA] MFA disabled for user ${user.id}`);
+  }
+
+  /**
+   * Replace all recovery codes (requires a valid code)
+   */
+  async regenerateRecoveryCodes(
+    userId: User['id'],
+    code: string,
+  ): Promise<string[]> {
+    const mfa = await this.userMfaRepository.findByUserId(userId);
+    if (!mfa?.enabledAt) {
+      throw new UnprocessableEntityException({
+        status: HttpStatus.UNPROCESSABLE_ENTITY,
+        errors: {
+          mfa: 'notEnabled',
+        },
+      });
+    }
+
+    if (!(await this.verify(userId, code))) {
+      this.throwInvalidCode(userId, 'regenerate-recovery-codes');
+    }
+
+    const recoveryCodes = this.generateRecoveryCodes();
+    await this.userMfaRepository.update(mfa.id, {
+      recoveryCodeHashes: recoveryCodes.map((recoveryCode) =>
+        this.hashRecoveryCode(recoveryCode),
+      ),
+    });
+
+    this.auditService.logAuthEvent({
+      userId,
+      provider: 'system',
+      event: AuthEventType.MFA_RECOVERY_CODES_REGENERATED,
+      success: true,
+    });
+
+    return recoveryCodes;
+  }
+
+  private async consumeCode(mfa: UserMfa, code: string): Promise<boolean> {
+    // Conditional updates: of two concurrent requests with the same code,
+    // only the first one to write succeeds
+    const step = this.matchTotp(mfa, code);
+    if (step !== null) {
+      return this.userMfaRepository.consumeTotpStep(mfa.id, step);
+    }
+
+    const hash = this.hashRecoveryCode(code);
+    if (
+      !mfa.recoveryCodeHashes.includes(hash) ||
+      !(await this.userMfaRepository.consumeRecoveryCode(mfa.id, hash))
+    ) {
+      return false;
+    }
+
+    this.auditService.logAuthEvent({
+      userId: mfa.userId,
+      provider: 'system',
+      event: AuthEventType.MFA_RECOVERY_CODE_USED,
+      success: true,
+      metadata: { remaining: mfa.recoveryCodeHashes.length - 1 },
+    });
+
+    return true;
+  }
+
+  private async recordFailedAttempt(mfa: UserMfa): Promise<void> {
+    const failedAttempts = await this.userMfaRepository.incrementFailedAttempts(
+      mfa.id,
+    );
+    const maxAttempts = this.configService.getOrThrow('auth.mfaMaxAttempts', {
+      infer: true,
+    });
+    if (failedAttempts < maxAttempts) {
+      return;
+    }
+
+    const lockoutDuration = this.configService.getOrThrow(
+      'auth.mfaLockoutDuration',
+      { infer: true },
+    );
+    await this.userMfaRepository.update(mfa.id, {
+      failedAttempts: 0,
+      lockedUntil: new Date(Date.now() + ms(lockoutDuration)),
+    });
+
+    this.auditService.logAuthEvent({
+      userId: mfa.userId,
+      provider: 'system',
+      event: AuthEventType.MFA_LOCKED,
+      success: false,
+      metadata: { failedAttempts, lockoutDuration },
+    });
+
+    this.logger.warn(`[MFA] MFA locked for user ${mfa.userId}`);
+  }
+
+  private matchTotp(mfa: UserMfa, code: string): number | null {
+    if (!/^\d{6}$/.test(code)) {
+      return null;
+    }
+
+    const secret = decryptSecret(
+      mfa.encryptedTotpSecret,
+      this.getEncryptionKey(),
+    );
+    const step = findTotpStep(secret, code);
+
+    // Reject replays of an already accepted code (or an older one)
+    return step !== null && step > (mfa.lastUsedStep ?? -1) ? step : null;
+  }
+
+  // Format: xxxx-xxxx (base32, lowercase)
+  private generateRecoveryCodes(): string[] {
+    return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+      const code = base32Encode(randomBytes(5)).toLowerCase();
+      return `${code.slice(0, 4)}-${code.slice(4)}`;
+    });
+  }
+
+  private hashRecoveryCode(code: string): string {
+    const normalized = code.replace(/[\s-]/g, '').toLowerCase();
+    return createHash('sha256').update(normalized).digest('hex');
+  }
+
+  private throwInvalidCode(userId: User['id'], action: string): never {
+    this.auditService.logAuthEvent({
+      userId,
+      provider: 'system',
+      event: AuthEventType.MFA_CHALLENGE_FAILED,
+      success: false,
+      errorMessage: 'Invalid MFA code',
+      metadata: { action },
+    });
+
+    throw new UnprocessableEntityException({
+      status: HttpStatus.UNPROCESSABLE_ENTITY,
+      errors: {
+        code: 'invalidCode',
+      },
+    });
+  }
+
+  private getEncryptionKey(): string {
+    const encryptionKey = this.configService.get('auth.mfaEncryptionSecret', {
+      infer: true,
+    });
+    if (!encryptionKey) {
+      throw new Error('AUTH_MFA_ENCRYPTION_SECRET is required to use MFA');
+    }
+    return encryptionKey;
+  }
+}
@@ -0,0 +1,41 @@
+import {
+  base32Decode,
+  base32Encode,
+  buildOtpauthUri,
+  findTotpStep,
+  generateTotp,
+  getTotpStep,
+} from './totp';
+
+describe('totp', () => {
+  // RFC 6238 Appendix B (SHA-1 seed), last 6 digits
+  const secret = base32Encode(Buffer.from('12345678901234567890'));
+
+  it('should match the RFC 6238 test vectors', () => {
+    expect(generateTotp(secret, getTotpStep(59 * 1000))).toBe('287082');
+    expect(generateTotp(secret, getTotpStep(1111111109 * 1000))).toBe('081804');
+    expect(generateTotp(secret, getTotpStep(1234567890 * 1000))).toBe('005924');
+  });
+
+  it('should accept codes from adjacent steps only', () => {
+    const now = 1234567890 * 1000;
+    const step = getTotpStep(now);
+
+    expect(findTotpStep(secret, generateTotp(secret, step - 1), now)).toBe(
+      step - 1,
+    );
+    expect(findTotpStep(secret, generateTotp(secret, step + 1), now)).toBe(
+      step + 1,
+    );
+    expect(
+      findTotpStep(secret, generateTotp(secret, step - 2), now),
+    ).toBeNull();
+  });
+
+  it('should round-trip base32 and build an otpauth URI', () => {
+    expect(base32Decode(secret).toString()).toBe('12345678901234567890');
+    expect(buildOtpauthUri(secret, 'Keystone', 'jane@example.com')).toBe(
+      `otpauth://totp/Keystone:jane%40example.com?secret=${secret}&issuer=Keystone&algorithm=SHA1&digits=6&period=30`,
+    );
+  });
+});
@@ -9,6 +9,7 @@ import { Session } from '../../../../domain/session';
 
 import { SessionMapper } from '../mappers/session.mapper';
 import { User } from '../../../../../users/domain/user';
+import { transactional } from '../../../../../database/relational-transaction';
 
 @Injectable()
 export class SessionRelationalRepository implements SessionRepository {
@@ -61,13 +62,13 @@ export class SessionRelationalRepository implements SessionRepository {
   }
 
   async deleteById(id: Session['id']): Promise<void> {
-    await this.sessionRepository.softDelete({
+    await transactional(this.sessionRepository).softDelete({
       id: Number(id),
     });
   }
 
   async deleteByUserId(conditions: { userId: User['id'] }): Promise<void> {
-    await this.sessionRepository.softDelete({
+    await transactional(this.sessionRepository).softDelete({
       user: {
         id: Number(conditions.userId),
       },
@@ -78,7 +79,7 @@ export class SessionRelationalRepository implements SessionRepository {
     userId: User['id'];
     excludeSessionId: Session['id'];
   }): Promise<void> {
-    await this.sessionRepository.softDelete({
+    await transactional(this.sessionRepository).softDelete({
       user: {
         id: Number(conditions.userId),
       },
@@ -0,0 +1,11 @@
+import { JwtSigningAlgorithm } from '../../auth/config/auth-config.type';
+
+export class SigningKey {
+  id: string; // JWK thumbprint (RFC 7638), used as the JWT "kid"
+  algorithm: JwtSigningAlgorithm;
+  publicKey: string; // SPKI PEM
+  encryptedPrivateKey: string; // PKCS#8 PEM, AES-256-GCM encrypted
+  activatesAt: Date; // Published in the JWKS before it is used for signing
+  expiresAt?: Date | null; // Set once superseded: last moment its tokens can be valid
+  createdAt: Date;
+}
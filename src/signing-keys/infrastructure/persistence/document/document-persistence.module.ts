@@ -0,0 +1,24 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import {
+  SigningKeySchema,
+  SigningKeySchemaClass,
+} from './entities/signing-key.schema';
+import { SigningKeyRepository } from '../signing-key.repository';
+import { SigningKeyDocumentRepository } from './repositories/signing-key.repository';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: SigningKeySchemaClass.name, schema: SigningKeySchema },
+    ]),
+  ],
+  providers: [
+    {
+      provide: SigningKeyRepository,
+      useClass: SigningKeyDocumentRepository,
+    },
+  ],
+  exports: [SigningKeyRepository],
+})
+export class DocumentSigningKeyPersistenceModule {}
@@ -0,0 +1,41 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { HydratedDocument } from 'mongoose';
+import { JwtSigningAlgorithm } from '../../../../../auth/config/auth-config.type';
+
+export type SigningKeySchemaDocument = HydratedDocument<SigningKeySchemaClass>;
+
+@Schema({
+  collection: 'jwt_signing_keys',
+  timestamps: { createdAt: true, updatedAt: false },
+  toJSON: {
+    virtuals: true,
+    getters: true,
+  },
+})
+export class SigningKeySchemaClass {
+  // JWK thumbprint ("kid")
+  @Prop({ type: String })
+  _id: string;
+
+  @Prop({ type: String, enum: JwtSigningAlgorithm, required: true })
+  algorithm: JwtSigningAlgorithm;
+
+  @Prop({ type: String, required: true })
+  publicKey: string;
+
+  @Prop({ type: String, required: true })
+  encryptedPrivateKey: string;
+
+  @Prop({ type: Date, required: true })
+  activatesAt: Date;
+
+  @Prop({ type: Date, default: null, index: true })
+  expiresAt?: Date | null;
+
+  @Prop()
+  createdAt: Date;
+}
+
+export const SigningKeySchema = SchemaFactory.createForClass(
+  SigningKeySchemaClass,
+);
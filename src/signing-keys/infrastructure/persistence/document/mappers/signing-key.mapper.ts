@@ -0,0 +1,28 @@
+import { SigningKey } from '../../../../domain/signing-key';
+import { SigningKeySchemaClass } from '../entities/signing-key.schema';
+
+export class SigningKeyMapper {
+  static toDomain(raw: SigningKeySchemaClass): SigningKey {
+    const domainEntity = new SigningKey();
+    domainEntity.id = raw._id.toString();
+    domainEntity.algorithm = raw.algorithm;
+    domainEntity.publicKey = raw.publicKey;
+    domainEntity.encryptedPrivateKey = raw.encryptedPrivateKey;
+    domainEntity.activatesAt = raw.activatesAt;
+    domainEntity.expiresAt = raw.expiresAt;
+    domainEntity.createdAt = raw.createdAt;
+    return domainEntity;
+  }
+
+  static toPersistence(domainEntity: SigningKey): SigningKeySchemaClass {
+    const persistenceSchema = new SigningKeySchemaClass();
+    persistenceSchema._id = domainEntity.id;
+    persistenceSchema.algorithm = domainEntity.algorithm;
+    persistenceSchema.publicKey = domainEntity.publicKey;
+    persistenceSchema.encryptedPrivateKey = domainEntity.encryptedPrivateKey;
+    persistenceSchema.activatesAt = domainEntity.activatesAt;
+    persistenceSchema.expiresAt = domainEntity.expiresAt ?? null;
+    persistenceSchema.createdAt = domainEntity.createdAt;
+    return persistenceSchema;
+  }
+}
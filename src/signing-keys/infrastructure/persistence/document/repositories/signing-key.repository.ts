@@ -0,0 +1,45 @@
+import { Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { SigningKey } from '../../../../domain/signing-key';
+import { SigningKeyRepository } from '../../signing-key.repository';
+import { SigningKeySchemaClass } from '../entities/signing-key.schema';
+import { SigningKeyMapper } from '../mappers/signing-key.mapper';
+
+@Injectable()
+export class SigningKeyDocumentRepository implements SigningKeyRepository {
+  constructor(
+    @InjectModel(SigningKeySchemaClass.name)
+    private readonly signingKeysModel: Model<SigningKeySchemaClass>,
+  ) {}
+
+  async create(data: SigningKey): Promise<SigningKey> {
+    const persistenceModel = SigningKeyMapper.toPersistence(data);
+    const createdKey = new this.signingKeysModel(persistenceModel);
+    const keyObject = await createdKey.save();
+    return SigningKeyMapper.toDomain(keyObject);
+  }
+
+  async findValid(now: Date): Promise<SigningKey[]> {
+    const keyObjects = await this.signingKeysModel
+      .find({ $or: [{ expiresAt: null }, { expiresAt: { $gt: now } }] })
+      .sort({ activatesAt: -1 });
+
+    return keyObjects.map((keyObject) => SigningKeyMapper.toDomain(keyObject));
+  }
+
+  async expireAllExcept(exceptId: string, expiresAt: Date): Promise<void> {
+    await this.signingKeysModel.updateMany(
+      { _id: { $ne: exceptId }, expiresAt: null },
+      { expiresAt },
+    );
+  }
+
+  async deleteExpired(now: Date): Promise<number> {
+    const result = await this.signingKeysModel.deleteMany({
+      expiresAt: { $lte: now },
+    });
+
+    return result.deletedCount;
+  }
+}
@@ -0,0 +1,34 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  PrimaryColumn,
+} from 'typeorm';
+import { EntityRelationalHelper } from '../../../../../utils/relational-entity-helper';
+import { JwtSigningAlgorithm } from '../../../../../auth/config/auth-config.type';
+
+@Entity({ name: 'jwt_signing_keys' })
+export class SigningKeyEntity extends EntityRelationalHelper {
+  @PrimaryColumn({ type: 'varchar', length: 64 })
+  id: string;
+
+  @Column({ type: 'varchar', length: 10 })
+  algorithm: JwtSigningAlgorithm;
+
+  @Column({ name: 'public_key', type: 'text' })
+  publicKey: string;
+
+  @Column({ name: 'encrypted_private_key', type: 'text' })
+  encryptedPrivateKey: string;
+
+  @Column({ name: 'activates_at', type: 'timestamp' })
+  activatesAt: Date;
+
+  @Column({ name: 'expires_at', type: 'timestamp', nullable: true })
+  @Index('IDX_jwt_signing_keys_expires_at')
+  expiresAt?: Date | null;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+}
@@ -0,0 +1,28 @@
+import { SigningKey } from '../../../../domain/signing-key';
+import { SigningKeyEntity } from '../entities/signing-key.entity';
+
+export class SigningKeyMapper {
+  static toDomain(raw: SigningKeyEntity): SigningKey {
+    const domainEntity = new SigningKey();
+    domainEntity.id = raw.id;
+    domainEntity.algorithm = raw.algorithm;
+    domainEntity.publicKey = raw.publicKey;
+    domainEntity.encryptedPrivateKey = raw.encryptedPrivateKey;
+    domainEntity.activatesAt = raw.activatesAt;
+    domainEntity.expiresAt = raw.expiresAt;
+    domainEntity.createdAt = raw.createdAt;
+    return domainEntity;
+  }
+
+  static toPersistence(domainEntity: SigningKey): SigningKeyEntity {
+    const persistenceEntity = new SigningKeyEntity();
+    persistenceEntity.id = domainEntity.id;
+    persistenceEntity.algorithm = domainEntity.algorithm;
+    persistenceEntity.publicKey = domainEntity.publicKey;
+    persistenceEntity.encryptedPrivateKey = domainEntity.encryptedPrivateKey;
+    persistenceEntity.activatesAt = domainEntity.activatesAt;
+    persistenceEntity.expiresAt = domainEntity.expiresAt ?? null;
+    persistenceEntity.createdAt = domainEntity.createdAt;
+    return persistenceEntity;
+  }
+}
@@ -0,0 +1,17 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { SigningKeyRepository } from '../signing-key.repository';
+import { SigningKeyEntity } from './entities/signing-key.entity';
+import { SigningKeyRelationalRepository } from './repositories/signing-key.repository';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([SigningKeyEntity])],
+  providers: [
+    {
+      provide: SigningKeyRepository,
+      useClass: SigningKeyRelationalRepository,
+    },
+  ],
+  exports: [SigningKeyRepository],
+})
+export class RelationalSigningKeyPersistenceModule {}
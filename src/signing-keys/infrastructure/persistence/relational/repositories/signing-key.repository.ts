@@ -0,0 +1,48 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { IsNull, LessThanOrEqual, MoreThan, Not, Repository } from 'typeorm';
+import { SigningKeyEntity } from '../entities/signing-key.entity';
+import { SigningKey } from '../../../../domain/signing-key';
+import { SigningKeyRepository } from '../../signing-key.repository';
+import { SigningKeyMapper } from '../mappers/signing-key.mapper';
+
+@Injectable()
+export class SigningKeyRelationalRepository implements SigningKeyRepository {
+  constructor(
+    @InjectRepository(SigningKeyEntity)
+    private readonly signingKeysRepository: Repository<SigningKeyEntity>,
+  ) {}
+
+  async create(data: SigningKey): Promise<SigningKey> {
+    const persistenceModel = SigningKeyMapper.toPersistence(data);
+    return SigningKeyMapper.toDomain(
+      await this.signingKeysRepository.save(
+        this.signingKeysRepository.create(persistenceModel),
+      ),
+    );
+  }
+
+  async findValid(now: Date): Promise<SigningKey[]> {
+    const entities = await this.signingKeysRepository.find({
+      where: [{ expiresAt: IsNull() }, { expiresAt: MoreThan(now) }],
+      order: { activatesAt: 'DESC' },
+    });
+
+    return entities.map((entity) => SigningKeyMapper.toDomain(entity));
+  }
+
+  async expireAllExcept(exceptId: string, expiresAt: Date): Promise<void> {
+    await this.signingKeysRepository.update(
+      { id: Not(exceptId), expiresAt: IsNull() },
+      { expiresAt },
+    );
+  }
+
+  async deleteExpired(now: Date): Promise<number> {
+    const result = await this.signingKeysRepository.delete({
+      expiresAt: LessThanOrEqual(now),
+    });
+
+    return result.affected ?? 0;
+  }
+}
@@ -0,0 +1,17 @@
+import { SigningKey } from '../../domain/signing-key';
+
+export abstract class SigningKeyRepository {
+  abstract create(data: SigningKey): Promise<SigningKey>;
+
+  // Keys without an expiry or expiring after `now`, newest activation first
+  abstract findValid(now: Date): Promise<SigningKey[]>;
+
+  /**
+   * Set the expiry on every key that has none, except `exceptId`
+   * (called when a new key supersedes the current one)
+   */
+  abstract expireAllExcept(exceptId: string, expiresAt: Date): Promise<void>;
+
+  // @returns Number of keys removed
+  abstract deleteExpired(now: Date): Promise<number>;
+}
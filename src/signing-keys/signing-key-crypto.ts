@@ -0,0 +1,77 @@
+import {
+  createHash,
+  createPublicKey,
+  generateKeyPair,
+  JsonWebKey,
+} from 'crypto';
+import { promisify } from 'util';
+import { JwtSigningAlgorithm } from '../auth/config/auth-config.type';
+
+const generateKeyPairAsync = promisify(generateKeyPair);
+
+export interface GeneratedKeyPair {
+  kid: string;
+  publicKey: string;
+  privateKey: string;
+}
+
+/**
+ * Generate a signing key pair for RS256 (RSA 2048) or ES256 (P-256)
+ */
+export async function generateSigningKeyPair(
+  algorithm: JwtSigningAlgorithm,
+): Promise<GeneratedKeyPair> {
+  let keyPair: { publicKey: string; privateKey: string };
+  switch (algorithm) {
+    case JwtSigningAlgorithm.RS256:
+      keyPair = await generateKeyPairAsync('rsa', {
+        modulusLength: 2048,
+        publicKeyEncoding: { type: 'spki', format: 'pem' },
+        privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+      });
+      break;
+    case JwtSigningAlgorithm.ES256:
+      keyPair = await generateKeyPairAsync('ec', {
+        namedCurve: 'P-256',
+        publicKeyEncoding: { type: 'spki', format: 'pem' },
+        privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+      });
+      break;
+    default:
+      throw new Error(`Cannot generate a key pair for ${algorithm}`);
+  }
+
+  return { kid: computeKeyThumbprint(keyPair.publicKey), ...keyPair };
+}
+
+/**
+ * JWK thumbprint (RFC 7638): SHA-256 over the required members in
+ * lexicographic order, base64url encoded
+ */
+export function computeKeyThumbprint(publicKeyPem: string): string {
+  const jwk = createPublicKey(publicKeyPem).export({ format: 'jwk' });
+  const members =
+    jwk.kty === 'EC'
+      ? { crv: jwk.crv, kty: jwk.kty, x: jwk.x, y: jwk.y }
+      : { e: jwk.e, kty: jwk.kty, n: jwk.n };
+
+  return createHash('sha256')
+    .update(JSON.stringify(members))
+    .digest('base64url');
+}
+
+/**
+ * Public JWK for the JWKS endpoint (never includes private members)
+ */
+export function toPublicJwk(
+  kid: string,
+  algorithm: JwtSigningAlgorithm,
+  publicKeyPem: string,
+): JsonWebKey {
+  return {
+    ...createPublicKey(publicKeyPem).export({ format: 'jwk' }),
+    kid,
+    alg: algorithm,
+    use: 'sig',
+  };
+}
@@ -0,0 +1,23 @@
+import { Module } from '@nestjs/common';
+import { DocumentSigningKeyPersistenceModule } from './infrastructure/persistence/document/document-persistence.module';
+import { RelationalSigningKeyPersistenceModule } from './infrastructure/persistence/relational/relational-persistence.module';
+import { SigningKeysService } from './signing-keys.service';
+import { WellKnownController } from './well-known.controller';
+import { AuditModule } from '../audit/audit.module';
+import { DatabaseConfig } from '../database/config/database-config.type';
+import databaseConfig from '../database/config/database.config';
+
+// <database-block>
+const infrastructurePersistenceModule = (databaseConfig() as DatabaseConfig)
+  .isDocumentDatabase
+  ? DocumentSigningKeyPersistenceModule
+  : RelationalSigningKeyPersistenceModule;
+// </database-block>
+
+@Module({
+  imports: [infrastructurePersistenceModule, AuditModule],
+  controllers: [WellKnownController],
+  providers: [SigningKeysService],
+  exports: [SigningKeysService],
+})
+export class SigningKeysModule {}
@@ -0,0 +1,193 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import { KEY_PREPUBLISH_MS, SigningKeysService } from './signing-keys.service';
+import { SigningKey } from './domain/signing-key';
+import { SigningKeyRepository } from './infrastructure/persistence/signing-key.repository';
+import { JwtSigningAlgorithm } from '../auth/config/auth-config.type';
+import { AuditService, AuthEventType } from '../audit/audit.service';
+
+describe('SigningKeysService', () => {
+  let service: SigningKeysService;
+  let keys: SigningKey[];
+  let config: Record<string, unknown>;
+  let auditService: { logAuthEvent: jest.Mock };
+  const jwtService = new JwtService({});
+
+  const createService = async () => {
+    // In-memory key store
+    const repository: SigningKeyRepository = {
+      create: jest.fn((data) => {
+        keys.push({ ...data });
+        return Promise.resolve(data);
+      }),
+      findValid: jest.fn((now: Date) =>
+        Promise.resolve(
+          keys
+            .filter((key) => !key.expiresAt || key.expiresAt > now)
+            .sort((a, b) => b.activatesAt.getTime() - a.activatesAt.getTime())
+            .map((key) => ({ ...key })),
+        ),
+      ),
+      expireAllExcept: jest.fn((exceptId: string, expiresAt: Date) => {
+        keys
+          .filter((key) => key.id !== exceptId && !key.expiresAt)
+          .forEach((key) => (key.expiresAt = expiresAt));
+        return Promise.resolve();
+      }),
+      deleteExpired: jest.fn(() => Promise.resolve(0)),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SigningKeysService,
+        { provide: SigningKeyRepository, useValue: repository },
+        { provide: AuditService, useValue: auditService },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn((key) => config[key]),
+            getOrThrow: jest.fn((key) => config[key]),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get(SigningKeysService);
+    await service.onModuleInit();
+  };
+
+  const signAccessToken = async () => {
+    const signingKey = await service.getSigningKey();
+    return jwtService.signAsync(
+      { sub: '1' },
+      {
+        secret: signingKey.key,
+        algorithm: signingKey.algorithm,
+        header: { alg: signingKey.algorithm, kid: signingKey.kid },
+      },
+    );
+  };
+
+  const verifyAccessToken = async (token: string) => {
+    const header = jwtService.decode(token, { complete: true }).header;
+    const key = await service.getVerificationKey(header);
+    if (!key) {
+      throw new Error('Unknown signing key');
+    }
+    return jwtService.verifyAsync(token, {
+      secret: key,
+      algorithms: [header.alg],
+    });
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers({
+      doNotFake: ['nextTick', 'setImmediate', 'queueMicrotask'],
+    });
+    keys = [];
+    auditService = { logAuthEvent: jest.fn() };
+    config = {
+      'auth.secret': 'hmac-secret',
+      'auth.expires': '15m',
+      'auth.jwtKeyId': 'hmac-2025-01',
+      'auth.jwtAlgorithm': JwtSigningAlgorithm.ES256,
+      'auth.jwtKeyRotationInterval': '30d',
+      'auth.jwtKeyEncryptionSecret': 'key-encryption-secret',
+    };
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should create an encrypted signing key on first start and publishes it', async () => {
+    await createService();
+
+    expect(keys).toHaveLength(1);
+    expect(keys[0].encryptedPrivateKey).not.toContain('PRIVATE KEY');
+    expect(auditService.logAuthEvent).toHaveBeenCalledWith(
+      expect.objectContaining({ event: AuthEventType.SIGNING_KEY_ROTATED }),
+    );
+
+    const jwks = await service.getJwks();
+    expect(jwks.keys).toEqual([
+      expect.objectContaining({
+        kid: keys[0].id,
+        alg: 'ES256',
+        kty: 'EC',
+        use: 'sig',
+      }),
+    ]);
+    expect(jwks.keys[0]).not.toHaveProperty('d');
+
+    const token = await signAccessToken();
+    await expect(verifyAccessToken(token)).resolves.toMatchObject({
+      sub: '1',
+    });
+  });
+
+  it('should pre-publish the next key and keep the old key until its tokens expire', async () => {
+    await createService();
+    const oldKid = keys[0].id;
+
+    jest.advanceTimersByTime(31 * 24 * 60 * 60 * 1000);
+    await expect(service.rotateIfDue()).resolves.toBe(true);
+    await expect(service.rotateIfDue()).resolves.toBe(false);
+
+    // Published, but not signing yet
+    expect((await service.getJwks()).keys).toHaveLength(2);
+    expect((await service.getSigningKey()).kid).toBe(oldKid);
+
+    jest.advanceTimersByTime(KEY_PREPUBLISH_MS);
+    const newToken = await signAccessToken();
+    expect((await service.getSigningKey()).kid).not.toBe(oldKid);
+    await expect(verifyAccessToken(newToken)).resolves.toBeDefined();
+
+    // Old key: valid for one access token lifetime (+ skew) after hand-over
+    const oldKey = keys.find((key) => key.id === oldKid)!;
+    expect(oldKey.expiresAt!.getTime()).toBe(
+      Date.now() + 15 * 60 * 1000 + 60 * 1000,
+    );
+    await expect(
+      service.getVerificationKey({ alg: 'ES256', kid: oldKid }),
+    ).resolves.toContain('PUBLIC KEY');
+
+    jest.advanceTimersByTime(17 * 60 * 1000);
+    await expect(
+      service.getVerificationKey({ alg: 'ES256', kid: oldKid }),
+    ).resolves.toBeNull();
+  });
+
+  it('should reject unknown key ids and algorithm mismatches', async () => {
+    await createService();
+
+    await expect(
+      service.getVerificationKey({ alg: 'ES256', kid: 'unknown' }),
+    ).resolves.toBeNull();
+    await expect(
+      service.getVerificationKey({ alg: 'RS256', kid: keys[0].id }),
+    ).resolves.toBeNull();
+    await expect(service.getVerificationKey({ alg: 'ES256' })).resolves.toBe(
+      null,
+    );
+  });
+
+  it('should sign with auth.secret and publish no keys in HS256 mode', async () => {
+    config['auth.jwtAlgorithm'] = JwtSigningAlgorithm.HS256;
+    await createService();
+
+    expect(keys).toHaveLength(0);
+    await expect(service.getJwks()).resolves.toEqual({ keys: [] });
+    await expect(service.getSigningKey()).resolves.toEqual({
+      kid: 'hmac-2025-01',
+      algorithm: JwtSigningAlgorithm.HS256,
+      key: 'hmac-secret',
+    });
+
+    const token = await signAccessToken();
+    await expect(verifyAccessToken(token)).resolves.toMatchObject({
+      sub: '1',
+    });
+  });
+});
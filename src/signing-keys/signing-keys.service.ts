@@ -0,0 +1,304 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { JsonWebKey } from 'crypto';
+import ms from 'ms';
+import { AllConfigType } from '../config/config.type';
+import { JwtSigningAlgorithm } from '../auth/config/auth-config.type';
+import { AuditService, AuthEventType } from '../audit/audit.service';
+import { SigningKey } from './domain/signing-key';
+import { SigningKeyRepository } from './infrastructure/persistence/signing-key.repository';
+import { generateSigningKeyPair, toPublicJwk } from './signing-key-crypto';
+import { decryptSecret, encryptSecret } from '../utils/secret-encryption';
+
+// Reload the key set from the database at most this often
+const KEY_SET_TTL_MS = 60 * 1000;
+// Minimum gap between forced reloads triggered by an unknown "kid"
+const UNKNOWN_KID_RELOAD_MS = 10 * 1000;
+// New keys are published this long before they sign (JWKS max-age is 5 min)
+export const KEY_PREPUBLISH_MS = 10 * 60 * 1000;
+// Matches the nbf allowance in AuthService.getTokensData
+const CLOCK_SKEW_MS = 60 * 1000;
+
+export interface ResolvedSigningKey {
+  kid: string;
+  algorithm: JwtSigningAlgorithm;
+  key: string; // HMAC secret or PKCS#8 private key PEM
+}
+
+/**
+ * Access token signing keys
+ *
+ * HS256 (default) signs with auth.secret. RS256/ES256 sign with generated key
+ * pairs stored in jwt_signing_keys (private keys AES-256-GCM encrypted with
+ * AUTH_JWT_KEY_ENCRYPTION_SECRET) and published at /.well-known/jwks.json,
+ * so resource servers can verify tokens without calling /auth/introspect.
+ *
+ * Rotation (hourly check, every AUTH_JWT_KEY_ROTATION_INTERVAL):
+ * - The new key is published KEY_PREPUBLISH_MS before it starts signing
+ * - The superseded key stays in the key set until the last token it signed
+ *   has expired (activation + access token TTL + clock skew), then is deleted
+ *
+ * All instances share the key set through the database; an unknown "kid"
+ * triggers a reload, so a key created by another instance verifies at once.
+ *
+ * HIPAA Compliance:
+ * - Never log key material; rotations are audited (SIGNING_KEY_ROTATED)
+ */
+@Injectable()
+export class SigningKeysService implements OnModuleInit {
+  private readonly logger = new Logger(SigningKeysService.name);
+  private keys: SigningKey[] = [];
+  private loadedAt = 0;
+  private loading?: Promise<void>;
+  private loadGeneration = 0;
+  private readonly privateKeys = new Map<string, string>();
+
+  constructor(
+    private readonly signingKeyRepository: SigningKeyRepository,
+    private readonly configService: ConfigService<AllConfigType>,
+    private readonly auditService: AuditService,
+  ) {}
+
+  async onModuleInit(): Promise<void> {
+    if (!this.isAsymmetric()) {
+      return;
+    }
+
+    if (!this.getEncryptionSecret()) {
+      throw new Error(
+        'AUTH_JWT_KEY_ENCRYPTION_SECRET is required for asymmetric JWT signing',
+      );
+    }
+
+    await this.loadKeys(true);
+    if (!this.findSigningKey()) {
+      // First start (or algorithm change): sign immediately
+      await this.rotate(new Date());
+    }
+  }
+
+  /**
+   * Key for signing a new access token
+   */
+  async getSigningKey(): Promise<ResolvedSigningKey> {
+    const algorithm = this.getAlgorithm();
+
+    if (!this.isAsymmetric()) {
+      return {
+        kid: this.configService.getOrThrow('auth.jwtKeyId', { infer: true }),
+        algorithm,
+        key: this.configService.getOrThrow('auth.secret', { infer: true }),
+      };
+    }
+
+    await this.loadKeys();
+    const signingKey = this.findSigningKey() ?? (await this.rotate(new Date()));
+
+    return {
+      kid: signingKey.id,
+      algorithm,
+      key: this.getPrivateKey(signingKey),
+    };
+  }
+
+  /**
+   * Key for verifying a token with the given header
+   * @returns null if no valid key matches the "kid" and algorithm
+   */
+  async getVerificationKey(header?: {
+    alg?: string;
+    kid?: string;
+  }): Promise<string | null> {
+    // Callers restrict accepted algorithms via auth.jwtAllowedAlgorithms
+    if (header?.alg === JwtSigningAlgorithm.HS256) {
+      return this.configService.getOrThrow('auth.secret', { infer: true });
+    }
+    if (!header?.kid) {
+      return null;
+    }
+
+    await this.loadKeys();
+    let key = this.keys.find((candidate) => candidate.id === header.kid);
+    if (!key && Date.now() - this.loadedAt >= UNKNOWN_KID_RELOAD_MS) {
+      await this.loadKeys(true);
+      key = this.keys.find((candidate) => candidate.id === header.kid);
+    }
+
+    return key && key.algorithm === header.alg ? key.publicKey : null;
+  }
+
+  /**
+   * Public key set (RFC 7517), including pre-published and retiring keys
+   */
+  async getJwks(): Promise<{ keys: JsonWebKey[] }> {
+    await this.loadKeys();
+
+    return {
+      keys: this.keys
+        .filter((key) => key.algorithm !== JwtSigningAlgorithm.HS256)
+        .map((key) => toPublicJwk(key.id, key.algorithm, key.publicKey)),
+    };
+  }
+
+  @Cron(CronExpression.EVERY_HOUR, {
+    name: 'jwt-signing-key-rotation',
+    timeZone: 'UTC',
+  })
+  async handleKeyRotation(): Promise<void> {
+    try {
+      const deleted = await this.signingKeyRepository.deleteExpired(new Date());
+      if (deleted > 0) {
+        this.logger.log(`[SIGNING KEYS] Removed ${deleted} expired key(s)`);
+      }
+
+      if (this.isAsymmetric()) {
+        await this.rotateIfDue();
+      }
+    } catch (error) {
+      this.logger.error(
+        `[SIGNING KEYS] Key rotation failed: ${error?.message || 'Unknown error'}`,
+      );
+    }
+  }
+
+  /**
+   * Schedule a new signing key once the newest one reaches the rotation age
+   * @returns true if a key was created
+   */
+  async rotateIfDue(): Promise<boolean> {
+    await this.loadKeys(true);
+
+    const newest = this.keys.find(
+      (key) => key.algorithm === this.getAlgorithm(),
+    );
+    const rotationInterval: ms.StringValue = this.configService.getOrThrow(
+      'auth.jwtKeyRotationInterval',
+      { infer: true },
+    );
+    const interval = ms(rotationInterval);
+    if (newest && newest.activatesAt.getTime() + interval > Date.now()) {
+      return false;
+    }
+
+    await this.rotate(new Date(Date.now() + KEY_PREPUBLISH_MS));
+    return true;
+  }
+
+  /**
+   * Create a key that signs from `activatesAt`; every other key expires once
+   * the tokens it can still sign until then have expired
+   */
+  private async rotate(activatesAt: Date): Promise<SigningKey> {
+    const algorithm = this.getAlgorithm();
+    const keyPair = await generateSigningKeyPair(algorithm);
+
+    const signingKey = await this.signingKeyRepository.create({
+      id: keyPair.kid,
+      algorithm,
+      publicKey: keyPair.publicKey,
+      encryptedPrivateKey: encryptSecret(
+        keyPair.privateKey,
+        this.getEncryptionSecret()!,
+      ),
+      activatesAt,
+      expiresAt: null,
+      createdAt: new Date(),
+    });
+
+    const accessTokenExpires: ms.StringValue = this.configService.getOrThrow(
+      'auth.expires',
+      { infer: true },
+    );
+    const accessTokenTtl = ms(accessTokenExpires);
+    await this.signingKeyRepository.expireAllExcept(
+      signingKey.id,
+      new Date(activatesAt.getTime() + accessTokenTtl + CLOCK_SKEW_MS),
+    );
+
+    this.privateKeys.set(signingKey.id, keyPair.privateKey);
+    await this.loadKeys(true);
+
+    this.auditService.logAuthEvent({
+      userId: 'system',
+      provider: 'system',
+      event: AuthEventType.SIGNING_KEY_ROTATED,
+      success: true,
+      metadata: {
+        kid: signingKey.id,
+        algorithm,
+        activatesAt: activatesAt.toISOString(),
+      },
+    });
+
+    this.logger.log(
+      `[SIGNING KEYS] New ${algorithm} key ${signingKey.id} activates at ${activatesAt.toISOString()}`,
+    );
+
+    return signingKey;
+  }
+
+  // Keys are sorted by activation, newest first
+  private findSigningKey(): SigningKey | undefined {
+    const now = Date.now();
+    return this.keys.find(
+      (key) =>
+        key.algorithm === this.getAlgorithm() &&
+        key.activatesAt.getTime() <= now,
+    );
+  }
+
+  private loadKeys(force = false): Promise<void> {
+    if (!force && Date.now() - this.loadedAt < KEY_SET_TTL_MS) {
+      return Promise.resolve();
+    }
+    if (!force && this.loading) {
+      return this.loading;
+    }
+
+    const generation = ++this.loadGeneration;
+    const loading = this.signingKeyRepository
+      .findValid(new Date())
+      .then((keys) => {
+        // A load started later (e.g. forced after rotation) wins
+        if (generation === this.loadGeneration) {
+          this.keys = keys;
+          this.loadedAt = Date.now();
+        }
+      })
+      .finally(() => {
+        if (this.loading === loading) {
+          this.loading = undefined;
+        }
+      });
+
+    this.loading = loading;
+    return loading;
+  }
+
+  private getPrivateKey(key: SigningKey): string {
+    let privateKey = this.privateKeys.get(key.id);
+    if (!privateKey) {
+      privateKey = decryptSecret(
+        key.encryptedPrivateKey,
+        this.getEncryptionSecret()!,
+      );
+      this.privateKeys.set(key.id, privateKey);
+    }
+    return privateKey;
+  }
+
+  private getAlgorithm(): JwtSigningAlgorithm {
+    return this.configService.getOrThrow('auth.jwtAlgorithm', { infer: true });
+  }
+
+  private isAsymmetric(): boolean {
+    return this.getAlgorithm() !== JwtSigningAlgorithm.HS256;
+  }
+
+  private getEncryptionSecret(): string | undefined {
+    return this.configService.get('auth.jwtKeyEncryptionSecret', {
+      infer: true,
+    });
+  }
+}
@@ -0,0 +1,69 @@
+import { Controller, Get, Header, VERSION_NEUTRAL } from '@nestjs/common';
+import { ApiOkResponse, ApiOperation, ApiTags } from '@nestjs/swagger';
+import { ConfigService } from '@nestjs/config';
+import { AllConfigType } from '../config/config.type';
+import { SigningKeysService } from './signing-keys.service';
+
+/**
+ * Public key discovery for resource servers
+ *
+ * Served at the origin root (excluded from the global prefix and URI
+ * versioning in main.ts), where JOSE/OIDC client libraries look for them.
+ */
+@ApiTags('Auth')
+@Controller({ path: '.well-known', version: VERSION_NEUTRAL })
+export class WellKnownController {
+  constructor(
+    private readonly signingKeysService: SigningKeysService,
+    private readonly configService: ConfigService<AllConfigType>,
+  ) {}
+
+  @ApiOperation({
+    summary: 'JSON Web Key Set',
+    description:
+      'Public keys for verifying access tokens (RFC 7517). Includes upcoming and retiring keys; select by the token "kid" header.',
+  })
+  @ApiOkResponse({ description: 'JWK Set' })
+  @Get('jwks.json')
+  @Header('Cache-Control', 'public, max-age=300')
+  getJwks() {
+    return this.signingKeysService.getJwks();
+  }
+
+  @ApiOperation({
+    summary: 'Discovery document',
+    description:
+      'OpenID-style provider metadata (issuer, jwks_uri, introspection endpoint, signing algorithms).',
+  })
+  @ApiOkResponse({ description: 'Provider metadata' })
+  @Get('openid-configuration')
+  @Header('Cache-Control', 'public, max-age=300')
+  getConfiguration() {
+    const backendDomain = this.configService.getOrThrow('app.backendDomain', {
+      infer: true,
+    });
+    const apiPrefix = this.configService.getOrThrow('app.apiPrefix', {
+      infer: true,
+    });
+
+    return {
+      issuer:
+        this.configService.get('auth.jwtIssuer', { infer: true }) ||
+        backendDomain,
+      jwks_uri: `${backendDomain}/.well-known/jwks.json`,
+      introspection_endpoint: `${backendDomain}/${apiPrefix}/v1/auth/introspect`,
+      // Required OIDC discovery members
+      response_types_supported: ['token'],
+      subject_types_supported: ['public'],
+      id_token_signing_alg_values_supported: [
+        this.configService.getOrThrow('auth.jwtAlgorithm', { infer: true }),
+      ],
+      access_token_signing_alg_values_supported: this.configService.getOrThrow(
+        'auth.jwtAllowedAlgorithms',
+        {
+          infer: true,
+        },
+      ),
+    };
+  }
+}
@@ -0,0 +1,39 @@
+import {
+  createCipheriv,
+  createDecipheriv,
+  createHash,
+  randomBytes,
+} from 'crypto';
+
+/**
+ * Encrypt a secret for storage at rest (AES-256-GCM)
+ * @returns base64url(iv).base64url(tag).base64url(data)
+ */
+export function encryptSecret(plaintext: string, key: string): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', deriveKey(key), iv);
+  const data = Buffer.concat([
+    cipher.update(plaintext, 'utf8'),
+    cipher.final(),
+  ]);
+
+  return [iv, cipher.getAuthTag(), data]
+    .map((part) => part.toString('base64url'))
+    .join('.');
+}
+
+export function decryptSecret(encrypted: string, key: string): string {
+  const [iv, tag, data] = encrypted
+    .split('.')
+    .map((part) => Buffer.from(part, 'base64url'));
+  const decipher = createDecipheriv('aes-256-gcm', deriveKey(key), iv);
+  decipher.setAuthTag(tag);
+
+  return Buffer.concat([decipher.update(data), decipher.final()]).toString(
+    'utf8',
+  );
+}
+
+function deriveKey(key: string): Buffer {
+  return createHash('sha256').update(key).digest();
+}